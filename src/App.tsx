@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { NotificationsProvider } from "@/hooks/useNotifications";
 import { CookieConsent } from "@/components/CookieConsent";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
@@ -18,6 +19,7 @@ import IdentityVerification from "./pages/IdentityVerification";
 import Help from "./pages/Help";
 import NotFound from "./pages/NotFound";
 import CryptoDeposit from "./pages/CryptoDeposit";
+import CryptoWithdraw from "./pages/CryptoWithdraw";
 import Bills from "./pages/Bills";
 import { MerchantDashboard } from "./pages/MerchantDashboard";
 import { TermsOfService } from "./pages/TermsOfService";
@@ -27,6 +29,7 @@ import BvnCallback from "@/pages/BvnCallback";
 import IdUpload from "./pages/IdUpload";
 import AdminDashboard from "./pages/AdminDashboard";
 import FundWallet from "./pages/FundWallet";
+import Checkout from "./pages/Checkout";
 
 const queryClient = new QueryClient();
 
@@ -79,6 +82,7 @@ const AppRoutes = () => (
     <Route path="/kyc/bvn-callback" element={<ProtectedRoute><BvnCallback /></ProtectedRoute>} />
     <Route path="/help" element={<ProtectedRoute><Help /></ProtectedRoute>} />
     <Route path="/crypto-deposit" element={<ProtectedRoute><CryptoDeposit /></ProtectedRoute>} />
+    <Route path="/crypto-withdraw" element={<ProtectedRoute><CryptoWithdraw /></ProtectedRoute>} />
     <Route path="/bills" element={<ProtectedRoute><Bills /></ProtectedRoute>} />
     <Route path="/merchant-dashboard" element={<ProtectedRoute><MerchantDashboard /></ProtectedRoute>} />
     <Route path="/verify-otp" element={<VerifyOtp />} />
@@ -86,6 +90,7 @@ const AppRoutes = () => (
     <Route path="/privacy" element={<PrivacyPolicy />} />
     <Route path="/id-upload" element={<ProtectedRoute><IdUpload /></ProtectedRoute>} />
     <Route path="/fund-wallet" element={<ProtectedRoute><FundWallet /></ProtectedRoute>} />
+    <Route path="/pay/:slug" element={<Checkout />} />
     <Route path="/admin" element={<AdminDashboard />} />
     <Route path="*" element={<NotFound />} />
   </Routes>
@@ -98,8 +103,10 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <AppRoutes />
-          <CookieConsent />
+          <NotificationsProvider>
+            <AppRoutes />
+            <CookieConsent />
+          </NotificationsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Download, Loader2, RefreshCw, Wallet } from 'lucide-react';
+
+interface AdminWithdrawal {
+  id: string;
+  reference: string;
+  asset: string;
+  network: string;
+  address: string;
+  amount: string;
+  networkFee: string;
+  status: string;
+  txHash: string | null;
+  confirmations: number;
+  failureReason: string | null;
+  createdAt: string;
+  userTag: string;
+  userName: string;
+  riskAction: string;
+  unsignedTx: unknown;
+  builtAt: string | null;
+}
+
+interface AdminCryptoWithdrawalsProps {
+  api: (path: string, options?: RequestInit) => Promise<Response>;
+  authHeader: string;
+}
+
+type Action = 'approve' | 'build' | 'broadcast' | 'reject' | 'fail';
+
+const STATUS_FILTERS = ['review', 'queued', 'signing', 'broadcast', 'confirmed', 'rejected', 'failed'];
+
+const SUCCESS_MESSAGES: Record<Action, string> = {
+  approve: 'Withdrawal released to the signing queue',
+  build: 'Unsigned transaction downloaded',
+  broadcast: 'Broadcast recorded',
+  reject: 'Withdrawal rejected and refunded',
+  fail: 'Withdrawal marked failed and refunded',
+};
+
+function downloadUnsigned(withdrawal: AdminWithdrawal) {
+  const blob = new Blob([JSON.stringify({ reference: withdrawal.reference, ...(withdrawal.unsignedTx as object) }, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${withdrawal.reference}-unsigned.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Crypto withdrawal signing queue. Held withdrawals are approved or rejected
+ * here; queued ones are built into unsigned transactions, signed offline and
+ * their hashes recorded so the monitor can confirm them on-chain.
+ */
+export const AdminCryptoWithdrawals: React.FC<AdminCryptoWithdrawalsProps> = ({ api, authHeader }) => {
+  const [status, setStatus] = useState('queued');
+  const [withdrawals, setWithdrawals] = useState<AdminWithdrawal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState<string | null>(null);
+  const [hashes, setHashes] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  const load = useCallback(() => {
+    setLoading(true);
+    api(`admin/crypto-withdrawals?status=${status}`, { headers: { Authorization: authHeader } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((d) => setWithdrawals(d?.data ?? []))
+      .catch(() => setWithdrawals([]))
+      .finally(() => setLoading(false));
+  }, [api, authHeader, status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAction = async (withdrawal: AdminWithdrawal, action: Action) => {
+    let body: Record<string, string> | undefined;
+    if (action === 'broadcast') {
+      const txHash = (hashes[withdrawal.id] || '').trim();
+      if (!txHash) {
+        toast.error('Paste the transaction hash from the broadcast');
+        return;
+      }
+      body = { txHash };
+    } else if (action === 'reject' || action === 'fail') {
+      const reason = (reasons[withdrawal.id] || '').trim();
+      if (!reason) {
+        toast.error('Add a reason; the customer will see it');
+        return;
+      }
+      body = { reason };
+    }
+    setActing(withdrawal.id);
+    try {
+      const res = await api(`admin/crypto-withdrawals/${withdrawal.id}/${action}`, {
+        method: 'POST',
+        headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.message || 'Action failed');
+        return;
+      }
+      if (action === 'build') downloadUnsigned(data.data);
+      toast.success(SUCCESS_MESSAGES[action]);
+      load();
+    } catch {
+      toast.error('Could not reach the server');
+    } finally {
+      setActing(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Crypto withdrawals
+          </CardTitle>
+          <Button size="sm" variant="ghost" onClick={load} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </div>
+        <CardDescription>
+          Build the unsigned transaction, sign it on the offline wallet, broadcast it, then record the hash here. Rejecting or failing refunds the customer.
+        </CardDescription>
+        <div className="flex flex-wrap gap-1 pt-2">
+          {STATUS_FILTERS.map((s) => (
+            <Button key={s} size="sm" variant={status === s ? 'default' : 'outline'} onClick={() => setStatus(s)}>
+              {s}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {withdrawals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{loading ? 'Loading…' : `No ${status} withdrawals.`}</p>
+        ) : (
+          <div className="space-y-3">
+            {withdrawals.map((w) => (
+              <div key={w.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium tabular-nums">
+                    {w.amount} {w.asset}
+                  </span>
+                  <Badge variant="outline">{w.network}</Badge>
+                  {w.riskAction !== 'allow' && <Badge variant="destructive">EWS {w.riskAction}</Badge>}
+                  <span className="text-sm text-muted-foreground">
+                    {w.userName} (@{w.userTag}) · {w.reference} · {new Date(w.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs font-mono break-all">{w.address}</p>
+                <p className="text-xs text-muted-foreground">
+                  Network fee {w.networkFee} {w.asset}
+                  {w.txHash ? ` · ${w.txHash} (${w.confirmations} confirmations)` : ''}
+                  {w.builtAt ? ` · built ${new Date(w.builtAt).toLocaleString()}` : ''}
+                  {w.failureReason ? ` · ${w.failureReason}` : ''}
+                </p>
+                {['review', 'queued', 'signing', 'broadcast'].includes(w.status) && (
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {w.status === 'review' && (
+                      <Button size="sm" onClick={() => handleAction(w, 'approve')} disabled={acting === w.id}>
+                        {acting === w.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                        Approve
+                      </Button>
+                    )}
+                    {(w.status === 'queued' || w.status === 'signing') && (
+                      <Button size="sm" variant="outline" onClick={() => handleAction(w, 'build')} disabled={acting === w.id}>
+                        <Download className="w-4 h-4 mr-1" />
+                        {w.status === 'signing' ? 'Rebuild' : 'Build unsigned'}
+                      </Button>
+                    )}
+                    {w.status === 'signing' && (
+                      <>
+                        <Input
+                          placeholder="Broadcast tx hash"
+                          value={hashes[w.id] || ''}
+                          onChange={(e) => setHashes((h) => ({ ...h, [w.id]: e.target.value }))}
+                          className="flex-1 min-w-[240px] font-mono text-xs"
+                        />
+                        <Button size="sm" onClick={() => handleAction(w, 'broadcast')} disabled={acting === w.id}>
+                          Record broadcast
+                        </Button>
+                      </>
+                    )}
+                    <Input
+                      placeholder="Reason"
+                      value={reasons[w.id] || ''}
+                      onChange={(e) => setReasons((r) => ({ ...r, [w.id]: e.target.value }))}
+                      className="flex-1 min-w-[160px]"
+                    />
+                    {w.status === 'broadcast' ? (
+                      <Button size="sm" variant="destructive" onClick={() => handleAction(w, 'fail')} disabled={acting === w.id}>
+                        Mark failed
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="destructive" onClick={() => handleAction(w, 'reject')} disabled={acting === w.id}>
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
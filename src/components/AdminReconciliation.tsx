@@ -0,0 +1,404 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, RefreshCw, Scale, Upload } from 'lucide-react';
+
+type Provider = 'paystack' | 'monnify' | 'vpay';
+
+type ExceptionType =
+  | 'missing_credit'
+  | 'unknown_transfer'
+  | 'missing_at_provider'
+  | 'duplicate'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'stuck_pending';
+
+interface ReconciliationRun {
+  id: string;
+  provider: Provider;
+  source: 'api' | 'csv';
+  periodStart: string;
+  periodEnd: string;
+  status: 'running' | 'completed' | 'failed';
+  recordCount: number;
+  matchedCount: number;
+  exceptionCount: number;
+  fileName: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+interface ReconciliationException {
+  id: string;
+  provider: Provider;
+  type: ExceptionType;
+  providerReference: string | null;
+  providerAmount: string | null;
+  ledgerAmount: string | null;
+  providerStatus: string | null;
+  status: 'open' | 'pending_approval' | 'resolved';
+  resolution: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+  transaction: { id: string; status: string; type: string; reference: string | null } | null;
+}
+
+interface Summary {
+  open: { provider: Provider; type: ExceptionType; status: string; count: number; providerAmount: number }[];
+  lastRuns: ReconciliationRun[];
+}
+
+interface AdminReconciliationProps {
+  api: (path: string, options?: RequestInit) => Promise<Response>;
+  authHeader: string;
+  // Credits go to the approvals queue, so it needs a refresh
+  onCreditProposed: () => void;
+}
+
+const PROVIDERS: { value: Provider; label: string }[] = [
+  { value: 'paystack', label: 'Paystack' },
+  { value: 'monnify', label: 'Monnify' },
+  { value: 'vpay', label: 'VPay (CSV only)' },
+];
+
+const TYPE_LABELS: Record<ExceptionType, string> = {
+  missing_credit: 'Missing credit',
+  unknown_transfer: 'Unknown transfer',
+  missing_at_provider: 'Not at provider',
+  duplicate: 'Duplicate',
+  amount_mismatch: 'Amount mismatch',
+  status_mismatch: 'Status mismatch',
+  stuck_pending: 'Stuck pending',
+};
+
+const STATUS_FILTERS: { value: ReconciliationException['status']; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'pending_approval', label: 'Awaiting approval' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+const naira = (value: string | number | null) =>
+  value == null ? '—' : `₦${Number(value).toLocaleString('en-NG', { minimumFractionDigits: 2 })}`;
+
+// Dates picked in the form are Lagos calendar days
+const lagosStart = (date: string) => new Date(`${date}T00:00:00+01:00`);
+
+export const AdminReconciliation: React.FC<AdminReconciliationProps> = ({ api, authHeader, onCreditProposed }) => {
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReconciliationException['status']>('open');
+  const [provider, setProvider] = useState<Provider>('paystack');
+  const [period, setPeriod] = useState({ from: '', to: '' });
+  const [file, setFile] = useState<File | null>(null);
+  const [running, setRunning] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [vuraTags, setVuraTags] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- refetch only when the session changes
+  }, [authHeader]);
+
+  useEffect(() => {
+    fetchExceptions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- refetch only when the filter or session changes
+  }, [authHeader, statusFilter]);
+
+  const fetchSummary = () => {
+    api('admin/reconciliation/summary', { headers: { Authorization: authHeader } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((d) => setSummary(d?.data ?? null))
+      .catch(() => setSummary(null));
+  };
+
+  const fetchExceptions = () => {
+    api(`admin/reconciliation/exceptions?status=${statusFilter}&limit=50`, { headers: { Authorization: authHeader } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((d) => setExceptions(d?.data?.exceptions ?? []))
+      .catch(() => setExceptions([]));
+  };
+
+  const refresh = () => {
+    fetchSummary();
+    fetchExceptions();
+  };
+
+  const periodBody = () => {
+    if (!period.from || !period.to) return null;
+    const to = lagosStart(period.to);
+    to.setUTCDate(to.getUTCDate() + 1);
+    return { from: lagosStart(period.from).toISOString(), to: to.toISOString() };
+  };
+
+  const reportRun = async (res: Response) => {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(data.message || 'Reconciliation failed');
+      return;
+    }
+    const run = data.data as ReconciliationRun;
+    toast.success(`${run.recordCount} records checked, ${run.exceptionCount} exceptions`);
+    refresh();
+  };
+
+  const handlePull = async () => {
+    const body = periodBody();
+    if (!body) {
+      toast.error('Pick the first and last day to reconcile');
+      return;
+    }
+    setRunning(true);
+    try {
+      const res = await api('admin/reconciliation/runs', {
+        method: 'POST',
+        headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, ...body }),
+      });
+      await reportRun(res);
+    } catch {
+      toast.error('Could not reach the server');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      toast.error('Choose the CSV export to upload');
+      return;
+    }
+    const form = new FormData();
+    form.append('file', file);
+    form.append('provider', provider);
+    const body = periodBody();
+    if (body) {
+      form.append('from', body.from);
+      form.append('to', body.to);
+    }
+    setRunning(true);
+    try {
+      const res = await api('admin/reconciliation/runs/upload', {
+        method: 'POST',
+        headers: { Authorization: authHeader },
+        body: form,
+      });
+      await reportRun(res);
+      if (res.ok) setFile(null);
+    } catch {
+      toast.error('Could not reach the server');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleResolve = async (exception: ReconciliationException, action: 'acknowledge' | 'requery' | 'credit') => {
+    const note = (notes[exception.id] || '').trim();
+    if (action !== 'requery' && !note) {
+      toast.error('Add a note explaining the resolution');
+      return;
+    }
+    setResolving(exception.id);
+    try {
+      const res = await api(`admin/reconciliation/exceptions/${exception.id}/resolve`, {
+        method: 'POST',
+        headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          note: note || undefined,
+          vuraTag: vuraTags[exception.id]?.trim() || undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.message || 'Could not resolve the exception');
+        return;
+      }
+      if (action === 'credit') {
+        toast.success('Credit submitted for approval');
+        onCreditProposed();
+      } else {
+        toast.success(action === 'requery' ? 'Transfer settled from Paystack status' : 'Exception resolved');
+      }
+      refresh();
+    } catch {
+      toast.error('Could not reach the server');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const openCounts = (summary?.open ?? []).reduce<Partial<Record<ExceptionType, number>>>((acc, g) => {
+    acc[g.type] = (acc[g.type] ?? 0) + g.count;
+    return acc;
+  }, {});
+
+  return (
+    <Card className="shadow-sm mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Provider reconciliation
+            </CardTitle>
+            <CardDescription>
+              Provider records matched against our transactions. Runs nightly for yesterday; pull a period or upload a statement to check again.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={refresh}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex flex-wrap gap-2">
+          {Object.keys(openCounts).length === 0 && <p className="text-sm text-muted-foreground">No open exceptions.</p>}
+          {(Object.entries(openCounts) as [ExceptionType, number][]).map(([type, count]) => (
+            <Badge key={type} variant="outline">
+              {TYPE_LABELS[type]}: {count}
+            </Badge>
+          ))}
+        </div>
+
+        {summary && summary.lastRuns.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {summary.lastRuns.map((run) => (
+              <div key={run.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium capitalize">{run.provider}</span>
+                  <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'}>{run.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(run.periodStart).toLocaleDateString()} – {new Date(run.periodEnd).toLocaleDateString()} · {run.source === 'csv' ? run.fileName : 'API'}
+                </p>
+                <p className="text-xs mt-1">
+                  {run.status === 'failed' ? run.error : `${run.matchedCount}/${run.recordCount} matched · ${run.exceptionCount} exceptions`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <Label className="text-xs">Provider</Label>
+              <select
+                className="mt-1 w-full h-10 rounded-md border bg-background px-3 text-sm"
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as Provider)}
+              >
+                {PROVIDERS.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label className="text-xs">First day</Label>
+              <Input type="date" className="mt-1" value={period.from} onChange={(e) => setPeriod((p) => ({ ...p, from: e.target.value }))} />
+            </div>
+            <div>
+              <Label className="text-xs">Last day</Label>
+              <Input type="date" className="mt-1" value={period.to} onChange={(e) => setPeriod((p) => ({ ...p, to: e.target.value }))} />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 items-end">
+            <Button onClick={handlePull} disabled={running || provider === 'vpay'}>
+              {running && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Pull from provider
+            </Button>
+            <div className="flex-1 min-w-[220px]">
+              <Label className="text-xs">Or upload a CSV export (reference, amount, status)</Label>
+              <Input type="file" accept=".csv" className="mt-1" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            </div>
+            <Button variant="outline" onClick={handleUpload} disabled={running || !file}>
+              <Upload className="w-4 h-4 mr-2" />
+              Upload statement
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex rounded-lg border bg-background p-1 w-fit">
+          {STATUS_FILTERS.map((f) => (
+            <button
+              key={f.value}
+              type="button"
+              onClick={() => setStatusFilter(f.value)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${statusFilter === f.value ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {exceptions.length === 0 && <p className="text-sm text-muted-foreground">Nothing here.</p>}
+          {exceptions.map((e) => (
+            <div key={e.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{TYPE_LABELS[e.type]}</Badge>
+                  <span className="text-sm capitalize">{e.provider}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">{new Date(e.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-xs text-muted-foreground font-mono break-all">
+                {e.providerReference ?? 'No provider reference'}
+                {e.transaction && ` · transaction ${e.transaction.id} (${e.transaction.status})`}
+              </p>
+              <p className="text-sm">
+                Provider {naira(e.providerAmount)}
+                {e.providerStatus && ` (${e.providerStatus})`} · Ours {naira(e.ledgerAmount)}
+              </p>
+              {e.status === 'resolved' && (
+                <p className="text-xs text-muted-foreground">
+                  {e.resolution}: {e.resolutionNote}
+                </p>
+              )}
+              {e.status === 'open' && (
+                <div className="flex flex-wrap gap-2 items-center">
+                  <Input
+                    placeholder="Note (required to acknowledge or credit)"
+                    value={notes[e.id] || ''}
+                    onChange={(ev) => setNotes((n) => ({ ...n, [e.id]: ev.target.value }))}
+                    className="flex-1 min-w-[200px]"
+                  />
+                  {e.type === 'missing_credit' && !e.transaction && (
+                    <Input
+                      placeholder="Customer @vuraTag"
+                      value={vuraTags[e.id] || ''}
+                      onChange={(ev) => setVuraTags((t) => ({ ...t, [e.id]: ev.target.value }))}
+                      className="w-44"
+                    />
+                  )}
+                  {e.type === 'missing_credit' && e.provider !== 'vpay' && (
+                    <Button size="sm" onClick={() => handleResolve(e, 'credit')} disabled={resolving === e.id}>
+                      Credit customer
+                    </Button>
+                  )}
+                  {e.type === 'stuck_pending' && e.provider === 'paystack' && (
+                    <Button size="sm" onClick={() => handleResolve(e, 'requery')} disabled={resolving === e.id}>
+                      Re-query Paystack
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleResolve(e, 'acknowledge')} disabled={resolving === e.id}>
+                    {resolving === e.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Acknowledge
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
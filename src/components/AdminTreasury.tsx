@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeftRight, Loader2, RefreshCw } from 'lucide-react';
+
+interface SwapVolume {
+  count: number;
+  usdt: string;
+  ngn: string;
+}
+
+interface TreasuryPosition {
+  positions: { NGN: string; USDT: string };
+  netUsdtExposure: string;
+  marketRate: string | null;
+  markToMarketNgn: string | null;
+  customerUsdtBalances: string;
+  swapsLast24h: { buy: SwapVolume; sell: SwapVolume };
+}
+
+interface AdminTreasuryProps {
+  api: (path: string, options?: RequestInit) => Promise<Response>;
+  authHeader: string;
+}
+
+const naira = (value: string | number) =>
+  `₦${Number(value).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const usdt = (value: string | number) =>
+  `${Number(value).toLocaleString('en-US', { maximumFractionDigits: 6 })} USDT`;
+
+/**
+ * Net position the business carries from NGN ↔ USDT swaps. A positive USDT
+ * position means users sold the treasury more USDT than they bought.
+ */
+export const AdminTreasury: React.FC<AdminTreasuryProps> = ({ api, authHeader }) => {
+  const [position, setPosition] = useState<TreasuryPosition | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    api('admin/treasury', { headers: { Authorization: authHeader } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((d) => setPosition(d?.data ?? null))
+      .catch(() => setPosition(null))
+      .finally(() => setLoading(false));
+  }, [api, authHeader]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const exposure = Number(position?.netUsdtExposure ?? 0);
+
+  return (
+    <Card className="shadow-sm mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            Treasury (USDT swaps)
+          </CardTitle>
+          <Button size="sm" variant="ghost" onClick={load} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </div>
+        <CardDescription>
+          The business side of every customer swap. Hedge the USDT position; the mark-to-market is what closing it at today&apos;s rate would leave.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!position ? (
+          <p className="text-sm text-muted-foreground">{loading ? 'Loading…' : 'Treasury position unavailable.'}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Net USDT exposure</p>
+                <p className={`text-lg font-bold tabular-nums ${exposure < 0 ? 'text-red-600' : ''}`}>
+                  {exposure > 0 ? '+' : ''}
+                  {usdt(position.netUsdtExposure)}
+                </p>
+                <p className="text-[11px] text-muted-foreground">{exposure < 0 ? 'Short: buy USDT to cover' : exposure > 0 ? 'Long: USDT to sell' : 'Flat'}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">NGN position</p>
+                <p className="text-lg font-bold tabular-nums">{naira(position.positions.NGN)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Mark-to-market</p>
+                <p className="text-lg font-bold tabular-nums">
+                  {position.markToMarketNgn != null ? naira(position.markToMarketNgn) : '—'}
+                </p>
+                <p className="text-[11px] text-muted-foreground">
+                  {position.marketRate ? `at ${naira(position.marketRate)} / USDT` : 'Rate unavailable'}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Customer USDT wallets</p>
+                <p className="text-lg font-bold tabular-nums">{usdt(position.customerUsdtBalances)}</p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Last 24h: {position.swapsLast24h.buy.count} buys ({usdt(position.swapsLast24h.buy.usdt)} for{' '}
+              {naira(position.swapsLast24h.buy.ngn)}), {position.swapsLast24h.sell.count} sells (
+              {usdt(position.swapsLast24h.sell.usdt)} for {naira(position.swapsLast24h.sell.ngn)})
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
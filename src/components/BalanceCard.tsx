@@ -1,18 +1,22 @@
-import { ArrowUpRight, ArrowDownLeft, Eye, EyeOff } from "lucide-react";
+import { ArrowUpRight, ArrowDownLeft, ArrowLeftRight, Eye, EyeOff } from "lucide-react";
 import { useState } from "react";
 import { motion } from "framer-motion";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import vuraCard from "@/assets/vura-card.png";
+import SwapDialog from "@/components/SwapDialog";
 
 interface BalanceCardProps {
   ngnBalance?: number;
   usdtBalance?: number;
   loading?: boolean;
+  // Called after an NGN ↔ USDT swap so the page can reload balances
+  onSwapped?: () => void;
 }
 
-const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false }: BalanceCardProps) => {
+const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false, onSwapped }: BalanceCardProps) => {
   const [showBalance, setShowBalance] = useState(true);
+  const [swapOpen, setSwapOpen] = useState(false);
   const { user } = useAuth();
   const navigate = useNavigate();
 
@@ -22,6 +26,12 @@ const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false }: Balan
     return validAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
   };
 
+  // USDT is held to 6 decimals, so small swaps and deposits stay visible
+  const formatUsdt = (amount: number) => {
+    const validAmount = typeof amount === 'number' && !isNaN(amount) ? amount : 0;
+    return validAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 12 }}
@@ -38,7 +48,7 @@ const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false }: Balan
       <div className="relative z-10">
         <div className="flex items-start justify-between mb-4 sm:mb-5 lg:mb-6">
           <div className="min-w-0">
-            <p className="text-xs sm:text-sm opacity-70">Total Balance</p>
+            <p className="text-xs sm:text-sm opacity-70">NGN Balance</p>
             <div className="flex items-center gap-2 mt-1">
               <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold tracking-tight truncate max-w-[180px] sm:max-w-none">
                 {loading ? "..." : showBalance ? `₦${formatAmount(ngnBalance)}` : "₦•••••••"}
@@ -50,11 +60,9 @@ const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false }: Balan
                 {showBalance ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
               </button>
             </div>
-            {usdtBalance > 0 && (
-              <p className="text-xs sm:text-sm opacity-70 mt-1">
-                USDT: {showBalance ? `$${formatAmount(usdtBalance)}` : "$••••"}
-              </p>
-            )}
+            <p className="text-xs sm:text-sm opacity-70 mt-1">
+              USDT wallet: {loading ? "..." : showBalance ? `${formatUsdt(usdtBalance)} USDT` : "••••"}
+            </p>
             {user && user.vuraTag && (
               <p className="text-xs opacity-50 mt-1">@{user.vuraTag}</p>
             )}
@@ -82,8 +90,23 @@ const BalanceCard = ({ ngnBalance = 0, usdtBalance = 0, loading = false }: Balan
             <ArrowDownLeft className="h-4 w-4" />
             Receive
           </button>
+          <button
+            onClick={() => setSwapOpen(true)}
+            className="flex items-center justify-center gap-2 rounded-xl bg-primary-foreground/10 backdrop-blur-sm px-4 sm:px-5 py-2.5 text-sm font-semibold transition-all hover:bg-primary-foreground/20 border-0"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+            Swap
+          </button>
         </div>
       </div>
+
+      <SwapDialog
+        open={swapOpen}
+        onOpenChange={setSwapOpen}
+        ngnBalance={ngnBalance}
+        usdtBalance={usdtBalance}
+        onSwapped={onSwapped}
+      />
     </motion.div>
   );
 };
@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
-import { Bell, Search, ArrowUpRight, ArrowDownLeft } from "lucide-react";
-import { useAuth, apiFetch } from "@/hooks/useAuth";
+import { useState } from "react";
+import { Bell, Search, ArrowDownLeft, FileText, ShieldCheck, Bitcoin, Receipt, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNotifications, AppNotification } from "@/hooks/useNotifications";
 import { useNavigate } from "react-router-dom";
 import {
   DropdownMenu,
@@ -9,43 +10,39 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface TxItem {
-  id: string;
-  amount: number;
-  direction: string;
-  counterparty: string;
-  createdAt: string;
-}
+const categoryIcons: Record<string, typeof Bell> = {
+  money: ArrowDownLeft,
+  payment_requests: FileText,
+  account: ShieldCheck,
+  crypto: Bitcoin,
+  bills: Receipt,
+};
+
+const notificationLink = (n: AppNotification) => {
+  if (n.type === "payment_request_received") return "/";
+  if (n.type.startsWith("kyc_")) return "/settings/identity-verification";
+  return "/transactions";
+};
 
-const systemLabels = ["Bills", "Airtime", "Data", "Electricity", "deposit", "external_transfer"];
-const formatCounterparty = (c: string, direction: string) => {
-  if (!c) return direction === "received" ? "Someone" : "—";
-  const isSystem = systemLabels.some((l) => c.toLowerCase().includes(l.toLowerCase()));
-  return isSystem || c.startsWith("@") ? c : `@${c}`;
+const formatWhen = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(iso).toLocaleDateString();
 };
 
 const DashboardHeader = () => {
   const { user } = useAuth();
+  const { notifications, unreadCount, markRead, markAllRead, archive } = useNotifications();
   const navigate = useNavigate();
-  const [recentTx, setRecentTx] = useState<TxItem[]>([]);
   const [activityOpen, setActivityOpen] = useState(false);
 
-  useEffect(() => {
-    if (!user) return;
-    let cancelled = false;
-    (async () => {
-      try {
-        const res = await apiFetch("/transactions?limit=5");
-        if (!cancelled && res.ok) {
-          const data = await res.json();
-          setRecentTx(Array.isArray(data) ? data : []);
-        }
-      } catch {
-        if (!cancelled) setRecentTx([]);
-      }
-    })();
-    return () => { cancelled = true; };
-  }, [user]);
+  const openNotification = (n: AppNotification) => {
+    setActivityOpen(false);
+    if (!n.readAt) markRead(n.id).catch(() => undefined);
+    navigate(notificationLink(n));
+  };
 
   const getInitials = (tag: string) => tag.slice(0, 2).toUpperCase();
 
@@ -63,35 +60,61 @@ const DashboardHeader = () => {
         </button>
         <DropdownMenu open={activityOpen} onOpenChange={setActivityOpen}>
           <DropdownMenuTrigger asChild>
-            <button className="relative flex h-9 w-9 sm:h-10 sm:w-10 items-center justify-center rounded-xl bg-card border border-border shadow-card transition-colors hover:bg-secondary">
+            <button
+              className="relative flex h-9 w-9 sm:h-10 sm:w-10 items-center justify-center rounded-xl bg-card border border-border shadow-card transition-colors hover:bg-secondary"
+              aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+            >
               <Bell className="h-4 w-4 sm:h-4.5 sm:w-4.5 text-muted-foreground" />
-              <span className="absolute right-1.5 top-1.5 sm:right-2 sm:top-2 h-2 w-2 rounded-full bg-primary" />
+              {unreadCount > 0 && (
+                <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
             </button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="w-72 sm:w-80">
-            <div className="px-2 py-1.5 text-sm font-semibold text-foreground">Recent activity</div>
-            {recentTx.length === 0 ? (
-              <div className="px-2 py-4 text-sm text-muted-foreground">No recent transactions</div>
+            <div className="flex items-center justify-between px-2 py-1.5">
+              <span className="text-sm font-semibold text-foreground">Notifications</span>
+              {unreadCount > 0 && (
+                <button className="text-xs font-medium text-primary hover:underline" onClick={() => markAllRead().catch(() => undefined)}>
+                  Mark all read
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <div className="px-2 py-4 text-sm text-muted-foreground">You're all caught up</div>
             ) : (
-              recentTx.map((tx) => (
-                <DropdownMenuItem
-                  key={tx.id}
-                  className="flex items-center gap-2 py-2 cursor-pointer"
-                  onSelect={() => { setActivityOpen(false); navigate("/transactions"); }}
-                >
-                  <div className={`shrink-0 flex h-8 w-8 items-center justify-center rounded-lg ${tx.direction === "received" ? "bg-primary/10 text-primary" : "bg-muted"}`}>
-                    {tx.direction === "received" ? <ArrowDownLeft className="h-4 w-4" /> : <ArrowUpRight className="h-4 w-4" />}
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <p className="text-sm text-foreground truncate">
-                      {tx.direction === "received"
-                        ? `${formatCounterparty(tx.counterparty || "", tx.direction)} sent you ₦${Number(tx.amount).toLocaleString()}`
-                        : `You sent ₦${Number(tx.amount).toLocaleString()} to ${formatCounterparty(tx.counterparty || "", tx.direction)}`}
-                    </p>
-                    <p className="text-xs text-muted-foreground">{new Date(tx.createdAt).toLocaleDateString()}</p>
-                  </div>
-                </DropdownMenuItem>
-              ))
+              <div className="max-h-96 overflow-y-auto">
+                {notifications.map((n) => {
+                  const Icon = categoryIcons[n.category] ?? Bell;
+                  return (
+                    <DropdownMenuItem
+                      key={n.id}
+                      className="group flex items-start gap-2 py-2 cursor-pointer"
+                      onSelect={() => openNotification(n)}
+                    >
+                      <div className={`shrink-0 flex h-8 w-8 items-center justify-center rounded-lg ${n.readAt ? "bg-muted" : "bg-primary/10 text-primary"}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-sm truncate ${n.readAt ? "text-muted-foreground" : "font-medium text-foreground"}`}>{n.title}</p>
+                        <p className="text-xs text-muted-foreground line-clamp-2">{n.body}</p>
+                        <p className="text-[11px] text-muted-foreground mt-0.5">{formatWhen(n.createdAt)}</p>
+                      </div>
+                      <button
+                        className="shrink-0 rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:bg-secondary group-hover:opacity-100"
+                        aria-label="Archive notification"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          archive(n.id).catch(() => undefined);
+                        }}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </DropdownMenuItem>
+                  );
+                })}
+              </div>
             )}
             <DropdownMenuItem className="text-primary font-medium justify-center" onSelect={() => { setActivityOpen(false); navigate("/transactions"); }}>
               View all transactions
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiFetch } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  mode: 'test' | 'live';
+  scopes: string[];
+  prefix: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const scopeLabels: Record<string, string> = {
+  read: 'Read: check payments, QR codes and settlements',
+  write: 'Write: create payment requests and QR codes',
+};
+
+export const MerchantApiKeys: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<'test' | 'live'>('test');
+  const [scopes, setScopes] = useState<string[]>(['read']);
+  const [isSaving, setIsSaving] = useState(false);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const fetchKeys = async () => {
+    try {
+      const response = await apiFetch('/merchant/api-keys');
+      if (response.ok) {
+        const data = await response.json();
+        setKeys(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch API keys:', error);
+    }
+  };
+
+  const createKey = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch('/merchant/api-keys', {
+        method: 'POST',
+        body: JSON.stringify({ name, mode, scopes }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowCreate(false);
+        setName('');
+        setRevealedKey(data.data.key);
+        fetchKeys();
+      } else {
+        toast({ title: 'Could not create key', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create API key', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revokeKey = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Requests using it will start failing immediately.`)) return;
+    const response = await apiFetch(`/merchant/api-keys/${key.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      fetchKeys();
+    } else {
+      toast({ title: 'Error', description: 'Failed to revoke API key', variant: 'destructive' });
+    }
+  };
+
+  const copyKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey);
+    toast({ title: 'Copied', description: 'API key copied to clipboard.' });
+  };
+
+  const formatDate = (dateString: string | null) =>
+    dateString
+      ? new Date(dateString).toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' })
+      : 'Never';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>API Keys</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Use a key as <span className="font-mono">Authorization: Bearer vk_...</span> on the /v1 API. Test keys
+            create test payment requests and QR codes that can't be paid.
+          </p>
+        </div>
+        <Button onClick={() => setShowCreate(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Key
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {keys.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <KeyRound className="h-8 w-8 mx-auto mb-2" />
+            No API keys yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((key) => (
+                <TableRow key={key.id} className={key.revokedAt ? 'opacity-50' : undefined}>
+                  <TableCell>
+                    <div className="font-medium">{key.name}</div>
+                    <Badge variant={key.mode === 'live' ? 'default' : 'secondary'}>{key.mode}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                  <TableCell>{key.scopes.join(', ')}</TableCell>
+                  <TableCell>{formatDate(key.lastUsedAt)}</TableCell>
+                  <TableCell className="text-right">
+                    {key.revokedAt ? (
+                      <span className="text-xs text-muted-foreground">Revoked</span>
+                    ) : (
+                      <Button variant="ghost" size="icon" title="Revoke" onClick={() => revokeKey(key)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create key */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create API key</DialogTitle>
+            <DialogDescription>Live keys need a verified account.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="Checkout server"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant={mode === 'test' ? 'default' : 'outline'} onClick={() => setMode('test')}>
+                  Test
+                </Button>
+                <Button variant={mode === 'live' ? 'default' : 'outline'} onClick={() => setMode('live')}>
+                  Live
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {Object.entries(scopeLabels).map(([scope, label]) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) =>
+                      setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+                    }
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={isSaving || !name.trim() || scopes.length === 0}
+              onClick={createKey}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Key'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Key, shown once */}
+      <Dialog open={!!revealedKey} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your new API key</DialogTitle>
+            <DialogDescription>Copy it now. We only store a hash, so it can't be shown again.</DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedKey ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copyKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
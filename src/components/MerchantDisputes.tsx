@@ -0,0 +1,411 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, MessageSquare, RotateCcw, ShieldAlert } from 'lucide-react';
+import { apiFetch } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface Dispute {
+  id: string;
+  paymentReference: string;
+  amount: number;
+  reason: string;
+  description: string;
+  evidence: string[];
+  merchantResponse: string | null;
+  status: 'awaiting_merchant' | 'under_review' | 'refunded' | 'rejected';
+  respondBy: string;
+  onHold: boolean;
+  resolutionNote: string | null;
+  customer: string;
+  role: 'customer' | 'merchant';
+  createdAt: string;
+}
+
+interface Refund {
+  id: string;
+  reference: string;
+  paymentReference: string;
+  amount: number;
+  reason: string | null;
+  initiatedBy: 'merchant' | 'admin';
+  disputeId: string | null;
+  customer: string;
+  createdAt: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  not_received: 'Not received',
+  not_as_described: 'Not as described',
+  unauthorized: 'Unauthorized',
+  duplicate: 'Duplicate payment',
+  other: 'Other',
+};
+
+const STATUS_BADGES: Record<Dispute['status'], { label: string; className: string }> = {
+  awaiting_merchant: { label: 'Needs response', className: 'bg-amber-500' },
+  under_review: { label: 'Under review', className: 'bg-blue-500' },
+  refunded: { label: 'Refunded', className: 'bg-gray-500' },
+  rejected: { label: 'Won', className: 'bg-green-500' },
+};
+
+export const MerchantDisputes: React.FC = () => {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [responding, setResponding] = useState<Dispute | null>(null);
+  const [response, setResponse] = useState({ text: '', evidence: '' });
+  const [showRefund, setShowRefund] = useState(false);
+  const [refundForm, setRefundForm] = useState({ reference: '', amount: '', reason: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchDisputes();
+    fetchRefunds();
+  }, []);
+
+  const fetchDisputes = async () => {
+    try {
+      const response = await apiFetch('/disputes');
+      if (response.ok) {
+        const data = await response.json();
+        setDisputes(data.data.filter((dispute: Dispute) => dispute.role === 'merchant'));
+      }
+    } catch (error) {
+      console.error('Failed to fetch disputes:', error);
+    }
+  };
+
+  const fetchRefunds = async () => {
+    try {
+      const response = await apiFetch('/refunds');
+      if (response.ok) {
+        const data = await response.json();
+        setRefunds(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch refunds:', error);
+    }
+  };
+
+  const respond = async (accept: boolean) => {
+    if (!responding) return;
+    setIsSaving(true);
+    try {
+      const res = await apiFetch(`/disputes/${responding.id}/respond`, {
+        method: 'POST',
+        body: JSON.stringify(
+          accept
+            ? { accept: true }
+            : {
+                response: response.text,
+                evidence: response.evidence
+                  .split('\n')
+                  .map((line) => line.trim())
+                  .filter(Boolean),
+              },
+        ),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setResponding(null);
+        setResponse({ text: '', evidence: '' });
+        fetchDisputes();
+        fetchRefunds();
+        toast({
+          title: accept ? 'Customer refunded' : 'Response sent',
+          description: accept
+            ? 'The dispute is closed and the hold on your balance is lifted.'
+            : 'Our team will review the dispute and let you both know the outcome.',
+        });
+      } else {
+        toast({ title: 'Could not respond', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to respond to dispute', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createRefund = async () => {
+    setIsSaving(true);
+    try {
+      const res = await apiFetch('/refunds', {
+        method: 'POST',
+        headers: { 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({
+          reference: refundForm.reference.trim(),
+          amount: refundForm.amount ? parseFloat(refundForm.amount) : undefined,
+          reason: refundForm.reason || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setShowRefund(false);
+        setRefundForm({ reference: '', amount: '', reason: '' });
+        fetchRefunds();
+        toast({ title: 'Refund sent', description: `₦${data.data.amount.toLocaleString()} is back with the customer.` });
+      } else {
+        toast({ title: 'Could not refund', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create refund', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-NG', { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Disputes</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            The disputed amount is held on your balance until the dispute is decided. Respond before the deadline,
+            or it goes to review on the customer's evidence alone.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {disputes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ShieldAlert className="h-8 w-8 mx-auto mb-2" />
+              No disputes
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {disputes.map((dispute) => (
+                  <TableRow key={dispute.id}>
+                    <TableCell className="font-mono text-xs">{dispute.paymentReference}</TableCell>
+                    <TableCell>@{dispute.customer}</TableCell>
+                    <TableCell>₦{dispute.amount.toLocaleString()}</TableCell>
+                    <TableCell>{REASON_LABELS[dispute.reason] ?? dispute.reason}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[dispute.status].className}>
+                        {STATUS_BADGES[dispute.status].label}
+                      </Badge>
+                      {dispute.status === 'awaiting_merchant' && (
+                        <div className="text-xs text-muted-foreground mt-1">By {formatDate(dispute.respondBy)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" title="View and respond" onClick={() => setResponding(dispute)}>
+                        <MessageSquare className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Refunds</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Send all or part of a Vura transfer or QR payment back to the customer from your wallet.
+            </p>
+          </div>
+          <Button onClick={() => setShowRefund(true)} className="bg-blue-600 hover:bg-blue-700">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Refund Payment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {refunds.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No refunds yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {refunds.map((refund) => (
+                  <TableRow key={refund.id}>
+                    <TableCell className="font-mono text-xs">{refund.paymentReference}</TableCell>
+                    <TableCell>@{refund.customer}</TableCell>
+                    <TableCell>₦{refund.amount.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {refund.reason || '—'}
+                      {refund.initiatedBy === 'admin' && (
+                        <div className="text-xs text-muted-foreground">Issued by Vura support</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(refund.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Dispute detail and response */}
+      <Dialog open={!!responding} onOpenChange={(open) => !open && setResponding(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Dispute of ₦{responding?.amount.toLocaleString()}</DialogTitle>
+            <DialogDescription>
+              {responding && `${REASON_LABELS[responding.reason] ?? responding.reason} · payment ${responding.paymentReference}`}
+            </DialogDescription>
+          </DialogHeader>
+          {responding && (
+            <div className="space-y-4 py-2">
+              <div className="rounded-lg border p-3 text-sm space-y-2">
+                <p className="font-medium">@{responding.customer} says</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">{responding.description}</p>
+                {responding.evidence.length > 0 && (
+                  <ul className="list-disc pl-5 text-xs text-muted-foreground break-all">
+                    {responding.evidence.map((item, index) => (
+                      <li key={index}>{item}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {responding.status === 'awaiting_merchant' ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="dispute-response">Your response</Label>
+                    <Textarea
+                      id="dispute-response"
+                      placeholder="Explain what was delivered and when"
+                      value={response.text}
+                      onChange={(e) => setResponse({ ...response, text: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dispute-evidence">Evidence (one note or link per line)</Label>
+                    <Textarea
+                      id="dispute-evidence"
+                      placeholder="https://..."
+                      value={response.evidence}
+                      onChange={(e) => setResponse({ ...response, evidence: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      disabled={isSaving}
+                      onClick={() => respond(true)}
+                    >
+                      Accept and refund
+                    </Button>
+                    <Button
+                      className="flex-1 bg-blue-600 hover:bg-blue-700"
+                      disabled={isSaving || !response.text.trim()}
+                      onClick={() => respond(false)}
+                    >
+                      {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Contest dispute'}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="text-sm space-y-2">
+                  {responding.merchantResponse && (
+                    <div className="rounded-lg border p-3">
+                      <p className="font-medium">Your response</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap">{responding.merchantResponse}</p>
+                    </div>
+                  )}
+                  {responding.resolutionNote && (
+                    <p className="text-muted-foreground">Outcome: {responding.resolutionNote}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Refund a payment */}
+      <Dialog open={showRefund} onOpenChange={setShowRefund}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund a payment</DialogTitle>
+            <DialogDescription>Leave the amount empty to refund everything not yet refunded.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="refund-reference">Payment reference</Label>
+              <Input
+                id="refund-reference"
+                placeholder="QR-... or TXN-..."
+                value={refundForm.reference}
+                onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (₦)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                placeholder="Full amount"
+                value={refundForm.amount}
+                onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason (optional)</Label>
+              <Input
+                id="refund-reason"
+                value={refundForm.reason}
+                onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+              />
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={isSaving || !refundForm.reference.trim()}
+              onClick={createRefund}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Send Refund'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
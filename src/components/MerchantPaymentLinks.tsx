@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, Link2, List, Loader2, Plus, Power } from 'lucide-react';
+import { apiFetch } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface PaymentLink {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  currency: string;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
+  status: 'active' | 'disabled';
+  available: boolean;
+  createdAt: string;
+}
+
+interface LinkPayment {
+  id: string;
+  reference: string;
+  method: 'wallet' | 'paystack';
+  amount: number;
+  payer: string | null;
+  paidAt: string;
+}
+
+export const MerchantPaymentLinks: React.FC = () => {
+  const [links, setLinks] = useState<PaymentLink[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState({ title: '', description: '', amount: '', maxUses: '', expiresAt: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [paymentsFor, setPaymentsFor] = useState<PaymentLink | null>(null);
+  const [payments, setPayments] = useState<LinkPayment[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLinks();
+  }, []);
+
+  const fetchLinks = async () => {
+    try {
+      const response = await apiFetch('/payment-links');
+      if (response.ok) {
+        const data = await response.json();
+        setLinks(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch payment links:', error);
+    }
+  };
+
+  const createLink = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch('/payment-links', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description || undefined,
+          amount: form.amount ? parseFloat(form.amount) : undefined,
+          maxUses: form.maxUses ? parseInt(form.maxUses, 10) : undefined,
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowCreate(false);
+        setForm({ title: '', description: '', amount: '', maxUses: '', expiresAt: '' });
+        fetchLinks();
+        toast({ title: 'Payment link created', description: 'Copy the link and share it with your customers.' });
+      } else {
+        toast({ title: 'Could not create link', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create payment link', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleStatus = async (link: PaymentLink) => {
+    const response = await apiFetch(`/payment-links/${link.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: link.status === 'active' ? 'disabled' : 'active' }),
+    });
+    if (response.ok) {
+      fetchLinks();
+    } else {
+      toast({ title: 'Error', description: 'Failed to update payment link', variant: 'destructive' });
+    }
+  };
+
+  const openPayments = async (link: PaymentLink) => {
+    setPaymentsFor(link);
+    setPayments([]);
+    const response = await apiFetch(`/payment-links/${link.id}/payments`);
+    if (response.ok) {
+      const data = await response.json();
+      setPayments(data.data);
+    }
+  };
+
+  const copyLink = async (link: PaymentLink) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/pay/${link.slug}`);
+    toast({ title: 'Copied', description: 'Payment link copied to clipboard.' });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Payment Links</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Share a link anyone can pay, with their Vura wallet or by card and bank transfer.
+          </p>
+        </div>
+        <Button onClick={() => setShowCreate(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Link
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {links.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Link2 className="h-8 w-8 mx-auto mb-2" />
+            No payment links yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map((link) => (
+                <TableRow key={link.id}>
+                  <TableCell>
+                    <div className="font-medium">{link.title}</div>
+                    <div className="text-xs text-muted-foreground font-mono">/pay/{link.slug}</div>
+                  </TableCell>
+                  <TableCell>{link.amount !== null ? `₦${link.amount.toLocaleString()}` : 'Any amount'}</TableCell>
+                  <TableCell>
+                    {link.useCount}
+                    {link.maxUses !== null && ` / ${link.maxUses}`}
+                  </TableCell>
+                  <TableCell>
+                    {link.status === 'disabled' ? (
+                      <Badge variant="secondary">Disabled</Badge>
+                    ) : link.available ? (
+                      <Badge className="bg-green-500">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">
+                        {link.expiresAt && new Date(link.expiresAt) <= new Date() ? 'Expired' : 'Limit reached'}
+                      </Badge>
+                    )}
+                    {link.expiresAt && (
+                      <div className="text-xs text-muted-foreground mt-1">Until {formatDate(link.expiresAt)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" title="Copy link" onClick={() => copyLink(link)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Payments" onClick={() => openPayments(link)}>
+                      <List className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={link.status === 'active' ? 'Disable' : 'Enable'}
+                      onClick={() => toggleStatus(link)}
+                    >
+                      <Power className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create link */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create payment link</DialogTitle>
+            <DialogDescription>Leave the amount empty to let the payer choose how much to pay.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="link-title">Title</Label>
+              <Input
+                id="link-title"
+                placeholder="Logo design deposit"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-description">Description (optional)</Label>
+              <Input
+                id="link-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="link-amount">Amount (₦)</Label>
+                <Input
+                  id="link-amount"
+                  type="number"
+                  placeholder="Any amount"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link-max-uses">Max uses</Label>
+                <Input
+                  id="link-max-uses"
+                  type="number"
+                  placeholder="Unlimited"
+                  value={form.maxUses}
+                  onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-expires">Expires (optional)</Label>
+              <Input
+                id="link-expires"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              />
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={isSaving || !form.title.trim()}
+              onClick={createLink}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Link'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Payments on one link */}
+      <Dialog open={!!paymentsFor} onOpenChange={(open) => !open && setPaymentsFor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{paymentsFor?.title}</DialogTitle>
+            <DialogDescription>Payments land in your wallet. Card and bank payments carry a 1.5% processing fee, capped at ₦2,000.</DialogDescription>
+          </DialogHeader>
+          {payments.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">No payments yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.payer || 'Card customer'}</TableCell>
+                    <TableCell>₦{payment.amount.toLocaleString()}</TableCell>
+                    <TableCell>{payment.method === 'wallet' ? 'Vura wallet' : 'Card / bank'}</TableCell>
+                    <TableCell>{formatDate(payment.paidAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
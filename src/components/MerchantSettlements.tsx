@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FileSpreadsheet, FileText, Landmark } from 'lucide-react';
+import { apiFetch } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface Settlement {
+  id: string;
+  date: string;
+  currency: string;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  paymentCount: number;
+  payout: { id: string; status: string; reference: string | null } | null;
+}
+
+interface Payout {
+  id: string;
+  amount: number;
+  status: 'pending' | 'sent' | 'paid' | 'failed';
+  reference: string | null;
+  error: string | null;
+  settlementCount: number;
+  createdAt: string;
+}
+
+interface PayoutSettings {
+  autoPayout: boolean;
+  schedule: 't0' | 't1';
+  minimumAmount: number;
+  bankAccountId: string | null;
+}
+
+interface BankAccount {
+  id: string;
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  isPrimary: boolean;
+}
+
+const PAYOUT_BADGES: Record<Payout['status'], { label: string; className: string }> = {
+  pending: { label: 'Processing', className: 'bg-amber-500' },
+  sent: { label: 'Sent', className: 'bg-blue-500' },
+  paid: { label: 'Paid', className: 'bg-green-500' },
+  failed: { label: 'Failed', className: 'bg-red-500' },
+};
+
+export const MerchantSettlements: React.FC = () => {
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [settings, setSettings] = useState<PayoutSettings | null>(null);
+  const [minimum, setMinimum] = useState('');
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSettlements();
+    fetchPayouts();
+    fetchSettings();
+    fetchAccounts();
+  }, []);
+
+  const fetchSettlements = async (before?: string) => {
+    try {
+      const query = before ? `?before=${encodeURIComponent(before)}` : '';
+      const response = await apiFetch(`/merchant/settlements${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSettlements((prev) => (before ? [...prev, ...data.data.settlements] : data.data.settlements));
+        setNextCursor(data.data.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to fetch settlements:', error);
+    }
+  };
+
+  const fetchPayouts = async () => {
+    try {
+      const response = await apiFetch('/merchant/settlements/payouts');
+      if (response.ok) {
+        const data = await response.json();
+        setPayouts(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch payouts:', error);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const response = await apiFetch('/merchant/settlements/settings');
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.data);
+        setMinimum(String(data.data.minimumAmount));
+      }
+    } catch (error) {
+      console.error('Failed to fetch payout settings:', error);
+    }
+  };
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await apiFetch('/bank-accounts');
+      if (response.ok) {
+        setAccounts(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch bank accounts:', error);
+    }
+  };
+
+  const saveSettings = async (changes: Partial<PayoutSettings>) => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch('/merchant/settlements/settings', {
+        method: 'PUT',
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setSettings(data.data);
+        setMinimum(String(data.data.minimumAmount));
+        toast({ title: 'Payout settings saved' });
+      } else {
+        toast({ title: 'Could not save settings', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to save payout settings', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const downloadStatement = async (settlement: Settlement, format: 'csv' | 'pdf') => {
+    try {
+      const response = await apiFetch(`/merchant/settlements/${settlement.id}/statement?format=${format}`);
+      if (!response.ok) {
+        throw new Error('Statement download failed');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `vura-settlement-${settlement.date}.${format}`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to download statement', variant: 'destructive' });
+    }
+  };
+
+  const formatAmount = (amount: number) =>
+    `₦${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Payouts</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Settlements close daily at midnight (WAT). With automatic payouts on, the settled balance is sent to your
+            bank once it reaches your minimum.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="auto-payout">Automatic payouts</Label>
+                  <p className="text-xs text-muted-foreground">Otherwise settled funds stay in your Vura wallet</p>
+                </div>
+                <Switch
+                  id="auto-payout"
+                  checked={settings.autoPayout}
+                  disabled={isSaving}
+                  onCheckedChange={(autoPayout) => saveSettings({ autoPayout })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Schedule</Label>
+                <div className="flex gap-2">
+                  <Button
+                    variant={settings.schedule === 't0' ? 'default' : 'outline'}
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => saveSettings({ schedule: 't0' })}
+                  >
+                    T+0 (next morning)
+                  </Button>
+                  <Button
+                    variant={settings.schedule === 't1' ? 'default' : 'outline'}
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => saveSettings({ schedule: 't1' })}
+                  >
+                    T+1 (a day later)
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payout-minimum">Minimum payout (₦)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="payout-minimum"
+                    type="number"
+                    value={minimum}
+                    onChange={(e) => setMinimum(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={isSaving || !minimum || Number(minimum) === settings.minimumAmount}
+                    onClick={() => saveSettings({ minimumAmount: parseFloat(minimum) })}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payout-account">Payout account</Label>
+                <select
+                  id="payout-account"
+                  className="w-full h-10 rounded-md border bg-background px-3 text-sm"
+                  value={settings.bankAccountId ?? ''}
+                  disabled={isSaving}
+                  onChange={(e) => saveSettings({ bankAccountId: e.target.value || null })}
+                >
+                  <option value="">Primary bank account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.bankName} · {account.accountNumber} ({account.accountName})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {payouts.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Settlements</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.map((payout) => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{formatDate(payout.createdAt)}</TableCell>
+                    <TableCell>{formatAmount(payout.amount)}</TableCell>
+                    <TableCell>{payout.settlementCount}</TableCell>
+                    <TableCell>
+                      <Badge className={PAYOUT_BADGES[payout.status].className}>
+                        {PAYOUT_BADGES[payout.status].label}
+                      </Badge>
+                      {payout.error && <div className="text-xs text-muted-foreground mt-1">{payout.error}</div>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Settlements</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            One statement per day of QR and payment link receipts, with fees itemised.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {settlements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Landmark className="h-8 w-8 mx-auto mb-2" />
+              No settlements yet
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Payments</TableHead>
+                    <TableHead>Gross</TableHead>
+                    <TableHead>Fees</TableHead>
+                    <TableHead>Net</TableHead>
+                    <TableHead>Payout</TableHead>
+                    <TableHead className="text-right">Statement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settlements.map((settlement) => (
+                    <TableRow key={settlement.id}>
+                      <TableCell>{formatDate(settlement.date)}</TableCell>
+                      <TableCell>{settlement.paymentCount}</TableCell>
+                      <TableCell>{formatAmount(settlement.grossAmount)}</TableCell>
+                      <TableCell>{formatAmount(settlement.feeAmount)}</TableCell>
+                      <TableCell className="font-medium">{formatAmount(settlement.netAmount)}</TableCell>
+                      <TableCell>
+                        {settlement.payout ? (
+                          <Badge variant="outline">
+                            {PAYOUT_BADGES[settlement.payout.status as Payout['status']]?.label ?? settlement.payout.status}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">In wallet</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Download CSV"
+                          onClick={() => downloadStatement(settlement, 'csv')}
+                        >
+                          <FileSpreadsheet className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Download PDF"
+                          onClick={() => downloadStatement(settlement, 'pdf')}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {nextCursor && (
+                <div className="text-center mt-4">
+                  <Button variant="outline" onClick={() => fetchSettlements(nextCursor)}>
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,479 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, KeyRound, Loader2, Plus, RotateCcw, Trash2, Webhook } from 'lucide-react';
+import { apiFetch } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+interface WebhookAttempt {
+  id: string;
+  statusCode: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  endpoint: { url: string };
+  attemptsLog?: WebhookAttempt[];
+}
+
+const eventLabels: Record<string, string> = {
+  'qr_payment.completed': 'QR payment completed',
+  'payment_request.paid': 'Payment request paid',
+  'payment_link.paid': 'Payment link paid',
+  'refund.created': 'Refund created',
+  'dispute.opened': 'Dispute opened',
+  'dispute.resolved': 'Dispute resolved',
+};
+
+export const MerchantWebhooks: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEndpoints();
+    fetchDeliveries();
+  }, []);
+
+  const fetchEndpoints = async () => {
+    try {
+      const response = await apiFetch('/merchant/webhooks');
+      if (response.ok) {
+        const data = await response.json();
+        setEndpoints(data.data.endpoints);
+        setAvailableEvents(data.data.events);
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhook endpoints:', error);
+    }
+  };
+
+  const fetchDeliveries = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiFetch('/merchant/webhooks/deliveries?limit=50');
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhook deliveries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createEndpoint = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch('/merchant/webhooks', {
+        method: 'POST',
+        body: JSON.stringify({
+          url: newUrl,
+          description: newDescription || undefined,
+          events: newEvents,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowCreate(false);
+        setNewUrl('');
+        setNewDescription('');
+        setNewEvents([]);
+        setRevealedSecret(data.data.secret);
+        fetchEndpoints();
+      } else {
+        toast({ title: 'Could not add endpoint', description: data.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to add endpoint', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleEndpoint = async (endpoint: WebhookEndpoint) => {
+    const enabled = !endpoint.enabled;
+    setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? { ...e, enabled } : e)));
+    const response = await apiFetch(`/merchant/webhooks/${endpoint.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ enabled }),
+    });
+    if (!response.ok) {
+      setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? endpoint : e)));
+      toast({ title: 'Error', description: 'Failed to update endpoint', variant: 'destructive' });
+    }
+  };
+
+  const deleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Delete ${endpoint.url}? Its delivery history is deleted too.`)) return;
+    const response = await apiFetch(`/merchant/webhooks/${endpoint.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      fetchEndpoints();
+      fetchDeliveries();
+    } else {
+      toast({ title: 'Error', description: 'Failed to delete endpoint', variant: 'destructive' });
+    }
+  };
+
+  const rollSecret = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm('Issue a new signing secret? The current one stops working immediately.')) return;
+    const response = await apiFetch(`/merchant/webhooks/${endpoint.id}/roll-secret`, { method: 'POST' });
+    const data = await response.json();
+    if (response.ok) {
+      setRevealedSecret(data.data.secret);
+    } else {
+      toast({ title: 'Error', description: data.message, variant: 'destructive' });
+    }
+  };
+
+  const openDelivery = async (delivery: WebhookDelivery) => {
+    setSelectedDelivery(delivery);
+    const response = await apiFetch(`/merchant/webhooks/deliveries/${delivery.id}`);
+    if (response.ok) {
+      const data = await response.json();
+      setSelectedDelivery(data.data);
+    }
+  };
+
+  const replayDelivery = async (delivery: WebhookDelivery) => {
+    const response = await apiFetch(`/merchant/webhooks/deliveries/${delivery.id}/replay`, {
+      method: 'POST',
+    });
+    const data = await response.json();
+    if (response.ok) {
+      toast({ title: 'Replay queued', description: 'The event will be sent again in a few seconds.' });
+      setSelectedDelivery(null);
+      fetchDeliveries();
+    } else {
+      toast({ title: 'Could not replay', description: data.message, variant: 'destructive' });
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast({ title: 'Copied', description: 'Signing secret copied to clipboard.' });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-NG', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const statusVariant = (status: WebhookDelivery['status']) =>
+    status === 'succeeded' ? 'default' : status === 'pending' ? 'secondary' : 'destructive';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Webhook Endpoints</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              We POST signed JSON to these URLs when you get paid. Verify the Vura-Signature header with your
+              endpoint's secret.
+            </p>
+          </div>
+          <Button onClick={() => setShowCreate(true)} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Endpoint
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {endpoints.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Webhook className="h-8 w-8 mx-auto mb-2" />
+              No webhook endpoints yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map((endpoint) => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell>
+                      <div className="font-mono text-xs break-all">{endpoint.url}</div>
+                      {endpoint.description && (
+                        <div className="text-xs text-muted-foreground">{endpoint.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map((event) => (
+                          <Badge key={event} variant="secondary">
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={endpoint.enabled} onCheckedChange={() => toggleEndpoint(endpoint)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" title="Roll secret" onClick={() => rollSecret(endpoint)}>
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Delete" onClick={() => deleteEndpoint(endpoint)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Recent Deliveries</CardTitle>
+          <Button variant="outline" size="sm" onClick={fetchDeliveries}>
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No deliveries yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                deliveries.map((delivery) => (
+                  <TableRow
+                    key={delivery.id}
+                    className="cursor-pointer"
+                    onClick={() => openDelivery(delivery)}
+                  >
+                    <TableCell>{eventLabels[delivery.eventType] ?? delivery.eventType}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{delivery.endpoint.url}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(delivery.status)}>{delivery.status}</Badge>
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell>{formatDate(delivery.createdAt)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Add endpoint */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add webhook endpoint</DialogTitle>
+            <DialogDescription>Choose where to send events and which ones you want.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/vura/webhooks"
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description (optional)</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Order system"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {availableEvents.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={newEvents.includes(event)}
+                    onCheckedChange={(checked) =>
+                      setNewEvents((prev) =>
+                        checked ? [...prev, event] : prev.filter((e) => e !== event)
+                      )
+                    }
+                  />
+                  {eventLabels[event] ?? event}
+                  <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                </label>
+              ))}
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={isSaving || !newUrl || newEvents.length === 0}
+              onClick={createEndpoint}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add Endpoint'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Secret, shown once */}
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>
+              Copy it now. You won't be able to see it again; roll the secret if you lose it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery attempts */}
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedDelivery && (eventLabels[selectedDelivery.eventType] ?? selectedDelivery.eventType)}</DialogTitle>
+            <DialogDescription className="font-mono text-xs break-all">
+              {selectedDelivery?.eventId} → {selectedDelivery?.endpoint.url}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDelivery && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <Badge variant={statusVariant(selectedDelivery.status)}>{selectedDelivery.status}</Badge>
+                  {selectedDelivery.status === 'pending' && selectedDelivery.attempts > 0 && (
+                    <span className="ml-2 text-muted-foreground">
+                      Next attempt {formatDate(selectedDelivery.nextAttemptAt)}
+                    </span>
+                  )}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => replayDelivery(selectedDelivery)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Replay
+                </Button>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Duration</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(selectedDelivery.attemptsLog ?? []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-muted-foreground">
+                        Not attempted yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    selectedDelivery.attemptsLog!.map((attempt) => (
+                      <TableRow key={attempt.id}>
+                        <TableCell>{formatDate(attempt.createdAt)}</TableCell>
+                        <TableCell>
+                          <div className="font-semibold">{attempt.statusCode ?? 'No response'}</div>
+                          {(attempt.error || attempt.responseBody) && (
+                            <div className="font-mono text-xs text-muted-foreground break-all">
+                              {attempt.error ?? attempt.responseBody}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{attempt.durationMs} ms</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
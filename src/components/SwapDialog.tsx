@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { ArrowDownUp, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+
+type SwapCurrency = "NGN" | "USDT";
+
+interface SwapQuote {
+  id: string;
+  side: "buy" | "sell";
+  from: { currency: SwapCurrency; amount: string };
+  to: { currency: SwapCurrency; amount: string };
+  rate: string;
+  spread: string;
+  expiresAt: string;
+}
+
+interface SwapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ngnBalance: number;
+  usdtBalance: number;
+  onSwapped?: () => void;
+}
+
+const SwapDialog = ({ open, onOpenChange, ngnBalance, usdtBalance, onSwapped }: SwapDialogProps) => {
+  const [from, setFrom] = useState<SwapCurrency>("NGN");
+  const [amount, setAmount] = useState("");
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [pin, setPin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const to: SwapCurrency = from === "NGN" ? "USDT" : "NGN";
+  const available = from === "NGN" ? ngnBalance : usdtBalance;
+  const secondsLeft = quote ? Math.max(0, Math.floor((new Date(quote.expiresAt).getTime() - now) / 1000)) : 0;
+
+  useEffect(() => {
+    if (!quote) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const reset = () => {
+    setAmount("");
+    setQuote(null);
+    setPin("");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const flip = () => {
+    setFrom(to);
+    setQuote(null);
+  };
+
+  const getQuote = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast({ title: "Enter an amount", variant: "destructive" });
+      return;
+    }
+    if (value > available) {
+      toast({ title: "Insufficient balance", description: `You have ${available.toLocaleString()} ${from}`, variant: "destructive" });
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await apiFetch("/swaps/quote", {
+        method: "POST",
+        body: JSON.stringify({ from, amount }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Could not get a rate");
+      setQuote(data.data);
+      setNow(Date.now());
+    } catch (e) {
+      toast({ title: "Quote failed", description: e instanceof Error ? e.message : "Could not get a rate", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmSwap = async () => {
+    if (!quote) return;
+    if (pin.length !== 6) {
+      toast({ title: "PIN required", description: "Enter your 6-digit PIN", variant: "destructive" });
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await apiFetch("/swaps", {
+        method: "POST",
+        headers: { "Idempotency-Key": quote.id },
+        body: JSON.stringify({ quoteId: quote.id, pin }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Swap failed");
+      toast({
+        title: "Swap complete",
+        description: `${data.data.from.amount} ${data.data.from.currency} → ${data.data.to.amount} ${data.data.to.currency}`,
+      });
+      handleOpenChange(false);
+      onSwapped?.();
+    } catch (e) {
+      toast({ title: "Swap failed", description: e instanceof Error ? e.message : "Swap failed", variant: "destructive" });
+      setPin("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Swap {from} to {to}</DialogTitle>
+          <DialogDescription>
+            Available: {available.toLocaleString(undefined, { maximumFractionDigits: from === "NGN" ? 2 : 6 })} {from}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!quote ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder={`Amount in ${from}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <Button variant="outline" size="icon" onClick={flip} aria-label="Swap direction">
+                <ArrowDownUp className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button className="w-full" onClick={getQuote} disabled={loading || !amount}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Get rate
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-xl bg-muted p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">You pay</span>
+                <span className="font-semibold">{quote.from.amount} {quote.from.currency}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">You get</span>
+                <span className="font-semibold">{quote.to.amount} {quote.to.currency}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Rate</span>
+                <span>₦{Number(quote.rate).toLocaleString(undefined, { maximumFractionDigits: 2 })} / USDT</span>
+              </div>
+              <p className="text-xs text-muted-foreground pt-1">
+                Includes a {(Number(quote.spread) * 100).toFixed(2)}% spread.{" "}
+                {secondsLeft > 0 ? `Rate held for ${secondsLeft}s.` : "This rate has expired."}
+              </p>
+            </div>
+
+            {secondsLeft > 0 ? (
+              <>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  placeholder="Enter PIN"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                  className="text-center tracking-widest"
+                />
+                <Button className="w-full" onClick={confirmSwap} disabled={loading || pin.length !== 6}>
+                  {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Confirm swap
+                </Button>
+              </>
+            ) : (
+              <Button className="w-full" onClick={getQuote} disabled={loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Get new rate
+              </Button>
+            )}
+            <Button variant="ghost" className="w-full" onClick={() => setQuote(null)} disabled={loading}>
+              Change amount
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SwapDialog;
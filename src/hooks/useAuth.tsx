@@ -16,11 +16,16 @@ interface AuthContextType {
   signUp: (phone: string, pin: string, vuraTag: string, email?: string, password?: string) => Promise<void>;
   signIn: (vuraTag: string, pin: string) => Promise<SignInResult>;
   completeRegistration: (pendingId: string, otp: string) => Promise<void>;
-  resendOtp: (email: string, purpose?: string) => Promise<void>;
+  resendOtp: (params: ResendOtpParams) => Promise<string | undefined>;
   verifyDeviceOtp: (vuraTag: string, otp: string, deviceFingerprint: string) => Promise<void>;
   signOut: () => void;
 }
 
+// Registration codes are resent by pendingId, login codes by vuraTag
+type ResendOtpParams =
+  | { purpose: "registration"; pendingId?: string }
+  | { purpose: "device_verification"; vuraTag?: string };
+
 type SignInResult =
   | { requiresVerification: false }
   | {
@@ -34,6 +39,12 @@ type SignInResult =
 
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
 
+const clearStoredSession = () => {
+  removeSecureStorage("vura_token");
+  removeSecureStorage("vura_refresh_token");
+  removeSecureStorage("vura_user");
+};
+
 // Session timeout in milliseconds (15 minutes)
 const SESSION_TIMEOUT = 15 * 60 * 1000;
 
@@ -105,8 +116,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setUser(JSON.parse(storedUser));
         setSessionExpiry(Date.now() + SESSION_TIMEOUT);
       } catch (e) {
-        removeSecureStorage("vura_token");
-        removeSecureStorage("vura_user");
+        clearStoredSession();
       }
     }
     setLoading(false);
@@ -158,6 +168,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
 
     setSecureStorage("vura_token", data.token);
+    setSecureStorage("vura_refresh_token", data.refreshToken);
     setSecureStorage("vura_user", JSON.stringify(data.user));
     setToken(data.token);
     setUser(data.user);
@@ -180,26 +191,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
 
     setSecureStorage("vura_token", data.token);
+    setSecureStorage("vura_refresh_token", data.refreshToken);
     setSecureStorage("vura_user", JSON.stringify(data.user));
     setToken(data.token);
     setUser(data.user);
     setSessionExpiry(Date.now() + SESSION_TIMEOUT);
   };
 
-  const resendOtp = async (email: string, purpose?: string) => {
+  const resendOtp = async (params: ResendOtpParams) => {
     const API_URL = getApiUrl();
     const response = await fetch(`${API_URL}/auth/resend-otp`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ email, purpose }),
+      body: JSON.stringify(params),
     });
 
     const data = await parseJsonResponse(response, API_URL);
-    if (!response.ok) {
+    if (!response.ok || data.success === false) {
       throw new Error(data.message || "Resend failed");
     }
+    return data.message as string | undefined;
   };
 
   const signIn = async (vuraTag: string, pin: string): Promise<SignInResult> => {
@@ -234,6 +247,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
 
     setSecureStorage("vura_token", data.token);
+    setSecureStorage("vura_refresh_token", data.refreshToken);
     setSecureStorage("vura_user", JSON.stringify(data.user));
     setToken(data.token);
     setUser(data.user);
@@ -259,6 +273,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
 
     setSecureStorage("vura_token", data.token);
+    setSecureStorage("vura_refresh_token", data.refreshToken);
     setSecureStorage("vura_user", JSON.stringify(data.user));
     setToken(data.token);
     setUser(data.user);
@@ -266,8 +281,16 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const signOut = () => {
-    removeSecureStorage("vura_token");
-    removeSecureStorage("vura_user");
+    // Revoke the session server-side so the refresh token dies with it
+    const refreshToken = getSecureStorage("vura_refresh_token");
+    if (refreshToken) {
+      fetch(`${getApiUrl()}/auth/logout`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => undefined);
+    }
+    clearStoredSession();
     setToken(null);
     setUser(null);
     setSessionExpiry(null);
@@ -294,37 +317,80 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
 export const useAuth = () => useContext(AuthContext);
 
+// Shared by concurrent 401s so the refresh token is only spent once
+let refreshInFlight: Promise<string | null> | null = null;
+
+// Swap the stored refresh token for a new token pair. Resolves to the new
+// access token, or null when the session is gone.
+const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshInFlight) return refreshInFlight;
+
+  const refreshToken = getSecureStorage("vura_refresh_token");
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshInFlight = (async () => {
+    try {
+      const response = await fetch(`${getApiUrl()}/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      setSecureStorage("vura_token", data.token);
+      setSecureStorage("vura_refresh_token", data.refreshToken);
+      return data.token as string;
+    } catch {
+      return null;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+  return refreshInFlight;
+};
+
 // API helper with auth
 export const apiFetch = async (endpoint: string, options: RequestInit = {}): Promise<Response> => {
   const API_URL = getApiUrl();
-  const token = getSecureStorage("vura_token");
   const deviceFingerprint = generateDeviceFingerprint();
-  
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    "X-Device-Fingerprint": deviceFingerprint,
+
+  const send = (token: string | null) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Device-Fingerprint": deviceFingerprint,
+    };
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    return fetch(`${API_URL}${endpoint}`, {
+      method: options.method || "GET",
+      body: options.body,
+      credentials: options.credentials,
+      signal: options.signal,
+      headers: {
+        ...headers,
+        ...(options.headers as Record<string, string>),
+      },
+    });
   };
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
+
+  let response = await send(getSecureStorage("vura_token"));
+
+  // Access tokens are short-lived; refresh once and replay the request
+  if (response.status === 401) {
+    const refreshed = await refreshAccessToken();
+    if (refreshed) {
+      response = await send(refreshed);
+    }
   }
-  
-  const response = await fetch(`${API_URL}${endpoint}`, {
-    method: options.method || "GET",
-    body: options.body,
-    credentials: options.credentials,
-    headers: {
-      ...headers,
-      ...(options.headers as Record<string, string>),
-    },
-  });
 
   if (response.status === 401) {
-    removeSecureStorage("vura_token");
-    removeSecureStorage("vura_user");
+    clearStoredSession();
     window.location.href = "/login";
     throw new Error("Session expired");
   }
 
   return response;
-};
\ No newline at end of file
+};
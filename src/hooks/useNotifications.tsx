@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from "react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth, apiFetch } from "@/hooks/useAuth";
+
+export interface AppNotification {
+  id: string;
+  category: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  readAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  // Most recent notification pushed over the stream, for pages that refresh on events
+  latest: AppNotification | null;
+  refresh: () => Promise<void>;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  archive: (id: string) => Promise<void>;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+const NotificationsContext = createContext<NotificationsContextType>({} as NotificationsContextType);
+
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits a server-sent events buffer into complete events and the unparsed
+ * remainder. EventSource can't send an Authorization header, so the stream
+ * is read through fetch instead.
+ */
+const parseEvents = (buffer: string): { events: StreamEvent[]; rest: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? "";
+  const events = blocks.map((block) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+    }
+    return { event, data: data.join("\n") };
+  });
+  return { events, rest };
+};
+
+export const NotificationsProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [latest, setLatest] = useState<AppNotification | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await apiFetch("/notifications?limit=20");
+      if (res.ok) {
+        const { data } = await res.json();
+        setNotifications(Array.isArray(data?.notifications) ? data.notifications : []);
+        setUnreadCount(Number(data?.unreadCount) || 0);
+      }
+    } catch {
+      // Keep what we have; the stream or next refresh will catch up
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLatest(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleEvent = ({ event, data }: StreamEvent) => {
+      if (event === "notification") {
+        const payload = JSON.parse(data) as { notification: AppNotification; unreadCount: number };
+        setNotifications((prev) => [payload.notification, ...prev.filter((n) => n.id !== payload.notification.id)]);
+        setUnreadCount(payload.unreadCount);
+        setLatest(payload.notification);
+        toast({ title: payload.notification.title, description: payload.notification.body });
+      } else if (event === "unread") {
+        setUnreadCount((JSON.parse(data) as { unreadCount: number }).unreadCount);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const res = await apiFetch("/notifications/stream", {
+          signal: controller.signal,
+          headers: { Accept: "text/event-stream" },
+        });
+        if (!res.ok || !res.body) throw new Error(`Stream failed (${res.status})`);
+
+        // Anything raised while we were disconnected
+        await refresh();
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const { events, rest } = parseEvents(buffer);
+          buffer = rest;
+          events.forEach(handleEvent);
+        }
+      } catch {
+        // Aborted on sign-out/unmount, or the connection dropped
+      }
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [user, refresh]);
+
+  const markRead = async (id: string) => {
+    setNotifications((prev) => prev.map((n) => (n.id === id && !n.readAt ? { ...n, readAt: new Date().toISOString() } : n)));
+    const res = await apiFetch(`/notifications/${id}/read`, { method: "PATCH" });
+    if (res.ok) {
+      const { data } = await res.json();
+      setUnreadCount(Number(data?.unreadCount) || 0);
+    }
+  };
+
+  const markAllRead = async () => {
+    const now = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt: now })));
+    const res = await apiFetch("/notifications/read-all", { method: "POST" });
+    if (res.ok) {
+      setUnreadCount(0);
+    }
+  };
+
+  const archive = async (id: string) => {
+    setNotifications((prev) => prev.filter((n) => n.id !== id));
+    const res = await apiFetch(`/notifications/${id}/archive`, { method: "PATCH" });
+    if (res.ok) {
+      const { data } = await res.json();
+      setUnreadCount(Number(data?.unreadCount) || 0);
+    }
+  };
+
+  return (
+    <NotificationsContext.Provider
+      value={{ notifications, unreadCount, latest, refresh, markRead, markAllRead, archive }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+export const useNotifications = () => useContext(NotificationsContext);
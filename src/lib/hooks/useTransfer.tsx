@@ -22,6 +22,8 @@ interface TransferState {
   isSending: boolean;
   error: string | null;
   result: TransferResult | null;
+  // One key per user action; reused on retry, cleared once the action completes or the form changes
+  idempotencyKey: string | null;
 }
 
 // Action types
@@ -37,6 +39,7 @@ type TransferAction =
   | { type: 'SET_VERIFYING_ACCOUNT'; payload: boolean }
   | { type: 'SET_SENDING'; payload: boolean }
   | { type: 'SET_RESULT'; payload: TransferResult | null }
+  | { type: 'SET_IDEMPOTENCY_KEY'; payload: string | null }
   | { type: 'RESET' };
 
 // Initial state
@@ -63,6 +66,7 @@ const initialState: TransferState = {
   isSending: false,
   error: null,
   result: null,
+  idempotencyKey: null,
 };
 
 // Reducer
@@ -78,11 +82,13 @@ function transferReducer(state: TransferState, action: TransferAction): Transfer
         accountVerified: false,
         accountName: '',
         error: null,
+        idempotencyKey: null,
       };
     case 'SET_FORM_DATA':
       return {
         ...state,
         formData: { ...state.formData, ...action.payload },
+        idempotencyKey: null,
       };
     case 'SET_STATUS':
       return { ...state, status: action.payload };
@@ -111,7 +117,14 @@ function transferReducer(state: TransferState, action: TransferAction): Transfer
     case 'SET_SENDING':
       return { ...state, isSending: action.payload };
     case 'SET_RESULT':
-      return { ...state, result: action.payload, status: action.payload ? 'success' : state.status };
+      return {
+        ...state,
+        result: action.payload,
+        status: action.payload ? 'success' : state.status,
+        idempotencyKey: action.payload ? null : state.idempotencyKey,
+      };
+    case 'SET_IDEMPOTENCY_KEY':
+      return { ...state, idempotencyKey: action.payload };
     case 'RESET':
       return {
         ...initialState,
@@ -199,6 +212,9 @@ export function TransferProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_SENDING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
 
+    const idempotencyKey = state.idempotencyKey ?? crypto.randomUUID();
+    dispatch({ type: 'SET_IDEMPOTENCY_KEY', payload: idempotencyKey });
+
     try {
       let result: TransferResult;
       
@@ -207,7 +223,8 @@ export function TransferProvider({ children }: { children: ReactNode }) {
           state.formData.recipient,
           state.formData.amount,
           state.formData.description,
-          state.formData.pin
+          state.formData.pin,
+          idempotencyKey
         );
       } else {
         result = await TransferService.sendToBank(
@@ -216,7 +233,9 @@ export function TransferProvider({ children }: { children: ReactNode }) {
           state.accountName,
           state.formData.amount,
           state.formData.description,
-          state.formData.pin
+          state.formData.pin,
+          undefined,
+          idempotencyKey
         );
       }
       
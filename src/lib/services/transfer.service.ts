@@ -109,13 +109,15 @@ export class TransferService {
   }
 
   /**
-   * Send money to Vura tag
+   * Send money to Vura tag.
+   * Pass the same idempotencyKey when retrying one user action so it is never debited twice.
    */
   static async sendToTag(
     recipientTag: string,
     amount: number,
     description?: string,
-    pin?: string
+    pin?: string,
+    idempotencyKey: string = crypto.randomUUID()
   ): Promise<TransferResult> {
     const { data: { session } } = await supabase.auth.getSession();
     
@@ -126,6 +128,7 @@ export class TransferService {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${session.access_token}`,
+        'Idempotency-Key': idempotencyKey,
       },
       body: JSON.stringify({
         recipientTag: recipientTag.replace('@', ''),
@@ -151,7 +154,8 @@ export class TransferService {
   }
 
   /**
-   * Send money to bank account
+   * Send money to bank account.
+   * Pass the same idempotencyKey when retrying one user action so it is never debited twice.
    */
   static async sendToBank(
     accountNumber: string,
@@ -160,7 +164,8 @@ export class TransferService {
     amount: number,
     description?: string,
     pin?: string,
-    paymentProvider: 'paystack' | 'monnify' = 'monnify'
+    paymentProvider: 'paystack' | 'monnify' = 'monnify',
+    idempotencyKey: string = crypto.randomUUID()
   ): Promise<TransferResult> {
     const { data: { session } } = await supabase.auth.getSession();
     
@@ -171,6 +176,7 @@ export class TransferService {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${session.access_token}`,
+        'Idempotency-Key': idempotencyKey,
       },
       body: JSON.stringify({
         accountNumber,
@@ -25,6 +25,9 @@ import {
   Banknote,
 } from 'lucide-react';
 import { Link, useSearchParams } from 'react-router-dom';
+import { AdminReconciliation } from '@/components/AdminReconciliation';
+import { AdminTreasury } from '@/components/AdminTreasury';
+import { AdminCryptoWithdrawals } from '@/components/AdminCryptoWithdrawals';
 
 interface User {
   id: string;
@@ -49,6 +52,24 @@ interface User {
   createdAt: string;
 }
 
+interface PendingApproval {
+  id: string;
+  type: 'credit' | 'float_topup' | 'hold_release' | 'reconciliation_credit';
+  payload: { amount?: string; userId?: string; transactionId?: string; reference?: string };
+  reason: string;
+  evidenceReference: string;
+  expiresAt: string;
+  createdAt: string;
+  maker: { id: string; name: string; email: string };
+}
+
+const APPROVAL_LABELS: Record<PendingApproval['type'], string> = {
+  credit: 'Wallet credit',
+  float_topup: 'Float top-up',
+  hold_release: 'Hold release',
+  reconciliation_credit: 'Reconciliation credit',
+};
+
 /** Date when user entered verification (for queue ordering and "waiting" display). */
 function getSubmittedAt(u: User): string | null {
   return u.ninVerifiedAt || u.bvnVerifiedAt || u.createdAt || null;
@@ -66,7 +87,7 @@ interface KYCStats {
   kycStatusBreakdown: { pending: number; verified: number; rejected: number };
 }
 
-const ADMIN_SECRET_KEY = 'vura_admin_secret';
+const ADMIN_TOKEN_KEY = 'vura_admin_token';
 const LIMIT = 20;
 
 /** All admin API calls use this base. Set VITE_API_URL to https://vura-app.onrender.com in Vercel so this points to your backend. */
@@ -77,14 +98,15 @@ function adminApi(path: string, options?: RequestInit & { headers?: HeadersInit
 }
 
 export default function AdminDashboard() {
-  const [adminSecret, setAdminSecret] = useState<string | null>(() =>
-    typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(ADMIN_SECRET_KEY) : null,
+  const [adminToken, setAdminToken] = useState<string | null>(() =>
+    typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(ADMIN_TOKEN_KEY) : null,
   );
-  const [secretInput, setSecretInput] = useState('');
-  const [showSecret, setShowSecret] = useState(false);
+  const [loginForm, setLoginForm] = useState({ email: '', password: '', code: '' });
+  const [showPassword, setShowPassword] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ token: string; qrCode: string; secret: string } | null>(null);
   const [loginLoading, setLoginLoading] = useState(false);
   const [loginError, setLoginError] = useState('');
-  const [backendHint, setBackendHint] = useState<{ length?: number; error?: string }>({});
+  const [backendHint, setBackendHint] = useState<{ setupRequired?: boolean; error?: string }>({});
   const [users, setUsers] = useState<User[]>([]);
   const [stats, setStats] = useState<KYCStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -99,14 +121,18 @@ export default function AdminDashboard() {
   const [verifyConfirm, setVerifyConfirm] = useState<User | null>(null);
   const [tier2Form, setTier2Form] = useState({ first: '', last: '', reason: '' });
   const [tier2Loading, setTier2Loading] = useState(false);
-  const [creditForm, setCreditForm] = useState<{ vuraTag: string; amount: string; reason: string }>({
+  const [creditForm, setCreditForm] = useState<{ vuraTag: string; amount: string; reason: string; evidence: string }>({
     vuraTag: '',
     amount: '',
     reason: '',
+    evidence: '',
   });
   const [creditLoading, setCreditLoading] = useState(false);
   const [businessBalance, setBusinessBalance] = useState<number | null>(null);
-  const [topUpForm, setTopUpForm] = useState({ amount: '', reference: '' });
+  const [topUpForm, setTopUpForm] = useState({ amount: '', reference: '', reason: '' });
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [approvalNotes, setApprovalNotes] = useState<Record<string, string>>({});
+  const [decisionLoading, setDecisionLoading] = useState<string | null>(null);
   const [topUpLoading, setTopUpLoading] = useState(false);
   const [paystackForm, setPaystackForm] = useState({ amount: '', reference: '' });
   const [paystackLoading, setPaystackLoading] = useState(false);
@@ -114,32 +140,36 @@ export default function AdminDashboard() {
   const [verifyRefLoading, setVerifyRefLoading] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const authHeader = adminSecret ? `Bearer ${adminSecret}` : '';
+  const authHeader = adminToken ? `Bearer ${adminToken}` : '';
 
-  // On login screen: ping backend to show expected secret length (and confirm we're pointing at the right API)
+  // On login screen: ping backend to confirm we're pointing at the right API and whether the first admin exists yet
   useEffect(() => {
-    if (adminSecret) return;
+    if (adminToken) return;
     let cancelled = false;
-    adminApi('admin/check')
+    adminApi('admin/auth/status')
       .then((res) => {
         if (cancelled) return;
-        if (res.ok) return res.json().then((d) => setBackendHint({ length: d.secretLength }));
+        if (res.ok) return res.json().then((d) => setBackendHint({ setupRequired: d.setupRequired }));
         setBackendHint({ error: `Backend returned ${res.status}. Redeploy the vura-app backend on Render (Manual Deploy → Deploy latest commit) so it has the admin routes. Test: open ${getApiUrl()}/health in a browser — if that works, the backend is up but needs a fresh deploy.` });
       })
       .catch(() => {
         if (!cancelled) setBackendHint({ error: 'Could not reach backend. Set VITE_API_URL to https://vura-app.onrender.com in Vercel and redeploy.' });
       });
     return () => { cancelled = true; };
-  }, [adminSecret]);
+  }, [adminToken]);
 
   useEffect(() => {
-    if (!adminSecret) {
+    if (!adminToken) {
       setLoading(false);
       return;
     }
     setLoading(true);
     adminApi(`admin/users?limit=${LIMIT}&page=${page}`, { headers: { Authorization: authHeader } })
-      .then((res) => res.ok ? res.json() : Promise.reject(new Error('Failed to fetch')))
+      .then((res) => {
+        // Session expired or account deactivated: back to the login screen
+        if (res.status === 401) lockAdmin();
+        return res.ok ? res.json() : Promise.reject(new Error('Failed to fetch'));
+      })
       .then((data) => {
         setUsers(data.users || []);
         setTotalCount(data.total ?? 0);
@@ -154,7 +184,9 @@ export default function AdminDashboard() {
       .then((res) => res.ok ? res.json() : { amount: 0 })
       .then((d) => setBusinessBalance(d?.amount ?? 0))
       .catch(() => setBusinessBalance(0));
-  }, [adminSecret, page, authHeader]);
+    fetchApprovals();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- helpers only read authHeader, already a dependency
+  }, [adminToken, page, authHeader]);
 
   useEffect(() => {
     if (selectedUser) setTier2Form({ first: selectedUser.legalFirstName || '', last: selectedUser.legalLastName || '', reason: '' });
@@ -162,7 +194,7 @@ export default function AdminDashboard() {
 
   // After redirect from Paystack: verify payment with Paystack and credit float (don't rely only on webhook)
   useEffect(() => {
-    if (!adminSecret) return;
+    if (!adminToken) return;
     const floatTopup = searchParams.get('float_topup');
     const ref = searchParams.get('ref');
     if (floatTopup === 'success' && ref) {
@@ -192,24 +224,62 @@ export default function AdminDashboard() {
             .catch(() => {});
         });
     }
-  }, [adminSecret, searchParams, authHeader, setSearchParams]);
+  }, [adminToken, searchParams, authHeader, setSearchParams]);
+
+  const startSession = (token: string) => {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+    setAdminToken(token);
+    setLoginForm({ email: '', password: '', code: '' });
+    setEnrollment(null);
+  };
 
   const handleLogin = async () => {
-    const secret = secretInput.trim();
-    if (!secret) {
-      setLoginError('Enter your admin secret');
+    const email = loginForm.email.trim();
+    if (!email || !loginForm.password) {
+      setLoginError('Enter your email and password');
       return;
     }
     setLoginLoading(true);
     setLoginError('');
     try {
-      const res = await adminApi('admin/users?limit=1', { headers: { Authorization: `Bearer ${secret}` } });
-      if (res.ok) {
-        sessionStorage.setItem(ADMIN_SECRET_KEY, secret);
-        setAdminSecret(secret);
-        setSecretInput('');
+      const res = await adminApi('admin/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password: loginForm.password, totpCode: loginForm.code.trim() || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setLoginError(data.message || 'Invalid email, password or code.');
+      } else if (data.accessToken) {
+        startSession(data.accessToken);
+      } else if (data.totpSetupRequired) {
+        setEnrollment({ token: data.enrollmentToken, qrCode: data.qrCode, secret: data.secret });
+        setLoginForm((f) => ({ ...f, code: '' }));
+      } else if (data.totpRequired) {
+        setLoginError('Enter the 6-digit code from your authenticator app');
+      }
+    } catch {
+      setLoginError('Could not reach server. Check the API URL below and try again.');
+    } finally {
+      setLoginLoading(false);
+    }
+  };
+
+  const handleEnableTotp = async () => {
+    if (!enrollment) return;
+    setLoginLoading(true);
+    setLoginError('');
+    try {
+      const res = await adminApi('admin/auth/totp/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enrollmentToken: enrollment.token, code: loginForm.code.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok && data.accessToken) {
+        startSession(data.accessToken);
       } else {
-        setLoginError('Invalid admin secret. Use ADMIN_SECRET from your backend (vura-app on Render).');
+        setLoginError(data.message || 'Invalid code. Check your authenticator app and try again.');
       }
     } catch {
       setLoginError('Could not reach server. Check the API URL below and try again.');
@@ -219,14 +289,14 @@ export default function AdminDashboard() {
   };
 
   const lockAdmin = () => {
-    sessionStorage.removeItem(ADMIN_SECRET_KEY);
-    setAdminSecret(null);
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    setAdminToken(null);
     setUsers([]);
     setStats(null);
   };
 
   const refetch = () => {
-    if (adminSecret) {
+    if (adminToken) {
       adminApi(`admin/users?limit=${LIMIT}&page=${page}`, { headers: { Authorization: authHeader } })
         .then((res) => res.ok && res.json())
         .then((data) => {
@@ -312,6 +382,49 @@ export default function AdminDashboard() {
     }
   };
 
+  const fetchApprovals = () => {
+    if (!authHeader) return;
+    adminApi('admin/approvals?status=PENDING&limit=50', { headers: { Authorization: authHeader } })
+      .then((res) => (res.ok ? res.json() : { approvals: [] }))
+      .then((d) => setApprovals(d.approvals || []))
+      .catch(() => setApprovals([]));
+  };
+
+  const handleDecision = async (approval: PendingApproval, decision: 'approve' | 'reject' | 'cancel') => {
+    const note = (approvalNotes[approval.id] || '').trim();
+    if (decision === 'reject' && !note) {
+      toast.error('Add a note explaining the rejection');
+      return;
+    }
+    if (!authHeader) return;
+    setDecisionLoading(approval.id);
+    try {
+      const res = await adminApi(`admin/approvals/${approval.id}/${decision}`, {
+        method: 'POST',
+        headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: note || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        toast.success(
+          decision === 'approve'
+            ? `${APPROVAL_LABELS[approval.type]} approved and executed`
+            : `${APPROVAL_LABELS[approval.type]} ${decision === 'reject' ? 'rejected' : 'cancelled'}`,
+        );
+        setApprovalNotes((n) => ({ ...n, [approval.id]: '' }));
+        fetchApprovals();
+        adminApi('admin/balance', { headers: { Authorization: authHeader } })
+          .then((r) => r.ok && r.json().then((d) => setBusinessBalance(d?.amount ?? 0)));
+      } else {
+        toast.error(data.message || 'Could not record decision');
+      }
+    } catch {
+      toast.error('Request failed');
+    } finally {
+      setDecisionLoading(null);
+    }
+  };
+
   const handleCreditUser = async () => {
     const tag = creditForm.vuraTag.trim().replace(/^@/, '');
     const amount = parseFloat(creditForm.amount);
@@ -324,20 +437,24 @@ export default function AdminDashboard() {
       toast.error('Reason is required (e.g. Crypto purchase USDT - ref 123)');
       return;
     }
+    const evidenceReference = creditForm.evidence.trim();
+    if (!evidenceReference) {
+      toast.error('Evidence reference is required (e.g. ticket, bank statement ref)');
+      return;
+    }
     if (!authHeader) return;
     setCreditLoading(true);
     try {
       const res = await adminApi('admin/credit', {
         method: 'POST',
         headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ vuraTag: tag, amount, reason }),
+        body: JSON.stringify({ vuraTag: tag, amount, reason, evidenceReference }),
       });
       const data = await res.json().catch(() => ({}));
       if (res.ok) {
-        toast.success(data.message || `₦${amount.toLocaleString()} credited to @${tag}`);
-        setCreditForm({ vuraTag: '', amount: '', reason: '' });
-        adminApi('admin/balance', { headers: { Authorization: authHeader } })
-          .then((r) => r.ok && r.json().then((d) => setBusinessBalance(d?.amount ?? 0)));
+        toast.success(data.message || `Credit of ₦${amount.toLocaleString()} to @${tag} submitted for approval`);
+        setCreditForm({ vuraTag: '', amount: '', reason: '', evidence: '' });
+        fetchApprovals();
       } else {
         toast.error(data.message || 'Credit failed');
       }
@@ -359,21 +476,24 @@ export default function AdminDashboard() {
       toast.error('Reference is required (e.g. bank ref, tx hash) for accountability');
       return;
     }
+    const reason = topUpForm.reason.trim();
+    if (!reason) {
+      toast.error('Reason is required (e.g. March float lodgement)');
+      return;
+    }
     if (!authHeader) return;
     setTopUpLoading(true);
     try {
       const res = await adminApi('admin/top-up', {
         method: 'POST',
         headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ amount, reference }),
+        body: JSON.stringify({ amount, reference, reason }),
       });
       const data = await res.json().catch(() => ({}));
       if (res.ok) {
-        toast.success(data.message || `₦${amount.toLocaleString()} added to business float`);
-        setTopUpForm({ amount: '', reference: '' });
-        setBusinessBalance(data?.data?.balanceAfter != null ? parseFloat(data.data.balanceAfter) : (businessBalance ?? 0) + amount);
-        adminApi('admin/balance', { headers: { Authorization: authHeader } })
-          .then((r) => r.ok && r.json().then((d) => setBusinessBalance(d?.amount ?? 0)));
+        toast.success(data.message || `Top-up of ₦${amount.toLocaleString()} submitted for approval`);
+        setTopUpForm({ amount: '', reference: '', reason: '' });
+        fetchApprovals();
       } else {
         toast.error(data.message || 'Top-up failed');
       }
@@ -464,7 +584,7 @@ export default function AdminDashboard() {
       : pendingUsers.filter(matchesSearch);
 
   // ——— Login screen ———
-  if (!adminSecret) {
+  if (!adminToken) {
     const apiBase = getApiUrl();
     return (
       <div className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
@@ -472,44 +592,85 @@ export default function AdminDashboard() {
           <CardHeader>
             <CardTitle>Admin access</CardTitle>
             <CardDescription>
-              Enter ADMIN_SECRET from your backend (vura-app on Render). All requests are sent to the API below.
+              {enrollment
+                ? 'Set up two-factor authentication: scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy), then enter the 6-digit code it shows.'
+                : 'Sign in with your admin email, password and authenticator code. All requests are sent to the API below.'}
             </CardDescription>
             <p className="text-xs font-mono text-muted-foreground mt-2 break-all" title="Set VITE_API_URL in Vercel to https://vura-app.onrender.com">
               API: {apiBase}
             </p>
             {backendHint.error && <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">{backendHint.error}</p>}
-            {backendHint.length != null && !backendHint.error && (
-              <p className="text-sm text-muted-foreground mt-1">Backend expects a secret of <strong>{backendHint.length}</strong> characters.</p>
+            {backendHint.setupRequired && !backendHint.error && (
+              <p className="text-sm text-muted-foreground mt-1">
+                No admin accounts yet. Create the first superadmin with <code>POST /admin/auth/bootstrap</code> using ADMIN_SECRET.
+              </p>
             )}
           </CardHeader>
           <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="admin-secret">Admin secret</Label>
-              <div className="relative mt-2">
-                <Input
-                  id="admin-secret"
-                  type={showSecret ? 'text' : 'password'}
-                  placeholder="ADMIN_SECRET"
-                  value={secretInput}
-                  onChange={(e) => { setSecretInput(e.target.value); setLoginError(''); }}
-                  onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
-                  className="font-mono pr-10"
-                />
-                <Button type="button" variant="ghost" size="icon" className="absolute right-0 top-0 h-full px-3" onClick={() => setShowSecret((v) => !v)} aria-label={showSecret ? 'Hide' : 'Show'}>
-                  {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </Button>
-              </div>
-              {showSecret && secretInput.length > 0 && backendHint.length != null && (
-                <p className="text-xs text-muted-foreground mt-1">
-                  You entered {secretInput.length} character{secretInput.length !== 1 ? 's' : ''} — {secretInput.length === backendHint.length ? 'length matches.' : `backend expects ${backendHint.length}.`}
+            {enrollment ? (
+              <div className="space-y-3">
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="mx-auto w-48 h-48" />
+                <p className="text-xs text-muted-foreground text-center break-all">
+                  Can't scan? Enter this key: <span className="font-mono">{enrollment.secret}</span>
                 </p>
-              )}
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="admin-email">Email</Label>
+                  <Input
+                    id="admin-email"
+                    type="email"
+                    autoComplete="username"
+                    className="mt-2"
+                    value={loginForm.email}
+                    onChange={(e) => { setLoginForm((f) => ({ ...f, email: e.target.value })); setLoginError(''); }}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="admin-password">Password</Label>
+                  <div className="relative mt-2">
+                    <Input
+                      id="admin-password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="current-password"
+                      value={loginForm.password}
+                      onChange={(e) => { setLoginForm((f) => ({ ...f, password: e.target.value })); setLoginError(''); }}
+                      className="pr-10"
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="absolute right-0 top-0 h-full px-3" onClick={() => setShowPassword((v) => !v)} aria-label={showPassword ? 'Hide' : 'Show'}>
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+            <div>
+              <Label htmlFor="admin-code">Authenticator code</Label>
+              <Input
+                id="admin-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                placeholder={enrollment ? '123456' : 'Leave blank on first sign-in'}
+                className="mt-2 font-mono"
+                value={loginForm.code}
+                onChange={(e) => { setLoginForm((f) => ({ ...f, code: e.target.value.replace(/\D/g, '') })); setLoginError(''); }}
+                onKeyDown={(e) => e.key === 'Enter' && (enrollment ? handleEnableTotp() : handleLogin())}
+              />
             </div>
             {loginError && <p className="text-sm text-destructive">{loginError}</p>}
-            <Button className="w-full" onClick={handleLogin} disabled={loginLoading || !secretInput.trim()}>
-              {loginLoading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
-              Access admin dashboard
-            </Button>
+            {enrollment ? (
+              <Button className="w-full" onClick={handleEnableTotp} disabled={loginLoading || loginForm.code.length !== 6}>
+                {loginLoading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Turn on 2FA and sign in
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={handleLogin} disabled={loginLoading || !loginForm.email.trim() || !loginForm.password}>
+                {loginLoading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Sign in
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -540,7 +701,7 @@ export default function AdminDashboard() {
                 <p className="text-xs text-muted-foreground">KYC verification &amp; user review</p>
               </div>
             </div>
-            <Button variant="outline" size="sm" onClick={lockAdmin}>Lock admin</Button>
+            <Button variant="outline" size="sm" onClick={lockAdmin}>Sign out</Button>
           </div>
         </div>
       </header>
@@ -604,10 +765,19 @@ export default function AdminDashboard() {
                   className="mt-1"
                 />
               </div>
+              <div className="sm:col-span-2">
+                <Label className="text-xs">Reason (required)</Label>
+                <Input
+                  placeholder="e.g. March float lodgement"
+                  value={topUpForm.reason}
+                  onChange={(e) => setTopUpForm((f) => ({ ...f, reason: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
             </div>
             <Button onClick={handleTopUp} disabled={topUpLoading}>
               {topUpLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-              Top up business float (record only)
+              Submit top-up for approval
             </Button>
             <div className="border-t pt-4 mt-4">
               <p className="text-sm font-medium text-muted-foreground mb-2">Or pay with card/bank (Paystack)</p>
@@ -677,11 +847,11 @@ export default function AdminDashboard() {
               Credit a customer’s wallet
             </CardTitle>
             <CardDescription>
-              Add NGN to a <strong>customer’s</strong> Vura balance (e.g. after they paid you for crypto). Deducts from your business float above — top up first if needed.
+              Add NGN to a <strong>customer’s</strong> Vura balance (e.g. after they paid you for crypto). Deducts from your business float above once a second admin approves it.
             </CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col sm:flex-row gap-3">
-            <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="flex-1 grid grid-cols-1 sm:grid-cols-4 gap-3">
               <div>
                 <Label className="text-xs">Customer’s @vuraTag</Label>
                 <Input
@@ -712,6 +882,15 @@ export default function AdminDashboard() {
                   className="mt-1"
                 />
               </div>
+              <div>
+                <Label className="text-xs">Evidence reference (required)</Label>
+                <Input
+                  placeholder="e.g. Ticket #456, bank statement ref"
+                  value={creditForm.evidence}
+                  onChange={(e) => setCreditForm((f) => ({ ...f, evidence: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
             </div>
             <Button
               onClick={handleCreditUser}
@@ -719,11 +898,72 @@ export default function AdminDashboard() {
               className="sm:self-end shrink-0"
             >
               {creditLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-              Credit customer
+              Submit for approval
             </Button>
           </CardContent>
         </Card>
 
+        {/* Maker-checker queue: a second admin approves before money moves */}
+        <Card className="shadow-sm mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Pending approvals ({approvals.length})
+            </CardTitle>
+            <CardDescription>
+              Credits, float top-ups, hold releases and reconciliation credits proposed by an admin. A different admin must approve before anything is executed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {approvals.length === 0 && <p className="text-sm text-muted-foreground">Nothing waiting for approval.</p>}
+            {approvals.map((a) => (
+              <div key={a.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{APPROVAL_LABELS[a.type]}</Badge>
+                    {a.payload.amount && (
+                      <span className="font-semibold tabular-nums">₦{Number(a.payload.amount).toLocaleString('en-NG', { minimumFractionDigits: 2 })}</span>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    by {a.maker.name} · expires {new Date(a.expiresAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm">{a.reason}</p>
+                <p className="text-xs text-muted-foreground font-mono break-all">
+                  Evidence: {a.evidenceReference}
+                  {a.payload.userId && ` · user ${a.payload.userId}`}
+                  {a.payload.transactionId && ` · transaction ${a.payload.transactionId}`}
+                </p>
+                <div className="flex flex-wrap gap-2 items-center">
+                  <Input
+                    placeholder="Note (required to reject)"
+                    value={approvalNotes[a.id] || ''}
+                    onChange={(e) => setApprovalNotes((n) => ({ ...n, [a.id]: e.target.value }))}
+                    className="flex-1 min-w-[200px]"
+                  />
+                  <Button size="sm" onClick={() => handleDecision(a, 'approve')} disabled={decisionLoading === a.id}>
+                    {decisionLoading === a.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    <Check className="w-4 h-4 mr-1" /> Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDecision(a, 'reject')} disabled={decisionLoading === a.id}>
+                    <X className="w-4 h-4 mr-1" /> Reject
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDecision(a, 'cancel')} disabled={decisionLoading === a.id}>
+                    Withdraw
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <AdminTreasury api={adminApi} authHeader={authHeader} />
+
+        <AdminCryptoWithdrawals api={adminApi} authHeader={authHeader} />
+
+        <AdminReconciliation api={adminApi} authHeader={authHeader} onCreditProposed={fetchApprovals} />
+
         <div className="mb-4 flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
           <div className="flex rounded-lg border bg-background p-1">
             <button type="button" onClick={() => setTab('pending')} className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${tab === 'pending' ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}>
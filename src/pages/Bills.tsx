@@ -10,6 +10,10 @@ import {
   Zap,
   Tv,
   Trophy,
+  CalendarClock,
+  Pause,
+  Play,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { apiFetch } from "@/hooks/useAuth";
@@ -68,7 +72,8 @@ type FavoriteAirtime = RecentAirtime;
 type FavoriteData = RecentData;
 type FavoriteElectricity = RecentElectricity & { };
 
-type LastRequest = { endpoint: string; body: Record<string, unknown> };
+// idempotencyKey is reused by retryLastRequest so the backend replays instead of charging twice
+type LastRequest = { endpoint: string; body: Record<string, unknown>; idempotencyKey?: string };
 
 type LocalHistoryItem = {
   kind: "airtime" | "data" | "electricity";
@@ -79,6 +84,36 @@ type LocalHistoryItem = {
   at: number;
 };
 
+type AutopayFrequency = "daily" | "weekly" | "monthly";
+
+type Autopay = {
+  id: string;
+  amount: number;
+  frequency: AutopayFrequency;
+  status: "ACTIVE" | "PAUSED" | "CANCELLED";
+  nextRunAt: string;
+  lastError: string | null;
+  retryCount: number;
+  biller: { id: string; billType: string; nickname: string; customerNumber: string };
+};
+
+type UpcomingAutopayRun = {
+  autopayId: string;
+  billType: string;
+  nickname: string;
+  customerNumber: string;
+  amount: number;
+  runAt: string;
+  retrying: boolean;
+};
+
+// Default first autopay run: same day next month
+const defaultAutopayStart = () => {
+  const d = new Date();
+  d.setMonth(d.getMonth() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
 const RECENT_LIMIT = 6;
 const FAVORITE_LIMIT = 6;
 const HISTORY_LIMIT = 10;
@@ -244,6 +279,15 @@ const Bills = () => {
   const [saveAsFavorite, setSaveAsFavorite] = useState(false);
   const [favoriteLabel, setFavoriteLabel] = useState("");
 
+  // Autopay
+  const [autopays, setAutopays] = useState<Autopay[]>([]);
+  const [upcomingRuns, setUpcomingRuns] = useState<UpcomingAutopayRun[]>([]);
+  const [autopayFrequency, setAutopayFrequency] = useState<AutopayFrequency>("monthly");
+  const [autopayStartDate, setAutopayStartDate] = useState(defaultAutopayStart);
+  const [savingAutopay, setSavingAutopay] = useState(false);
+  const [autopayCreated, setAutopayCreated] = useState(false);
+  const [updatingAutopayId, setUpdatingAutopayId] = useState<string | null>(null);
+
   const navigate = useNavigate();
 
   // ── Fetch networks on mount ─────────────────────────────────────────
@@ -332,6 +376,25 @@ const Bills = () => {
     }
   }, []);
 
+  const fetchAutopay = useCallback(async () => {
+    try {
+      const [listRes, upcomingRes] = await Promise.all([
+        apiFetch("/bills/autopay"),
+        apiFetch("/bills/autopay/upcoming?days=30"),
+      ]);
+      if (listRes.ok) {
+        const json = await listRes.json();
+        setAutopays(Array.isArray(json.data) ? json.data : []);
+      }
+      if (upcomingRes.ok) {
+        const json = await upcomingRes.json();
+        setUpcomingRuns(Array.isArray(json.data) ? json.data : []);
+      }
+    } catch {
+      // silent
+    }
+  }, []);
+
   useEffect(() => {
     fetchAirtimeNetworks();
     fetchDataNetworks();
@@ -339,6 +402,7 @@ const Bills = () => {
     fetchCableProviders();
     fetchBettingCompanies();
     fetchBalance();
+    fetchAutopay();
     setRecentAirtime(loadRecents<RecentAirtime>(STORAGE_KEYS.airtime));
     setRecentData(loadRecents<RecentData>(STORAGE_KEYS.data));
     setRecentElectricity(loadRecents<RecentElectricity>(STORAGE_KEYS.electricity));
@@ -348,7 +412,7 @@ const Bills = () => {
     setHistory(loadList<LocalHistoryItem>(STORAGE_KEYS.history, HISTORY_LIMIT));
     const lrRaw = loadList<LastRequest>(STORAGE_KEYS.lastRequest, 1);
     if (lrRaw.length > 0) setLastRequest(lrRaw[0]);
-  }, [fetchAirtimeNetworks, fetchDataNetworks, fetchElectricityDiscos, fetchCableProviders, fetchBettingCompanies, fetchBalance]);
+  }, [fetchAirtimeNetworks, fetchDataNetworks, fetchElectricityDiscos, fetchCableProviders, fetchBettingCompanies, fetchBalance, fetchAutopay]);
 
   // ── Fetch data plans when network changes ───────────────────────────
 
@@ -453,6 +517,7 @@ const Bills = () => {
     setBettingCustomerId("");
     setBettingCustomerValidated(false);
     setBettingAmount("");
+    setAutopayCreated(false);
   };
 
   const switchTab = (newTab: BillTab) => {
@@ -653,12 +718,14 @@ const Bills = () => {
         };
       }
 
-      const requestPayload: LastRequest = { endpoint, body };
+      const idempotencyKey = crypto.randomUUID();
+      const requestPayload: LastRequest = { endpoint, body, idempotencyKey };
       setLastRequest(requestPayload);
       saveList(STORAGE_KEYS.lastRequest, [requestPayload], 1);
 
       const res = await apiFetch(endpoint, {
         method: "POST",
+        headers: { "Idempotency-Key": idempotencyKey },
         body: JSON.stringify(body),
       });
 
@@ -668,6 +735,13 @@ const Bills = () => {
         throw new Error(json.message || "Purchase failed");
       }
 
+      if (json.pending) {
+        toast({ title: "Purchase processing", description: json.message });
+        setStep("form");
+        fetchBalance();
+        return;
+      }
+
       setPurchaseResult(json.data ?? json);
       const now = Date.now();
       if (tab === "airtime") {
@@ -1019,18 +1093,133 @@ const Bills = () => {
     );
   };
 
+  // Turn the purchase that just succeeded into a saved biller + autopay rule
+  const setupAutopay = async () => {
+    if (!lastRequest || tab === "betting") return;
+    const body = lastRequest.body as Record<string, string | number | undefined>;
+    const biller =
+      tab === "airtime"
+        ? { billType: "airtime", serviceCode: body.network, customerNumber: body.phoneNumber }
+        : tab === "data"
+          ? { billType: "data", serviceCode: body.network, customerNumber: body.phoneNumber, productCode: body.planCode, nickname: selectedPlan ? `${body.phoneNumber} · ${selectedPlan.name}` : undefined }
+          : tab === "cable"
+            ? { billType: "cable", serviceCode: body.cableTv, customerNumber: body.smartCardNo, productCode: body.packageCode, phoneNumber: body.phoneNumber, nickname: selectedCablePackage ? `${selectedCablePackage.name} · ${body.smartCardNo}` : undefined }
+            : { billType: "electricity", serviceCode: body.disco, customerNumber: body.meterNumber, productCode: body.type, phoneNumber: body.phoneNumber };
+
+    setSavingAutopay(true);
+    try {
+      const billerRes = await apiFetch("/bills/billers", { method: "POST", body: JSON.stringify(biller) });
+      const billerJson = await billerRes.json().catch(() => ({}));
+      if (!billerRes.ok) throw new Error(billerJson.message || "Could not save this biller");
+
+      const res = await apiFetch("/bills/autopay", {
+        method: "POST",
+        body: JSON.stringify({
+          billerId: billerJson.data.id,
+          amount: typeof body.amount === "number" ? body.amount : undefined,
+          frequency: autopayFrequency,
+          startAt: new Date(`${autopayStartDate}T09:00`).toISOString(),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.message || "Could not set up autopay");
+
+      setAutopayCreated(true);
+      fetchAutopay();
+      toast({ title: "Autopay on", description: `First run on ${new Date(`${autopayStartDate}T09:00`).toLocaleDateString()}` });
+    } catch (e) {
+      toast({ title: "Autopay failed", description: e instanceof Error ? e.message : "Try again", variant: "destructive" });
+    } finally {
+      setSavingAutopay(false);
+    }
+  };
+
+  const updateAutopay = async (id: string, action: "pause" | "resume" | "cancel") => {
+    setUpdatingAutopayId(id);
+    try {
+      const res = await apiFetch(
+        action === "cancel" ? `/bills/autopay/${id}` : `/bills/autopay/${id}/${action}`,
+        { method: action === "cancel" ? "DELETE" : "POST" },
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.message || "Could not update autopay");
+      fetchAutopay();
+    } catch (e) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Try again", variant: "destructive" });
+    } finally {
+      setUpdatingAutopayId(null);
+    }
+  };
+
+  const renderAutopay = () => {
+    if (autopays.length === 0) return null;
+    return (
+      <div className="space-y-3">
+        <p className="text-sm font-medium text-foreground flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" /> Upcoming payments
+        </p>
+        {upcomingRuns.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nothing due in the next 30 days.</p>
+        ) : (
+          <div className="space-y-2">
+            {upcomingRuns.slice(0, 5).map((run) => (
+              <div key={`${run.autopayId}-${run.runAt}`} className="flex items-center justify-between rounded-lg border border-border px-3 py-2 text-sm">
+                <div>
+                  <p className="font-medium">{run.nickname}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(run.runAt).toLocaleString()}
+                    {run.retrying ? " · retrying" : ""}
+                  </p>
+                </div>
+                <span className="font-medium">₦{run.amount.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          {autopays.map((a) => (
+            <div key={a.id} className="flex items-center justify-between rounded-lg bg-muted px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{a.biller.nickname}</p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {a.biller.billType} · {a.frequency} · ₦{a.amount.toLocaleString()}
+                  {a.status === "PAUSED" ? " · paused" : ""}
+                </p>
+                {a.lastError && <p className="text-xs text-destructive truncate">Last run failed: {a.lastError}</p>}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button size="icon" variant="ghost" disabled={updatingAutopayId === a.id} title={a.status === "ACTIVE" ? "Pause" : "Resume"} onClick={() => updateAutopay(a.id, a.status === "ACTIVE" ? "pause" : "resume")}>
+                  {a.status === "ACTIVE" ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button size="icon" variant="ghost" disabled={updatingAutopayId === a.id} title="Cancel" onClick={() => updateAutopay(a.id, "cancel")}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const retryLastRequest = async () => {
     if (!lastRequest) return;
     try {
       setLoading(true);
       const res = await apiFetch(lastRequest.endpoint, {
         method: "POST",
+        headers: { "Idempotency-Key": lastRequest.idempotencyKey ?? crypto.randomUUID() },
         body: JSON.stringify(lastRequest.body),
       });
       const json = await res.json();
       if (!res.ok) {
         throw new Error(json.message || "Retry failed");
       }
+      if (json.pending) {
+        toast({ title: "Purchase processing", description: json.message });
+        fetchBalance();
+        return;
+      }
       toast({ title: "Retried successfully", description: "Bill paid" });
       setPurchaseResult(json.data ?? json);
       setStep("success");
@@ -1686,6 +1875,48 @@ const Bills = () => {
                   New balance: ₦{parseFloat(purchaseResult.balanceAfter).toLocaleString()}
                 </p>
               )}
+              {tab !== "betting" && (
+                <div className="rounded-lg border border-border p-3 text-left space-y-2">
+                  {autopayCreated ? (
+                    <p className="text-sm text-foreground flex items-center gap-2">
+                      <Check className="h-4 w-4 text-green-500" /> Autopay is on. You'll find it under Upcoming payments.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <CalendarClock className="h-4 w-4" /> Pay this automatically
+                      </p>
+                      <div className="flex gap-2">
+                        <select
+                          value={autopayFrequency}
+                          onChange={(e) => setAutopayFrequency(e.target.value as AutopayFrequency)}
+                          className="h-9 rounded-lg border border-input bg-background px-2 text-sm"
+                        >
+                          <option value="daily">Daily</option>
+                          <option value="weekly">Weekly</option>
+                          <option value="monthly">Monthly</option>
+                        </select>
+                        <input
+                          type="date"
+                          value={autopayStartDate}
+                          min={new Date().toISOString().slice(0, 10)}
+                          onChange={(e) => setAutopayStartDate(e.target.value)}
+                          className="h-9 flex-1 rounded-lg border border-input bg-background px-2 text-sm"
+                        />
+                        <Button size="sm" onClick={setupAutopay} disabled={savingAutopay || !autopayStartDate || !lastRequest} className="rounded-lg">
+                          {savingAutopay ? <Loader2 className="h-4 w-4 animate-spin" /> : "Turn on"}
+                        </Button>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        {tab === "data" || tab === "cable"
+                          ? "Charged at the plan's price on each run."
+                          : "Charged the same amount on each run."}{" "}
+                        Failed runs are refunded and retried.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
               <div className="flex gap-3 pt-2">
                 <Button
                   onClick={() => navigate("/")}
@@ -1733,6 +1964,9 @@ const Bills = () => {
           )}
         </AnimatePresence>
 
+        {/* Autopay */}
+        <div className="mt-6">{renderAutopay()}</div>
+
         {/* Local history */}
         <div className="mt-6">{renderHistory()}</div>
       </div>
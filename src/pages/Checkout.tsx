@@ -0,0 +1,326 @@
+import { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle, Loader2, CreditCard, Wallet, AlertTriangle, XCircle, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch, useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+
+interface CheckoutInfo {
+  slug: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  currency: string;
+  merchantVuraTag: string;
+  available: boolean;
+  unavailableReason: string | null;
+}
+
+interface Receipt {
+  reference: string;
+  status: "pending" | "succeeded" | "failed";
+  method: "wallet" | "paystack";
+  amount: number;
+  currency: string;
+  title: string;
+  merchantVuraTag: string;
+  paidAt: string | null;
+}
+
+const Checkout = () => {
+  const { slug = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const refParam = searchParams.get("ref");
+  const { user } = useAuth();
+
+  const [checkout, setCheckout] = useState<CheckoutInfo | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [pin, setPin] = useState("");
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [paying, setPaying] = useState<"wallet" | "card" | null>(null);
+  // One key per attempt, so a retried click can't pay twice
+  const idempotencyKey = useRef(crypto.randomUUID());
+
+  useEffect(() => {
+    loadCheckout(slug);
+  }, [slug]);
+
+  useEffect(() => {
+    if (refParam) {
+      checkPayment(refParam);
+    }
+  }, [refParam]);
+
+  const loadCheckout = async (linkSlug: string) => {
+    try {
+      const res = await apiFetch(`/checkout/${encodeURIComponent(linkSlug)}`);
+      if (!res.ok) {
+        setNotFound(true);
+        return;
+      }
+      const json = await res.json();
+      setCheckout(json.data);
+    } catch {
+      setNotFound(true);
+    }
+  };
+
+  // Paystack redirects back before its webhook may have landed, so poll a few times
+  const checkPayment = async (reference: string) => {
+    setChecking(true);
+    try {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const res = await apiFetch(`/checkout/payments/${encodeURIComponent(reference)}`);
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json.message || "Could not check payment");
+        }
+        setReceipt(json.data);
+        if (json.data.status !== "pending") break;
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Could not check payment";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const fixedAmount = checkout?.amount ?? null;
+  const parsedAmount = fixedAmount ?? (parseFloat(amount) || 0);
+  const amountValid = parsedAmount >= 100 && parsedAmount <= 10000000;
+
+  const payWithWallet = async () => {
+    if (pin.length !== 6) {
+      toast({ title: "Invalid PIN", description: "Enter your 6-digit PIN", variant: "destructive" });
+      return;
+    }
+    setPaying("wallet");
+    try {
+      const res = await apiFetch(`/checkout/${encodeURIComponent(slug)}/wallet`, {
+        method: "POST",
+        headers: { "Idempotency-Key": idempotencyKey.current },
+        body: JSON.stringify({ amount: parsedAmount, pin }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.message || "Payment failed");
+      }
+      setReceipt(json.data);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Payment failed";
+      toast({ title: "Payment failed", description: msg, variant: "destructive" });
+      idempotencyKey.current = crypto.randomUUID();
+    } finally {
+      setPin("");
+      setPaying(null);
+    }
+  };
+
+  const payWithCard = async () => {
+    setPaying("card");
+    try {
+      const res = await apiFetch(`/checkout/${encodeURIComponent(slug)}/card`, {
+        method: "POST",
+        body: JSON.stringify({ amount: parsedAmount, email, name }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.message || "Could not start payment");
+      }
+      window.location.href = json.data.authorizationUrl;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Something went wrong";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+      setPaying(null);
+    }
+  };
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center space-y-3">
+          <XCircle className="h-10 w-10 text-destructive mx-auto" />
+          <h2 className="text-xl font-bold">Payment link not found</h2>
+          <p className="text-muted-foreground">Check the link you were sent and try again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (receipt) {
+    const paid = receipt.status === "succeeded";
+    const pending = receipt.status === "pending";
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} className="max-w-md w-full text-center space-y-6">
+          <div className={`mx-auto w-20 h-20 rounded-full flex items-center justify-center ${paid ? "bg-green-100" : pending ? "bg-amber-100" : "bg-red-100"}`}>
+            {paid ? (
+              <CheckCircle className="h-10 w-10 text-green-600" />
+            ) : pending ? (
+              <Loader2 className="h-10 w-10 text-amber-600 animate-spin" />
+            ) : (
+              <XCircle className="h-10 w-10 text-red-600" />
+            )}
+          </div>
+          <h2 className="text-2xl font-bold">
+            {paid ? "Payment successful" : pending ? "Confirming your payment..." : "Payment failed"}
+          </h2>
+          <div className="rounded-2xl bg-card border border-border p-6 text-left space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Amount</span>
+              <span className="font-semibold">₦{receipt.amount.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">For</span>
+              <span>{receipt.title}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Paid to</span>
+              <span>@{receipt.merchantVuraTag}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Reference</span>
+              <span className="font-mono text-xs">{receipt.reference}</span>
+            </div>
+            {receipt.paidAt && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Date</span>
+                <span>{new Date(receipt.paidAt).toLocaleString("en-NG")}</span>
+              </div>
+            )}
+          </div>
+          {paid && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {receipt.method === "paystack"
+                  ? "A copy of this receipt has been sent to your email."
+                  : "This payment also appears in your Vura transactions."}
+              </p>
+              <Button onClick={() => window.print()} variant="outline" className="rounded-xl">
+                <Printer className="h-4 w-4 mr-2" /> Print receipt
+              </Button>
+            </>
+          )}
+          {pending && !checking && (
+            <Button onClick={() => checkPayment(receipt.reference)} variant="outline" className="rounded-xl">
+              Check again
+            </Button>
+          )}
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (!checkout || checking) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-lg mx-auto p-4 space-y-6 pb-24 pt-10">
+        <div className="text-center space-y-1">
+          <p className="text-sm text-muted-foreground">Pay @{checkout.merchantVuraTag}</p>
+          <h1 className="text-2xl font-bold">{checkout.title}</h1>
+          {checkout.description && <p className="text-muted-foreground">{checkout.description}</p>}
+        </div>
+
+        {!checkout.available ? (
+          <div className="rounded-2xl bg-card border border-border p-6 flex items-center gap-3 text-sm">
+            <AlertTriangle className="h-5 w-5 text-amber-500 shrink-0" />
+            {checkout.unavailableReason}
+          </div>
+        ) : (
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="rounded-2xl bg-card border border-border p-6 shadow-card space-y-5">
+            {fixedAmount !== null ? (
+              <p className="text-3xl font-bold text-center">₦{fixedAmount.toLocaleString()}</p>
+            ) : (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Amount (₦)</Label>
+                <Input
+                  type="number"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="h-14 rounded-xl text-2xl font-bold"
+                />
+                {parsedAmount > 0 && !amountValid && (
+                  <div className="flex items-center gap-2 text-xs text-destructive mt-2">
+                    <AlertTriangle className="h-3 w-3" /> Amount must be between ₦100 and ₦10,000,000
+                  </div>
+                )}
+              </div>
+            )}
+
+            {user ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Wallet className="h-5 w-5 text-primary" />
+                  <p className="text-sm font-medium">Pay from your Vura wallet</p>
+                </div>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                  placeholder="••••••"
+                  className="h-12 rounded-xl text-center text-2xl tracking-widest"
+                />
+                <Button
+                  onClick={payWithWallet}
+                  disabled={!amountValid || pin.length !== 6 || paying !== null}
+                  className="w-full h-12 rounded-xl gradient-brand text-primary-foreground font-semibold border-0 hover:opacity-90"
+                >
+                  {paying === "wallet" ? <Loader2 className="h-5 w-5 animate-spin" /> : `Pay ₦${parsedAmount.toLocaleString()}`}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-center text-muted-foreground">
+                Have a Vura account?{" "}
+                <Link to="/login" className="text-primary font-medium">
+                  Log in
+                </Link>{" "}
+                to pay from your wallet.
+              </p>
+            )}
+
+            <div className="border-t border-border pt-5 space-y-3">
+              <div className="flex items-center gap-3">
+                <CreditCard className="h-5 w-5 text-primary" />
+                <p className="text-sm font-medium">Pay with card or bank transfer</p>
+              </div>
+              <Input placeholder="Your name (optional)" value={name} onChange={(e) => setName(e.target.value)} className="h-12 rounded-xl" />
+              <Input type="email" placeholder="Email for your receipt" value={email} onChange={(e) => setEmail(e.target.value)} className="h-12 rounded-xl" />
+              <Button
+                onClick={payWithCard}
+                disabled={!amountValid || !email.includes("@") || paying !== null}
+                variant={user ? "outline" : "default"}
+                className="w-full h-12 rounded-xl font-semibold"
+              >
+                {paying === "card" ? <Loader2 className="h-5 w-5 animate-spin" /> : `Continue to pay ₦${parsedAmount.toLocaleString()}`}
+              </Button>
+              <p className="text-[11px] text-center text-muted-foreground">
+                Secured by Paystack. Your card details are never stored.
+              </p>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -18,6 +18,7 @@ import {
   ExternalLink,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { apiFetch } from "@/hooks/useAuth";
 import { toast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
@@ -120,6 +121,22 @@ interface DepositRecord {
   transactions: DepositTx[];
 }
 
+interface RateQuote {
+  id: string;
+  cryptoAmount: string | null;
+  rate: string;
+  fee: string;
+  ngnAmount: string | null;
+  expiresAt: string;
+  policy: string;
+}
+
+interface PayoutAccount {
+  bankName: string;
+  accountName: string;
+  accountNumberLast4: string;
+}
+
 interface DepositStatusResponse {
   id: string;
   status: string;
@@ -129,6 +146,8 @@ interface DepositStatusResponse {
   ngnAmount: string;
   confirmations: number;
   txHash: string;
+  heldAs?: string | null;
+  autoWithdraw?: { status: "sent" | "failed"; amount?: string; reason?: string } | null;
   creditedAt: string | null;
   message: string;
 }
@@ -162,6 +181,11 @@ const CryptoDeposit = () => {
   const [previewNgn, setPreviewNgn] = useState<string | null>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
 
+  // Locked rate for this deposit
+  const [quote, setQuote] = useState<RateQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
   // Confirm form
   const [sentAmount, setSentAmount] = useState("");
   const [txHash, setTxHash] = useState("");
@@ -170,6 +194,16 @@ const CryptoDeposit = () => {
   const [recentDeposits, setRecentDeposits] = useState<DepositRecord[]>([]);
   const [showHowItWorks, setShowHowItWorks] = useState(false);
 
+  // Keep USDT deposits as USDT instead of converting to NGN
+  const [holdUsdt, setHoldUsdt] = useState(false);
+  const [holdSaving, setHoldSaving] = useState(false);
+  const holdingUsdt = selectedAsset === "USDT" && holdUsdt;
+
+  // Send converted deposits straight on to the primary bank account
+  const [autoWithdraw, setAutoWithdraw] = useState(false);
+  const [autoWithdrawSaving, setAutoWithdrawSaving] = useState(false);
+  const [payoutAccount, setPayoutAccount] = useState<PayoutAccount | null>(null);
+
   const navigate = useNavigate();
 
   // ── Fetch rates (CoinGecko — single source) ────────────────────────
@@ -196,12 +230,64 @@ const CryptoDeposit = () => {
     }
   }, []);
 
+  const fetchSettings = useCallback(async () => {
+    try {
+      const res = await apiFetch("/crypto/settings");
+      if (!res.ok) return;
+      const json = await res.json();
+      setHoldUsdt(Boolean(json.data?.holdUsdt));
+      setAutoWithdraw(Boolean(json.data?.autoWithdraw));
+      setPayoutAccount(json.data?.payoutAccount ?? null);
+    } catch (err) {
+      console.error("Settings fetch error:", err);
+    }
+  }, []);
+
+  const toggleHoldUsdt = async (value: boolean) => {
+    setHoldSaving(true);
+    try {
+      const res = await apiFetch("/crypto/settings", {
+        method: "PATCH",
+        body: JSON.stringify({ holdUsdt: value }),
+      });
+      if (!res.ok) throw new Error("Could not save setting");
+      setHoldUsdt(value);
+      if (value) setQuote(null);
+    } catch {
+      toast({ title: "Error", description: "Could not update your deposit setting", variant: "destructive" });
+    } finally {
+      setHoldSaving(false);
+    }
+  };
+
+  const toggleAutoWithdraw = async (value: boolean) => {
+    setAutoWithdrawSaving(true);
+    try {
+      const res = await apiFetch("/crypto/settings", {
+        method: "PATCH",
+        body: JSON.stringify({ autoWithdraw: value }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.message || "Could not update your deposit setting");
+      setAutoWithdraw(value);
+    } catch (e) {
+      toast({
+        title: "Error",
+        description: e instanceof Error ? e.message : "Could not update your deposit setting",
+        variant: "destructive",
+      });
+    } finally {
+      setAutoWithdrawSaving(false);
+    }
+  };
+
   useEffect(() => {
     fetchRates();
     fetchRecentDeposits();
+    fetchSettings();
     const interval = setInterval(fetchRates, 5 * 60_000);
     return () => clearInterval(interval);
-  }, [fetchRates, fetchRecentDeposits]);
+  }, [fetchRates, fetchRecentDeposits, fetchSettings]);
 
   // ── Preview calculator (debounced) ──────────────────────────────────
 
@@ -230,6 +316,46 @@ const CryptoDeposit = () => {
     return () => clearTimeout(timer);
   }, [previewAmount, selectedAsset]);
 
+  // ── Lock a rate quote ──────────────────────────────────────────────
+
+  const requestQuote = useCallback(
+    async (amount: string) => {
+      if (!amount || parseFloat(amount) <= 0) {
+        setQuote(null);
+        return;
+      }
+      setQuoteLoading(true);
+      try {
+        const res = await apiFetch("/crypto/quote", {
+          method: "POST",
+          body: JSON.stringify({ asset: selectedAsset, amount }),
+        });
+        if (!res.ok) throw new Error("Could not lock a rate");
+        const json = await res.json();
+        setQuote(json.data ?? null);
+      } catch {
+        setQuote(null);
+        toast({
+          title: "Rate not locked",
+          description: "Your deposit will be converted at the live rate when it arrives.",
+        });
+      } finally {
+        setQuoteLoading(false);
+      }
+    },
+    [selectedAsset],
+  );
+
+  useEffect(() => {
+    if (!quote) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
+
+  const quoteSecondsLeft = quote
+    ? Math.max(0, Math.floor((new Date(quote.expiresAt).getTime() - now) / 1000))
+    : 0;
+
   // ── Generate deposit address ────────────────────────────────────────
 
   const generateAddress = async () => {
@@ -263,6 +389,8 @@ const CryptoDeposit = () => {
       setQrDataUrl(qr);
       setSentAmount(previewAmount);
       setStep("address");
+      // Held USDT is not converted, so there is no rate to lock
+      if (!holdingUsdt) await requestQuote(previewAmount);
 
       toast({
         title: "Address Ready",
@@ -348,6 +476,7 @@ const CryptoDeposit = () => {
           network: selectedNetwork,
           amount: sentAmount,
           txHash: txHash || undefined,
+          quoteId: quote?.id,
         }),
       });
 
@@ -405,6 +534,7 @@ const CryptoDeposit = () => {
     setActiveDepositTxId(null);
     setVerifyStatus(null);
     setVerifyPhase(0);
+    setQuote(null);
   };
 
   // ── Render ──────────────────────────────────────────────────────────
@@ -426,6 +556,14 @@ const CryptoDeposit = () => {
               Send crypto, receive Naira automatically
             </p>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={() => navigate("/crypto-withdraw")}
+          >
+            Withdraw
+          </Button>
         </div>
       </div>
 
@@ -507,7 +645,7 @@ const CryptoDeposit = () => {
           </div>
 
           <p className="text-xs text-muted-foreground text-center">
-            Rate updates in real-time &bull; Final amount locked at confirmation
+            Rate updates in real-time &bull; Locked for 15 minutes when you get your address
           </p>
           <div className="flex items-start gap-2 pt-1">
             <Info className="h-3 w-3 text-muted-foreground shrink-0 mt-0.5" />
@@ -583,6 +721,40 @@ const CryptoDeposit = () => {
               </div>
             </div>
 
+            {/* Hold as USDT */}
+            {selectedAsset === "USDT" && (
+              <div className="rounded-xl border border-border bg-card p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Keep as USDT</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {holdUsdt
+                      ? "USDT deposits go to your USDT wallet. Swap to Naira any time from your balance."
+                      : "USDT deposits are converted to Naira when they arrive."}
+                  </p>
+                </div>
+                <Switch checked={holdUsdt} onCheckedChange={toggleHoldUsdt} disabled={holdSaving} />
+              </div>
+            )}
+
+            {/* Auto-withdraw to bank */}
+            <div className="rounded-xl border border-border bg-card p-4 flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">Auto-withdraw to bank</p>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {!payoutAccount
+                    ? "Add a primary bank account to send deposits straight to your bank."
+                    : autoWithdraw
+                      ? `Naira from each deposit is sent to ${payoutAccount.bankName} ••${payoutAccount.accountNumberLast4}, less the transfer fee.${holdingUsdt ? " USDT you keep as USDT stays in your wallet." : ""}`
+                      : `Deposits stay in your Vura wallet. Turn on to send them to ${payoutAccount.bankName} ••${payoutAccount.accountNumberLast4}.`}
+                </p>
+              </div>
+              <Switch
+                checked={autoWithdraw}
+                onCheckedChange={toggleAutoWithdraw}
+                disabled={autoWithdrawSaving || (!payoutAccount && !autoWithdraw)}
+              />
+            </div>
+
             {/* Deposit Limits */}
             {currentNetwork && (
               <div className="rounded-xl border border-border bg-card p-4">
@@ -760,6 +932,55 @@ const CryptoDeposit = () => {
               </div>
             </div>
 
+            {holdingUsdt && (
+              <div className="rounded-xl border border-border bg-card p-4 flex items-start gap-3">
+                <Wallet className="h-4 w-4 text-primary shrink-0 mt-0.5" />
+                <p className="text-xs text-muted-foreground">
+                  This deposit will be added to your USDT wallet as it is, with no conversion or fee.
+                </p>
+              </div>
+            )}
+
+            {/* Locked rate */}
+            {quote && (
+              <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-primary" />
+                    {quoteSecondsLeft > 0 ? "Rate locked" : "Rate lock expired"}
+                  </span>
+                  {quoteSecondsLeft > 0 ? (
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {Math.floor(quoteSecondsLeft / 60)}:
+                      {String(quoteSecondsLeft % 60).padStart(2, "0")} left
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => requestQuote(sentAmount || previewAmount)}
+                      disabled={quoteLoading}
+                      className="text-xs text-primary flex items-center gap-1"
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                      {quoteLoading ? "Refreshing..." : "Get new rate"}
+                    </button>
+                  )}
+                </div>
+                <p className="text-lg font-bold">
+                  ₦{parseFloat(quote.rate).toLocaleString(undefined, { maximumFractionDigits: 2 })} per {selectedAsset}
+                </p>
+                {quote.ngnAmount && (
+                  <p className="text-xs text-muted-foreground">
+                    {quote.cryptoAmount} {selectedAsset} &rarr; ₦{parseFloat(quote.ngnAmount).toLocaleString()}
+                    {parseFloat(quote.fee) > 0 && ` after ₦${parseFloat(quote.fee).toLocaleString()} fee`}
+                  </p>
+                )}
+                <div className="flex items-start gap-2 pt-1">
+                  <Info className="h-3 w-3 text-muted-foreground shrink-0 mt-0.5" />
+                  <p className="text-[11px] text-muted-foreground">{quote.policy}</p>
+                </div>
+              </div>
+            )}
+
             {/* How it works */}
             <div className="rounded-xl border border-border bg-card p-4 space-y-3">
               <p className="text-sm font-medium">How it works</p>
@@ -973,6 +1194,7 @@ const CryptoDeposit = () => {
                 {verifyStatus?.cryptoAmount ?? sentAmount} {selectedAsset}
               </span>{" "}
               has been verified on the blockchain
+              {verifyStatus?.heldAs === "USDT" && " and added to your USDT wallet"}
               {verifyStatus?.ngnAmount && verifyStatus.ngnAmount !== "0" && (
                 <>
                   {" "}and{" "}
@@ -984,6 +1206,13 @@ const CryptoDeposit = () => {
               )}
               .
             </p>
+            {verifyStatus?.autoWithdraw && (
+              <p className="text-sm text-muted-foreground">
+                {verifyStatus.autoWithdraw.status === "sent"
+                  ? `₦${parseFloat(verifyStatus.autoWithdraw.amount ?? "0").toLocaleString()} is on its way to your bank.`
+                  : `Auto-withdraw didn't go through (${verifyStatus.autoWithdraw.reason}), so the Naira is in your wallet.`}
+              </p>
+            )}
             <div className="flex gap-3 pt-2">
               <Button
                 onClick={() => navigate("/")}
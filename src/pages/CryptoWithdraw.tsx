@@ -0,0 +1,488 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Clock, Loader2, Plus, Shield, Trash2, Send, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+
+type Asset = "USDT" | "BTC";
+
+const NETWORKS: Record<Asset, { id: string; name: string }[]> = {
+  USDT: [
+    { id: "TRC20", name: "Tron (TRC20)" },
+    { id: "BEP20", name: "BSC (BEP20)" },
+  ],
+  BTC: [{ id: "BTC", name: "Bitcoin" }],
+};
+
+const EXPLORERS: Record<string, string> = {
+  TRC20: "https://tronscan.org/#/transaction/",
+  BEP20: "https://bscscan.com/tx/",
+  BTC: "https://mempool.space/tx/",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  review: "Security review",
+  queued: "Queued",
+  signing: "Being signed",
+  broadcast: "Sent, confirming",
+  confirmed: "Completed",
+  rejected: "Rejected, refunded",
+  failed: "Failed, refunded",
+  cancelled: "Cancelled, refunded",
+};
+
+interface WithdrawalAddress {
+  id: string;
+  asset: Asset;
+  network: string;
+  address: string;
+  label: string | null;
+  activatesAt: string;
+  active: boolean;
+}
+
+interface Withdrawal {
+  id: string;
+  reference: string;
+  asset: Asset;
+  network: string;
+  address: string;
+  amount: string;
+  networkFee: string;
+  status: string;
+  txHash: string | null;
+  confirmations: number;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+interface FeeEstimate {
+  networkFee: string;
+  minimum: string;
+  coolingHours: number;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}…${address.slice(-6)}`;
+
+function timeUntil(dateStr: string, now: number): string {
+  const diffMin = Math.max(0, Math.ceil((new Date(dateStr).getTime() - now) / 60000));
+  const hours = Math.floor(diffMin / 60);
+  return hours > 0 ? `${hours}h ${diffMin % 60}m` : `${diffMin}m`;
+}
+
+const CryptoWithdraw = () => {
+  const navigate = useNavigate();
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [addresses, setAddresses] = useState<WithdrawalAddress[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  // Add-address form
+  const [adding, setAdding] = useState(false);
+  const [newAsset, setNewAsset] = useState<Asset>("USDT");
+  const [newNetwork, setNewNetwork] = useState("TRC20");
+  const [newAddress, setNewAddress] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Withdraw form
+  const [addressId, setAddressId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [pin, setPin] = useState("");
+  const [fee, setFee] = useState<FeeEstimate | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const selected = addresses.find((a) => a.id === addressId) ?? null;
+  const usable = useMemo(
+    () => addresses.filter((a) => new Date(a.activatesAt).getTime() <= now),
+    [addresses, now],
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const [balanceRes, addressRes, withdrawalRes] = await Promise.all([
+        apiFetch("/transactions/balance"),
+        apiFetch("/crypto/withdrawal-addresses"),
+        apiFetch("/crypto/withdrawals"),
+      ]);
+      if (balanceRes.ok) {
+        const data: { currency: string; amount: number }[] = await balanceRes.json();
+        setBalances(Object.fromEntries(data.map((b) => [b.currency, b.amount])));
+      }
+      if (addressRes.ok) setAddresses((await addressRes.json()).data ?? []);
+      if (withdrawalRes.ok) setWithdrawals((await withdrawalRes.json()).data ?? []);
+    } catch {
+      // Keep whatever loaded; the user can retry by reopening the page
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Cooling countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!selected) {
+      setFee(null);
+      return;
+    }
+    apiFetch(`/crypto/withdrawal-fee?asset=${selected.asset}&network=${selected.network}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setFee(data?.data ?? null))
+      .catch(() => setFee(null));
+  }, [selected]);
+
+  const addAddress = async () => {
+    if (!newAddress.trim()) {
+      toast({ title: "Enter the wallet address", variant: "destructive" });
+      return;
+    }
+    if (newPin.length !== 6) {
+      toast({ title: "PIN required", description: "Enter your 6-digit PIN", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await apiFetch("/crypto/withdrawal-addresses", {
+        method: "POST",
+        body: JSON.stringify({
+          asset: newAsset,
+          network: newNetwork,
+          address: newAddress.trim(),
+          label: newLabel.trim() || undefined,
+          pin: newPin,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Could not add address");
+      toast({
+        title: "Address added",
+        description: `You can withdraw to it in ${timeUntil(data.data.activatesAt, Date.now())}.`,
+      });
+      setAdding(false);
+      setNewAddress("");
+      setNewLabel("");
+      setNewPin("");
+      load();
+    } catch (e) {
+      toast({ title: "Not added", description: e instanceof Error ? e.message : "Could not add address", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeAddress = async (id: string) => {
+    const res = await apiFetch(`/crypto/withdrawal-addresses/${id}`, { method: "DELETE" });
+    if (res.ok) {
+      if (id === addressId) setAddressId("");
+      load();
+    } else {
+      toast({ title: "Could not remove address", variant: "destructive" });
+    }
+  };
+
+  const withdraw = async () => {
+    if (!selected) return;
+    if (pin.length !== 6) {
+      toast({ title: "PIN required", description: "Enter your 6-digit PIN", variant: "destructive" });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await apiFetch("/crypto/withdrawals", {
+        method: "POST",
+        headers: { "Idempotency-Key": crypto.randomUUID() },
+        body: JSON.stringify({ addressId: selected.id, amount, pin }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Withdrawal failed");
+      toast({
+        title: data.data.status === "review" ? "Withdrawal under review" : "Withdrawal requested",
+        description:
+          data.data.status === "review"
+            ? "We're checking this withdrawal before sending it. Your balance has been reserved."
+            : `${data.data.amount} ${data.data.asset} will be sent to ${shortAddress(data.data.address)}.`,
+      });
+      setAmount("");
+      setPin("");
+      load();
+    } catch (e) {
+      toast({ title: "Withdrawal failed", description: e instanceof Error ? e.message : "Withdrawal failed", variant: "destructive" });
+      setPin("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancel = async (id: string) => {
+    const res = await apiFetch(`/crypto/withdrawals/${id}/cancel`, { method: "POST" });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      toast({ title: "Withdrawal cancelled", description: "The amount and fee are back in your wallet." });
+      load();
+    } else {
+      toast({ title: "Could not cancel", description: data.message, variant: "destructive" });
+    }
+  };
+
+  const feeAmount = fee ? parseFloat(fee.networkFee) : 0;
+  const total = (parseFloat(amount) || 0) + feeAmount;
+  const available = selected ? balances[selected.asset] ?? 0 : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-background/80 backdrop-blur-md border-b border-border">
+        <div className="flex items-center gap-4 px-4 py-4 max-w-2xl mx-auto">
+          <button onClick={() => navigate(-1)} className="p-2 hover:bg-muted rounded-full transition-colors">
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <h1 className="text-lg font-semibold">Withdraw Crypto</h1>
+            <p className="text-xs text-muted-foreground">Send USDT or BTC to your own wallet</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto p-4 space-y-6 pb-24">
+        {/* Balances */}
+        <div className="grid grid-cols-2 gap-3">
+          {(["USDT", "BTC"] as Asset[]).map((asset) => (
+            <div key={asset} className="rounded-xl border border-border bg-card p-4">
+              <p className="text-xs text-muted-foreground">{asset} wallet</p>
+              <p className="text-lg font-bold tabular-nums mt-1">
+                {(balances[asset] ?? 0).toLocaleString(undefined, { maximumFractionDigits: asset === "BTC" ? 8 : 6 })} {asset}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Whitelist */}
+        <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Shield className="h-4 w-4 text-primary" />
+              <span className="text-sm font-medium">Withdrawal addresses</span>
+            </div>
+            {!adding && (
+              <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            You can only withdraw to saved addresses. New addresses can be used 24 hours after you add them, and we'll notify you when one is added.
+          </p>
+
+          {adding && (
+            <div className="rounded-lg bg-muted/50 p-3 space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {(["USDT", "BTC"] as Asset[]).map((asset) => (
+                  <Button
+                    key={asset}
+                    size="sm"
+                    variant={newAsset === asset ? "default" : "outline"}
+                    onClick={() => {
+                      setNewAsset(asset);
+                      setNewNetwork(NETWORKS[asset][0].id);
+                    }}
+                  >
+                    {asset}
+                  </Button>
+                ))}
+              </div>
+              {NETWORKS[newAsset].length > 1 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {NETWORKS[newAsset].map((network) => (
+                    <Button
+                      key={network.id}
+                      size="sm"
+                      variant={newNetwork === network.id ? "default" : "outline"}
+                      onClick={() => setNewNetwork(network.id)}
+                    >
+                      {network.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <Input placeholder={`${newNetwork} address`} value={newAddress} onChange={(e) => setNewAddress(e.target.value)} />
+              <Input placeholder="Label (optional)" value={newLabel} maxLength={50} onChange={(e) => setNewLabel(e.target.value)} />
+              <Input
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder="Enter PIN"
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                className="text-center tracking-widest"
+              />
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={addAddress} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save address
+                </Button>
+                <Button variant="ghost" onClick={() => setAdding(false)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {addresses.length === 0 && !adding ? (
+            <p className="text-sm text-muted-foreground">No addresses yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {addresses.map((a) => {
+                const cooling = new Date(a.activatesAt).getTime() > now;
+                return (
+                  <div key={a.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {a.label || shortAddress(a.address)}{" "}
+                        <span className="text-xs text-muted-foreground">
+                          {a.asset} · {a.network}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground font-mono truncate">{a.address}</p>
+                      {cooling && (
+                        <p className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
+                          <Clock className="h-3 w-3" />
+                          Usable in {timeUntil(a.activatesAt, now)}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => removeAddress(a.id)}
+                      className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+                      aria-label="Remove address"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Withdraw */}
+        <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Send className="h-4 w-4 text-primary" />
+            <span className="text-sm font-medium">Withdraw</span>
+          </div>
+          {usable.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Add an address above. You can withdraw to it once its 24-hour cooling period ends.</p>
+          ) : (
+            <>
+              <select
+                value={addressId}
+                onChange={(e) => setAddressId(e.target.value)}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Choose an address</option>
+                {usable.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.asset} · {a.network} · {a.label || shortAddress(a.address)}
+                  </option>
+                ))}
+              </select>
+              {selected && (
+                <>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    placeholder={`Amount in ${selected.asset}`}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Network fee</span>
+                      <span>{fee ? `${fee.networkFee} ${selected.asset}` : "…"}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span className="text-muted-foreground">Total from wallet</span>
+                      <span>
+                        {total > 0 ? total.toLocaleString(undefined, { maximumFractionDigits: 8 }) : "—"} {selected.asset}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground pt-1">
+                      Available {available.toLocaleString(undefined, { maximumFractionDigits: 8 })} {selected.asset}
+                      {fee ? ` · Minimum ${fee.minimum} ${selected.asset}` : ""}
+                    </p>
+                  </div>
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={6}
+                    placeholder="Enter PIN"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                    className="text-center tracking-widest"
+                  />
+                  <Button className="w-full" onClick={withdraw} disabled={submitting || !amount || pin.length !== 6 || total > available}>
+                    {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {total > available ? "Insufficient balance" : "Withdraw"}
+                  </Button>
+                  <p className="text-[11px] text-muted-foreground">
+                    Withdrawals are signed offline for security and usually go out within a few hours. Double-check the address: crypto sent to the wrong address can't be recovered.
+                  </p>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* History */}
+        {withdrawals.length > 0 && (
+          <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+            <span className="text-sm font-medium">Recent withdrawals</span>
+            {withdrawals.map((w) => (
+              <div key={w.id} className="flex items-center justify-between gap-3 border-t border-border pt-2 first:border-0 first:pt-0">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {w.amount} {w.asset}{" "}
+                    <span className="text-xs text-muted-foreground">→ {shortAddress(w.address)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {STATUS_LABELS[w.status] ?? w.status}
+                    {w.status === "broadcast" ? ` (${w.confirmations} confirmations)` : ""}
+                    {w.failureReason && w.status !== "cancelled" ? ` · ${w.failureReason}` : ""}
+                  </p>
+                </div>
+                {w.txHash ? (
+                  <a
+                    href={`${EXPLORERS[w.network]}${w.txHash}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-primary flex items-center gap-1 shrink-0"
+                  >
+                    View <ExternalLink className="h-3 w-3" />
+                  </a>
+                ) : (
+                  (w.status === "review" || w.status === "queued") && (
+                    <Button size="sm" variant="ghost" onClick={() => cancel(w.id)}>
+                      Cancel
+                    </Button>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CryptoWithdraw;
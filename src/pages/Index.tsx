@@ -9,6 +9,7 @@ import SpendingChart from "@/components/SpendingChart";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import { PaymentRequestNotification } from "@/components/PaymentRequestNotification";
 import { useAuth, apiFetch } from "@/hooks/useAuth";
+import { useNotifications } from "@/hooks/useNotifications";
 import { toast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
@@ -44,6 +45,7 @@ interface PendingRequest {
 
 const Index = () => {
   const { user } = useAuth();
+  const { latest } = useNotifications();
   const navigate = useNavigate();
   const [balances, setBalances] = useState<Balance[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -120,6 +122,30 @@ const Index = () => {
     }
   }, [user]);
 
+  const refreshWallet = async () => {
+    const balanceRes = await apiFetch("/transactions/balance");
+    if (balanceRes.ok) {
+      const balanceData = await balanceRes.json();
+      if (Array.isArray(balanceData)) setBalances(balanceData);
+    }
+    const txRes = await apiFetch("/transactions?limit=10");
+    if (txRes.ok) {
+      const txData = await txRes.json();
+      if (Array.isArray(txData)) setTransactions(txData);
+    }
+  };
+
+  // New requests and incoming money arrive over the notification stream
+  // instead of polling
+  useEffect(() => {
+    if (!latest) return;
+    if (latest.type === "payment_request_received") {
+      fetchPendingRequests();
+    } else if (["money_received", "crypto_deposit_confirmed", "bill_failed_refunded", "refund_received"].includes(latest.type)) {
+      refreshWallet().catch(() => undefined);
+    }
+  }, [latest]);
+
   const handleAcceptRequest = async (requestId: string, pin: string) => {
     try {
       const res = await apiFetch(`/payment-requests/${requestId}/accept`, {
@@ -134,16 +160,7 @@ const Index = () => {
       toast({ title: "Payment sent", description: data.message || `₦${data.request?.amount} sent.` });
       setSelectedRequest(null);
       setPendingRequests((prev) => prev.filter((r) => r.id !== requestId));
-      const balanceRes = await apiFetch("/transactions/balance");
-      if (balanceRes.ok) {
-        const balanceData = await balanceRes.json();
-        if (Array.isArray(balanceData)) setBalances(balanceData);
-      }
-      const txRes = await apiFetch("/transactions?limit=10");
-      if (txRes.ok) {
-        const txData = await txRes.json();
-        if (Array.isArray(txData)) setTransactions(txData);
-      }
+      await refreshWallet();
     } catch (e) {
       toast({ title: "Error", description: e instanceof Error ? e.message : "Request failed", variant: "destructive" });
     }
@@ -184,6 +201,7 @@ const Index = () => {
               ngnBalance={ngnBalance} 
               usdtBalance={usdtBalance} 
               loading={loading} 
+              onSwapped={() => refreshWallet().catch(() => undefined)}
             />
             {!loading && hasRemaining && (
               <div className="mt-2 flex items-center gap-2 flex-wrap">
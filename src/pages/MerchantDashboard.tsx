@@ -33,6 +33,11 @@ import { getApiUrl } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { QrCodeScanner } from '@/components/QrCodeScanner';
 import { SecurityCountdownModal } from '@/components/SecurityCountdownModal';
+import { MerchantWebhooks } from '@/components/MerchantWebhooks';
+import { MerchantApiKeys } from '@/components/MerchantApiKeys';
+import { MerchantPaymentLinks } from '@/components/MerchantPaymentLinks';
+import { MerchantSettlements } from '@/components/MerchantSettlements';
+import { MerchantDisputes } from '@/components/MerchantDisputes';
 
 interface Transaction {
   id: string;
@@ -57,7 +62,7 @@ interface QrCodeData {
 }
 
 export const MerchantDashboard: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'qr-codes'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'qr-codes' | 'payment-links' | 'settlements' | 'disputes' | 'webhooks' | 'api-keys'>('overview');
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [qrCodes, setQrCodes] = useState<QrCodeData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -309,6 +314,36 @@ export const MerchantDashboard: React.FC = () => {
         >
           QR Codes
         </Button>
+        <Button
+          variant={activeTab === 'payment-links' ? 'default' : 'ghost'}
+          onClick={() => setActiveTab('payment-links')}
+        >
+          Payment Links
+        </Button>
+        <Button
+          variant={activeTab === 'settlements' ? 'default' : 'ghost'}
+          onClick={() => setActiveTab('settlements')}
+        >
+          Settlements
+        </Button>
+        <Button
+          variant={activeTab === 'disputes' ? 'default' : 'ghost'}
+          onClick={() => setActiveTab('disputes')}
+        >
+          Disputes &amp; Refunds
+        </Button>
+        <Button
+          variant={activeTab === 'webhooks' ? 'default' : 'ghost'}
+          onClick={() => setActiveTab('webhooks')}
+        >
+          Webhooks
+        </Button>
+        <Button
+          variant={activeTab === 'api-keys' ? 'default' : 'ghost'}
+          onClick={() => setActiveTab('api-keys')}
+        >
+          API Keys
+        </Button>
       </div>
 
       {/* Content */}
@@ -485,6 +520,16 @@ export const MerchantDashboard: React.FC = () => {
         </Card>
       )}
 
+      {activeTab === 'payment-links' && <MerchantPaymentLinks />}
+
+      {activeTab === 'settlements' && <MerchantSettlements />}
+
+      {activeTab === 'disputes' && <MerchantDisputes />}
+
+      {activeTab === 'webhooks' && <MerchantWebhooks />}
+
+      {activeTab === 'api-keys' && <MerchantApiKeys />}
+
       {/* QR Scanner Modal */}
       <QrCodeScanner
         isOpen={showQrScanner}
@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   ArrowUpRight, CheckCircle, AlertTriangle, Search, Building2, User, 
   ChevronDown, Check, QrCode, Clock, Calendar, Repeat, Share2, Star,
-  History, Wallet, ArrowLeft, Loader2
+  History, Wallet, ArrowLeft, Loader2, Pause, Play, X
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,6 +22,21 @@ type TransferMode = "tag" | "bank";
 type ScheduleType = "now" | "later" | "recurring";
 type RecurringFrequency = "daily" | "weekly" | "monthly";
 
+interface ScheduledPayment {
+  id: string;
+  amount: number;
+  description: string | null;
+  frequency: "once" | RecurringFrequency;
+  status: "ACTIVE" | "PAUSED" | "COMPLETED" | "CANCELLED";
+  nextRunAt: string;
+  endAt: string | null;
+  maxRuns: number | null;
+  runCount: number;
+  retryCount: number;
+  lastError: string | null;
+  beneficiary: { id: string; name: string; type: string; vuraTag: string | null; accountNumber: string | null; bankName: string | null };
+}
+
 interface RecentRecipient {
   id: string;
   type: "tag" | "bank";
@@ -33,6 +48,13 @@ interface RecentRecipient {
   isFavorite: boolean;
 }
 
+const SCHEDULE_LABELS: Record<ScheduledPayment["frequency"], string> = {
+  once: "One-off",
+  daily: "Every day",
+  weekly: "Every week",
+  monthly: "Every month",
+};
+
 // Default empty array - will be populated from API
 const DEFAULT_RECIPIENTS: RecentRecipient[] = [];
 
@@ -58,6 +80,10 @@ const SendMoney = () => {
   const [scheduleType, setScheduleType] = useState<ScheduleType>("now");
   const [scheduleDate, setScheduleDate] = useState("");
   const [recurringFrequency, setRecurringFrequency] = useState<RecurringFrequency>("monthly");
+  const [scheduleEndDate, setScheduleEndDate] = useState("");
+  const [scheduleMaxRuns, setScheduleMaxRuns] = useState("");
+  const [scheduledPayments, setScheduledPayments] = useState<ScheduledPayment[]>([]);
+  const [updatingScheduleId, setUpdatingScheduleId] = useState<string | null>(null);
   const [amount, setAmount] = useState("");
   const [description, setDescription] = useState("");
   const [pin, setPin] = useState("");
@@ -237,6 +263,21 @@ const SendMoney = () => {
     loadBeneficiaries();
   }, []);
 
+  const loadScheduledPayments = async () => {
+    try {
+      const res = await apiFetch("/scheduled-payments");
+      if (!res.ok) return;
+      const data = await res.json();
+      setScheduledPayments(Array.isArray(data?.data) ? data.data : []);
+    } catch {
+      // list stays as it was
+    }
+  };
+
+  useEffect(() => {
+    loadScheduledPayments();
+  }, []);
+
   useEffect(() => {
     const cleanInput = recipientTag.replace(/\D/g, "");
     if (cleanInput.length === 10 && /^\d{10}$/.test(cleanInput)) {
@@ -340,16 +381,20 @@ const SendMoney = () => {
       return;
     }
     if (scheduleType !== "now") {
-      toast({ title: "Coming soon", description: "Scheduled and recurring transfers will be available soon. Use Send now for instant transfers.", variant: "default" });
+      handleSchedule();
       return;
     }
     setSending(true);
+    // Reuse the key minted on Continue so a retried send is never debited twice
+    const idempotencyKey = sendIdempotencyKeyRef.current || crypto.randomUUID();
+    sendIdempotencyKeyRef.current = idempotencyKey;
     try {
       let res;
       if (transferMode === "tag") {
         const tag = recipientTag.startsWith("@") ? recipientTag.slice(1) : recipientTag;
         res = await apiFetch("/transactions/send", {
           method: "POST",
+          headers: { "Idempotency-Key": idempotencyKey },
           body: JSON.stringify({
             recipientTag: tag,
             amount: Number(amount),
@@ -361,6 +406,7 @@ const SendMoney = () => {
       } else {
         res = await apiFetch("/transactions/send-to-bank", {
           method: "POST",
+          headers: { "Idempotency-Key": idempotencyKey },
           body: JSON.stringify({
             accountNumber,
             bankCode: selectedBank,
@@ -369,7 +415,7 @@ const SendMoney = () => {
             description,
             pin,
             scheduleType: "now",
-            idempotencyKey: sendIdempotencyKeyRef.current || crypto.randomUUID(),
+            idempotencyKey,
           }),
         });
       }
@@ -378,6 +424,7 @@ const SendMoney = () => {
         throw new Error(data?.message || "Transfer failed. Please try again.");
       }
       setReference(data.reference || `VUR${Date.now()}`);
+      sendIdempotencyKeyRef.current = null;
       const displayName = transferMode === "tag" ? `@${recipientData?.vuraTag || recipientTag}` : accountName;
       const newRecipient: RecentRecipient = {
         id: Date.now().toString(),
@@ -392,27 +439,7 @@ const SendMoney = () => {
       setRecentRecipients(prev => [newRecipient, ...prev.filter(r => r.identifier !== newRecipient.identifier)].slice(0, 10));
       // Persist as beneficiary (ignore if already exists)
       try {
-        if (transferMode === "tag") {
-          await apiFetch("/beneficiaries", {
-            method: "POST",
-            body: JSON.stringify({
-              name: displayName,
-              vuraTag: newRecipient.identifier,
-              type: "vura",
-            }),
-          });
-        } else {
-          await apiFetch("/beneficiaries", {
-            method: "POST",
-            body: JSON.stringify({
-              name: accountName,
-              accountNumber,
-              bankCode: selectedBank,
-              bankName: banks.find(b => b.code === selectedBank)?.name,
-              type: "bank",
-            }),
-          });
-        }
+        await saveBeneficiary();
       } catch {
         // already exists or network; ignore
       }
@@ -427,6 +454,102 @@ const SendMoney = () => {
     }
   };
 
+  const getRecipientIdentifier = () =>
+    transferMode === "tag" ? (recipientTag.startsWith("@") ? recipientTag.slice(1) : recipientTag) : accountNumber;
+
+  // Save the current recipient as a beneficiary and return its id (existing one if already saved)
+  const saveBeneficiary = async (): Promise<string | null> => {
+    const identifier = getRecipientIdentifier();
+    const res = await apiFetch("/beneficiaries", {
+      method: "POST",
+      body: JSON.stringify(
+        transferMode === "tag"
+          ? { name: `@${recipientData?.vuraTag || identifier}`, vuraTag: identifier, type: "vura" }
+          : {
+              name: accountName,
+              accountNumber,
+              bankCode: selectedBank,
+              bankName: banks.find(b => b.code === selectedBank)?.name,
+              type: "bank",
+            },
+      ),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok && data?.data?.id) return data.data.id;
+
+    const listRes = await apiFetch("/beneficiaries");
+    if (!listRes.ok) return null;
+    const list = await listRes.json().catch(() => ({}));
+    const match = (Array.isArray(list?.data) ? list.data : []).find(
+      (b: { id: string; vuraTag?: string | null; accountNumber?: string | null }) =>
+        transferMode === "tag" ? b.vuraTag === identifier : b.accountNumber === identifier,
+    );
+    return match?.id ?? null;
+  };
+
+  const handleSchedule = async () => {
+    if (!scheduleDate) {
+      toast({ title: "Pick a date", description: "Choose when the first payment should go out", variant: "destructive" });
+      return;
+    }
+    setSending(true);
+    try {
+      const beneficiaryId = await saveBeneficiary();
+      if (!beneficiaryId) throw new Error("Could not save this recipient. Please try again.");
+      const recurring = scheduleType === "recurring";
+      const res = await apiFetch("/scheduled-payments", {
+        method: "POST",
+        body: JSON.stringify({
+          beneficiaryId,
+          amount: Number(amount),
+          description: description || undefined,
+          frequency: recurring ? recurringFrequency : "once",
+          startAt: new Date(scheduleDate).toISOString(),
+          endAt: recurring && scheduleEndDate ? new Date(`${scheduleEndDate}T23:59:59`).toISOString() : undefined,
+          maxRuns: recurring && scheduleMaxRuns ? Number(scheduleMaxRuns) : undefined,
+          pin,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.message || "Could not schedule this transfer. Please try again.");
+      }
+      setReference("");
+      await loadScheduledPayments();
+      setStep("success");
+      toast({ title: "Transfer scheduled", description: `₦${Number(amount).toLocaleString()} to ${getRecipientDisplay()} ${describeSchedule()}` });
+    } catch (error: unknown) {
+      let msg = "Could not schedule this transfer. Please try again.";
+      if (error instanceof Error && error.message) msg = error.message;
+      toast({ title: "Scheduling failed", description: msg, variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const updateScheduledPayment = async (id: string, action: "pause" | "resume" | "cancel") => {
+    setUpdatingScheduleId(id);
+    try {
+      const res = await apiFetch(
+        action === "cancel" ? `/scheduled-payments/${id}` : `/scheduled-payments/${id}/${action}`,
+        { method: action === "cancel" ? "DELETE" : "POST" },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.message || "Could not update this schedule.");
+      await loadScheduledPayments();
+      toast({ title: action === "cancel" ? "Schedule cancelled" : action === "pause" ? "Schedule paused" : "Schedule resumed" });
+    } catch (error: unknown) {
+      toast({ title: "Update failed", description: error instanceof Error ? error.message : "Try again.", variant: "destructive" });
+    } finally {
+      setUpdatingScheduleId(null);
+    }
+  };
+
+  const describeSchedule = () => {
+    const when = scheduleDate ? new Date(scheduleDate).toLocaleString() : "";
+    return scheduleType === "later" ? `on ${when}` : `${recurringFrequency}, starting ${when}`;
+  };
+
   const handleShareReceipt = () => {
     const receiptText = `Vura Transfer Receipt\n\nTo: ${getRecipientDisplay()}\nAmount: ₦${Number(amount).toLocaleString()}\nFee: ₦${fee.toFixed(2)}\nTotal: ₦${total.toLocaleString()}\nRef: ${reference}\n\nSent via @vura`;
     if (navigator.share) {
@@ -471,7 +594,9 @@ const SendMoney = () => {
 
   const isFormValid = () => {
     if (!amount || Number(amount) <= 0) return false;
-    if (isOverLimit) return false;
+    if (scheduleType !== "now" && !scheduleDate) return false;
+    // Today's limit only applies to payments sent today
+    if (isOverLimit && scheduleType === "now") return false;
     if (transferMode === "tag") {
       return recipientData?.found;
     } else {
@@ -500,6 +625,9 @@ const SendMoney = () => {
     setPin("");
     setScheduleType("now");
     setScheduleDate("");
+    setScheduleEndDate("");
+    setScheduleMaxRuns("");
+    setShowScheduleOptions(false);
   };
 
   return (
@@ -666,9 +794,55 @@ const SendMoney = () => {
                 </div>
 
                 <div className="space-y-3">
-                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
-                    <Clock className="h-3.5 w-3.5" /> Send now. Scheduled & recurring transfers coming later.
-                  </p>
+                  <button type="button" onClick={() => setShowScheduleOptions(!showScheduleOptions)} className="flex items-center gap-1.5 text-sm font-medium text-foreground hover:text-primary transition-colors">
+                    <Clock className="h-4 w-4" /> {scheduleType === "now" ? "Send now" : scheduleType === "later" ? "Send later" : "Repeat payment"}
+                    <ChevronDown className={`h-4 w-4 transition-transform ${showScheduleOptions ? "rotate-180" : ""}`} />
+                  </button>
+                  {showScheduleOptions && (
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-3 gap-2">
+                        {([
+                          { type: "now", label: "Now", icon: ArrowUpRight },
+                          { type: "later", label: "Later", icon: Calendar },
+                          { type: "recurring", label: "Repeat", icon: Repeat },
+                        ] as const).map(({ type, label, icon: Icon }) => (
+                          <button key={type} type="button" onClick={() => setScheduleType(type)} className={`flex items-center justify-center gap-1.5 py-2 rounded-lg border text-sm transition-colors ${scheduleType === type ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground hover:text-foreground"}`}>
+                            <Icon className="h-4 w-4" /> {label}
+                          </button>
+                        ))}
+                      </div>
+                      {scheduleType !== "now" && (
+                        <div>
+                          <Label className="text-sm font-medium text-foreground mb-1.5 block">{scheduleType === "later" ? "Send on" : "First payment"}</Label>
+                          <Input type="datetime-local" value={scheduleDate} min={new Date(Date.now() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 16)} onChange={(e) => setScheduleDate(e.target.value)} className="h-12 rounded-xl" />
+                        </div>
+                      )}
+                      {scheduleType === "recurring" && (
+                        <>
+                          <div className="grid grid-cols-3 gap-2">
+                            {(["daily", "weekly", "monthly"] as const).map((freq) => (
+                              <button key={freq} type="button" onClick={() => setRecurringFrequency(freq)} className={`py-2 rounded-lg border text-sm capitalize transition-colors ${recurringFrequency === freq ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground hover:text-foreground"}`}>
+                                {freq}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <Label className="text-xs text-muted-foreground mb-1 block">End date (optional)</Label>
+                              <Input type="date" value={scheduleEndDate} onChange={(e) => setScheduleEndDate(e.target.value)} className="h-11 rounded-xl" />
+                            </div>
+                            <div>
+                              <Label className="text-xs text-muted-foreground mb-1 block">Number of payments (optional)</Label>
+                              <Input type="number" min={1} placeholder="No limit" value={scheduleMaxRuns} onChange={(e) => setScheduleMaxRuns(e.target.value.replace(/\D/g, ""))} className="h-11 rounded-xl" />
+                            </div>
+                          </div>
+                        </>
+                      )}
+                      {scheduleType !== "now" && (
+                        <p className="text-xs text-muted-foreground">Your limits and balance are checked when each payment goes out. If your balance is short we retry a few times and email you.</p>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {amount && Number(amount) > 0 && (
@@ -691,13 +865,47 @@ const SendMoney = () => {
                     ) : (
                       <div className="flex justify-between text-muted-foreground"><span>Transfer fee</span><span>₦{fee.toFixed(2)}</span></div>
                     )}
-                    {scheduleType !== "now" && <div className="flex justify-between text-amber-600"><span>{scheduleType === "later" ? "Scheduled" : "Recurring"}</span><span>{scheduleType === "later" ? scheduleDate : recurringFrequency}</span></div>}
+                    {scheduleType !== "now" && <div className="flex justify-between text-amber-600"><span>{scheduleType === "later" ? "Scheduled" : "Recurring"}</span><span>{scheduleType === "later" ? new Date(scheduleDate).toLocaleString() : recurringFrequency}</span></div>}
                     <div className="flex justify-between font-semibold text-foreground"><span>Total</span><span>₦{total.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span></div>
                   </div>
                 )}
 
-                <Button onClick={() => { if (transferMode === "bank") sendIdempotencyKeyRef.current = crypto.randomUUID(); setStep("confirm"); }} disabled={!isFormValid()} className="w-full h-12 rounded-xl gradient-brand text-primary-foreground font-semibold border-0 hover:opacity-90">Continue</Button>
+                <Button onClick={() => { sendIdempotencyKeyRef.current = crypto.randomUUID(); setStep("confirm"); }} disabled={!isFormValid()} className="w-full h-12 rounded-xl gradient-brand text-primary-foreground font-semibold border-0 hover:opacity-90">Continue</Button>
               </div>
+
+              {scheduledPayments.length > 0 && (
+                <div className="rounded-2xl bg-card border border-border p-4 sm:p-6 shadow-card space-y-3">
+                  <h3 className="text-sm font-semibold text-foreground flex items-center gap-2"><Calendar className="h-4 w-4" /> Scheduled payments</h3>
+                  {scheduledPayments.map((schedule) => (
+                    <div key={schedule.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-secondary">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">
+                          ₦{schedule.amount.toLocaleString()} to {schedule.beneficiary.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {SCHEDULE_LABELS[schedule.frequency]}
+                          {schedule.status === "ACTIVE" && ` · next ${new Date(schedule.nextRunAt).toLocaleString()}`}
+                          {schedule.status !== "ACTIVE" && ` · ${schedule.status.toLowerCase()}`}
+                          {schedule.maxRuns !== null && ` · ${schedule.runCount}/${schedule.maxRuns} paid`}
+                        </p>
+                        {schedule.lastError && schedule.status !== "COMPLETED" && (
+                          <p className="text-xs text-destructive truncate">{schedule.retryCount > 0 ? "Retrying: " : "Last attempt failed: "}{schedule.lastError}</p>
+                        )}
+                      </div>
+                      {(schedule.status === "ACTIVE" || schedule.status === "PAUSED") && (
+                        <div className="flex gap-1 shrink-0">
+                          <Button type="button" variant="ghost" size="icon" disabled={updatingScheduleId === schedule.id} title={schedule.status === "ACTIVE" ? "Pause" : "Resume"} onClick={() => updateScheduledPayment(schedule.id, schedule.status === "ACTIVE" ? "pause" : "resume")}>
+                            {schedule.status === "ACTIVE" ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                          <Button type="button" variant="ghost" size="icon" disabled={updatingScheduleId === schedule.id} title="Cancel" onClick={() => updateScheduledPayment(schedule.id, "cancel")}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -716,7 +924,7 @@ const SendMoney = () => {
                 </div>
                 <div className="space-y-3 text-sm">
                   <div className="flex justify-between"><span className="text-muted-foreground">Transfer Type</span><span className="font-medium text-foreground flex items-center gap-1">{transferMode === "tag" ? <User className="h-3 w-3" /> : <Building2 className="h-3 w-3" />}{transferMode === "tag" ? "Vura @tag" : "Bank Transfer"}</span></div>
-                  {scheduleType !== "now" && <div className="flex justify-between"><span className="text-muted-foreground">Schedule</span><span className="font-medium text-amber-600">{scheduleType === "later" ? scheduleDate : `Every ${recurringFrequency}`}</span></div>}
+                  {scheduleType !== "now" && <div className="flex justify-between"><span className="text-muted-foreground">Schedule</span><span className="font-medium text-amber-600">{describeSchedule()}</span></div>}
                   <div className="flex justify-between"><span className="text-muted-foreground">To</span><span className="font-medium text-foreground text-right max-w-[60%] truncate">{getRecipientDisplay()}</span></div>
                   <div className="flex justify-between"><span className="text-muted-foreground">Amount</span><span className="font-medium text-foreground">₦{Number(amount).toLocaleString()}</span></div>
                   <div className="flex justify-between"><span className="text-muted-foreground">Fee</span><span className="font-medium text-foreground">₦{fee.toFixed(2)}</span></div>
@@ -728,7 +936,7 @@ const SendMoney = () => {
                   <Input type="password" inputMode="numeric" maxLength={6} value={pin} onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))} placeholder="••••••" className="h-12 rounded-xl text-center text-2xl tracking-widest" />
                 </div>
                 <Button onClick={() => setShowSecurityModal(true)} disabled={sending || pin.length !== 6} className="w-full h-12 rounded-xl gradient-brand text-primary-foreground font-semibold border-0 hover:opacity-90">
-                  {sending ? "Processing..." : `Send ₦${Number(amount).toLocaleString()}`}
+                  {sending ? "Processing..." : scheduleType === "now" ? `Send ₦${Number(amount).toLocaleString()}` : `Schedule ₦${Number(amount).toLocaleString()}`}
                 </Button>
               </div>
             </motion.div>
@@ -754,10 +962,13 @@ const SendMoney = () => {
                 <div className="mx-auto w-20 h-20 rounded-full bg-green-100 flex items-center justify-center mb-6">
                   <CheckCircle className="h-10 w-10 text-green-600" />
                 </div>
-                <h2 className="text-2xl font-bold text-foreground mb-2">Transfer successful</h2>
+                <h2 className="text-2xl font-bold text-foreground mb-2">{scheduleType === "now" ? "Transfer successful" : "Transfer scheduled"}</h2>
                 <p className="text-muted-foreground mb-6">
-                  You sent ₦{Number(amount).toLocaleString()} to {getRecipientDisplay()}
+                  {scheduleType === "now"
+                    ? <>You sent ₦{Number(amount).toLocaleString()} to {getRecipientDisplay()}</>
+                    : <>₦{Number(amount).toLocaleString()} to {getRecipientDisplay()} {describeSchedule()}</>}
                 </p>
+                {scheduleType === "now" && (
                 <div className="rounded-2xl bg-card border border-border p-6 shadow-card max-w-sm mx-auto mb-6">
                   <div className="space-y-2 text-sm text-left">
                     <div className="flex justify-between"><span className="text-muted-foreground">Reference</span><span className="font-medium text-foreground">{reference}</span></div>
@@ -766,10 +977,13 @@ const SendMoney = () => {
                     <div className="flex justify-between"><span className="text-muted-foreground">Total</span><span className="font-bold text-foreground">₦{total.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span></div>
                   </div>
                 </div>
+                )}
                 <div className="flex gap-3 justify-center">
+                  {scheduleType === "now" && (
                   <Button onClick={handleShareReceipt} variant="outline" className="rounded-xl">
                     <Share2 className="h-4 w-4 mr-2" /> Share Receipt
                   </Button>
+                  )}
                   <Button onClick={resetForm} className="rounded-xl gradient-brand text-primary-foreground border-0 hover:opacity-90">
                     Send Another
                   </Button>
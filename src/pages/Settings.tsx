@@ -5,7 +5,7 @@ import {
   Star, Fingerprint,
   Eye, EyeOff, ToggleLeft, ToggleRight, CreditCard,
   BadgeCheck, AlertTriangle, ShieldCheck,
-  Mail, Loader2
+  Mail, Loader2, Monitor, ArrowDownLeft, Bitcoin, Receipt
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -29,6 +29,28 @@ interface SettingsItemProps {
   onToggle?: () => void;
 }
 
+interface NotificationPreference {
+  category: string;
+  enabled: boolean;
+  mandatory: boolean;
+}
+
+const notificationCategories: Record<string, { label: string; icon: React.ElementType }> = {
+  money: { label: "Money received", icon: ArrowDownLeft },
+  payment_requests: { label: "Payment requests", icon: FileText },
+  account: { label: "Account & security", icon: ShieldCheck },
+  crypto: { label: "Crypto deposits", icon: Bitcoin },
+  bills: { label: "Bill payments", icon: Receipt },
+};
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  lastActiveAt: string;
+  current: boolean;
+}
+
 const SettingsPage = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
@@ -46,14 +68,15 @@ const SettingsPage = () => {
   const [otp, setOtp] = useState("");
   const [otpSent, setOtpSent] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [devices, setDevices] = useState<DeviceSession[]>([]);
+  const [devicesLoading, setDevicesLoading] = useState(false);
+  const [signingOutId, setSigningOutId] = useState<string | null>(null);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreference[]>([]);
   
   const [settings, setSettings] = useState({
     hideBalance: false,
     hideTransactionAmounts: false,
     biometricEnabled: false,
-    pushNotifications: true,
-    smsNotifications: true,
-    emailNotifications: false,
     marketingEmails: false,
   });
 
@@ -79,7 +102,10 @@ const SettingsPage = () => {
         // ignore invalid stored prefs
       }
     }
-    if (user) fetchVerificationStatus();
+    if (user) {
+      fetchVerificationStatus();
+      fetchNotificationPrefs();
+    }
   }, [user]);
 
   useEffect(() => {
@@ -98,9 +124,6 @@ const SettingsPage = () => {
       hideBalance: "Hide balance",
       hideTransactionAmounts: "Privacy mode",
       biometricEnabled: "Biometric login",
-      pushNotifications: "Push notifications",
-      smsNotifications: "SMS notifications",
-      emailNotifications: "Email notifications",
       marketingEmails: "Marketing emails",
     };
     toast({ title: "Saved", description: `${labels[key] ?? key} updated.` });
@@ -113,6 +136,94 @@ const SettingsPage = () => {
 
   const getInitials = (tag: string) => tag.slice(0, 2).toUpperCase();
 
+  const openDevices = async () => {
+    setActiveDialog("devices");
+    setDevicesLoading(true);
+    try {
+      const response = await apiFetch("/auth/sessions");
+      const data = await response.json();
+      if (response.ok) {
+        setDevices(data.data);
+      } else {
+        toast({ title: "Failed", description: data.message, variant: "destructive" });
+      }
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to load devices", variant: "destructive" });
+    } finally {
+      setDevicesLoading(false);
+    }
+  };
+
+  // id "others" signs out every device except this one
+  const signOutDevice = async (id: string) => {
+    setSigningOutId(id);
+    try {
+      const response = id === "others"
+        ? await apiFetch("/auth/sessions/revoke-others", { method: "POST" })
+        : await apiFetch(`/auth/sessions/${id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (response.ok) {
+        setDevices((prev) => prev.filter((d) => (id === "others" ? d.current : d.id !== id)));
+        toast({
+          title: "Signed out",
+          description: id === "others" ? "All other devices have been signed out." : "That device has been signed out.",
+        });
+      } else {
+        toast({ title: "Failed", description: data.message, variant: "destructive" });
+      }
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to sign out device", variant: "destructive" });
+    } finally {
+      setSigningOutId(null);
+    }
+  };
+
+  const fetchNotificationPrefs = async () => {
+    try {
+      const response = await apiFetch("/notifications/preferences");
+      if (response.ok) {
+        const data = await response.json();
+        setNotificationPrefs(Array.isArray(data.data) ? data.data : []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch notification preferences:", error);
+    }
+  };
+
+  const toggleNotificationCategory = async (pref: NotificationPreference) => {
+    if (pref.mandatory) {
+      toast({ title: "Always on", description: "Account and security notifications can't be turned off." });
+      return;
+    }
+    const enabled = !pref.enabled;
+    setNotificationPrefs((prev) => prev.map((p) => (p.category === pref.category ? { ...p, enabled } : p)));
+    try {
+      const response = await apiFetch("/notifications/preferences", {
+        method: "PUT",
+        body: JSON.stringify({ category: pref.category, enabled }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setNotificationPrefs(data.data);
+        toast({ title: "Saved", description: `${notificationCategories[pref.category]?.label ?? pref.category} notifications ${enabled ? "on" : "off"}.` });
+      } else {
+        setNotificationPrefs((prev) => prev.map((p) => (p.category === pref.category ? pref : p)));
+        toast({ title: "Failed", description: data.message, variant: "destructive" });
+      }
+    } catch (error) {
+      setNotificationPrefs((prev) => prev.map((p) => (p.category === pref.category ? pref : p)));
+      toast({ title: "Error", description: "Failed to update notifications", variant: "destructive" });
+    }
+  };
+
+  const formatLastSeen = (iso: string) => {
+    const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 2) return "Active now";
+    if (minutes < 60) return `${minutes} min ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+    return new Date(iso).toLocaleDateString();
+  };
+
   const fetchVerificationStatus = async () => {
     try {
       const response = await apiFetch("/kyc/bvn-status");
@@ -296,6 +407,7 @@ const SettingsPage = () => {
 
           <SettingsSection title="Account & Security">
             <SettingsItem icon={Lock} label="Transaction PIN" value="Change or reset your 6-digit PIN" onClick={() => setActiveDialog("pin")} />
+            <SettingsItem icon={Monitor} label="Active devices" value="See where you're signed in" onClick={openDevices} />
             <SettingsItem icon={Fingerprint} label="Biometric Login" value="Use fingerprint or Face ID" toggle toggleValue={settings.biometricEnabled} onToggle={() => updateSetting("biometricEnabled", !settings.biometricEnabled)} />
           </SettingsSection>
 
@@ -307,9 +419,17 @@ const SettingsPage = () => {
 
           {/* Notifications */}
           <SettingsSection title="Notifications">
-            <SettingsItem icon={Bell} label="Push Notifications" toggle toggleValue={settings.pushNotifications} onToggle={() => updateSetting("pushNotifications", !settings.pushNotifications)} />
-            <SettingsItem icon={Smartphone} label="SMS Notifications" toggle toggleValue={settings.smsNotifications} onToggle={() => updateSetting("smsNotifications", !settings.smsNotifications)} />
-            <SettingsItem icon={FileText} label="Email Notifications" toggle toggleValue={settings.emailNotifications} onToggle={() => updateSetting("emailNotifications", !settings.emailNotifications)} />
+            {notificationPrefs.map((pref) => (
+              <SettingsItem
+                key={pref.category}
+                icon={notificationCategories[pref.category]?.icon ?? Bell}
+                label={notificationCategories[pref.category]?.label ?? pref.category}
+                value={pref.mandatory ? "Always on" : undefined}
+                toggle
+                toggleValue={pref.enabled}
+                onToggle={() => toggleNotificationCategory(pref)}
+              />
+            ))}
           </SettingsSection>
 
           {/* Privacy */}
@@ -424,6 +544,49 @@ const SettingsPage = () => {
           </DialogContent>
         </Dialog>
 
+        {/* Active Devices Dialog */}
+        <Dialog open={activeDialog === "devices"} onOpenChange={() => setActiveDialog(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Active devices</DialogTitle>
+              <DialogDescription>Devices signed in to your account. Sign out any you don't recognise.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3 py-4">
+              {devicesLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                devices.map((device) => (
+                  <div key={device.id} className="flex items-center gap-3 p-3 bg-muted rounded-lg">
+                    <Smartphone className="h-5 w-5 text-muted-foreground shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {device.device}
+                        {device.current && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary">This device</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {device.ipAddress || "Unknown IP"} • {formatLastSeen(device.lastActiveAt)}
+                      </p>
+                    </div>
+                    {!device.current && (
+                      <Button variant="outline" size="sm" disabled={signingOutId !== null} onClick={() => signOutDevice(device.id)}>
+                        {signingOutId === device.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Sign out"}
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+              {!devicesLoading && devices.some((d) => !d.current) && (
+                <Button variant="outline" className="w-full text-destructive" disabled={signingOutId !== null} onClick={() => signOutDevice("others")}>
+                  {signingOutId === "others" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+                  Sign out all other devices
+                </Button>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Help Dialog */}
         <Dialog open={activeDialog === "help"} onOpenChange={() => setActiveDialog(null)}>
           <DialogContent className="sm:max-w-md">
@@ -1,8 +1,11 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Search, ArrowUpRight, ArrowDownLeft, ShoppingCart, Coffee, Fuel, Download } from "lucide-react";
+import { Search, ArrowUpRight, ArrowDownLeft, ShoppingCart, Coffee, Fuel, Download, Flag, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import AppSidebar from "@/components/AppSidebar";
 import DashboardHeader from "@/components/DashboardHeader";
 import { apiFetch } from "@/hooks/useAuth";
@@ -22,11 +25,22 @@ interface Transaction {
 
 const filters = ["All", "Sent", "Received", "Pending", "Flagged"];
 
+const disputeReasons = [
+  { value: "not_received", label: "I didn't get what I paid for" },
+  { value: "not_as_described", label: "It wasn't as described" },
+  { value: "unauthorized", label: "I didn't make this payment" },
+  { value: "duplicate", label: "I was charged twice" },
+  { value: "other", label: "Something else" },
+];
+
 const Transactions = () => {
   const [activeFilter, setActiveFilter] = useState("All");
   const [search, setSearch] = useState("");
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
+  const [disputing, setDisputing] = useState<Transaction | null>(null);
+  const [dispute, setDispute] = useState({ reason: "not_received", description: "", evidence: "" });
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     const fetchTransactions = async () => {
@@ -103,6 +117,41 @@ const Transactions = () => {
     toast({ title: "Exported", description: "CSV downloaded." });
   };
 
+  // Vura transfers and QR payments can be disputed with the merchant
+  const canDispute = (tx: Transaction) =>
+    tx.direction === "sent" && ["send", "qr_payment"].includes(tx.type) && tx.status === "SUCCESS";
+
+  const openDispute = async () => {
+    if (!disputing) return;
+    setSubmitting(true);
+    try {
+      const res = await apiFetch("/disputes", {
+        method: "POST",
+        body: JSON.stringify({
+          transactionId: disputing.id,
+          reason: dispute.reason,
+          description: dispute.description,
+          evidence: dispute.evidence
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Could not open dispute");
+      }
+      setDisputing(null);
+      setDispute({ reason: "not_received", description: "", evidence: "" });
+      toast({ title: "Dispute opened", description: "The merchant has 72 hours to respond. We'll notify you of the outcome." });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Could not open dispute";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="flex min-h-screen bg-background">
       <AppSidebar />
@@ -184,6 +233,11 @@ const Transactions = () => {
                         </span>
                       )}
                     </div>
+                    {canDispute(tx) && (
+                      <Button variant="ghost" size="icon" className="shrink-0" title="Report a problem" onClick={() => setDisputing(tx)}>
+                        <Flag className="h-4 w-4" />
+                      </Button>
+                    )}
                   </motion.div>
                 );
               })
@@ -191,6 +245,61 @@ const Transactions = () => {
           </div>
         </div>
       </main>
+
+      <Dialog open={!!disputing} onOpenChange={(open) => !open && setDisputing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report a problem</DialogTitle>
+            <DialogDescription>
+              {disputing && `Dispute your ₦${disputing.amount.toLocaleString()} payment to @${disputing.counterparty}. The amount is held on their balance while we look into it.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>What went wrong?</Label>
+              <div className="grid gap-2">
+                {disputeReasons.map((r) => (
+                  <button
+                    key={r.value}
+                    onClick={() => setDispute({ ...dispute, reason: r.value })}
+                    className={`text-left px-3 py-2 rounded-xl text-sm border transition-colors ${
+                      dispute.reason === r.value ? "border-primary bg-primary/10 text-foreground" : "border-border text-muted-foreground"
+                    }`}
+                  >
+                    {r.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispute-description">Tell us what happened</Label>
+              <Textarea
+                id="dispute-description"
+                value={dispute.description}
+                onChange={(e) => setDispute({ ...dispute, description: e.target.value })}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispute-evidence">Evidence (optional, one note or link per line)</Label>
+              <Textarea
+                id="dispute-evidence"
+                placeholder="Links to receipts, screenshots or chats"
+                value={dispute.evidence}
+                onChange={(e) => setDispute({ ...dispute, evidence: e.target.value })}
+                className="rounded-xl"
+              />
+            </div>
+            <Button
+              onClick={openDispute}
+              disabled={submitting || !dispute.description.trim()}
+              className="w-full h-12 rounded-xl gradient-brand text-primary-foreground font-semibold border-0 hover:opacity-90"
+            >
+              {submitting ? <Loader2 className="h-5 w-5 animate-spin" /> : "Open dispute"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
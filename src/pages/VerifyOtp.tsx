@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { motion } from "framer-motion";
-import { ArrowRight, Mail, RefreshCw } from "lucide-react";
+import { ArrowRight, MessageSquare, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useAuth } from "@/hooks/useAuth";
@@ -21,15 +21,15 @@ const VerifyOtp = () => {
   const vuraTag = locationState.vuraTag as string | undefined;
   const deviceFingerprint = locationState.deviceFingerprint as string | undefined;
   const pendingId = locationState.pendingId as string | undefined;
-  const email = locationState.email as string | undefined;
-  const message = locationState.message as string | undefined;
+  const initialMessage = locationState.message as string | undefined;
+  const [message, setMessage] = useState(initialMessage);
 
   // Validate required state for each mode
   const isDeviceMode = mode === "device";
   const isRegistrationMode = mode === "registration";
 
   const missingDeviceState = isDeviceMode && (!vuraTag || !deviceFingerprint);
-  const missingRegistrationState = isRegistrationMode && (!pendingId || !email);
+  const missingRegistrationState = isRegistrationMode && !pendingId;
   const missingMode = !isDeviceMode && !isRegistrationMode;
 
   if (missingMode || missingDeviceState || missingRegistrationState) {
@@ -94,14 +94,15 @@ const VerifyOtp = () => {
   const handleResend = async () => {
     setResendLoading(true);
     try {
-      if (!email) {
-        throw new Error("Missing email");
-      }
-
-      await resendOtp(email, isDeviceMode ? "device_verification" : "registration");
+      const sentMessage = await resendOtp(
+        isDeviceMode
+          ? { purpose: "device_verification", vuraTag }
+          : { purpose: "registration", pendingId },
+      );
+      if (sentMessage) setMessage(sentMessage);
       toast({
         title: "Code resent",
-        description: "Check your email for the new code",
+        description: sentMessage || "Check your phone or email for the new code",
       });
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : "Resend failed";
@@ -132,7 +133,7 @@ const VerifyOtp = () => {
             <span className="text-2xl font-bold tracking-tight">Vura</span>
           </div>
           <h2 className="text-4xl font-bold mb-4 leading-tight">Secure<br />your account.</h2>
-          <p className="text-lg opacity-70">We sent a verification code to your email to keep your account safe.</p>
+          <p className="text-lg opacity-70">We sent a verification code to your phone or email to keep your account safe.</p>
         </motion.div>
       </div>
 
@@ -153,12 +154,12 @@ const VerifyOtp = () => {
 
           <div className="text-center mb-8">
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
-              <Mail className="h-8 w-8 text-primary" />
+              <MessageSquare className="h-8 w-8 text-primary" />
             </div>
             <h1 className="text-2xl font-bold text-foreground mb-2">
-              {isRegistrationMode ? "Verify your email" : "Verify your device"}
+              {isRegistrationMode ? "Verify your account" : "Verify your device"}
             </h1>
-            <p className="text-muted-foreground">{message || "We sent a 6-digit code to your email"}</p>
+            <p className="text-muted-foreground">{message || "We sent you a 6-digit code"}</p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -205,7 +206,7 @@ const VerifyOtp = () => {
             </div>
 
             <p className="text-center text-xs text-muted-foreground">
-              Didn't receive the email? Check your spam folder or try resending.
+              Didn't receive the code? Check your messages or spam folder, or try resending.
             </p>
           </form>
         </motion.div>
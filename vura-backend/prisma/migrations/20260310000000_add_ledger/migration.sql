@@ -0,0 +1,124 @@
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "user_id" TEXT,
+    "currency" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_journals" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "description" TEXT,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_journals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "journal_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "amount" DECIMAL(18,8) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_code_key" ON "ledger_accounts"("code");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_user_id_idx" ON "ledger_accounts"("user_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_type_idx" ON "ledger_accounts"("type");
+
+-- CreateIndex
+CREATE INDEX "ledger_journals_reference_idx" ON "ledger_journals"("reference");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_journal_id_idx" ON "ledger_entries"("journal_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_account_id_idx" ON "ledger_entries"("account_id");
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_journal_id_fkey" FOREIGN KEY ("journal_id") REFERENCES "ledger_journals"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Opening balances: one account per existing wallet, float and card row, offset against
+-- EXTERNAL:opening_balance so the ledger starts out reconciled with the projections.
+INSERT INTO "ledger_accounts" ("id", "code", "type", "user_id", "currency")
+SELECT gen_random_uuid(), 'USER:' || "user_id" || ':' || "currency", 'user_wallet', "user_id", "currency"
+FROM "balances";
+
+INSERT INTO "ledger_accounts" ("id", "code", "type", "currency")
+SELECT gen_random_uuid(), 'FLOAT:' || "currency", 'business_float', "currency"
+FROM "business_balances";
+
+INSERT INTO "ledger_accounts" ("id", "code", "type", "currency")
+SELECT gen_random_uuid(), 'CARD:' || "id" || ':' || "currency", 'card', "currency"
+FROM "cards"
+WHERE "status" <> 'deleted';
+
+INSERT INTO "ledger_accounts" ("id", "code", "type", "currency")
+SELECT gen_random_uuid(), 'EXTERNAL:opening_balance:' || c."currency", 'external', c."currency"
+FROM (
+    SELECT "currency" FROM "balances"
+    UNION
+    SELECT "currency" FROM "business_balances"
+    UNION
+    SELECT "currency" FROM "cards" WHERE "status" <> 'deleted'
+) c;
+
+INSERT INTO "ledger_journals" ("id", "reference", "type", "currency", "description")
+SELECT gen_random_uuid(), 'OPENING-' || a."currency", 'opening_balance', a."currency", 'Opening balances migrated from balances/business_balances/cards'
+FROM "ledger_accounts" a
+WHERE a."code" LIKE 'EXTERNAL:opening_balance:%';
+
+WITH "openings" AS (
+    SELECT 'USER:' || "user_id" || ':' || "currency" AS "code", "currency", "amount" FROM "balances" WHERE "amount" <> 0
+    UNION ALL
+    SELECT 'FLOAT:' || "currency", "currency", "amount" FROM "business_balances" WHERE "amount" <> 0
+    UNION ALL
+    SELECT 'CARD:' || "id" || ':' || "currency", "currency", "balance" FROM "cards" WHERE "status" <> 'deleted' AND "balance" <> 0
+)
+INSERT INTO "ledger_entries" ("id", "journal_id", "account_id", "direction", "amount")
+SELECT gen_random_uuid(), j."id", a."id",
+       CASE WHEN o."amount" >= 0 THEN 'credit' ELSE 'debit' END,
+       ABS(o."amount")
+FROM "openings" o
+JOIN "ledger_accounts" a ON a."code" = o."code"
+JOIN "ledger_journals" j ON j."reference" = 'OPENING-' || o."currency";
+
+WITH "totals" AS (
+    SELECT "currency", SUM("amount") AS "amount" FROM (
+        SELECT "currency", "amount" FROM "balances"
+        UNION ALL
+        SELECT "currency", "amount" FROM "business_balances"
+        UNION ALL
+        SELECT "currency", "balance" FROM "cards" WHERE "status" <> 'deleted'
+    ) t
+    GROUP BY "currency"
+)
+INSERT INTO "ledger_entries" ("id", "journal_id", "account_id", "direction", "amount")
+SELECT gen_random_uuid(), j."id", a."id",
+       CASE WHEN t."amount" >= 0 THEN 'debit' ELSE 'credit' END,
+       ABS(t."amount")
+FROM "totals" t
+JOIN "ledger_accounts" a ON a."code" = 'EXTERNAL:opening_balance:' || t."currency"
+JOIN "ledger_journals" j ON j."reference" = 'OPENING-' || t."currency"
+WHERE t."amount" <> 0;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "risk_assessments" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "transaction_id" TEXT,
+    "channel" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "score" INTEGER NOT NULL,
+    "risk_level" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "contributions" JSONB NOT NULL DEFAULT '[]',
+    "context" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_assessments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_assessments_transaction_id_key" ON "risk_assessments"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "risk_assessments_user_id_created_at_idx" ON "risk_assessments"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "risk_assessments_action_created_at_idx" ON "risk_assessments"("action", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "risk_assessments" ADD CONSTRAINT "risk_assessments_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
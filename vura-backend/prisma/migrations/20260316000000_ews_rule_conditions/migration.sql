@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "ews_rules" ADD COLUMN "conditions" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN "score" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "hold_hours" INTEGER,
+ADD COLUMN "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Seed the default rule set. These replace the constants previously hard-coded in
+-- FraudDetectionService and HoldsService; existing rules with the same name are kept.
+INSERT INTO "ews_rules" ("id", "name", "description", "rule_type", "threshold", "conditions", "score", "action", "hold_hours")
+VALUES
+  (gen_random_uuid(), 'score_review', 'Risk score needs review', 'score', 30, '{}', 0, 'flag', NULL),
+  (gen_random_uuid(), 'score_hold', 'Risk score high enough to hold funds', 'score', 60, '{}', 0, 'delay', 24),
+  (gen_random_uuid(), 'score_block', 'Risk score high enough to block and freeze', 'score', 80, '{}', 0, 'block', NULL),
+  (gen_random_uuid(), 'user_fraud_score', 'Account fraud score above 50', 'composite', 0, '{"minUserFraudScore": 51}', 30, 'score', NULL),
+  (gen_random_uuid(), 'low_kyc_large_amount', 'Tier 1 account sending more than ₦50,000', 'tier', 1, '{"minAmount": 50000}', 15, 'score', NULL),
+  (gen_random_uuid(), 'nin_unverified', 'NIN not verified', 'composite', 0, '{"ninVerified": false}', 10, 'score', NULL),
+  (gen_random_uuid(), 'high_value', 'Amount above ₦5,000,000', 'amount', 5000000, '{}', 20, 'score', NULL),
+  (gen_random_uuid(), 'velocity_count', 'Sixth outgoing transaction within an hour', 'velocity', 6, '{"velocity": {"windowMinutes": 60}}', 25, 'score', NULL),
+  (gen_random_uuid(), 'burst', 'Fifth outgoing transaction within 5 minutes', 'velocity', 5, '{"velocity": {"windowMinutes": 5}}', 15, 'score', NULL),
+  (gen_random_uuid(), 'velocity_amount', 'More than ₦500,000 sent within an hour', 'composite', 0, '{"velocity": {"windowMinutes": 60, "minAmount": 500000}}', 25, 'score', NULL),
+  (gen_random_uuid(), 'daily_total', 'More than ₦5,000,000 sent within 24 hours', 'composite', 0, '{"velocity": {"windowMinutes": 1440, "minAmount": 5000000}}', 20, 'score', NULL),
+  (gen_random_uuid(), 'amount_anomaly', 'Amount over 3x the recent average', 'composite', 0, '{"minAmountMultiplier": 3}', 20, 'score', NULL),
+  (gen_random_uuid(), 'large_amount_no_history', 'More than ₦100,000 with under 3 previous transfers', 'composite', 0, '{"minAmount": 100000, "maxPriorTransfers": 2}', 20, 'score', NULL),
+  (gen_random_uuid(), 'new_beneficiary', 'First transfer to this recipient', 'first_time', 0, '{}', 20, 'score', NULL),
+  (gen_random_uuid(), 'recently_added_beneficiary', 'Beneficiary saved within the last 24 hours', 'composite', 0, '{"beneficiaryAddedWithinHours": 24}', 10, 'score', NULL),
+  (gen_random_uuid(), 'new_device', 'Device not used on this account before', 'device', 0, '{}', 30, 'score', NULL),
+  (gen_random_uuid(), 'new_device_large_amount', 'More than ₦50,000 from a new device', 'device', 0, '{"minAmount": 50000}', 15, 'score', NULL),
+  (gen_random_uuid(), 'ip_change', 'IP address differs from the last active session', 'composite', 0, '{"ipChanged": true}', 15, 'score', NULL),
+  (gen_random_uuid(), 'unusual_hours', 'Transaction between 22:00 and 06:00', 'time', 0, '{"hours": {"from": 22, "to": 6}}', 10, 'score', NULL),
+  (gen_random_uuid(), 'large_first_transfer', 'First-time sender with ₦100,000 or more', 'amount', 100000, '{"maxPriorTransfers": 0, "channels": ["internal"]}', 0, 'delay', 384),
+  (gen_random_uuid(), 'tier1_large_transfer', 'Tier 1 account sending ₦100,000 or more', 'amount', 100000, '{"maxKycTier": 1, "channels": ["internal"]}', 0, 'delay', 384),
+  (gen_random_uuid(), 'new_account_large_transfer', 'Account under 30 days old sending ₦100,000 or more', 'amount', 100000, '{"maxAccountAgeDays": 30, "channels": ["internal"]}', 0, 'delay', 384)
+ON CONFLICT ("name") DO NOTHING;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "admin_approvals" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "payload" JSONB NOT NULL,
+    "reason" TEXT NOT NULL,
+    "evidence_reference" TEXT NOT NULL,
+    "maker_id" TEXT NOT NULL,
+    "checker_id" TEXT,
+    "decision_note" TEXT,
+    "result" JSONB,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "admin_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admin_approvals_status_expires_at_idx" ON "admin_approvals"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "admin_approvals" ADD CONSTRAINT "admin_approvals_maker_id_fkey" FOREIGN KEY ("maker_id") REFERENCES "admin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "admin_approvals" ADD CONSTRAINT "admin_approvals_checker_id_fkey" FOREIGN KEY ("checker_id") REFERENCES "admin_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "scheduled_payments" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "beneficiary_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "description" TEXT,
+    "frequency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "start_at" TIMESTAMP(3) NOT NULL,
+    "end_at" TIMESTAMP(3),
+    "max_runs" INTEGER,
+    "run_count" INTEGER NOT NULL DEFAULT 0,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "next_run_at" TIMESTAMP(3) NOT NULL,
+    "retry_count" INTEGER NOT NULL DEFAULT 0,
+    "last_run_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduled_payment_runs" (
+    "id" TEXT NOT NULL,
+    "scheduled_payment_id" TEXT NOT NULL,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "transaction_id" TEXT,
+    "reference" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scheduled_payment_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_payments_user_id_idx" ON "scheduled_payments"("user_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_payments_status_next_run_at_idx" ON "scheduled_payments"("status", "next_run_at");
+
+-- CreateIndex
+CREATE INDEX "scheduled_payment_runs_scheduled_payment_id_idx" ON "scheduled_payment_runs"("scheduled_payment_id");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_payments" ADD CONSTRAINT "scheduled_payments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_payments" ADD CONSTRAINT "scheduled_payments_beneficiary_id_fkey" FOREIGN KEY ("beneficiary_id") REFERENCES "beneficiaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_payment_runs" ADD CONSTRAINT "scheduled_payment_runs_scheduled_payment_id_fkey" FOREIGN KEY ("scheduled_payment_id") REFERENCES "scheduled_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "saved_billers" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "bill_type" TEXT NOT NULL,
+    "nickname" TEXT NOT NULL,
+    "service_code" TEXT NOT NULL,
+    "customer_number" TEXT NOT NULL,
+    "product_code" TEXT,
+    "phone_number" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_billers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_autopays" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "biller_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "start_at" TIMESTAMP(3) NOT NULL,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "next_run_at" TIMESTAMP(3) NOT NULL,
+    "retry_count" INTEGER NOT NULL DEFAULT 0,
+    "run_count" INTEGER NOT NULL DEFAULT 0,
+    "last_run_at" TIMESTAMP(3),
+    "last_reference" TEXT,
+    "last_error" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bill_autopays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_billers_user_id_idx" ON "saved_billers"("user_id");
+
+-- CreateIndex
+CREATE INDEX "bill_autopays_user_id_idx" ON "bill_autopays"("user_id");
+
+-- CreateIndex
+CREATE INDEX "bill_autopays_status_next_run_at_idx" ON "bill_autopays"("status", "next_run_at");
+
+-- AddForeignKey
+ALTER TABLE "saved_billers" ADD CONSTRAINT "saved_billers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_autopays" ADD CONSTRAINT "bill_autopays_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_autopays" ADD CONSTRAINT "bill_autopays_biller_id_fkey" FOREIGN KEY ("biller_id") REFERENCES "saved_billers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "bill_provider_attempts" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "product" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "latency_ms" INTEGER NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_provider_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_provider_settings" (
+    "id" TEXT NOT NULL,
+    "product" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'auto',
+    "updated_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bill_provider_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bill_provider_attempts_product_provider_created_at_idx" ON "bill_provider_attempts"("product", "provider", "created_at");
+
+-- CreateIndex
+CREATE INDEX "bill_provider_attempts_created_at_idx" ON "bill_provider_attempts"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bill_provider_settings_product_provider_key" ON "bill_provider_settings"("product", "provider");
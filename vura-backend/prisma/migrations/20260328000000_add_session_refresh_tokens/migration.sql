@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "revoked_reason" TEXT;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "otp_deliveries" (
+    "id" TEXT NOT NULL,
+    "subject_id" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "channel" TEXT,
+    "provider" TEXT,
+    "destination" TEXT,
+    "status" TEXT NOT NULL,
+    "provider_message_id" TEXT,
+    "error" TEXT,
+    "attempts" JSONB NOT NULL DEFAULT '[]',
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "otp_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "otp_deliveries_subject_id_purpose_created_at_idx" ON "otp_deliveries"("subject_id", "purpose", "created_at");
+
+-- CreateIndex
+CREATE INDEX "otp_deliveries_provider_message_id_idx" ON "otp_deliveries"("provider_message_id");
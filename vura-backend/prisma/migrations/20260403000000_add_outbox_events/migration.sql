@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "outbox_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "aggregate_id" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "completed_by" JSONB NOT NULL DEFAULT '[]',
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "published_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outbox_events_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "event_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "outbox_events_status_next_attempt_at_idx" ON "outbox_events"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "outbox_events_aggregate_id_idx" ON "outbox_events"("aggregate_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_event_id_key" ON "notifications"("event_id");
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "merchant_webhook_endpoints" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "description" TEXT,
+    "events" TEXT[],
+    "secret_ciphertext" TEXT NOT NULL,
+    "secret_iv" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_webhook_endpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "endpoint_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_status_code" INTEGER,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_webhook_attempts" (
+    "id" TEXT NOT NULL,
+    "delivery_id" TEXT NOT NULL,
+    "status_code" INTEGER,
+    "response_body" TEXT,
+    "error" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_webhook_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "merchant_webhook_endpoints_user_id_idx" ON "merchant_webhook_endpoints"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_webhook_deliveries_endpoint_id_event_id_key" ON "merchant_webhook_deliveries"("endpoint_id", "event_id");
+
+-- CreateIndex
+CREATE INDEX "merchant_webhook_deliveries_status_next_attempt_at_idx" ON "merchant_webhook_deliveries"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "merchant_webhook_deliveries_endpoint_id_created_at_idx" ON "merchant_webhook_deliveries"("endpoint_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "merchant_webhook_attempts_delivery_id_created_at_idx" ON "merchant_webhook_attempts"("delivery_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "merchant_webhook_endpoints" ADD CONSTRAINT "merchant_webhook_endpoints_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_webhook_deliveries" ADD CONSTRAINT "merchant_webhook_deliveries_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "merchant_webhook_endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_webhook_attempts" ADD CONSTRAINT "merchant_webhook_attempts_delivery_id_fkey" FOREIGN KEY ("delivery_id") REFERENCES "merchant_webhook_deliveries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "payment_requests" ADD COLUMN "livemode" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "qr_payment_codes" ADD COLUMN "livemode" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "merchant_api_keys" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "prefix" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_api_keys_key_hash_key" ON "merchant_api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "merchant_api_keys_user_id_idx" ON "merchant_api_keys"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_keys" ADD CONSTRAINT "merchant_api_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
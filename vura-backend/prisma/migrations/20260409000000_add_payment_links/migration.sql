@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "payment_links" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(18,2),
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "max_uses" INTEGER,
+    "use_count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_link_payments" (
+    "id" TEXT NOT NULL,
+    "link_id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "payer_id" TEXT,
+    "payer_name" TEXT,
+    "payer_email_encrypted" TEXT,
+    "transaction_id" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_link_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_links_slug_key" ON "payment_links"("slug");
+
+-- CreateIndex
+CREATE INDEX "payment_links_user_id_idx" ON "payment_links"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_link_payments_reference_key" ON "payment_link_payments"("reference");
+
+-- CreateIndex
+CREATE INDEX "payment_link_payments_link_id_created_at_idx" ON "payment_link_payments"("link_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "payment_links" ADD CONSTRAINT "payment_links_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_link_payments" ADD CONSTRAINT "payment_link_payments_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "payment_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_link_payments" ADD CONSTRAINT "payment_link_payments_payer_id_fkey" FOREIGN KEY ("payer_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
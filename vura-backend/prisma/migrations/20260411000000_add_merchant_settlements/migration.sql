@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "merchant_settlement_settings" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "auto_payout" BOOLEAN NOT NULL DEFAULT false,
+    "schedule" TEXT NOT NULL DEFAULT 't1',
+    "minimum_amount" DECIMAL(18,2) NOT NULL DEFAULT 1000,
+    "bank_account_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_settlement_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_settlements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "gross_amount" DECIMAL(18,2) NOT NULL,
+    "fee_amount" DECIMAL(18,2) NOT NULL,
+    "net_amount" DECIMAL(18,2) NOT NULL,
+    "payment_count" INTEGER NOT NULL,
+    "payout_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_settlement_items" (
+    "id" TEXT NOT NULL,
+    "settlement_id" TEXT NOT NULL,
+    "transaction_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "gross_amount" DECIMAL(18,2) NOT NULL,
+    "fee_amount" DECIMAL(18,2) NOT NULL,
+    "net_amount" DECIMAL(18,2) NOT NULL,
+    "paid_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_settlement_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_payouts" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "bank_account_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "transaction_id" TEXT,
+    "reference" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_settlement_settings_user_id_key" ON "merchant_settlement_settings"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_settlements_user_id_date_key" ON "merchant_settlements"("user_id", "date");
+
+-- CreateIndex
+CREATE INDEX "merchant_settlements_payout_id_idx" ON "merchant_settlements"("payout_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_settlement_items_transaction_id_key" ON "merchant_settlement_items"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "merchant_settlement_items_settlement_id_idx" ON "merchant_settlement_items"("settlement_id");
+
+-- CreateIndex
+CREATE INDEX "merchant_payouts_user_id_created_at_idx" ON "merchant_payouts"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "merchant_settlement_settings" ADD CONSTRAINT "merchant_settlement_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_settlements" ADD CONSTRAINT "merchant_settlements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_settlements" ADD CONSTRAINT "merchant_settlements_payout_id_fkey" FOREIGN KEY ("payout_id") REFERENCES "merchant_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_settlement_items" ADD CONSTRAINT "merchant_settlement_items_settlement_id_fkey" FOREIGN KEY ("settlement_id") REFERENCES "merchant_settlements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_settlement_items" ADD CONSTRAINT "merchant_settlement_items_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_payouts" ADD CONSTRAINT "merchant_payouts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
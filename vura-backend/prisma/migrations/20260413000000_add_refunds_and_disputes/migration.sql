@@ -0,0 +1,96 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "refunded_amount" DECIMAL(18,8) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "transaction_id" TEXT NOT NULL,
+    "refund_transaction_id" TEXT NOT NULL,
+    "merchant_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "reason" TEXT,
+    "initiated_by" TEXT NOT NULL,
+    "admin_id" TEXT,
+    "dispute_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "disputes" (
+    "id" TEXT NOT NULL,
+    "transaction_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "merchant_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "reason" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "evidence" JSONB NOT NULL DEFAULT '[]',
+    "merchant_response" TEXT,
+    "merchant_evidence" JSONB NOT NULL DEFAULT '[]',
+    "respond_by" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'awaiting_merchant',
+    "hold_amount" DECIMAL(18,2),
+    "hold_released_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+    "resolution_note" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_reference_key" ON "refunds"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_refund_transaction_id_key" ON "refunds"("refund_transaction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_dispute_id_key" ON "refunds"("dispute_id");
+
+-- CreateIndex
+CREATE INDEX "refunds_transaction_id_idx" ON "refunds"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "refunds_merchant_id_created_at_idx" ON "refunds"("merchant_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disputes_transaction_id_key" ON "disputes"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_merchant_id_status_idx" ON "disputes"("merchant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "disputes_customer_id_idx" ON "disputes"("customer_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_status_respond_by_idx" ON "disputes"("status", "respond_by");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_merchant_id_fkey" FOREIGN KEY ("merchant_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "disputes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_merchant_id_fkey" FOREIGN KEY ("merchant_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
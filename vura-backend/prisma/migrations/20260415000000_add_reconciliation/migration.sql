@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "record_count" INTEGER NOT NULL DEFAULT 0,
+    "matched_count" INTEGER NOT NULL DEFAULT 0,
+    "exception_count" INTEGER NOT NULL DEFAULT 0,
+    "file_name" TEXT,
+    "error" TEXT,
+    "triggered_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reconciliation_exceptions" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "provider_reference" TEXT,
+    "transaction_id" TEXT,
+    "provider_amount" DECIMAL(18,2),
+    "ledger_amount" DECIMAL(18,2),
+    "provider_status" TEXT,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolution" TEXT,
+    "resolution_note" TEXT,
+    "approval_id" TEXT,
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_provider_created_at_idx" ON "reconciliation_runs"("provider", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reconciliation_exceptions_fingerprint_key" ON "reconciliation_exceptions"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_status_provider_type_idx" ON "reconciliation_exceptions"("status", "provider", "type");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_run_id_idx" ON "reconciliation_exceptions"("run_id");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_exceptions_transaction_id_idx" ON "reconciliation_exceptions"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "reconciliation_runs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_exceptions" ADD CONSTRAINT "reconciliation_exceptions_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
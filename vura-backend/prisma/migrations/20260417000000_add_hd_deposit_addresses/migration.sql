@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "crypto_deposits" ADD COLUMN "derivation_index" INTEGER,
+ADD COLUMN "last_scanned_at" TIMESTAMP(3);
+
+-- Rows pointing at the shared business wallet are re-issued a derived address on next request
+UPDATE "crypto_deposits" SET "status" = 'expired' WHERE "derivation_index" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_deposits_network_derivation_index_key" ON "crypto_deposits"("network", "derivation_index");
+
+-- CreateIndex
+CREATE INDEX "crypto_deposits_network_address_idx" ON "crypto_deposits"("network", "address");
+
+-- CreateIndex
+CREATE INDEX "crypto_deposits_status_last_scanned_at_idx" ON "crypto_deposits"("status", "last_scanned_at");
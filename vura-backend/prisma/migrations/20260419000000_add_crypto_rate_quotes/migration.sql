@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "exchange_rates_pair_provider_key";
+
+-- AlterTable
+ALTER TABLE "exchange_rates" ADD COLUMN "market_rate" DECIMAL(18,8),
+ADD COLUMN "spread" DECIMAL(6,4) NOT NULL DEFAULT 0,
+ADD COLUMN "fee" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN "user_id" TEXT,
+ADD COLUMN "crypto_amount" DECIMAL(18,8),
+ADD COLUMN "ngn_amount" DECIMAL(18,2),
+ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN "used_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "crypto_deposit_transactions" ADD COLUMN "quote_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_user_id_pair_status_idx" ON "exchange_rates"("user_id", "pair", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_deposit_transactions_quote_id_key" ON "crypto_deposit_transactions"("quote_id");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "crypto_deposit_transactions" ADD CONSTRAINT "crypto_deposit_transactions_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "exchange_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "crypto_hold_usdt" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "exchange_rates" ADD COLUMN "purpose" TEXT NOT NULL DEFAULT 'deposit',
+ADD COLUMN "side" TEXT NOT NULL DEFAULT 'sell';
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_purpose_status_idx" ON "exchange_rates"("purpose", "status");
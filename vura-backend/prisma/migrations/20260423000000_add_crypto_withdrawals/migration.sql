@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "crypto_withdrawal_addresses" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "activates_at" TIMESTAMP(3) NOT NULL,
+    "removed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "crypto_withdrawal_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "crypto_withdrawals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "address_id" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "amount" DECIMAL(18,8) NOT NULL,
+    "network_fee" DECIMAL(18,8) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "transaction_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "risk_action" TEXT NOT NULL DEFAULT 'allow',
+    "unsigned_tx" JSONB,
+    "built_at" TIMESTAMP(3),
+    "built_by" TEXT,
+    "tx_hash" TEXT,
+    "broadcast_at" TIMESTAMP(3),
+    "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "confirmed_at" TIMESTAMP(3),
+    "reviewed_by" TEXT,
+    "failure_reason" TEXT,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "crypto_withdrawals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "crypto_withdrawal_addresses_user_id_status_idx" ON "crypto_withdrawal_addresses"("user_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_withdrawal_addresses_user_id_network_address_key" ON "crypto_withdrawal_addresses"("user_id", "network", "address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_withdrawals_reference_key" ON "crypto_withdrawals"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_withdrawals_transaction_id_key" ON "crypto_withdrawals"("transaction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_withdrawals_tx_hash_key" ON "crypto_withdrawals"("tx_hash");
+
+-- CreateIndex
+CREATE INDEX "crypto_withdrawals_status_created_at_idx" ON "crypto_withdrawals"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "crypto_withdrawals_user_id_created_at_idx" ON "crypto_withdrawals"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "crypto_withdrawal_addresses" ADD CONSTRAINT "crypto_withdrawal_addresses_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "crypto_withdrawals" ADD CONSTRAINT "crypto_withdrawals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "crypto_withdrawals" ADD CONSTRAINT "crypto_withdrawals_address_id_fkey" FOREIGN KEY ("address_id") REFERENCES "crypto_withdrawal_addresses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
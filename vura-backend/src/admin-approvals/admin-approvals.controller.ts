@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import { CurrentAdmin } from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { AdminApprovalsService } from './admin-approvals.service';
+
+/**
+ * Review queue for proposed credits, float top-ups, hold releases,
+ * reconciliation credits and crypto deposit amounts.
+ * Whether an admin may approve a given request depends on its type, so the
+ * permission check happens in the service.
+ */
+@Controller('admin/approvals')
+@UseGuards(AdminGuard)
+export class AdminApprovalsController {
+  constructor(private approvals: AdminApprovalsService) {}
+
+  /**
+   * List requests, newest first. Filter by status (PENDING, APPROVED,
+   * REJECTED, CANCELLED, EXPIRED) and type (credit, float_topup, hold_release,
+   * reconciliation_credit, crypto_deposit_amount).
+   */
+  @Get()
+  list(
+    @Query('status') status?: string,
+    @Query('type') type?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.approvals.list({
+      status,
+      type,
+      page: Number(page) || 1,
+      limit: Number(limit) || 20,
+    });
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.approvals.get(id);
+  }
+
+  /**
+   * Approve and execute. The approver must not be the admin who proposed it.
+   */
+  @Post(':id/approve')
+  approve(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: { note?: string },
+  ) {
+    return this.approvals.approve(admin, id, body?.note);
+  }
+
+  @Post(':id/reject')
+  reject(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: { note: string },
+  ) {
+    return this.approvals.reject(admin, id, body?.note);
+  }
+
+  /**
+   * Withdraw a request you proposed
+   */
+  @Post(':id/cancel')
+  cancel(@CurrentAdmin() admin: AdminPrincipal, @Param('id') id: string) {
+    return this.approvals.cancel(admin, id);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AdminApprovalsController } from './admin-approvals.controller';
+import { AdminApprovalsService } from './admin-approvals.service';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { HoldsService } from '../holds/holds.service';
+import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [AdminAuthModule, LedgerModule, OutboxModule],
+  controllers: [AdminApprovalsController],
+  providers: [AdminApprovalsService, HoldsService, PrismaService],
+  exports: [AdminApprovalsService],
+})
+export class AdminApprovalsModule {}
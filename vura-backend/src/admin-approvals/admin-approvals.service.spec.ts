@@ -0,0 +1,346 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { AdminApproval } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { AdminApprovalsService } from './admin-approvals.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+const HOUR_MS = 60 * 60 * 1000;
+const MAKER: AdminPrincipal = {
+  adminId: 'admin-maker',
+  email: 'maker@vura.test',
+  role: 'finance',
+};
+const CHECKER: AdminPrincipal = {
+  adminId: 'admin-checker',
+  email: 'checker@vura.test',
+  role: 'finance',
+};
+
+// The conditions approve() and expireStale() claim a proposal with
+interface ClaimWhere {
+  id: string | { in: string[] };
+  status: string;
+  expiresAt?: { gt: Date };
+}
+
+/**
+ * The database is a stub holding a single proposal in `stored`. Its
+ * `$transaction` runs the callback against itself and puts `stored` back if
+ * the callback throws, like a rollback; claims only match while the stored
+ * proposal satisfies their conditions. The ledger is a mock.
+ */
+describe('AdminApprovalsService', () => {
+  let stored: AdminApproval;
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock; findFirst: jest.Mock };
+    adminApproval: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      findFirst: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+    };
+    businessBalance: { findUnique: jest.Mock };
+    transaction: { create: jest.Mock };
+    cryptoDepositTransaction: { findUnique: jest.Mock; update: jest.Mock };
+    reconciliationException: { updateMany: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock };
+  let approvals: AdminApprovalsService;
+
+  const proposal = (overrides: Partial<AdminApproval> = {}): AdminApproval => ({
+    id: 'approval-1',
+    type: 'credit',
+    status: 'PENDING',
+    payload: { userId: USER, amount: '5000', currency: 'NGN' },
+    reason: 'Missed transfer',
+    evidenceReference: 'TICKET-1',
+    makerId: MAKER.adminId,
+    checkerId: null,
+    decisionNote: null,
+    result: null,
+    expiresAt: new Date(Date.now() + HOUR_MS),
+    decidedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+  const matches = (where: ClaimWhere) =>
+    (typeof where.id === 'string'
+      ? where.id === stored.id
+      : where.id.in.includes(stored.id)) &&
+    stored.status === where.status &&
+    (!where.expiresAt || stored.expiresAt > where.expiresAt.gt);
+  const auditActions = () =>
+    (prisma.auditLog.create.mock.calls as [{ data: { action: string } }][]).map(
+      ([args]) => args.data.action,
+    );
+
+  beforeEach(() => {
+    stored = proposal();
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: USER }),
+        findFirst: jest.fn(),
+      },
+      adminApproval: {
+        create: jest.fn(({ data }: { data: Partial<AdminApproval> }) => {
+          stored = proposal({ ...data, id: 'approval-2' });
+          return Promise.resolve(stored);
+        }),
+        findUnique: jest.fn(() => Promise.resolve({ ...stored })),
+        findMany: jest.fn(
+          ({ where }: { where: { expiresAt: { lte: Date } } }) =>
+            Promise.resolve(
+              stored.status === 'PENDING' &&
+                stored.expiresAt <= where.expiresAt.lte
+                ? [{ ...stored }]
+                : [],
+            ),
+        ),
+        findFirst: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: ClaimWhere;
+            data: Partial<AdminApproval>;
+          }) => {
+            if (!matches(where)) return Promise.resolve({ count: 0 });
+            stored = { ...stored, ...data };
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        update: jest.fn(({ data }: { data: Partial<AdminApproval> }) => {
+          stored = { ...stored, ...data };
+          return Promise.resolve(stored);
+        }),
+      },
+      businessBalance: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ amount: new Decimal(100000) }),
+      },
+      transaction: { create: jest.fn().mockResolvedValue({ id: 'tx-1' }) },
+      cryptoDepositTransaction: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'deposit-tx-1',
+          userId: USER,
+          status: 'pending',
+          metadata: { txHash: 'abc' },
+        }),
+        update: jest.fn(),
+      },
+      reconciliationException: { updateMany: jest.fn() },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof prisma) => unknown) => {
+        const before = stored;
+        try {
+          return await fn(prisma);
+        } catch (error) {
+          stored = before;
+          throw error;
+        }
+      },
+    );
+    ledger = {
+      transfer: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(USER)]: {
+            before: new Decimal(0),
+            after: new Decimal(5000),
+          },
+        },
+      }),
+    };
+    approvals = new AdminApprovalsService(
+      prisma as unknown as PrismaService,
+      { get: (_key: string, fallback: string) => fallback } as ConfigService,
+      ledger as unknown as LedgerService,
+      {} as HoldsService,
+      { record: jest.fn() } as unknown as OutboxService,
+    );
+  });
+
+  describe('propose', () => {
+    it('records a credit without touching the ledger', async () => {
+      const created = await approvals.proposeCredit(MAKER, {
+        userId: USER,
+        amount: 5000,
+        reason: 'Missed transfer',
+        evidenceReference: 'TICKET-1',
+      });
+
+      expect(created).toMatchObject({
+        type: 'credit',
+        status: 'PENDING',
+        makerId: MAKER.adminId,
+        payload: { userId: USER, amount: '5000', currency: 'NGN' },
+      });
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(auditActions()).toEqual(['ADMIN_APPROVAL_REQUESTED']);
+    });
+
+    it('refuses a maker without the permission', async () => {
+      await expect(
+        approvals.proposeCredit(
+          { ...MAKER, role: 'support' },
+          {
+            userId: USER,
+            amount: 5000,
+            reason: 'Missed transfer',
+            evidenceReference: 'TICKET-1',
+          },
+        ),
+      ).rejects.toThrow('Your role (support) cannot propose or decide credit');
+      expect(prisma.adminApproval.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approve', () => {
+    it('credits the user from the float once a second admin approves', async () => {
+      const res = await approvals.approve(CHECKER, 'approval-1', 'Checked');
+
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          from: LedgerService.float(),
+          to: LedgerService.user(USER),
+          amount: new Decimal(5000),
+        }),
+      );
+      expect(res).toMatchObject({ success: true, type: 'credit' });
+      expect(stored).toMatchObject({
+        status: 'APPROVED',
+        checkerId: CHECKER.adminId,
+        decisionNote: 'Checked',
+        result: { userId: USER, amount: 5000 },
+      });
+      expect(auditActions()).toEqual([
+        'ADMIN_CREDIT',
+        'ADMIN_APPROVAL_APPROVED',
+      ]);
+    });
+
+    it('refuses the maker approving their own request', async () => {
+      await expect(approvals.approve(MAKER, 'approval-1')).rejects.toThrow(
+        new ForbiddenException(
+          'A different admin must approve or reject your own request',
+        ),
+      );
+      expect(prisma.adminApproval.updateMany).not.toHaveBeenCalled();
+      expect(stored.status).toBe('PENDING');
+    });
+
+    it('refuses a checker without the permission', async () => {
+      await expect(
+        approvals.approve({ ...CHECKER, role: 'compliance' }, 'approval-1'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(stored.status).toBe('PENDING');
+    });
+
+    it('expires a proposal past its deadline instead of executing it', async () => {
+      stored = proposal({ expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(approvals.approve(CHECKER, 'approval-1')).rejects.toThrow(
+        new ConflictException('This request is already expired'),
+      );
+      expect(stored.status).toBe('EXPIRED');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(auditActions()).toEqual(['ADMIN_APPROVAL_EXPIRED']);
+    });
+
+    it('executes only once when two checkers approve together', async () => {
+      const second: AdminPrincipal = {
+        ...CHECKER,
+        adminId: 'admin-checker-2',
+      };
+
+      const results = await Promise.allSettled([
+        approvals.approve(CHECKER, 'approval-1'),
+        approvals.approve(second, 'approval-1'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toEqual(
+        new ConflictException('This request has already been decided'),
+      );
+      expect(ledger.transfer).toHaveBeenCalledTimes(1);
+      expect(stored.checkerId).toBe(CHECKER.adminId);
+    });
+
+    it('leaves the proposal pending when execution fails', async () => {
+      prisma.businessBalance.findUnique.mockResolvedValue({
+        amount: new Decimal(100),
+      });
+
+      await expect(approvals.approve(CHECKER, 'approval-1')).rejects.toThrow(
+        'Insufficient business balance',
+      );
+      expect(stored.status).toBe('PENDING');
+    });
+
+    it('records an approved crypto deposit amount on the deposit', async () => {
+      stored = proposal({
+        type: 'crypto_deposit_amount',
+        payload: {
+          depositTransactionId: 'deposit-tx-1',
+          userId: USER,
+          ngnAmount: '160000',
+        },
+      });
+
+      await approvals.approve(CHECKER, 'approval-1');
+
+      expect(prisma.cryptoDepositTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'deposit-tx-1' },
+        data: {
+          metadata: {
+            txHash: 'abc',
+            approvedAmount: {
+              ngnAmount: '160000',
+              approvalId: 'approval-1',
+              makerId: MAKER.adminId,
+              checkerId: CHECKER.adminId,
+            },
+          },
+        },
+      });
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reject and cancel', () => {
+    it('needs a note to reject', async () => {
+      await expect(
+        approvals.reject(CHECKER, 'approval-1', ' '),
+      ).rejects.toThrow('A rejection note is required');
+    });
+
+    it('only lets the maker cancel', async () => {
+      await expect(approvals.cancel(CHECKER, 'approval-1')).rejects.toThrow(
+        'Only the admin who proposed this can cancel it',
+      );
+
+      await approvals.cancel(MAKER, 'approval-1');
+      expect(stored.status).toBe('CANCELLED');
+    });
+  });
+});
@@ -0,0 +1,888 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AdminApproval, Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { v4 as uuid } from 'uuid';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { HoldsService } from '../holds/holds.service';
+import { OutboxService } from '../outbox/outbox.service';
+import {
+  AdminPermission,
+  AdminPrincipal,
+  roleHasPermission,
+} from '../admin-auth/admin-permissions';
+
+export type ApprovalType =
+  | 'credit'
+  | 'float_topup'
+  | 'hold_release'
+  | 'reconciliation_credit'
+  | 'crypto_deposit_amount';
+
+export interface CreditProposalInput {
+  userId?: string;
+  vuraTag?: string;
+  amount: number;
+  currency?: string;
+  reason: string;
+  evidenceReference: string;
+}
+
+export interface FloatTopUpProposalInput {
+  amount: number;
+  reference: string;
+  reason: string;
+}
+
+export interface HoldReleaseProposalInput {
+  reason: string;
+  evidenceReference: string;
+}
+
+/**
+ * Credit for a deposit the provider collected but we never booked, raised
+ * from a reconciliation exception. `transactionId` is set when our side has
+ * the transaction but never marked it successful.
+ */
+export interface ReconciliationCreditProposalInput {
+  exceptionId: string;
+  userId: string;
+  amount: string;
+  provider: 'paystack' | 'monnify';
+  providerReference: string;
+  transactionId: string | null;
+  reason: string;
+}
+
+/**
+ * An NGN amount to credit for a crypto deposit in place of its priced
+ * amount. Approving it only records the amount on the deposit; the deposit
+ * is credited when an admin next approves it.
+ */
+export interface CryptoDepositAmountProposalInput {
+  depositTransactionId: string;
+  ngnAmount: number;
+  reason: string;
+  evidenceReference: string;
+}
+
+export interface ApprovalListQuery {
+  status?: string;
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+type CreditPayload = { userId: string; amount: string; currency: string };
+type FloatTopUpPayload = { amount: string; reference: string };
+type HoldReleasePayload = { transactionId: string; userId: string | null };
+type ReconciliationCreditPayload = {
+  exceptionId: string;
+  userId: string;
+  amount: string;
+  currency: string;
+  provider: 'paystack' | 'monnify';
+  providerReference: string;
+  transactionId: string | null;
+};
+type CryptoDepositAmountPayload = {
+  depositTransactionId: string;
+  userId: string;
+  ngnAmount: string;
+};
+
+/** Permission both the maker and the checker need for each type */
+const APPROVAL_PERMISSIONS: Record<ApprovalType, AdminPermission> = {
+  credit: 'wallet:credit',
+  float_topup: 'float:manage',
+  hold_release: 'holds:manage',
+  reconciliation_credit: 'wallet:credit',
+  crypto_deposit_amount: 'crypto:manage',
+};
+
+const MAX_AMOUNT = 50000000;
+
+const adminSummary = { select: { id: true, name: true, email: true } };
+
+/**
+ * Maker-checker workflow for admin actions that move money or release
+ * held funds. A proposal records what will happen; nothing touches the
+ * ledger until a different admin with the same permission approves it,
+ * and the approval claim and its effects commit in one transaction.
+ */
+@Injectable()
+export class AdminApprovalsService {
+  private readonly logger = new Logger(AdminApprovalsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private ledger: LedgerService,
+    private holds: HoldsService,
+    private outbox: OutboxService,
+  ) {}
+
+  async proposeCredit(maker: AdminPrincipal, input: CreditProposalInput) {
+    const amount = this.validateAmount(input.amount);
+    const currency = input.currency || 'NGN';
+
+    let userId = input.userId;
+    if (!userId && input.vuraTag) {
+      const user = await this.prisma.user.findFirst({
+        where: { vuraTag: input.vuraTag },
+        select: { id: true },
+      });
+      if (!user)
+        throw new BadRequestException('User not found with that vuraTag');
+      userId = user.id;
+    }
+    if (!userId) {
+      throw new BadRequestException('Provide userId or vuraTag');
+    }
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) throw new BadRequestException('User not found');
+
+    const payload: CreditPayload = {
+      userId,
+      amount: amount.toString(),
+      currency,
+    };
+    return this.propose(maker, 'credit', payload, input);
+  }
+
+  async proposeFloatTopUp(
+    maker: AdminPrincipal,
+    input: FloatTopUpProposalInput,
+  ) {
+    const amount = this.validateAmount(input.amount);
+    const reference = String(input.reference || '').trim();
+    if (!reference) {
+      throw new BadRequestException(
+        'Reference is required (e.g. bank ref, tx hash) for accountability',
+      );
+    }
+
+    const [journal, pending] = await Promise.all([
+      this.prisma.ledgerJournal.findFirst({ where: { reference } }),
+      this.findPending('float_topup', ['reference'], reference),
+    ]);
+    if (journal || pending) {
+      throw new BadRequestException(
+        'This reference has already been used for a top-up',
+      );
+    }
+
+    const payload: FloatTopUpPayload = { amount: amount.toString(), reference };
+    return this.propose(maker, 'float_topup', payload, {
+      reason: input.reason,
+      evidenceReference: reference,
+    });
+  }
+
+  async proposeHoldRelease(
+    maker: AdminPrincipal,
+    transactionId: string,
+    input: HoldReleaseProposalInput,
+  ) {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { id: true, status: true, senderId: true },
+    });
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found');
+    }
+    if (transaction.status !== 'HELD') {
+      throw new BadRequestException('Transaction is not on hold');
+    }
+    if (
+      await this.findPending('hold_release', ['transactionId'], transactionId)
+    ) {
+      throw new BadRequestException(
+        'A release for this transaction is already awaiting approval',
+      );
+    }
+
+    const payload: HoldReleasePayload = {
+      transactionId,
+      userId: transaction.senderId,
+    };
+    return this.propose(maker, 'hold_release', payload, input);
+  }
+
+  /**
+   * Moves the exception to pending_approval in the same transaction, so two
+   * admins can't queue a credit for the same missing deposit
+   */
+  async proposeReconciliationCredit(
+    maker: AdminPrincipal,
+    input: ReconciliationCreditProposalInput,
+  ) {
+    const amount = this.validateAmount(Number(input.amount));
+    const payload: ReconciliationCreditPayload = {
+      exceptionId: input.exceptionId,
+      userId: input.userId,
+      amount: amount.toString(),
+      currency: 'NGN',
+      provider: input.provider,
+      providerReference: input.providerReference,
+      transactionId: input.transactionId,
+    };
+    return this.propose(
+      maker,
+      'reconciliation_credit',
+      payload,
+      { reason: input.reason, evidenceReference: input.providerReference },
+      async (tx, approval) => {
+        const claimed = await tx.reconciliationException.updateMany({
+          where: { id: input.exceptionId, status: 'open' },
+          data: { status: 'pending_approval', approvalId: approval.id },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictException(
+            'This exception is no longer open for resolution',
+          );
+        }
+      },
+    );
+  }
+
+  async proposeCryptoDepositAmount(
+    maker: AdminPrincipal,
+    input: CryptoDepositAmountProposalInput,
+  ) {
+    const amount = this.validateAmount(input.ngnAmount);
+    const deposit = await this.prisma.cryptoDepositTransaction.findUnique({
+      where: { id: input.depositTransactionId },
+      select: { id: true, userId: true, status: true },
+    });
+    if (!deposit) throw new NotFoundException('Deposit not found');
+    if (deposit.status === 'confirmed') {
+      throw new BadRequestException('This deposit has already been credited');
+    }
+    if (
+      await this.findPending(
+        'crypto_deposit_amount',
+        ['depositTransactionId'],
+        deposit.id,
+      )
+    ) {
+      throw new BadRequestException(
+        'An amount for this deposit is already awaiting approval',
+      );
+    }
+
+    const payload: CryptoDepositAmountPayload = {
+      depositTransactionId: deposit.id,
+      userId: deposit.userId,
+      ngnAmount: amount.toString(),
+    };
+    return this.propose(maker, 'crypto_deposit_amount', payload, input);
+  }
+
+  async list(query: ApprovalListQuery) {
+    await this.expireStale();
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(query.limit) || 20));
+    const where: Prisma.AdminApprovalWhereInput = {
+      ...(query.status && { status: query.status.toUpperCase() }),
+      ...(query.type && { type: query.type }),
+    };
+
+    const [approvals, total] = await Promise.all([
+      this.prisma.adminApproval.findMany({
+        where,
+        include: { maker: adminSummary, checker: adminSummary },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.adminApproval.count({ where }),
+    ]);
+
+    return {
+      approvals,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async get(id: string) {
+    await this.expireStale();
+    const approval = await this.prisma.adminApproval.findUnique({
+      where: { id },
+      include: { maker: adminSummary, checker: adminSummary },
+    });
+    if (!approval) throw new NotFoundException('Approval not found');
+    return approval;
+  }
+
+  /**
+   * Approve and execute. Fails without side effects if execution fails
+   * (e.g. float too low), leaving the proposal pending.
+   */
+  async approve(checker: AdminPrincipal, id: string, note?: string) {
+    const approval = await this.findDecidable(checker, id);
+    const now = new Date();
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.adminApproval.updateMany({
+        where: { id, status: 'PENDING', expiresAt: { gt: now } },
+        data: {
+          status: 'APPROVED',
+          checkerId: checker.adminId,
+          decisionNote: note?.trim() || null,
+          decidedAt: now,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException('This request has already been decided');
+      }
+
+      const outcome = await this.execute(tx, approval, checker);
+      await tx.adminApproval.update({
+        where: { id },
+        data: { result: outcome },
+      });
+      await this.audit(tx, 'ADMIN_APPROVAL_APPROVED', approval, checker, {
+        note: note?.trim() || null,
+        result: outcome,
+      });
+      return outcome;
+    });
+
+    this.logger.log(
+      `Approval ${id} (${approval.type}) approved by ${checker.email}`,
+    );
+    return { success: true, approvalId: id, type: approval.type, result };
+  }
+
+  async reject(checker: AdminPrincipal, id: string, note: string) {
+    if (!note || !note.trim()) {
+      throw new BadRequestException('A rejection note is required');
+    }
+    const approval = await this.findDecidable(checker, id);
+    await this.decide(approval, checker, 'REJECTED', note.trim());
+    return { success: true, approvalId: id, status: 'REJECTED' };
+  }
+
+  /**
+   * Withdraw your own pending proposal
+   */
+  async cancel(maker: AdminPrincipal, id: string) {
+    const approval = await this.findPendingOrThrow(id);
+    if (approval.makerId !== maker.adminId) {
+      throw new ForbiddenException(
+        'Only the admin who proposed this can cancel it',
+      );
+    }
+    await this.decide(approval, maker, 'CANCELLED', null);
+    return { success: true, approvalId: id, status: 'CANCELLED' };
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireStale() {
+    const now = new Date();
+    const stale = await this.prisma.adminApproval.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: now } },
+    });
+    if (stale.length === 0) return;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.adminApproval.updateMany({
+        where: { id: { in: stale.map((a) => a.id) }, status: 'PENDING' },
+        data: { status: 'EXPIRED', decidedAt: now },
+      });
+      for (const approval of stale) {
+        await this.audit(tx, 'ADMIN_APPROVAL_EXPIRED', approval, null, {
+          expiresAt: approval.expiresAt.toISOString(),
+        });
+      }
+      await this.reopenReconciliation(tx, stale);
+    });
+    this.logger.log(`Expired ${stale.length} pending admin approvals`);
+  }
+
+  private async propose(
+    maker: AdminPrincipal,
+    type: ApprovalType,
+    payload: Prisma.InputJsonObject,
+    input: { reason: string; evidenceReference: string },
+    onCreated?: (
+      tx: Prisma.TransactionClient,
+      approval: AdminApproval,
+    ) => Promise<void>,
+  ) {
+    this.assertPermission(maker, type);
+    const reason = (input.reason || '').trim();
+    const evidenceReference = (input.evidenceReference || '').trim();
+    if (!reason) throw new BadRequestException('Reason is required');
+    if (!evidenceReference) {
+      throw new BadRequestException(
+        'evidenceReference is required (e.g. ticket, bank statement or document ref)',
+      );
+    }
+
+    const ttlHours = Number(this.config.get('ADMIN_APPROVAL_TTL_HOURS', '24'));
+    const approval = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.adminApproval.create({
+        data: {
+          type,
+          payload,
+          reason,
+          evidenceReference,
+          makerId: maker.adminId,
+          expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+        },
+      });
+      await this.audit(tx, 'ADMIN_APPROVAL_REQUESTED', created, maker, {});
+      await onCreated?.(tx, created);
+      return created;
+    });
+
+    this.logger.log(
+      `Approval ${approval.id} (${type}) proposed by ${maker.email}`,
+    );
+    return approval;
+  }
+
+  private async execute(
+    tx: Prisma.TransactionClient,
+    approval: AdminApproval,
+    checker: AdminPrincipal,
+  ): Promise<Prisma.InputJsonObject> {
+    const attribution = {
+      approvalId: approval.id,
+      makerId: approval.makerId,
+      reason: approval.reason,
+      evidenceReference: approval.evidenceReference,
+    };
+
+    switch (approval.type as ApprovalType) {
+      case 'credit': {
+        const { userId, amount, currency } =
+          approval.payload as unknown as CreditPayload;
+        const creditAmount = new Decimal(amount);
+        const float = await tx.businessBalance.findUnique({
+          where: { currency },
+        });
+        const floatBalance = new Decimal(float?.amount?.toString() ?? '0');
+        if (floatBalance.lt(creditAmount)) {
+          throw new BadRequestException(
+            `Insufficient business balance. Available: ₦${floatBalance.toFixed(2)}. Top up first (Admin → Top up business float).`,
+          );
+        }
+
+        const reference = `ADMIN-CREDIT-${uuid()}`;
+        const posting = await this.ledger.transfer(tx, {
+          reference,
+          type: 'admin_credit',
+          currency,
+          from: LedgerService.float(currency),
+          to: LedgerService.user(userId, currency),
+          amount: creditAmount,
+          description: approval.reason,
+        });
+        const { before, after } =
+          posting.balances[LedgerService.user(userId, currency)];
+
+        await tx.transaction.create({
+          data: {
+            receiverId: userId,
+            amount: creditAmount.toNumber(),
+            currency,
+            type: 'deposit',
+            status: 'SUCCESS',
+            idempotencyKey: reference,
+            reference,
+            beforeBalance: before.toNumber(),
+            afterBalance: after.toNumber(),
+            metadata: {
+              method: 'admin_credit',
+              reason: approval.reason,
+              approvalId: approval.id,
+            },
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'ADMIN_CREDIT',
+            userId,
+            actorType: 'admin',
+            actorId: checker.adminId,
+            metadata: {
+              ...attribution,
+              reference,
+              amount: creditAmount.toString(),
+              currency,
+              before: before.toString(),
+              after: after.toString(),
+            },
+          },
+        });
+
+        return {
+          reference,
+          userId,
+          amount: creditAmount.toNumber(),
+          balanceBefore: before.toFixed(2),
+          balanceAfter: after.toFixed(2),
+        };
+      }
+
+      case 'float_topup': {
+        const { amount, reference } =
+          approval.payload as unknown as FloatTopUpPayload;
+        const topUpAmount = new Decimal(amount);
+        const posting = await this.ledger.transfer(tx, {
+          reference,
+          type: 'float_topup',
+          from: LedgerService.external('admin_lodgement'),
+          to: LedgerService.float(),
+          amount: topUpAmount,
+        });
+        const { before, after } = posting.balances[LedgerService.float()];
+
+        await tx.auditLog.create({
+          data: {
+            action: 'ADMIN_TOP_UP',
+            userId: null,
+            actorType: 'admin',
+            actorId: checker.adminId,
+            metadata: {
+              ...attribution,
+              amount: topUpAmount.toString(),
+              reference,
+              currency: 'NGN',
+              before: before.toString(),
+              after: after.toString(),
+            },
+          },
+        });
+
+        return {
+          reference,
+          amount: topUpAmount.toNumber(),
+          balanceBefore: before.toFixed(2),
+          balanceAfter: after.toFixed(2),
+        };
+      }
+
+      case 'hold_release': {
+        const { transactionId } =
+          approval.payload as unknown as HoldReleasePayload;
+        await this.holds.releaseHold(transactionId, checker.adminId, tx);
+        return { transactionId, releasedAt: new Date().toISOString() };
+      }
+
+      case 'reconciliation_credit': {
+        const payload =
+          approval.payload as unknown as ReconciliationCreditPayload;
+        const creditAmount = new Decimal(payload.amount);
+        const account = LedgerService.user(payload.userId, payload.currency);
+        const now = new Date();
+
+        const resolved = await tx.reconciliationException.updateMany({
+          where: {
+            id: payload.exceptionId,
+            status: 'pending_approval',
+            approvalId: approval.id,
+          },
+          data: {
+            status: 'resolved',
+            resolution: 'credited',
+            resolutionNote: approval.reason,
+            resolvedBy: checker.adminId,
+            resolvedAt: now,
+          },
+        });
+        if (resolved.count === 0) {
+          throw new ConflictException(
+            'The reconciliation exception is no longer awaiting this credit',
+          );
+        }
+
+        let transactionId = payload.transactionId;
+        let reference = `RECON-${payload.providerReference}`;
+        let balances: { before: Decimal; after: Decimal };
+
+        if (transactionId) {
+          // Our side has the deposit but never completed it: complete that row
+          const existing = await tx.transaction.findUnique({
+            where: { id: transactionId },
+          });
+          if (!existing) throw new NotFoundException('Transaction not found');
+          reference = existing.reference ?? existing.idempotencyKey;
+          const posting = await this.ledger.transfer(tx, {
+            reference,
+            type: 'deposit',
+            from: LedgerService.external(payload.provider),
+            to: account,
+            amount: creditAmount,
+            description: approval.reason,
+          });
+          balances = posting.balances[account];
+          const claimed = await tx.transaction.updateMany({
+            where: { id: transactionId, status: { not: 'SUCCESS' } },
+            data: {
+              status: 'SUCCESS',
+              providerTxId: payload.providerReference,
+              beforeBalance: balances.before.toNumber(),
+              afterBalance: balances.after.toNumber(),
+            },
+          });
+          if (claimed.count === 0) {
+            throw new ConflictException(
+              'This deposit has been credited in the meantime',
+            );
+          }
+        } else {
+          const posting = await this.ledger.transfer(tx, {
+            reference,
+            type: 'deposit',
+            from: LedgerService.external(payload.provider),
+            to: account,
+            amount: creditAmount,
+            description: approval.reason,
+          });
+          balances = posting.balances[account];
+          const created = await tx.transaction.create({
+            data: {
+              receiverId: payload.userId,
+              amount: creditAmount.toNumber(),
+              currency: payload.currency,
+              type: 'deposit',
+              status: 'SUCCESS',
+              idempotencyKey: reference,
+              reference,
+              providerTxId: payload.providerReference,
+              beforeBalance: balances.before.toNumber(),
+              afterBalance: balances.after.toNumber(),
+              metadata: {
+                provider: payload.provider,
+                method: 'reconciliation',
+                approvalId: approval.id,
+                exceptionId: payload.exceptionId,
+              },
+            },
+          });
+          transactionId = created.id;
+        }
+
+        await tx.auditLog.create({
+          data: {
+            action: 'RECONCILIATION_CREDIT',
+            userId: payload.userId,
+            actorType: 'admin',
+            actorId: checker.adminId,
+            metadata: {
+              ...attribution,
+              exceptionId: payload.exceptionId,
+              provider: payload.provider,
+              providerReference: payload.providerReference,
+              transactionId,
+              amount: creditAmount.toString(),
+              before: balances.before.toString(),
+              after: balances.after.toString(),
+            },
+          },
+        });
+        await this.outbox.record(
+          tx,
+          'DepositCredited',
+          {
+            transactionId,
+            reference,
+            userId: payload.userId,
+            amount: creditAmount.toString(),
+            currency: payload.currency,
+            source: payload.provider,
+          },
+          transactionId,
+        );
+
+        return {
+          reference,
+          transactionId,
+          userId: payload.userId,
+          amount: creditAmount.toNumber(),
+          balanceBefore: balances.before.toFixed(2),
+          balanceAfter: balances.after.toFixed(2),
+        };
+      }
+
+      case 'crypto_deposit_amount': {
+        const { depositTransactionId, ngnAmount } =
+          approval.payload as unknown as CryptoDepositAmountPayload;
+        const deposit = await tx.cryptoDepositTransaction.findUnique({
+          where: { id: depositTransactionId },
+        });
+        if (!deposit) throw new NotFoundException('Deposit not found');
+        if (deposit.status === 'confirmed') {
+          throw new ConflictException(
+            'This deposit has been credited in the meantime',
+          );
+        }
+
+        const approvedAmount = {
+          ngnAmount,
+          approvalId: approval.id,
+          makerId: approval.makerId,
+          checkerId: checker.adminId,
+        };
+        await tx.cryptoDepositTransaction.update({
+          where: { id: depositTransactionId },
+          data: {
+            metadata: {
+              ...(deposit.metadata as Prisma.JsonObject),
+              approvedAmount,
+            },
+          },
+        });
+
+        return { depositTransactionId, ngnAmount };
+      }
+
+      default:
+        throw new BadRequestException(`Unknown approval type ${approval.type}`);
+    }
+  }
+
+  private async decide(
+    approval: AdminApproval,
+    actor: AdminPrincipal,
+    status: 'REJECTED' | 'CANCELLED',
+    note: string | null,
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.adminApproval.updateMany({
+        where: { id: approval.id, status: 'PENDING' },
+        data: {
+          status,
+          checkerId: actor.adminId,
+          decisionNote: note,
+          decidedAt: new Date(),
+        },
+      });
+      if (updated.count === 0) {
+        throw new ConflictException('This request has already been decided');
+      }
+      await this.audit(tx, `ADMIN_APPROVAL_${status}`, approval, actor, {
+        note,
+      });
+      await this.reopenReconciliation(tx, [approval]);
+    });
+  }
+
+  /**
+   * A reconciliation credit that was rejected, withdrawn or expired leaves
+   * its exception open again for another resolution
+   */
+  private async reopenReconciliation(
+    tx: Prisma.TransactionClient,
+    approvals: AdminApproval[],
+  ) {
+    const ids = approvals
+      .filter((a) => a.type === 'reconciliation_credit')
+      .map((a) => a.id);
+    if (ids.length === 0) return;
+    await tx.reconciliationException.updateMany({
+      where: { approvalId: { in: ids }, status: 'pending_approval' },
+      data: { status: 'open', approvalId: null },
+    });
+  }
+
+  /**
+   * Pending, unexpired, proposed by someone else, and the checker holds the
+   * permission the action needs
+   */
+  private async findDecidable(checker: AdminPrincipal, id: string) {
+    const approval = await this.findPendingOrThrow(id);
+    if (approval.makerId === checker.adminId) {
+      throw new ForbiddenException(
+        'A different admin must approve or reject your own request',
+      );
+    }
+    this.assertPermission(checker, approval.type as ApprovalType);
+    return approval;
+  }
+
+  private async findPendingOrThrow(id: string) {
+    await this.expireStale();
+    const approval = await this.prisma.adminApproval.findUnique({
+      where: { id },
+    });
+    if (!approval) throw new NotFoundException('Approval not found');
+    if (approval.status !== 'PENDING') {
+      throw new ConflictException(
+        `This request is already ${approval.status.toLowerCase()}`,
+      );
+    }
+    return approval;
+  }
+
+  private findPending(type: ApprovalType, path: string[], value: string) {
+    return this.prisma.adminApproval.findFirst({
+      where: { type, status: 'PENDING', payload: { path, equals: value } },
+    });
+  }
+
+  private assertPermission(admin: AdminPrincipal, type: ApprovalType) {
+    const permission = APPROVAL_PERMISSIONS[type];
+    if (!permission || !roleHasPermission(admin.role, permission)) {
+      throw new ForbiddenException(
+        `Your role (${admin.role}) cannot propose or decide ${type} requests`,
+      );
+    }
+  }
+
+  private validateAmount(amount: number): Decimal {
+    if (!amount || amount <= 0 || amount > MAX_AMOUNT) {
+      throw new BadRequestException(
+        'Amount must be between ₦1 and ₦50,000,000',
+      );
+    }
+    return new Decimal(amount);
+  }
+
+  private audit(
+    client: Prisma.TransactionClient,
+    action: string,
+    approval: AdminApproval,
+    actor: AdminPrincipal | null,
+    metadata: Prisma.InputJsonObject,
+  ) {
+    const payload = approval.payload as Prisma.JsonObject;
+    return client.auditLog.create({
+      data: {
+        action,
+        userId: typeof payload.userId === 'string' ? payload.userId : null,
+        actorType: actor ? 'admin' : 'system',
+        actorId: actor?.adminId ?? null,
+        metadata: {
+          approvalId: approval.id,
+          type: approval.type,
+          makerId: approval.makerId,
+          payload,
+          reason: approval.reason,
+          evidenceReference: approval.evidenceReference,
+          ...metadata,
+        },
+      },
+    });
+  }
+}
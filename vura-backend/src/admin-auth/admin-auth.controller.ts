@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Headers,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { AdminAuthService } from './admin-auth.service';
+import type { AdminLoginInput, AdminUserInput } from './admin-auth.service';
+import { AdminGuard } from './admin.guard';
+import { CurrentAdmin } from './admin-permissions';
+import type { AdminPrincipal } from './admin-permissions';
+
+@Controller('admin/auth')
+export class AdminAuthController {
+  constructor(private adminAuth: AdminAuthService) {}
+
+  /**
+   * Whether the first superadmin still needs to be created
+   */
+  @Get('status')
+  async status() {
+    return { setupRequired: await this.adminAuth.isSetupRequired() };
+  }
+
+  /**
+   * Create the first superadmin. Authorization: Bearer <ADMIN_SECRET>.
+   * Disabled once any admin account exists.
+   */
+  @Throttle({ default: { limit: 3, ttl: 900000 } }) // 3 attempts per 15 minutes
+  @Post('bootstrap')
+  bootstrap(
+    @Headers('authorization') authHeader: string,
+    @Body() body: AdminUserInput,
+  ) {
+    const secret = (authHeader || '').replace(/^Bearer\s+/i, '');
+    return this.adminAuth.bootstrap(secret, body);
+  }
+
+  @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 attempts per 15 minutes
+  @Post('login')
+  login(@Body() body: AdminLoginInput) {
+    return this.adminAuth.login(body);
+  }
+
+  /**
+   * Finish first-login 2FA enrolment with a code from the authenticator app
+   */
+  @Throttle({ default: { limit: 5, ttl: 300000 } }) // 5 attempts per 5 minutes
+  @Post('totp/enable')
+  enableTotp(@Body() body: { enrollmentToken: string; code: string }) {
+    return this.adminAuth.enableTotp(body.enrollmentToken, body.code);
+  }
+
+  @UseGuards(AdminGuard)
+  @Get('me')
+  me(@CurrentAdmin() admin: AdminPrincipal) {
+    return this.adminAuth.getProfile(admin.adminId);
+  }
+
+  @UseGuards(AdminGuard)
+  @Post('password')
+  changePassword(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: { currentPassword: string; newPassword: string },
+  ) {
+    return this.adminAuth.changePassword(
+      admin,
+      body.currentPassword,
+      body.newPassword,
+    );
+  }
+}
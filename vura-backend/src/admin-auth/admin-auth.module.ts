@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AdminAuthController } from './admin-auth.controller';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminAuthService } from './admin-auth.service';
+import { AdminGuard } from './admin.guard';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  controllers: [AdminAuthController, AdminUsersController],
+  providers: [AdminAuthService, AdminGuard, PrismaService],
+  exports: [AdminAuthService, AdminGuard],
+})
+export class AdminAuthModule {}
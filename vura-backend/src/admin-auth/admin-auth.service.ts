@@ -0,0 +1,478 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminUser, Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import * as jwt from 'jsonwebtoken';
+import { createHash, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { PrismaService } from '../prisma.service';
+import { EncryptionService } from '../services/encryption.service';
+import { ADMIN_ROLES, AdminPrincipal, AdminRole } from './admin-permissions';
+import { generateTotpSecret, totpKeyUri, verifyTotp } from './totp';
+
+export interface AdminLoginInput {
+  email: string;
+  password: string;
+  totpCode?: string;
+}
+
+export interface AdminUserInput {
+  email?: string;
+  name?: string;
+  role?: string;
+  password?: string;
+  isActive?: boolean;
+}
+
+type SessionClaims = { sub: string; typ: 'admin_session' | 'totp_enrollment' };
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+const ENROLLMENT_TTL = '10m';
+const MIN_PASSWORD_LENGTH = 12;
+const TOTP_ISSUER = 'Vura Admin';
+
+/**
+ * Operator accounts for the admin dashboard: password + TOTP login, session
+ * tokens for AdminGuard, and superadmin management of other operators.
+ * ADMIN_SECRET is only used once, to create the first superadmin.
+ */
+@Injectable()
+export class AdminAuthService {
+  private readonly logger = new Logger(AdminAuthService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  private getJwtSecret(): string {
+    const secret = this.config.get<string>('ADMIN_JWT_SECRET');
+    if (!secret || secret.length < 32) {
+      throw new Error(
+        'ADMIN_JWT_SECRET environment variable must be at least 32 characters',
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * True until the first superadmin has been bootstrapped
+   */
+  async isSetupRequired(): Promise<boolean> {
+    return (await this.prisma.adminUser.count()) === 0;
+  }
+
+  /**
+   * Create the first superadmin. Only works while there are no admin users,
+   * and only with the deployment's ADMIN_SECRET.
+   */
+  async bootstrap(setupSecret: string, input: AdminUserInput) {
+    const expected = (this.config.get<string>('ADMIN_SECRET') || '').trim();
+    if (!expected || !this.secretsMatch(setupSecret.trim(), expected)) {
+      throw new UnauthorizedException('Invalid setup secret');
+    }
+    if (!(await this.isSetupRequired())) {
+      throw new ForbiddenException(
+        'Admin accounts already exist. Ask a superadmin to create yours.',
+      );
+    }
+
+    const admin = await this.createAdmin(null, {
+      ...input,
+      role: 'superadmin',
+    });
+    this.logger.log(`Bootstrapped first superadmin ${admin.email}`);
+    return admin;
+  }
+
+  /**
+   * Password + TOTP login. An admin without 2FA enrolled gets an enrolment
+   * challenge instead of a session and must confirm a code via enableTotp().
+   */
+  async login(input: AdminLoginInput) {
+    const email = (input.email || '').trim().toLowerCase();
+    const admin = await this.prisma.adminUser.findUnique({ where: { email } });
+
+    if (!admin || !admin.isActive) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+    if (admin.lockedUntil && admin.lockedUntil > new Date()) {
+      throw new UnauthorizedException(
+        `Too many failed attempts. Try again after ${admin.lockedUntil.toISOString()}`,
+      );
+    }
+
+    const passwordValid = await bcrypt.compare(
+      input.password || '',
+      admin.passwordHash,
+    );
+    if (!passwordValid) {
+      await this.recordFailedLogin(admin, 'password');
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    if (!admin.totpEnabled) {
+      return this.startTotpEnrollment(admin);
+    }
+
+    if (!input.totpCode) {
+      return { totpRequired: true };
+    }
+
+    const step = verifyTotp(
+      EncryptionService.decrypt(admin.totpSecretEncrypted!),
+      input.totpCode,
+    );
+    if (step === null || (admin.totpLastStep ?? -1) >= step) {
+      await this.recordFailedLogin(admin, 'totp');
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    return this.openSession(admin, step, 'ADMIN_LOGIN');
+  }
+
+  /**
+   * Confirm the first code from the authenticator app, switch 2FA on and log in
+   */
+  async enableTotp(enrollmentToken: string, code: string) {
+    const claims = this.verifyToken(enrollmentToken, 'totp_enrollment');
+    const admin = await this.prisma.adminUser.findUnique({
+      where: { id: claims.sub },
+    });
+    if (!admin || !admin.isActive || !admin.totpSecretEncrypted) {
+      throw new UnauthorizedException('Enrolment expired. Log in again.');
+    }
+    if (admin.totpEnabled) {
+      throw new BadRequestException('Two-factor authentication is already on');
+    }
+
+    const step = verifyTotp(
+      EncryptionService.decrypt(admin.totpSecretEncrypted),
+      code,
+    );
+    if (step === null) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.prisma.adminUser.update({
+      where: { id: admin.id },
+      data: { totpEnabled: true },
+    });
+    return this.openSession(
+      { ...admin, totpEnabled: true },
+      step,
+      'ADMIN_TOTP_ENABLED',
+    );
+  }
+
+  /**
+   * Resolve a session token to the operator behind it (used by AdminGuard)
+   */
+  async authenticate(token: string): Promise<AdminPrincipal> {
+    const claims = this.verifyToken(token, 'admin_session');
+    const admin = await this.prisma.adminUser.findUnique({
+      where: { id: claims.sub },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        isActive: true,
+        totpEnabled: true,
+      },
+    });
+    if (!admin || !admin.isActive || !admin.totpEnabled) {
+      throw new UnauthorizedException('Admin session is no longer valid');
+    }
+    return {
+      adminId: admin.id,
+      email: admin.email,
+      role: admin.role as AdminRole,
+    };
+  }
+
+  async getProfile(adminId: string) {
+    const admin = await this.prisma.adminUser.findUnique({
+      where: { id: adminId },
+    });
+    if (!admin) throw new NotFoundException('Admin not found');
+    return this.toPublic(admin);
+  }
+
+  async changePassword(
+    actor: AdminPrincipal,
+    currentPassword: string,
+    newPassword: string,
+  ) {
+    const admin = await this.prisma.adminUser.findUniqueOrThrow({
+      where: { id: actor.adminId },
+    });
+    if (!(await bcrypt.compare(currentPassword || '', admin.passwordHash))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+    this.validatePassword(newPassword);
+
+    await this.prisma.adminUser.update({
+      where: { id: admin.id },
+      data: { passwordHash: await bcrypt.hash(newPassword, 12) },
+    });
+    await this.audit('ADMIN_PASSWORD_CHANGED', actor.adminId, admin.id, {});
+    return { success: true };
+  }
+
+  async listAdmins() {
+    const admins = await this.prisma.adminUser.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+    return admins.map((admin) => this.toPublic(admin));
+  }
+
+  /**
+   * Create an operator with a temporary password; they enrol 2FA on first login
+   */
+  async createAdmin(actor: AdminPrincipal | null, input: AdminUserInput) {
+    const email = (input.email || '').trim().toLowerCase();
+    const name = (input.name || '').trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new BadRequestException('A valid email is required');
+    }
+    if (!name) throw new BadRequestException('name is required');
+    const role = this.validateRole(input.role);
+    this.validatePassword(input.password);
+
+    const existing = await this.prisma.adminUser.findUnique({
+      where: { email },
+    });
+    if (existing) {
+      throw new BadRequestException('An admin with this email already exists');
+    }
+
+    const admin = await this.prisma.adminUser.create({
+      data: {
+        email,
+        name,
+        role,
+        passwordHash: await bcrypt.hash(input.password!, 12),
+        createdById: actor?.adminId,
+      },
+    });
+    await this.audit('ADMIN_USER_CREATED', actor?.adminId ?? null, admin.id, {
+      email,
+      role,
+    });
+    return this.toPublic(admin);
+  }
+
+  /**
+   * Change an operator's name, role or active flag. Superadmins cannot demote
+   * or deactivate themselves, so there is always someone left to manage admins.
+   */
+  async updateAdmin(actor: AdminPrincipal, id: string, input: AdminUserInput) {
+    const admin = await this.prisma.adminUser.findUnique({ where: { id } });
+    if (!admin) throw new NotFoundException('Admin not found');
+
+    const data: { name?: string; role?: AdminRole; isActive?: boolean } = {};
+    if (input.name !== undefined) {
+      data.name = input.name.trim();
+      if (!data.name) throw new BadRequestException('name cannot be empty');
+    }
+    if (input.role !== undefined) data.role = this.validateRole(input.role);
+    if (input.isActive !== undefined) data.isActive = !!input.isActive;
+
+    if (
+      id === actor.adminId &&
+      ((data.role && data.role !== 'superadmin') || data.isActive === false)
+    ) {
+      throw new BadRequestException(
+        'You cannot demote or deactivate your own account',
+      );
+    }
+
+    const updated = await this.prisma.adminUser.update({
+      where: { id },
+      data,
+    });
+    await this.audit('ADMIN_USER_UPDATED', actor.adminId, id, {
+      before: { name: admin.name, role: admin.role, isActive: admin.isActive },
+      after: data,
+    });
+    return this.toPublic(updated);
+  }
+
+  /**
+   * Clear an operator's 2FA (lost device) and optionally set a new temporary
+   * password. They enrol again on next login.
+   */
+  async resetCredentials(
+    actor: AdminPrincipal,
+    id: string,
+    temporaryPassword?: string,
+  ) {
+    const admin = await this.prisma.adminUser.findUnique({ where: { id } });
+    if (!admin) throw new NotFoundException('Admin not found');
+    if (temporaryPassword !== undefined) {
+      this.validatePassword(temporaryPassword);
+    }
+
+    const updated = await this.prisma.adminUser.update({
+      where: { id },
+      data: {
+        totpEnabled: false,
+        totpSecretEncrypted: null,
+        totpLastStep: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        ...(temporaryPassword !== undefined && {
+          passwordHash: await bcrypt.hash(temporaryPassword, 12),
+        }),
+      },
+    });
+    await this.audit('ADMIN_CREDENTIALS_RESET', actor.adminId, id, {
+      passwordReset: temporaryPassword !== undefined,
+    });
+    return this.toPublic(updated);
+  }
+
+  private async startTotpEnrollment(admin: AdminUser) {
+    const secret = generateTotpSecret();
+    await this.prisma.adminUser.update({
+      where: { id: admin.id },
+      data: { totpSecretEncrypted: EncryptionService.encrypt(secret) },
+    });
+
+    const otpauthUrl = totpKeyUri(secret, admin.email, TOTP_ISSUER);
+    return {
+      totpSetupRequired: true,
+      enrollmentToken: jwt.sign(
+        { sub: admin.id, typ: 'totp_enrollment' },
+        this.getJwtSecret(),
+        { expiresIn: ENROLLMENT_TTL },
+      ),
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  private async openSession(
+    admin: AdminUser,
+    totpStep: number,
+    action: 'ADMIN_LOGIN' | 'ADMIN_TOTP_ENABLED',
+  ) {
+    await this.prisma.adminUser.update({
+      where: { id: admin.id },
+      data: {
+        totpLastStep: totpStep,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        lastLoginAt: new Date(),
+      },
+    });
+    await this.audit(action, admin.id, admin.id, {});
+
+    const expiresIn = (this.config.get<string>('ADMIN_JWT_EXPIRES_IN') ||
+      '8h') as jwt.SignOptions['expiresIn'];
+    return {
+      accessToken: jwt.sign(
+        { sub: admin.id, typ: 'admin_session' },
+        this.getJwtSecret(),
+        { expiresIn },
+      ),
+      admin: this.toPublic(admin),
+    };
+  }
+
+  private async recordFailedLogin(admin: AdminUser, factor: string) {
+    const attempts = admin.failedLoginAttempts + 1;
+    const lock = attempts >= MAX_FAILED_LOGINS;
+    await this.prisma.adminUser.update({
+      where: { id: admin.id },
+      data: {
+        failedLoginAttempts: lock ? 0 : attempts,
+        lockedUntil: lock
+          ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000)
+          : undefined,
+      },
+    });
+    await this.audit('ADMIN_LOGIN_FAILED', admin.id, admin.id, {
+      factor,
+      attempts,
+      locked: lock,
+    });
+    if (lock) {
+      this.logger.warn(`Admin ${admin.email} locked after failed logins`);
+    }
+  }
+
+  private verifyToken(token: string, typ: SessionClaims['typ']) {
+    let claims: SessionClaims;
+    try {
+      claims = jwt.verify(token, this.getJwtSecret()) as SessionClaims;
+    } catch {
+      throw new UnauthorizedException('Invalid token');
+    }
+    if (claims.typ !== typ || !claims.sub) {
+      throw new UnauthorizedException('Invalid token');
+    }
+    return claims;
+  }
+
+  private validateRole(role?: string): AdminRole {
+    if (!role || !ADMIN_ROLES.includes(role as AdminRole)) {
+      throw new BadRequestException(
+        `role must be one of: ${ADMIN_ROLES.join(', ')}`,
+      );
+    }
+    return role as AdminRole;
+  }
+
+  private validatePassword(password?: string) {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      );
+    }
+  }
+
+  private secretsMatch(given: string, expected: string): boolean {
+    const a = createHash('sha256').update(given).digest();
+    const b = createHash('sha256').update(expected).digest();
+    return timingSafeEqual(a, b);
+  }
+
+  private audit(
+    action: string,
+    actorId: string | null,
+    adminUserId: string,
+    metadata: Prisma.InputJsonObject,
+  ) {
+    return this.prisma.auditLog.create({
+      data: {
+        action,
+        actorType: actorId ? 'admin' : 'system',
+        actorId,
+        metadata: { adminUserId, ...metadata },
+      },
+    });
+  }
+
+  private toPublic(admin: AdminUser) {
+    return {
+      id: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role,
+      isActive: admin.isActive,
+      totpEnabled: admin.totpEnabled,
+      lastLoginAt: admin.lastLoginAt,
+      createdAt: admin.createdAt,
+    };
+  }
+}
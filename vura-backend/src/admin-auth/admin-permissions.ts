@@ -0,0 +1,113 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+
+export const ADMIN_ROLES = [
+  'support',
+  'compliance',
+  'finance',
+  'superadmin',
+] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type AdminPermission =
+  | 'users:read'
+  | 'kyc:review'
+  | 'risk:read'
+  | 'risk:manage'
+  | 'holds:read'
+  | 'holds:manage'
+  | 'disputes:read'
+  | 'disputes:manage'
+  | 'refunds:manage'
+  | 'reports:read'
+  | 'float:read'
+  | 'float:manage'
+  | 'wallet:credit'
+  | 'ledger:read'
+  | 'reconciliation:read'
+  | 'reconciliation:manage'
+  | 'crypto:read'
+  | 'crypto:manage'
+  | 'system:read'
+  | 'system:manage'
+  | 'providers:read'
+  | 'providers:manage'
+  | 'admins:manage';
+
+/**
+ * What each role may do. superadmin is checked separately and may do anything.
+ */
+export const ROLE_PERMISSIONS: Record<
+  Exclude<AdminRole, 'superadmin'>,
+  AdminPermission[]
+> = {
+  support: [
+    'users:read',
+    'risk:read',
+    'holds:read',
+    'disputes:read',
+    'providers:read',
+  ],
+  compliance: [
+    'users:read',
+    'kyc:review',
+    'risk:read',
+    'risk:manage',
+    'holds:read',
+    'holds:manage',
+    'disputes:read',
+    'disputes:manage',
+    'reports:read',
+    'crypto:read',
+  ],
+  finance: [
+    'users:read',
+    'holds:read',
+    'disputes:read',
+    'refunds:manage',
+    'reports:read',
+    'float:read',
+    'float:manage',
+    'wallet:credit',
+    'ledger:read',
+    'reconciliation:read',
+    'reconciliation:manage',
+    'crypto:read',
+    'crypto:manage',
+    'providers:read',
+    'providers:manage',
+  ],
+};
+
+export function roleHasPermission(
+  role: string,
+  permission: AdminPermission,
+): boolean {
+  if (role === 'superadmin') return true;
+  const granted = ROLE_PERMISSIONS[role as keyof typeof ROLE_PERMISSIONS];
+  return !!granted && granted.includes(permission);
+}
+
+/** Authenticated operator attached to the request by AdminGuard */
+export interface AdminPrincipal {
+  adminId: string;
+  email: string;
+  role: AdminRole;
+}
+
+export const ADMIN_PERMISSION_KEY = 'adminPermission';
+
+/**
+ * Permission an admin route requires. Routes behind AdminGuard without one
+ * only need a valid admin session.
+ */
+export const RequirePermission = (permission: AdminPermission) =>
+  SetMetadata(ADMIN_PERMISSION_KEY, permission);
+
+export const CurrentAdmin = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AdminPrincipal =>
+    ctx.switchToHttp().getRequest<{ admin: AdminPrincipal }>().admin,
+);
@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminAuthService } from './admin-auth.service';
+import type { AdminUserInput } from './admin-auth.service';
+import { AdminGuard } from './admin.guard';
+import { CurrentAdmin, RequirePermission } from './admin-permissions';
+import type { AdminPrincipal } from './admin-permissions';
+
+/**
+ * Superadmin management of operator accounts
+ */
+@Controller('admin/admins')
+@UseGuards(AdminGuard)
+@RequirePermission('admins:manage')
+export class AdminUsersController {
+  constructor(private adminAuth: AdminAuthService) {}
+
+  @Get()
+  list() {
+    return this.adminAuth.listAdmins();
+  }
+
+  @Post()
+  create(@CurrentAdmin() admin: AdminPrincipal, @Body() body: AdminUserInput) {
+    return this.adminAuth.createAdmin(admin, body);
+  }
+
+  /**
+   * Change name, role or isActive
+   */
+  @Patch(':id')
+  update(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: AdminUserInput,
+  ) {
+    return this.adminAuth.updateAdmin(admin, id, body);
+  }
+
+  /**
+   * Clear 2FA (lost device) and optionally set a temporary password
+   */
+  @Post(':id/reset-credentials')
+  resetCredentials(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: { temporaryPassword?: string },
+  ) {
+    return this.adminAuth.resetCredentials(admin, id, body.temporaryPassword);
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AdminAuthService } from './admin-auth.service';
+import { AdminGuard } from './admin.guard';
+import {
+  AdminPrincipal,
+  AdminRole,
+  RequirePermission,
+  roleHasPermission,
+} from './admin-permissions';
+
+@RequirePermission('crypto:read')
+class CryptoRoutes {
+  @RequirePermission('crypto:manage')
+  approve() {}
+
+  list() {}
+}
+
+class OpenRoutes {
+  profile() {}
+}
+
+/**
+ * Runs the guard with the real Reflector against decorated classes, so the
+ * permission is read the way Nest reads it; AdminAuthService is mocked.
+ */
+describe('AdminGuard', () => {
+  let authenticate: jest.Mock;
+  let guard: AdminGuard;
+
+  const admin = (role: AdminRole): AdminPrincipal => ({
+    adminId: 'admin-1',
+    email: 'ops@vura.test',
+    role,
+  });
+  // Request to the `handler` method of the `routes` controller
+  const context = (
+    request: object,
+    routes: { prototype: object } = CryptoRoutes,
+    handler = 'approve',
+  ) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () =>
+        Object.getOwnPropertyDescriptor(routes.prototype, handler)
+          ?.value as () => void,
+      getClass: () => routes,
+    }) as unknown as ExecutionContext;
+  const request = (authorization?: string) => ({
+    headers: { authorization },
+  });
+
+  beforeEach(() => {
+    authenticate = jest.fn().mockResolvedValue(admin('finance'));
+    guard = new AdminGuard(new Reflector(), {
+      authenticate,
+    } as unknown as AdminAuthService);
+  });
+
+  it('attaches the admin when their role has the permission', async () => {
+    const req: ReturnType<typeof request> & { admin?: AdminPrincipal } =
+      request('Bearer admin-token');
+
+    await expect(guard.canActivate(context(req))).resolves.toBe(true);
+
+    expect(authenticate).toHaveBeenCalledWith('admin-token');
+    expect(req.admin).toEqual(admin('finance'));
+  });
+
+  it('refuses a role without the route permission', async () => {
+    authenticate.mockResolvedValue(admin('compliance'));
+
+    await expect(
+      guard.canActivate(context(request('Bearer admin-token'))),
+    ).rejects.toThrow(
+      new ForbiddenException(
+        'Your role (compliance) does not allow this action',
+      ),
+    );
+  });
+
+  it('falls back to the controller permission', async () => {
+    authenticate.mockResolvedValue(admin('compliance'));
+
+    await expect(
+      guard.canActivate(
+        context(request('Bearer admin-token'), CryptoRoutes, 'list'),
+      ),
+    ).resolves.toBe(true);
+
+    authenticate.mockResolvedValue(admin('support'));
+    await expect(
+      guard.canActivate(
+        context(request('Bearer admin-token'), CryptoRoutes, 'list'),
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('only needs a session on routes without a permission', async () => {
+    authenticate.mockResolvedValue(admin('support'));
+
+    await expect(
+      guard.canActivate(
+        context(request('Bearer admin-token'), OpenRoutes, 'profile'),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('lets a superadmin through everywhere', async () => {
+    authenticate.mockResolvedValue(admin('superadmin'));
+
+    await expect(
+      guard.canActivate(context(request('Bearer admin-token'))),
+    ).resolves.toBe(true);
+  });
+
+  it.each([undefined, 'Basic abc', 'admin-token'])(
+    'refuses the authorization header %p',
+    async (authorization) => {
+      await expect(
+        guard.canActivate(context(request(authorization))),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(authenticate).not.toHaveBeenCalled();
+    },
+  );
+
+  it('refuses a session the auth service rejects', async () => {
+    authenticate.mockRejectedValue(
+      new UnauthorizedException('Admin session is no longer valid'),
+    );
+
+    await expect(
+      guard.canActivate(context(request('Bearer admin-token'))),
+    ).rejects.toThrow('Admin session is no longer valid');
+  });
+});
+
+describe('roleHasPermission', () => {
+  it('grants what the role lists and nothing else', () => {
+    expect(roleHasPermission('finance', 'crypto:manage')).toBe(true);
+    expect(roleHasPermission('support', 'crypto:manage')).toBe(false);
+    expect(roleHasPermission('support', 'users:read')).toBe(true);
+  });
+
+  it('grants a superadmin everything and an unknown role nothing', () => {
+    expect(roleHasPermission('superadmin', 'admins:manage')).toBe(true);
+    expect(roleHasPermission('intern', 'users:read')).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AdminAuthService } from './admin-auth.service';
+import {
+  ADMIN_PERMISSION_KEY,
+  AdminPermission,
+  AdminPrincipal,
+  roleHasPermission,
+} from './admin-permissions';
+
+/**
+ * Accepts admin session tokens issued by AdminAuthService and enforces the
+ * route's @RequirePermission. The admin row is re-read on every request so
+ * deactivating an operator or changing their role applies immediately.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private adminAuth: AdminAuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { admin?: AdminPrincipal }>();
+    const authHeader = request.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+
+    const admin = await this.adminAuth.authenticate(authHeader.split(' ')[1]);
+
+    const permission = this.reflector.getAllAndOverride<
+      AdminPermission | undefined
+    >(ADMIN_PERMISSION_KEY, [context.getHandler(), context.getClass()]);
+    if (permission && !roleHasPermission(admin.role, permission)) {
+      throw new ForbiddenException(
+        `Your role (${admin.role}) does not allow this action`,
+      );
+    }
+
+    request.admin = admin;
+    return true;
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  currentTotpStep,
+  generateTotp,
+  generateTotpSecret,
+  totpKeyUri,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B SHA-1 seed, ASCII "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+/**
+ * Known-answer tests from RFC 6238 appendix B. The RFC lists 8-digit codes;
+ * a 6-digit code is the same truncated value mod 10^6, i.e. its last six
+ * digits.
+ */
+describe('totp', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('matches the RFC 6238 vector at T=%i', (seconds, rfcCode) => {
+    const step = currentTotpStep(seconds * 1000);
+
+    expect(generateTotp(RFC_SECRET, step)).toBe(rfcCode.slice(-6));
+  });
+
+  it('accepts a lowercase, padded secret', () => {
+    const step = currentTotpStep(59_000);
+
+    expect(generateTotp(`${RFC_SECRET.toLowerCase()}====`, step)).toBe(
+      '287082',
+    );
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111111 * 1000;
+    const step = currentTotpStep(now);
+
+    it('returns the matched step, allowing one step of drift', () => {
+      expect(verifyTotp(RFC_SECRET, '050471', 1, now)).toBe(step);
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now),
+      ).toBe(step - 1);
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now),
+      ).toBe(step + 1);
+    });
+
+    it('refuses a code outside the window', () => {
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now),
+      ).toBeNull();
+    });
+
+    it('ignores spaces in the code', () => {
+      expect(verifyTotp(RFC_SECRET, '050 471', 1, now)).toBe(step);
+    });
+
+    it.each(['', '05047', '0504711', 'abcdef'])(
+      'refuses a malformed code %p',
+      (code) => {
+        expect(verifyTotp(RFC_SECRET, code, 1, now)).toBeNull();
+      },
+    );
+  });
+
+  it('generates 160-bit base32 secrets that verify', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    const step = currentTotpStep();
+    expect(
+      verifyTotp(secret, generateTotp(secret, step), 0, step * 30_000),
+    ).toBe(step);
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    const uri = new URL(totpKeyUri(RFC_SECRET, 'ops@vura.test', 'Vura Admin'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Vura Admin:ops@vura.test');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Vura Admin',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
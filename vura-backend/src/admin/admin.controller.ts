@@ -2,47 +2,62 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
   BadRequestException,
   Logger,
-  Headers,
+  UseGuards,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { ConfigService } from '@nestjs/config';
 import { PaystackService } from '../services/paystack.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { EWSRulesService } from '../ews/ews-rules.service';
+import type {
+  EWSRuleDryRunInput,
+  EWSRuleInput,
+} from '../ews/ews-rules.service';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import { BillRoutingService } from '../bills/bill-routing.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import type {
+  CreditProposalInput,
+  FloatTopUpProposalInput,
+} from '../admin-approvals/admin-approvals.service';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
 import Decimal from 'decimal.js';
 import { v4 as uuid } from 'uuid';
 
 @Controller('admin')
+@UseGuards(AdminGuard)
 export class AdminController {
   private readonly logger = new Logger(AdminController.name);
-  private readonly adminSecret: string;
 
   constructor(
     private prisma: PrismaService,
     private config: ConfigService,
     private paystack: PaystackService,
-  ) {
-    const raw = this.config.get('ADMIN_SECRET', 'change-me-in-production') || '';
-    this.adminSecret = (typeof raw === 'string' ? raw : String(raw)).trim();
-  }
-
-  private checkAdmin(authHeader?: string) {
-    const token = (authHeader || '').replace(/^Bearer\s+/i, '').trim();
-    if (!token || token !== this.adminSecret) {
-      this.logger.warn('Admin auth failed: token length ' + (token?.length ?? 0) + ', expected length ' + this.adminSecret.length);
-      throw new BadRequestException('Unauthorized');
-    }
-  }
+    private ledger: LedgerService,
+    private ewsRules: EWSRulesService,
+    private approvals: AdminApprovalsService,
+    private billRouting: BillRoutingService,
+    private notifications: NotificationsService,
+  ) {}
 
   /**
-   * Get business float balance (money available to credit to customers). Requires admin secret.
+   * Get business float balance (money available to credit to customers).
    */
+  @RequirePermission('float:read')
   @Get('balance')
-  async getBusinessBalance(@Headers('authorization') authHeader: string) {
-    this.checkAdmin(authHeader);
+  async getBusinessBalance() {
     const row = await this.prisma.businessBalance.findUnique({
       where: { currency: 'NGN' },
     });
@@ -51,11 +66,11 @@ export class AdminController {
   }
 
   /**
-   * Get this server's public IP (for whitelisting in Paystack). Requires admin secret.
+   * Get this server's public IP (for whitelisting in Paystack).
    */
+  @RequirePermission('system:read')
   @Get('server-ip')
-  async getServerIp(@Headers('authorization') authHeader: string) {
-    this.checkAdmin(authHeader);
+  async getServerIp() {
     try {
       const res = await fetch('https://api.ipify.org?format=json', { signal: AbortSignal.timeout(5000) });
       const data = (await res.json()) as { ip?: string };
@@ -69,85 +84,189 @@ export class AdminController {
   }
 
   /**
-   * Top up business float. Record money received (e.g. bank transfer, cash) with a reference for accountability.
+   * Reconcile the ledger: every user Balance and the business float must match
+   * their ledger account, and each currency's entries must sum to zero.
    */
-  @Post('top-up')
-  async topUp(
-    @Headers('authorization') authHeader: string,
-    @Body() body: { amount: number; reference: string },
+  @RequirePermission('ledger:read')
+  @Get('ledger/reconcile')
+  async reconcileLedger() {
+    return this.ledger.reconcile();
+  }
+
+  /**
+   * List risk assessments, newest first, with the per-rule contributions behind each score.
+   * Filter by action ('review', 'hold', 'block') or userId.
+   */
+  @RequirePermission('risk:read')
+  @Get('risk-assessments')
+  async getRiskAssessments(
+    @Query('page') page: string = '1',
+    @Query('limit') limit: string = '20',
+    @Query('action') action?: string,
+    @Query('userId') userId?: string,
   ) {
-    this.checkAdmin(authHeader);
-    const { amount, reference } = body;
-    if (!amount || amount <= 0 || amount > 50000000) {
-      throw new BadRequestException('Amount must be between ₦1 and ₦50,000,000');
-    }
-    if (!reference || String(reference).trim().length === 0) {
-      throw new BadRequestException('Reference is required (e.g. bank ref, tx hash) for accountability');
-    }
-    const ref = String(reference).trim();
-    const topUpAmount = new Decimal(amount);
+    const pageNum = parseInt(page) || 1;
+    const limitNum = parseInt(limit) || 20;
+    const where = {
+      ...(action && { action }),
+      ...(userId && { userId }),
+    };
 
-    const updated = await this.prisma.$transaction(async (prisma) => {
-      const existing = await prisma.businessBalance.findUnique({
-        where: { currency: 'NGN' },
-      });
-      const before = existing ? new Decimal(existing.amount.toString()) : new Decimal(0);
-      const after = before.add(topUpAmount);
-      await prisma.businessBalance.upsert({
-        where: { currency: 'NGN' },
-        create: {
-          id: uuid(),
-          currency: 'NGN',
-          amount: after.toNumber(),
-          lastUpdatedBy: 'admin_top_up',
-          updatedAt: new Date(),
-        },
-        update: {
-          amount: after.toNumber(),
-          lastUpdatedBy: 'admin_top_up',
-          updatedAt: new Date(),
+    const [assessments, total] = await Promise.all([
+      this.prisma.riskAssessment.findMany({
+        where,
+        include: {
+          transaction: {
+            select: { reference: true, type: true, status: true },
+          },
         },
-      });
-      return { before, after };
-    });
+        orderBy: { createdAt: 'desc' },
+        take: limitNum,
+        skip: (pageNum - 1) * limitNum,
+      }),
+      this.prisma.riskAssessment.count({ where }),
+    ]);
 
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'ADMIN_TOP_UP',
-        userId: null,
-        actorType: 'admin',
-        metadata: {
-          amount: topUpAmount.toString(),
-          reference: ref,
-          currency: 'NGN',
-          before: updated.before.toString(),
-          after: updated.after.toString(),
-        },
-      },
+    return {
+      assessments,
+      total,
+      page: pageNum,
+      limit: limitNum,
+      totalPages: Math.ceil(total / limitNum),
+    };
+  }
+
+  /**
+   * List all EWS rules, active and inactive.
+   */
+  @RequirePermission('risk:read')
+  @Get('ews-rules')
+  async listEwsRules() {
+    return this.ewsRules.list();
+  }
+
+  /**
+   * Create an EWS rule. Takes effect on the next transfer scored.
+   */
+  @RequirePermission('risk:manage')
+  @Post('ews-rules')
+  async createEwsRule(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: EWSRuleInput,
+  ) {
+    return this.ewsRules.create(body, admin.adminId);
+  }
+
+  /**
+   * Preview a rule change against recent transfers without saving it.
+   * Pass ruleId to preview editing that rule, or a full rule to preview adding one.
+   */
+  @RequirePermission('risk:read')
+  @Post('ews-rules/dry-run')
+  async dryRunEwsRule(@Body() body: EWSRuleDryRunInput) {
+    return this.ewsRules.dryRun(body);
+  }
+
+  /**
+   * Update an EWS rule (any subset of fields).
+   */
+  @RequirePermission('risk:manage')
+  @Patch('ews-rules/:id')
+  async updateEwsRule(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: EWSRuleInput,
+  ) {
+    return this.ewsRules.update(id, body, admin.adminId);
+  }
+
+  /**
+   * Delete an EWS rule. Set isActive=false instead to keep it for later.
+   */
+  @RequirePermission('risk:manage')
+  @Delete('ews-rules/:id')
+  async deleteEwsRule(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+  ) {
+    return this.ewsRules.remove(id, admin.adminId);
+  }
+
+  /**
+   * Bill provider health per product (success rate and latency over the last
+   * `hours`, default 24), admin overrides, and the current routing order.
+   */
+  @RequirePermission('providers:read')
+  @Get('bill-providers')
+  async getBillProviders(@Query('hours') hours?: string) {
+    const h = Math.min(Math.max(Number(hours) || 24, 1), 24 * 30);
+    return this.billRouting.overview(h);
+  }
+
+  /**
+   * Pin, disable or reset a provider for one bill product.
+   * Body: { mode: 'auto' | 'pinned' | 'disabled' }
+   */
+  @RequirePermission('providers:manage')
+  @Patch('bill-providers/:product/:provider')
+  async setBillProviderMode(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('product') product: string,
+    @Param('provider') provider: string,
+    @Body() body: { mode: string },
+  ) {
+    return this.billRouting.setMode(
+      product,
+      provider,
+      body?.mode,
+      admin.adminId,
+    );
+  }
+
+  /**
+   * Why a transaction was scored the way it was.
+   */
+  @RequirePermission('risk:read')
+  @Get('transactions/:id/risk')
+  async getTransactionRisk(@Param('id') transactionId: string) {
+    const assessment = await this.prisma.riskAssessment.findUnique({
+      where: { transactionId },
     });
+    if (!assessment) {
+      throw new BadRequestException('No risk assessment for this transaction');
+    }
+    return assessment;
+  }
 
-    this.logger.log(`Admin topped up business float: ₦${amount}, reference: ${ref}`);
+  /**
+   * Propose a float top-up for money received outside Paystack (bank transfer, cash).
+   * The float is credited once a second admin approves it under admin/approvals.
+   */
+  @RequirePermission('float:manage')
+  @Post('top-up')
+  async topUp(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: FloatTopUpProposalInput,
+  ) {
+    const approval = await this.approvals.proposeFloatTopUp(admin, body);
     return {
       success: true,
-      message: `₦${amount.toLocaleString()} added to business float`,
-      data: {
-        reference: ref,
-        amount,
-        balanceBefore: updated.before.toFixed(2),
-        balanceAfter: updated.after.toFixed(2),
-      },
+      pendingApproval: true,
+      message:
+        'Top-up submitted. A second admin must approve it before the float is credited.',
+      approval,
     };
   }
 
   /**
    * Initialize Paystack payment to top up business float. Admin pays by card/bank; on success webhook credits BusinessBalance.
    */
+  @RequirePermission('float:manage')
   @Post('top-up-paystack')
   async topUpPaystack(
-    @Headers('authorization') authHeader: string,
+    @CurrentAdmin() admin: AdminPrincipal,
     @Body() body: { amount: number; reference?: string },
   ) {
-    this.checkAdmin(authHeader);
     const amount = body.amount;
     const note = typeof body.reference === 'string' ? body.reference.trim() : '';
 
@@ -170,6 +289,7 @@ export class AdminController {
         metadata: {
           type: 'admin_float_topup',
           note: note || undefined,
+          initiatedBy: admin.adminId,
         },
       },
     });
@@ -195,12 +315,12 @@ export class AdminController {
    * Use when webhook didn't fire or you returned from Paystack and balance didn't update.
    * Call with the reference from the redirect URL (ref=...) or from Paystack dashboard.
    */
+  @RequirePermission('float:manage')
   @Post('verify-float-payment')
   async verifyFloatPayment(
-    @Headers('authorization') authHeader: string,
+    @CurrentAdmin() admin: AdminPrincipal,
     @Body() body: { reference: string },
   ) {
-    this.checkAdmin(authHeader);
     const reference = typeof body.reference === 'string' ? body.reference.trim() : '';
     if (!reference) {
       throw new BadRequestException('Reference is required (e.g. from the URL after Paystack, or from Paystack dashboard)');
@@ -234,23 +354,14 @@ export class AdminController {
     const amount = new Decimal(verified.amount);
 
     await this.prisma.$transaction(async (tx) => {
-      const row = await tx.businessBalance.findUnique({
-        where: { currency: 'NGN' },
-      });
-      const before = row ? new Decimal(String(row.amount)) : new Decimal(0);
-      const after = before.add(amount);
-      await tx.businessBalance.upsert({
-        where: { currency: 'NGN' },
-        create: {
-          currency: 'NGN',
-          amount: after.toNumber(),
-          lastUpdatedBy: 'paystack_admin_float_verify',
-        },
-        update: {
-          amount: after.toNumber(),
-          lastUpdatedBy: 'paystack_admin_float_verify',
-        },
+      const posting = await this.ledger.transfer(tx, {
+        reference,
+        type: 'float_topup',
+        from: LedgerService.external('paystack'),
+        to: LedgerService.float(),
+        amount,
       });
+      const { before, after } = posting.balances[LedgerService.float()];
       await tx.transaction.update({
         where: { id: transaction.id },
         data: {
@@ -266,6 +377,7 @@ export class AdminController {
         action: 'ADMIN_FLOAT_TOPUP_VERIFIED',
         userId: null,
         actorType: 'admin',
+        actorId: admin.adminId,
         metadata: { reference, amount: amount.toString(), currency: 'NGN' },
       },
     });
@@ -279,142 +391,35 @@ export class AdminController {
   }
 
   /**
-   * Manually credit a user's wallet from business float (admin only). Deducts from float; fails if insufficient.
+   * Propose crediting a user's wallet from business float. Nothing moves until a second
+   * admin approves it under admin/approvals; the float is checked again at that point.
    */
+  @RequirePermission('wallet:credit')
   @Post('credit')
   async creditUser(
-    @Headers('authorization') authHeader: string,
-    @Body() body: { userId?: string; vuraTag?: string; amount: number; reason: string; currency?: string },
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: CreditProposalInput,
   ) {
-    this.checkAdmin(authHeader);
-
-    const { amount, reason, currency = 'NGN' } = body;
-
-    if (!amount || amount <= 0 || amount > 50000000) {
-      throw new BadRequestException('Amount must be between ₦1 and ₦50,000,000');
-    }
-
-    if (!reason) {
-      throw new BadRequestException('Reason is required');
-    }
-
-    let userId = body.userId;
-    if (!userId && body.vuraTag) {
-      const user = await this.prisma.user.findFirst({
-        where: { vuraTag: body.vuraTag },
-        select: { id: true },
-      });
-      if (!user) throw new BadRequestException('User not found with that vuraTag');
-      userId = user.id;
-    }
-
-    if (!userId) {
-      throw new BadRequestException('Provide userId or vuraTag');
-    }
-
-    const reference = `ADMIN-CREDIT-${uuid()}`;
-    const creditAmount = new Decimal(amount);
-
-    const result = await this.prisma.$transaction(async (prisma) => {
-      const float = await prisma.businessBalance.findUnique({
-        where: { currency: 'NGN' },
-      });
-      const floatBalance = float ? new Decimal(float.amount.toString()) : new Decimal(0);
-      if (floatBalance.lt(creditAmount)) {
-        throw new BadRequestException(
-          `Insufficient business balance. Available: ₦${floatBalance.toFixed(2)}. Top up first (Admin → Top up business float).`,
-        );
-      }
-      await prisma.businessBalance.update({
-        where: { currency: 'NGN' },
-        data: {
-          amount: floatBalance.minus(creditAmount).toNumber(),
-          lastUpdatedBy: 'admin_credit',
-          updatedAt: new Date(),
-        },
-      });
-
-      const balance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId, currency } },
-      });
-
-      const before = new Decimal(balance?.amount?.toString() ?? '0');
-      const after = before.add(creditAmount);
-
-      await prisma.balance.upsert({
-        where: { userId_currency: { userId, currency } },
-        create: { userId, currency, amount: after.toNumber(), lastUpdatedBy: 'admin_credit' },
-        update: { amount: after.toNumber(), lastUpdatedBy: 'admin_credit' },
-      });
-
-      const transaction = await prisma.transaction.create({
-        data: {
-          receiverId: userId,
-          amount: creditAmount.toNumber(),
-          currency,
-          type: 'deposit',
-          status: 'SUCCESS',
-          idempotencyKey: reference,
-          reference,
-          beforeBalance: before.toNumber(),
-          afterBalance: after.toNumber(),
-          metadata: { method: 'admin_credit', reason },
-        },
-      });
-
-      return { transaction, before, after };
-    });
-
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'ADMIN_CREDIT',
-        userId,
-        actorType: 'admin',
-        metadata: {
-          reference,
-          amount: creditAmount.toString(),
-          currency,
-          reason,
-          before: result.before.toString(),
-          after: result.after.toString(),
-        },
-      },
-    });
-
-    this.logger.log(`Admin credited ₦${amount} to ${userId}: ${reason}`);
-
+    const approval = await this.approvals.proposeCredit(admin, body);
     return {
       success: true,
-      message: `₦${amount.toLocaleString()} credited to user`,
-      data: {
-        reference,
-        userId,
-        amount,
-        balanceBefore: result.before.toFixed(2),
-        balanceAfter: result.after.toFixed(2),
-      },
+      pendingApproval: true,
+      message:
+        'Credit submitted. A second admin must approve it before the wallet is credited.',
+      approval,
     };
   }
 
   /**
-   * No-auth check: returns expected secret length so admin can verify they're hitting the right backend and typing the right length.
-   */
-  @Get('check')
-  async check() {
-    return { secretLength: this.adminSecret.length, message: 'Set ADMIN_SECRET on this backend (Render env) and enter it above.' };
-  }
-
-  /**
-   * Get all users with their KYC status. Requires admin secret in Authorization header.
+   * Get all users with their KYC status.
    */
+  @RequirePermission('users:read')
   @Get('users')
   async getUsers(
-    @Headers('authorization') authHeader: string,
     @Query('page') page: string = '1',
     @Query('limit') limit: string = '20',
     @Query('kycStatus') kycStatus?: string,
   ) {
-    this.checkAdmin(authHeader);
     const pageNum = parseInt(page) || 1;
     const limitNum = parseInt(limit) || 20;
     const skip = (pageNum - 1) * limitNum;
@@ -467,14 +472,11 @@ export class AdminController {
   }
 
   /**
-   * Get user details for admin review. Requires admin secret.
+   * Get user details for admin review.
    */
+  @RequirePermission('users:read')
   @Get('users/:id')
-  async getUserDetails(
-    @Headers('authorization') authHeader: string,
-    @Param('id') userId: string,
-  ) {
-    this.checkAdmin(authHeader);
+  async getUserDetails(@Param('id') userId: string) {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
       select: {
@@ -532,14 +534,13 @@ export class AdminController {
    * Use when BVN API (Prembly) is failing but you have verified the user (e.g. offline).
    * Sets kycTier=2, bvnVerified=true, legalFirstName, legalLastName so virtual account creation works.
    */
+  @RequirePermission('kyc:review')
   @Post('users/:id/set-tier-2')
   async setTier2(
-    @Headers('authorization') authHeader: string,
+    @CurrentAdmin() admin: AdminPrincipal,
     @Param('id') userId: string,
     @Body() body: { firstName: string; lastName: string; reason?: string },
   ) {
-    this.checkAdmin(authHeader);
-
     const firstName = (body.firstName || '').trim();
     const lastName = (body.lastName || '').trim();
     if (!firstName || !lastName) {
@@ -569,6 +570,7 @@ export class AdminController {
         action: 'ADMIN_SET_TIER_2',
         userId,
         actorType: 'admin',
+        actorId: admin.adminId,
         metadata: {
           reason: body.reason || 'Manual Tier 2 (BVN API unavailable or bypass)',
           legalFirstName: firstName,
@@ -586,15 +588,15 @@ export class AdminController {
   }
 
   /**
-   * Verify user's KYC (Tier 3). Requires admin secret.
+   * Verify user's KYC (Tier 3).
    */
+  @RequirePermission('kyc:review')
   @Post('users/:id/verify-kyc')
   async verifyKYC(
-    @Headers('authorization') authHeader: string,
+    @CurrentAdmin() admin: AdminPrincipal,
     @Param('id') userId: string,
     @Body() body: { tier?: number; notes?: string; firstName?: string; lastName?: string },
   ) {
-    this.checkAdmin(authHeader);
     const { tier = 3, notes, firstName, lastName } = body;
 
     const updateData: {
@@ -630,10 +632,19 @@ export class AdminController {
         action: 'KYC_VERIFIED_BY_ADMIN',
         userId,
         actorType: 'admin',
+        actorId: admin.adminId,
         metadata: { tier, notes, verifiedAt: new Date().toISOString() },
       },
     });
 
+    await this.notifications.notify({
+      userId,
+      type: 'kyc_approved',
+      title: 'Identity verified',
+      body: `Your identity has been verified. Your account is now on Tier ${tier}.`,
+      data: { tier },
+    });
+
     return {
       success: true,
       message: 'KYC verified successfully',
@@ -647,15 +658,15 @@ export class AdminController {
   }
 
   /**
-   * Reject user's KYC. Requires admin secret.
+   * Reject user's KYC.
    */
+  @RequirePermission('kyc:review')
   @Post('users/:id/reject-kyc')
   async rejectKYC(
-    @Headers('authorization') authHeader: string,
+    @CurrentAdmin() admin: AdminPrincipal,
     @Param('id') userId: string,
     @Body() body: { reason: string },
   ) {
-    this.checkAdmin(authHeader);
     const { reason } = body;
 
     if (!reason) {
@@ -677,10 +688,18 @@ export class AdminController {
         action: 'KYC_REJECTED_BY_ADMIN',
         userId,
         actorType: 'admin',
+        actorId: admin.adminId,
         metadata: { reason, rejectedAt: new Date().toISOString() },
       },
     });
 
+    await this.notifications.notify({
+      userId,
+      type: 'kyc_rejected',
+      title: 'Verification unsuccessful',
+      body: `We couldn't verify your identity: ${reason}`,
+    });
+
     return {
       success: true,
       message: 'KYC rejected',
@@ -694,11 +713,11 @@ export class AdminController {
   }
 
   /**
-   * Get KYC statistics. Requires admin secret.
+   * Get KYC statistics.
    */
+  @RequirePermission('users:read')
   @Get('stats/kyc')
-  async getKYCStats(@Headers('authorization') authHeader: string) {
-    this.checkAdmin(authHeader);
+  async getKYCStats() {
     const [
       totalUsers,
       tier1Users,
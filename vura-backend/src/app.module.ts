@@ -24,6 +24,20 @@ import { PaymentRequestsModule } from './payment-requests/payment-requests.modul
 import { BankCodesModule } from './bank-codes/bank-codes.module';
 import { VirtualAccountsModule } from './virtual-accounts/virtual-accounts.module';
 import { FundingModule } from './funding/funding.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { AdminAuthModule } from './admin-auth/admin-auth.module';
+import { AdminApprovalsModule } from './admin-approvals/admin-approvals.module';
+import { ScheduledPaymentsModule } from './scheduled-payments/scheduled-payments.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { OutboxModule } from './outbox/outbox.module';
+import { MerchantWebhooksModule } from './merchant-webhooks/merchant-webhooks.module';
+import { PublicApiModule } from './public-api/public-api.module';
+import { PaymentLinksModule } from './payment-links/payment-links.module';
+import { SettlementsModule } from './settlements/settlements.module';
+import { RefundsModule } from './refunds/refunds.module';
+import { DisputesModule } from './disputes/disputes.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { SwapsModule } from './swaps/swaps.module';
 import { PaystackService } from './services/paystack.service';
 import { BankCodesService } from './services/bank-codes.service';
 import { CloudinaryService } from './services/cloudinary.service';
@@ -65,6 +79,20 @@ import { SecurityMiddleware } from './middleware/security.middleware';
     BankCodesModule,
     VirtualAccountsModule,
     FundingModule,
+    LedgerModule,
+    AdminAuthModule,
+    AdminApprovalsModule,
+    ScheduledPaymentsModule,
+    NotificationsModule,
+    OutboxModule,
+    MerchantWebhooksModule,
+    PublicApiModule,
+    PaymentLinksModule,
+    SettlementsModule,
+    RefundsModule,
+    DisputesModule,
+    ReconciliationModule,
+    SwapsModule,
   ],
   controllers: [
     AppController,
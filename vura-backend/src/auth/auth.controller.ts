@@ -2,33 +2,49 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
   UseGuards,
   Request,
+  BadRequestException,
 } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
+import type { Request as ExpressRequest } from 'express';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { AuthGuard } from './auth.guard';
-import { OTPService } from '../otp/otp.service';
+import { OTPService, UserOtpPurpose } from '../otp/otp.service';
+import { SessionContext, SessionsService } from './sessions.service';
+
+const RESENDABLE_PURPOSES: UserOtpPurpose[] = [
+  'device_verification',
+  'pin_reset',
+  'phone_verify',
+];
+
+function sessionContext(req: ExpressRequest): SessionContext {
+  return { ipAddress: req.ip, userAgent: req.get('User-Agent') };
+}
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private authService: AuthService,
     private otpService: OTPService,
+    private sessions: SessionsService,
   ) {}
 
   @Post('register')
-  register(@Body() dto: RegisterDto) {
-    return this.authService.register(dto);
+  register(@Body() dto: RegisterDto, @Request() req: ExpressRequest) {
+    return this.authService.register(dto, sessionContext(req));
   }
 
   @Throttle({ default: { limit: 5, ttl: 900000 } }) // 5 attempts per 15 minutes
   @Post('login')
-  login(@Body() dto: LoginDto) {
-    return this.authService.login(dto);
+  login(@Body() dto: LoginDto, @Request() req: ExpressRequest) {
+    return this.authService.login(dto, sessionContext(req));
   }
 
   // Verify device OTP for new device login
@@ -36,17 +52,69 @@ export class AuthController {
   @Post('verify-otp')
   verifyOtp(
     @Body() body: { vuraTag: string; otp: string; deviceFingerprint: string },
+    @Request() req: ExpressRequest,
   ) {
     return this.authService.verifyDeviceOtp(
       body.vuraTag,
       body.otp,
       body.deviceFingerprint,
+      sessionContext(req),
     );
   }
 
+  // Exchange a refresh token for a new token pair; the old refresh token
+  // stops working
+  @Throttle({ default: { limit: 30, ttl: 900000 } }) // 30 per 15 minutes
+  @Post('refresh')
+  refresh(
+    @Body() body: { refreshToken: string },
+    @Request() req: ExpressRequest,
+  ) {
+    return this.sessions.refresh(body.refreshToken, sessionContext(req));
+  }
+
+  @Post('logout')
+  async logout(@Body() body: { refreshToken: string }) {
+    await this.sessions.logout(body.refreshToken);
+    return { success: true };
+  }
+
+  // Signed-in devices for the settings page
+  @UseGuards(AuthGuard)
+  @Get('sessions')
+  async listSessions(
+    @Request() req: ExpressRequest & { user: { userId: string; sid: string } },
+  ) {
+    const data = await this.sessions.list(req.user.userId, req.user.sid);
+    return { success: true, data };
+  }
+
+  @UseGuards(AuthGuard)
+  @Post('sessions/revoke-others')
+  async revokeOtherSessions(
+    @Request() req: ExpressRequest & { user: { userId: string; sid: string } },
+  ) {
+    const result = await this.sessions.revokeAll(
+      req.user.userId,
+      'signed_out_others',
+      req.user.sid,
+    );
+    return { success: true, ...result };
+  }
+
+  @UseGuards(AuthGuard)
+  @Delete('sessions/:id')
+  async revokeSession(
+    @Request() req: ExpressRequest & { user: { userId: string; sid: string } },
+    @Param('id') id: string,
+  ) {
+    const result = await this.sessions.revoke(req.user.userId, id);
+    return { success: true, ...result };
+  }
+
   @UseGuards(AuthGuard)
   @Get('profile')
-  getProfile(@Request() req: any) {
+  getProfile(@Request() req: ExpressRequest & { user: { userId: string } }) {
     return this.authService.getProfile(req.user.userId);
   }
 
@@ -59,13 +127,13 @@ export class AuthController {
       return { success: false, message: 'User not found' };
     }
 
-    const otp = await this.otpService.createOTP(user.id, 'pin_reset');
-
-    // Send OTP via SMS
-    // TODO: Implement SMS service integration
+    const { delivery } = await this.otpService.sendOTP(user.id, 'pin_reset');
     return {
-      success: true,
-      message: 'OTP sent to your registered phone',
+      success: delivery.delivered,
+      ...this.authService.otpResponse(delivery),
+      ...(delivery.channel !== 'email' && {
+        maskedPhone: delivery.destination,
+      }),
     };
   }
 
@@ -103,36 +171,57 @@ export class AuthController {
   // Complete registration with OTP verification
   @Throttle({ default: { limit: 3, ttl: 300000 } }) // 3 attempts per 5 minutes
   @Post('complete-registration')
-  async completeRegistration(@Body() body: { pendingId: string; otp: string }) {
-    return this.authService.completeRegistration(body.pendingId, body.otp);
+  async completeRegistration(
+    @Body() body: { pendingId: string; otp: string },
+    @Request() req: ExpressRequest,
+  ) {
+    return this.authService.completeRegistration(
+      body.pendingId,
+      body.otp,
+      sessionContext(req),
+    );
   }
 
   // Resend OTP for registration or login
   @Throttle({ default: { limit: 3, ttl: 300000 } }) // 3 attempts per 5 minutes
   @Post('resend-otp')
-  async resendOtp(@Body() body: { email: string; purpose?: string }) {
-    const user = await this.authService.findByEmail(body.email);
+  async resendOtp(
+    @Body()
+    body: {
+      purpose?: string;
+      pendingId?: string;
+      vuraTag?: string;
+      email?: string;
+    },
+  ) {
+    const purpose = body.purpose || 'registration';
+    if (purpose === 'registration') {
+      if (!body.pendingId) {
+        throw new BadRequestException('pendingId is required');
+      }
+      return this.authService.resendRegistrationOtp(body.pendingId);
+    }
+    if (!RESENDABLE_PURPOSES.includes(purpose as UserOtpPurpose)) {
+      throw new BadRequestException('Invalid OTP purpose');
+    }
+
+    const user = body.vuraTag
+      ? await this.authService.findByVuraTag(body.vuraTag)
+      : body.email
+        ? await this.authService.findByEmail(body.email)
+        : null;
     if (!user) {
       return { success: false, message: 'User not found' };
     }
 
-    const purpose = body.purpose || 'registration';
-    const otp = await this.otpService.createOTP(
+    // Cooldown and hourly cap are enforced per user in sendOTP
+    const { delivery } = await this.otpService.sendOTP(
       user.id,
-      purpose as 'pin_reset' | 'phone_verify',
+      purpose as UserOtpPurpose,
     );
-
-    // Send email notification
-    await this.authService.sendOTPEmail(
-      user.id,
-      user.emailEncrypted || '',
-      otp,
-      purpose,
-    );
-
     return {
-      success: true,
-      message: 'OTP sent to your email',
+      success: delivery.delivered,
+      ...this.authService.otpResponse(delivery),
     };
   }
 }
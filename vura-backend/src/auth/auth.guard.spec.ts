@@ -0,0 +1,105 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import * as jwt from 'jsonwebtoken';
+import { PrismaService } from '../prisma.service';
+import { AuthGuard } from './auth.guard';
+import type { AccessClaims } from './sessions.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const JWT_SECRET = 'test-jwt-secret-0123456789abcdef0123';
+const CLAIMS: AccessClaims = { userId: 'user-1', vuraTag: 'ada', sid: 'sid-1' };
+
+/**
+ * Tokens are signed for real; the session lookup is a stub.
+ */
+describe('AuthGuard', () => {
+  let prisma: { session: { findUnique: jest.Mock; updateMany: jest.Mock } };
+  let guard: AuthGuard;
+
+  const context = (request: object) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+  const request = (claims: object = CLAIMS) => ({
+    headers: { authorization: `Bearer ${jwt.sign(claims, JWT_SECRET)}` },
+  });
+  const session = (overrides = {}) => ({
+    userId: 'user-1',
+    isRevoked: false,
+    expiresAt: new Date(Date.now() + 60_000),
+    lastActiveAt: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = JWT_SECRET;
+  });
+
+  beforeEach(() => {
+    prisma = {
+      session: {
+        findUnique: jest.fn().mockResolvedValue(session()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    guard = new AuthGuard(prisma as unknown as PrismaService);
+  });
+
+  it('attaches the claims of a token whose session is live', async () => {
+    const req: ReturnType<typeof request> & { user?: AccessClaims } = request();
+
+    await expect(guard.canActivate(context(req))).resolves.toBe(true);
+
+    expect(prisma.session.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'sid-1' } }),
+    );
+    expect(req.user).toMatchObject(CLAIMS);
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('records activity on a session idle for over a minute', async () => {
+    prisma.session.findUnique.mockResolvedValue(
+      session({ lastActiveAt: new Date(Date.now() - 5 * 60_000) }),
+    );
+
+    await guard.canActivate(context(request()));
+
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sid-1' },
+      data: { lastActiveAt: expect.any(Date) as Date },
+    });
+  });
+
+  it.each([
+    ['revoked', session({ isRevoked: true })],
+    ['expired', session({ expiresAt: new Date(Date.now() - 1000) })],
+    ['missing', null],
+    ["another user's", session({ userId: 'user-2' })],
+  ])('refuses a token for a %s session', async (_label, row) => {
+    prisma.session.findUnique.mockResolvedValue(row);
+
+    await expect(guard.canActivate(context(request()))).rejects.toThrow(
+      new UnauthorizedException('Session expired. Please log in again'),
+    );
+  });
+
+  it('refuses a token issued before sessions were tracked', async () => {
+    await expect(
+      guard.canActivate(context(request({ userId: 'user-1', vuraTag: 'ada' }))),
+    ).rejects.toThrow('Session expired');
+    expect(prisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses a token signed with another key', async () => {
+    const req = {
+      headers: {
+        authorization: `Bearer ${jwt.sign(CLAIMS, 'another-secret-0123456789abcdef01')}`,
+      },
+    };
+
+    await expect(guard.canActivate(context(req))).rejects.toThrow(
+      'Invalid token',
+    );
+  });
+});
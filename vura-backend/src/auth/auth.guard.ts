@@ -5,20 +5,21 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import * as jwt from 'jsonwebtoken';
+import { PrismaService } from '../prisma.service';
+import { AccessClaims, getJwtSecret } from './sessions.service';
 
+// lastActiveAt is only written when older than this, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Accepts user access tokens and checks the session they belong to, so a
+ * signed-out device or a PIN reset takes effect before the token expires.
+ */
 @Injectable()
 export class AuthGuard implements CanActivate {
-  private getJwtSecret(): string {
-    const secret = process.env.JWT_SECRET;
-    if (!secret || secret.length < 32) {
-      throw new Error(
-        'JWT_SECRET environment variable must be at least 32 characters',
-      );
-    }
-    return secret;
-  }
+  constructor(private prisma: PrismaService) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers.authorization;
 
@@ -28,13 +29,48 @@ export class AuthGuard implements CanActivate {
 
     const token = authHeader.split(' ')[1];
 
+    let decoded: AccessClaims;
     try {
-      const secret = this.getJwtSecret();
-      const decoded = jwt.verify(token, secret);
-      request.user = decoded;
-      return true;
+      decoded = jwt.verify(token, getJwtSecret()) as AccessClaims;
     } catch (error) {
       throw new UnauthorizedException('Invalid token');
     }
+
+    // Tokens issued before sessions were tracked have no sid
+    if (!decoded.sid) {
+      throw new UnauthorizedException('Session expired. Please log in again');
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: decoded.sid },
+      select: {
+        userId: true,
+        isRevoked: true,
+        expiresAt: true,
+        lastActiveAt: true,
+      },
+    });
+    if (
+      !session ||
+      session.userId !== decoded.userId ||
+      session.isRevoked ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new UnauthorizedException('Session expired. Please log in again');
+    }
+
+    const idleMs = Date.now() - session.lastActiveAt.getTime();
+    if (idleMs > ACTIVITY_WRITE_INTERVAL_MS) {
+      // "Last seen" is informational; never fail the request over it
+      await this.prisma.session
+        .updateMany({
+          where: { id: decoded.sid },
+          data: { lastActiveAt: new Date() },
+        })
+        .catch(() => undefined);
+    }
+
+    request.user = decoded;
+    return true;
   }
 }
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { AuthGuard } from './auth.guard';
-import { OTPService } from '../otp/otp.service';
+import { SessionsService } from './sessions.service';
+import { OTPModule } from '../otp/otp.module';
 import { PrismaService } from '../prisma.service';
-import { EmailService } from '../services/email.service';
 
 @Module({
+  imports: [OTPModule],
   controllers: [AuthController],
-  providers: [AuthService, OTPService, AuthGuard, PrismaService, EmailService],
-  exports: [AuthService, AuthGuard],
+  providers: [AuthService, SessionsService, AuthGuard, PrismaService],
+  exports: [AuthService, SessionsService, AuthGuard],
 })
 export class AuthModule {}
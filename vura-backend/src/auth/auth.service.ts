@@ -2,10 +2,10 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  HttpException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import * as bcrypt from 'bcrypt';
-import * as jwt from 'jsonwebtoken';
 import {
   encrypt,
   decrypt,
@@ -14,16 +14,26 @@ import {
 } from '../utils/encryption';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { EmailService } from '../services/email.service';
+import { SessionContext, SessionsService } from './sessions.service';
+import { OTPService } from '../otp/otp.service';
+import {
+  OtpDeliveryOutcome,
+  OtpDeliveryService,
+} from '../otp/otp-delivery.service';
+
+// Pending registrations and their codes expire together
+const REGISTRATION_OTP_MINUTES = 10;
 
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
-    private emailService: EmailService,
+    private sessions: SessionsService,
+    private otpService: OTPService,
+    private otpDelivery: OtpDeliveryService,
   ) {}
 
-  async register(dto: RegisterDto) {
+  async register(dto: RegisterDto, context: SessionContext = {}) {
     const { phone, email, pin, vuraTag } = dto;
 
     const bypassOtpEmail = process.env.BYPASS_OTP_EMAIL === 'true';
@@ -96,7 +106,7 @@ export class AuthService {
         ],
       });
 
-      const token = this.generateToken(user.id, user.vuraTag);
+      const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
 
       return {
         user: {
@@ -104,7 +114,7 @@ export class AuthService {
           vuraTag: user.vuraTag,
           kycTier: user.kycTier,
         },
-        token,
+        ...tokens,
       };
     }
 
@@ -113,7 +123,9 @@ export class AuthService {
       // Generate OTP and store it temporarily
       const otp = this.generateOtp();
       const otpHash = await bcrypt.hash(otp, 10);
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+      const expiresAt = new Date(
+        Date.now() + REGISTRATION_OTP_MINUTES * 60 * 1000,
+      );
 
       // Store pending registration with OTP
       const pendingRegistration = await this.prisma.pendingRegistration.create({
@@ -127,25 +139,26 @@ export class AuthService {
         },
       });
 
-      // Send OTP email (if configured). If BYPASS_OTP_EMAIL=true, expose OTP in response.
-      let otpDelivered = false;
-      if (email && this.emailService.isEmailEnabled()) {
-        otpDelivered = await this.emailService.sendRegistrationOtp(
-          pendingRegistration.id,
-          otp,
-          { browser: 'Unknown', os: 'Unknown' },
-        );
-      }
+      // Send OTP by SMS/WhatsApp/email. If BYPASS_OTP_EMAIL=true, expose OTP in response.
+      const delivery = await this.otpDelivery.deliver(
+        {
+          subjectId: pendingRegistration.id,
+          phone: normalizedPhone,
+          email,
+          vuraTag,
+        },
+        'registration',
+        otp,
+        REGISTRATION_OTP_MINUTES,
+      );
 
       const response: Record<string, any> = {
         requiresVerification: true,
-        method: 'email_otp',
-        message:
-          'Please check your email for verification code to complete registration',
+        ...this.otpResponse(delivery),
         pendingId: pendingRegistration.id,
       };
 
-      if (bypassOtpEmail && !otpDelivered) {
+      if (bypassOtpEmail && !delivery.delivered) {
         response.otp = otp;
         response.message =
           'Email bypass enabled: use the OTP from this response to complete registration';
@@ -173,7 +186,7 @@ export class AuthService {
       });
 
       // Generate JWT
-      const token = this.generateToken(user.id, user.vuraTag);
+      const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
 
       return {
         user: {
@@ -181,7 +194,7 @@ export class AuthService {
           vuraTag: user.vuraTag,
           kycTier: user.kycTier,
         },
-        token,
+        ...tokens,
       };
     }
   }
@@ -189,7 +202,11 @@ export class AuthService {
   /**
    * Complete registration with OTP verification
    */
-  async completeRegistration(pendingId: string, otp: string) {
+  async completeRegistration(
+    pendingId: string,
+    otp: string,
+    context: SessionContext = {},
+  ) {
     const pendingRegistration =
       await this.prisma.pendingRegistration.findUnique({
         where: { id: pendingId },
@@ -244,7 +261,7 @@ export class AuthService {
     });
 
     // Generate JWT
-    const token = this.generateToken(user.id, user.vuraTag);
+    const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
 
     return {
       user: {
@@ -252,12 +269,13 @@ export class AuthService {
         vuraTag: user.vuraTag,
         kycTier: user.kycTier,
       },
-      token,
+      ...tokens,
     };
   }
 
-  async login(dto: LoginDto) {
+  async login(dto: LoginDto, requestContext: SessionContext = {}) {
     const { vuraTag, pin, deviceFingerprint } = dto;
+    const context = { ...requestContext, deviceFingerprint };
 
     const bypassOtpEmail = process.env.BYPASS_OTP_EMAIL === 'true';
     const disableOtpVerification =
@@ -314,14 +332,14 @@ export class AuthService {
         },
       });
 
-      const token = this.generateToken(user.id, user.vuraTag);
+      const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
       return {
         user: {
           id: user.id,
           vuraTag: user.vuraTag,
           kycTier: user.kycTier,
         },
-        token,
+        ...tokens,
       };
     }
 
@@ -332,41 +350,35 @@ export class AuthService {
     );
 
     if (isNewDevice === 'new_device') {
-      // Generate and send OTP
-      const otp = this.generateOtp();
-      const otpHash = await bcrypt.hash(otp, 10);
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-      // Store OTP in database
-      await this.prisma.oTP.create({
-        data: {
-          userId: user.id,
-          otpHash,
-          purpose: 'device_verification',
-          expiresAt,
-        },
-      });
-
-      // Send OTP email (if configured). If BYPASS_OTP_EMAIL=true, expose OTP in response.
-      let otpDelivered = false;
-      if (this.emailService.isEmailEnabled()) {
-        const deviceInfo = this.parseDeviceFingerprint(deviceFingerprint);
-        otpDelivered = await this.emailService.sendDeviceVerificationOtp(
+      // Send OTP by SMS/WhatsApp/email. If BYPASS_OTP_EMAIL=true, expose OTP in response.
+      let sent: Awaited<ReturnType<OTPService['sendOTP']>>;
+      try {
+        sent = await this.otpService.sendOTP(
           user.id,
-          otp,
-          deviceInfo,
+          'device_verification',
+          this.parseDeviceFingerprint(deviceFingerprint),
         );
+      } catch (error) {
+        // Inside the resend cooldown the last code is still valid
+        if (error instanceof HttpException && error.getStatus() === 429) {
+          return {
+            requiresVerification: true,
+            method: 'otp',
+            message:
+              'We sent you a code moments ago. Enter it to continue, or request a new one shortly',
+          };
+        }
+        throw error;
       }
 
       // Return pending verification response
       const response: Record<string, any> = {
         requiresVerification: true,
-        method: 'email_otp',
-        message: 'Please check your email for verification code',
+        ...this.otpResponse(sent.delivery),
       };
 
-      if (bypassOtpEmail && !otpDelivered) {
-        response.otp = otp;
+      if (bypassOtpEmail && !sent.delivery.delivered) {
+        response.otp = sent.otp;
         response.message =
           'Email bypass enabled: use the OTP from this response to complete login';
       }
@@ -386,7 +398,7 @@ export class AuthService {
     });
 
     // Generate JWT
-    const token = this.generateToken(user.id, user.vuraTag);
+    const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
 
     return {
       user: {
@@ -394,7 +406,7 @@ export class AuthService {
         vuraTag: user.vuraTag,
         kycTier: user.kycTier,
       },
-      token,
+      ...tokens,
     };
   }
 
@@ -459,40 +471,72 @@ export class AuthService {
   }
 
   /**
-   * Send OTP email
+   * Send a fresh code for a pending registration, replacing the old one
    */
-  async sendOTPEmail(
-    userId: string,
-    emailEncrypted: string,
-    otp: string,
-    purpose: string,
-  ) {
-    // Decrypt the email
-    const email = decrypt(emailEncrypted);
-
-    if (!email) {
-      throw new BadRequestException('No email provided for OTP');
+  async resendRegistrationOtp(pendingId: string) {
+    const pending = await this.prisma.pendingRegistration.findUnique({
+      where: { id: pendingId },
+    });
+    if (!pending) {
+      throw new BadRequestException('Invalid registration request');
     }
 
-    // Parse device info from context or use defaults
-    const deviceInfo = {
-      browser: 'Unknown',
-      os: 'Unknown',
-      ip: 'Unknown',
+    const slotId = await this.otpDelivery.reserveSend(
+      pendingId,
+      'registration',
+    );
+
+    const otp = this.generateOtp();
+    await this.prisma.pendingRegistration.update({
+      where: { id: pendingId },
+      data: {
+        otpHash: await bcrypt.hash(otp, 10),
+        otpAttempts: 0,
+        expiresAt: new Date(Date.now() + REGISTRATION_OTP_MINUTES * 60 * 1000),
+      },
+    });
+
+    const delivery = await this.otpDelivery.deliver(
+      {
+        subjectId: pendingId,
+        phone: decrypt(pending.phoneEncrypted),
+        email: pending.emailEncrypted ? decrypt(pending.emailEncrypted) : null,
+        vuraTag: pending.vuraTag,
+      },
+      'registration',
+      otp,
+      REGISTRATION_OTP_MINUTES,
+      undefined,
+      slotId,
+    );
+
+    const response: Record<string, any> = {
+      success: true,
+      ...this.otpResponse(delivery),
     };
+    if (process.env.BYPASS_OTP_EMAIL === 'true' && !delivery.delivered) {
+      response.otp = otp;
+    }
+    return response;
+  }
 
-    // Send OTP email based on purpose
-    if (purpose === 'registration') {
-      await this.emailService.sendRegistrationOtp(userId, otp, deviceInfo);
-    } else if (purpose === 'device_verification') {
-      await this.emailService.sendDeviceVerificationOtp(
-        userId,
-        otp,
-        deviceInfo,
-      );
-    } else {
-      throw new BadRequestException('Invalid OTP purpose');
+  /**
+   * `method` and `message` for a response that asks the user for an OTP
+   */
+  otpResponse(delivery: OtpDeliveryOutcome) {
+    if (!delivery.delivered) {
+      return {
+        method: 'otp',
+        message: 'We could not send your code right now. Please try again',
+      };
     }
+    return {
+      method: `${delivery.channel}_otp`,
+      message:
+        delivery.channel === 'email'
+          ? `Enter the code we emailed to ${delivery.destination}`
+          : `Enter the code we sent to ${delivery.destination}`,
+    };
   }
 
   /**
@@ -527,28 +571,7 @@ export class AuthService {
    * Revoke all user sessions
    */
   async revokeAllUserSessions(userId: string): Promise<void> {
-    await this.prisma.session.updateMany({
-      where: {
-        userId,
-        isRevoked: false,
-      },
-      data: {
-        isRevoked: true,
-        revokedAt: new Date(),
-      },
-    });
-  }
-
-  private generateToken(userId: string, vuraTag: string): string {
-    const secret = process.env.JWT_SECRET;
-    if (!secret || secret.length < 32) {
-      throw new Error(
-        'JWT_SECRET environment variable must be at least 32 characters',
-      );
-    }
-    const expiresIn = (process.env.JWT_EXPIRES_IN ||
-      '24h') as jwt.SignOptions['expiresIn'];
-    return jwt.sign({ userId, vuraTag }, secret, { expiresIn });
+    await this.sessions.revokeAll(userId, 'pin_reset');
   }
 
   /**
@@ -636,7 +659,9 @@ export class AuthService {
     vuraTag: string,
     otp: string,
     deviceFingerprint: string,
+    requestContext: SessionContext = {},
   ): Promise<any> {
+    const context = { ...requestContext, deviceFingerprint };
     const user = await this.prisma.user.findUnique({
       where: { vuraTag },
     });
@@ -645,38 +670,15 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Find valid OTP
-    const otpRecord = await this.prisma.oTP.findFirst({
-      where: {
-        userId: user.id,
-        purpose: 'device_verification',
-        used: false,
-        expiresAt: { gt: new Date() },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    if (!otpRecord) {
-      throw new UnauthorizedException('OTP expired or invalid');
-    }
-
-    // Verify OTP
-    const otpValid = await bcrypt.compare(otp, otpRecord.otpHash);
+    const otpValid = await this.otpService.verifyOTP(
+      user.id,
+      otp,
+      'device_verification',
+    );
     if (!otpValid) {
-      // Increment attempts
-      await this.prisma.oTP.update({
-        where: { id: otpRecord.id },
-        data: { attempts: { increment: 1 } },
-      });
       throw new UnauthorizedException('Invalid OTP');
     }
 
-    // Mark OTP as used
-    await this.prisma.oTP.update({
-      where: { id: otpRecord.id },
-      data: { used: true },
-    });
-
     // Update user device and login info
     await this.prisma.user.update({
       where: { id: user.id },
@@ -689,7 +691,7 @@ export class AuthService {
     });
 
     // Generate JWT
-    const token = this.generateToken(user.id, user.vuraTag);
+    const tokens = await this.sessions.issue(user.id, user.vuraTag, context);
 
     return {
       user: {
@@ -697,7 +699,7 @@ export class AuthService {
         vuraTag: user.vuraTag,
         kycTier: user.kycTier,
       },
-      token,
+      ...tokens,
     };
   }
 }
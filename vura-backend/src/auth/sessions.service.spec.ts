@@ -0,0 +1,196 @@
+import { UnauthorizedException } from '@nestjs/common';
+import type { Session } from '@prisma/client';
+import { createHash } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { PrismaService } from '../prisma.service';
+import { AccessClaims, SessionsService } from './sessions.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'session-1' }));
+
+const USER = 'user-1';
+const JWT_SECRET = 'test-jwt-secret-0123456789abcdef0123';
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+// The session fields a refresh compares and swaps on
+interface SessionWhere {
+  id: string;
+  tokenHash?: string;
+  isRevoked?: boolean;
+}
+
+/**
+ * The database is a stub holding one session row in `stored`; updateMany
+ * only applies while the row matches its conditions, as the compare-and-swap
+ * on the token hash relies on.
+ */
+describe('SessionsService', () => {
+  let stored: Session | null;
+  let prisma: {
+    session: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    auditLog: { create: jest.Mock };
+  };
+  let sessions: SessionsService;
+
+  const withUser = () =>
+    Promise.resolve(stored && { ...stored, user: { vuraTag: 'ada' } });
+  const auditActions = () =>
+    (prisma.auditLog.create.mock.calls as [{ data: { action: string } }][]).map(
+      ([args]) => args.data.action,
+    );
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = JWT_SECRET;
+  });
+
+  beforeEach(() => {
+    stored = null;
+    prisma = {
+      session: {
+        create: jest.fn(({ data }: { data: Partial<Session> }) => {
+          stored = {
+            isRevoked: false,
+            revokedAt: null,
+            revokedReason: null,
+            previousTokenHash: null,
+            rotatedAt: null,
+            lastActiveAt: new Date(),
+            createdAt: new Date(),
+            ...data,
+          } as Session;
+          return Promise.resolve(stored);
+        }),
+        findUnique: jest.fn(withUser),
+        findUniqueOrThrow: jest.fn(withUser),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: SessionWhere;
+            data: Partial<Session>;
+          }) => {
+            const matches =
+              !!stored &&
+              stored.id === where.id &&
+              (where.tokenHash === undefined ||
+                stored.tokenHash === where.tokenHash) &&
+              (where.isRevoked === undefined ||
+                stored.isRevoked === where.isRevoked);
+            if (matches) stored = { ...stored!, ...data };
+            return Promise.resolve({ count: matches ? 1 : 0 });
+          },
+        ),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    sessions = new SessionsService(prisma as unknown as PrismaService);
+  });
+
+  afterEach(() => {
+    delete process.env.REFRESH_TOKEN_GRACE_SECONDS;
+  });
+
+  it('issues an access token tied to the session and stores only a hash', async () => {
+    const tokens = await sessions.issue(USER, 'ada');
+
+    const [id, secret] = tokens.refreshToken.split('.');
+    expect(id).toBe('session-1');
+    expect(stored?.tokenHash).toBe(sha256(secret));
+    expect(jwt.verify(tokens.token, JWT_SECRET)).toMatchObject({
+      userId: USER,
+      vuraTag: 'ada',
+      sid: 'session-1',
+    } satisfies AccessClaims);
+  });
+
+  describe('refresh', () => {
+    it('rotates the refresh token', async () => {
+      const first = await sessions.issue(USER, 'ada');
+
+      const second = await sessions.refresh(first.refreshToken);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(stored).toMatchObject({
+        tokenHash: sha256(second.refreshToken.split('.')[1]),
+        previousTokenHash: sha256(first.refreshToken.split('.')[1]),
+        isRevoked: false,
+      });
+      const third = await sessions.refresh(second.refreshToken);
+      expect(jwt.verify(third.token, JWT_SECRET)).toMatchObject({
+        sid: 'session-1',
+      });
+    });
+
+    it('gives a second tab refreshing the same token the same new token', async () => {
+      const first = await sessions.issue(USER, 'ada');
+
+      const [a, b] = await Promise.all([
+        sessions.refresh(first.refreshToken),
+        sessions.refresh(first.refreshToken),
+      ]);
+
+      expect(b.refreshToken).toBe(a.refreshToken);
+      expect(stored?.isRevoked).toBe(false);
+      expect(auditActions()).toEqual([]);
+    });
+
+    it('revokes the session when a replaced token comes back after the grace period', async () => {
+      process.env.REFRESH_TOKEN_GRACE_SECONDS = '30';
+      const first = await sessions.issue(USER, 'ada');
+      const second = await sessions.refresh(first.refreshToken);
+      stored = { ...stored!, rotatedAt: new Date(Date.now() - 31_000) };
+
+      await expect(sessions.refresh(first.refreshToken)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+
+      expect(stored).toMatchObject({
+        isRevoked: true,
+        revokedReason: 'refresh_reuse',
+      });
+      expect(auditActions()).toEqual(['SESSION_REFRESH_REUSE']);
+      // The legitimate holder is signed out too
+      await expect(sessions.refresh(second.refreshToken)).rejects.toThrow(
+        'Session expired',
+      );
+    });
+
+    it('revokes the session when a token older than the last one comes back', async () => {
+      const first = await sessions.issue(USER, 'ada');
+      const second = await sessions.refresh(first.refreshToken);
+      await sessions.refresh(second.refreshToken);
+
+      await expect(sessions.refresh(first.refreshToken)).rejects.toThrow(
+        'Session expired',
+      );
+      expect(stored?.revokedReason).toBe('refresh_reuse');
+    });
+
+    it.each([
+      ['revoked', { isRevoked: true }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+    ])('refuses a %s session', async (_label, overrides) => {
+      const first = await sessions.issue(USER, 'ada');
+      stored = { ...stored!, ...overrides };
+
+      await expect(sessions.refresh(first.refreshToken)).rejects.toThrow(
+        'Session expired',
+      );
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses a malformed token', async () => {
+      await expect(sessions.refresh('not-a-token')).rejects.toThrow(
+        'Invalid refresh token',
+      );
+    });
+  });
+});
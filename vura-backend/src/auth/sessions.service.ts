@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as jwt from 'jsonwebtoken';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { v4 as uuid } from 'uuid';
+import type { Session } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+
+/** Where a login or refresh came from, recorded on the session */
+export interface SessionContext {
+  deviceFingerprint?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/** Claims in a user access token. `sid` ties it to a Session row. */
+export interface AccessClaims {
+  userId: string;
+  vuraTag: string;
+  sid: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+const DEFAULT_ACCESS_TTL = '15m';
+const DEFAULT_REFRESH_TTL_DAYS = 30;
+const DEFAULT_REFRESH_GRACE_SECONDS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      'JWT_SECRET environment variable must be at least 32 characters',
+    );
+  }
+  return secret;
+}
+
+/**
+ * Device sessions for users: short-lived access tokens plus a rotating
+ * refresh token per session.
+ *
+ * A refresh token is `<sessionId>.<secret>` and only the secret's hash is
+ * stored. Each refresh swaps in a new secret, so presenting an older one
+ * means the token was copied; the session is revoked and both holders have
+ * to sign in again.
+ *
+ * The exception is the token the last refresh replaced, for a few seconds
+ * (REFRESH_TOKEN_GRACE_SECONDS): two tabs refreshing with the same token at
+ * once is not theft. The next secret is derived from the one presented, so
+ * the late tab gets the same new token as the first rather than forking
+ * the session.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Open a session for a completed login and return its first token pair
+   */
+  async issue(
+    userId: string,
+    vuraTag: string,
+    context: SessionContext = {},
+  ): Promise<SessionTokens> {
+    const id = uuid();
+    const secret = this.newSecret();
+
+    await this.prisma.session.create({
+      data: {
+        id,
+        userId,
+        tokenHash: this.hash(secret),
+        deviceFingerprint: context.deviceFingerprint,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent?.slice(0, 500),
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return this.tokens({ userId, vuraTag, sid: id }, `${id}.${secret}`);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<SessionTokens> {
+    const [id, secret] = String(refreshToken ?? '').split('.');
+    if (!id || !secret) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      include: { user: { select: { vuraTag: true } } },
+    });
+    if (!session || session.isRevoked || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Session expired. Please log in again');
+    }
+
+    const presented = this.hash(secret);
+    const next = this.nextSecret(secret);
+    let current = session;
+    if (presented === session.tokenHash) {
+      // Compare-and-swap on the current hash so two refreshes with the same
+      // token cannot both rotate it
+      const { count } = await this.prisma.session.updateMany({
+        where: { id, tokenHash: presented, isRevoked: false },
+        data: {
+          tokenHash: this.hash(next),
+          previousTokenHash: presented,
+          rotatedAt: new Date(),
+          expiresAt: this.refreshExpiry(),
+          lastActiveAt: new Date(),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && {
+            userAgent: context.userAgent.slice(0, 500),
+          }),
+        },
+      });
+      if (count > 0) {
+        return this.tokens(
+          { userId: session.userId, vuraTag: session.user.vuraTag, sid: id },
+          `${id}.${next}`,
+        );
+      }
+      // A concurrent refresh rotated it first; see whether it is still ours
+      current = await this.prisma.session.findUniqueOrThrow({
+        where: { id },
+        include: { user: { select: { vuraTag: true } } },
+      });
+    }
+
+    if (!this.withinGrace(current, presented, next)) {
+      await this.revokeReused(session.id, session.userId, context);
+      throw new UnauthorizedException('Session expired. Please log in again');
+    }
+
+    return this.tokens(
+      { userId: session.userId, vuraTag: session.user.vuraTag, sid: id },
+      `${id}.${next}`,
+    );
+  }
+
+  /**
+   * Sign out the session a refresh token belongs to. Works after the access
+   * token has expired; unknown or stale tokens are ignored.
+   */
+  async logout(refreshToken: string) {
+    const [id, secret] = String(refreshToken ?? '').split('.');
+    if (!id || !secret) return;
+
+    const { count } = await this.prisma.session.updateMany({
+      where: { id, tokenHash: this.hash(secret), isRevoked: false },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: 'logout' },
+    });
+    if (count > 0) {
+      const { userId } = await this.prisma.session.findUniqueOrThrow({
+        where: { id },
+        select: { userId: true },
+      });
+      await this.audit('SESSION_REVOKED', userId, 'user', {
+        sessionId: id,
+        reason: 'logout',
+      });
+    }
+  }
+
+  /**
+   * Active sessions, most recently used first
+   */
+  async list(userId: string, currentSessionId?: string) {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, isRevoked: false, expiresAt: { gt: new Date() } },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+    return sessions.map((s) => ({
+      id: s.id,
+      device: describeDevice(s.userAgent),
+      userAgent: s.userAgent,
+      ipAddress: s.ipAddress,
+      lastActiveAt: s.lastActiveAt,
+      createdAt: s.createdAt,
+      current: s.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Sign one of the user's sessions out
+   */
+  async revoke(userId: string, sessionId: string, reason = 'signed_out') {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, isRevoked: false },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+    });
+    if (count === 0) throw new NotFoundException('Session not found');
+
+    await this.audit('SESSION_REVOKED', userId, 'user', { sessionId, reason });
+    return { revoked: 1 };
+  }
+
+  /**
+   * Sign the user out everywhere, or everywhere except `keepSessionId`
+   */
+  async revokeAll(userId: string, reason: string, keepSessionId?: string) {
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        userId,
+        isRevoked: false,
+        ...(keepSessionId && { id: { not: keepSessionId } }),
+      },
+      data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+    });
+    if (count > 0) {
+      await this.audit('SESSIONS_REVOKED', userId, 'user', {
+        reason,
+        count,
+        keptSessionId: keepSessionId ?? null,
+      });
+    }
+    return { revoked: count };
+  }
+
+  private async revokeReused(
+    sessionId: string,
+    userId: string,
+    context: SessionContext,
+  ) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, isRevoked: false },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: 'refresh_reuse',
+      },
+    });
+    await this.audit('SESSION_REFRESH_REUSE', userId, 'system', {
+      sessionId,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+    });
+    this.logger.warn(
+      `Refresh token reuse on session ${sessionId} for ${userId}; session revoked`,
+    );
+  }
+
+  /**
+   * The presented token is the one the last refresh replaced, that refresh
+   * was moments ago, and nothing has rotated the session since
+   */
+  private withinGrace(
+    session: Pick<
+      Session,
+      'isRevoked' | 'tokenHash' | 'previousTokenHash' | 'rotatedAt'
+    >,
+    presented: string,
+    next: string,
+  ): boolean {
+    const graceMs =
+      (Number(process.env.REFRESH_TOKEN_GRACE_SECONDS) ||
+        DEFAULT_REFRESH_GRACE_SECONDS) * 1000;
+    return (
+      !session.isRevoked &&
+      session.previousTokenHash === presented &&
+      session.tokenHash === this.hash(next) &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < graceMs
+    );
+  }
+
+  private tokens(claims: AccessClaims, refreshToken: string): SessionTokens {
+    const expiresIn = process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TTL;
+    return {
+      token: jwt.sign(claims, getJwtSecret(), {
+        expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+      }),
+      refreshToken,
+      expiresIn,
+    };
+  }
+
+  private refreshExpiry(): Date {
+    const days =
+      Number(process.env.REFRESH_TOKEN_TTL_DAYS) || DEFAULT_REFRESH_TTL_DAYS;
+    return new Date(Date.now() + days * DAY_MS);
+  }
+
+  private newSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * The secret a refresh replaces `secret` with. Keyed with the JWT secret,
+   * so only the server can work out the next token from the current one.
+   */
+  private nextSecret(secret: string): string {
+    return createHmac('sha256', getJwtSecret())
+      .update(`refresh:${secret}`)
+      .digest('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private audit(
+    action: string,
+    userId: string,
+    actorType: 'user' | 'system',
+    metadata: Record<string, string | number | null>,
+  ) {
+    return this.prisma.auditLog.create({
+      data: {
+        action,
+        userId,
+        actorType,
+        actorId: actorType === 'user' ? userId : undefined,
+        metadata,
+      },
+    });
+  }
+}
+
+/** "Chrome on Windows" from a User-Agent header, for the device list */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const ua = userAgent.toLowerCase();
+
+  let browser = 'Browser';
+  if (ua.includes('edg/')) browser = 'Edge';
+  else if (ua.includes('opr/') || ua.includes('opera')) browser = 'Opera';
+  else if (ua.includes('chrome')) browser = 'Chrome';
+  else if (ua.includes('firefox')) browser = 'Firefox';
+  else if (ua.includes('safari')) browser = 'Safari';
+
+  let os = '';
+  if (ua.includes('android')) os = 'Android';
+  else if (ua.includes('iphone') || ua.includes('ipad')) os = 'iOS';
+  else if (ua.includes('windows')) os = 'Windows';
+  else if (ua.includes('mac os')) os = 'macOS';
+  else if (ua.includes('linux')) os = 'Linux';
+
+  return os ? `${browser} on ${os}` : browser;
+}
@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { BillAutopayService } from './bill-autopay.service';
+import type {
+  BillAutopayInput,
+  SavedBillerInput,
+} from './bill-autopay.service';
+import { AuthGuard } from '../auth/auth.guard';
+
+@Controller('bills')
+@UseGuards(AuthGuard)
+export class BillAutopayController {
+  constructor(private autopay: BillAutopayService) {}
+
+  // ── Saved billers ───────────────────────────────────────────────────
+
+  /**
+   * Save a phone, meter or smartcard. Meters and smartcards are validated
+   * with the provider first.
+   */
+  @Post('billers')
+  async createBiller(
+    @Body() body: SavedBillerInput,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const biller = await this.autopay.createBiller(req.user.userId, body);
+    return { success: true, data: biller };
+  }
+
+  @Get('billers')
+  async listBillers(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const billers = await this.autopay.listBillers(req.user.userId);
+    return { success: true, data: billers };
+  }
+
+  @Delete('billers/:id')
+  async deleteBiller(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    await this.autopay.deleteBiller(req.user.userId, id);
+    return { success: true, message: 'Saved biller deleted' };
+  }
+
+  // ── Autopay ─────────────────────────────────────────────────────────
+
+  @Post('autopay')
+  async createAutopay(
+    @Body() body: BillAutopayInput,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const autopay = await this.autopay.createAutopay(req.user.userId, body);
+    return { success: true, data: autopay };
+  }
+
+  @Get('autopay')
+  async listAutopays(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const autopays = await this.autopay.listAutopays(req.user.userId);
+    return { success: true, data: autopays };
+  }
+
+  @Get('autopay/upcoming')
+  async upcoming(
+    @Query('days') days: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const window = Math.min(Math.max(Number(days) || 30, 1), 90);
+    const runs = await this.autopay.upcoming(req.user.userId, window);
+    return { success: true, data: runs };
+  }
+
+  @Post('autopay/:id/pause')
+  async pause(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const autopay = await this.autopay.pauseAutopay(req.user.userId, id);
+    return { success: true, data: autopay };
+  }
+
+  @Post('autopay/:id/resume')
+  async resume(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const autopay = await this.autopay.resumeAutopay(req.user.userId, id);
+    return { success: true, data: autopay };
+  }
+
+  @Delete('autopay/:id')
+  async cancel(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    await this.autopay.cancelAutopay(req.user.userId, id);
+    return { success: true, message: 'Autopay cancelled' };
+  }
+}
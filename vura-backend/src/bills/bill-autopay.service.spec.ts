@@ -0,0 +1,391 @@
+import { BadRequestException } from '@nestjs/common';
+import type { BillAutopay, SavedBiller } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { BillAutopayService } from './bill-autopay.service';
+import { BillsService } from './bills.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_AT = new Date('2026-03-01T08:00:00Z');
+
+type Autopay = BillAutopay & { biller: SavedBiller };
+
+// The fields the runner writes to an autopay
+interface Written {
+  dueAt?: Date;
+  nextRunAt?: Date;
+  retryCount?: number | { increment: number };
+  runCount?: { increment: number };
+  lastReference?: string | null;
+  lastError?: string | null;
+  lockedAt?: Date | null;
+}
+
+/**
+ * Purchases go through a mocked BillsService, which already refunds failed
+ * orders; these tests cover biller validation and what the runner does with
+ * each outcome.
+ */
+describe('BillAutopayService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    savedBiller: { findFirst: jest.Mock; create: jest.Mock };
+    billAutopay: {
+      create: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    transaction: { findFirst: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let bills: {
+    buyAirtime: jest.Mock;
+    buyCableTV: jest.Mock;
+    validateMeter: jest.Mock;
+    validateCableSmartcard: jest.Mock;
+    findCablePackage: jest.Mock;
+    findDataPlan: jest.Mock;
+  };
+  let service: BillAutopayService;
+
+  const biller = (overrides: Partial<SavedBiller> = {}): SavedBiller => ({
+    id: 'biller-1',
+    userId: USER,
+    billType: 'airtime',
+    nickname: 'My line',
+    serviceCode: 'MTN',
+    customerNumber: '08031234567',
+    productCode: null,
+    phoneNumber: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+  const autopay = (overrides: Partial<Autopay> = {}): Autopay => ({
+    id: 'autopay-1',
+    userId: USER,
+    billerId: 'biller-1',
+    amount: new Decimal(1000),
+    frequency: 'monthly',
+    status: 'ACTIVE',
+    startAt: DUE_AT,
+    dueAt: DUE_AT,
+    nextRunAt: DUE_AT,
+    retryCount: 0,
+    runCount: 0,
+    lastRunAt: null,
+    lastReference: null,
+    lastError: null,
+    lockedAt: null,
+    createdAt: DUE_AT,
+    updatedAt: DUE_AT,
+    biller: biller(),
+    ...overrides,
+  });
+  const lastUpdate = () =>
+    (prisma.billAutopay.update.mock.lastCall as [{ data: Written }])[0].data;
+  const reference = (attempt: number) =>
+    `AIRTIME-AUTO-autopay-1-${DUE_AT.getTime()}-${attempt}`;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      savedBiller: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }: { data: Partial<SavedBiller> }) =>
+          Promise.resolve(biller(data)),
+        ),
+      },
+      billAutopay: {
+        create: jest.fn(({ data }: { data: Partial<Autopay> }) =>
+          Promise.resolve(autopay(data)),
+        ),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      transaction: { findFirst: jest.fn().mockResolvedValue(null) },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    bills = {
+      buyAirtime: jest.fn().mockResolvedValue({ success: true }),
+      buyCableTV: jest.fn().mockResolvedValue({ success: true }),
+      validateMeter: jest.fn().mockResolvedValue({ success: true }),
+      validateCableSmartcard: jest.fn().mockResolvedValue({ success: true }),
+      findCablePackage: jest.fn().mockResolvedValue({ price: 10500 }),
+      findDataPlan: jest.fn().mockResolvedValue({ price: 1200 }),
+    };
+    service = new BillAutopayService(
+      prisma as unknown as PrismaService,
+      bills as unknown as BillsService,
+    );
+  });
+
+  describe('createBiller', () => {
+    it('checks a meter with the provider before saving it', async () => {
+      await service.createBiller(USER, {
+        billType: 'electricity',
+        serviceCode: 'IKEDC',
+        customerNumber: '45012345678',
+        productCode: 'prepaid',
+      });
+
+      expect(bills.validateMeter).toHaveBeenCalledWith({
+        meterNumber: '45012345678',
+        itemCode: 'IKEDC-prepaid',
+        billerCode: 'IKEDC',
+      });
+      expect(prisma.savedBiller.create).toHaveBeenCalled();
+    });
+
+    it('refuses a meter the provider does not recognise', async () => {
+      bills.validateMeter.mockResolvedValue({
+        success: false,
+        message: 'Invalid meter number',
+      });
+
+      await expect(
+        service.createBiller(USER, {
+          billType: 'electricity',
+          serviceCode: 'IKEDC',
+          customerNumber: '000',
+          productCode: 'prepaid',
+        }),
+      ).rejects.toThrow('Invalid meter number');
+      expect(prisma.savedBiller.create).not.toHaveBeenCalled();
+    });
+
+    it('checks a smartcard and its package', async () => {
+      await service.createBiller(USER, {
+        billType: 'cable',
+        serviceCode: 'DSTV',
+        customerNumber: '7012345678',
+        productCode: 'dstv-compact',
+      });
+
+      expect(bills.validateCableSmartcard).toHaveBeenCalledWith(
+        'dstv',
+        '7012345678',
+      );
+      expect(bills.findCablePackage).toHaveBeenCalledWith(
+        'dstv',
+        'dstv-compact',
+      );
+    });
+
+    it('refuses an invalid phone number for airtime', async () => {
+      await expect(
+        service.createBiller(USER, {
+          billType: 'airtime',
+          serviceCode: 'MTN',
+          customerNumber: '12345',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('returns the existing biller instead of saving it twice', async () => {
+      const existing = biller();
+      prisma.savedBiller.findFirst.mockResolvedValue(existing);
+
+      const res = await service.createBiller(USER, {
+        billType: 'airtime',
+        serviceCode: 'MTN',
+        customerNumber: '08031234567',
+      });
+
+      expect(res).toBe(existing);
+      expect(prisma.savedBiller.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createAutopay', () => {
+    const startAt = new Date(Date.now() + DAY_MS).toISOString();
+
+    it('charges cable at the package price, not the amount sent', async () => {
+      prisma.savedBiller.findFirst.mockResolvedValue(
+        biller({
+          billType: 'cable',
+          serviceCode: 'DSTV',
+          productCode: 'dstv-compact',
+        }),
+      );
+
+      const res = await service.createAutopay(USER, {
+        billerId: 'biller-1',
+        amount: 1,
+        frequency: 'monthly',
+        startAt,
+      });
+
+      expect(res.amount).toBe(10500);
+    });
+
+    it('refuses an airtime amount out of range', async () => {
+      prisma.savedBiller.findFirst.mockResolvedValue(biller());
+
+      await expect(
+        service.createAutopay(USER, {
+          billerId: 'biller-1',
+          amount: 10,
+          frequency: 'monthly',
+          startAt,
+        }),
+      ).rejects.toThrow('between ₦50 and ₦50,000');
+    });
+  });
+
+  describe('runDue', () => {
+    it('buys the bill and moves on to the next month', async () => {
+      prisma.billAutopay.findMany.mockResolvedValue([autopay()]);
+
+      await service.runDue();
+
+      expect(bills.buyAirtime).toHaveBeenCalledWith(
+        USER,
+        { phoneNumber: '08031234567', amount: 1000, network: 'MTN' },
+        reference(1),
+      );
+      expect(lastUpdate()).toMatchObject({
+        dueAt: new Date('2026-04-01T08:00:00Z'),
+        retryCount: 0,
+        runCount: { increment: 1 },
+        lastReference: reference(1),
+        lastError: null,
+        lockedAt: null,
+      });
+    });
+
+    it('buys cable with the saved package and contact phone', async () => {
+      prisma.billAutopay.findMany.mockResolvedValue([
+        autopay({
+          biller: biller({
+            billType: 'cable',
+            serviceCode: 'DSTV',
+            customerNumber: '7012345678',
+            productCode: 'dstv-compact',
+            phoneNumber: '08031234567',
+          }),
+        }),
+      ]);
+
+      await service.runDue();
+
+      expect(bills.buyCableTV).toHaveBeenCalledWith(
+        USER,
+        {
+          cableTv: 'DSTV',
+          packageCode: 'dstv-compact',
+          smartCardNo: '7012345678',
+          phoneNumber: '08031234567',
+        },
+        `CABLETV-AUTO-autopay-1-${DUE_AT.getTime()}-1`,
+      );
+    });
+
+    it('retries a failed purchase later with a fresh reference', async () => {
+      bills.buyAirtime.mockRejectedValue(
+        new BadRequestException('Insufficient balance'),
+      );
+      prisma.billAutopay.findMany.mockResolvedValue([autopay()]);
+
+      const before = Date.now();
+      await service.runDue();
+
+      const update = lastUpdate();
+      expect(update).toMatchObject({
+        retryCount: { increment: 1 },
+        lastError: 'Insufficient balance',
+      });
+      expect(update.nextRunAt!.getTime() - before).toBeGreaterThanOrEqual(
+        30 * 60 * 1000,
+      );
+      // Still the same occurrence
+      expect(update.dueAt).toBeUndefined();
+
+      prisma.billAutopay.findMany.mockResolvedValue([
+        autopay({ retryCount: 1 }),
+      ]);
+      await service.runDue();
+      expect(bills.buyAirtime).toHaveBeenLastCalledWith(
+        USER,
+        expect.anything(),
+        reference(2),
+      );
+    });
+
+    it('skips to the next occurrence once retries run out', async () => {
+      bills.buyAirtime.mockRejectedValue(new Error('Provider unavailable'));
+      prisma.billAutopay.findMany.mockResolvedValue([
+        autopay({ retryCount: 3, lastReference: 'OLD-REF' }),
+      ]);
+
+      await service.runDue();
+
+      expect(lastUpdate()).toMatchObject({
+        dueAt: new Date('2026-04-01T08:00:00Z'),
+        retryCount: 0,
+        lastReference: 'OLD-REF',
+        lastError: 'Provider unavailable',
+      });
+    });
+
+    it('does not buy again for a run that crashed before it was recorded', async () => {
+      prisma.billAutopay.findMany.mockResolvedValue([autopay()]);
+      prisma.transaction.findFirst.mockResolvedValue({ id: 'tx-0' });
+
+      await service.runDue();
+
+      expect(bills.buyAirtime).not.toHaveBeenCalled();
+      expect(lastUpdate()).toMatchObject({ lastReference: reference(1) });
+    });
+  });
+
+  describe('upcoming', () => {
+    it('lists every run inside the window, soonest first', async () => {
+      const first = new Date(Date.now() + DAY_MS);
+      prisma.billAutopay.findMany.mockResolvedValue([
+        autopay({
+          frequency: 'weekly',
+          startAt: first,
+          dueAt: first,
+          nextRunAt: first,
+        }),
+      ]);
+
+      const runs = await service.upcoming(USER, 30);
+
+      expect(runs).toHaveLength(5);
+      expect(runs[1].runAt.getTime() - runs[0].runAt.getTime()).toBe(
+        7 * DAY_MS,
+      );
+      expect(runs.every((r) => !r.retrying)).toBe(true);
+    });
+
+    it('marks the retry and schedules later runs from the original date', async () => {
+      const dueAt = new Date(Date.now() - 60 * 60 * 1000);
+      const retryAt = new Date(Date.now() + 60 * 60 * 1000);
+      prisma.billAutopay.findMany.mockResolvedValue([
+        autopay({
+          frequency: 'daily',
+          startAt: dueAt,
+          dueAt,
+          nextRunAt: retryAt,
+          retryCount: 1,
+        }),
+      ]);
+
+      const runs = await service.upcoming(USER, 2);
+
+      expect(runs.map((r) => r.retrying)).toEqual([true, false, false]);
+      expect(runs[1].runAt.getTime()).toBe(dueAt.getTime() + DAY_MS);
+    });
+  });
+});
@@ -0,0 +1,606 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { BillAutopay, SavedBiller } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { BillsService } from './bills.service';
+import { nextOccurrence } from '../scheduled-payments/scheduled-payments.service';
+
+export type BillType = 'airtime' | 'data' | 'cable' | 'electricity';
+export type AutopayFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface SavedBillerInput {
+  billType: BillType;
+  nickname?: string;
+  serviceCode: string;
+  customerNumber: string;
+  productCode?: string;
+  phoneNumber?: string;
+}
+
+export interface BillAutopayInput {
+  billerId: string;
+  amount?: number;
+  frequency: AutopayFrequency;
+  startAt: string;
+}
+
+const BILL_TYPES: BillType[] = ['airtime', 'data', 'cable', 'electricity'];
+const FREQUENCIES: AutopayFrequency[] = ['daily', 'weekly', 'monthly'];
+const PHONE_REGEX = /^0[789]\d{9}$/;
+
+// A failed purchase (already refunded by BillsService) is retried after 30m, 1h, 2h
+const RETRY_BASE_MINUTES = 30;
+const MAX_RETRIES = 3;
+const LOCK_TIMEOUT_MINUTES = 10;
+const BATCH_SIZE = 50;
+
+const REFERENCE_PREFIX: Record<BillType, string> = {
+  airtime: 'AIRTIME',
+  data: 'DATA',
+  cable: 'CABLETV',
+  electricity: 'ELEC',
+};
+
+type AutopayWithBiller = BillAutopay & { biller: SavedBiller };
+
+@Injectable()
+export class BillAutopayService {
+  private readonly logger = new Logger(BillAutopayService.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private bills: BillsService,
+  ) {}
+
+  // ── Saved billers ─────────────────────────────────────────────────────
+
+  /**
+   * Save a biller after checking it with the provider. Saving the same
+   * biller twice returns the existing one.
+   */
+  async createBiller(userId: string, input: SavedBillerInput) {
+    const billType = input.billType;
+    if (!BILL_TYPES.includes(billType)) {
+      throw new BadRequestException(
+        'billType must be airtime, data, cable or electricity',
+      );
+    }
+    const serviceCode = (input.serviceCode || '').trim();
+    const customerNumber = (input.customerNumber || '').trim();
+    const productCode = input.productCode?.trim() || null;
+    const phoneNumber = input.phoneNumber?.trim() || null;
+    if (!serviceCode || !customerNumber) {
+      throw new BadRequestException(
+        'serviceCode and customerNumber are required',
+      );
+    }
+
+    await this.validateBiller(
+      billType,
+      serviceCode,
+      customerNumber,
+      productCode,
+    );
+
+    const existing = await this.prisma.savedBiller.findFirst({
+      where: { userId, billType, serviceCode, customerNumber, productCode },
+    });
+    if (existing) return existing;
+
+    return this.prisma.savedBiller.create({
+      data: {
+        userId,
+        billType,
+        nickname: input.nickname?.trim() || customerNumber,
+        serviceCode,
+        customerNumber,
+        productCode,
+        phoneNumber,
+      },
+    });
+  }
+
+  async listBillers(userId: string) {
+    return this.prisma.savedBiller.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Delete a saved biller along with its autopay rules
+   */
+  async deleteBiller(userId: string, id: string) {
+    const deleted = await this.prisma.savedBiller.deleteMany({
+      where: { id, userId },
+    });
+    if (deleted.count === 0) {
+      throw new NotFoundException('Saved biller not found');
+    }
+  }
+
+  // ── Autopay rules ─────────────────────────────────────────────────────
+
+  async createAutopay(userId: string, input: BillAutopayInput) {
+    const biller = await this.prisma.savedBiller.findFirst({
+      where: { id: input.billerId, userId },
+    });
+    if (!biller) {
+      throw new NotFoundException('Saved biller not found');
+    }
+    if (!FREQUENCIES.includes(input.frequency)) {
+      throw new BadRequestException(
+        'frequency must be daily, weekly or monthly',
+      );
+    }
+    const startAt = new Date(input.startAt);
+    if (!input.startAt || Number.isNaN(startAt.getTime())) {
+      throw new BadRequestException('startAt must be a valid date');
+    }
+    if (startAt.getTime() < Date.now() - 60_000) {
+      throw new BadRequestException('startAt must be in the future');
+    }
+
+    const amount = await this.resolveAmount(biller, input.amount);
+
+    const autopay = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.billAutopay.create({
+        data: {
+          userId,
+          billerId: biller.id,
+          amount,
+          frequency: input.frequency,
+          startAt,
+          dueAt: startAt,
+          nextRunAt: startAt,
+        },
+      });
+      await tx.auditLog.create({
+        data: {
+          action: 'BILL_AUTOPAY_CREATED',
+          userId,
+          actorType: 'user',
+          metadata: {
+            autopayId: created.id,
+            billerId: biller.id,
+            billType: biller.billType,
+            amount,
+            frequency: input.frequency,
+            startAt: startAt.toISOString(),
+          },
+        },
+      });
+      return created;
+    });
+
+    return this.present({ ...autopay, biller });
+  }
+
+  async listAutopays(userId: string) {
+    const autopays = await this.prisma.billAutopay.findMany({
+      where: { userId, status: { not: 'CANCELLED' } },
+      include: { biller: true },
+      orderBy: { nextRunAt: 'asc' },
+    });
+    return autopays.map((a) => this.present(a));
+  }
+
+  /**
+   * Every autopay run due in the next `days` days, soonest first
+   */
+  async upcoming(userId: string, days = 30) {
+    const horizon = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    const autopays = await this.prisma.billAutopay.findMany({
+      where: { userId, status: 'ACTIVE', nextRunAt: { lte: horizon } },
+      include: { biller: true },
+    });
+
+    const runs: {
+      autopayId: string;
+      billType: string;
+      nickname: string;
+      customerNumber: string;
+      amount: number;
+      runAt: Date;
+      retrying: boolean;
+    }[] = [];
+    for (const autopay of autopays) {
+      let runAt: Date | null = autopay.nextRunAt;
+      while (runAt && runAt <= horizon) {
+        runs.push({
+          autopayId: autopay.id,
+          billType: autopay.biller.billType,
+          nickname: autopay.biller.nickname,
+          customerNumber: autopay.biller.customerNumber,
+          amount: Number(autopay.amount),
+          runAt,
+          retrying: autopay.retryCount > 0 && runAt === autopay.nextRunAt,
+        });
+        // While retrying, nextRunAt is later than the occurrence it belongs to
+        const from: Date = runAt === autopay.nextRunAt ? autopay.dueAt : runAt;
+        runAt = nextOccurrence(
+          autopay.frequency as AutopayFrequency,
+          from,
+          autopay.startAt,
+        );
+      }
+    }
+    return runs.sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async pauseAutopay(userId: string, id: string) {
+    const autopay = await this.findOwnedOrThrow(userId, id);
+    if (autopay.status !== 'ACTIVE') {
+      throw new BadRequestException('Only active autopays can be paused');
+    }
+    return this.setStatus(autopay, 'PAUSED', 'BILL_AUTOPAY_PAUSED');
+  }
+
+  /**
+   * Resume a paused autopay from its next future date; runs missed while
+   * paused are skipped
+   */
+  async resumeAutopay(userId: string, id: string) {
+    const autopay = await this.findOwnedOrThrow(userId, id);
+    if (autopay.status !== 'PAUSED') {
+      throw new BadRequestException('Only paused autopays can be resumed');
+    }
+    const now = new Date();
+    let dueAt = autopay.dueAt;
+    while (dueAt < now) {
+      dueAt = nextOccurrence(
+        autopay.frequency as AutopayFrequency,
+        dueAt,
+        autopay.startAt,
+      )!;
+    }
+    return this.setStatus(autopay, 'ACTIVE', 'BILL_AUTOPAY_RESUMED', {
+      dueAt,
+      nextRunAt: dueAt,
+      retryCount: 0,
+    });
+  }
+
+  async cancelAutopay(userId: string, id: string) {
+    const autopay = await this.findOwnedOrThrow(userId, id);
+    if (autopay.status === 'CANCELLED') {
+      throw new BadRequestException('This autopay is already cancelled');
+    }
+    return this.setStatus(autopay, 'CANCELLED', 'BILL_AUTOPAY_CANCELLED');
+  }
+
+  // ── Runner ────────────────────────────────────────────────────────────
+
+  /**
+   * Runs every minute: buys every autopay that is due
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runDue() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const staleLock = new Date(
+        now.getTime() - LOCK_TIMEOUT_MINUTES * 60 * 1000,
+      );
+      const due = await this.prisma.billAutopay.findMany({
+        where: {
+          status: 'ACTIVE',
+          nextRunAt: { lte: now },
+          OR: [{ lockedAt: null }, { lockedAt: { lt: staleLock } }],
+        },
+        include: { biller: true },
+        orderBy: { nextRunAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const autopay of due) {
+        const claimed = await this.prisma.billAutopay.updateMany({
+          where: {
+            id: autopay.id,
+            status: 'ACTIVE',
+            updatedAt: autopay.updatedAt,
+          },
+          data: { lockedAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        try {
+          await this.execute(autopay);
+        } catch (err) {
+          this.logger.error(
+            `Error running bill autopay ${autopay.id}: ${(err as Error).message}`,
+          );
+          await this.prisma.billAutopay.update({
+            where: { id: autopay.id },
+            data: { lockedAt: null },
+          });
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async execute(autopay: AutopayWithBiller) {
+    const { biller } = autopay;
+    const attempt = autopay.retryCount + 1;
+    const prefix = REFERENCE_PREFIX[biller.billType as BillType];
+    const reference = `${prefix}-AUTO-${autopay.id}-${autopay.dueAt.getTime()}-${attempt}`;
+
+    let error: string | null = null;
+    // A purchase from a run that crashed before we recorded it
+    const previous = await this.prisma.transaction.findFirst({
+      where: { reference, status: { not: 'FAILED' } },
+    });
+    if (!previous) {
+      try {
+        await this.purchase(autopay, reference);
+      } catch (err) {
+        error = (err as Error)?.message || 'Bill payment failed';
+      }
+    }
+
+    if (error && autopay.retryCount < MAX_RETRIES) {
+      const delayMinutes = RETRY_BASE_MINUTES * 2 ** autopay.retryCount;
+      await this.prisma.billAutopay.update({
+        where: { id: autopay.id },
+        data: {
+          retryCount: { increment: 1 },
+          nextRunAt: new Date(Date.now() + delayMinutes * 60 * 1000),
+          lastRunAt: new Date(),
+          lastError: error,
+          lockedAt: null,
+        },
+      });
+      return;
+    }
+
+    const next = nextOccurrence(
+      autopay.frequency as AutopayFrequency,
+      autopay.dueAt,
+      autopay.startAt,
+    )!;
+    await this.prisma.$transaction(async (tx) => {
+      await tx.billAutopay.update({
+        where: { id: autopay.id },
+        data: {
+          dueAt: next,
+          nextRunAt: next,
+          retryCount: 0,
+          runCount: { increment: 1 },
+          lastRunAt: new Date(),
+          lastReference: error ? autopay.lastReference : reference,
+          lastError: error,
+          lockedAt: null,
+        },
+      });
+      await tx.auditLog.create({
+        data: {
+          action: error ? 'BILL_AUTOPAY_FAILED' : 'BILL_AUTOPAY_EXECUTED',
+          userId: autopay.userId,
+          actorType: 'system',
+          metadata: {
+            autopayId: autopay.id,
+            billType: biller.billType,
+            dueAt: autopay.dueAt.toISOString(),
+            attempt,
+            reference: error ? null : reference,
+            error,
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * Buy through BillsService so provider selection, balance checks and
+   * refund-on-failure are the same as a manual purchase
+   */
+  private async purchase(autopay: AutopayWithBiller, reference: string) {
+    const { biller } = autopay;
+    const amount = Number(autopay.amount);
+    const phoneNumber = biller.phoneNumber || '08000000000';
+
+    switch (biller.billType as BillType) {
+      case 'airtime':
+        return this.bills.buyAirtime(
+          autopay.userId,
+          {
+            phoneNumber: biller.customerNumber,
+            amount,
+            network: biller.serviceCode,
+          },
+          reference,
+        );
+      case 'data':
+        return this.bills.buyData(
+          autopay.userId,
+          {
+            phoneNumber: biller.customerNumber,
+            planCode: biller.productCode!,
+            network: biller.serviceCode,
+          },
+          reference,
+        );
+      case 'cable':
+        return this.bills.buyCableTV(
+          autopay.userId,
+          {
+            cableTv: biller.serviceCode,
+            packageCode: biller.productCode!,
+            smartCardNo: biller.customerNumber,
+            phoneNumber,
+          },
+          reference,
+        );
+      case 'electricity': {
+        const type = biller.productCode || 'prepaid';
+        return this.bills.buyElectricity(
+          autopay.userId,
+          {
+            meterNumber: biller.customerNumber,
+            amount,
+            disco: biller.serviceCode,
+            type,
+            itemName: type,
+            itemCode: `${biller.serviceCode}-${type}`,
+            phoneNumber,
+          },
+          reference,
+        );
+      }
+    }
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────
+
+  private async validateBiller(
+    billType: BillType,
+    serviceCode: string,
+    customerNumber: string,
+    productCode: string | null,
+  ) {
+    switch (billType) {
+      case 'airtime':
+        if (!PHONE_REGEX.test(customerNumber)) {
+          throw new BadRequestException('Enter a valid Nigerian phone number');
+        }
+        return;
+      case 'data':
+        if (!PHONE_REGEX.test(customerNumber)) {
+          throw new BadRequestException('Enter a valid Nigerian phone number');
+        }
+        if (!productCode) {
+          throw new BadRequestException('Select a data plan');
+        }
+        await this.bills.findDataPlan(serviceCode, productCode);
+        return;
+      case 'cable': {
+        if (!productCode) {
+          throw new BadRequestException('Select a package');
+        }
+        const cable = serviceCode.toLowerCase();
+        const result = await this.bills.validateCableSmartcard(
+          cable,
+          customerNumber,
+        );
+        if (!result?.success) {
+          throw new BadRequestException(
+            result?.message || 'Smartcard validation failed',
+          );
+        }
+        await this.bills.findCablePackage(cable, productCode);
+        return;
+      }
+      case 'electricity': {
+        if (productCode !== 'prepaid' && productCode !== 'postpaid') {
+          throw new BadRequestException(
+            'productCode must be prepaid or postpaid for electricity',
+          );
+        }
+        const result = await this.bills.validateMeter({
+          meterNumber: customerNumber,
+          itemCode: `${serviceCode}-${productCode}`,
+          billerCode: serviceCode,
+        });
+        if (!result.success) {
+          throw new BadRequestException(
+            result.message || 'Meter validation failed',
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Airtime and electricity use the amount the user picked; data and cable
+   * use the plan's current price
+   */
+  private async resolveAmount(
+    biller: SavedBiller,
+    requested?: number,
+  ): Promise<number> {
+    switch (biller.billType as BillType) {
+      case 'data': {
+        const plan = await this.bills.findDataPlan(
+          biller.serviceCode,
+          biller.productCode!,
+        );
+        return Number(plan.price ?? 0);
+      }
+      case 'cable': {
+        const plan = await this.bills.findCablePackage(
+          biller.serviceCode.toLowerCase(),
+          biller.productCode!,
+        );
+        return Number(plan.price ?? 0);
+      }
+      case 'airtime': {
+        const amount = Number(requested);
+        if (!Number.isFinite(amount) || amount < 50 || amount > 50000) {
+          throw new BadRequestException(
+            'Airtime amount must be between ₦50 and ₦50,000',
+          );
+        }
+        return amount;
+      }
+      default: {
+        const amount = Number(requested);
+        if (!Number.isFinite(amount) || amount < 500 || amount > 500000) {
+          throw new BadRequestException(
+            'Electricity amount must be between ₦500 and ₦500,000',
+          );
+        }
+        return amount;
+      }
+    }
+  }
+
+  private async findOwnedOrThrow(userId: string, id: string) {
+    const autopay = await this.prisma.billAutopay.findFirst({
+      where: { id, userId },
+      include: { biller: true },
+    });
+    if (!autopay) {
+      throw new NotFoundException('Autopay not found');
+    }
+    return autopay;
+  }
+
+  private async setStatus(
+    autopay: AutopayWithBiller,
+    status: string,
+    action: string,
+    data: { dueAt?: Date; nextRunAt?: Date; retryCount?: number } = {},
+  ) {
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const row = await tx.billAutopay.update({
+        where: { id: autopay.id },
+        data: { ...data, status },
+      });
+      await tx.auditLog.create({
+        data: {
+          action,
+          userId: autopay.userId,
+          actorType: 'user',
+          metadata: { autopayId: autopay.id },
+        },
+      });
+      return row;
+    });
+    return this.present({ ...updated, biller: autopay.biller });
+  }
+
+  private present(autopay: AutopayWithBiller) {
+    return { ...autopay, amount: Number(autopay.amount) };
+  }
+}
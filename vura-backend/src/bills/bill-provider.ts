@@ -0,0 +1,101 @@
+export const BILL_PRODUCTS = [
+  'airtime',
+  'data',
+  'electricity',
+  'cable',
+  'betting',
+] as const;
+export type BillProduct = (typeof BILL_PRODUCTS)[number];
+
+/** Injection token for the ordered list of registered bill providers */
+export const BILL_PROVIDERS = 'BILL_PROVIDERS';
+
+export interface BillProviderResult {
+  success: boolean;
+  data?: any;
+  message?: string;
+  // The failure was on the provider's side, so another provider may be tried
+  // once the order is confirmed not to have gone through
+  retryable?: boolean;
+  // The provider accepted the order but has not settled it yet
+  pending?: boolean;
+  // Handles for looking the order up again with queryOrder
+  requestId?: string;
+  orderId?: string;
+}
+
+export type BillOrderStatus = 'completed' | 'pending' | 'failed' | 'unknown';
+
+export interface BillCatalogItem {
+  id: string;
+  name: string;
+}
+
+export interface BillDataPlan {
+  plan_code: string;
+  name: string;
+  price: number;
+}
+
+/**
+ * A bill payment aggregator. Network and disco ids from any provider's
+ * catalog must be accepted by every provider that supports airtime and
+ * electricity, since those purchases can fail over. Data plan codes are
+ * provider-specific and are only ever bought from the provider that listed them.
+ */
+export interface BillProvider {
+  // Also the EXTERNAL ledger account purchases are posted to
+  readonly name: string;
+  isEnabled(): boolean;
+  supports(product: BillProduct): boolean;
+
+  getAirtimeNetworks(): Promise<BillCatalogItem[]>;
+  getDataNetworks(): Promise<BillCatalogItem[]>;
+  getDataPlans(network: string): Promise<BillDataPlan[]>;
+  getElectricityDiscos(): Promise<BillCatalogItem[]>;
+  verifyMeter(input: {
+    meterNumber: string;
+    plan: string;
+    type: string;
+  }): Promise<BillProviderResult>;
+
+  buyAirtime(input: {
+    network: string;
+    phoneNumber: string;
+    amount: number;
+  }): Promise<BillProviderResult>;
+  buyData(input: {
+    network: string;
+    phoneNumber: string;
+    planCode: string;
+  }): Promise<BillProviderResult>;
+  buyElectricity(input: {
+    meterNumber: string;
+    plan: string;
+    amount: number;
+    type: string;
+    phoneNumber: string;
+  }): Promise<BillProviderResult>;
+  // Required when supports('cable') / supports('betting')
+  buyCableTV?(input: {
+    cableTv: string;
+    packageCode: string;
+    smartCardNo: string;
+    phoneNumber: string;
+  }): Promise<BillProviderResult>;
+  buyBetting?(input: {
+    company: string;
+    customerId: string;
+    amount: number;
+  }): Promise<BillProviderResult>;
+
+  /**
+   * Final state of an order whose purchase call failed. Providers without a
+   * lookup must only mark failures retryable when the order was rejected, and
+   * must flag accepted orders that have not settled as pending.
+   */
+  queryOrder?(ref: {
+    requestId?: string;
+    orderId?: string;
+  }): Promise<BillOrderStatus>;
+}
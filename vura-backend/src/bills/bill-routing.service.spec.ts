@@ -0,0 +1,193 @@
+import { PrismaService } from '../prisma.service';
+import type {
+  BillOrderStatus,
+  BillProvider,
+  BillProviderResult,
+} from './bill-provider';
+import { BillRoutingService } from './bill-routing.service';
+
+const REFERENCE = 'AIRTIME-1';
+
+/**
+ * Only the parts of a provider `purchase` touches; the order lookup is a mock
+ * so each test decides what the provider reports on requery.
+ */
+function provider(
+  name: string,
+  queryOrder?: jest.Mock<Promise<BillOrderStatus>>,
+): BillProvider {
+  return { name, queryOrder } as unknown as BillProvider;
+}
+
+describe('BillRoutingService.purchase', () => {
+  let prisma: {
+    billProviderAttempt: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let routing: BillRoutingService;
+
+  const buyWith =
+    (results: Record<string, BillProviderResult | Error>) =>
+    (p: BillProvider) => {
+      const result = results[p.name];
+      return result instanceof Error
+        ? Promise.reject(result)
+        : Promise.resolve(result);
+    };
+
+  beforeEach(() => {
+    prisma = {
+      billProviderAttempt: { create: jest.fn() },
+      auditLog: { create: jest.fn() },
+    };
+    routing = new BillRoutingService(prisma as unknown as PrismaService, []);
+  });
+
+  it('returns success from the first provider that delivers', async () => {
+    const buy = jest.fn(buyWith({ a: { success: true, orderId: 'o-1' } }));
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a'), provider('b')],
+      buy,
+    );
+
+    expect(outcome).toMatchObject({ provider: 'a', status: 'success' });
+    expect(buy).toHaveBeenCalledTimes(1);
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+  });
+
+  it('fails over once the lookup confirms the order failed', async () => {
+    const queryOrder = jest.fn().mockResolvedValue('failed');
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a', queryOrder), provider('b')],
+      buyWith({
+        a: { success: false, retryable: true, requestId: 'r-1' },
+        b: { success: true },
+      }),
+    );
+
+    expect(queryOrder).toHaveBeenCalledWith({
+      requestId: 'r-1',
+      orderId: undefined,
+    });
+    expect(outcome).toMatchObject({ provider: 'b', status: 'success' });
+    expect(prisma.auditLog.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats an order the lookup finds completed as a success', async () => {
+    const queryOrder = jest.fn().mockResolvedValue('completed');
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a', queryOrder), provider('b')],
+      buyWith({ a: { success: false, retryable: true, orderId: 'o-1' } }),
+    );
+
+    expect(outcome).toMatchObject({
+      provider: 'a',
+      status: 'success',
+      result: { success: true },
+    });
+  });
+
+  it('returns failed without failover when the rejection is not retryable', async () => {
+    const queryOrder = jest.fn().mockResolvedValue('failed');
+    const buy = jest.fn(
+      buyWith({ a: { success: false, retryable: false, requestId: 'r-1' } }),
+    );
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a', queryOrder), provider('b')],
+      buy,
+    );
+
+    expect(outcome).toMatchObject({ provider: 'a', status: 'failed' });
+    expect(buy).toHaveBeenCalledTimes(1);
+  });
+
+  it.each<BillOrderStatus>(['pending', 'unknown'])(
+    'returns unknown and stops when the lookup says %s',
+    async (status) => {
+      const buy = jest.fn(
+        buyWith({ a: { success: false, retryable: true, orderId: 'o-1' } }),
+      );
+
+      const outcome = await routing.purchase(
+        'airtime',
+        REFERENCE,
+        [provider('a', jest.fn().mockResolvedValue(status)), provider('b')],
+        buy,
+      );
+
+      expect(outcome).toMatchObject({ provider: 'a', status: 'unknown' });
+      expect(buy).toHaveBeenCalledTimes(1);
+    },
+  );
+
+  it('returns unknown when the lookup itself throws', async () => {
+    const queryOrder = jest.fn().mockRejectedValue(new Error('timeout'));
+    const buy = jest.fn(
+      buyWith({ a: { success: false, retryable: true, requestId: 'r-1' } }),
+    );
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a', queryOrder), provider('b')],
+      buy,
+    );
+
+    expect(outcome).toMatchObject({
+      provider: 'a',
+      status: 'unknown',
+      result: { requestId: 'r-1' },
+    });
+    expect(buy).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns unknown when the purchase call throws', async () => {
+    const buy = jest.fn(buyWith({ a: new Error('socket hang up') }));
+
+    const outcome = await routing.purchase(
+      'airtime',
+      REFERENCE,
+      [provider('a'), provider('b')],
+      buy,
+    );
+
+    expect(outcome).toMatchObject({ provider: 'a', status: 'unknown' });
+    expect(buy).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes a provider without a lookup at its word unless it is pending', async () => {
+    const rejected = await routing.purchase(
+      'data',
+      REFERENCE,
+      [provider('a')],
+      buyWith({ a: { success: false, requestId: 'r-1' } }),
+    );
+    const pending = await routing.purchase(
+      'data',
+      REFERENCE,
+      [provider('a')],
+      buyWith({ a: { success: false, pending: true, orderId: 'o-1' } }),
+    );
+
+    expect(rejected.status).toBe('failed');
+    expect(pending.status).toBe('unknown');
+  });
+
+  it('reports failed when no provider is available', async () => {
+    const outcome = await routing.purchase('airtime', REFERENCE, [], jest.fn());
+
+    expect(outcome).toMatchObject({ provider: 'none', status: 'failed' });
+  });
+});
@@ -0,0 +1,433 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service';
+import {
+  BILL_PRODUCTS,
+  BILL_PROVIDERS,
+  BillProduct,
+  BillOrderStatus,
+  BillProvider,
+  BillProviderResult,
+} from './bill-provider';
+
+export type BillProviderMode = 'auto' | 'pinned' | 'disabled';
+export type BillPurchaseStatus = 'success' | 'failed' | 'unknown';
+
+export interface BillPurchaseOutcome {
+  provider: string;
+  status: BillPurchaseStatus;
+  result: BillProviderResult;
+}
+
+const PROVIDER_MODES: BillProviderMode[] = ['auto', 'pinned', 'disabled'];
+// Airtime and electricity take the same network/disco ids everywhere; data
+// plan codes and cable/betting catalogs belong to the provider that listed them
+const FAILOVER_PRODUCTS: BillProduct[] = ['airtime', 'electricity'];
+const SETTINGS_CACHE_MS = 30 * 1000;
+const HEALTH_CACHE_MS = 60 * 1000;
+// Routing looks at the last hour; fewer attempts than this count as healthy
+const HEALTH_WINDOW_MS = 60 * 60 * 1000;
+const HEALTH_MIN_ATTEMPTS = 5;
+// A provider only overtakes the registration order when its success rate is
+// this much better, so routing does not flap on a single failure
+const HEALTH_MARGIN = 0.1;
+const ATTEMPT_RETENTION_DAYS = 30;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type ProviderStats = {
+  attempts: number;
+  successes: number;
+  latencyTotal: number;
+};
+
+/**
+ * Picks which bill provider serves a purchase and fails over between them.
+ *
+ * Providers are tried in registration order unless an admin pinned or
+ * disabled one for the product, or one's recent success rate has dropped
+ * well below another's. A failed purchase only moves on to the next provider
+ * when the failure is retryable and, for providers that support it, a fresh
+ * order lookup confirms the first order did not go through.
+ */
+@Injectable()
+export class BillRoutingService {
+  private readonly logger = new Logger(BillRoutingService.name);
+  private settingsCache: {
+    modes: Map<string, BillProviderMode>;
+    loadedAt: number;
+  } | null = null;
+  private healthCache: {
+    stats: Map<string, ProviderStats>;
+    loadedAt: number;
+  } | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(BILL_PROVIDERS) private providers: BillProvider[],
+  ) {}
+
+  /**
+   * Providers to try for a product, best first. Empty when none is
+   * configured or an admin disabled them all.
+   */
+  async route(product: BillProduct): Promise<BillProvider[]> {
+    const [modes, health] = await Promise.all([
+      this.getModes(),
+      this.getHealth(),
+    ]);
+
+    return this.providers
+      .map((provider, index) => ({
+        provider,
+        index,
+        mode: modes.get(key(product, provider.name)) ?? 'auto',
+        rate: successRate(health.get(key(product, provider.name))),
+      }))
+      .filter(
+        (c) =>
+          c.mode !== 'disabled' &&
+          c.provider.isEnabled() &&
+          c.provider.supports(product),
+      )
+      .sort((a, b) => {
+        if (a.mode === 'pinned' && b.mode !== 'pinned') return -1;
+        if (b.mode === 'pinned' && a.mode !== 'pinned') return 1;
+        if (Math.abs(a.rate - b.rate) >= HEALTH_MARGIN) return b.rate - a.rate;
+        return a.index - b.index;
+      })
+      .map((c) => c.provider);
+  }
+
+  /**
+   * Run `buy` against the route until a provider fulfils the order or it is
+   * no longer safe to try another. Returns the provider that fulfilled it, or
+   * the last one tried along with its failure. A `failed` status means the
+   * provider confirmed the order did not go through; `unknown` orders may
+   * still complete and must not be refunded until they are looked up again.
+   */
+  async purchase(
+    product: BillProduct,
+    reference: string,
+    route: BillProvider[],
+    buy: (provider: BillProvider) => Promise<BillProviderResult>,
+  ): Promise<BillPurchaseOutcome> {
+    const candidates = FAILOVER_PRODUCTS.includes(product)
+      ? route
+      : route.slice(0, 1);
+    let last: BillPurchaseOutcome | null = null;
+
+    for (const provider of candidates) {
+      if (last) {
+        await this.auditFailover(product, reference, last, provider.name);
+      }
+
+      const started = Date.now();
+      let result: BillProviderResult;
+      let status: BillPurchaseStatus;
+      try {
+        result = await buy(provider);
+        status = result.success
+          ? 'success'
+          : await this.confirmFailure(provider, result);
+      } catch (err) {
+        // The provider may have taken the order before the error, so its fate
+        // is unknown and another provider must not be tried
+        result = { success: false, message: (err as Error).message };
+        status = 'unknown';
+      }
+      if (status === 'success' && !result.success) {
+        result = { ...result, success: true };
+      }
+
+      await this.record(provider.name, product, reference, result, started);
+      last = { provider: provider.name, status, result };
+      if (status !== 'failed' || !result.retryable) break;
+    }
+
+    return (
+      last ?? {
+        provider: 'none',
+        status: 'failed',
+        result: { success: false, message: 'No bill provider available' },
+      }
+    );
+  }
+
+  /** Requery an order left unknown by `purchase` */
+  async lookup(
+    providerName: string,
+    ref: { requestId?: string; orderId?: string },
+  ): Promise<BillPurchaseStatus> {
+    const provider = this.providers.find((p) => p.name === providerName);
+    if (!provider) return 'unknown';
+    return toPurchaseStatus(await this.safeQuery(provider, ref));
+  }
+
+  /**
+   * Whether a failed purchase call really failed. Providers with a lookup are
+   * asked again; the others are taken at their word unless they flagged the
+   * order as still pending.
+   */
+  private async confirmFailure(
+    provider: BillProvider,
+    result: BillProviderResult,
+  ): Promise<BillPurchaseStatus> {
+    if (!provider.queryOrder || (!result.requestId && !result.orderId)) {
+      return result.pending ? 'unknown' : 'failed';
+    }
+    return toPurchaseStatus(
+      await this.safeQuery(provider, {
+        requestId: result.requestId,
+        orderId: result.orderId,
+      }),
+    );
+  }
+
+  private async safeQuery(
+    provider: BillProvider,
+    ref: { requestId?: string; orderId?: string },
+  ): Promise<BillOrderStatus> {
+    if (!provider.queryOrder) return 'unknown';
+    try {
+      return await provider.queryOrder(ref);
+    } catch (err) {
+      this.logger.warn(
+        `${provider.name} order lookup ${ref.orderId ?? ref.requestId} failed: ${(err as Error).message}`,
+      );
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Success rate, latency and admin mode per product and provider over the
+   * last `hours`, plus the order purchases would be routed in right now.
+   */
+  async overview(hours = 24) {
+    const since = new Date(Date.now() - hours * HOUR_MS);
+    const [modes, stats] = await Promise.all([
+      this.getModes(true),
+      this.loadStats(since),
+    ]);
+
+    return Promise.all(
+      BILL_PRODUCTS.map(async (product) => ({
+        product,
+        failover: FAILOVER_PRODUCTS.includes(product),
+        route: (await this.route(product)).map((p) => p.name),
+        providers: this.providers
+          .filter((p) => p.supports(product))
+          .map((p) => {
+            const s = stats.get(key(product, p.name));
+            return {
+              provider: p.name,
+              configured: p.isEnabled(),
+              mode: modes.get(key(product, p.name)) ?? 'auto',
+              attempts: s?.attempts ?? 0,
+              successes: s?.successes ?? 0,
+              successRate: s?.attempts
+                ? Math.round((s.successes / s.attempts) * 1000) / 10
+                : null,
+              avgLatencyMs: s?.attempts
+                ? Math.round(s.latencyTotal / s.attempts)
+                : null,
+            };
+          }),
+      })),
+    );
+  }
+
+  /**
+   * Pin a provider for a product (tried first, any previous pin is cleared),
+   * disable it, or hand it back to automatic routing.
+   */
+  async setMode(
+    product: string,
+    providerName: string,
+    mode: string,
+    adminId: string,
+  ) {
+    if (!BILL_PRODUCTS.includes(product as BillProduct)) {
+      throw new BadRequestException(
+        `product must be one of: ${BILL_PRODUCTS.join(', ')}`,
+      );
+    }
+    if (!PROVIDER_MODES.includes(mode as BillProviderMode)) {
+      throw new BadRequestException(
+        `mode must be one of: ${PROVIDER_MODES.join(', ')}`,
+      );
+    }
+    const provider = this.providers.find((p) => p.name === providerName);
+    if (!provider || !provider.supports(product as BillProduct)) {
+      throw new BadRequestException(
+        `${providerName} does not offer ${product}`,
+      );
+    }
+
+    const before = (await this.getModes(true)).get(key(product, providerName));
+
+    await this.prisma.$transaction(async (tx) => {
+      if (mode === 'pinned') {
+        await tx.billProviderSetting.updateMany({
+          where: { product, mode: 'pinned', provider: { not: providerName } },
+          data: { mode: 'auto', updatedById: adminId },
+        });
+      }
+      await tx.billProviderSetting.upsert({
+        where: { product_provider: { product, provider: providerName } },
+        create: { product, provider: providerName, mode, updatedById: adminId },
+        update: { mode, updatedById: adminId },
+      });
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'BILL_PROVIDER_MODE_CHANGED',
+        actorType: 'admin',
+        actorId: adminId,
+        metadata: {
+          product,
+          provider: providerName,
+          before: before ?? 'auto',
+          after: mode,
+        },
+      },
+    });
+
+    this.settingsCache = null;
+    this.logger.log(
+      `Bill provider ${providerName} set to ${mode} for ${product}`,
+    );
+    return { product, provider: providerName, mode };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneAttempts() {
+    const { count } = await this.prisma.billProviderAttempt.deleteMany({
+      where: {
+        createdAt: {
+          lt: new Date(Date.now() - ATTEMPT_RETENTION_DAYS * DAY_MS),
+        },
+      },
+    });
+    if (count > 0) this.logger.log(`Pruned ${count} bill provider attempts`);
+  }
+
+  private async record(
+    provider: string,
+    product: BillProduct,
+    reference: string,
+    result: BillProviderResult,
+    started: number,
+  ) {
+    try {
+      await this.prisma.billProviderAttempt.create({
+        data: {
+          provider,
+          product,
+          reference,
+          success: result.success,
+          latencyMs: Date.now() - started,
+          error: result.success ? null : (result.message ?? null),
+        },
+      });
+    } catch (err) {
+      // Stats must never fail a purchase that already went through
+      this.logger.warn(
+        `Could not record ${provider} ${product} attempt: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private async auditFailover(
+    product: BillProduct,
+    reference: string,
+    from: BillPurchaseOutcome,
+    to: string,
+  ) {
+    this.logger.warn(
+      `Bill ${reference}: ${from.provider} failed (${from.result.message}), trying ${to}`,
+    );
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'BILL_PROVIDER_FAILOVER',
+        actorType: 'system',
+        metadata: {
+          reference,
+          product,
+          from: from.provider,
+          to,
+          reason: from.result.message ?? null,
+        },
+      },
+    });
+  }
+
+  private async getModes(fresh = false) {
+    if (
+      !fresh &&
+      this.settingsCache &&
+      Date.now() - this.settingsCache.loadedAt < SETTINGS_CACHE_MS
+    ) {
+      return this.settingsCache.modes;
+    }
+    const rows = await this.prisma.billProviderSetting.findMany();
+    const modes = new Map<string, BillProviderMode>();
+    for (const row of rows) {
+      modes.set(key(row.product, row.provider), row.mode as BillProviderMode);
+    }
+    this.settingsCache = { modes, loadedAt: Date.now() };
+    return modes;
+  }
+
+  private async getHealth() {
+    if (
+      this.healthCache &&
+      Date.now() - this.healthCache.loadedAt < HEALTH_CACHE_MS
+    ) {
+      return this.healthCache.stats;
+    }
+    const stats = await this.loadStats(new Date(Date.now() - HEALTH_WINDOW_MS));
+    this.healthCache = { stats, loadedAt: Date.now() };
+    return stats;
+  }
+
+  private async loadStats(since: Date) {
+    const groups = await this.prisma.billProviderAttempt.groupBy({
+      by: ['product', 'provider', 'success'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true },
+      _avg: { latencyMs: true },
+    });
+
+    const stats = new Map<string, ProviderStats>();
+    for (const g of groups) {
+      const k = key(g.product, g.provider);
+      const s = stats.get(k) ?? { attempts: 0, successes: 0, latencyTotal: 0 };
+      s.attempts += g._count._all;
+      if (g.success) s.successes += g._count._all;
+      s.latencyTotal += (g._avg.latencyMs ?? 0) * g._count._all;
+      stats.set(k, s);
+    }
+    return stats;
+  }
+}
+
+function key(product: string, provider: string): string {
+  return `${product}:${provider}`;
+}
+
+function toPurchaseStatus(status: BillOrderStatus): BillPurchaseStatus {
+  if (status === 'completed') return 'success';
+  return status === 'failed' ? 'failed' : 'unknown';
+}
+
+function successRate(stats: ProviderStats | undefined): number {
+  if (!stats || stats.attempts < HEALTH_MIN_ATTEMPTS) return 1;
+  return stats.successes / stats.attempts;
+}
@@ -7,9 +7,11 @@ import {
   UseGuards,
   Request,
   BadRequestException,
+  UseInterceptors,
 } from '@nestjs/common';
 import { BillsService } from './bills.service';
 import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @Controller('bills')
 @UseGuards(AuthGuard)
@@ -25,6 +27,7 @@ export class BillsController {
   }
 
   @Post('airtime')
+  @UseInterceptors(IdempotencyInterceptor)
   async buyAirtime(
     @Body() body: { phoneNumber: string; amount: number; network: string },
     @Request() req: any,
@@ -51,6 +54,7 @@ export class BillsController {
   }
 
   @Post('data')
+  @UseInterceptors(IdempotencyInterceptor)
   async buyData(
     @Body() body: { phoneNumber: string; planCode: string; network: string },
     @Request() req: any,
@@ -97,6 +101,7 @@ export class BillsController {
   }
 
   @Post('electricity')
+  @UseInterceptors(IdempotencyInterceptor)
   async buyElectricity(
     @Body()
     body: {
@@ -165,6 +170,7 @@ export class BillsController {
   }
 
   @Post('cable')
+  @UseInterceptors(IdempotencyInterceptor)
   async buyCableTV(
     @Body() body: { cableTv?: string; packageCode?: string; smartCardNo?: string; phoneNumber?: string },
     @Request() req: any,
@@ -204,6 +210,7 @@ export class BillsController {
   }
 
   @Post('betting')
+  @UseInterceptors(IdempotencyInterceptor)
   async buyBetting(
     @Body() body: { company?: string; customerId?: string; amount?: number },
     @Request() req: any,
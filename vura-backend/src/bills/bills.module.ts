@@ -2,14 +2,44 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { BillsController } from './bills.controller';
 import { BillsService } from './bills.service';
+import { BillAutopayController } from './bill-autopay.controller';
+import { BillAutopayService } from './bill-autopay.service';
+import { BillRoutingService } from './bill-routing.service';
+import { BILL_PROVIDERS, BillProvider } from './bill-provider';
 import { PeyflexService } from '../services/peyflex.service';
 import { NellobyteService } from '../services/nellobyte.service';
 import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { HoldsModule } from '../holds/holds.module';
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [BillsController],
-  providers: [BillsService, PeyflexService, NellobyteService, PrismaService],
-  exports: [BillsService],
+  imports: [
+    ConfigModule,
+    LedgerModule,
+    IdempotencyModule,
+    OutboxModule,
+    HoldsModule,
+  ],
+  controllers: [BillsController, BillAutopayController],
+  providers: [
+    BillsService,
+    BillAutopayService,
+    BillRoutingService,
+    PeyflexService,
+    NellobyteService,
+    // Tried in this order unless health or an admin override says otherwise
+    {
+      provide: BILL_PROVIDERS,
+      useFactory: (
+        nellobyte: NellobyteService,
+        peyflex: PeyflexService,
+      ): BillProvider[] => [nellobyte, peyflex],
+      inject: [NellobyteService, PeyflexService],
+    },
+    PrismaService,
+  ],
+  exports: [BillsService, BillRoutingService],
 })
 export class BillsModule {}
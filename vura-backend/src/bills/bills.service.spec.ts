@@ -0,0 +1,266 @@
+import { BadRequestException } from '@nestjs/common';
+import Decimal from 'decimal.js';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { NellobyteService } from '../services/nellobyte.service';
+import type { BillProvider } from './bill-provider';
+import {
+  BillPurchaseOutcome,
+  BillRoutingService,
+} from './bill-routing.service';
+import { BillsService } from './bills.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+const AIRTIME = { phoneNumber: '08031234567', amount: 500, network: 'MTN' };
+
+/**
+ * The ledger, outbox and routing are mocks; the database is a stub whose
+ * `$transaction` runs the callback against itself.
+ */
+describe('BillsService purchases', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    balance: { findUnique: jest.Mock };
+    transaction: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      aggregate: jest.Mock;
+    };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { post: jest.Mock; transfer: jest.Mock; reverse: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let routing: { route: jest.Mock; purchase: jest.Mock; lookup: jest.Mock };
+  let bills: BillsService;
+
+  const outcome = (o: Partial<BillPurchaseOutcome>): BillPurchaseOutcome => ({
+    provider: 'nellobyte',
+    status: 'success',
+    result: { success: true },
+    ...o,
+  });
+  const lastUpdate = () =>
+    (prisma.transaction.update.mock.lastCall as [{ data: object }])[0].data;
+  const statusWrites = () =>
+    (prisma.transaction.update.mock.calls as [{ data: { status?: string } }][])
+      .map(([args]) => args.data.status)
+      .filter(Boolean);
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      balance: { findUnique: jest.fn().mockResolvedValue({ amount: 1000 }) },
+      transaction: {
+        create: jest.fn().mockResolvedValue({ id: 'tx-1' }),
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ metadata: { billType: 'airtime' } }),
+        findMany: jest.fn(),
+        update: jest
+          .fn()
+          .mockResolvedValue({ metadata: { billType: 'airtime' } }),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { amount: null } }),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      post: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(USER)]: {
+            before: new Decimal(1000),
+            after: new Decimal(500),
+          },
+        },
+      }),
+      transfer: jest.fn(),
+      reverse: jest.fn(),
+    };
+    outbox = { record: jest.fn() };
+    routing = {
+      route: jest
+        .fn()
+        .mockResolvedValue([{ name: 'nellobyte' } as BillProvider]),
+      purchase: jest.fn(),
+      lookup: jest.fn(),
+    };
+    bills = new BillsService(
+      prisma as unknown as PrismaService,
+      {} as NellobyteService,
+      routing as unknown as BillRoutingService,
+      ledger as unknown as LedgerService,
+      outbox as unknown as OutboxService,
+      new HoldsService(
+        prisma as unknown as PrismaService,
+        outbox as unknown as OutboxService,
+        ledger as unknown as LedgerService,
+      ),
+    );
+  });
+
+  it('completes a delivered purchase', async () => {
+    routing.purchase.mockResolvedValue(outcome({}));
+
+    const res = await bills.buyAirtime(USER, AIRTIME, 'AIRTIME-1');
+
+    expect(res).toMatchObject({ success: true });
+    expect(res).not.toHaveProperty('pending');
+    expect(statusWrites()).toEqual(['SUCCESS']);
+    expect(ledger.reverse).not.toHaveBeenCalled();
+  });
+
+  it('refunds a purchase the provider confirmed failed', async () => {
+    routing.purchase.mockResolvedValue(
+      outcome({ status: 'failed', result: { success: false } }),
+    );
+
+    await expect(
+      bills.buyAirtime(USER, AIRTIME, 'AIRTIME-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    expect(ledger.reverse).toHaveBeenCalledWith(prisma, 'AIRTIME-1', 'refund');
+    expect(statusWrites()).toEqual(['FAILED']);
+    expect(outbox.record).toHaveBeenCalledWith(
+      prisma,
+      'BillRefunded',
+      expect.anything(),
+      'tx-1',
+    );
+  });
+
+  it('leaves an unconfirmed purchase pending without refunding', async () => {
+    routing.purchase.mockResolvedValue(
+      outcome({
+        status: 'unknown',
+        result: { success: false, requestId: 'r-1', orderId: 'o-1' },
+      }),
+    );
+
+    const res = await bills.buyAirtime(USER, AIRTIME, 'AIRTIME-1');
+
+    expect(res).toMatchObject({ pending: true, data: { status: 'pending' } });
+    expect(ledger.reverse).not.toHaveBeenCalled();
+    expect(statusWrites()).toEqual([]);
+    expect(prisma.transaction.update).toHaveBeenCalledWith({
+      where: { id: 'tx-1' },
+      data: {
+        metadata: {
+          billType: 'airtime',
+          pendingOrder: {
+            provider: 'nellobyte',
+            requestId: 'r-1',
+            orderId: 'o-1',
+          },
+          awaitingConfirmation: true,
+        },
+      },
+    });
+  });
+
+  it('flags an unconfirmed purchase that cannot be looked up', async () => {
+    routing.purchase.mockResolvedValue(
+      outcome({ status: 'unknown', result: { success: false } }),
+    );
+
+    await bills.buyAirtime(USER, AIRTIME, 'AIRTIME-1');
+
+    expect(ledger.reverse).not.toHaveBeenCalled();
+    expect(lastUpdate()).toMatchObject({
+      isFlagged: true,
+      metadata: { awaitingConfirmation: false },
+    });
+  });
+
+  it('will not spend the amount of a transfer on hold', async () => {
+    prisma.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: new Decimal(800) },
+    });
+
+    await expect(bills.buyAirtime(USER, AIRTIME, 'AIRTIME-1')).rejects.toThrow(
+      'Insufficient available balance',
+    );
+
+    expect(ledger.post).not.toHaveBeenCalled();
+    expect(routing.purchase).not.toHaveBeenCalled();
+  });
+
+  describe('requeryPendingOrders', () => {
+    const pending = (overrides: Record<string, unknown> = {}) => ({
+      id: 'tx-1',
+      senderId: USER,
+      amount: new Decimal(600),
+      reference: 'ELEC-1',
+      idempotencyKey: 'ELEC-1',
+      isFlagged: false,
+      createdAt: new Date(),
+      metadata: {
+        billType: 'electricity',
+        fee: 100,
+        provider: 'nellobyte',
+        pendingOrder: { provider: 'other', requestId: null, orderId: 'o-1' },
+        awaitingConfirmation: true,
+      },
+      ...overrides,
+    });
+
+    it('completes orders the provider delivered', async () => {
+      prisma.transaction.findMany.mockResolvedValue([pending()]);
+      routing.lookup.mockResolvedValue('success');
+
+      await bills.requeryPendingOrders();
+
+      expect(routing.lookup).toHaveBeenCalledWith('other', {
+        requestId: undefined,
+        orderId: 'o-1',
+      });
+      // The provider's share moves to the one that delivered; the fee stays
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ amount: new Decimal(500) }),
+      );
+      expect(statusWrites()).toEqual(['SUCCESS']);
+      expect(ledger.reverse).not.toHaveBeenCalled();
+    });
+
+    it('refunds orders the provider failed', async () => {
+      prisma.transaction.findMany.mockResolvedValue([pending()]);
+      routing.lookup.mockResolvedValue('failed');
+
+      await bills.requeryPendingOrders();
+
+      expect(ledger.reverse).toHaveBeenCalledWith(prisma, 'ELEC-1', 'refund');
+      expect(statusWrites()).toEqual(['FAILED']);
+    });
+
+    it('leaves orders that are still unknown alone', async () => {
+      prisma.transaction.findMany.mockResolvedValue([pending()]);
+      routing.lookup.mockResolvedValue('unknown');
+
+      await bills.requeryPendingOrders();
+
+      expect(ledger.reverse).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('flags orders still unknown after a day', async () => {
+      prisma.transaction.findMany.mockResolvedValue([
+        pending({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) }),
+      ]);
+      routing.lookup.mockResolvedValue('unknown');
+
+      await bills.requeryPendingOrders();
+
+      expect(ledger.reverse).not.toHaveBeenCalled();
+      expect(lastUpdate()).toMatchObject({ isFlagged: true });
+    });
+  });
+});
@@ -1,36 +1,71 @@
 import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, type Transaction } from '@prisma/client';
 import { PrismaService } from '../prisma.service';
-import { PeyflexService } from '../services/peyflex.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { HoldsService } from '../holds/holds.service';
 import { NellobyteService } from '../services/nellobyte.service';
+import { BillRoutingService } from './bill-routing.service';
+import type {
+  BillProduct,
+  BillProvider,
+  BillProviderResult,
+} from './bill-provider';
 import Decimal from 'decimal.js';
 import { v4 as uuid } from 'uuid';
 
 const ELECTRICITY_FEE = 100;
+// Orders the provider has not settled within a day are flagged for review
+const REQUERY_FLAG_AFTER_MS = 24 * 60 * 60 * 1000;
+const REQUERY_BATCH_SIZE = 50;
+
+type PendingOrder = {
+  provider: string;
+  requestId: string | null;
+  orderId: string | null;
+};
+
+// What a purchase left in Transaction.metadata for requeryPendingOrders
+type PendingBillMetadata = {
+  billType?: string;
+  // The provider the debit was posted against
+  provider: string;
+  fee?: number;
+  pendingOrder: PendingOrder;
+};
 
 @Injectable()
 export class BillsService {
   private readonly logger = new Logger(BillsService.name);
+  private isRequerying = false;
 
   constructor(
     private prisma: PrismaService,
-    private peyflex: PeyflexService,
     private nellobyte: NellobyteService,
+    private routing: BillRoutingService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private holds: HoldsService,
   ) {}
 
-  private getProvider(): 'nellobyte' | 'peyflex' {
-    return this.nellobyte.isEnabled() ? 'nellobyte' : 'peyflex';
+  /**
+   * Providers to try for a purchase, best first. The debit is posted against
+   * the first; see moveToProvider for when another one fulfils it.
+   */
+  private async routeFor(product: BillProduct, unavailable: string) {
+    const route = await this.routing.route(product);
+    if (route.length === 0) throw new BadRequestException(unavailable);
+    return route;
   }
 
   // ── Airtime ───────────────────────────────────────────────────────────
 
   async getAirtimeNetworks() {
-    const provider = this.getProvider();
-    if (provider === 'nellobyte') {
-      const networks = await this.nellobyte.getAirtimeNetworks();
+    for (const provider of await this.routing.route('airtime')) {
+      const networks = await provider.getAirtimeNetworks();
       if (networks.length > 0) return networks;
     }
-    const networks = await this.peyflex.getAirtimeNetworks();
-    if (networks.length > 0) return networks;
     return [
       { id: 'mtn', name: 'MTN' },
       { id: 'glo', name: 'GLO' },
@@ -39,9 +74,13 @@ export class BillsService {
     ];
   }
 
+  /**
+   * `reference` is passed by autopay so a re-run after a crash can find the earlier purchase
+   */
   async buyAirtime(
     userId: string,
     data: { phoneNumber: string; amount: number; network: string },
+    reference = `AIRTIME-${uuid()}`,
   ) {
     if (data.amount < 50 || data.amount > 50000) {
       throw new BadRequestException('Airtime amount must be between ₦50 and ₦50,000');
@@ -52,7 +91,13 @@ export class BillsService {
     }
 
     const amount = new Decimal(data.amount);
-    const reference = `AIRTIME-${uuid()}`;
+    const route = await this.routeFor(
+      'airtime',
+      'Airtime purchases are temporarily unavailable. Please try again later.',
+    );
+    const planned = route[0].name;
+
+    await this.holds.checkHeldFunds(userId, amount);
 
     const tx = await this.prisma.$transaction(async (prisma) => {
       const balance = await prisma.balance.findUnique({
@@ -64,12 +109,9 @@ export class BillsService {
         throw new BadRequestException('Insufficient balance');
       }
 
-      const afterBalance = currentBalance.sub(amount);
-
-      await prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: { amount: afterBalance.toNumber(), lastUpdatedBy: 'bills_service' },
-      });
+      const posting = await this.debitForBill(prisma, userId, reference, planned, amount);
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
 
       const transaction = await prisma.transaction.create({
         data: {
@@ -80,13 +122,13 @@ export class BillsService {
           status: 'PENDING',
           idempotencyKey: reference,
           reference,
-          beforeBalance: currentBalance.toNumber(),
+          beforeBalance: beforeBalance.toNumber(),
           afterBalance: afterBalance.toNumber(),
           metadata: {
             billType: 'airtime',
             network: data.network,
             phoneNumber: data.phoneNumber,
-            provider: this.getProvider(),
+            provider: planned,
           },
         },
       });
@@ -94,36 +136,46 @@ export class BillsService {
       return { transaction, afterBalance };
     });
 
-    const provider = this.getProvider();
-    const result =
-      provider === 'nellobyte'
-        ? await this.nellobyte.buyAirtime({
-            network: data.network,
-            phoneNumber: data.phoneNumber,
-            amount: data.amount,
-          })
-        : await this.peyflex.buyAirtime({
-            network: data.network,
-            phoneNumber: data.phoneNumber,
-            amount: data.amount,
-          });
+    const { provider, status, result } = await this.routing.purchase(
+      'airtime',
+      reference,
+      route,
+      (p) =>
+        p.buyAirtime({
+          network: data.network,
+          phoneNumber: data.phoneNumber,
+          amount: data.amount,
+        }),
+    );
 
-    if (!result.success) {
+    if (status === 'unknown') {
+      return this.awaitConfirmation(
+        userId,
+        tx.transaction.id,
+        reference,
+        provider,
+        result,
+        tx.afterBalance,
+      );
+    }
+
+    if (status === 'failed') {
       await this.refundTransaction(userId, tx.transaction.id, amount, reference);
       throw new BadRequestException(result.message || 'Airtime purchase failed. You have been refunded.');
     }
 
-    await this.prisma.transaction.update({
-      where: { id: tx.transaction.id },
-      data: {
-        status: 'SUCCESS',
-        metadata: {
-          billType: 'airtime',
-          network: data.network,
-          phoneNumber: data.phoneNumber,
-          provider,
-          providerResponse: result.data,
-        },
+    await this.moveToProvider(reference, planned, provider, amount);
+
+    await this.completePurchase(userId, tx.transaction.id, reference, {
+      billType: 'airtime',
+      amount,
+      provider,
+      metadata: {
+        billType: 'airtime',
+        network: data.network,
+        phoneNumber: data.phoneNumber,
+        provider,
+        providerResponse: result.data,
       },
     });
 
@@ -154,13 +206,10 @@ export class BillsService {
   // ── Data ──────────────────────────────────────────────────────────────
 
   async getDataNetworks() {
-    const provider = this.getProvider();
-    if (provider === 'nellobyte') {
-      const networks = await this.nellobyte.getDataNetworks();
+    for (const provider of await this.routing.route('data')) {
+      const networks = await provider.getDataNetworks();
       if (networks.length > 0) return networks;
     }
-    const networks = await this.peyflex.getDataNetworks();
-    if (networks.length > 0) return networks;
     return [
       { id: 'mtn', name: 'MTN' },
       { id: 'glo', name: 'GLO' },
@@ -169,12 +218,14 @@ export class BillsService {
     ];
   }
 
-  async getDataPlans(network: string) {
-    const provider = this.getProvider();
-    const plans =
-      provider === 'nellobyte'
-        ? await this.nellobyte.getDataPlans(network)
-        : await this.peyflex.getDataPlans(network);
+  /**
+   * Plan codes only work with the provider that listed them, so plans come
+   * from the first provider in the data route unless one is given.
+   */
+  async getDataPlans(network: string, provider?: BillProvider) {
+    const source = provider ?? (await this.routing.route('data'))[0];
+    if (!source) return [];
+    const plans = await source.getDataPlans(network);
     return plans.map((item: any) => ({
       plan_code: item.plan_code ?? item.id ?? item.name,
       name: item.name ?? item.plan_name ?? item.description,
@@ -182,36 +233,16 @@ export class BillsService {
     }));
   }
 
-  /** Normalize network for consistent plan lookup (e.g. MTN -> 01 for Nellobyte) */
-  private normalizeNetworkForPlans(network: string): string {
-    const n = (network || '').trim().toLowerCase();
-    const map: Record<string, string> = {
-      mtn: '01',
-      glo: '02',
-      '9mobile': '03',
-      airtel: '04',
-      '01': '01',
-      '02': '02',
-      '03': '03',
-      '04': '04',
-    };
-    return map[n] ?? n;
-  }
-
-  async buyData(
-    userId: string,
-    data: { phoneNumber: string; planCode: string; network: string },
+  /**
+   * Look up a data plan in the same list the frontend showed (or `provider`'s)
+   */
+  async findDataPlan(
+    network: string,
+    planCode: string,
+    provider?: BillProvider,
   ) {
-    if (!data.phoneNumber || !/^0[789]\d{9}$/.test(data.phoneNumber)) {
-      throw new BadRequestException('Enter a valid Nigerian phone number');
-    }
-
-    // Fetch plans with normalized network so we get the same list as the frontend (01, 02, mtn, etc.)
-    const networkNorm = this.nellobyte.isEnabled()
-      ? this.normalizeNetworkForPlans(data.network)
-      : data.network;
-    const plans = await this.getDataPlans(networkNorm);
-    const planCodeNorm = String(data.planCode ?? '').trim();
+    const plans = await this.getDataPlans(network, provider);
+    const planCodeNorm = String(planCode ?? '').trim();
     const plan = plans.find(
       (p: any) =>
         String(p.plan_code ?? '').trim().toLowerCase() === planCodeNorm.toLowerCase() ||
@@ -219,18 +250,35 @@ export class BillsService {
     );
 
     if (!plan) {
-      this.logger.warn(`buyData: plan not found. network=${data.network} (norm=${networkNorm}), planCode=${planCodeNorm}, plansCount=${plans.length}`);
+      this.logger.warn(`buyData: plan not found. network=${network}, planCode=${planCodeNorm}, plansCount=${plans.length}`);
       throw new BadRequestException(
-        `Invalid data plan selected. Please choose a plan from the list (network: ${data.network}, plan code: ${planCodeNorm}).`,
+        `Invalid data plan selected. Please choose a plan from the list (network: ${network}, plan code: ${planCodeNorm}).`,
       );
     }
+    return plan;
+  }
+
+  async buyData(
+    userId: string,
+    data: { phoneNumber: string; planCode: string; network: string },
+    reference = `DATA-${uuid()}`,
+  ) {
+    if (!data.phoneNumber || !/^0[789]\d{9}$/.test(data.phoneNumber)) {
+      throw new BadRequestException('Enter a valid Nigerian phone number');
+    }
 
+    const route = await this.routeFor(
+      'data',
+      'Data purchases are temporarily unavailable. Please try again later.',
+    );
+    const planned = route[0].name;
+    const plan = await this.findDataPlan(data.network, data.planCode, route[0]);
     const planPrice = new Decimal(plan.price ?? 0);
     if (planPrice.isZero()) {
       throw new BadRequestException('Could not determine plan price');
     }
 
-    const reference = `DATA-${uuid()}`;
+    await this.holds.checkHeldFunds(userId, planPrice);
 
     const tx = await this.prisma.$transaction(async (prisma) => {
       const balance = await prisma.balance.findUnique({
@@ -242,12 +290,9 @@ export class BillsService {
         throw new BadRequestException('Insufficient balance');
       }
 
-      const afterBalance = currentBalance.sub(planPrice);
-
-      await prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: { amount: afterBalance.toNumber(), lastUpdatedBy: 'bills_service' },
-      });
+      const posting = await this.debitForBill(prisma, userId, reference, planned, planPrice);
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
 
       const transaction = await prisma.transaction.create({
         data: {
@@ -258,7 +303,7 @@ export class BillsService {
           status: 'PENDING',
           idempotencyKey: reference,
           reference,
-          beforeBalance: currentBalance.toNumber(),
+          beforeBalance: beforeBalance.toNumber(),
           afterBalance: afterBalance.toNumber(),
           metadata: {
             billType: 'data',
@@ -267,7 +312,7 @@ export class BillsService {
             planCode: data.planCode,
             planName: plan.name,
             planPrice: planPrice.toString(),
-            provider: this.getProvider(),
+            provider: planned,
           },
         },
       });
@@ -275,39 +320,49 @@ export class BillsService {
       return { transaction, afterBalance };
     });
 
-    const provider = this.getProvider();
-    const result =
-      provider === 'nellobyte'
-        ? await this.nellobyte.buyData({
-            network: data.network,
-            phoneNumber: data.phoneNumber,
-            planCode: data.planCode,
-          })
-        : await this.peyflex.buyData({
-            network: data.network,
-            phoneNumber: data.phoneNumber,
-            planCode: data.planCode,
-          });
+    const { provider, status, result } = await this.routing.purchase(
+      'data',
+      reference,
+      route,
+      (p) =>
+        p.buyData({
+          network: data.network,
+          phoneNumber: data.phoneNumber,
+          planCode: data.planCode,
+        }),
+    );
 
-    if (!result.success) {
+    if (status === 'unknown') {
+      return this.awaitConfirmation(
+        userId,
+        tx.transaction.id,
+        reference,
+        provider,
+        result,
+        tx.afterBalance,
+      );
+    }
+
+    if (status === 'failed') {
       await this.refundTransaction(userId, tx.transaction.id, planPrice, reference);
       throw new BadRequestException(result.message || 'Data purchase failed. You have been refunded.');
     }
 
-    await this.prisma.transaction.update({
-      where: { id: tx.transaction.id },
-      data: {
-        status: 'SUCCESS',
-        metadata: {
-          billType: 'data',
-          network: data.network,
-          phoneNumber: data.phoneNumber,
-          planCode: data.planCode,
-          planName: plan.name,
-          planPrice: planPrice.toString(),
-          provider,
-          providerResponse: result.data,
-        },
+    await this.moveToProvider(reference, planned, provider, planPrice);
+
+    await this.completePurchase(userId, tx.transaction.id, reference, {
+      billType: 'data',
+      amount: planPrice,
+      provider,
+      metadata: {
+        billType: 'data',
+        network: data.network,
+        phoneNumber: data.phoneNumber,
+        planCode: data.planCode,
+        planName: plan.name,
+        planPrice: planPrice.toString(),
+        provider,
+        providerResponse: result.data,
       },
     });
 
@@ -347,13 +402,10 @@ export class BillsService {
   // ── Electricity ────────────────────────────────────────────────────────
 
   async getElectricityDiscos() {
-    const provider = this.getProvider();
-    if (provider === 'nellobyte') {
-      const discos = await this.nellobyte.getElectricityDiscos();
+    for (const provider of await this.routing.route('electricity')) {
+      const discos = await provider.getElectricityDiscos();
       if (discos.length > 0) return discos;
     }
-    const plans = await this.peyflex.getElectricityPlans();
-    if (plans.length > 0) return plans;
     return [
       { id: 'eko-electric', name: 'Eko Electric (EKEDC)' },
       { id: 'ikeja-electric', name: 'Ikeja Electric (IKEDC)' },
@@ -380,19 +432,18 @@ export class BillsService {
     billerCode: string;
   }) {
     const type = input.itemCode.includes('prepaid') ? 'prepaid' : 'postpaid';
-    const provider = this.getProvider();
-    const result =
-      provider === 'nellobyte'
-        ? await this.nellobyte.verifyMeter({
-            meterNumber: input.meterNumber,
-            plan: input.billerCode,
-            type,
-          })
-        : await this.peyflex.verifyMeter({
-            meterNumber: input.meterNumber,
-            plan: input.billerCode,
-            type,
-          });
+    const [provider] = await this.routing.route('electricity');
+    if (!provider) {
+      return {
+        success: false,
+        message: 'Meter validation is temporarily unavailable',
+      };
+    }
+    const result = await provider.verifyMeter({
+      meterNumber: input.meterNumber,
+      plan: input.billerCode,
+      type,
+    });
 
     if (!result.success) {
       return { success: false, message: result.message || 'Meter validation failed' };
@@ -420,6 +471,7 @@ export class BillsService {
       fee?: number;
       phoneNumber?: string;
     },
+    reference = `ELEC-${uuid()}`,
   ) {
     if (data.amount < 500) {
       throw new BadRequestException('Minimum electricity purchase is ₦500');
@@ -435,7 +487,13 @@ export class BillsService {
     const amount = new Decimal(data.amount);
     const fee = new Decimal(data.fee ?? ELECTRICITY_FEE);
     const totalDebit = amount.add(fee);
-    const reference = `ELEC-${uuid()}`;
+    const route = await this.routeFor(
+      'electricity',
+      'Electricity purchases are temporarily unavailable. Please try again later.',
+    );
+    const planned = route[0].name;
+
+    await this.holds.checkHeldFunds(userId, totalDebit);
 
     const tx = await this.prisma.$transaction(async (prisma) => {
       const balance = await prisma.balance.findUnique({
@@ -449,12 +507,16 @@ export class BillsService {
         );
       }
 
-      const afterBalance = currentBalance.sub(totalDebit);
-
-      await prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: { amount: afterBalance.toNumber(), lastUpdatedBy: 'bills_service' },
-      });
+      const posting = await this.debitForBill(
+        prisma,
+        userId,
+        reference,
+        planned,
+        amount,
+        fee,
+      );
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
 
       const transaction = await prisma.transaction.create({
         data: {
@@ -465,7 +527,7 @@ export class BillsService {
           status: 'PENDING',
           idempotencyKey: reference,
           reference,
-          beforeBalance: currentBalance.toNumber(),
+          beforeBalance: beforeBalance.toNumber(),
           afterBalance: afterBalance.toNumber(),
           metadata: {
             billType: 'electricity',
@@ -474,7 +536,7 @@ export class BillsService {
             meterNumber: data.meterNumber,
             amount: data.amount,
             fee: fee.toNumber(),
-            provider: this.getProvider(),
+            provider: planned,
           },
         },
       });
@@ -482,49 +544,57 @@ export class BillsService {
       return { transaction, afterBalance };
     });
 
-    const provider = this.getProvider();
-    const result =
-      provider === 'nellobyte'
-        ? await this.nellobyte.buyElectricity({
-            meterNumber: data.meterNumber,
-            plan: data.disco,
-            amount: data.amount,
-            type: data.type,
-            phoneNumber: data.phoneNumber || '08000000000',
-          })
-        : await this.peyflex.buyElectricity({
-            meterNumber: data.meterNumber,
-            plan: data.disco,
-            amount: data.amount,
-            type: data.type,
-            phoneNumber: data.phoneNumber || '08000000000',
-          });
+    const { provider, status, result } = await this.routing.purchase(
+      'electricity',
+      reference,
+      route,
+      (p) =>
+        p.buyElectricity({
+          meterNumber: data.meterNumber,
+          plan: data.disco,
+          amount: data.amount,
+          type: data.type,
+          phoneNumber: data.phoneNumber || '08000000000',
+        }),
+    );
 
-    if (!result.success) {
+    if (status === 'unknown') {
+      return this.awaitConfirmation(
+        userId,
+        tx.transaction.id,
+        reference,
+        provider,
+        result,
+        tx.afterBalance,
+      );
+    }
+
+    if (status === 'failed') {
       await this.refundTransaction(userId, tx.transaction.id, totalDebit, reference);
       throw new BadRequestException(
         result.message || 'Electricity purchase failed. You have been refunded.',
       );
     }
 
+    await this.moveToProvider(reference, planned, provider, amount);
+
     const token: string | null =
       result.data?.token ?? result.data?.Token ?? result.data?.metertoken ?? null;
 
-    await this.prisma.transaction.update({
-      where: { id: tx.transaction.id },
-      data: {
-        status: 'SUCCESS',
-        metadata: {
-          billType: 'electricity',
-          disco: data.disco,
-          meterType: data.type,
-          meterNumber: data.meterNumber,
-          amount: data.amount,
-          fee: fee.toNumber(),
-          token,
-          provider,
-          providerResponse: result.data,
-        },
+    await this.completePurchase(userId, tx.transaction.id, reference, {
+      billType: 'electricity',
+      amount,
+      provider,
+      metadata: {
+        billType: 'electricity',
+        disco: data.disco,
+        meterType: data.type,
+        meterNumber: data.meterNumber,
+        amount: data.amount,
+        fee: fee.toNumber(),
+        token,
+        provider,
+        providerResponse: result.data,
       },
     });
 
@@ -599,31 +669,41 @@ export class BillsService {
     return this.nellobyte.verifyCableSmartcard(cable, card);
   }
 
+  /**
+   * Look up a cable package, or throw if the provider no longer offers it
+   */
+  async findCablePackage(cableTv: string, packageCode: string) {
+    const plans = await this.nellobyte.getCablePackages(cableTv);
+    const plan = plans.find(
+      (p: any) =>
+        (p.package_code ?? p.plan_code ?? p.code) === packageCode,
+    );
+    if (!plan) {
+      throw new BadRequestException('Invalid package selected. Please choose from the list.');
+    }
+    return plan;
+  }
+
   async buyCableTV(
     userId: string,
     data: { cableTv: string; packageCode: string; smartCardNo: string; phoneNumber: string },
+    reference = `CABLETV-${uuid()}`,
   ) {
-    if (!this.nellobyte.isEnabled()) {
-      throw new BadRequestException(
-        'Cable TV subscriptions are not available yet. Please contact support.',
-      );
-    }
+    const route = await this.routeFor(
+      'cable',
+      'Cable TV subscriptions are not available yet. Please contact support.',
+    );
+    const planned = route[0].name;
     const cableTv = (data.cableTv || 'dstv').trim().toLowerCase();
     const packageCode = (data.packageCode || '').trim();
     const smartCardNo = (data.smartCardNo || '').trim();
     if (!packageCode || !smartCardNo || smartCardNo.length < 5) {
       throw new BadRequestException('Select a package and enter a valid smartcard number');
     }
-    const plans = await this.nellobyte.getCablePackages(cableTv);
-    const plan = plans.find(
-      (p: any) =>
-        (p.package_code ?? p.plan_code ?? p.code) === packageCode,
-    );
-    if (!plan) {
-      throw new BadRequestException('Invalid package selected. Please choose from the list.');
-    }
+    const plan = await this.findCablePackage(cableTv, packageCode);
     const amount = new Decimal(plan.price ?? 0);
-    const reference = `CABLETV-${uuid()}`;
+
+    await this.holds.checkHeldFunds(userId, amount);
 
     const tx = await this.prisma.$transaction(async (prisma) => {
       const balance = await prisma.balance.findUnique({
@@ -633,11 +713,9 @@ export class BillsService {
       if (currentBalance.lessThan(amount)) {
         throw new BadRequestException('Insufficient balance');
       }
-      const afterBalance = currentBalance.sub(amount);
-      await prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: { amount: afterBalance.toNumber(), lastUpdatedBy: 'bills_service' },
-      });
+      const posting = await this.debitForBill(prisma, userId, reference, planned, amount);
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
       const transaction = await prisma.transaction.create({
         data: {
           senderId: userId,
@@ -647,35 +725,56 @@ export class BillsService {
           status: 'PENDING',
           idempotencyKey: reference,
           reference,
-          beforeBalance: currentBalance.toNumber(),
+          beforeBalance: beforeBalance.toNumber(),
           afterBalance: afterBalance.toNumber(),
           metadata: {
             billType: 'cable',
             cableTv,
             packageCode,
             smartCardNo,
-            provider: 'nellobyte',
+            provider: planned,
           },
         },
       });
       return { transaction, afterBalance };
     });
 
-    const result = await this.nellobyte.buyCableTV({
-      cableTv,
-      packageCode,
-      smartCardNo,
-      phoneNumber: data.phoneNumber || '08000000000',
-    });
+    const { provider, status, result } = await this.routing.purchase(
+      'cable',
+      reference,
+      route,
+      (p) =>
+        p.buyCableTV!({
+          cableTv,
+          packageCode,
+          smartCardNo,
+          phoneNumber: data.phoneNumber || '08000000000',
+        }),
+    );
 
-    if (!result.success) {
+    if (status === 'unknown') {
+      return this.awaitConfirmation(
+        userId,
+        tx.transaction.id,
+        reference,
+        provider,
+        result,
+        tx.afterBalance,
+      );
+    }
+
+    if (status === 'failed') {
       await this.refundTransaction(userId, tx.transaction.id, amount, reference);
       throw new BadRequestException(result.message || 'Cable TV purchase failed. You have been refunded.');
     }
 
-    await this.prisma.transaction.update({
-      where: { id: tx.transaction.id },
-      data: { status: 'SUCCESS', metadata: { ...(tx.transaction.metadata as object), providerResponse: result.data } },
+    await this.moveToProvider(reference, planned, provider, amount);
+
+    await this.completePurchase(userId, tx.transaction.id, reference, {
+      billType: 'cable',
+      amount,
+      provider,
+      metadata: { ...(tx.transaction.metadata as object), provider, providerResponse: result.data },
     });
 
     await this.prisma.auditLog.create({
@@ -683,11 +782,11 @@ export class BillsService {
         action: 'CABLETV_PURCHASE',
         userId,
         actorType: 'user',
-        metadata: { reference, cableTv, packageCode, amount: amount.toString(), provider: 'nellobyte' },
+        metadata: { reference, cableTv, packageCode, amount: amount.toString(), provider },
       },
     });
 
-    this.logger.log(`Cable TV: ${cableTv} ${packageCode} → ${smartCardNo} by ${userId} via nellobyte`);
+    this.logger.log(`Cable TV: ${cableTv} ${packageCode} → ${smartCardNo} by ${userId} via ${provider}`);
 
     return {
       success: true,
@@ -720,11 +819,11 @@ export class BillsService {
   }
 
   async buyBetting(userId: string, data: { company: string; customerId: string; amount: number }) {
-    if (!this.nellobyte.isEnabled()) {
-      throw new BadRequestException(
-        'Sports betting funding is not available yet. Please contact support or try again later.',
-      );
-    }
+    const route = await this.routeFor(
+      'betting',
+      'Sports betting funding is not available yet. Please contact support or try again later.',
+    );
+    const planned = route[0].name;
     const company = (data.company || '').trim().toUpperCase();
     const customerId = (data.customerId || '').trim();
     if (!company || !customerId) {
@@ -736,6 +835,8 @@ export class BillsService {
     const amount = new Decimal(data.amount);
     const reference = `BET-${uuid()}`;
 
+    await this.holds.checkHeldFunds(userId, amount);
+
     const tx = await this.prisma.$transaction(async (prisma) => {
       const balance = await prisma.balance.findUnique({
         where: { userId_currency: { userId, currency: 'NGN' } },
@@ -744,11 +845,9 @@ export class BillsService {
       if (currentBalance.lessThan(amount)) {
         throw new BadRequestException('Insufficient balance');
       }
-      const afterBalance = currentBalance.sub(amount);
-      await prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: { amount: afterBalance.toNumber(), lastUpdatedBy: 'bills_service' },
-      });
+      const posting = await this.debitForBill(prisma, userId, reference, planned, amount);
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
       const transaction = await prisma.transaction.create({
         data: {
           senderId: userId,
@@ -758,33 +857,54 @@ export class BillsService {
           status: 'PENDING',
           idempotencyKey: reference,
           reference,
-          beforeBalance: currentBalance.toNumber(),
+          beforeBalance: beforeBalance.toNumber(),
           afterBalance: afterBalance.toNumber(),
           metadata: {
             billType: 'betting',
             company,
             customerId,
-            provider: 'nellobyte',
+            provider: planned,
           },
         },
       });
       return { transaction, afterBalance };
     });
 
-    const result = await this.nellobyte.buyBetting({
-      company,
-      customerId,
-      amount: data.amount,
-    });
+    const { provider, status, result } = await this.routing.purchase(
+      'betting',
+      reference,
+      route,
+      (p) =>
+        p.buyBetting!({
+          company,
+          customerId,
+          amount: data.amount,
+        }),
+    );
 
-    if (!result.success) {
+    if (status === 'unknown') {
+      return this.awaitConfirmation(
+        userId,
+        tx.transaction.id,
+        reference,
+        provider,
+        result,
+        tx.afterBalance,
+      );
+    }
+
+    if (status === 'failed') {
       await this.refundTransaction(userId, tx.transaction.id, amount, reference);
       throw new BadRequestException(result.message || 'Betting funding failed. You have been refunded.');
     }
 
-    await this.prisma.transaction.update({
-      where: { id: tx.transaction.id },
-      data: { status: 'SUCCESS', metadata: { ...(tx.transaction.metadata as object), providerResponse: result.data } },
+    await this.moveToProvider(reference, planned, provider, amount);
+
+    await this.completePurchase(userId, tx.transaction.id, reference, {
+      billType: 'betting',
+      amount,
+      provider,
+      metadata: { ...(tx.transaction.metadata as object), provider, providerResponse: result.data },
     });
 
     await this.prisma.auditLog.create({
@@ -792,11 +912,11 @@ export class BillsService {
         action: 'BETTING_PURCHASE',
         userId,
         actorType: 'user',
-        metadata: { reference, company: data.company, customerId: data.customerId, amount: data.amount, provider: 'nellobyte' },
+        metadata: { reference, company: data.company, customerId: data.customerId, amount: data.amount, provider },
       },
     });
 
-    this.logger.log(`Betting: ₦${data.amount} → ${company} ${customerId} by ${userId} via nellobyte`);
+    this.logger.log(`Betting: ₦${data.amount} → ${company} ${customerId} by ${userId} via ${provider}`);
 
     return {
       success: true,
@@ -805,6 +925,269 @@ export class BillsService {
     };
   }
 
+  // ── Unconfirmed orders ────────────────────────────────────────────────
+
+  /**
+   * The provider neither delivered nor rejected the order, so it may still
+   * go through. The debit stays PENDING with the handles requeryPendingOrders
+   * needs; orders that cannot be looked up are flagged for manual review.
+   */
+  private async awaitConfirmation(
+    userId: string,
+    transactionId: string,
+    reference: string,
+    provider: string,
+    result: BillProviderResult,
+    balanceAfter: Decimal,
+  ) {
+    const pendingOrder: PendingOrder = {
+      provider,
+      requestId: result.requestId ?? null,
+      orderId: result.orderId ?? null,
+    };
+    const lookup = Boolean(pendingOrder.requestId || pendingOrder.orderId);
+
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { metadata: true },
+    });
+    await this.prisma.transaction.update({
+      where: { id: transactionId },
+      data: {
+        metadata: {
+          ...(transaction?.metadata as Prisma.JsonObject | null),
+          pendingOrder,
+          awaitingConfirmation: lookup,
+        },
+        ...(lookup
+          ? {}
+          : {
+              isFlagged: true,
+              flagReason: 'Bill order outcome unknown and cannot be looked up',
+            }),
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'BILL_PAYMENT_PENDING',
+        userId,
+        actorType: 'system',
+        metadata: {
+          transactionId,
+          reference,
+          ...pendingOrder,
+          reason: result.message ?? null,
+        },
+      },
+    });
+
+    this.logger.warn(
+      `Bill ${reference} unconfirmed by ${provider}: ${result.message}`,
+    );
+
+    return {
+      success: true,
+      pending: true,
+      data: {
+        reference,
+        status: 'pending',
+        balanceAfter: balanceAfter.toFixed(2),
+      },
+      message:
+        "We're confirming this purchase with the provider. If it does not go through you will be refunded automatically.",
+    };
+  }
+
+  /**
+   * Runs every 5 minutes: looks up orders left unconfirmed by a purchase,
+   * completes the ones the provider delivered and refunds the ones it failed
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async requeryPendingOrders() {
+    if (this.isRequerying) return;
+    this.isRequerying = true;
+
+    try {
+      const pending = await this.prisma.transaction.findMany({
+        where: {
+          type: 'bill_payment',
+          status: 'PENDING',
+          metadata: { path: ['awaitingConfirmation'], equals: true },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: REQUERY_BATCH_SIZE,
+      });
+
+      for (const transaction of pending) {
+        try {
+          await this.settlePendingOrder(transaction);
+        } catch (err) {
+          this.logger.error(
+            `Error requerying bill ${transaction.reference}: ${(err as Error).message}`,
+          );
+        }
+      }
+    } finally {
+      this.isRequerying = false;
+    }
+  }
+
+  private async settlePendingOrder(transaction: Transaction) {
+    const metadata = transaction.metadata as Prisma.JsonObject;
+    const {
+      billType,
+      provider: planned,
+      fee,
+      pendingOrder,
+    } = metadata as unknown as PendingBillMetadata;
+    const reference = transaction.reference ?? transaction.idempotencyKey;
+    const userId = transaction.senderId!;
+    const total = new Decimal(transaction.amount.toString());
+
+    const status = await this.routing.lookup(pendingOrder.provider, {
+      requestId: pendingOrder.requestId ?? undefined,
+      orderId: pendingOrder.orderId ?? undefined,
+    });
+
+    if (status === 'failed') {
+      await this.refundTransaction(userId, transaction.id, total, reference);
+      return;
+    }
+
+    if (status === 'success') {
+      const amount = total.sub(fee ?? 0);
+      await this.moveToProvider(
+        reference,
+        planned,
+        pendingOrder.provider,
+        amount,
+      );
+      await this.completePurchase(userId, transaction.id, reference, {
+        billType: billType ?? 'bill',
+        amount,
+        provider: pendingOrder.provider,
+        metadata: {
+          ...metadata,
+          provider: pendingOrder.provider,
+          awaitingConfirmation: false,
+        },
+      });
+      this.logger.log(
+        `Bill ${reference} confirmed by ${pendingOrder.provider}`,
+      );
+      return;
+    }
+
+    if (
+      !transaction.isFlagged &&
+      Date.now() - transaction.createdAt.getTime() > REQUERY_FLAG_AFTER_MS
+    ) {
+      await this.prisma.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          isFlagged: true,
+          flagReason: `Bill order still unconfirmed by ${pendingOrder.provider}`,
+        },
+      });
+    }
+  }
+
+  // ── Ledger helpers ────────────────────────────────────────────────────
+
+  private debitForBill(
+    prisma: Prisma.TransactionClient,
+    userId: string,
+    reference: string,
+    provider: string,
+    amount: Decimal,
+    fee: Decimal = new Decimal(0),
+  ) {
+    return this.ledger.post(prisma, {
+      reference,
+      type: 'bill_payment',
+      metadata: { provider },
+      legs: [
+        {
+          account: LedgerService.user(userId),
+          direction: 'debit',
+          amount: amount.add(fee),
+        },
+        {
+          account: LedgerService.external(provider),
+          direction: 'credit',
+          amount,
+        },
+        { account: LedgerService.fees(), direction: 'credit', amount: fee },
+      ],
+    });
+  }
+
+  /**
+   * The debit credited the first provider in the route. When another one
+   * fulfilled the purchase after a failover, move that credit across so each
+   * EXTERNAL account matches what the provider actually sold.
+   */
+  private async moveToProvider(
+    reference: string,
+    planned: string,
+    provider: string,
+    amount: Decimal,
+  ) {
+    if (planned === provider) return;
+    try {
+      await this.prisma.$transaction((prisma) =>
+        this.ledger.transfer(prisma, {
+          reference,
+          type: 'bill_reroute',
+          from: LedgerService.external(planned),
+          to: LedgerService.external(provider),
+          amount,
+          metadata: { from: planned, to: provider },
+        }),
+      );
+    } catch (err) {
+      this.logger.error(
+        `CRITICAL: Could not move ${reference} from ${planned} to ${provider}: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Mark the purchase successful and record BillPurchased with it
+   */
+  private async completePurchase(
+    userId: string,
+    transactionId: string,
+    reference: string,
+    purchase: {
+      billType: string;
+      amount: Decimal;
+      provider: string;
+      metadata: Prisma.InputJsonValue;
+    },
+  ) {
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.transaction.update({
+        where: { id: transactionId },
+        data: { status: 'SUCCESS', metadata: purchase.metadata },
+      });
+      await this.outbox.record(
+        prisma,
+        'BillPurchased',
+        {
+          transactionId,
+          reference,
+          userId,
+          billType: purchase.billType,
+          amount: purchase.amount.toString(),
+          provider: purchase.provider,
+        },
+        transactionId,
+      );
+    });
+  }
+
   // ── Refund helper ─────────────────────────────────────────────────────
 
   private async refundTransaction(
@@ -815,22 +1198,26 @@ export class BillsService {
   ) {
     try {
       await this.prisma.$transaction(async (prisma) => {
-        const balance = await prisma.balance.findUnique({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-        });
-
-        const current = new Decimal(balance?.amount?.toString() ?? '0');
-        const refunded = current.add(amount);
+        await this.ledger.reverse(prisma, reference, 'refund');
 
-        await prisma.balance.update({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-          data: { amount: refunded.toNumber(), lastUpdatedBy: 'bills_refund' },
-        });
-
-        await prisma.transaction.update({
+        const failed = await prisma.transaction.update({
           where: { id: transactionId },
           data: { status: 'FAILED' },
         });
+        const metadata = failed.metadata as { billType?: string } | null;
+
+        await this.outbox.record(
+          prisma,
+          'BillRefunded',
+          {
+            transactionId,
+            reference,
+            userId,
+            billType: metadata?.billType || 'bill',
+            amount: amount.toString(),
+          },
+          transactionId,
+        );
       });
 
       await this.prisma.auditLog.create({
@@ -49,6 +49,21 @@ export class CardsController {
     );
   }
 
+  @UseGuards(AuthGuard)
+  @Post(':id/fund')
+  fundCard(
+    @Request() req: { user: { userId: string } },
+    @Param('id') cardId: string,
+    @Body() body: { amount: number; pin: string },
+  ) {
+    return this.cardsService.fundCard(
+      req.user.userId,
+      cardId,
+      Number(body.amount),
+      body.pin,
+    );
+  }
+
   @UseGuards(AuthGuard)
   @Delete(':id')
   deleteCard(
@@ -2,8 +2,11 @@ import { Module } from '@nestjs/common';
 import { CardsController } from './cards.controller';
 import { CardsService } from './cards.service';
 import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { HoldsModule } from '../holds/holds.module';
 
 @Module({
+  imports: [LedgerModule, HoldsModule],
   controllers: [CardsController],
   providers: [CardsService, PrismaService],
   exports: [CardsService],
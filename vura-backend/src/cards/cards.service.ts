@@ -7,8 +7,11 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import { EncryptionService } from '../services/encryption.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { HoldsService } from '../holds/holds.service';
 import { v4 as uuidv4 } from 'uuid';
 import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
 
 export interface Card {
   id: string;
@@ -27,7 +30,11 @@ export interface Card {
 export class CardsService {
   private readonly logger = new Logger(CardsService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private holds: HoldsService,
+  ) {}
 
   async createCard(
     userId: string,
@@ -211,6 +218,105 @@ export class CardsService {
     };
   }
 
+  /**
+   * Move money from the user's wallet onto a card.
+   */
+  async fundCard(
+    userId: string,
+    cardId: string,
+    amount: number,
+    pin: string,
+  ): Promise<Card> {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('Invalid amount');
+    }
+
+    const card = await this.prisma.card.findFirst({
+      where: {
+        id: cardId,
+        userId,
+        status: { not: 'deleted' },
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundException('Card not found');
+    }
+
+    if (card.status !== 'active') {
+      throw new BadRequestException('Unfreeze the card before funding it');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { hashedPin: true },
+    });
+    if (
+      !user?.hashedPin ||
+      !(await bcrypt.compare(pin || '', user.hashedPin))
+    ) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+
+    await this.holds.checkHeldFunds(userId, new Decimal(amount), card.currency);
+
+    const reference = `CARD-FUND-${uuidv4()}`;
+
+    const updatedCard = await this.prisma.$transaction(async (tx) => {
+      const posting = await this.ledger.transfer(tx, {
+        reference,
+        type: 'card_funding',
+        currency: card.currency,
+        from: LedgerService.user(userId, card.currency),
+        to: LedgerService.card(cardId, card.currency),
+        amount,
+      });
+      const { before, after } =
+        posting.balances[LedgerService.user(userId, card.currency)];
+
+      await tx.transaction.create({
+        data: {
+          senderId: userId,
+          amount,
+          currency: card.currency,
+          type: 'card_funding',
+          status: 'SUCCESS',
+          idempotencyKey: reference,
+          reference,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          metadata: { cardId, last4: card.last4 },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'FUND_CARD',
+          userId,
+          actorType: 'user',
+          metadata: { cardId, amount, reference },
+        },
+      });
+
+      return tx.card.findUniqueOrThrow({ where: { id: cardId } });
+    });
+
+    this.logger.log(`Card ${cardId} funded with ${amount} by user ${userId}`);
+
+    return {
+      id: updatedCard.id,
+      type: updatedCard.type as 'Virtual' | 'Physical',
+      last4: updatedCard.last4,
+      expiry: updatedCard.expiry,
+      balance: Number(updatedCard.balance),
+      status: updatedCard.status as 'active' | 'frozen',
+      cardNumber: `•••• •••• •••• ${updatedCard.last4}`,
+      cvv: '***',
+      pin: '****',
+      createdAt: updatedCard.createdAt,
+    };
+  }
+
   async deleteCard(
     userId: string,
     cardId: string,
@@ -0,0 +1,132 @@
+import { BadRequestException } from '@nestjs/common';
+import { base58check as base58checkCoder, bech32, bech32m } from '@scure/base';
+import { sha256 } from '@noble/hashes/sha2';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+export const base58check = base58checkCoder(sha256);
+
+// Base58check version bytes
+const TRON_PREFIX = 0x41;
+const BTC_P2PKH = 0x00;
+const BTC_P2SH = 0x05;
+
+/** EIP-55 mixed-case checksum encoding of a 20-byte address */
+export function toChecksumAddress(address: Uint8Array | string): string {
+  const hex =
+    typeof address === 'string'
+      ? address.replace(/^0x/i, '').toLowerCase()
+      : bytesToHex(address);
+  const hash = bytesToHex(keccak_256(hex));
+  let out = '0x';
+  for (let i = 0; i < hex.length; i++) {
+    out += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i];
+  }
+  return out;
+}
+
+/** Base58 TRON address for a 20-byte account id */
+export function tronAddress(account: Uint8Array): string {
+  return base58check.encode(Uint8Array.from([TRON_PREFIX, ...account]));
+}
+
+/** The 20-byte account id behind a base58 TRON address */
+export function tronAccountBytes(address: string): Uint8Array {
+  const decoded = decodeBase58check(address);
+  if (decoded?.length !== 21 || decoded[0] !== TRON_PREFIX) {
+    throw new BadRequestException('Not a valid TRC20 address');
+  }
+  return decoded.slice(1);
+}
+
+/**
+ * Check that an address is well-formed for the network, checksum included,
+ * and return it in the form we store: EIP-55 for BEP20 and lowercase for
+ * bech32 BTC addresses.
+ */
+export function normalizeAddress(network: string, address: string): string {
+  const value = (address || '').trim();
+  switch (network.toUpperCase()) {
+    case 'TRC20':
+      tronAccountBytes(value);
+      return value;
+    case 'BEP20':
+      return normalizeEvmAddress(value);
+    case 'BTC':
+      return normalizeBitcoinAddress(value);
+    default:
+      throw new BadRequestException(`Unsupported network ${network}`);
+  }
+}
+
+function normalizeEvmAddress(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new BadRequestException('Not a valid BEP20 address');
+  }
+  const checksummed = toChecksumAddress(address);
+  const body = address.slice(2);
+  // All-lowercase and all-uppercase addresses carry no checksum
+  const mixedCase = body !== body.toLowerCase() && body !== body.toUpperCase();
+  if (mixedCase && checksummed !== address) {
+    throw new BadRequestException(
+      'BEP20 address checksum does not match. Check for typos.',
+    );
+  }
+  if (/^0x0{40}$/.test(address)) {
+    throw new BadRequestException('Cannot send to the zero address');
+  }
+  return checksummed;
+}
+
+function normalizeBitcoinAddress(address: string): string {
+  if (/^bc1/i.test(address)) {
+    if (
+      address !== address.toLowerCase() &&
+      address !== address.toUpperCase()
+    ) {
+      throw new BadRequestException('Not a valid BTC address');
+    }
+    const lower = address.toLowerCase();
+    if (!isSegwitAddress(lower)) {
+      throw new BadRequestException('Not a valid BTC address');
+    }
+    return lower;
+  }
+
+  const decoded = decodeBase58check(address);
+  if (
+    decoded?.length !== 21 ||
+    (decoded[0] !== BTC_P2PKH && decoded[0] !== BTC_P2SH)
+  ) {
+    throw new BadRequestException('Not a valid BTC address');
+  }
+  return address;
+}
+
+// BIP-173/350: version 0 programs use bech32, later versions bech32m
+function isSegwitAddress(address: string): boolean {
+  const v0 = bech32.decodeUnsafe(address, 90);
+  if (v0?.prefix === 'bc' && v0.words[0] === 0) {
+    const program = bech32.fromWordsUnsafe(v0.words.slice(1));
+    return !!program && (program.length === 20 || program.length === 32);
+  }
+  const v1 = bech32m.decodeUnsafe(address, 90);
+  if (v1?.prefix === 'bc' && v1.words[0] >= 1 && v1.words[0] <= 16) {
+    const program = bech32m.fromWordsUnsafe(v1.words.slice(1));
+    return !!program && program.length >= 2 && program.length <= 40;
+  }
+  return false;
+}
+
+function decodeBase58check(address: string): Uint8Array | null {
+  try {
+    return base58check.decode(address);
+  } catch {
+    return null;
+  }
+}
+
+/** The 20 bytes behind a 0x-prefixed EVM address */
+export function evmAddressBytes(address: string): Uint8Array {
+  return hexToBytes(address.replace(/^0x/i, '').toLowerCase());
+}
@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import Decimal from 'decimal.js';
+import { hexToBytes } from '@noble/hashes/utils';
+import { base58check } from './address-codec';
 
 export interface VerifiedTransaction {
   found: boolean;
@@ -17,12 +19,12 @@ export interface VerifiedTransaction {
 }
 
 // USDT contract addresses per network
-const USDT_CONTRACTS: Record<string, string> = {
+export const USDT_CONTRACTS: Record<string, string> = {
   TRC20: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
   BEP20: '0x55d398326f99059fF775485246999027B3197955',
 };
 
-const MIN_CONFIRMATIONS: Record<string, number> = {
+export const MIN_CONFIRMATIONS: Record<string, number> = {
   TRC20: 19,
   BEP20: 15,
   BTC: 3,
@@ -33,18 +35,11 @@ export class BlockchainMonitorService {
   private readonly logger = new Logger(BlockchainMonitorService.name);
   private readonly bscscanKey: string;
   private readonly trongridKey: string;
-  private readonly businessWallets: Record<string, string>;
 
   constructor(private config: ConfigService) {
     this.bscscanKey = this.config.get('BSCSCAN_API_KEY') || '';
     this.trongridKey = this.config.get('TRONGRID_API_KEY') || '';
 
-    this.businessWallets = {
-      USDT_TRC20: (this.config.get('BUSINESS_USDT_TRC20_ADDRESS') || '').toLowerCase(),
-      USDT_BEP20: (this.config.get('BUSINESS_USDT_BEP20_ADDRESS') || '').toLowerCase(),
-      BTC_BTC: (this.config.get('BUSINESS_BTC_ADDRESS') || '').toLowerCase(),
-    };
-
     if (!this.bscscanKey) {
       this.logger.warn('BSCSCAN_API_KEY not set — BSC verification will be limited');
     }
@@ -58,14 +53,14 @@ export class BlockchainMonitorService {
   }
 
   // ─────────────────────────────────────────────────────────────────────
-  //  VERIFY BY TX HASH  — instant check when user provides a hash
+  //  VERIFY BY TX HASH  — what the tx paid to a user's deposit address
   // ─────────────────────────────────────────────────────────────────────
 
   async verifyByTxHash(
     txHash: string,
     expectedAsset: string,
     expectedNetwork: string,
-    expectedAmount: Decimal,
+    depositAddress: string,
   ): Promise<VerifiedTransaction> {
     const notFound: VerifiedTransaction = {
       found: false,
@@ -81,13 +76,13 @@ export class BlockchainMonitorService {
 
     try {
       if (expectedAsset === 'USDT' && expectedNetwork === 'TRC20') {
-        return await this.verifyTronTx(txHash, expectedAmount);
+        return await this.verifyTronTx(txHash, depositAddress);
       }
       if (expectedAsset === 'USDT' && expectedNetwork === 'BEP20') {
-        return await this.verifyBscTokenTx(txHash, expectedAmount);
+        return await this.verifyBscTokenTx(txHash, depositAddress);
       }
       if (expectedAsset === 'BTC' && expectedNetwork === 'BTC') {
-        return await this.verifyBtcTx(txHash, expectedAmount);
+        return await this.verifyBtcTx(txHash, depositAddress);
       }
 
       this.logger.warn(`No verifier for ${expectedAsset}/${expectedNetwork}`);
@@ -99,37 +94,37 @@ export class BlockchainMonitorService {
   }
 
   // ─────────────────────────────────────────────────────────────────────
-  //  SCAN WALLET — find recent incoming txs to the business wallet
+  //  SCAN ADDRESS — find recent incoming txs to a user's deposit address
   // ─────────────────────────────────────────────────────────────────────
 
-  async scanWalletForDeposits(
+  /**
+   * Throws on API errors so the caller can retry the same window later
+   * instead of skipping past deposits it never saw.
+   */
+  async scanAddressForDeposits(
     asset: string,
     network: string,
+    address: string,
     sinceTimestamp: number,
   ): Promise<VerifiedTransaction[]> {
-    try {
-      if (asset === 'USDT' && network === 'TRC20') {
-        return await this.scanTronWallet(sinceTimestamp);
-      }
-      if (asset === 'USDT' && network === 'BEP20') {
-        return await this.scanBscWallet(sinceTimestamp);
-      }
-      if (asset === 'BTC' && network === 'BTC') {
-        return await this.scanBtcWallet(sinceTimestamp);
-      }
-      return [];
-    } catch (err) {
-      this.logger.error(`scanWallet failed for ${asset}/${network}: ${(err as Error).message}`);
-      return [];
+    if (asset === 'USDT' && network === 'TRC20') {
+      return this.scanTronWallet(address, sinceTimestamp);
     }
+    if (asset === 'USDT' && network === 'BEP20') {
+      return this.scanBscWallet(address, sinceTimestamp);
+    }
+    if (asset === 'BTC' && network === 'BTC') {
+      return this.scanBtcWallet(address, sinceTimestamp);
+    }
+    return [];
   }
 
   // ─────────────────────────────────────────────────────────────────────
   //  TRON (TRC20 USDT) — via TronGrid (free, no key needed)
   // ─────────────────────────────────────────────────────────────────────
 
-  private async verifyTronTx(txHash: string, expectedAmount: Decimal): Promise<VerifiedTransaction> {
-    const walletAddr = this.businessWallets['USDT_TRC20'];
+  private async verifyTronTx(txHash: string, depositAddress: string): Promise<VerifiedTransaction> {
+    const walletAddr = depositAddress.toLowerCase();
     const res = await axios.get(
       `https://api.trongrid.io/v1/transactions/${txHash}/events`,
       { timeout: 10000, headers: this.trongridHeaders() },
@@ -137,53 +132,49 @@ export class BlockchainMonitorService {
 
     const events = res.data?.data || [];
 
-    // Look for a TRC20 Transfer event to our wallet
+    // Sum every USDT Transfer event paying the deposit address
+    let amount = new Decimal(0);
+    let from = '';
+    let blockTimestamp: number | undefined;
     for (const event of events) {
       if (event.event_name !== 'Transfer') continue;
 
-      const to = (event.result?.to || '').toLowerCase();
-      const contractAddr = (event.contract_address || '').toLowerCase();
-      const rawValue = event.result?.value || '0';
+      const to = this.tronBase58(event.result?.to || '').toLowerCase();
+      const contractAddr = this.tronBase58(event.contract_address || '').toLowerCase();
+      if (to !== walletAddr || contractAddr !== USDT_CONTRACTS.TRC20.toLowerCase()) continue;
 
       // USDT on Tron has 6 decimals
-      const amount = new Decimal(rawValue).div(1e6);
-
-      if (
-        to === walletAddr &&
-        contractAddr === USDT_CONTRACTS.TRC20.toLowerCase() &&
-        this.amountMatches(amount, expectedAmount)
-      ) {
-        // Get block info for confirmations
-        const txInfo = await axios.get(
-          `https://api.trongrid.io/wallet/gettransactioninfobyid?value=${txHash}`,
-          { timeout: 10000, headers: this.trongridHeaders() },
-        );
-        const blockNumber = txInfo.data?.blockNumber || 0;
-        const latestBlock = await this.getTronLatestBlock();
-        const confirmations = latestBlock > 0 ? latestBlock - blockNumber : 0;
-
-        return {
-          found: true,
-          txHash,
-          from: event.result?.from || '',
-          to,
-          amount,
-          asset: 'USDT',
-          network: 'TRC20',
-          confirmations,
-          confirmed: confirmations >= MIN_CONFIRMATIONS.TRC20,
-          blockTimestamp: event.block_timestamp,
-        };
-      }
+      amount = amount.add(new Decimal(event.result?.value || '0').div(1e6));
+      from = this.tronBase58(event.result?.from || '');
+      blockTimestamp = event.block_timestamp;
     }
 
-    return this.notFound(txHash, 'USDT', 'TRC20');
-  }
+    if (amount.isZero()) return this.notFound(txHash, 'USDT', 'TRC20');
 
-  private async scanTronWallet(sinceTimestamp: number): Promise<VerifiedTransaction[]> {
-    const walletAddr = this.config.get('BUSINESS_USDT_TRC20_ADDRESS') || '';
-    if (!walletAddr) return [];
+    // Get block info for confirmations
+    const txInfo = await axios.get(
+      `https://api.trongrid.io/wallet/gettransactioninfobyid?value=${txHash}`,
+      { timeout: 10000, headers: this.trongridHeaders() },
+    );
+    const blockNumber = txInfo.data?.blockNumber || 0;
+    const latestBlock = await this.getTronLatestBlock();
+    const confirmations = latestBlock > 0 && blockNumber > 0 ? latestBlock - blockNumber : 0;
 
+    return {
+      found: true,
+      txHash,
+      from,
+      to: depositAddress,
+      amount,
+      asset: 'USDT',
+      network: 'TRC20',
+      confirmations,
+      confirmed: confirmations >= MIN_CONFIRMATIONS.TRC20,
+      blockTimestamp,
+    };
+  }
+
+  private async scanTronWallet(walletAddr: string, sinceTimestamp: number): Promise<VerifiedTransaction[]> {
     const res = await axios.get(
       `https://api.trongrid.io/v1/accounts/${walletAddr}/transactions/trc20`,
       {
@@ -207,7 +198,6 @@ export class BlockchainMonitorService {
       if (to !== walletAddr.toLowerCase()) continue;
 
       const amount = new Decimal(tx.value || '0').div(1e6);
-      const blockNumber = tx.block_timestamp ? 0 : 0;
       const confirmations = latestBlock > 0 && tx.block_timestamp
         ? Math.max(0, Math.floor((Date.now() - tx.block_timestamp) / 3000))
         : 0;
@@ -246,8 +236,8 @@ export class BlockchainMonitorService {
   //  BSC (BEP20 USDT) — via BscScan API (free tier, key recommended)
   // ─────────────────────────────────────────────────────────────────────
 
-  private async verifyBscTokenTx(txHash: string, expectedAmount: Decimal): Promise<VerifiedTransaction> {
-    const walletAddr = this.businessWallets['USDT_BEP20'];
+  private async verifyBscTokenTx(txHash: string, depositAddress: string): Promise<VerifiedTransaction> {
+    const walletAddr = depositAddress.toLowerCase();
 
     const params: any = {
       module: 'proxy',
@@ -266,48 +256,45 @@ export class BlockchainMonitorService {
       return this.notFound(txHash, 'USDT', 'BEP20');
     }
 
-    // Parse Transfer logs for USDT contract
+    // Sum USDT Transfer logs paying the deposit address
     const usdtContract = USDT_CONTRACTS.BEP20.toLowerCase();
+    // Transfer topic: keccak256("Transfer(address,address,uint256)")
+    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    let amount = new Decimal(0);
     for (const log of receipt.logs || []) {
       if (log.address?.toLowerCase() !== usdtContract) continue;
-
-      // Transfer topic: keccak256("Transfer(address,address,uint256)")
-      const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
       if (log.topics?.[0] !== transferTopic) continue;
 
       const to = '0x' + (log.topics?.[2] || '').slice(26).toLowerCase();
+      if (to !== walletAddr) continue;
 
       // USDT on BSC has 18 decimals
       const rawValue = log.data || '0x0';
-      const amount = new Decimal(BigInt(rawValue).toString()).div(new Decimal(10).pow(18));
+      amount = amount.add(new Decimal(BigInt(rawValue).toString()).div(new Decimal(10).pow(18)));
+    }
 
-      if (to === walletAddr && this.amountMatches(amount, expectedAmount)) {
-        // Get confirmations
-        const blockHex = receipt.blockNumber;
-        const blockNumber = parseInt(blockHex, 16);
-        const latestBlock = await this.getBscLatestBlock();
-        const confirmations = latestBlock > 0 ? latestBlock - blockNumber : 0;
+    if (amount.isZero()) return this.notFound(txHash, 'USDT', 'BEP20');
 
-        return {
-          found: true,
-          txHash,
-          from: receipt.from || '',
-          to,
-          amount,
-          asset: 'USDT',
-          network: 'BEP20',
-          confirmations,
-          confirmed: confirmations >= MIN_CONFIRMATIONS.BEP20,
-        };
-      }
-    }
+    // Get confirmations
+    const blockNumber = parseInt(receipt.blockNumber, 16);
+    const latestBlock = await this.getBscLatestBlock();
+    const confirmations = latestBlock > 0 ? latestBlock - blockNumber : 0;
 
-    return this.notFound(txHash, 'USDT', 'BEP20');
+    return {
+      found: true,
+      txHash,
+      from: receipt.from || '',
+      to: depositAddress,
+      amount,
+      asset: 'USDT',
+      network: 'BEP20',
+      confirmations,
+      confirmed: confirmations >= MIN_CONFIRMATIONS.BEP20,
+    };
   }
 
-  private async scanBscWallet(sinceTimestamp: number): Promise<VerifiedTransaction[]> {
-    const walletAddr = this.config.get('BUSINESS_USDT_BEP20_ADDRESS') || '';
-    if (!walletAddr || !this.bscscanKey) return [];
+  private async scanBscWallet(walletAddr: string, sinceTimestamp: number): Promise<VerifiedTransaction[]> {
+    if (!this.bscscanKey) return [];
 
     const startBlock = await this.estimateBscBlock(sinceTimestamp);
 
@@ -377,8 +364,8 @@ export class BlockchainMonitorService {
   //  BITCOIN — via Mempool.space API (open-source, free, no key needed)
   // ─────────────────────────────────────────────────────────────────────
 
-  private async verifyBtcTx(txHash: string, expectedAmount: Decimal): Promise<VerifiedTransaction> {
-    const walletAddr = this.businessWallets['BTC_BTC'];
+  private async verifyBtcTx(txHash: string, depositAddress: string): Promise<VerifiedTransaction> {
+    const walletAddr = depositAddress.toLowerCase();
 
     const res = await axios.get(
       `https://mempool.space/api/tx/${txHash}`,
@@ -388,39 +375,36 @@ export class BlockchainMonitorService {
     const tx = res.data;
     if (!tx) return this.notFound(txHash, 'BTC', 'BTC');
 
+    // Sum every output paying the deposit address (BTC amounts are in satoshis)
+    let amount = new Decimal(0);
     for (const vout of tx.vout || []) {
       const scriptAddr = (vout.scriptpubkey_address || '').toLowerCase();
-      // BTC amounts are in satoshis
-      const amount = new Decimal(vout.value || 0).div(1e8);
+      if (scriptAddr !== walletAddr) continue;
+      amount = amount.add(new Decimal(vout.value || 0).div(1e8));
+    }
 
-      if (scriptAddr === walletAddr && this.amountMatches(amount, expectedAmount)) {
-        const confirmed = tx.status?.confirmed === true;
-        const blockHeight = tx.status?.block_height || 0;
-        const tipHeight = await this.getBtcTipHeight();
-        const confirmations = confirmed && tipHeight > 0 ? tipHeight - blockHeight + 1 : 0;
+    if (amount.isZero()) return this.notFound(txHash, 'BTC', 'BTC');
 
-        return {
-          found: true,
-          txHash,
-          from: 'bitcoin',
-          to: scriptAddr,
-          amount,
-          asset: 'BTC',
-          network: 'BTC',
-          confirmations,
-          confirmed: confirmations >= MIN_CONFIRMATIONS.BTC,
-          blockTimestamp: tx.status?.block_time ? tx.status.block_time * 1000 : undefined,
-        };
-      }
-    }
+    const confirmed = tx.status?.confirmed === true;
+    const blockHeight = tx.status?.block_height || 0;
+    const tipHeight = await this.getBtcTipHeight();
+    const confirmations = confirmed && tipHeight > 0 ? tipHeight - blockHeight + 1 : 0;
 
-    return this.notFound(txHash, 'BTC', 'BTC');
+    return {
+      found: true,
+      txHash,
+      from: 'bitcoin',
+      to: depositAddress,
+      amount,
+      asset: 'BTC',
+      network: 'BTC',
+      confirmations,
+      confirmed: confirmations >= MIN_CONFIRMATIONS.BTC,
+      blockTimestamp: tx.status?.block_time ? tx.status.block_time * 1000 : undefined,
+    };
   }
 
-  private async scanBtcWallet(sinceTimestamp: number): Promise<VerifiedTransaction[]> {
-    const walletAddr = this.config.get('BUSINESS_BTC_ADDRESS') || '';
-    if (!walletAddr) return [];
-
+  private async scanBtcWallet(walletAddr: string, sinceTimestamp: number): Promise<VerifiedTransaction[]> {
     const res = await axios.get(
       `https://mempool.space/api/address/${walletAddr}/txs`,
       { timeout: 10000 },
@@ -473,12 +457,15 @@ export class BlockchainMonitorService {
   //  HELPERS
   // ─────────────────────────────────────────────────────────────────────
 
-  private amountMatches(actual: Decimal, expected: Decimal): boolean {
-    if (expected.isZero()) return actual.greaterThan(0);
-    // Allow 2% tolerance for network fees / rounding
-    const diff = actual.sub(expected).abs();
-    const tolerance = expected.mul(0.02);
-    return diff.lessThanOrEqualTo(tolerance);
+  /**
+   * TronGrid returns some addresses as hex (0x- or 41-prefixed); convert
+   * them to the base58 form our deposit addresses are stored in.
+   */
+  private tronBase58(address: string): string {
+    const hex = address.replace(/^0x/i, '');
+    if (!/^(41)?[0-9a-f]{40}$/i.test(hex)) return address;
+    const body = hex.length === 40 ? `41${hex}` : hex;
+    return base58check.encode(hexToBytes(body));
   }
 
   private notFound(txHash: string, asset: string, network: string): VerifiedTransaction {
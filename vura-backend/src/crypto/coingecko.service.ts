@@ -14,40 +14,17 @@ export class CoinGeckoService {
   private readonly baseUrl = 'https://api.coingecko.com/api/v3';
   private readonly apiKey: string;
 
-  private readonly businessWallets: Record<string, { address: string; network: string }>;
+  // Platform spread taken off the market rate, as a fraction (0.01 = 1%)
+  readonly spread: Decimal;
 
   private rateCache: Map<string, { rate: Decimal; expiresAt: Date }> = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000;
 
   constructor(private config: ConfigService) {
     this.apiKey = this.config.get('COINGECKO_API_KEY') || '';
-
-    // Static business wallet addresses — set these in your environment variables.
-    // Use your own wallet addresses (e.g. Trust Wallet, MetaMask).
-    // If not configured, the endpoint will return an error instead of a fake address.
-    this.businessWallets = {
-      USDT_TRC20: {
-        address: this.config.get('BUSINESS_USDT_TRC20_ADDRESS') || '',
-        network: 'TRC20',
-      },
-      USDT_BEP20: {
-        address: this.config.get('BUSINESS_USDT_BEP20_ADDRESS') || '',
-        network: 'BEP20',
-      },
-      BTC_BTC: {
-        address: this.config.get('BUSINESS_BTC_ADDRESS') || '',
-        network: 'BTC',
-      },
-    };
-
-    const configured = Object.entries(this.businessWallets).filter(([, v]) => v.address);
-    this.logger.log(`Business wallets configured: ${configured.map(([k]) => k).join(', ') || 'NONE'}`);
-
-    if (configured.length === 0) {
-      this.logger.warn(
-        'No business wallet addresses configured! Set BUSINESS_USDT_TRC20_ADDRESS etc. in env.',
-      );
-    }
+    this.spread = new Decimal(
+      this.config.get('CRYPTO_DEPOSIT_SPREAD') || '0.01',
+    );
   }
 
   /**
@@ -123,34 +100,18 @@ export class CoinGeckoService {
   }
 
   /**
-   * Calculate NGN amount for a given crypto amount (with 1% platform spread).
+   * Calculate NGN amount for a given crypto amount (with the platform spread).
    */
   async calculateNgnAmount(
     cryptoAmount: Decimal,
     cryptoAsset: string,
   ): Promise<{ ngnAmount: Decimal; rate: Decimal }> {
     const rate = await this.getRate(cryptoAsset);
-    const adjustedRate = rate.mul(0.99);
+    const adjustedRate = rate.mul(new Decimal(1).sub(this.spread));
     const ngnAmount = cryptoAmount.mul(adjustedRate);
     return { ngnAmount, rate: adjustedRate };
   }
 
-  /**
-   * Get the static business wallet address for a given asset + network.
-   * Returns empty address if not configured (controller will throw).
-   */
-  getDepositAddress(asset: string, network: string): { address: string; network: string } {
-    const key = `${asset.toUpperCase()}_${network.toUpperCase()}`;
-    const wallet = this.businessWallets[key];
-
-    if (!wallet?.address) {
-      this.logger.warn(`No business wallet configured for ${key}`);
-      return { address: '', network };
-    }
-
-    return wallet;
-  }
-
   async testConnection(): Promise<boolean> {
     try {
       await axios.get(`${this.baseUrl}/ping`, { timeout: 5000 });
@@ -0,0 +1,194 @@
+import Decimal from 'decimal.js';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import {
+  bankTransferFee,
+  TransactionsService,
+} from '../transactions/transactions.service';
+import {
+  CreditedCryptoDeposit,
+  CryptoAutoWithdrawService,
+  payoutAmount,
+} from './crypto-auto-withdraw.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+
+// The autoWithdraw record written to the deposit's metadata
+interface Written {
+  metadata: {
+    autoWithdraw: { status: string; amount?: string; reason?: string };
+  };
+}
+
+describe('payoutAmount', () => {
+  it.each([
+    ['1000', '990'],
+    ['5010', '5000'],
+    // ₦5,000 with the ₦10 fee fits, even though 5,020 − 10 is in the ₦25 tier
+    ['5020', '5000'],
+    ['5040', '5015'],
+    ['50030', '50000'],
+    ['100000', '99950'],
+    ['1234.567', '1224.56'],
+    ['5', '0'],
+  ])('sends %s as %s', (credited, expected) => {
+    const amount = payoutAmount(new Decimal(credited));
+
+    expect(amount).toEqual(new Decimal(expected));
+    if (amount.gt(0)) {
+      expect(
+        amount.plus(bankTransferFee(amount.toNumber())).lte(credited),
+      ).toBe(true);
+    }
+  });
+});
+
+/**
+ * Transfers go through a mocked TransactionsService; the database is a stub
+ * whose `$transaction` runs the callback against itself.
+ */
+describe('CryptoAutoWithdrawService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    bankAccount: { findFirst: jest.Mock };
+    transaction: { findUnique: jest.Mock; update: jest.Mock };
+    cryptoDepositTransaction: { findUnique: jest.Mock; update: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let transactions: { sendToBank: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let service: CryptoAutoWithdrawService;
+
+  const deposit = (ngnAmount = 20000): CreditedCryptoDeposit => ({
+    depositTransactionId: 'crypto-tx-1',
+    transactionId: 'tx-1',
+    reference: 'CRYPTO-1',
+    userId: USER,
+    ngnAmount: new Decimal(ngnAmount),
+  });
+  const recorded = () =>
+    (
+      prisma.cryptoDepositTransaction.update.mock.lastCall as [
+        { data: Written },
+      ]
+    )[0].data.metadata.autoWithdraw;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ cryptoAutoWithdraw: true }),
+      },
+      bankAccount: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'bank-1',
+          accountNumber: '0123456789',
+          bankCode: '058',
+          accountName: 'Ada Obi',
+        }),
+      },
+      transaction: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ metadata: { asset: 'USDT' } }),
+        update: jest.fn(),
+      },
+      cryptoDepositTransaction: {
+        findUnique: jest.fn().mockResolvedValue({ metadata: {} }),
+        update: jest.fn(),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    transactions = {
+      sendToBank: jest.fn().mockResolvedValue({
+        transactionId: 'tx-payout',
+        reference: 'TRF-1',
+        fee: 25,
+      }),
+    };
+    outbox = { record: jest.fn() };
+    service = new CryptoAutoWithdrawService(
+      prisma as unknown as PrismaService,
+      transactions as unknown as TransactionsService,
+      outbox as unknown as OutboxService,
+    );
+  });
+
+  it('sends the deposit less the transfer fee to the primary account', async () => {
+    await service.payOut(deposit());
+
+    expect(transactions.sendToBank).toHaveBeenCalledWith(
+      USER,
+      '0123456789',
+      '058',
+      'Ada Obi',
+      19975,
+      'Crypto deposit CRYPTO-1',
+      undefined,
+      'CRYPTO-PAYOUT-crypto-tx-1',
+      undefined,
+      expect.objectContaining({ autoWithdraw: true }),
+    );
+    expect(recorded()).toMatchObject({ status: 'sent', amount: '19975.00' });
+    expect(outbox.record).not.toHaveBeenCalled();
+  });
+
+  it('does nothing for users who have not turned it on', async () => {
+    prisma.user.findUnique.mockResolvedValue({ cryptoAutoWithdraw: false });
+
+    await service.payOut(deposit());
+
+    expect(prisma.bankAccount.findFirst).not.toHaveBeenCalled();
+    expect(transactions.sendToBank).not.toHaveBeenCalled();
+  });
+
+  it('leaves small deposits in the wallet', async () => {
+    await service.payOut(deposit(105));
+
+    expect(transactions.sendToBank).not.toHaveBeenCalled();
+    expect(recorded()).toMatchObject({
+      status: 'failed',
+      reason: 'Amount is below the ₦100 auto-withdraw minimum',
+    });
+  });
+
+  it('tells the user the money stayed in the wallet when the transfer fails', async () => {
+    transactions.sendToBank.mockRejectedValue(
+      new Error('Daily limit exceeded'),
+    );
+
+    await expect(service.payOut(deposit())).resolves.toBeUndefined();
+
+    expect(recorded()).toMatchObject({
+      status: 'failed',
+      reason: 'Daily limit exceeded',
+    });
+    expect(outbox.record).toHaveBeenCalledWith(
+      prisma,
+      'CryptoAutoWithdrawFailed',
+      expect.objectContaining({ amount: '20000.00' }),
+      'tx-1',
+    );
+  });
+
+  it('records a missing bank account as a failed payout', async () => {
+    prisma.bankAccount.findFirst.mockResolvedValue(null);
+
+    await service.payOut(deposit());
+
+    expect(recorded()).toMatchObject({ reason: 'No primary bank account' });
+  });
+
+  it('never throws once the deposit is credited', async () => {
+    prisma.$transaction.mockRejectedValue(new Error('db down'));
+
+    await expect(service.payOut(deposit())).resolves.toBeUndefined();
+  });
+});
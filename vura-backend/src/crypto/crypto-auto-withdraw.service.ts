@@ -0,0 +1,234 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import {
+  TransactionsService,
+  BANK_TRANSFER_FEE_TIERS,
+  bankTransferFee,
+} from '../transactions/transactions.service';
+
+// Smaller payouts are left in the wallet
+const MIN_AUTO_WITHDRAW_NGN = 100;
+
+/** An NGN crypto deposit that has just been credited to the wallet */
+export interface CreditedCryptoDeposit {
+  depositTransactionId: string;
+  transactionId: string;
+  reference: string;
+  userId: string;
+  ngnAmount: Decimal;
+}
+
+type AutoWithdrawOutcome =
+  | {
+      status: 'sent';
+      transactionId: string;
+      reference: string | null;
+      amount: string;
+      fee: number;
+      bankAccountId: string;
+    }
+  | { status: 'failed'; reason: string };
+
+/**
+ * Pays crypto deposits straight out to the user's primary bank account when
+ * `User.cryptoAutoWithdraw` is on. The deposit is credited first and the
+ * payout goes through the ordinary send-to-bank path, so limits, holds and
+ * risk rules apply; if any of them stop it the NGN stays in the wallet.
+ */
+@Injectable()
+export class CryptoAutoWithdrawService {
+  private readonly logger = new Logger(CryptoAutoWithdrawService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private transactions: TransactionsService,
+    private outbox: OutboxService,
+  ) {}
+
+  /**
+   * Never throws: the deposit is already credited, so a failed payout is
+   * recorded on the deposit and the user is told the money is in the wallet.
+   */
+  async payOut(deposit: CreditedCryptoDeposit) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: deposit.userId },
+      select: { cryptoAutoWithdraw: true },
+    });
+    if (!user?.cryptoAutoWithdraw) return;
+
+    const outcome = await this.send(deposit);
+    try {
+      await this.record(deposit, outcome);
+    } catch (err) {
+      this.logger.error(
+        `Auto-withdraw ${deposit.reference}: could not record ${outcome.status} payout: ${(err as Error).message}`,
+      );
+    }
+
+    if (outcome.status === 'sent') {
+      this.logger.log(
+        `Auto-withdraw ${deposit.reference}: ₦${outcome.amount} sent to bank (${outcome.reference})`,
+      );
+    } else {
+      this.logger.warn(
+        `Auto-withdraw ${deposit.reference} not sent: ${outcome.reason}`,
+      );
+    }
+  }
+
+  private async send(
+    deposit: CreditedCryptoDeposit,
+  ): Promise<AutoWithdrawOutcome> {
+    const account = await this.prisma.bankAccount.findFirst({
+      where: { userId: deposit.userId, status: 'active', isPrimary: true },
+    });
+    if (!account) {
+      return { status: 'failed', reason: 'No primary bank account' };
+    }
+
+    const amount = payoutAmount(deposit.ngnAmount);
+    if (amount.lt(MIN_AUTO_WITHDRAW_NGN)) {
+      return {
+        status: 'failed',
+        reason: `Amount is below the ₦${MIN_AUTO_WITHDRAW_NGN} auto-withdraw minimum`,
+      };
+    }
+
+    try {
+      const result = await this.transactions.sendToBank(
+        deposit.userId,
+        account.accountNumber,
+        account.bankCode,
+        account.accountName,
+        amount.toNumber(),
+        `Crypto deposit ${deposit.reference}`,
+        undefined,
+        `CRYPTO-PAYOUT-${deposit.depositTransactionId}`,
+        undefined,
+        {
+          autoWithdraw: true,
+          sourceTransactionId: deposit.transactionId,
+          sourceReference: deposit.reference,
+          cryptoDepositTransactionId: deposit.depositTransactionId,
+        },
+      );
+      return {
+        status: 'sent',
+        transactionId: result.transactionId,
+        reference: result.reference,
+        amount: amount.toFixed(2),
+        fee: result.fee,
+        bankAccountId: account.id,
+      };
+    } catch (err) {
+      return { status: 'failed', reason: (err as Error).message };
+    }
+  }
+
+  // Link the deposit and its payout both ways so either can be traced from the other
+  private async record(
+    deposit: CreditedCryptoDeposit,
+    outcome: AutoWithdrawOutcome,
+  ) {
+    const autoWithdraw =
+      outcome.status === 'sent'
+        ? {
+            status: outcome.status,
+            payoutTransactionId: outcome.transactionId,
+            payoutReference: outcome.reference,
+            amount: outcome.amount,
+            fee: outcome.fee,
+            bankAccountId: outcome.bankAccountId,
+            at: new Date().toISOString(),
+          }
+        : {
+            status: outcome.status,
+            reason: outcome.reason,
+            at: new Date().toISOString(),
+          };
+
+    await this.prisma.$transaction(async (tx) => {
+      const [transaction, depositTx] = await Promise.all([
+        tx.transaction.findUnique({ where: { id: deposit.transactionId } }),
+        tx.cryptoDepositTransaction.findUnique({
+          where: { id: deposit.depositTransactionId },
+        }),
+      ]);
+      await tx.transaction.update({
+        where: { id: deposit.transactionId },
+        data: {
+          metadata: {
+            ...(transaction?.metadata as Record<string, unknown>),
+            autoWithdraw,
+          },
+        },
+      });
+      await tx.cryptoDepositTransaction.update({
+        where: { id: deposit.depositTransactionId },
+        data: {
+          metadata: {
+            ...(depositTx?.metadata as Record<string, unknown>),
+            autoWithdraw,
+          },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action:
+            outcome.status === 'sent'
+              ? 'CRYPTO_AUTO_WITHDRAW_SENT'
+              : 'CRYPTO_AUTO_WITHDRAW_FAILED',
+          userId: deposit.userId,
+          actorType: 'system',
+          metadata: {
+            depositTransactionId: deposit.depositTransactionId,
+            transactionId: deposit.transactionId,
+            reference: deposit.reference,
+            ...autoWithdraw,
+          },
+        },
+      });
+
+      if (outcome.status === 'failed') {
+        await this.outbox.record(
+          tx,
+          'CryptoAutoWithdrawFailed',
+          {
+            depositTransactionId: deposit.depositTransactionId,
+            transactionId: deposit.transactionId,
+            reference: deposit.reference,
+            userId: deposit.userId,
+            amount: deposit.ngnAmount.toFixed(2),
+            reason: outcome.reason,
+          },
+          deposit.transactionId,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * The most that can be sent from the credited amount with the transfer fee
+ * on top, in whole kobo. Tries the largest payout in each fee tier and keeps
+ * the largest whose own fee still fits.
+ */
+export function payoutAmount(credited: Decimal): Decimal {
+  let best = new Decimal(0);
+  for (const [tierMax, tierFee] of BANK_TRANSFER_FEE_TIERS) {
+    const candidate = Decimal.min(
+      credited.minus(tierFee),
+      tierMax,
+    ).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+    if (
+      candidate.gt(best) &&
+      candidate.plus(bankTransferFee(candidate.toNumber())).lte(credited)
+    ) {
+      best = candidate;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,60 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { CryptoDepositsService } from './crypto-deposits.service';
+import type {
+  DepositApprovalInput,
+  DepositRejectionInput,
+} from './crypto-deposits.service';
+
+/**
+ * Deposits waiting on an admin decision. A different NGN amount than the
+ * priced one needs a second admin's approval before it can be credited.
+ */
+@Controller('admin/crypto-deposits')
+@UseGuards(AdminGuard)
+export class CryptoDepositAdminController {
+  constructor(private readonly deposits: CryptoDepositsService) {}
+
+  @RequirePermission('crypto:read')
+  @Get('pending')
+  async listPending() {
+    const deposits = await this.deposits.listPending();
+    return {
+      success: true,
+      data: deposits,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/approve')
+  async approve(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: DepositApprovalInput,
+  ) {
+    const deposit = await this.deposits.approve(admin, id, body ?? {});
+    return {
+      success: true,
+      data: deposit,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/reject')
+  async reject(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: DepositRejectionInput,
+  ) {
+    const deposit = await this.deposits.reject(admin, id, body ?? {});
+    return {
+      success: true,
+      data: deposit,
+    };
+  }
+}
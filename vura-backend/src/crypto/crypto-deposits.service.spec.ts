@@ -0,0 +1,310 @@
+import type { CryptoDepositTransaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { CryptoAutoWithdrawService } from './crypto-auto-withdraw.service';
+import {
+  CryptoDepositsService,
+  ReceivedDeposit,
+} from './crypto-deposits.service';
+import { CryptoQuoteService } from './crypto-quote.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+const ADMIN = {
+  adminId: 'admin-1',
+  email: 'ops@vura.test',
+  role: 'finance',
+} as AdminPrincipal;
+const HASH = 'a1b2c3d4e5f6a7b8c9d0';
+
+// The fields written when the deposit is claimed
+interface WrittenDeposit {
+  status: string;
+  ngnAmount: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * The ledger, quotes, auto-withdraw and approvals are mocked; the database
+ * is a stub whose `$transaction` runs the callback against itself. Quotes
+ * price every deposit at ₦1,500 per USDT with a ₦200 fee.
+ */
+describe('CryptoDepositsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    cryptoDepositTransaction: { findUnique: jest.Mock; updateMany: jest.Mock };
+    transaction: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { post: jest.Mock; transfer: jest.Mock };
+  let quotes: { priceDeposit: jest.Mock };
+  let autoWithdraw: { payOut: jest.Mock };
+  let approvals: { proposeCryptoDepositAmount: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let service: CryptoDepositsService;
+
+  const deposit = (
+    overrides: Partial<CryptoDepositTransaction> = {},
+  ): CryptoDepositTransaction => ({
+    id: 'deposit-tx-1',
+    depositId: 'deposit-1',
+    userId: USER,
+    providerTxId: HASH,
+    asset: 'USDT',
+    network: 'TRC20',
+    cryptoAmount: new Decimal(100),
+    cryptoCurrency: 'USDT',
+    exchangeRate: new Decimal(1500),
+    ngnAmount: new Decimal(150000),
+    confirmations: 0,
+    minConfirmations: 19,
+    status: 'pending',
+    ewsScore: 0,
+    ewsFlags: [],
+    holdUntil: null,
+    creditedAt: null,
+    quoteId: 'quote-1',
+    metadata: {},
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    updatedAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  });
+  const received: ReceivedDeposit = {
+    txHash: HASH,
+    asset: 'USDT',
+    network: 'TRC20',
+    amount: new Decimal(100),
+    from: 'TSender',
+    confirmations: 19,
+    landedAt: new Date('2026-03-01T12:05:00Z'),
+  };
+  const claimed = () =>
+    (
+      prisma.cryptoDepositTransaction.updateMany.mock.lastCall as [
+        { data: WrittenDeposit },
+      ]
+    )[0].data;
+  const legs = () =>
+    (
+      ledger.post.mock.lastCall as [
+        unknown,
+        { legs: { account: string; amount: Decimal }[] },
+      ]
+    )[1].legs;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ cryptoHoldUsdt: false }),
+      },
+      cryptoDepositTransaction: {
+        findUnique: jest.fn().mockResolvedValue(deposit()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      transaction: { create: jest.fn().mockResolvedValue({ id: 'tx-1' }) },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    const balances = (account: string) => ({
+      balances: {
+        [account]: { before: new Decimal(0), after: new Decimal(149800) },
+      },
+    });
+    ledger = {
+      post: jest.fn().mockResolvedValue(balances(LedgerService.user(USER))),
+      transfer: jest
+        .fn()
+        .mockResolvedValue(balances(LedgerService.user(USER, 'USDT'))),
+    };
+    quotes = {
+      priceDeposit: jest.fn().mockResolvedValue({
+        grossAmount: new Decimal(150000),
+        ngnAmount: new Decimal(149800),
+        rate: new Decimal(1500),
+        fee: new Decimal(200),
+        quoteId: 'quote-1',
+        outcome: 'honoured',
+        quotedAmount: new Decimal(100),
+        liveAmount: new Decimal(0),
+        liveRate: null,
+      }),
+    };
+    autoWithdraw = { payOut: jest.fn() };
+    approvals = {
+      proposeCryptoDepositAmount: jest
+        .fn()
+        .mockResolvedValue({ id: 'approval-1' }),
+    };
+    outbox = { record: jest.fn() };
+    service = new CryptoDepositsService(
+      prisma as unknown as PrismaService,
+      ledger as unknown as LedgerService,
+      outbox as unknown as OutboxService,
+      quotes as unknown as CryptoQuoteService,
+      autoWithdraw as unknown as CryptoAutoWithdrawService,
+      approvals as unknown as AdminApprovalsService,
+    );
+  });
+
+  describe('credit', () => {
+    it('credits the quoted NGN amount less the fee, then pays it out', async () => {
+      const credited = await service.credit(deposit(), received);
+
+      expect(quotes.priceDeposit).toHaveBeenCalledWith(
+        'quote-1',
+        'USDT',
+        new Decimal(100),
+        received.landedAt,
+      );
+      expect(legs()).toEqual([
+        {
+          account: LedgerService.external('crypto'),
+          direction: 'debit',
+          amount: new Decimal(150000),
+        },
+        {
+          account: LedgerService.user(USER),
+          direction: 'credit',
+          amount: new Decimal(149800),
+        },
+        {
+          account: LedgerService.fees(),
+          direction: 'credit',
+          amount: new Decimal(200),
+        },
+      ]);
+      expect(claimed()).toMatchObject({
+        status: 'confirmed',
+        ngnAmount: 149800,
+        metadata: { verifiedBy: 'blockchain_monitor', txHash: HASH },
+      });
+      expect(autoWithdraw.payOut).toHaveBeenCalledWith({
+        depositTransactionId: 'deposit-tx-1',
+        transactionId: 'tx-1',
+        reference: 'CRYPTO-a1b2c3d4e5f6',
+        userId: USER,
+        ngnAmount: new Decimal(149800),
+      });
+      expect(credited).toMatchObject({
+        currency: 'NGN',
+        reference: 'CRYPTO-a1b2c3d4e5f6',
+      });
+    });
+
+    it('keeps USDT unconverted for users who hold it, with no payout', async () => {
+      prisma.user.findUnique.mockResolvedValue({ cryptoHoldUsdt: true });
+
+      const credited = await service.credit(deposit(), received);
+
+      expect(quotes.priceDeposit).not.toHaveBeenCalled();
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ currency: 'USDT', amount: new Decimal(100) }),
+      );
+      expect(claimed()).toMatchObject({
+        ngnAmount: 0,
+        metadata: { heldAs: 'USDT' },
+      });
+      expect(autoWithdraw.payOut).not.toHaveBeenCalled();
+      expect(credited).toMatchObject({
+        currency: 'USDT',
+        amount: new Decimal(100),
+      });
+    });
+
+    it('refuses a deposit that was credited in the meantime', async () => {
+      prisma.cryptoDepositTransaction.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.credit(deposit(), received)).rejects.toThrow(
+        'This deposit has already been credited',
+      );
+      expect(ledger.post).not.toHaveBeenCalled();
+      expect(autoWithdraw.payOut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approve', () => {
+    it('credits the recorded amount through the same path, as the admin', async () => {
+      await service.approve(ADMIN, 'deposit-tx-1', {});
+
+      expect(quotes.priceDeposit).toHaveBeenCalled();
+      expect(claimed()).toMatchObject({
+        metadata: { verifiedBy: 'admin', approvedBy: 'admin-1' },
+      });
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'CRYPTO_DEPOSIT_APPROVED',
+          actorId: 'admin-1',
+        }) as object,
+      });
+      expect(autoWithdraw.payOut).toHaveBeenCalled();
+    });
+
+    it('sends a different NGN amount for approval instead of crediting it', async () => {
+      const res = await service.approve(ADMIN, 'deposit-tx-1', {
+        ngnAmount: '160000',
+        reason: 'Rate disputed',
+        evidenceReference: 'TICKET-9',
+      });
+
+      expect(approvals.proposeCryptoDepositAmount).toHaveBeenCalledWith(ADMIN, {
+        depositTransactionId: 'deposit-tx-1',
+        ngnAmount: 160000,
+        reason: 'Rate disputed',
+        evidenceReference: 'TICKET-9',
+      });
+      expect(res).toMatchObject({
+        approvalId: 'approval-1',
+        status: 'pending',
+      });
+      expect(prisma.cryptoDepositTransaction.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('credits an approved amount without a fee, even for USDT holders', async () => {
+      prisma.user.findUnique.mockResolvedValue({ cryptoHoldUsdt: true });
+      prisma.cryptoDepositTransaction.findUnique.mockResolvedValue(
+        deposit({
+          metadata: {
+            approvedAmount: { ngnAmount: '160000', approvalId: 'approval-1' },
+          },
+        }),
+      );
+
+      await service.approve(ADMIN, 'deposit-tx-1', {});
+
+      expect(quotes.priceDeposit).not.toHaveBeenCalled();
+      expect(legs()).toMatchObject([
+        { amount: new Decimal(160000) },
+        { amount: new Decimal(160000) },
+        { amount: new Decimal(0) },
+      ]);
+      expect(claimed()).toMatchObject({
+        ngnAmount: 160000,
+        metadata: { approvalId: 'approval-1' },
+      });
+    });
+
+    it('leaves a confirmed deposit alone', async () => {
+      prisma.cryptoDepositTransaction.findUnique.mockResolvedValue(
+        deposit({ status: 'confirmed' }),
+      );
+
+      await expect(
+        service.approve(ADMIN, 'deposit-tx-1', {}),
+      ).resolves.toMatchObject({ message: 'Already confirmed' });
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,557 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { CryptoDepositTransaction, Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { CryptoAutoWithdrawService } from './crypto-auto-withdraw.service';
+import { CryptoQuoteService, DepositPricing } from './crypto-quote.service';
+
+/**
+ * Approving a deposit credits its priced NGN amount. Giving `ngnAmount`
+ * instead proposes that amount for a second admin to approve.
+ */
+export interface DepositApprovalInput {
+  ngnAmount?: string;
+  reason?: string;
+  evidenceReference?: string;
+}
+
+export interface DepositRejectionInput {
+  reason?: string;
+}
+
+// An NGN amount a second admin approved for the deposit
+type ApprovedAmount = { ngnAmount: string; approvalId: string };
+
+/** The on-chain transfer behind a deposit, as verified or as recorded */
+export interface ReceivedDeposit {
+  txHash: string;
+  asset: string;
+  network: string;
+  amount: Decimal;
+  from: string | null;
+  confirmations: number;
+  landedAt: Date;
+}
+
+/** The admin crediting a deposit by hand, and the amount approved for it */
+export interface CreditApproval {
+  adminId: string;
+  ngnAmount: Decimal | null;
+  approvalId: string | null;
+}
+
+// Recorded on the deposit and its transaction
+type CreditedBy =
+  | { verifiedBy: 'blockchain_monitor' }
+  | { verifiedBy: 'admin'; approvedBy: string; approvalId: string | null };
+
+export interface CreditedDeposit {
+  transactionId: string;
+  reference: string;
+  currency: 'NGN' | 'USDT';
+  amount: Decimal;
+}
+
+/**
+ * Crediting crypto deposits, whether the blockchain monitor verified them
+ * or an admin approved them by hand, e.g. a submission whose transfer never
+ * showed up on-chain.
+ */
+@Injectable()
+export class CryptoDepositsService {
+  private readonly logger = new Logger(CryptoDepositsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private quotes: CryptoQuoteService,
+    private autoWithdraw: CryptoAutoWithdrawService,
+    private approvals: AdminApprovalsService,
+  ) {}
+
+  async listPending() {
+    const pending = await this.prisma.cryptoDepositTransaction.findMany({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            vuraTag: true,
+            emailEncrypted: true,
+            legalFirstName: true,
+            legalLastName: true,
+          },
+        },
+      },
+    });
+
+    return pending.map((tx) => {
+      const metadata = (tx.metadata || {}) as Record<string, unknown>;
+      return {
+        id: tx.id,
+        userId: tx.userId,
+        userTag: tx.user?.vuraTag,
+        userName:
+          [tx.user?.legalFirstName, tx.user?.legalLastName]
+            .filter(Boolean)
+            .join(' ') || tx.user?.vuraTag,
+        asset: tx.asset,
+        network: tx.network,
+        cryptoAmount: tx.cryptoAmount.toString(),
+        estimatedNgn: tx.ngnAmount.toString(),
+        approvedAmount: (metadata.approvedAmount as ApprovedAmount) ?? null,
+        txHash: metadata.txHash as string | undefined,
+        createdAt: tx.createdAt,
+      };
+    });
+  }
+
+  /**
+   * Credit a pending deposit as recorded, at the amount a second admin
+   * approved for it if there is one
+   */
+  async approve(
+    admin: AdminPrincipal,
+    txId: string,
+    input: DepositApprovalInput,
+  ) {
+    const depositTx = await this.prisma.cryptoDepositTransaction.findUnique({
+      where: { id: txId },
+    });
+    if (!depositTx) throw new NotFoundException('Deposit not found');
+    if (depositTx.status === 'confirmed') {
+      return { txId, status: 'confirmed', message: 'Already confirmed' };
+    }
+
+    if (input.ngnAmount) {
+      const approval = await this.approvals.proposeCryptoDepositAmount(admin, {
+        depositTransactionId: txId,
+        ngnAmount: Number(input.ngnAmount),
+        reason: input.reason ?? '',
+        evidenceReference: input.evidenceReference ?? '',
+      });
+      return {
+        txId,
+        status: depositTx.status,
+        approvalId: approval.id,
+        message:
+          'Amount sent for approval. Approve the deposit again once it is approved.',
+      };
+    }
+
+    const metadata = (depositTx.metadata || {}) as Record<string, unknown>;
+    const approved = metadata.approvedAmount as ApprovedAmount | undefined;
+    const credited = await this.credit(
+      depositTx,
+      {
+        txHash: depositTx.providerTxId,
+        asset: depositTx.asset,
+        network: depositTx.network,
+        amount: new Decimal(depositTx.cryptoAmount.toString()),
+        from: (metadata.onChainFrom as string | undefined) ?? null,
+        confirmations: depositTx.confirmations,
+        landedAt: metadata.firstSeenAt
+          ? new Date(metadata.firstSeenAt as string)
+          : depositTx.createdAt,
+      },
+      {
+        adminId: admin.adminId,
+        ngnAmount: approved ? new Decimal(approved.ngnAmount) : null,
+        approvalId: approved?.approvalId ?? null,
+      },
+    );
+
+    this.logger.log(`Deposit ${txId} approved by ${admin.email}`);
+    return {
+      txId,
+      status: 'confirmed',
+      currency: credited.currency,
+      amount: credited.amount.toFixed(credited.currency === 'NGN' ? 2 : 6),
+      message: `Deposit approved and ${credited.currency} credited to user.`,
+    };
+  }
+
+  /**
+   * Credit a deposit and pay it on to the user's bank if they have
+   * auto-withdraw on. Users who hold USDT get USDT deposits unconverted;
+   * everything else is priced from the deposit's quote, unless a second
+   * admin approved a different NGN amount. Fails with a conflict if the
+   * deposit was credited in the meantime.
+   */
+  async credit(
+    tx: CryptoDepositTransaction,
+    received: ReceivedDeposit,
+    approval?: CreditApproval,
+  ): Promise<CreditedDeposit> {
+    const reference = received.txHash.startsWith('manual_')
+      ? `CRYPTO-${tx.id.substring(0, 8)}`
+      : `CRYPTO-${received.txHash.substring(0, 12)}`;
+    const creditedBy: CreditedBy = approval
+      ? {
+          verifiedBy: 'admin',
+          approvedBy: approval.adminId,
+          approvalId: approval.approvalId,
+        }
+      : { verifiedBy: 'blockchain_monitor' };
+
+    // Users who hold USDT get the coins as they are: no conversion, no fee.
+    // An approved NGN amount is a conversion, so it always goes to NGN.
+    const user = await this.prisma.user.findUnique({
+      where: { id: tx.userId },
+      select: { cryptoHoldUsdt: true },
+    });
+    if (
+      received.asset === 'USDT' &&
+      user?.cryptoHoldUsdt &&
+      !approval?.ngnAmount
+    ) {
+      return this.creditHeldUsdt(tx, received, reference, creditedBy, approval);
+    }
+
+    const pricing = approval?.ngnAmount
+      ? approvedPricing(received.amount, approval.ngnAmount)
+      : await this.quotes.priceDeposit(
+          tx.quoteId,
+          received.asset,
+          received.amount,
+          received.landedAt,
+        );
+    const { ngnAmount, rate, fee } = pricing;
+    const quoteDetails = {
+      quoteId: pricing.quoteId,
+      quoteOutcome: pricing.outcome,
+      quotedAmount: pricing.quotedAmount.toString(),
+      liveAmount: pricing.liveAmount.toString(),
+      liveRate: pricing.liveRate?.toString() ?? null,
+      fee: fee.toFixed(2),
+      landedAt: received.landedAt.toISOString(),
+    };
+
+    const transaction = await this.prisma.$transaction(async (prisma) => {
+      await this.claim(prisma, tx, received, {
+        exchangeRate: rate.toNumber(),
+        ngnAmount: ngnAmount.toNumber(),
+        metadata: { ...quoteDetails, ...creditedBy },
+      });
+
+      // Credit NGN balance, less the deposit fee
+      const posting = await this.ledger.post(prisma, {
+        reference,
+        type: 'crypto_deposit',
+        metadata: { cryptoDepositTransactionId: tx.id },
+        legs: [
+          {
+            account: LedgerService.external('crypto'),
+            direction: 'debit',
+            amount: pricing.grossAmount,
+          },
+          {
+            account: LedgerService.user(tx.userId),
+            direction: 'credit',
+            amount: ngnAmount,
+          },
+          { account: LedgerService.fees(), direction: 'credit', amount: fee },
+        ],
+      });
+      const { before, after } = posting.balances[LedgerService.user(tx.userId)];
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          receiverId: tx.userId,
+          amount: ngnAmount.toNumber(),
+          currency: 'NGN',
+          type: 'crypto_deposit',
+          status: 'SUCCESS',
+          idempotencyKey: `crypto_${received.txHash}`,
+          providerTxId: received.txHash,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          reference,
+          externalReference: received.asset,
+          metadata: {
+            cryptoAmount: received.amount.toString(),
+            cryptoCurrency: received.asset,
+            network: received.network,
+            exchangeRate: rate.toString(),
+            ...quoteDetails,
+            confirmations: received.confirmations,
+            ...creditedBy,
+          },
+        },
+      });
+
+      await this.audit(prisma, tx, approval, {
+        txHash: received.txHash,
+        cryptoAmount: received.amount.toString(),
+        ngnAmount: ngnAmount.toString(),
+        exchangeRate: rate.toString(),
+        quoteId: pricing.quoteId,
+        quoteOutcome: pricing.outcome,
+        confirmations: received.confirmations,
+        approvalId: approval?.approvalId ?? null,
+      });
+
+      await this.outbox.record(
+        prisma,
+        'DepositCredited',
+        {
+          transactionId: transaction.id,
+          reference,
+          userId: tx.userId,
+          amount: ngnAmount.toString(),
+          currency: 'NGN',
+          source: 'crypto',
+          crypto: {
+            asset: received.asset,
+            amount: received.amount.toString(),
+            txHash: received.txHash,
+          },
+        },
+        transaction.id,
+      );
+
+      return transaction;
+    });
+
+    this.logger.log(
+      `CREDITED: ${received.amount.toString()} ${received.asset} → ₦${ngnAmount.toFixed(2)} for user ${tx.userId} (${creditedBy.verifiedBy})`,
+    );
+
+    await this.autoWithdraw.payOut({
+      depositTransactionId: tx.id,
+      transactionId: transaction.id,
+      reference,
+      userId: tx.userId,
+      ngnAmount,
+    });
+
+    return {
+      transactionId: transaction.id,
+      reference,
+      currency: 'NGN',
+      amount: ngnAmount,
+    };
+  }
+
+  /**
+   * Credit a USDT deposit to the user's USDT wallet unconverted. A quote bound
+   * to the deposit stays used but is not applied.
+   */
+  private async creditHeldUsdt(
+    tx: CryptoDepositTransaction,
+    received: ReceivedDeposit,
+    reference: string,
+    creditedBy: CreditedBy,
+    approval?: CreditApproval,
+  ): Promise<CreditedDeposit> {
+    const account = LedgerService.user(tx.userId, 'USDT');
+
+    const transaction = await this.prisma.$transaction(async (prisma) => {
+      // No conversion took place, so there is no rate or NGN amount to record
+      await this.claim(prisma, tx, received, {
+        exchangeRate: 0,
+        ngnAmount: 0,
+        metadata: { heldAs: 'USDT', ...creditedBy },
+      });
+
+      const posting = await this.ledger.transfer(prisma, {
+        reference,
+        type: 'crypto_deposit',
+        currency: 'USDT',
+        from: LedgerService.external('crypto', 'USDT'),
+        to: account,
+        amount: received.amount,
+        metadata: { cryptoDepositTransactionId: tx.id, heldAs: 'USDT' },
+      });
+      const { before, after } = posting.balances[account];
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          receiverId: tx.userId,
+          amount: received.amount.toString(),
+          currency: 'USDT',
+          type: 'crypto_deposit',
+          status: 'SUCCESS',
+          idempotencyKey: `crypto_${received.txHash}`,
+          providerTxId: received.txHash,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          reference,
+          externalReference: received.asset,
+          metadata: {
+            cryptoAmount: received.amount.toString(),
+            cryptoCurrency: received.asset,
+            network: received.network,
+            heldAs: 'USDT',
+            confirmations: received.confirmations,
+            ...creditedBy,
+          },
+        },
+      });
+
+      await this.audit(prisma, tx, approval, {
+        txHash: received.txHash,
+        cryptoAmount: received.amount.toString(),
+        heldAs: 'USDT',
+        confirmations: received.confirmations,
+      });
+
+      await this.outbox.record(
+        prisma,
+        'DepositCredited',
+        {
+          transactionId: transaction.id,
+          reference,
+          userId: tx.userId,
+          amount: received.amount.toString(),
+          currency: 'USDT',
+          source: 'crypto',
+          crypto: {
+            asset: received.asset,
+            amount: received.amount.toString(),
+            txHash: received.txHash,
+          },
+        },
+        transaction.id,
+      );
+
+      return transaction;
+    });
+
+    this.logger.log(
+      `CREDITED: ${received.amount.toString()} USDT held in USDT wallet for user ${tx.userId} (${creditedBy.verifiedBy})`,
+    );
+
+    return {
+      transactionId: transaction.id,
+      reference,
+      currency: 'USDT',
+      amount: received.amount,
+    };
+  }
+
+  // Mark the deposit confirmed unless the monitor or another admin got there first
+  private async claim(
+    client: Prisma.TransactionClient,
+    tx: CryptoDepositTransaction,
+    received: ReceivedDeposit,
+    data: {
+      exchangeRate: number;
+      ngnAmount: number;
+      metadata: Record<string, unknown>;
+    },
+  ) {
+    const { count } = await client.cryptoDepositTransaction.updateMany({
+      where: { id: tx.id, status: { not: 'confirmed' } },
+      data: {
+        status: 'confirmed',
+        confirmations: received.confirmations,
+        exchangeRate: data.exchangeRate,
+        ngnAmount: data.ngnAmount,
+        creditedAt: new Date(),
+        providerTxId: received.txHash,
+        metadata: {
+          ...(tx.metadata as Record<string, unknown>),
+          txHash: received.txHash,
+          onChainAmount: received.amount.toString(),
+          onChainFrom: received.from,
+          ...data.metadata,
+          verifiedAt: new Date().toISOString(),
+        } as Prisma.InputJsonObject,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('This deposit has already been credited');
+    }
+  }
+
+  private audit(
+    client: Prisma.TransactionClient,
+    tx: CryptoDepositTransaction,
+    approval: CreditApproval | undefined,
+    metadata: Prisma.InputJsonObject,
+  ) {
+    return client.auditLog.create({
+      data: {
+        action: approval
+          ? 'CRYPTO_DEPOSIT_APPROVED'
+          : 'CRYPTO_DEPOSIT_AUTO_CREDITED',
+        userId: tx.userId,
+        actorType: approval ? 'admin' : 'system',
+        actorId: approval?.adminId ?? null,
+        metadata: { txId: tx.id, ...metadata },
+      },
+    });
+  }
+
+  async reject(
+    admin: AdminPrincipal,
+    txId: string,
+    input: DepositRejectionInput,
+  ) {
+    const depositTx = await this.prisma.cryptoDepositTransaction.findUnique({
+      where: { id: txId },
+    });
+    if (!depositTx) throw new NotFoundException('Deposit not found');
+    if (depositTx.status === 'confirmed') {
+      throw new BadRequestException(
+        'Cannot reject an already confirmed deposit',
+      );
+    }
+    const reason = input.reason?.trim() || 'Deposit not found on-chain';
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.cryptoDepositTransaction.update({
+        where: { id: txId },
+        data: {
+          status: 'failed',
+          metadata: {
+            ...(depositTx.metadata as Record<string, unknown>),
+            rejectedBy: admin.adminId,
+            rejectedAt: new Date().toISOString(),
+            rejectionReason: reason,
+          },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CRYPTO_DEPOSIT_REJECTED',
+          userId: depositTx.userId,
+          actorType: 'admin',
+          actorId: admin.adminId,
+          metadata: { txId, reason },
+        },
+      });
+    });
+
+    return { txId, status: 'rejected', reason };
+  }
+}
+
+// An approved NGN amount replaces the quote and the fee
+function approvedPricing(amount: Decimal, ngnAmount: Decimal): DepositPricing {
+  return {
+    grossAmount: ngnAmount,
+    ngnAmount,
+    rate: amount.gt(0) ? ngnAmount.div(amount) : new Decimal(0),
+    fee: new Decimal(0),
+    quoteId: null,
+    outcome: 'none',
+    quotedAmount: new Decimal(0),
+    liveAmount: amount,
+    liveRate: null,
+  };
+}
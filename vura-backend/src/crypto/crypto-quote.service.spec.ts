@@ -0,0 +1,251 @@
+import { ConfigService } from '@nestjs/config';
+import type { ExchangeRate, Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { CoinGeckoService } from './coingecko.service';
+import { CryptoQuoteService } from './crypto-quote.service';
+
+const USER = 'user-1';
+const CREATED_AT = new Date('2026-03-01T12:00:00Z');
+const EXPIRES_AT = new Date('2026-03-01T12:15:00Z');
+
+// The fields createQuote writes
+interface WrittenQuote {
+  pair: string;
+  rate: string;
+  fee: string;
+  cryptoAmount: string;
+  ngnAmount: string;
+  expiresAt: Date;
+}
+
+/**
+ * Market rates come from a mocked CoinGecko (₦1,600 per USDT quoted at
+ * ₦1,584 after the 1% spread, ₦1,500 live when re-quoting); the database
+ * is a stub, with `exchangeRate.updateMany` standing in for the claim.
+ */
+describe('CryptoQuoteService', () => {
+  let prisma: {
+    exchangeRate: {
+      create: jest.Mock;
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let coinGecko: {
+    spread: Decimal;
+    getRate: jest.Mock;
+    calculateNgnAmount: jest.Mock;
+  };
+  let quotes: CryptoQuoteService;
+
+  const quote = (overrides: Partial<ExchangeRate> = {}): ExchangeRate => ({
+    id: 'quote-1',
+    pair: 'USDT_NGN',
+    rate: new Decimal(1584),
+    marketRate: new Decimal(1600),
+    spread: new Decimal(0.01),
+    fee: new Decimal(500),
+    provider: 'coingecko',
+    purpose: 'deposit',
+    side: 'sell',
+    userId: USER,
+    cryptoAmount: new Decimal(100),
+    ngnAmount: new Decimal(157900),
+    status: 'active',
+    usedAt: null,
+    expiresAt: EXPIRES_AT,
+    createdAt: CREATED_AT,
+    ...overrides,
+  });
+  const price = (amount: number, landedAt = new Date('2026-03-01T12:10:00Z')) =>
+    quotes.priceDeposit('quote-1', 'USDT', new Decimal(amount), landedAt);
+
+  beforeEach(() => {
+    prisma = {
+      exchangeRate: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'quote-1', ...data }),
+        ),
+        findFirst: jest.fn().mockResolvedValue(quote()),
+        findUnique: jest.fn().mockResolvedValue(quote()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    coinGecko = {
+      spread: new Decimal(0.01),
+      getRate: jest.fn().mockResolvedValue(new Decimal(1600)),
+      calculateNgnAmount: jest
+        .fn()
+        .mockResolvedValue({ rate: new Decimal(1500) }),
+    };
+    quotes = new CryptoQuoteService(
+      { get: () => '200' } as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      coinGecko as unknown as CoinGeckoService,
+    );
+  });
+
+  describe('createQuote', () => {
+    it('locks the rate after spread and fee for fifteen minutes', async () => {
+      const before = Date.now();
+
+      await quotes.createQuote(USER, 'USDT', new Decimal(100));
+
+      const data = (
+        prisma.exchangeRate.create.mock.lastCall as [{ data: WrittenQuote }]
+      )[0].data;
+      expect(data).toMatchObject({
+        pair: 'USDT_NGN',
+        rate: '1584.00000000',
+        fee: '200.00',
+        cryptoAmount: '100.00000000',
+        ngnAmount: '158200.00',
+      });
+      expect(data.expiresAt.getTime() - before).toBeGreaterThanOrEqual(
+        15 * 60_000,
+      );
+    });
+
+    it.each([['0'], ['-1'], ['NaN']])(
+      'refuses an amount of %s',
+      async (amount) => {
+        await expect(
+          quotes.createQuote(USER, 'USDT', new Decimal(amount)),
+        ).rejects.toThrow('amount must be a positive number');
+      },
+    );
+  });
+
+  describe('bindQuote', () => {
+    const bind = (asset = 'USDT') =>
+      quotes.bindQuote(
+        prisma as unknown as Prisma.TransactionClient,
+        USER,
+        'quote-1',
+        asset,
+      );
+
+    it('marks the quote used for a single deposit', async () => {
+      await expect(bind()).resolves.toMatchObject({ id: 'quote-1' });
+
+      expect(prisma.exchangeRate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'quote-1', status: 'active' },
+        data: { status: 'used', usedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('refuses a quote another deposit already used', async () => {
+      prisma.exchangeRate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(bind()).rejects.toThrow('already been used');
+    });
+
+    it('refuses a quote for a different asset', async () => {
+      await expect(bind('BTC')).rejects.toThrow(
+        'This quote is for USDT/NGN, not BTC',
+      );
+      expect(prisma.exchangeRate.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimOpenQuote', () => {
+    const landedAt = new Date('2026-03-01T12:05:00Z');
+
+    it('claims the latest quote that was live when the deposit landed', async () => {
+      await expect(quotes.claimOpenQuote(USER, 'USDT', landedAt)).resolves.toBe(
+        'quote-1',
+      );
+
+      expect(prisma.exchangeRate.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: USER,
+          pair: 'USDT_NGN',
+          purpose: 'deposit',
+          status: 'active',
+          createdAt: { lte: landedAt },
+          expiresAt: { gte: landedAt },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    });
+
+    it('gives up the quote when a submitted deposit claimed it first', async () => {
+      prisma.exchangeRate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        quotes.claimOpenQuote(USER, 'USDT', landedAt),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('priceDeposit', () => {
+    it('honours the quoted rate for a deposit that lands in time', async () => {
+      const pricing = await price(100);
+
+      expect(pricing).toMatchObject({
+        outcome: 'honoured',
+        grossAmount: new Decimal(158400),
+        fee: new Decimal(500),
+        ngnAmount: new Decimal(157900),
+        liveRate: null,
+      });
+      expect(coinGecko.calculateNgnAmount).not.toHaveBeenCalled();
+    });
+
+    it('re-quotes only the amount above the quote at the live rate', async () => {
+      const pricing = await price(150);
+
+      expect(pricing).toMatchObject({
+        outcome: 'partial',
+        quotedAmount: new Decimal(100),
+        liveAmount: new Decimal(50),
+        liveRate: new Decimal(1500),
+        // 100 × 1,584 + 50 × 1,500
+        grossAmount: new Decimal(233400),
+        rate: new Decimal(1556),
+        ngnAmount: new Decimal(232900),
+      });
+      expect(coinGecko.calculateNgnAmount).toHaveBeenCalledWith(
+        new Decimal(50),
+        'USDT',
+      );
+    });
+
+    it('re-quotes the whole deposit when it lands after the quote expires', async () => {
+      const pricing = await price(100, new Date('2026-03-01T12:15:01Z'));
+
+      expect(pricing).toMatchObject({
+        outcome: 'expired',
+        quotedAmount: new Decimal(0),
+        grossAmount: new Decimal(150000),
+        ngnAmount: new Decimal(149500),
+      });
+    });
+
+    it('prices a deposit without a quote live, with the configured fee', async () => {
+      const pricing = await quotes.priceDeposit(
+        null,
+        'USDT',
+        new Decimal(10),
+        new Date(),
+      );
+
+      expect(pricing).toMatchObject({
+        outcome: 'none',
+        quoteId: null,
+        grossAmount: new Decimal(15000),
+        fee: new Decimal(200),
+        ngnAmount: new Decimal(14800),
+      });
+    });
+
+    it('never takes a fee larger than the deposit', async () => {
+      const pricing = await price(0.1);
+
+      expect(pricing.fee).toEqual(new Decimal('158.4'));
+      expect(pricing.ngnAmount).toEqual(new Decimal(0));
+    });
+  });
+});
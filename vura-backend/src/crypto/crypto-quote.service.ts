@@ -0,0 +1,225 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Decimal from 'decimal.js';
+import type { ExchangeRate, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { CoinGeckoService } from './coingecko.service';
+
+// How long a quoted rate is honoured for
+export const QUOTE_TTL_MINUTES = 15;
+
+export const REQUOTE_POLICY =
+  `Your rate is locked for ${QUOTE_TTL_MINUTES} minutes. Deposits that reach the blockchain ` +
+  'before the quote expires are converted at the quoted rate, up to the quoted amount. ' +
+  'Any amount above the quote, and any deposit that arrives after it expires, is ' +
+  'converted at the live rate (with the same spread and fee) when it is credited.';
+
+export type QuoteOutcome = 'honoured' | 'partial' | 'expired' | 'none';
+
+export interface DepositPricing {
+  // NGN value of the deposit before the fee; ngnAmount + fee
+  grossAmount: Decimal;
+  ngnAmount: Decimal;
+  // Effective rate across quoted and live portions, before the fee
+  rate: Decimal;
+  fee: Decimal;
+  quoteId: string | null;
+  outcome: QuoteOutcome;
+  quotedAmount: Decimal;
+  liveAmount: Decimal;
+  liveRate: Decimal | null;
+}
+
+/**
+ * Locked crypto → NGN quotes for deposits. A quote is an ExchangeRate row
+ * owned by the user; binding it to a deposit marks it used, and the monitor
+ * prices the deposit from it when crediting.
+ */
+@Injectable()
+export class CryptoQuoteService {
+  private readonly fee: Decimal;
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+    private coinGecko: CoinGeckoService,
+  ) {
+    this.fee = new Decimal(this.config.get('CRYPTO_DEPOSIT_FEE_NGN') || '0');
+  }
+
+  async createQuote(userId: string, asset: string, cryptoAmount: Decimal) {
+    if (!cryptoAmount.isFinite() || cryptoAmount.lte(0)) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+
+    const marketRate = await this.coinGecko.getRate(asset);
+    const spread = this.coinGecko.spread;
+    const rate = marketRate.mul(new Decimal(1).sub(spread));
+    const ngnAmount = Decimal.max(
+      0,
+      cryptoAmount.mul(rate).sub(this.fee),
+    ).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+
+    return this.prisma.exchangeRate.create({
+      data: {
+        pair: `${asset}_NGN`,
+        provider: 'coingecko',
+        userId,
+        marketRate: marketRate.toFixed(8),
+        spread: spread.toFixed(4),
+        rate: rate.toFixed(8),
+        fee: this.fee.toFixed(2),
+        cryptoAmount: cryptoAmount.toFixed(8),
+        ngnAmount: ngnAmount.toFixed(2),
+        expiresAt: new Date(Date.now() + QUOTE_TTL_MINUTES * 60_000),
+      },
+    });
+  }
+
+  async getQuote(userId: string, quoteId: string) {
+    const quote = await this.prisma.exchangeRate.findFirst({
+      where: { id: quoteId, userId, purpose: 'deposit' },
+    });
+    if (!quote) throw new NotFoundException('Quote not found');
+    return quote;
+  }
+
+  /**
+   * Mark the user's quote as used by a deposit. A quote can back a single
+   * deposit; an expired quote can still be bound, since what matters is
+   * when the funds reach the chain.
+   */
+  async bindQuote(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    quoteId: string,
+    asset: string,
+  ): Promise<ExchangeRate> {
+    const quote = await tx.exchangeRate.findFirst({
+      where: { id: quoteId, userId, purpose: 'deposit' },
+    });
+    if (!quote) throw new NotFoundException('Quote not found');
+    if (quote.pair !== `${asset}_NGN`) {
+      throw new BadRequestException(
+        `This quote is for ${quote.pair.replace('_', '/')}, not ${asset}`,
+      );
+    }
+
+    const claimed = await tx.exchangeRate.updateMany({
+      where: { id: quote.id, status: 'active' },
+      data: { status: 'used', usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new BadRequestException('This quote has already been used');
+    }
+    return quote;
+  }
+
+  /**
+   * Claim the user's most recent unused quote that was live when a deposit
+   * the monitor found on its own reached the chain.
+   */
+  async claimOpenQuote(
+    userId: string,
+    asset: string,
+    landedAt: Date,
+  ): Promise<string | null> {
+    const quote = await this.prisma.exchangeRate.findFirst({
+      where: {
+        userId,
+        pair: `${asset}_NGN`,
+        purpose: 'deposit',
+        status: 'active',
+        createdAt: { lte: landedAt },
+        expiresAt: { gte: landedAt },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!quote) return null;
+
+    const claimed = await this.prisma.exchangeRate.updateMany({
+      where: { id: quote.id, status: 'active' },
+      data: { status: 'used', usedAt: new Date() },
+    });
+    return claimed.count === 1 ? quote.id : null;
+  }
+
+  /**
+   * NGN to credit for a deposit of `amount` that reached the chain at
+   * `landedAt`, applying the re-quote policy above.
+   */
+  async priceDeposit(
+    quoteId: string | null,
+    asset: string,
+    amount: Decimal,
+    landedAt: Date,
+  ): Promise<DepositPricing> {
+    const quote = quoteId
+      ? await this.prisma.exchangeRate.findUnique({ where: { id: quoteId } })
+      : null;
+
+    let outcome: QuoteOutcome = 'none';
+    let quotedAmount = new Decimal(0);
+    if (quote) {
+      if (landedAt > quote.expiresAt) {
+        outcome = 'expired';
+      } else {
+        quotedAmount = Decimal.min(
+          amount,
+          new Decimal(quote.cryptoAmount?.toString() ?? amount),
+        );
+        outcome = quotedAmount.lt(amount) ? 'partial' : 'honoured';
+      }
+    }
+
+    const liveAmount = amount.sub(quotedAmount);
+    let liveRate: Decimal | null = null;
+    let gross = quote
+      ? quotedAmount.mul(quote.rate.toString())
+      : new Decimal(0);
+    if (liveAmount.gt(0)) {
+      liveRate = (await this.coinGecko.calculateNgnAmount(liveAmount, asset))
+        .rate;
+      gross = gross.add(liveAmount.mul(liveRate));
+    }
+
+    const grossAmount = gross.toDecimalPlaces(2, Decimal.ROUND_DOWN);
+    const fee = Decimal.min(
+      quote ? new Decimal(quote.fee.toString()) : this.fee,
+      grossAmount,
+    );
+    return {
+      grossAmount,
+      ngnAmount: grossAmount.sub(fee),
+      rate: amount.gt(0) ? gross.div(amount) : new Decimal(0),
+      fee,
+      quoteId: quote?.id ?? null,
+      outcome,
+      quotedAmount,
+      liveAmount,
+      liveRate,
+    };
+  }
+
+  toResponse(quote: ExchangeRate) {
+    return {
+      id: quote.id,
+      asset: quote.pair.split('_')[0],
+      pair: quote.pair,
+      cryptoAmount: quote.cryptoAmount?.toString() ?? null,
+      marketRate: quote.marketRate?.toString() ?? null,
+      spread: quote.spread.toString(),
+      rate: quote.rate.toString(),
+      fee: quote.fee.toFixed(2),
+      ngnAmount: quote.ngnAmount?.toFixed(2) ?? null,
+      status: quote.status,
+      expiresAt: quote.expiresAt,
+      expired: quote.expiresAt <= new Date(),
+      policy: REQUOTE_POLICY,
+    };
+  }
+}
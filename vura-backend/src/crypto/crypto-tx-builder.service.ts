@@ -0,0 +1,478 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { CryptoWithdrawal } from '@prisma/client';
+import axios from 'axios';
+import Decimal from 'decimal.js';
+import * as btc from '@scure/btc-signer';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { PrismaService } from '../prisma.service';
+import { USDT_CONTRACTS } from './blockchain-monitor.service';
+import { evmAddressBytes, tronAccountBytes } from './address-codec';
+
+// Token decimals per network: TRC20 USDT has 6, BEP20 USDT 18, BTC 8 (sats)
+const TOKEN_DECIMALS: Record<string, number> = {
+  TRC20: 6,
+  BEP20: 18,
+  BTC: 8,
+};
+
+// ERC-20 transfer(address,uint256)
+const TRANSFER_SELECTOR = 'a9059cbb';
+
+const BSC_CHAIN_ID = 56;
+// USDT transfers use ~35-50k gas; the margin covers first-time recipients
+const BEP20_GAS_LIMIT = 65000;
+// Most TRX the hot wallet may burn for energy on one transfer (in sun)
+const TRON_FEE_LIMIT = 100_000_000;
+// Size of a one-input P2WPKH send with change, for fee estimates
+const BTC_TYPICAL_VSIZE = 226;
+
+/**
+ * Unsigned transaction for the offline signer, stored on the withdrawal.
+ * `format` says which signer handles it.
+ */
+export type UnsignedWithdrawalTx =
+  | {
+      format: 'tron';
+      from: string;
+      txID: string;
+      rawData: unknown;
+      rawDataHex: string;
+      expiresAt: string;
+    }
+  | {
+      format: 'evm-legacy';
+      from: string;
+      chainId: number;
+      nonce: number;
+      gasPrice: string;
+      gasLimit: number;
+      to: string;
+      value: string;
+      data: string;
+      unsignedRlp: string;
+      signingHash: string;
+    }
+  | {
+      format: 'psbt';
+      from: string;
+      psbtBase64: string;
+      feeSats: string;
+      feeRate: number;
+      changeSats: string;
+      inputs: { txid: string; vout: number }[];
+    };
+
+interface TronTriggerResponse {
+  result?: { result?: boolean; message?: string };
+  transaction?: {
+    txID: string;
+    raw_data: { expiration?: number } & Record<string, unknown>;
+    raw_data_hex: string;
+  };
+}
+
+interface JsonRpcResponse {
+  result?: unknown;
+  error?: { message?: string };
+}
+
+interface MempoolUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean };
+}
+
+/**
+ * Network fees and unsigned transactions for crypto withdrawals. The server
+ * only knows the hot wallets' addresses: each build is signed on an offline
+ * machine and its hash recorded back, so no spending key lives here.
+ */
+@Injectable()
+export class CryptoTxBuilderService {
+  private readonly logger = new Logger(CryptoTxBuilderService.name);
+  private readonly trongridKey: string;
+  private readonly bscRpcUrl: string;
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+  ) {
+    this.trongridKey = this.config.get('TRONGRID_API_KEY') || '';
+    this.bscRpcUrl =
+      this.config.get('CRYPTO_BSC_RPC_URL') ||
+      'https://bsc-dataseed.binance.org';
+  }
+
+  /**
+   * Fee charged to the user on top of the amount, in the asset withdrawn.
+   * TRC20 and BEP20 are flat (the hot wallet pays TRX/BNB for gas); BTC
+   * follows mempool.space's half-hour fee rate.
+   */
+  async estimateNetworkFee(network: string): Promise<Decimal> {
+    switch (network) {
+      case 'TRC20':
+        return new Decimal(this.config.get('CRYPTO_WITHDRAW_FEE_TRC20') || '2');
+      case 'BEP20':
+        return new Decimal(
+          this.config.get('CRYPTO_WITHDRAW_FEE_BEP20') || '0.3',
+        );
+      case 'BTC': {
+        const fallback = new Decimal(
+          this.config.get('CRYPTO_WITHDRAW_FEE_BTC') || '0.0001',
+        );
+        try {
+          const rate = await this.getBtcFeeRate();
+          const fee = new Decimal(rate * BTC_TYPICAL_VSIZE).div(1e8);
+          return fee.gt(fallback) ? fee : fallback;
+        } catch (error) {
+          this.logger.warn(
+            `BTC fee rate unavailable, using fallback: ${(error as Error).message}`,
+          );
+          return fallback;
+        }
+      }
+      default:
+        throw new BadRequestException(`Unsupported network ${network}`);
+    }
+  }
+
+  /** The address a network's withdrawals are sent from */
+  hotWallet(network: string): string {
+    const keys: Record<string, string> = {
+      TRC20: 'CRYPTO_TRON_HOT_WALLET',
+      BEP20: 'CRYPTO_BSC_HOT_WALLET',
+      BTC: 'CRYPTO_BTC_HOT_WALLET',
+    };
+    const address = keys[network] ? this.config.get<string>(keys[network]) : '';
+    if (!address) {
+      throw new ServiceUnavailableException(
+        `No hot wallet is configured for ${network} withdrawals`,
+      );
+    }
+    return address;
+  }
+
+  /**
+   * Build the unsigned transaction paying out a withdrawal. Building again
+   * replaces the previous build, e.g. after a TRON build expired unsigned.
+   */
+  async buildUnsigned(
+    withdrawal: CryptoWithdrawal,
+  ): Promise<UnsignedWithdrawalTx> {
+    const amount = new Decimal(withdrawal.amount.toString());
+    switch (withdrawal.network) {
+      case 'TRC20':
+        return this.buildTron(withdrawal.address, amount);
+      case 'BEP20':
+        return this.buildBsc(withdrawal.id, withdrawal.address, amount);
+      case 'BTC':
+        return this.buildBitcoin(withdrawal.id, withdrawal.address, amount);
+      default:
+        throw new BadRequestException(
+          `Unsupported network ${withdrawal.network}`,
+        );
+    }
+  }
+
+  // ── TRON ───────────────────────────────────────────────────────────
+
+  /**
+   * TronGrid assembles the TRC20 transfer; the offline signer signs txID.
+   * TRON transactions expire a minute after they are built unless the
+   * signer extends raw_data.expiration before signing.
+   */
+  private async buildTron(to: string, amount: Decimal) {
+    const from = this.hotWallet('TRC20');
+    const parameter =
+      bytesToHex(leftPad(tronAccountBytes(to))) +
+      bytesToHex(leftPad(bigIntBytes(toUnits(amount, TOKEN_DECIMALS.TRC20))));
+
+    const res = await axios.post<TronTriggerResponse>(
+      'https://api.trongrid.io/wallet/triggersmartcontract',
+      {
+        owner_address: from,
+        contract_address: USDT_CONTRACTS.TRC20,
+        function_selector: 'transfer(address,uint256)',
+        parameter,
+        fee_limit: TRON_FEE_LIMIT,
+        call_value: 0,
+        visible: true,
+      },
+      {
+        timeout: 10000,
+        headers: this.trongridKey
+          ? { 'TRON-PRO-API-KEY': this.trongridKey }
+          : {},
+      },
+    );
+    const transaction = res.data?.transaction;
+    if (!res.data?.result?.result || !transaction?.txID) {
+      throw new ServiceUnavailableException(
+        `TronGrid could not build the transfer: ${res.data?.result?.message ?? 'no transaction returned'}`,
+      );
+    }
+
+    return {
+      format: 'tron' as const,
+      from,
+      txID: transaction.txID,
+      rawData: transaction.raw_data as unknown,
+      rawDataHex: transaction.raw_data_hex,
+      expiresAt: new Date(
+        transaction.raw_data.expiration ?? Date.now(),
+      ).toISOString(),
+    };
+  }
+
+  // ── BSC ────────────────────────────────────────────────────────────
+
+  /**
+   * Legacy EIP-155 transaction calling USDT's transfer(). Builds awaiting a
+   * signature hold their nonce, so the next build takes the one after.
+   */
+  private async buildBsc(withdrawalId: string, to: string, amount: Decimal) {
+    const from = this.hotWallet('BEP20');
+    const [pendingNonce, gasPrice] = await Promise.all([
+      this.bscRpc('eth_getTransactionCount', [from, 'pending']),
+      this.bscRpc('eth_gasPrice', []),
+    ]);
+
+    const reserved = await this.prisma.cryptoWithdrawal.findMany({
+      where: { network: 'BEP20', status: 'signing', id: { not: withdrawalId } },
+      select: { unsignedTx: true },
+    });
+    let nonce = Number(BigInt(pendingNonce));
+    for (const row of reserved) {
+      const built = row.unsignedTx as { nonce?: number } | null;
+      if (built?.nonce != null && built.nonce >= nonce) nonce = built.nonce + 1;
+    }
+
+    const data =
+      TRANSFER_SELECTOR +
+      bytesToHex(leftPad(evmAddressBytes(to))) +
+      bytesToHex(leftPad(bigIntBytes(toUnits(amount, TOKEN_DECIMALS.BEP20))));
+    const contract = USDT_CONTRACTS.BEP20;
+
+    const unsigned = rlpEncode([
+      bigIntBytes(BigInt(nonce)),
+      bigIntBytes(BigInt(gasPrice)),
+      bigIntBytes(BigInt(BEP20_GAS_LIMIT)),
+      evmAddressBytes(contract),
+      new Uint8Array(0),
+      hexToBytes(data),
+      bigIntBytes(BigInt(BSC_CHAIN_ID)),
+      new Uint8Array(0),
+      new Uint8Array(0),
+    ]);
+
+    return {
+      format: 'evm-legacy' as const,
+      from,
+      chainId: BSC_CHAIN_ID,
+      nonce,
+      gasPrice: BigInt(gasPrice).toString(),
+      gasLimit: BEP20_GAS_LIMIT,
+      to: contract,
+      value: '0',
+      data: `0x${data}`,
+      unsignedRlp: `0x${bytesToHex(unsigned)}`,
+      signingHash: `0x${bytesToHex(keccak_256(unsigned))}`,
+    };
+  }
+
+  private async bscRpc(method: string, params: unknown[]): Promise<string> {
+    const res = await axios.post<JsonRpcResponse>(
+      this.bscRpcUrl,
+      { jsonrpc: '2.0', id: 1, method, params },
+      { timeout: 10000 },
+    );
+    if (res.data?.error || typeof res.data?.result !== 'string') {
+      throw new ServiceUnavailableException(
+        `BSC RPC ${method} failed: ${res.data?.error?.message ?? 'no result'}`,
+      );
+    }
+    return res.data.result;
+  }
+
+  // ── BTC ────────────────────────────────────────────────────────────
+
+  /**
+   * PSBT spending the hot wallet's confirmed UTXOs, change back to it.
+   * Inputs already in another unsigned build are left out so two builds
+   * can't spend the same coin.
+   */
+  private async buildBitcoin(
+    withdrawalId: string,
+    to: string,
+    amount: Decimal,
+  ) {
+    const from = this.hotWallet('BTC');
+    const script = btc.OutScript.encode(btc.Address(btc.NETWORK).decode(from));
+    const segwit = btc.OutScript.decode(script).type === 'wpkh';
+    if (!segwit && btc.OutScript.decode(script).type !== 'pkh') {
+      throw new ServiceUnavailableException(
+        'CRYPTO_BTC_HOT_WALLET must be a P2WPKH or P2PKH address',
+      );
+    }
+
+    const reserved = await this.prisma.cryptoWithdrawal.findMany({
+      where: { network: 'BTC', status: 'signing', id: { not: withdrawalId } },
+      select: { unsignedTx: true },
+    });
+    const spent = new Set(
+      reserved.flatMap((row) =>
+        (
+          (
+            row.unsignedTx as {
+              inputs?: { txid: string; vout: number }[];
+            } | null
+          )?.inputs ?? []
+        ).map((i) => `${i.txid}:${i.vout}`),
+      ),
+    );
+
+    const [feeRate, utxoRes] = await Promise.all([
+      this.getBtcFeeRate(),
+      axios.get<MempoolUtxo[]>(
+        `https://mempool.space/api/address/${from}/utxo`,
+        {
+          timeout: 10000,
+        },
+      ),
+    ]);
+    const utxos = (utxoRes.data || []).filter(
+      (u) => u.status?.confirmed && !spent.has(`${u.txid}:${u.vout}`),
+    );
+
+    const inputs = [];
+    for (const utxo of utxos) {
+      const input = {
+        txid: hexToBytes(utxo.txid),
+        index: utxo.vout,
+        witnessUtxo: { script, amount: BigInt(utxo.value) },
+      };
+      if (segwit) {
+        inputs.push(input);
+      } else {
+        // Legacy inputs commit to the whole previous transaction
+        const prev = await axios.get<string>(
+          `https://mempool.space/api/tx/${utxo.txid}/hex`,
+          { timeout: 10000, responseType: 'text' },
+        );
+        inputs.push({ ...input, nonWitnessUtxo: hexToBytes(prev.data.trim()) });
+      }
+    }
+
+    const selected = btc.selectUTXO(
+      inputs,
+      [{ address: to, amount: toUnits(amount, TOKEN_DECIMALS.BTC) }],
+      'default',
+      {
+        changeAddress: from,
+        feePerByte: BigInt(Math.ceil(feeRate)),
+        bip69: true,
+        createTx: true,
+        network: btc.NETWORK,
+        allowLegacyWitnessUtxo: true,
+      },
+    );
+    if (!selected?.tx) {
+      throw new ServiceUnavailableException(
+        'The BTC hot wallet has too few confirmed funds for this withdrawal',
+      );
+    }
+
+    const tx = selected.tx;
+    const chosen = Array.from({ length: tx.inputsLength }, (_, i) => {
+      const input = tx.getInput(i);
+      return { txid: bytesToHex(input.txid!), vout: input.index! };
+    });
+    // BIP-69 sorts the outputs, so find the change by its script
+    let change = 0n;
+    for (let i = 0; i < tx.outputsLength; i++) {
+      const output = tx.getOutput(i);
+      if (output.script && bytesToHex(output.script) === bytesToHex(script)) {
+        change += output.amount ?? 0n;
+      }
+    }
+
+    return {
+      format: 'psbt' as const,
+      from,
+      psbtBase64: Buffer.from(tx.toPSBT()).toString('base64'),
+      feeSats: selected.fee?.toString() ?? '0',
+      feeRate: Math.ceil(feeRate),
+      changeSats: change.toString(),
+      inputs: chosen,
+    };
+  }
+
+  /** sat/vB for confirmation within about half an hour */
+  private async getBtcFeeRate(): Promise<number> {
+    const res = await axios.get<{ halfHourFee?: number }>(
+      'https://mempool.space/api/v1/fees/recommended',
+      {
+        timeout: 5000,
+      },
+    );
+    const rate = Number(res.data?.halfHourFee);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error('mempool.space returned no fee rate');
+    }
+    return rate;
+  }
+}
+
+function toUnits(amount: Decimal, decimals: number): bigint {
+  return BigInt(
+    amount.mul(new Decimal(10).pow(decimals)).toFixed(0, Decimal.ROUND_DOWN),
+  );
+}
+
+function bigIntBytes(value: bigint): Uint8Array {
+  if (value === 0n) return new Uint8Array(0);
+  const hex = value.toString(16);
+  return hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+}
+
+// ABI words are 32 bytes, left-padded
+function leftPad(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(32);
+  out.set(bytes, 32 - bytes.length);
+  return out;
+}
+
+// RLP for a flat list of byte strings, which is all a legacy transaction needs
+function rlpEncode(items: Uint8Array[]): Uint8Array {
+  const encoded = items.map((item) =>
+    item.length === 1 && item[0] < 0x80
+      ? item
+      : concat(rlpLength(item.length, 0x80), item),
+  );
+  const body = concat(...encoded);
+  return concat(rlpLength(body.length, 0xc0), body);
+}
+
+function rlpLength(length: number, offset: number): Uint8Array {
+  if (length < 56) return Uint8Array.from([offset + length]);
+  const bytes = bigIntBytes(BigInt(length));
+  return Uint8Array.from([offset + 55 + bytes.length, ...bytes]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { CryptoWithdrawalService } from './crypto-withdrawal.service';
+import type {
+  WithdrawalBroadcastInput,
+  WithdrawalDecisionInput,
+} from './crypto-withdrawal.service';
+
+/**
+ * The signing queue: review → queued → signing → broadcast → confirmed.
+ * Unsigned transactions are downloaded from here, signed offline and their
+ * hashes recorded back.
+ */
+@Controller('admin/crypto-withdrawals')
+@UseGuards(AdminGuard)
+export class CryptoWithdrawalAdminController {
+  constructor(private readonly withdrawals: CryptoWithdrawalService) {}
+
+  /**
+   * Oldest first. Filter by status (review, queued, signing, broadcast,
+   * confirmed, rejected, failed, cancelled).
+   */
+  @RequirePermission('crypto:read')
+  @Get()
+  async list(@Query('status') status?: string) {
+    const withdrawals = await this.withdrawals.listForAdmin(status);
+    return {
+      success: true,
+      data: withdrawals,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/approve')
+  async approve(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+  ) {
+    const withdrawal = await this.withdrawals.approve(admin, id);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/build')
+  async build(@CurrentAdmin() admin: AdminPrincipal, @Param('id') id: string) {
+    const withdrawal = await this.withdrawals.build(admin, id);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/broadcast')
+  async recordBroadcast(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: WithdrawalBroadcastInput,
+  ) {
+    const withdrawal = await this.withdrawals.recordBroadcast(admin, id, body);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/reject')
+  async reject(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: WithdrawalDecisionInput,
+  ) {
+    const withdrawal = await this.withdrawals.reject(admin, id, body);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+
+  @RequirePermission('crypto:manage')
+  @Post(':id/fail')
+  async markFailed(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: WithdrawalDecisionInput,
+  ) {
+    const withdrawal = await this.withdrawals.markFailed(admin, id, body);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Headers,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { CryptoWithdrawalService } from './crypto-withdrawal.service';
+import type {
+  CryptoWithdrawalInput,
+  WithdrawalAddressInput,
+} from './crypto-withdrawal.service';
+
+type AuthedRequest = ExpressRequest & {
+  user: { userId: string; sid: string };
+};
+
+@Controller('crypto')
+@UseGuards(AuthGuard)
+export class CryptoWithdrawalController {
+  constructor(private readonly withdrawals: CryptoWithdrawalService) {}
+
+  /**
+   * The user's whitelisted withdrawal addresses. `active` is false until
+   * the cooling period has passed.
+   * GET /crypto/withdrawal-addresses
+   */
+  @Get('withdrawal-addresses')
+  async listAddresses(@Request() req: AuthedRequest) {
+    const addresses = await this.withdrawals.listAddresses(req.user.userId);
+    return {
+      success: true,
+      data: addresses,
+    };
+  }
+
+  /**
+   * Whitelist an address. Requires the PIN.
+   * POST /crypto/withdrawal-addresses
+   */
+  @Post('withdrawal-addresses')
+  async addAddress(
+    @Request() req: AuthedRequest,
+    @Body() body: WithdrawalAddressInput,
+  ) {
+    const address = await this.withdrawals.addAddress(req.user.userId, body);
+    return {
+      success: true,
+      data: address,
+    };
+  }
+
+  /**
+   * DELETE /crypto/withdrawal-addresses/:id
+   */
+  @Delete('withdrawal-addresses/:id')
+  async removeAddress(@Request() req: AuthedRequest, @Param('id') id: string) {
+    await this.withdrawals.removeAddress(req.user.userId, id);
+    return {
+      success: true,
+      message: 'Address removed',
+    };
+  }
+
+  /**
+   * GET /crypto/withdrawal-fee?asset=USDT&network=TRC20
+   */
+  @Get('withdrawal-fee')
+  async estimateFee(
+    @Query('asset') asset: string,
+    @Query('network') network: string,
+  ) {
+    const fee = await this.withdrawals.estimateFee(asset, network);
+    return {
+      success: true,
+      data: fee,
+    };
+  }
+
+  /**
+   * Withdraw to a whitelisted address. The wallet is debited now and the
+   * withdrawal is sent once an operator has it signed.
+   * POST /crypto/withdrawals
+   */
+  @Post('withdrawals')
+  @UseInterceptors(IdempotencyInterceptor)
+  async withdraw(
+    @Request() req: AuthedRequest,
+    @Body() body: CryptoWithdrawalInput,
+    @Headers('x-device-fingerprint') deviceFingerprint: string | undefined,
+  ) {
+    const withdrawal = await this.withdrawals.requestWithdrawal(
+      req.user.userId,
+      body,
+      { deviceFingerprint, ipAddress: req.ip, sessionId: req.user.sid },
+    );
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+
+  /**
+   * GET /crypto/withdrawals
+   */
+  @Get('withdrawals')
+  async listWithdrawals(@Request() req: AuthedRequest) {
+    const withdrawals = await this.withdrawals.listForUser(req.user.userId);
+    return {
+      success: true,
+      data: withdrawals,
+    };
+  }
+
+  /**
+   * POST /crypto/withdrawals/:id/cancel
+   */
+  @Post('withdrawals/:id/cancel')
+  async cancel(@Request() req: AuthedRequest, @Param('id') id: string) {
+    const withdrawal = await this.withdrawals.cancel(req.user.userId, id);
+    return {
+      success: true,
+      data: withdrawal,
+    };
+  }
+}
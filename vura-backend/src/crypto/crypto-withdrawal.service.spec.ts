@@ -0,0 +1,419 @@
+import { BadRequestException } from '@nestjs/common';
+import type { CryptoWithdrawal, User } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { EWSService } from '../ews/ews.service';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LimitsService } from '../limits/limits.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { CoinGeckoService } from './coingecko.service';
+import { CryptoTxBuilderService } from './crypto-tx-builder.service';
+import {
+  CryptoWithdrawalService,
+  WITHDRAWAL_COOLING_HOURS,
+} from './crypto-withdrawal.service';
+
+const USER = 'user-1';
+const PIN = '1234';
+const HASHED_PIN = bcrypt.hashSync(PIN, 4);
+// A valid TRON address (the USDT contract)
+const TRON_ADDRESS = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const TX_HASH = 'ab'.repeat(32);
+const ADMIN = { adminId: 'admin-1' } as AdminPrincipal;
+
+type WithdrawalRow = CryptoWithdrawal & {
+  user: Pick<User, 'vuraTag' | 'legalFirstName' | 'legalLastName'>;
+};
+
+/**
+ * The database is a stub whose `$transaction` runs the callback against
+ * itself; the ledger, risk and fee services are mocks. A 1 USDT network fee
+ * and a ₦1,500 rate are assumed throughout.
+ */
+describe('CryptoWithdrawalService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    balance: { findUnique: jest.Mock };
+    cryptoDeposit: { findFirst: jest.Mock };
+    cryptoWithdrawalAddress: {
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+    cryptoWithdrawal: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    transaction: { create: jest.Mock; update: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { post: jest.Mock; reverse: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let ews: { screenTransaction: jest.Mock; recordAssessment: jest.Mock };
+  let limits: { checkSendLimit: jest.Mock };
+  let holds: { checkHeldFunds: jest.Mock };
+  let service: CryptoWithdrawalService;
+
+  const destination = (overrides = {}) => ({
+    id: 'address-1',
+    userId: USER,
+    asset: 'USDT',
+    network: 'TRC20',
+    address: TRON_ADDRESS,
+    label: null,
+    status: 'active',
+    activatesAt: new Date(Date.now() - 1000),
+    createdAt: new Date(),
+    ...overrides,
+  });
+  const withdrawal = (overrides = {}): WithdrawalRow => ({
+    id: 'withdrawal-1',
+    userId: USER,
+    addressId: 'address-1',
+    asset: 'USDT',
+    network: 'TRC20',
+    address: TRON_ADDRESS,
+    amount: new Decimal(50),
+    networkFee: new Decimal(1),
+    reference: 'CWD-1',
+    transactionId: 'tx-1',
+    status: 'queued',
+    riskAction: 'allow',
+    unsignedTx: null,
+    builtAt: null,
+    builtBy: null,
+    txHash: null,
+    broadcastAt: null,
+    confirmations: 0,
+    confirmedAt: null,
+    reviewedBy: null,
+    failureReason: null,
+    metadata: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: { vuraTag: 'ada', legalFirstName: 'Ada', legalLastName: null },
+    ...overrides,
+  });
+  const updateManyWhere = () =>
+    (
+      prisma.cryptoWithdrawal.updateMany.mock.lastCall as [
+        { where: { status: unknown }; data: { status: string } },
+      ]
+    )[0];
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ hashedPin: HASHED_PIN }),
+      },
+      balance: { findUnique: jest.fn().mockResolvedValue({ amount: 100 }) },
+      cryptoDeposit: { findFirst: jest.fn().mockResolvedValue(null) },
+      cryptoWithdrawalAddress: {
+        findFirst: jest.fn().mockResolvedValue(destination()),
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ ...destination(), ...data }),
+        ),
+        update: jest.fn(),
+      },
+      cryptoWithdrawal: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve(withdrawal(data)),
+        ),
+        findUnique: jest.fn().mockResolvedValue(withdrawal()),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(withdrawal()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      transaction: {
+        create: jest.fn().mockResolvedValue({ id: 'tx-1' }),
+        update: jest.fn(),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      post: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(USER, 'USDT')]: {
+            before: new Decimal('100.123456'),
+            after: new Decimal('49.123456'),
+          },
+        },
+      }),
+      reverse: jest.fn(),
+    };
+    outbox = { record: jest.fn() };
+    ews = {
+      screenTransaction: jest
+        .fn()
+        .mockResolvedValue({ action: 'allow', score: 0, reasons: [] }),
+      recordAssessment: jest.fn(),
+    };
+    limits = { checkSendLimit: jest.fn() };
+    holds = { checkHeldFunds: jest.fn() };
+    service = new CryptoWithdrawalService(
+      prisma as unknown as PrismaService,
+      ledger as unknown as LedgerService,
+      outbox as unknown as OutboxService,
+      ews as unknown as EWSService,
+      limits as unknown as LimitsService,
+      holds as unknown as HoldsService,
+      {
+        getRate: jest.fn().mockResolvedValue(new Decimal(1500)),
+      } as unknown as CoinGeckoService,
+      {
+        estimateNetworkFee: jest.fn().mockResolvedValue(new Decimal(1)),
+      } as unknown as CryptoTxBuilderService,
+    );
+  });
+
+  describe('whitelist', () => {
+    it('starts a cooling period on a new address', async () => {
+      const before = Date.now();
+
+      const res = await service.addAddress(USER, {
+        asset: 'usdt',
+        network: 'trc20',
+        address: TRON_ADDRESS,
+        pin: PIN,
+      });
+
+      expect(res.active).toBe(false);
+      expect(res.activatesAt.getTime() - before).toBeGreaterThanOrEqual(
+        WITHDRAWAL_COOLING_HOURS * 60 * 60 * 1000,
+      );
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'WithdrawalAddressAdded',
+        expect.anything(),
+        'address-1',
+      );
+    });
+
+    it('refuses a Vura deposit address', async () => {
+      prisma.cryptoDeposit.findFirst.mockResolvedValue({ id: 'deposit-1' });
+
+      await expect(
+        service.addAddress(USER, {
+          asset: 'USDT',
+          network: 'TRC20',
+          address: TRON_ADDRESS,
+          pin: PIN,
+        }),
+      ).rejects.toThrow('Vura deposit address');
+    });
+
+    it('refuses to withdraw to an address still cooling', async () => {
+      prisma.cryptoWithdrawalAddress.findFirst.mockResolvedValue(
+        destination({ activatesAt: new Date(Date.now() + 60 * 1000) }),
+      );
+
+      await expect(
+        service.requestWithdrawal(USER, {
+          addressId: 'address-1',
+          amount: 50,
+          pin: PIN,
+        }),
+      ).rejects.toThrow('cooling period');
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestWithdrawal', () => {
+    it('checks held funds in the asset before debiting amount and fee', async () => {
+      const res = await service.requestWithdrawal(USER, {
+        addressId: 'address-1',
+        amount: 50,
+        pin: PIN,
+      });
+
+      expect(holds.checkHeldFunds).toHaveBeenCalledWith(
+        USER,
+        new Decimal(51),
+        'USDT',
+      );
+      expect(limits.checkSendLimit).toHaveBeenCalledWith(
+        USER,
+        new Decimal(76500),
+        'NGN',
+      );
+      expect(res.status).toBe('queued');
+      const written = (
+        prisma.transaction.create.mock.lastCall as [
+          { data: { beforeBalance?: number; metadata: object } },
+        ]
+      )[0].data;
+      expect(written.beforeBalance).toBeUndefined();
+      expect(written.metadata).toMatchObject({
+        beforeBalance: '100.123456',
+        afterBalance: '49.123456',
+      });
+    });
+
+    it('does not debit funds that are held', async () => {
+      holds.checkHeldFunds.mockRejectedValue(
+        new BadRequestException('Insufficient available balance'),
+      );
+
+      await expect(
+        service.requestWithdrawal(USER, {
+          addressId: 'address-1',
+          amount: 50,
+          pin: PIN,
+        }),
+      ).rejects.toThrow('Insufficient available balance');
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+
+    it('sends withdrawals EWS holds to review', async () => {
+      ews.screenTransaction.mockResolvedValue({
+        action: 'hold',
+        score: 80,
+        reasons: ['New address'],
+      });
+
+      const res = await service.requestWithdrawal(USER, {
+        addressId: 'address-1',
+        amount: 50,
+        pin: PIN,
+      });
+
+      expect(res.status).toBe('review');
+    });
+  });
+
+  describe('signing queue', () => {
+    it('approves only from review', async () => {
+      await service.approve(ADMIN, 'withdrawal-1');
+
+      expect(updateManyWhere()).toMatchObject({
+        where: { status: { in: ['review'] } },
+        data: { status: 'queued', reviewedBy: 'admin-1' },
+      });
+    });
+
+    it('records a broadcast hash on a built withdrawal', async () => {
+      prisma.cryptoWithdrawal.findUnique
+        .mockResolvedValueOnce(withdrawal({ status: 'signing' }))
+        .mockResolvedValueOnce(null);
+
+      await service.recordBroadcast(ADMIN, 'withdrawal-1', {
+        txHash: TX_HASH.toUpperCase(),
+      });
+
+      expect(updateManyWhere()).toMatchObject({
+        where: { status: 'signing' },
+        data: { status: 'broadcast', txHash: TX_HASH },
+      });
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-1' },
+        data: { providerTxId: TX_HASH },
+      });
+    });
+
+    it('refuses a hash in the wrong format', async () => {
+      prisma.cryptoWithdrawal.findUnique.mockResolvedValue(
+        withdrawal({ status: 'signing' }),
+      );
+
+      await expect(
+        service.recordBroadcast(ADMIN, 'withdrawal-1', { txHash: '0x1234' }),
+      ).rejects.toThrow('Not a valid TRC20 transaction hash');
+      expect(prisma.cryptoWithdrawal.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses to broadcast a withdrawal that was never built', async () => {
+      prisma.cryptoWithdrawal.findUnique
+        .mockResolvedValueOnce(withdrawal({ status: 'queued' }))
+        .mockResolvedValueOnce(null);
+      prisma.cryptoWithdrawal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.recordBroadcast(ADMIN, 'withdrawal-1', { txHash: TX_HASH }),
+      ).rejects.toThrow('has been built');
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('settles a confirmed broadcast once', async () => {
+      const broadcast = withdrawal({ status: 'broadcast', txHash: TX_HASH });
+
+      await service.settleConfirmed(broadcast, 20);
+      prisma.cryptoWithdrawal.updateMany.mockResolvedValue({ count: 0 });
+      await service.settleConfirmed(broadcast, 21);
+
+      expect(prisma.transaction.update).toHaveBeenCalledTimes(1);
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-1' },
+        data: { status: 'SUCCESS' },
+      });
+      expect(outbox.record).toHaveBeenCalledTimes(1);
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'CryptoWithdrawalCompleted',
+        expect.anything(),
+        'withdrawal-1',
+      );
+    });
+  });
+
+  describe('reject and fail', () => {
+    it('reverses the debit when a withdrawal is rejected', async () => {
+      await service.reject(ADMIN, 'withdrawal-1', { reason: 'Sanctioned' });
+
+      expect(updateManyWhere()).toMatchObject({
+        where: { status: { in: ['review', 'queued', 'signing'] } },
+        data: { status: 'rejected', failureReason: 'Sanctioned' },
+      });
+      expect(ledger.reverse).toHaveBeenCalledWith(prisma, 'CWD-1', 'refund');
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-1' },
+        data: { status: 'FAILED' },
+      });
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'CryptoWithdrawalFailed',
+        expect.anything(),
+        'withdrawal-1',
+      );
+    });
+
+    it('does not refund a withdrawal that is already out of reach', async () => {
+      prisma.cryptoWithdrawal.findUnique.mockResolvedValue(
+        withdrawal({ status: 'broadcast' }),
+      );
+      prisma.cryptoWithdrawal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.reject(ADMIN, 'withdrawal-1', { reason: 'Too late' }),
+      ).rejects.toThrow("A broadcast withdrawal can't be rejected");
+      expect(ledger.reverse).not.toHaveBeenCalled();
+    });
+
+    it('only marks broadcast withdrawals failed', async () => {
+      await service.markFailed(ADMIN, 'withdrawal-1', { reason: 'Dropped' });
+
+      expect(updateManyWhere()).toMatchObject({
+        where: { status: { in: ['broadcast'] } },
+        data: { status: 'failed' },
+      });
+      expect(ledger.reverse).toHaveBeenCalledWith(prisma, 'CWD-1', 'refund');
+    });
+
+    it('requires a reason', async () => {
+      await expect(
+        service.reject(ADMIN, 'withdrawal-1', { reason: ' ' }),
+      ).rejects.toThrow('reason is required');
+      expect(ledger.reverse).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,842 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type {
+  CryptoWithdrawal,
+  CryptoWithdrawalAddress,
+  Prisma,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { EWSService } from '../ews/ews.service';
+import { LimitsService } from '../limits/limits.service';
+import { HoldsService } from '../holds/holds.service';
+import type { TransactionRiskInput } from '../services/fraud-detection.service';
+import type { RiskContext } from '../transactions/transactions.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { CoinGeckoService } from './coingecko.service';
+import { CryptoTxBuilderService } from './crypto-tx-builder.service';
+import { normalizeAddress } from './address-codec';
+
+// New whitelist entries can't be withdrawn to until this has passed
+export const WITHDRAWAL_COOLING_HOURS = 24;
+
+const WITHDRAWAL_NETWORKS: Record<string, string[]> = {
+  USDT: ['TRC20', 'BEP20'],
+  BTC: ['BTC'],
+};
+
+const MIN_WITHDRAWAL: Record<string, string> = {
+  USDT: '10',
+  BTC: '0.0005',
+};
+
+// Precision amounts and fees are kept to
+const ASSET_DECIMALS: Record<string, number> = {
+  USDT: 6,
+  BTC: 8,
+};
+
+// Nothing has been built yet, so the user may still change their mind
+const CANCELLABLE_STATUSES = ['review', 'queued'];
+// An admin may stop a withdrawal until its hash is recorded
+const REJECTABLE_STATUSES = ['review', 'queued', 'signing'];
+
+const TX_HASH_FORMATS: Record<string, RegExp> = {
+  TRC20: /^[0-9a-f]{64}$/,
+  BEP20: /^0x[0-9a-f]{64}$/,
+  BTC: /^[0-9a-f]{64}$/,
+};
+
+const WITH_USER = {
+  user: {
+    select: {
+      id: true,
+      vuraTag: true,
+      legalFirstName: true,
+      legalLastName: true,
+    },
+  },
+} as const;
+
+export interface WithdrawalAddressInput {
+  asset?: string;
+  network?: string;
+  address?: string;
+  label?: string;
+  pin?: string;
+}
+
+export interface CryptoWithdrawalInput {
+  addressId?: string;
+  amount?: number | string;
+  pin?: string;
+}
+
+export interface WithdrawalBroadcastInput {
+  txHash?: string;
+}
+
+export interface WithdrawalDecisionInput {
+  reason?: string;
+}
+
+/**
+ * Withdrawals from a user's crypto wallet to their own external wallets.
+ *
+ * Destinations must be whitelisted and out of their cooling period. The
+ * wallet is debited (amount plus network fee) when the withdrawal is
+ * requested; EWS holds send it to review first. Admins then build an
+ * unsigned transaction for the offline signer and record the broadcast
+ * hash, and WithdrawalMonitorCron settles it once confirmed. Rejected and
+ * failed withdrawals are reversed back to the wallet.
+ */
+@Injectable()
+export class CryptoWithdrawalService {
+  private readonly logger = new Logger(CryptoWithdrawalService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private ews: EWSService,
+    private limits: LimitsService,
+    private holds: HoldsService,
+    private coinGecko: CoinGeckoService,
+    private builder: CryptoTxBuilderService,
+  ) {}
+
+  // ── Whitelist ──────────────────────────────────────────────────────
+
+  async listAddresses(userId: string) {
+    const addresses = await this.prisma.cryptoWithdrawalAddress.findMany({
+      where: { userId, status: 'active' },
+      orderBy: { createdAt: 'desc' },
+    });
+    return addresses.map((address) => this.toAddressResponse(address));
+  }
+
+  /**
+   * Whitelist a wallet. It becomes usable after the cooling period, and
+   * the user is notified so an unexpected addition can be caught in time.
+   * Re-adding a removed address starts a new cooling period.
+   */
+  async addAddress(userId: string, input: WithdrawalAddressInput) {
+    const { asset, network } = this.validateAssetNetwork(
+      input.asset,
+      input.network,
+    );
+    const address = normalizeAddress(network, input.address ?? '');
+    const label = input.label?.trim().slice(0, 50) || null;
+    await this.verifyPin(userId, input.pin);
+
+    const ours = await this.prisma.cryptoDeposit.findFirst({
+      where: { network, address },
+      select: { id: true },
+    });
+    if (ours) {
+      throw new BadRequestException(
+        'That is a Vura deposit address. Add a wallet you control outside Vura.',
+      );
+    }
+
+    const existing = await this.prisma.cryptoWithdrawalAddress.findUnique({
+      where: { userId_network_address: { userId, network, address } },
+    });
+    if (existing?.status === 'active') {
+      throw new BadRequestException('This address is already whitelisted');
+    }
+
+    const activatesAt = new Date(
+      Date.now() + WITHDRAWAL_COOLING_HOURS * 60 * 60 * 1000,
+    );
+    const saved = await this.prisma.$transaction(async (tx) => {
+      const row = existing
+        ? await tx.cryptoWithdrawalAddress.update({
+            where: { id: existing.id },
+            data: {
+              asset,
+              label,
+              status: 'active',
+              activatesAt,
+              removedAt: null,
+            },
+          })
+        : await tx.cryptoWithdrawalAddress.create({
+            data: { userId, asset, network, address, label, activatesAt },
+          });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CRYPTO_WITHDRAWAL_ADDRESS_ADDED',
+          userId,
+          actorType: 'user',
+          metadata: { addressId: row.id, asset, network, address },
+        },
+      });
+
+      await this.outbox.record(
+        tx,
+        'WithdrawalAddressAdded',
+        {
+          addressId: row.id,
+          userId,
+          asset,
+          network,
+          address,
+          activatesAt: activatesAt.toISOString(),
+        },
+        row.id,
+      );
+      return row;
+    });
+
+    return this.toAddressResponse(saved);
+  }
+
+  async removeAddress(userId: string, id: string) {
+    const { count } = await this.prisma.cryptoWithdrawalAddress.updateMany({
+      where: { id, userId, status: 'active' },
+      data: { status: 'removed', removedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Withdrawal address not found');
+    }
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'CRYPTO_WITHDRAWAL_ADDRESS_REMOVED',
+        userId,
+        actorType: 'user',
+        metadata: { addressId: id },
+      },
+    });
+  }
+
+  // ── Withdrawals ────────────────────────────────────────────────────
+
+  /**
+   * Network fee for a withdrawal, charged on top of the amount
+   */
+  async estimateFee(assetInput?: string, networkInput?: string) {
+    const { asset, network } = this.validateAssetNetwork(
+      assetInput,
+      networkInput,
+    );
+    const fee = await this.networkFee(asset, network);
+    return {
+      asset,
+      network,
+      networkFee: fee.toString(),
+      minimum: MIN_WITHDRAWAL[asset],
+      coolingHours: WITHDRAWAL_COOLING_HOURS,
+    };
+  }
+
+  async requestWithdrawal(
+    userId: string,
+    input: CryptoWithdrawalInput,
+    riskContext?: RiskContext,
+  ) {
+    if (!input.addressId) {
+      throw new BadRequestException('addressId is required');
+    }
+    const raw = Number(input.amount);
+    if (!Number.isFinite(raw) || raw <= 0) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+
+    const destination = await this.prisma.cryptoWithdrawalAddress.findFirst({
+      where: { id: input.addressId, userId, status: 'active' },
+    });
+    if (!destination) {
+      throw new NotFoundException('Withdrawal address not found');
+    }
+    if (destination.activatesAt > new Date()) {
+      throw new BadRequestException(
+        `This address is in its ${WITHDRAWAL_COOLING_HOURS}-hour cooling period and can be used from ${destination.activatesAt.toISOString()}`,
+      );
+    }
+
+    const { asset, network } = destination;
+    const amount = new Decimal(String(input.amount)).toDecimalPlaces(
+      ASSET_DECIMALS[asset],
+      Decimal.ROUND_DOWN,
+    );
+    if (amount.lt(MIN_WITHDRAWAL[asset])) {
+      throw new BadRequestException(
+        `The minimum withdrawal is ${MIN_WITHDRAWAL[asset]} ${asset}`,
+      );
+    }
+    const fee = await this.networkFee(asset, network);
+    const total = amount.add(fee);
+
+    await this.verifyPin(userId, input.pin);
+
+    const balance = await this.prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency: asset } },
+    });
+    if (!balance || new Decimal(balance.amount.toString()).lt(total)) {
+      throw new BadRequestException(
+        `Insufficient ${asset} balance. You need ${total.toString()} ${asset} including the ${fee.toString()} ${asset} network fee.`,
+      );
+    }
+
+    // Limits and risk rules are set in naira
+    const rate = await this.coinGecko.getRate(asset);
+    const ngnEquivalent = total.mul(rate).toDecimalPlaces(2);
+    await this.limits.checkSendLimit(userId, ngnEquivalent, 'NGN');
+
+    const riskInput: TransactionRiskInput = {
+      userId,
+      amount: ngnEquivalent,
+      channel: 'crypto',
+      walletAddress: destination.address,
+      ...riskContext,
+    };
+    const risk = await this.ews.screenTransaction(riskInput);
+    const status = risk.action === 'hold' ? 'review' : 'queued';
+
+    await this.holds.checkHeldFunds(userId, total, asset);
+
+    const reference = this.generateReference();
+    const withdrawal = await this.prisma.$transaction(async (tx) => {
+      const posting = await this.ledger.post(tx, {
+        reference,
+        type: 'crypto_withdrawal',
+        currency: asset,
+        description: `${asset} withdrawal to ${destination.address}`,
+        legs: [
+          {
+            account: LedgerService.user(userId, asset),
+            direction: 'debit',
+            amount: total,
+          },
+          {
+            account: LedgerService.external('crypto', asset),
+            direction: 'credit',
+            amount,
+          },
+          {
+            account: LedgerService.fees(asset),
+            direction: 'credit',
+            amount: fee,
+          },
+        ],
+      });
+      const { before, after } =
+        posting.balances[LedgerService.user(userId, asset)];
+
+      const transaction = await tx.transaction.create({
+        data: {
+          senderId: userId,
+          amount: amount.toString(),
+          currency: asset,
+          type: 'crypto_withdrawal',
+          status: 'PENDING',
+          idempotencyKey: reference,
+          reference,
+          // The balance columns are naira-sized (2dp), so crypto snapshots
+          // are kept exactly in metadata instead
+          isFlagged: risk.action !== 'allow',
+          flagReason:
+            risk.action === 'allow'
+              ? undefined
+              : `Risk score ${risk.score}/100: ${risk.reasons.join('; ')}`,
+          metadata: {
+            network,
+            address: destination.address,
+            networkFee: fee.toString(),
+            ngnEquivalent: ngnEquivalent.toString(),
+            rate: rate.toString(),
+            beforeBalance: before.toString(),
+            afterBalance: after.toString(),
+          },
+        },
+      });
+      await this.ews.recordAssessment(tx, transaction.id, riskInput, risk);
+
+      const created = await tx.cryptoWithdrawal.create({
+        data: {
+          userId,
+          addressId: destination.id,
+          asset,
+          network,
+          address: destination.address,
+          amount: amount.toString(),
+          networkFee: fee.toString(),
+          reference,
+          transactionId: transaction.id,
+          status,
+          riskAction: risk.action,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CRYPTO_WITHDRAWAL_REQUESTED',
+          userId,
+          actorType: 'user',
+          metadata: {
+            withdrawalId: created.id,
+            reference,
+            asset,
+            network,
+            address: destination.address,
+            amount: amount.toString(),
+            networkFee: fee.toString(),
+            riskAction: risk.action,
+          },
+        },
+      });
+      return created;
+    });
+
+    this.logger.log(
+      `Withdrawal ${reference}: ${amount.toString()} ${asset} (${network}) for user ${userId}, ${status}`,
+    );
+    return this.toResponse(withdrawal);
+  }
+
+  async listForUser(userId: string) {
+    const withdrawals = await this.prisma.cryptoWithdrawal.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+    return withdrawals.map((withdrawal) => this.toResponse(withdrawal));
+  }
+
+  /**
+   * Cancel before anything is built for the signer; the wallet is refunded
+   */
+  async cancel(userId: string, id: string) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findFirst({
+      where: { id, userId },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.cryptoWithdrawal.updateMany({
+        where: { id, status: { in: CANCELLABLE_STATUSES } },
+        data: { status: 'cancelled', failureReason: 'Cancelled by user' },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'This withdrawal is already being sent and can no longer be cancelled',
+        );
+      }
+      await this.refund(tx, withdrawal);
+      await tx.auditLog.create({
+        data: {
+          action: 'CRYPTO_WITHDRAWAL_CANCELLED',
+          userId,
+          actorType: 'user',
+          metadata: { withdrawalId: id, reference: withdrawal.reference },
+        },
+      });
+      return tx.cryptoWithdrawal.findUniqueOrThrow({ where: { id } });
+    });
+    return this.toResponse(cancelled);
+  }
+
+  // ── Signing queue ──────────────────────────────────────────────────
+
+  /**
+   * Oldest first, so the queue is worked in order. Filter by status.
+   */
+  async listForAdmin(status?: string) {
+    const withdrawals = await this.prisma.cryptoWithdrawal.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+      include: WITH_USER,
+    });
+    return withdrawals.map((withdrawal) => this.toAdminResponse(withdrawal));
+  }
+
+  /** Clear a withdrawal EWS held for review into the signing queue */
+  async approve(admin: AdminPrincipal, id: string) {
+    await this.transition(id, ['review'], 'queued', {
+      reviewedBy: admin.adminId,
+    });
+    await this.audit('CRYPTO_WITHDRAWAL_APPROVED', admin, id);
+    return this.getForAdmin(id);
+  }
+
+  /**
+   * Build the unsigned transaction for the offline signer. Rebuilding
+   * replaces the previous build, which must then not be signed.
+   */
+  async build(admin: AdminPrincipal, id: string) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUnique({
+      where: { id },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+    if (withdrawal.status !== 'queued' && withdrawal.status !== 'signing') {
+      throw new BadRequestException(
+        `A ${withdrawal.status} withdrawal can't be built`,
+      );
+    }
+
+    const unsigned = await this.builder.buildUnsigned(withdrawal);
+    await this.transition(id, ['queued', 'signing'], 'signing', {
+      unsignedTx: unsigned as unknown as Prisma.InputJsonValue,
+      builtAt: new Date(),
+      builtBy: admin.adminId,
+    });
+    await this.audit('CRYPTO_WITHDRAWAL_BUILT', admin, id, {
+      format: unsigned.format,
+      from: unsigned.from,
+    });
+    return this.getForAdmin(id);
+  }
+
+  /**
+   * Record the hash of the signed transaction once it has been broadcast.
+   * From here the confirmation cron follows it on-chain.
+   */
+  async recordBroadcast(
+    admin: AdminPrincipal,
+    id: string,
+    input: WithdrawalBroadcastInput,
+  ) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUnique({
+      where: { id },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+    const txHash = (input.txHash ?? '').trim().toLowerCase();
+    if (!TX_HASH_FORMATS[withdrawal.network]?.test(txHash)) {
+      throw new BadRequestException(
+        `Not a valid ${withdrawal.network} transaction hash`,
+      );
+    }
+    const reused = await this.prisma.cryptoWithdrawal.findUnique({
+      where: { txHash },
+      select: { id: true },
+    });
+    if (reused) {
+      throw new BadRequestException(
+        'This hash is already recorded against another withdrawal',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.cryptoWithdrawal.updateMany({
+        where: { id, status: 'signing' },
+        data: { status: 'broadcast', txHash, broadcastAt: new Date() },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Only a withdrawal that has been built can be marked broadcast',
+        );
+      }
+      if (withdrawal.transactionId) {
+        await tx.transaction.update({
+          where: { id: withdrawal.transactionId },
+          data: { providerTxId: txHash },
+        });
+      }
+    });
+    await this.audit('CRYPTO_WITHDRAWAL_BROADCAST', admin, id, { txHash });
+    return this.getForAdmin(id);
+  }
+
+  /**
+   * Stop a withdrawal before it is broadcast and refund the wallet. A
+   * built transaction must be discarded, not signed, once rejected.
+   */
+  async reject(
+    admin: AdminPrincipal,
+    id: string,
+    input: WithdrawalDecisionInput,
+  ) {
+    return this.fail(admin, id, REJECTABLE_STATUSES, 'rejected', input);
+  }
+
+  /**
+   * The broadcast transaction was dropped or reverted on-chain: refund the
+   * wallet. Only for transactions that can no longer confirm.
+   */
+  async markFailed(
+    admin: AdminPrincipal,
+    id: string,
+    input: WithdrawalDecisionInput,
+  ) {
+    return this.fail(admin, id, ['broadcast'], 'failed', input);
+  }
+
+  /**
+   * Settle a broadcast withdrawal the cron found with enough confirmations
+   */
+  async settleConfirmed(withdrawal: CryptoWithdrawal, confirmations: number) {
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.cryptoWithdrawal.updateMany({
+        where: { id: withdrawal.id, status: 'broadcast' },
+        data: { status: 'confirmed', confirmations, confirmedAt: new Date() },
+      });
+      if (count === 0) return;
+
+      if (withdrawal.transactionId) {
+        await tx.transaction.update({
+          where: { id: withdrawal.transactionId },
+          data: { status: 'SUCCESS' },
+        });
+      }
+      await this.outbox.record(
+        tx,
+        'CryptoWithdrawalCompleted',
+        {
+          withdrawalId: withdrawal.id,
+          transactionId: withdrawal.transactionId ?? '',
+          reference: withdrawal.reference,
+          userId: withdrawal.userId,
+          asset: withdrawal.asset,
+          network: withdrawal.network,
+          amount: withdrawal.amount.toString(),
+          address: withdrawal.address,
+          txHash: withdrawal.txHash ?? '',
+        },
+        withdrawal.id,
+      );
+    });
+  }
+
+  // ── Helpers ────────────────────────────────────────────────────────
+
+  private async fail(
+    admin: AdminPrincipal,
+    id: string,
+    from: string[],
+    status: 'rejected' | 'failed',
+    input: WithdrawalDecisionInput,
+  ) {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new BadRequestException('reason is required');
+    }
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUnique({
+      where: { id },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.cryptoWithdrawal.updateMany({
+        where: { id, status: { in: from } },
+        data: { status, failureReason: reason, reviewedBy: admin.adminId },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          `A ${withdrawal.status} withdrawal can't be ${status}`,
+        );
+      }
+      await this.refund(tx, withdrawal);
+      await tx.auditLog.create({
+        data: {
+          action:
+            status === 'rejected'
+              ? 'CRYPTO_WITHDRAWAL_REJECTED'
+              : 'CRYPTO_WITHDRAWAL_FAILED',
+          userId: withdrawal.userId,
+          actorType: 'admin',
+          actorId: admin.adminId,
+          metadata: {
+            withdrawalId: id,
+            reference: withdrawal.reference,
+            reason,
+          },
+        },
+      });
+      await this.outbox.record(
+        tx,
+        'CryptoWithdrawalFailed',
+        {
+          withdrawalId: id,
+          transactionId: withdrawal.transactionId ?? '',
+          reference: withdrawal.reference,
+          userId: withdrawal.userId,
+          asset: withdrawal.asset,
+          amount: withdrawal.amount.toString(),
+          reason,
+        },
+        id,
+      );
+    });
+    return this.getForAdmin(id);
+  }
+
+  // Reverse the debit (amount and fee) and fail the wallet transaction
+  private async refund(
+    tx: Prisma.TransactionClient,
+    withdrawal: CryptoWithdrawal,
+  ) {
+    await this.ledger.reverse(tx, withdrawal.reference, 'refund');
+    if (withdrawal.transactionId) {
+      await tx.transaction.update({
+        where: { id: withdrawal.transactionId },
+        data: { status: 'FAILED' },
+      });
+    }
+  }
+
+  private async transition(
+    id: string,
+    from: string[],
+    to: string,
+    data: Prisma.CryptoWithdrawalUpdateManyMutationInput = {},
+  ) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+    const { count } = await this.prisma.cryptoWithdrawal.updateMany({
+      where: { id, status: { in: from } },
+      data: { ...data, status: to },
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        `A ${withdrawal.status} withdrawal can't be moved to ${to}`,
+      );
+    }
+  }
+
+  private async getForAdmin(id: string) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUniqueOrThrow({
+      where: { id },
+      include: WITH_USER,
+    });
+    return this.toAdminResponse(withdrawal);
+  }
+
+  private async audit(
+    action: string,
+    admin: AdminPrincipal,
+    withdrawalId: string,
+    metadata: Record<string, unknown> = {},
+  ) {
+    const withdrawal = await this.prisma.cryptoWithdrawal.findUniqueOrThrow({
+      where: { id: withdrawalId },
+      select: { userId: true, reference: true },
+    });
+    await this.prisma.auditLog.create({
+      data: {
+        action,
+        userId: withdrawal.userId,
+        actorType: 'admin',
+        actorId: admin.adminId,
+        metadata: {
+          withdrawalId,
+          reference: withdrawal.reference,
+          ...metadata,
+        } as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  private async networkFee(asset: string, network: string) {
+    const fee = await this.builder.estimateNetworkFee(network);
+    return fee.toDecimalPlaces(ASSET_DECIMALS[asset], Decimal.ROUND_UP);
+  }
+
+  private validateAssetNetwork(assetInput?: string, networkInput?: string) {
+    const asset = (assetInput || '').toUpperCase();
+    const network = (networkInput || '').toUpperCase();
+    if (!WITHDRAWAL_NETWORKS[asset]) {
+      throw new BadRequestException('asset must be USDT or BTC');
+    }
+    if (!WITHDRAWAL_NETWORKS[asset].includes(network)) {
+      throw new BadRequestException(
+        `Invalid network ${network} for ${asset}. Valid: ${WITHDRAWAL_NETWORKS[asset].join(', ')}`,
+      );
+    }
+    return { asset, network };
+  }
+
+  private async verifyPin(userId: string, pin?: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { hashedPin: true },
+    });
+    if (!user?.hashedPin) {
+      throw new UnauthorizedException('Set your PIN in Settings.');
+    }
+    if (!pin || !(await bcrypt.compare(pin, user.hashedPin))) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+  }
+
+  private generateReference(): string {
+    return `CWD-${Date.now()}-${randomBytes(4).toString('hex')}`;
+  }
+
+  private toAddressResponse(address: CryptoWithdrawalAddress) {
+    return {
+      id: address.id,
+      asset: address.asset,
+      network: address.network,
+      address: address.address,
+      label: address.label,
+      activatesAt: address.activatesAt,
+      active: address.activatesAt <= new Date(),
+      createdAt: address.createdAt,
+    };
+  }
+
+  private toResponse(withdrawal: CryptoWithdrawal) {
+    return {
+      id: withdrawal.id,
+      reference: withdrawal.reference,
+      asset: withdrawal.asset,
+      network: withdrawal.network,
+      address: withdrawal.address,
+      amount: withdrawal.amount.toString(),
+      networkFee: withdrawal.networkFee.toString(),
+      status: withdrawal.status,
+      txHash: withdrawal.txHash,
+      confirmations: withdrawal.confirmations,
+      failureReason: withdrawal.failureReason,
+      createdAt: withdrawal.createdAt,
+      confirmedAt: withdrawal.confirmedAt,
+    };
+  }
+
+  private toAdminResponse(
+    withdrawal: Prisma.CryptoWithdrawalGetPayload<{
+      include: typeof WITH_USER;
+    }>,
+  ) {
+    const { user } = withdrawal;
+    return {
+      ...this.toResponse(withdrawal),
+      userId: withdrawal.userId,
+      userTag: user.vuraTag,
+      userName:
+        [user.legalFirstName, user.legalLastName].filter(Boolean).join(' ') ||
+        user.vuraTag,
+      transactionId: withdrawal.transactionId,
+      riskAction: withdrawal.riskAction,
+      unsignedTx: withdrawal.unsignedTx,
+      builtAt: withdrawal.builtAt,
+      broadcastAt: withdrawal.broadcastAt,
+      reviewedBy: withdrawal.reviewedBy,
+    };
+  }
+}
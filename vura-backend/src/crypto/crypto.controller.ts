@@ -12,6 +12,8 @@ import {
 import { AuthGuard } from '../auth/auth.guard';
 import { CoinGeckoService } from './coingecko.service';
 import { BlockchainMonitorService } from './blockchain-monitor.service';
+import { DepositAddressService } from './deposit-address.service';
+import { CryptoQuoteService } from './crypto-quote.service';
 import { PrismaService } from '../prisma.service';
 import Decimal from 'decimal.js';
 
@@ -21,6 +23,8 @@ export class CryptoController {
   constructor(
     private coinGecko: CoinGeckoService,
     private blockchain: BlockchainMonitorService,
+    private depositAddresses: DepositAddressService,
+    private quotes: CryptoQuoteService,
     private prisma: PrismaService,
   ) {}
 
@@ -66,7 +70,44 @@ export class CryptoController {
   }
 
   /**
-   * Return the static business wallet address for a given asset + network.
+   * Lock a rate for a deposit. The quote ID is passed to confirm-sent, and
+   * the quoted rate is honoured if the funds land before it expires.
+   * POST /crypto/quote
+   */
+  @Post('quote')
+  async createQuote(
+    @Body('asset') asset: string,
+    @Body('amount') amount: string,
+    @Request() req: any,
+  ) {
+    const userId: string = req.user.userId;
+    const normalizedAsset = (asset || 'USDT').toUpperCase();
+
+    if (!amount || !(parseFloat(amount) > 0)) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+
+    const quote = await this.quotes.createQuote(
+      userId,
+      normalizedAsset,
+      new Decimal(amount),
+    );
+
+    return { success: true, data: this.quotes.toResponse(quote) };
+  }
+
+  /**
+   * GET /crypto/quote/:id
+   */
+  @Get('quote/:id')
+  async getQuote(@Param('id') id: string, @Request() req: any) {
+    const quote = await this.quotes.getQuote(req.user.userId, id);
+    return { success: true, data: this.quotes.toResponse(quote) };
+  }
+
+  /**
+   * Return the user's own deposit address for a given asset + network,
+   * derived from the network's xpub on first request.
    * POST /crypto/deposit-address
    */
   @Post('deposit-address')
@@ -90,39 +131,23 @@ export class CryptoController {
       );
     }
 
-    const wallet = this.coinGecko.getDepositAddress(normalizedAsset, normalizedNetwork);
-
-    if (!wallet.address || wallet.address === 'WALLET_NOT_CONFIGURED') {
+    if (!this.depositAddresses.isConfigured(normalizedNetwork)) {
       throw new BadRequestException(
         'Crypto deposits are not yet configured. Please contact support.',
       );
     }
 
-    // Persist a deposit record so we can track this user's address
-    const deposit = await this.prisma.cryptoDeposit.upsert({
-      where: {
-        userId_asset_network: {
-          userId,
-          asset: normalizedAsset,
-          network: normalizedNetwork,
-        },
-      },
-      update: { address: wallet.address, status: 'active' },
-      create: {
-        userId,
-        asset: normalizedAsset,
-        network: normalizedNetwork,
-        address: wallet.address,
-        providerRef: `static_${normalizedAsset}_${normalizedNetwork}`,
-        status: 'active',
-      },
-    });
+    const deposit = await this.depositAddresses.getOrCreate(
+      userId,
+      normalizedAsset,
+      normalizedNetwork,
+    );
 
     return {
       success: true,
       data: {
         id: deposit.id,
-        address: wallet.address,
+        address: deposit.address,
         asset: normalizedAsset,
         network: normalizedNetwork,
       },
@@ -132,7 +157,8 @@ export class CryptoController {
   /**
    * User clicks "I've sent the money" — records the deposit, then attempts
    * instant on-chain verification.  If not yet confirmed the cron job will
-   * keep checking every 3 minutes.
+   * keep checking every 3 minutes.  Pass the quoteId from POST /crypto/quote
+   * to lock the quoted rate.
    * POST /crypto/confirm-sent
    */
   @Post('confirm-sent')
@@ -141,6 +167,7 @@ export class CryptoController {
     @Body('network') network: string,
     @Body('amount') amount: string,
     @Body('txHash') txHash: string,
+    @Body('quoteId') quoteId: string,
     @Request() req: any,
   ) {
     const userId: string = req.user.userId;
@@ -167,34 +194,84 @@ export class CryptoController {
       );
     }
 
-    const { rate } = await this.coinGecko.calculateNgnAmount(
-      new Decimal(amount),
-      normalizedAsset,
-    );
+    // The address scan may already have picked this transaction up
+    if (txHash) {
+      const existing = await this.prisma.cryptoDepositTransaction.findUnique({
+        where: { providerTxId: txHash },
+      });
+      if (existing && existing.userId !== userId) {
+        throw new BadRequestException(
+          'This transaction has already been submitted',
+        );
+      }
+      if (existing) {
+        let boundQuoteId = existing.quoteId;
+        if (quoteId && !boundQuoteId && existing.status !== 'confirmed') {
+          await this.prisma.$transaction(async (tx) => {
+            await this.quotes.bindQuote(tx, userId, quoteId, normalizedAsset);
+            await tx.cryptoDepositTransaction.update({
+              where: { id: existing.id },
+              data: { quoteId },
+            });
+          });
+          boundQuoteId = quoteId;
+        }
 
-    const ngnEstimate = new Decimal(amount).mul(rate);
+        return {
+          success: true,
+          data: {
+            id: existing.id,
+            status: existing.status,
+            cryptoAmount: existing.cryptoAmount.toString(),
+            estimatedNgn: existing.ngnAmount.toFixed(2),
+            quoteId: boundQuoteId,
+            message: this.statusMessage(existing.status),
+          },
+        };
+      }
+    }
 
-    const tx = await this.prisma.cryptoDepositTransaction.create({
-      data: {
-        depositId: deposit.id,
-        userId,
-        providerTxId: txHash || `manual_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-        asset: normalizedAsset,
-        network: normalizedNetwork,
-        cryptoAmount: parseFloat(amount),
-        cryptoCurrency: normalizedAsset,
-        exchangeRate: rate.toNumber(),
-        ngnAmount: ngnEstimate.toNumber(),
-        confirmations: 0,
-        minConfirmations: 1,
-        status: 'pending',
-        metadata: {
-          txHash: txHash || null,
-          submittedByUser: true,
-          submittedAt: new Date().toISOString(),
+    const liveRate = quoteId
+      ? null
+      : (
+          await this.coinGecko.calculateNgnAmount(
+            new Decimal(amount),
+            normalizedAsset,
+          )
+        ).rate;
+
+    const tx = await this.prisma.$transaction(async (prisma) => {
+      const quote = quoteId
+        ? await this.quotes.bindQuote(prisma, userId, quoteId, normalizedAsset)
+        : null;
+      const rate = quote ? new Decimal(quote.rate.toString()) : liveRate!;
+
+      const ngnEstimate = new Decimal(amount).mul(rate);
+
+      return prisma.cryptoDepositTransaction.create({
+        data: {
+          depositId: deposit.id,
+          userId,
+          providerTxId: txHash || `manual_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+          asset: normalizedAsset,
+          network: normalizedNetwork,
+          cryptoAmount: parseFloat(amount),
+          cryptoCurrency: normalizedAsset,
+          exchangeRate: rate.toNumber(),
+          ngnAmount: ngnEstimate.toNumber(),
+          confirmations: 0,
+          minConfirmations: 1,
+          status: 'pending',
+          quoteId: quote?.id,
+          metadata: {
+            txHash: txHash || null,
+            submittedByUser: true,
+            submittedAt: new Date().toISOString(),
+          },
         },
-      },
+      });
     });
+    const ngnEstimate = new Decimal(tx.ngnAmount.toString());
 
     // Attempt instant on-chain verification if user gave a tx hash
     let instantStatus = 'pending';
@@ -204,7 +281,7 @@ export class CryptoController {
           txHash,
           normalizedAsset,
           normalizedNetwork,
-          new Decimal(amount),
+          deposit.address,
         );
 
         if (result.found && result.confirmed) {
@@ -221,6 +298,7 @@ export class CryptoController {
                 submittedByUser: true,
                 submittedAt: new Date().toISOString(),
                 onChainAmount: result.amount.toString(),
+                firstSeenAt: new Date().toISOString(),
                 lastChecked: new Date().toISOString(),
               },
             },
@@ -238,6 +316,7 @@ export class CryptoController {
         status: instantStatus,
         cryptoAmount: amount,
         estimatedNgn: ngnEstimate.toFixed(2),
+        quoteId: tx.quoteId,
         message:
           instantStatus === 'confirming'
             ? 'Transaction found on-chain. Waiting for confirmations...'
@@ -258,6 +337,7 @@ export class CryptoController {
 
     const tx = await this.prisma.cryptoDepositTransaction.findFirst({
       where: { id: txId, userId },
+      include: { quote: true },
     });
 
     if (!tx) {
@@ -278,6 +358,12 @@ export class CryptoController {
         exchangeRate: tx.exchangeRate?.toString(),
         confirmations: tx.confirmations,
         txHash: metadata.txHash || tx.providerTxId,
+        quote: tx.quote ? this.quotes.toResponse(tx.quote) : null,
+        quoteOutcome: metadata.quoteOutcome ?? null,
+        heldAs: metadata.heldAs ?? null,
+        autoWithdraw:
+          (metadata.autoWithdraw as Record<string, unknown> | undefined) ??
+          null,
         creditedAt: tx.creditedAt,
         createdAt: tx.createdAt,
         message: this.statusMessage(tx.status as string),
@@ -364,215 +450,92 @@ export class CryptoController {
     return { success: true, data: addresses };
   }
 
-  // ── Admin Endpoints ────────────────────────────────────────────────
-
   /**
-   * Admin: list all pending crypto deposits.
-   * GET /crypto/admin/pending
+   * How the user's crypto deposits are credited, and the bank account
+   * auto-withdraw pays out to.
+   * GET /crypto/settings
    */
-  @Get('admin/pending')
-  async listPendingDeposits() {
-    // TODO: Add proper admin role guard in production
-    const pending = await this.prisma.cryptoDepositTransaction.findMany({
-      where: { status: 'pending' },
-      orderBy: { createdAt: 'desc' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            vuraTag: true,
-            emailEncrypted: true,
-            legalFirstName: true,
-            legalLastName: true,
-          },
-        },
-      },
+  @Get('settings')
+  async getSettings(@Request() req: { user: { userId: string } }) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { cryptoHoldUsdt: true, cryptoAutoWithdraw: true },
     });
-
     return {
       success: true,
-      data: pending.map((tx: any) => ({
-        id: tx.id,
-        userId: tx.userId,
-        userTag: tx.user?.vuraTag,
-        userName: [tx.user?.legalFirstName, tx.user?.legalLastName]
-          .filter(Boolean)
-          .join(' ') || tx.user?.vuraTag,
-        asset: tx.asset,
-        network: tx.network,
-        cryptoAmount: tx.cryptoAmount?.toString(),
-        estimatedNgn: tx.ngnAmount?.toString(),
-        txHash: (tx.metadata as any)?.txHash,
-        createdAt: tx.createdAt,
-      })),
+      data: {
+        holdUsdt: user?.cryptoHoldUsdt ?? false,
+        autoWithdraw: user?.cryptoAutoWithdraw ?? false,
+        payoutAccount: await this.payoutAccount(req.user.userId),
+      },
     };
   }
 
   /**
-   * Admin: approve a pending deposit — credits NGN to the user's balance.
-   * PATCH /crypto/admin/approve/:txId
+   * holdUsdt: keep USDT deposits in the USDT wallet instead of converting
+   * them to NGN. autoWithdraw: send the NGN from each converted deposit to
+   * the primary bank account; held USDT is never paid out. Both apply to
+   * deposits credited after the change.
+   * PATCH /crypto/settings
    */
-  @Patch('admin/approve/:txId')
-  async approveDeposit(
-    @Param('txId') txId: string,
-    @Body('ngnAmount') ngnAmountOverride: string,
-    @Request() req: any,
+  @Patch('settings')
+  async updateSettings(
+    @Body('holdUsdt') holdUsdt: unknown,
+    @Body('autoWithdraw') autoWithdraw: unknown,
+    @Request() req: { user: { userId: string } },
   ) {
-    // TODO: Add proper admin role guard in production
-
-    const depositTx = await this.prisma.cryptoDepositTransaction.findUnique({
-      where: { id: txId },
-    });
-
-    if (!depositTx) throw new BadRequestException('Deposit not found');
-    if (depositTx.status === 'confirmed') {
-      return { success: true, data: { message: 'Already confirmed' } };
+    if (holdUsdt === undefined && autoWithdraw === undefined) {
+      throw new BadRequestException('Nothing to update');
     }
-
-    const ngnAmount = ngnAmountOverride
-      ? new Decimal(ngnAmountOverride)
-      : new Decimal(depositTx.ngnAmount.toString());
-
-    if (ngnAmount.lessThanOrEqualTo(0)) {
-      throw new BadRequestException('NGN amount must be positive');
+    if (holdUsdt !== undefined && typeof holdUsdt !== 'boolean') {
+      throw new BadRequestException('holdUsdt must be true or false');
+    }
+    if (autoWithdraw !== undefined && typeof autoWithdraw !== 'boolean') {
+      throw new BadRequestException('autoWithdraw must be true or false');
+    }
+    const payoutAccount = await this.payoutAccount(req.user.userId);
+    if (autoWithdraw && !payoutAccount) {
+      throw new BadRequestException(
+        'Add a primary bank account before turning on auto-withdraw',
+      );
     }
 
-    // Atomic: credit balance + update tx status
-    await this.prisma.$transaction(async (tx) => {
-      const balance = await tx.balance.findUnique({
-        where: { userId_currency: { userId: depositTx.userId, currency: 'NGN' } },
-      });
-
-      const before = balance ? new Decimal(balance.amount.toString()) : new Decimal(0);
-      const after = before.add(ngnAmount);
-
-      await tx.balance.upsert({
-        where: { userId_currency: { userId: depositTx.userId, currency: 'NGN' } },
-        create: {
-          userId: depositTx.userId,
-          currency: 'NGN',
-          amount: ngnAmount.toNumber(),
-          lastUpdatedBy: 'crypto_admin_approve',
-        },
-        update: {
-          amount: after.toNumber(),
-          lastUpdatedBy: 'crypto_admin_approve',
-        },
-      });
-
-      await tx.cryptoDepositTransaction.update({
-        where: { id: txId },
-        data: {
-          status: 'confirmed',
-          ngnAmount: ngnAmount.toNumber(),
-          creditedAt: new Date(),
-          metadata: {
-            ...(depositTx.metadata as object),
-            approvedBy: req.user.userId,
-            approvedAt: new Date().toISOString(),
-          },
-        },
-      });
-
-      await tx.transaction.create({
-        data: {
-          receiverId: depositTx.userId,
-          amount: ngnAmount.toNumber(),
-          currency: 'NGN',
-          type: 'crypto_deposit',
-          status: 'SUCCESS',
-          idempotencyKey: `crypto_${txId}`,
-          providerTxId: depositTx.providerTxId,
-          beforeBalance: before.toNumber(),
-          afterBalance: after.toNumber(),
-          reference: `CRYPTO-${txId.substring(0, 8)}`,
-          externalReference: depositTx.asset,
-          metadata: {
-            cryptoAmount: depositTx.cryptoAmount.toString(),
-            cryptoCurrency: depositTx.asset,
-            network: depositTx.network,
-            exchangeRate: depositTx.exchangeRate.toString(),
-            approvedBy: req.user.userId,
-          },
-        },
-      });
-
-      await tx.auditLog.create({
+    const user = await this.prisma.user.update({
+      where: { id: req.user.userId },
+      data: { cryptoHoldUsdt: holdUsdt, cryptoAutoWithdraw: autoWithdraw },
+      select: { cryptoHoldUsdt: true, cryptoAutoWithdraw: true },
+    });
+    if (autoWithdraw !== undefined) {
+      await this.prisma.auditLog.create({
         data: {
-          action: 'CRYPTO_DEPOSIT_APPROVED',
-          userId: depositTx.userId,
-          actorType: 'admin',
-          metadata: {
-            txId,
-            cryptoAmount: depositTx.cryptoAmount.toString(),
-            ngnAmount: ngnAmount.toString(),
-            approvedBy: req.user.userId,
-          },
+          action: 'CRYPTO_AUTO_WITHDRAW_UPDATED',
+          userId: req.user.userId,
+          actorType: 'user',
+          metadata: { autoWithdraw },
         },
       });
-    });
-
+    }
     return {
       success: true,
       data: {
-        txId,
-        status: 'confirmed',
-        ngnAmount: ngnAmount.toFixed(2),
-        message: 'Deposit approved and NGN credited to user.',
+        holdUsdt: user.cryptoHoldUsdt,
+        autoWithdraw: user.cryptoAutoWithdraw,
+        payoutAccount,
       },
     };
   }
 
-  /**
-   * Admin: reject a pending deposit.
-   * PATCH /crypto/admin/reject/:txId
-   */
-  @Patch('admin/reject/:txId')
-  async rejectDeposit(
-    @Param('txId') txId: string,
-    @Body('reason') reason: string,
-    @Request() req: any,
-  ) {
-    // TODO: Add proper admin role guard in production
-
-    const depositTx = await this.prisma.cryptoDepositTransaction.findUnique({
-      where: { id: txId },
+  private async payoutAccount(userId: string) {
+    const account = await this.prisma.bankAccount.findFirst({
+      where: { userId, status: 'active', isPrimary: true },
+      select: { bankName: true, accountNumber: true, accountName: true },
     });
-
-    if (!depositTx) throw new BadRequestException('Deposit not found');
-    if (depositTx.status === 'confirmed') {
-      throw new BadRequestException('Cannot reject an already confirmed deposit');
-    }
-
-    await this.prisma.cryptoDepositTransaction.update({
-      where: { id: txId },
-      data: {
-        status: 'failed',
-        metadata: {
-          ...(depositTx.metadata as object),
-          rejectedBy: req.user.userId,
-          rejectedAt: new Date().toISOString(),
-          rejectionReason: reason || 'Deposit not found on-chain',
-        },
-      },
-    });
-
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'CRYPTO_DEPOSIT_REJECTED',
-        userId: depositTx.userId,
-        actorType: 'admin',
-        metadata: {
-          txId,
-          reason: reason || 'Deposit not found on-chain',
-          rejectedBy: req.user.userId,
-        },
-      },
-    });
-
-    return {
-      success: true,
-      data: { txId, status: 'rejected', reason },
-    };
+    return account
+      ? {
+          bankName: account.bankName,
+          accountName: account.accountName,
+          accountNumberLast4: account.accountNumber.slice(-4),
+        }
+      : null;
   }
 }
@@ -5,15 +5,58 @@ import { CryptoController } from './crypto.controller';
 import { CoinGeckoService } from './coingecko.service';
 import { BlockchainMonitorService } from './blockchain-monitor.service';
 import { DepositMonitorCron } from './deposit-monitor.cron';
+import { DepositAddressService } from './deposit-address.service';
+import { CryptoQuoteService } from './crypto-quote.service';
+import { CryptoWithdrawalController } from './crypto-withdrawal.controller';
+import { CryptoWithdrawalAdminController } from './crypto-withdrawal-admin.controller';
+import { CryptoDepositAdminController } from './crypto-deposit-admin.controller';
+import { CryptoDepositsService } from './crypto-deposits.service';
+import { CryptoWithdrawalService } from './crypto-withdrawal.service';
+import { CryptoTxBuilderService } from './crypto-tx-builder.service';
+import { WithdrawalMonitorCron } from './withdrawal-monitor.cron';
+import { CryptoAutoWithdrawService } from './crypto-auto-withdraw.service';
 import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { EWSModule } from '../ews/ews.module';
+import { LimitsModule } from '../limits/limits.module';
+import { HoldsModule } from '../holds/holds.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { AdminApprovalsModule } from '../admin-approvals/admin-approvals.module';
 
 @Module({
-  imports: [ConfigModule, ScheduleModule.forRoot()],
-  controllers: [CryptoController],
+  imports: [
+    ConfigModule,
+    ScheduleModule.forRoot(),
+    LedgerModule,
+    OutboxModule,
+    EWSModule,
+    LimitsModule,
+    HoldsModule,
+    IdempotencyModule,
+    AdminAuthModule,
+    TransactionsModule,
+    AdminApprovalsModule,
+  ],
+  controllers: [
+    CryptoController,
+    CryptoWithdrawalController,
+    CryptoWithdrawalAdminController,
+    CryptoDepositAdminController,
+  ],
   providers: [
     CoinGeckoService,
     BlockchainMonitorService,
+    DepositAddressService,
+    CryptoQuoteService,
     DepositMonitorCron,
+    CryptoTxBuilderService,
+    CryptoWithdrawalService,
+    WithdrawalMonitorCron,
+    CryptoAutoWithdrawService,
+    CryptoDepositsService,
     PrismaService,
   ],
   exports: [CoinGeckoService, BlockchainMonitorService],
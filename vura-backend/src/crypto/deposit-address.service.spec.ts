@@ -0,0 +1,173 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { CryptoDeposit } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { DepositAddressService } from './deposit-address.service';
+
+// Account xpubs (m/44'/coin'/0') of the BIP39 test mnemonic
+// "abandon abandon abandon abandon abandon abandon abandon abandon abandon
+// abandon abandon about" with no passphrase
+const XPUBS = {
+  CRYPTO_BTC_XPUB:
+    'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj',
+  CRYPTO_BSC_XPUB:
+    'xpub6DCoCpSuQZB2jawqnGMEPS63ePKWkwWPH4TU45Q7LPXWuNd8TMtVxRrgjtEshuqpK3mdhaWHPFsBngh5GFZaM6si3yZdUsT8ddYM3PwnATt',
+  CRYPTO_TRON_XPUB:
+    'xpub6D1AabNHCupeiLM65ZR9UStMhJ1vCpyV4XbZdyhMZBiJXALQtmn9p42VTQckoHVn8WNqS7dqnJokZHAHcHGoaQgmv8D45oNUKx6DZMNZBCd',
+};
+// The private key of the same Bitcoin account
+const BTC_XPRV =
+  'xprv9xpXFhFpqdQK3TmytPBqXtGSwS3DLjojFhTGht8gwAAii8py5X6pxeBnQ6ehJiyJ6nDjWGJfZ95WxByFXVkDxHXrqu53WCRGypk2ttuqncb';
+
+const USER = 'user-1';
+
+/**
+ * Addresses are checked against the published addresses of the BIP39 test
+ * mnemonic; the database is a stub.
+ */
+describe('DepositAddressService', () => {
+  let prisma: {
+    cryptoDeposit: {
+      findUnique: jest.Mock;
+      aggregate: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+  };
+  let addresses: DepositAddressService;
+
+  const service = (env: Record<string, string>) =>
+    new DepositAddressService(
+      { get: (key: string) => env[key] } as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+    );
+  const deposit = (overrides: Partial<CryptoDeposit> = {}): CryptoDeposit => ({
+    id: 'deposit-1',
+    userId: USER,
+    asset: 'USDT',
+    network: 'TRC20',
+    address: 'TUEZSdKsoDHQMeZwihtdoBiN46zxhGWYdH',
+    memo: null,
+    providerRef: "m/44'/195'/0'/0/0",
+    derivationIndex: 0,
+    status: 'active',
+    lastScannedAt: null,
+    createdAt: new Date(),
+    expiresAt: null,
+    ...overrides,
+  });
+  const written = (mock: jest.Mock) =>
+    (mock.mock.lastCall as [{ data: Partial<CryptoDeposit> }])[0].data;
+
+  beforeEach(() => {
+    prisma = {
+      cryptoDeposit: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        aggregate: jest
+          .fn()
+          .mockResolvedValue({ _max: { derivationIndex: null } }),
+        create: jest.fn(({ data }: { data: Partial<CryptoDeposit> }) =>
+          Promise.resolve(deposit(data)),
+        ),
+        update: jest.fn(({ data }: { data: Partial<CryptoDeposit> }) =>
+          Promise.resolve(deposit(data)),
+        ),
+      },
+    };
+    addresses = service(XPUBS);
+  });
+
+  describe('deriveAddress', () => {
+    it.each([
+      ['BTC', 0, '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA'],
+      ['BTC', 1, '1Ak8PffB2meyfYnbXZR9EGfLfFZVpzJvQP'],
+      ['BEP20', 0, '0x9858EfFD232B4033E47d90003D41EC34EcaEda94'],
+      ['BEP20', 1, '0x6Fac4D18c912343BF86fa7049364Dd4E424Ab9C0'],
+      ['TRC20', 0, 'TUEZSdKsoDHQMeZwihtdoBiN46zxhGWYdH'],
+    ])('derives the %s address at index %i', (network, index, address) => {
+      expect(addresses.deriveAddress(network, index)).toBe(address);
+    });
+
+    it('gives the full BIP44 path for each network', () => {
+      expect(addresses.derivationPath('BTC', 3)).toBe("m/44'/0'/0'/0/3");
+      expect(addresses.derivationPath('TRC20', 7)).toBe("m/44'/195'/0'/0/7");
+      expect(addresses.derivationPath('BEP20', 0)).toBe("m/44'/60'/0'/0/0");
+    });
+
+    it.each([[-1], [1.5], [2 ** 31]])('refuses index %s', (index) => {
+      expect(() => addresses.deriveAddress('BTC', index)).toThrow(
+        'Invalid derivation index',
+      );
+    });
+
+    it('refuses a network without an xpub', () => {
+      const btcOnly = service({ CRYPTO_BTC_XPUB: XPUBS.CRYPTO_BTC_XPUB });
+
+      expect(btcOnly.isConfigured('TRC20')).toBe(false);
+      expect(() => btcOnly.deriveAddress('TRC20', 0)).toThrow(
+        ServiceUnavailableException,
+      );
+    });
+
+    it('refuses to load a private extended key', () => {
+      const unsafe = service({ CRYPTO_BTC_XPUB: BTC_XPRV });
+
+      expect(unsafe.isConfigured('BTC')).toBe(false);
+    });
+  });
+
+  describe('getOrCreate', () => {
+    it('allocates the next index on the network', async () => {
+      prisma.cryptoDeposit.aggregate.mockResolvedValue({
+        _max: { derivationIndex: 0 },
+      });
+
+      await addresses.getOrCreate(USER, 'USDT', 'BEP20');
+
+      expect(written(prisma.cryptoDeposit.create)).toMatchObject({
+        userId: USER,
+        address: '0x6Fac4D18c912343BF86fa7049364Dd4E424Ab9C0',
+        derivationIndex: 1,
+        providerRef: "m/44'/60'/0'/0/1",
+      });
+    });
+
+    it('moves to the next index when another user took it first', async () => {
+      prisma.cryptoDeposit.aggregate
+        .mockResolvedValueOnce({ _max: { derivationIndex: null } })
+        .mockResolvedValueOnce({ _max: { derivationIndex: 0 } });
+      prisma.cryptoDeposit.create.mockRejectedValueOnce({ code: 'P2002' });
+
+      const res = await addresses.getOrCreate(USER, 'BTC', 'BTC');
+
+      expect(res).toMatchObject({
+        address: '1Ak8PffB2meyfYnbXZR9EGfLfFZVpzJvQP',
+        derivationIndex: 1,
+      });
+    });
+
+    it('keeps the address a user already has', async () => {
+      const existing = deposit();
+      prisma.cryptoDeposit.findUnique.mockResolvedValue(existing);
+
+      await expect(addresses.getOrCreate(USER, 'USDT', 'TRC20')).resolves.toBe(
+        existing,
+      );
+      expect(prisma.cryptoDeposit.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('moves a shared-wallet row onto a derived address', async () => {
+      prisma.cryptoDeposit.findUnique.mockResolvedValue(
+        deposit({ address: 'TSharedWallet', derivationIndex: null }),
+      );
+
+      await addresses.getOrCreate(USER, 'USDT', 'TRC20');
+
+      expect(prisma.cryptoDeposit.create).not.toHaveBeenCalled();
+      expect(written(prisma.cryptoDeposit.update)).toMatchObject({
+        address: 'TUEZSdKsoDHQMeZwihtdoBiN46zxhGWYdH',
+        derivationIndex: 0,
+      });
+    });
+  });
+});
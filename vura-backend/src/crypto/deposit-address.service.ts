@@ -0,0 +1,200 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HDKey } from '@scure/bip32';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { PrismaService } from '../prisma.service';
+import { base58check, toChecksumAddress, tronAddress } from './address-codec';
+
+// Which chain (and so which xpub) each deposit network is derived on
+const NETWORK_CHAINS: Record<string, 'bitcoin' | 'tron' | 'bsc'> = {
+  BTC: 'bitcoin',
+  TRC20: 'tron',
+  BEP20: 'bsc',
+};
+
+type Chain = (typeof NETWORK_CHAINS)[string];
+
+// Account-level (m/44'/coin'/0') extended public keys, one per chain
+const XPUB_ENV: Record<Chain, string> = {
+  bitcoin: 'CRYPTO_BTC_XPUB',
+  tron: 'CRYPTO_TRON_XPUB',
+  bsc: 'CRYPTO_BSC_XPUB',
+};
+
+const COIN_TYPES: Record<Chain, number> = {
+  bitcoin: 0,
+  tron: 195,
+  bsc: 60,
+};
+
+const ALLOCATION_ATTEMPTS = 5;
+
+/**
+ * Per-user deposit addresses derived from watch-only xpubs. The server only
+ * ever holds the account-level public keys: each user gets the external
+ * chain address m/44'/coin'/0'/0/<index>, with the index allocated once per
+ * network and stored on the CryptoDeposit row, so funds are swept with the
+ * matching private keys offline.
+ */
+@Injectable()
+export class DepositAddressService {
+  private readonly logger = new Logger(DepositAddressService.name);
+  private readonly accounts: Partial<Record<Chain, HDKey>> = {};
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+  ) {
+    for (const chain of Object.keys(XPUB_ENV) as Chain[]) {
+      const xpub = this.config.get<string>(XPUB_ENV[chain]);
+      if (!xpub) continue;
+
+      try {
+        const account = HDKey.fromExtendedKey(xpub.trim());
+        if (account.privateKey) {
+          this.logger.error(
+            `${XPUB_ENV[chain]} is a private extended key — refusing to use it. Configure the account xpub instead.`,
+          );
+          continue;
+        }
+        this.accounts[chain] = account;
+      } catch (err) {
+        this.logger.error(
+          `${XPUB_ENV[chain]} is not a valid extended public key: ${(err as Error).message}`,
+        );
+      }
+    }
+
+    const configured = Object.keys(this.accounts);
+    this.logger.log(
+      `HD deposit addresses configured: ${configured.join(', ') || 'NONE'}`,
+    );
+  }
+
+  isConfigured(network: string): boolean {
+    const chain = NETWORK_CHAINS[network.toUpperCase()];
+    return Boolean(chain && this.accounts[chain]);
+  }
+
+  /**
+   * Derive the deposit address at the given index for a network.
+   */
+  deriveAddress(network: string, index: number): string {
+    const chain = NETWORK_CHAINS[network.toUpperCase()];
+    const account = chain ? this.accounts[chain] : undefined;
+    if (!account) {
+      throw new ServiceUnavailableException(
+        'Crypto deposits are not yet configured. Please contact support.',
+      );
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= 2 ** 31) {
+      throw new BadRequestException('Invalid derivation index');
+    }
+
+    const child = account.deriveChild(0).deriveChild(index);
+    if (!child.publicKey) {
+      throw new ServiceUnavailableException('Address derivation failed');
+    }
+
+    switch (chain) {
+      case 'bitcoin':
+        return p2pkhAddress(child.publicKey);
+      case 'tron':
+        return tronAddress(ethereumStyleAddress(child.publicKey));
+      case 'bsc':
+        return toChecksumAddress(ethereumStyleAddress(child.publicKey));
+    }
+  }
+
+  derivationPath(network: string, index: number): string {
+    const chain = NETWORK_CHAINS[network.toUpperCase()];
+    return `m/44'/${COIN_TYPES[chain]}'/0'/0/${index}`;
+  }
+
+  /**
+   * Return the user's deposit address for an asset and network, allocating
+   * the next derivation index for that network on first use. Rows left over
+   * from the shared business wallet (no index) are moved to a derived address.
+   */
+  async getOrCreate(userId: string, asset: string, network: string) {
+    const existing = await this.prisma.cryptoDeposit.findUnique({
+      where: { userId_asset_network: { userId, asset, network } },
+    });
+    if (existing && existing.derivationIndex !== null) {
+      if (existing.status !== 'active') {
+        return this.prisma.cryptoDeposit.update({
+          where: { id: existing.id },
+          data: { status: 'active' },
+        });
+      }
+      return existing;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.prisma.cryptoDeposit.aggregate({
+        where: { network },
+        _max: { derivationIndex: true },
+      });
+      const index = (last._max.derivationIndex ?? -1) + 1;
+      const address = this.deriveAddress(network, index);
+      const data = {
+        address,
+        derivationIndex: index,
+        providerRef: this.derivationPath(network, index),
+        status: 'active',
+        lastScannedAt: null,
+      };
+
+      try {
+        if (existing) {
+          return await this.prisma.cryptoDeposit.update({
+            where: { id: existing.id },
+            data,
+          });
+        }
+        return await this.prisma.cryptoDeposit.create({
+          data: { userId, asset, network, ...data },
+        });
+      } catch (error) {
+        // Another request took this index (or created this user's row) first
+        if (
+          (error as { code?: string })?.code !== 'P2002' ||
+          attempt >= ALLOCATION_ATTEMPTS
+        ) {
+          throw error;
+        }
+        if (!existing) {
+          const created = await this.prisma.cryptoDeposit.findUnique({
+            where: { userId_asset_network: { userId, asset, network } },
+          });
+          if (created?.derivationIndex != null) return created;
+        }
+      }
+    }
+  }
+}
+
+function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+function uncompressed(publicKey: Uint8Array): Uint8Array {
+  return secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+}
+
+function p2pkhAddress(publicKey: Uint8Array): string {
+  return base58check.encode(Uint8Array.from([0x00, ...hash160(publicKey)]));
+}
+
+// Last 20 bytes of keccak256 over the uncompressed key, without the 0x04 prefix
+function ethereumStyleAddress(publicKey: Uint8Array): Uint8Array {
+  return keccak_256(uncompressed(publicKey).slice(1)).slice(-20);
+}
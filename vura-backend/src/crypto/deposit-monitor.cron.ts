@@ -2,12 +2,24 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../prisma.service';
 import { CoinGeckoService } from './coingecko.service';
-import { BlockchainMonitorService, VerifiedTransaction } from './blockchain-monitor.service';
-import Decimal from 'decimal.js';
+import { CryptoQuoteService } from './crypto-quote.service';
+import { CryptoDepositsService } from './crypto-deposits.service';
+import {
+  BlockchainMonitorService,
+  MIN_CONFIRMATIONS,
+  VerifiedTransaction,
+} from './blockchain-monitor.service';
+import type { CryptoDeposit, CryptoDepositTransaction } from '@prisma/client';
 
 // Pending deposits older than this are marked failed (no matching on-chain tx found)
 const EXPIRY_MINUTES = 120;
 
+// Deposit addresses scanned per run, least recently scanned first
+const SCAN_BATCH = 50;
+
+// Each scan looks this far behind the previous one, for transactions the explorer indexed late
+const SCAN_OVERLAP_MS = 60 * 60_000;
+
 @Injectable()
 export class DepositMonitorCron {
   private readonly logger = new Logger(DepositMonitorCron.name);
@@ -17,14 +29,17 @@ export class DepositMonitorCron {
     private prisma: PrismaService,
     private coinGecko: CoinGeckoService,
     private blockchain: BlockchainMonitorService,
+    private quotes: CryptoQuoteService,
+    private deposits: CryptoDepositsService,
   ) {}
 
   /**
-   * Runs every 3 minutes. For each pending deposit:
-   *  1. If tx hash exists → verify directly on-chain
-   *  2. If no tx hash → scan business wallet for matching amount
+   * Runs every 3 minutes:
+   *  1. Scan users' deposit addresses → record any new incoming tx
+   *  2. For each pending/confirming deposit with a tx hash → verify on-chain
+   *     against the user's own deposit address
    *  3. If verified → auto-credit NGN to user
-   *  4. If expired (2 hours, no match) → mark as failed
+   *  4. If expired (2 hours, still pending) → mark as failed
    */
   @Cron('*/3 * * * *') // every 3 minutes
   async checkPendingDeposits() {
@@ -32,17 +47,16 @@ export class DepositMonitorCron {
     this.isRunning = true;
 
     try {
+      await this.scanDepositAddresses();
+
       const pending = await this.prisma.cryptoDepositTransaction.findMany({
-        where: { status: 'pending' },
+        where: { status: { in: ['pending', 'confirming'] } },
         include: { deposit: true },
         orderBy: { createdAt: 'asc' },
         take: 20,
       });
 
-      if (pending.length === 0) {
-        this.isRunning = false;
-        return;
-      }
+      if (pending.length === 0) return;
 
       this.logger.log(`Checking ${pending.length} pending deposits...`);
 
@@ -60,22 +74,174 @@ export class DepositMonitorCron {
     }
   }
 
+  /**
+   * Look for incoming transfers to users' derived deposit addresses. The
+   * destination address identifies the user, so a transfer either fills the
+   * user's oldest "I've sent it" submission that had no tx hash, or becomes
+   * a new deposit record of its own.
+   */
+  private async scanDepositAddresses() {
+    const addresses = await this.prisma.cryptoDeposit.findMany({
+      where: { status: 'active', derivationIndex: { not: null } },
+      orderBy: { lastScannedAt: { sort: 'asc', nulls: 'first' } },
+      take: SCAN_BATCH,
+    });
+
+    for (const deposit of addresses) {
+      try {
+        await this.scanAddress(deposit);
+      } catch (err) {
+        this.logger.error(
+          `Error scanning ${deposit.network} address ${deposit.address}: ${(err as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private async scanAddress(deposit: CryptoDeposit) {
+    const scannedAt = new Date();
+    const since =
+      (deposit.lastScannedAt ?? deposit.createdAt).getTime() - SCAN_OVERLAP_MS;
+    const incoming = await this.blockchain.scanAddressForDeposits(
+      deposit.asset,
+      deposit.network,
+      deposit.address,
+      since,
+    );
+
+    const seen = new Set<string>();
+    for (const wtx of incoming) {
+      if (seen.has(wtx.txHash)) continue;
+      seen.add(wtx.txHash);
+
+      const known = await this.prisma.cryptoDepositTransaction.findUnique({
+        where: { providerTxId: wtx.txHash },
+      });
+      if (known) continue;
+
+      await this.recordIncoming(deposit, wtx);
+    }
+
+    await this.prisma.cryptoDeposit.update({
+      where: { id: deposit.id },
+      data: { lastScannedAt: scannedAt },
+    });
+  }
+
+  private async recordIncoming(
+    deposit: CryptoDeposit,
+    wtx: VerifiedTransaction,
+  ) {
+    const landedAt = wtx.blockTimestamp
+      ? new Date(wtx.blockTimestamp)
+      : new Date();
+    const detected = {
+      txHash: wtx.txHash,
+      onChainFrom: wtx.from,
+      onChainAmount: wtx.amount.toString(),
+      firstSeenAt: landedAt.toISOString(),
+      detectedBy: 'address_scan',
+      detectedAt: new Date().toISOString(),
+    };
+
+    const submitted = await this.prisma.cryptoDepositTransaction.findFirst({
+      where: {
+        depositId: deposit.id,
+        status: 'pending',
+        providerTxId: { startsWith: 'manual_' },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (submitted) {
+      const claimed = await this.prisma.cryptoDepositTransaction.updateMany({
+        where: { id: submitted.id, providerTxId: submitted.providerTxId },
+        data: {
+          providerTxId: wtx.txHash,
+          cryptoAmount: wtx.amount.toNumber(),
+          metadata: {
+            ...(submitted.metadata as Record<string, unknown>),
+            ...detected,
+          },
+        },
+      });
+      if (claimed.count === 1) {
+        if (!submitted.quoteId) {
+          await this.attachOpenQuote(submitted.id, deposit, landedAt);
+        }
+        this.logger.log(
+          `Address scan: ${wtx.txHash} (${wtx.amount.toString()} ${deposit.asset}) → deposit ${submitted.id}`,
+        );
+        return;
+      }
+    }
+
+    const { ngnAmount, rate } = await this.coinGecko.calculateNgnAmount(
+      wtx.amount,
+      deposit.asset,
+    );
+
+    try {
+      const created = await this.prisma.cryptoDepositTransaction.create({
+        data: {
+          depositId: deposit.id,
+          userId: deposit.userId,
+          providerTxId: wtx.txHash,
+          asset: deposit.asset,
+          network: deposit.network,
+          cryptoAmount: wtx.amount.toNumber(),
+          cryptoCurrency: deposit.asset,
+          exchangeRate: rate.toNumber(),
+          ngnAmount: ngnAmount.toNumber(),
+          confirmations: wtx.confirmations,
+          minConfirmations: MIN_CONFIRMATIONS[deposit.network] ?? 1,
+          status: 'pending',
+          metadata: detected,
+        },
+      });
+      await this.attachOpenQuote(created.id, deposit, landedAt);
+      this.logger.log(
+        `Address scan: new deposit ${created.id} — ${wtx.amount.toString()} ${deposit.asset} (${wtx.txHash})`,
+      );
+    } catch (e) {
+      // The user submitted the same hash via confirm-sent in the meantime
+      if ((e as { code?: string })?.code !== 'P2002') throw e;
+    }
+  }
+
+  // A deposit found without a bound quote still gets the rate the user was shown
+  private async attachOpenQuote(
+    depositTxId: string,
+    deposit: CryptoDeposit,
+    landedAt: Date,
+  ) {
+    const quoteId = await this.quotes.claimOpenQuote(
+      deposit.userId,
+      deposit.asset,
+      landedAt,
+    );
+    if (quoteId) {
+      await this.prisma.cryptoDepositTransaction.update({
+        where: { id: depositTxId },
+        data: { quoteId },
+      });
+    }
+  }
+
   private async processDeposit(tx: any) {
     const metadata = (tx.metadata || {}) as Record<string, any>;
     const txHash = metadata.txHash as string | null;
     const asset = tx.asset;
     const network = tx.network;
-    const expectedAmount = new Decimal(tx.cryptoAmount.toString());
 
     let verified: VerifiedTransaction | null = null;
 
-    // Strategy 1: Direct tx hash verification
+    // Submissions without a hash wait for the address scan to find their tx
     if (txHash && txHash !== 'null' && !txHash.startsWith('manual_')) {
       verified = await this.blockchain.verifyByTxHash(
         txHash,
         asset,
         network,
-        expectedAmount,
+        tx.deposit.address,
       );
 
       if (verified.found) {
@@ -85,37 +251,6 @@ export class DepositMonitorCron {
       }
     }
 
-    // Strategy 2: Scan wallet for matching deposit
-    if (!verified?.found) {
-      const sinceTimestamp = new Date(tx.createdAt).getTime() - 5 * 60_000;
-      const walletTxs = await this.blockchain.scanWalletForDeposits(
-        asset,
-        network,
-        sinceTimestamp,
-      );
-
-      // Find a tx that matches the expected amount and hasn't been claimed
-      for (const wtx of walletTxs) {
-        if (!this.amountClose(wtx.amount, expectedAmount)) continue;
-
-        // Check this tx hash hasn't been used for another deposit
-        const alreadyClaimed = await this.prisma.cryptoDepositTransaction.findFirst({
-          where: {
-            providerTxId: wtx.txHash,
-            status: { in: ['confirmed', 'confirming'] },
-          },
-        });
-
-        if (alreadyClaimed) continue;
-
-        verified = wtx;
-        this.logger.log(
-          `Wallet scan match: ${wtx.txHash} — ${wtx.amount} ${asset}`,
-        );
-        break;
-      }
-    }
-
     // Result: verified and confirmed → auto-credit
     if (verified?.found && verified.confirmed) {
       await this.creditDeposit(tx, verified);
@@ -133,6 +268,7 @@ export class DepositMonitorCron {
           metadata: {
             ...metadata,
             txHash: verified.txHash,
+            firstSeenAt: metadata.firstSeenAt ?? new Date().toISOString(),
             lastChecked: new Date().toISOString(),
             onChainAmount: verified.amount.toString(),
           },
@@ -144,18 +280,19 @@ export class DepositMonitorCron {
       return;
     }
 
-    // Result: not found — check if expired
-    const ageMinutes =
-      (Date.now() - new Date(tx.createdAt).getTime()) / 60_000;
+    // Result: not found — check if expired. A confirming tx was already seen
+    // on-chain, so a failed lookup is treated as transient.
+    const ageMinutes = (Date.now() - new Date(tx.createdAt).getTime()) / 60_000;
 
-    if (ageMinutes > EXPIRY_MINUTES) {
+    if (tx.status === 'pending' && ageMinutes > EXPIRY_MINUTES) {
       await this.prisma.cryptoDepositTransaction.update({
         where: { id: tx.id },
         data: {
           status: 'failed',
           metadata: {
             ...metadata,
-            failReason: 'No matching transaction found on blockchain within 2 hours',
+            failReason:
+              'No matching transaction found on blockchain within 2 hours',
             expiredAt: new Date().toISOString(),
           },
         },
@@ -170,7 +307,7 @@ export class DepositMonitorCron {
             txId: tx.id,
             asset,
             network,
-            expectedAmount: expectedAmount.toString(),
+            expectedAmount: tx.cryptoAmount.toString(),
           },
         },
       });
@@ -179,116 +316,27 @@ export class DepositMonitorCron {
     }
   }
 
-  /**
-   * Credit the user's NGN balance after on-chain verification.
-   */
-  private async creditDeposit(tx: any, verified: VerifiedTransaction) {
-    const metadata = (tx.metadata || {}) as Record<string, any>;
-
-    // Calculate NGN amount from actual on-chain amount
-    const { ngnAmount, rate } = await this.coinGecko.calculateNgnAmount(
-      verified.amount,
-      verified.asset,
-    );
-
-    await this.prisma.$transaction(async (prisma) => {
-      // Credit NGN balance
-      const balance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId: tx.userId, currency: 'NGN' } },
-      });
-
-      const before = balance
-        ? new Decimal(balance.amount.toString())
-        : new Decimal(0);
-      const after = before.add(ngnAmount);
-
-      await prisma.balance.upsert({
-        where: { userId_currency: { userId: tx.userId, currency: 'NGN' } },
-        create: {
-          userId: tx.userId,
-          currency: 'NGN',
-          amount: ngnAmount.toNumber(),
-          lastUpdatedBy: 'blockchain_monitor',
-        },
-        update: {
-          amount: after.toNumber(),
-          lastUpdatedBy: 'blockchain_monitor',
-        },
-      });
-
-      // Update deposit tx as confirmed
-      await prisma.cryptoDepositTransaction.update({
-        where: { id: tx.id },
-        data: {
-          status: 'confirmed',
-          confirmations: verified.confirmations,
-          exchangeRate: rate.toNumber(),
-          ngnAmount: ngnAmount.toNumber(),
-          creditedAt: new Date(),
-          providerTxId: verified.txHash,
-          metadata: {
-            ...metadata,
-            txHash: verified.txHash,
-            onChainAmount: verified.amount.toString(),
-            onChainFrom: verified.from,
-            verifiedAt: new Date().toISOString(),
-            verifiedBy: 'blockchain_monitor',
-          },
-        },
-      });
-
-      // Create transaction record
-      await prisma.transaction.create({
-        data: {
-          receiverId: tx.userId,
-          amount: ngnAmount.toNumber(),
-          currency: 'NGN',
-          type: 'crypto_deposit',
-          status: 'SUCCESS',
-          idempotencyKey: `crypto_${verified.txHash}`,
-          providerTxId: verified.txHash,
-          beforeBalance: before.toNumber(),
-          afterBalance: after.toNumber(),
-          reference: `CRYPTO-${verified.txHash.substring(0, 12)}`,
-          externalReference: verified.asset,
-          metadata: {
-            cryptoAmount: verified.amount.toString(),
-            cryptoCurrency: verified.asset,
-            network: verified.network,
-            exchangeRate: rate.toString(),
-            confirmations: verified.confirmations,
-            verifiedBy: 'blockchain_monitor',
-          },
-        },
-      });
-
-      // Audit log
-      await prisma.auditLog.create({
-        data: {
-          action: 'CRYPTO_DEPOSIT_AUTO_CREDITED',
-          userId: tx.userId,
-          actorType: 'system',
-          metadata: {
-            txId: tx.id,
-            txHash: verified.txHash,
-            cryptoAmount: verified.amount.toString(),
-            ngnAmount: ngnAmount.toString(),
-            exchangeRate: rate.toString(),
-            confirmations: verified.confirmations,
-          },
-        },
-      });
+  // Price the deposit from when it landed: the block time, or when the
+  // address scan first saw it
+  private async creditDeposit(
+    tx: CryptoDepositTransaction,
+    verified: VerifiedTransaction,
+  ) {
+    const metadata = (tx.metadata || {}) as Record<string, unknown>;
+    const landedAt = verified.blockTimestamp
+      ? new Date(verified.blockTimestamp)
+      : metadata.firstSeenAt
+        ? new Date(metadata.firstSeenAt as string)
+        : new Date();
+
+    await this.deposits.credit(tx, {
+      txHash: verified.txHash,
+      asset: verified.asset,
+      network: verified.network,
+      amount: verified.amount,
+      from: verified.from,
+      confirmations: verified.confirmations,
+      landedAt,
     });
-
-    this.logger.log(
-      `AUTO-CREDITED: ${verified.amount} ${verified.asset} → ₦${ngnAmount.toFixed(2)} for user ${tx.userId}`,
-    );
-  }
-
-  private amountClose(actual: Decimal, expected: Decimal): boolean {
-    if (expected.isZero()) return actual.greaterThan(0);
-    const diff = actual.sub(expected).abs();
-    const tolerance = expected.mul(0.05);
-    return diff.lessThanOrEqualTo(tolerance);
   }
 }
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { CryptoWithdrawal } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import {
+  BlockchainMonitorService,
+  MIN_CONFIRMATIONS,
+} from './blockchain-monitor.service';
+import { CryptoWithdrawalService } from './crypto-withdrawal.service';
+
+// Broadcast withdrawals still not seen on-chain after this are flagged in the logs
+const STALE_BROADCAST_HOURS = 6;
+
+@Injectable()
+export class WithdrawalMonitorCron {
+  private readonly logger = new Logger(WithdrawalMonitorCron.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private blockchain: BlockchainMonitorService,
+    private withdrawals: CryptoWithdrawalService,
+  ) {}
+
+  /**
+   * Every 3 minutes, follow broadcast withdrawals on-chain and settle the
+   * ones that paid the destination in full with enough confirmations.
+   * Dropped transactions are left for an admin to mark failed.
+   */
+  @Cron('*/3 * * * *')
+  async checkBroadcastWithdrawals() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const broadcast = await this.prisma.cryptoWithdrawal.findMany({
+        where: { status: 'broadcast' },
+        orderBy: { broadcastAt: 'asc' },
+        take: 20,
+      });
+
+      for (const withdrawal of broadcast) {
+        try {
+          await this.checkWithdrawal(withdrawal);
+        } catch (err) {
+          this.logger.error(
+            `Error checking withdrawal ${withdrawal.id}: ${(err as Error).message}`,
+          );
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async checkWithdrawal(withdrawal: CryptoWithdrawal) {
+    if (!withdrawal.txHash) return;
+
+    const verified = await this.blockchain.verifyByTxHash(
+      withdrawal.txHash,
+      withdrawal.asset,
+      withdrawal.network,
+      withdrawal.address,
+    );
+
+    if (!verified.found) {
+      const age =
+        Date.now() - (withdrawal.broadcastAt ?? withdrawal.updatedAt).getTime();
+      if (age > STALE_BROADCAST_HOURS * 60 * 60 * 1000) {
+        this.logger.warn(
+          `Withdrawal ${withdrawal.reference}: ${withdrawal.txHash} not found on-chain ${STALE_BROADCAST_HOURS}h after broadcast`,
+        );
+      }
+      return;
+    }
+
+    if (verified.amount.lt(new Decimal(withdrawal.amount.toString()))) {
+      this.logger.warn(
+        `Withdrawal ${withdrawal.reference}: ${withdrawal.txHash} paid ${verified.amount.toString()} ${withdrawal.asset}, expected ${withdrawal.amount.toString()}`,
+      );
+      return;
+    }
+
+    const required = MIN_CONFIRMATIONS[withdrawal.network] ?? 1;
+    if (verified.confirmations >= required) {
+      await this.withdrawals.settleConfirmed(
+        withdrawal,
+        verified.confirmations,
+      );
+      this.logger.log(
+        `Withdrawal ${withdrawal.reference} confirmed (${verified.confirmations} confirmations)`,
+      );
+      return;
+    }
+
+    if (verified.confirmations !== withdrawal.confirmations) {
+      await this.prisma.cryptoWithdrawal.update({
+        where: { id: withdrawal.id },
+        data: { confirmations: verified.confirmations },
+      });
+    }
+  }
+}
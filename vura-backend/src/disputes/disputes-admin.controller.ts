@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { DisputesService } from './disputes.service';
+import type { DisputeResolutionInput } from './disputes.service';
+
+@Controller('admin/disputes')
+@UseGuards(AdminGuard)
+export class DisputesAdminController {
+  constructor(private readonly disputes: DisputesService) {}
+
+  /**
+   * Newest first. Filter by status (awaiting_merchant, under_review,
+   * refunded, rejected).
+   */
+  @RequirePermission('disputes:read')
+  @Get()
+  async list(@Query('status') status?: string) {
+    const disputes = await this.disputes.listForAdmin(status);
+    return {
+      success: true,
+      data: disputes,
+    };
+  }
+
+  @RequirePermission('disputes:read')
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    const dispute = await this.disputes.getForAdmin(id);
+    return {
+      success: true,
+      data: dispute,
+    };
+  }
+
+  /**
+   * Refund the customer or reject the dispute, with a note for the record
+   */
+  @RequirePermission('disputes:manage')
+  @Post(':id/resolve')
+  async resolve(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: DisputeResolutionInput,
+  ) {
+    const dispute = await this.disputes.resolve(admin, id, body);
+    return {
+      success: true,
+      data: dispute,
+    };
+  }
+}
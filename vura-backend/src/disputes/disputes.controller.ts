@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { DisputesService } from './disputes.service';
+import type {
+  DisputeResponseInput,
+  OpenDisputeInput,
+} from './disputes.service';
+
+@Controller('disputes')
+@UseGuards(AuthGuard)
+export class DisputesController {
+  constructor(private readonly disputes: DisputesService) {}
+
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const disputes = await this.disputes.listForUser(req.user.userId);
+    return {
+      success: true,
+      data: disputes,
+    };
+  }
+
+  /**
+   * Dispute a Vura transfer or QR payment you made, with a reason and
+   * optional evidence. The merchant has 72 hours to respond.
+   * POST /disputes
+   */
+  @Post()
+  async open(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: OpenDisputeInput,
+  ) {
+    const dispute = await this.disputes.open(req.user.userId, body);
+    return {
+      success: true,
+      data: dispute,
+    };
+  }
+
+  @Get(':id')
+  async get(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const dispute = await this.disputes.getForUser(req.user.userId, id);
+    return {
+      success: true,
+      data: dispute,
+    };
+  }
+
+  /**
+   * Merchant's answer: { accept: true } refunds the customer, otherwise a
+   * response (and evidence) goes to an admin for a decision
+   * POST /disputes/:id/respond
+   */
+  @Post(':id/respond')
+  async respond(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+    @Body() body: DisputeResponseInput,
+  ) {
+    const dispute = await this.disputes.respond(req.user.userId, id, body);
+    return {
+      success: true,
+      data: dispute,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DisputesService } from './disputes.service';
+import { DisputesController } from './disputes.controller';
+import { DisputesAdminController } from './disputes-admin.controller';
+import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+import { HoldsModule } from '../holds/holds.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+
+@Module({
+  imports: [OutboxModule, HoldsModule, RefundsModule, AdminAuthModule],
+  providers: [DisputesService, PrismaService],
+  controllers: [DisputesController, DisputesAdminController],
+})
+export class DisputesModule {}
@@ -0,0 +1,329 @@
+import { ConflictException } from '@nestjs/common';
+import { Prisma, type Dispute, type Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { DisputesService } from './disputes.service';
+
+const MERCHANT = 'merchant-1';
+const CUSTOMER = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ADMIN: AdminPrincipal = {
+  adminId: 'admin-1',
+  email: 'ops@vura.test',
+  role: 'support',
+};
+
+// The fields a dispute update writes
+interface Written {
+  status?: string;
+  resolvedBy?: string | null;
+  merchantResponse?: string;
+}
+
+/**
+ * The database is a stub whose `$transaction` runs the callback against
+ * itself. Refunds go through the real RefundsService so a customer win is
+ * checked all the way to the ledger transfer; the ledger and holds are mocks.
+ */
+describe('DisputesService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    transaction: {
+      findFirst: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+      create: jest.Mock;
+    };
+    dispute: {
+      create: jest.Mock;
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    refund: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock };
+  let holds: { holdForDispute: jest.Mock; releaseDisputeHold: jest.Mock };
+  let disputes: DisputesService;
+
+  const payment = (overrides: Partial<Transaction> = {}): Transaction => ({
+    id: 'tx-1',
+    senderId: CUSTOMER,
+    receiverId: MERCHANT,
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    type: 'send',
+    status: 'SUCCESS',
+    idempotencyKey: 'TRF-1',
+    providerTxId: null,
+    beforeBalance: null,
+    afterBalance: null,
+    heldUntil: null,
+    isFlagged: false,
+    flagReason: null,
+    reference: 'TRF-1',
+    refundedAmount: new Decimal(0),
+    externalReference: null,
+    metadata: {},
+    createdAt: new Date(),
+    ...overrides,
+  });
+  const dispute = (overrides: Partial<Dispute> = {}): Dispute => ({
+    id: 'dispute-1',
+    transactionId: 'tx-1',
+    customerId: CUSTOMER,
+    merchantId: MERCHANT,
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    reason: 'not_received',
+    description: 'Order never arrived',
+    evidence: [],
+    merchantResponse: null,
+    merchantEvidence: [],
+    respondBy: new Date(Date.now() + DAY_MS),
+    respondedAt: null,
+    status: 'awaiting_merchant',
+    holdAmount: new Decimal(5000),
+    holdReleasedAt: null,
+    resolvedBy: null,
+    resolutionNote: null,
+    resolvedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+  // Includes the relations so it also serves the re-read for the response
+  const withParties = (overrides: Partial<Dispute> = {}) => ({
+    ...dispute(overrides),
+    transaction: payment(),
+    customer: { vuraTag: 'ada' },
+    merchant: { vuraTag: 'studio' },
+    refund: null,
+  });
+  const refundWrite = () =>
+    (prisma.refund.create.mock.lastCall as [{ data: object }])[0].data;
+  const disputeUpdate = () =>
+    (prisma.dispute.updateMany.mock.lastCall as [{ data: Written }])[0].data;
+  const open = (input = {}) =>
+    disputes.open(CUSTOMER, {
+      reference: 'TRF-1',
+      reason: 'not_received',
+      description: 'Order never arrived',
+      ...input,
+    });
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      transaction: {
+        findFirst: jest.fn().mockResolvedValue(payment()),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(payment()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockResolvedValue({ id: 'tx-refund' }),
+      },
+      dispute: {
+        create: jest.fn(({ data }: { data: Partial<Dispute> }) =>
+          Promise.resolve(dispute(data)),
+        ),
+        findFirst: jest.fn().mockResolvedValue(withParties()),
+        findUnique: jest.fn().mockResolvedValue(withParties()),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(withParties()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      refund: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'refund-1', ...data }),
+        ),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      transfer: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(MERCHANT)]: {
+            before: new Decimal(9000),
+            after: new Decimal(4000),
+          },
+        },
+      }),
+    };
+    holds = { holdForDispute: jest.fn(), releaseDisputeHold: jest.fn() };
+    const outbox = { record: jest.fn() } as unknown as OutboxService;
+    disputes = new DisputesService(
+      prisma as unknown as PrismaService,
+      outbox,
+      holds as unknown as HoldsService,
+      new RefundsService(
+        prisma as unknown as PrismaService,
+        ledger as unknown as LedgerService,
+        outbox,
+      ),
+    );
+  });
+
+  describe('open', () => {
+    it('holds the unrefunded amount on the merchant until it is decided', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ refundedAmount: new Decimal(1000) }),
+      );
+
+      const res = await open();
+
+      expect(holds.holdForDispute).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ merchantId: MERCHANT, amount: 4000 }),
+      );
+      expect(res).toMatchObject({ role: 'customer', merchant: 'studio' });
+    });
+
+    it('refuses a payment the customer did not make', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ senderId: 'someone-else' }),
+      );
+
+      await expect(open()).rejects.toThrow('Payment not found');
+    });
+
+    it('refuses payments older than the dispute window', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ createdAt: new Date(Date.now() - 61 * DAY_MS) }),
+      );
+
+      await expect(open()).rejects.toThrow('within 60 days');
+    });
+
+    it('refuses an unknown reason', async () => {
+      await expect(open({ reason: 'changed_mind' })).rejects.toThrow(
+        'reason must be one of',
+      );
+    });
+
+    it('reports a second dispute on the same payment as a conflict', async () => {
+      prisma.dispute.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(open()).rejects.toBeInstanceOf(ConflictException);
+      expect(holds.holdForDispute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respond', () => {
+    it('refunds the customer and lifts the hold when the merchant accepts', async () => {
+      await disputes.respond(MERCHANT, 'dispute-1', { accept: true });
+
+      expect(disputeUpdate()).toMatchObject({
+        status: 'refunded',
+        resolvedBy: null,
+      });
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          type: 'refund',
+          from: LedgerService.user(MERCHANT),
+          to: LedgerService.user(CUSTOMER),
+          amount: new Decimal(5000),
+        }),
+      );
+      expect(refundWrite()).toMatchObject({
+        disputeId: 'dispute-1',
+        initiatedBy: 'merchant',
+        reason: 'Dispute: not received',
+      });
+      expect(holds.releaseDisputeHold).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ id: 'dispute-1' }),
+        'merchant',
+        undefined,
+      );
+    });
+
+    it('sends a contested dispute to review without moving money', async () => {
+      await disputes.respond(MERCHANT, 'dispute-1', {
+        response: 'Delivered on 2 March, signed for',
+      });
+
+      expect(disputeUpdate()).toMatchObject({
+        status: 'under_review',
+        merchantResponse: 'Delivered on 2 March, signed for',
+      });
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(holds.releaseDisputeHold).not.toHaveBeenCalled();
+    });
+
+    it('refuses a response after the window closes', async () => {
+      prisma.dispute.findFirst.mockResolvedValue(
+        withParties({ respondBy: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        disputes.respond(MERCHANT, 'dispute-1', { accept: true }),
+      ).rejects.toThrow('no longer waiting for your response');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('lifts the hold without a refund when the dispute is rejected', async () => {
+      await disputes.resolve(ADMIN, 'dispute-1', {
+        outcome: 'rejected',
+        note: 'Proof of delivery checks out',
+      });
+
+      expect(disputeUpdate()).toMatchObject({
+        status: 'rejected',
+        resolvedBy: 'admin-1',
+      });
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(holds.releaseDisputeHold).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ id: 'dispute-1' }),
+        'admin',
+        'admin-1',
+      );
+    });
+
+    it('refunds from the merchant when the customer wins', async () => {
+      await disputes.resolve(ADMIN, 'dispute-1', {
+        outcome: 'refunded',
+        note: 'No proof of delivery',
+      });
+
+      expect(ledger.transfer).toHaveBeenCalledTimes(1);
+      expect(refundWrite()).toMatchObject({
+        initiatedBy: 'admin',
+        adminId: 'admin-1',
+      });
+      // The hold is lifted before the refund draws on the merchant's wallet
+      expect(holds.releaseDisputeHold.mock.invocationCallOrder[0]).toBeLessThan(
+        ledger.transfer.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('settles a dispute only once', async () => {
+      prisma.dispute.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        disputes.resolve(ADMIN, 'dispute-1', {
+          outcome: 'refunded',
+          note: 'No proof of delivery',
+        }),
+      ).rejects.toThrow('already been resolved');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(holds.releaseDisputeHold).not.toHaveBeenCalled();
+    });
+  });
+});
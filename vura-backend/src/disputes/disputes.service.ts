@@ -0,0 +1,498 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Dispute, Prisma, Refund, Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { HoldsService } from '../holds/holds.service';
+import { RefundsService } from '../refunds/refunds.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+
+export const DISPUTE_REASONS = [
+  'not_received',
+  'not_as_described',
+  'unauthorized',
+  'duplicate',
+  'other',
+] as const;
+export type DisputeReason = (typeof DISPUTE_REASONS)[number];
+
+const OPEN_STATUSES = ['awaiting_merchant', 'under_review'];
+const RESPONSE_WINDOW_HOURS = 72;
+const DISPUTE_WINDOW_DAYS = 60;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_EVIDENCE_ITEMS = 5;
+const MAX_EVIDENCE_LENGTH = 500;
+
+export interface OpenDisputeInput {
+  transactionId?: string;
+  reference?: string;
+  /** Defaults to whatever has not been refunded yet */
+  amount?: number;
+  reason?: string;
+  description?: string;
+  /** Short notes or links to receipts, screenshots and chats */
+  evidence?: string[];
+}
+
+export interface DisputeResponseInput {
+  /** Refund the customer now instead of contesting */
+  accept?: boolean;
+  response?: string;
+  evidence?: string[];
+}
+
+export interface DisputeResolutionInput {
+  outcome?: 'refunded' | 'rejected';
+  note?: string;
+}
+
+type DisputeWithParties = Dispute & {
+  transaction: Transaction;
+  customer: { vuraTag: string };
+  merchant: { vuraTag: string };
+  refund: Refund | null;
+};
+
+const WITH_PARTIES = {
+  transaction: true,
+  customer: { select: { vuraTag: true } },
+  merchant: { select: { vuraTag: true } },
+  refund: true,
+} satisfies Prisma.DisputeInclude;
+
+@Injectable()
+export class DisputesService {
+  private readonly logger = new Logger(DisputesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private outbox: OutboxService,
+    private holds: HoldsService,
+    private refunds: RefundsService,
+  ) {}
+
+  // ============================================
+  // CUSTOMER
+  // ============================================
+
+  /**
+   * Dispute a payment the customer made. The disputed amount is held on the
+   * merchant's balance until the dispute is decided.
+   */
+  async open(customerId: string, input: OpenDisputeInput) {
+    const payment = await this.refunds.findPayment(input);
+    if (payment.senderId !== customerId) {
+      throw new NotFoundException('Payment not found');
+    }
+    const windowStart = new Date(
+      Date.now() - DISPUTE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    if (payment.createdAt < windowStart) {
+      throw new BadRequestException(
+        `Payments can only be disputed within ${DISPUTE_WINDOW_DAYS} days`,
+      );
+    }
+
+    const amount = this.refunds.resolveAmount(payment, input.amount);
+    const reason = this.validateReason(input.reason);
+    const description = this.validateText(
+      input.description,
+      'description',
+      MAX_DESCRIPTION_LENGTH,
+    );
+    const evidence = this.validateEvidence(input.evidence);
+    const respondBy = new Date(
+      Date.now() + RESPONSE_WINDOW_HOURS * 60 * 60 * 1000,
+    );
+
+    try {
+      const dispute = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.dispute.create({
+          data: {
+            transactionId: payment.id,
+            customerId,
+            merchantId: payment.receiverId!,
+            amount: amount.toNumber(),
+            currency: payment.currency,
+            reason,
+            description,
+            evidence,
+            respondBy,
+          },
+        });
+        await this.holds.holdForDispute(tx, created);
+
+        await tx.auditLog.create({
+          data: {
+            action: 'DISPUTE_OPENED',
+            userId: customerId,
+            actorType: 'user',
+            metadata: {
+              disputeId: created.id,
+              transactionId: payment.id,
+              merchantId: created.merchantId,
+              amount: amount.toString(),
+              reason,
+            },
+          },
+        });
+
+        await this.outbox.record(
+          tx,
+          'DisputeOpened',
+          {
+            disputeId: created.id,
+            transactionId: payment.id,
+            reference: payment.reference!,
+            merchantId: created.merchantId,
+            customerId,
+            amount: amount.toString(),
+            currency: payment.currency,
+            reason,
+            respondBy: respondBy.toISOString(),
+          },
+          payment.id,
+        );
+
+        return tx.dispute.findUniqueOrThrow({
+          where: { id: created.id },
+          include: WITH_PARTIES,
+        });
+      });
+      return this.toResponse(dispute, customerId);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('This payment has already been disputed');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Disputes the user opened and disputes against payments they received
+   */
+  async listForUser(userId: string) {
+    const disputes = await this.prisma.dispute.findMany({
+      where: { OR: [{ customerId: userId }, { merchantId: userId }] },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: WITH_PARTIES,
+    });
+    return disputes.map((dispute) => this.toResponse(dispute, userId));
+  }
+
+  async getForUser(userId: string, id: string) {
+    const dispute = await this.prisma.dispute.findFirst({
+      where: { id, OR: [{ customerId: userId }, { merchantId: userId }] },
+      include: WITH_PARTIES,
+    });
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+    return this.toResponse(dispute, userId);
+  }
+
+  // ============================================
+  // MERCHANT
+  // ============================================
+
+  /**
+   * Answer a dispute within the response window: accept it to refund the
+   * customer straight away, or contest it with a response for an admin to
+   * review.
+   */
+  async respond(merchantId: string, id: string, input: DisputeResponseInput) {
+    const dispute = await this.prisma.dispute.findFirst({
+      where: { id, merchantId },
+    });
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+    if (
+      dispute.status !== 'awaiting_merchant' ||
+      dispute.respondBy <= new Date()
+    ) {
+      throw new BadRequestException(
+        'This dispute is no longer waiting for your response',
+      );
+    }
+
+    if (input.accept) {
+      await this.prisma.$transaction((tx) =>
+        this.settle(tx, dispute, 'refunded', {
+          actor: 'merchant',
+          note: 'Accepted by merchant',
+        }),
+      );
+      return this.getForUser(merchantId, id);
+    }
+
+    const response = this.validateText(
+      input.response,
+      'response',
+      MAX_DESCRIPTION_LENGTH,
+    );
+    const evidence = this.validateEvidence(input.evidence);
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.dispute.updateMany({
+        where: { id, status: 'awaiting_merchant' },
+        data: {
+          merchantResponse: response,
+          merchantEvidence: evidence,
+          respondedAt: new Date(),
+          status: 'under_review',
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'This dispute is no longer waiting for your response',
+        );
+      }
+      await tx.auditLog.create({
+        data: {
+          action: 'DISPUTE_RESPONDED',
+          userId: merchantId,
+          actorType: 'user',
+          metadata: { disputeId: id, transactionId: dispute.transactionId },
+        },
+      });
+    });
+    return this.getForUser(merchantId, id);
+  }
+
+  /**
+   * Merchants who let the window pass without answering leave the decision
+   * to an admin on the customer's evidence alone
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async closeResponseWindows() {
+    const { count } = await this.prisma.dispute.updateMany({
+      where: { status: 'awaiting_merchant', respondBy: { lte: new Date() } },
+      data: { status: 'under_review' },
+    });
+    if (count > 0) {
+      this.logger.log(`${count} disputes passed their response window`);
+    }
+    return count;
+  }
+
+  // ============================================
+  // ADMIN
+  // ============================================
+
+  async listForAdmin(status?: string) {
+    const disputes = await this.prisma.dispute.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: WITH_PARTIES,
+    });
+    return disputes.map((dispute) => this.toResponse(dispute));
+  }
+
+  async getForAdmin(id: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id },
+      include: WITH_PARTIES,
+    });
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+    return this.toResponse(dispute);
+  }
+
+  /**
+   * Decide a dispute: refund the customer from the merchant's wallet, or
+   * reject it. Either way the hold on the merchant's balance is lifted.
+   */
+  async resolve(
+    admin: AdminPrincipal,
+    id: string,
+    input: DisputeResolutionInput,
+  ) {
+    if (input.outcome !== 'refunded' && input.outcome !== 'rejected') {
+      throw new BadRequestException("outcome must be 'refunded' or 'rejected'");
+    }
+    const note = this.validateText(input.note, 'note', MAX_DESCRIPTION_LENGTH);
+
+    const dispute = await this.prisma.dispute.findUnique({ where: { id } });
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    await this.prisma.$transaction((tx) =>
+      this.settle(tx, dispute, input.outcome!, {
+        actor: 'admin',
+        adminId: admin.adminId,
+        note,
+      }),
+    );
+    return this.getForAdmin(id);
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * Close the dispute, refund if the customer won and lift the hold. The
+   * status change is a conditional update, so a dispute is only settled once.
+   */
+  private async settle(
+    tx: Prisma.TransactionClient,
+    dispute: Dispute,
+    outcome: 'refunded' | 'rejected',
+    decision: { actor: 'admin' | 'merchant'; adminId?: string; note: string },
+  ) {
+    const { count } = await tx.dispute.updateMany({
+      where: { id: dispute.id, status: { in: OPEN_STATUSES } },
+      data: {
+        status: outcome,
+        resolvedBy: decision.adminId ?? null,
+        resolutionNote: decision.note,
+        resolvedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('This dispute has already been resolved');
+    }
+
+    // Lift the hold first so a refund can draw on the held amount
+    await this.holds.releaseDisputeHold(
+      tx,
+      dispute,
+      decision.actor,
+      decision.adminId,
+    );
+
+    const payment = await tx.transaction.findUniqueOrThrow({
+      where: { id: dispute.transactionId },
+    });
+    if (outcome === 'refunded') {
+      await this.refunds.issue(tx, {
+        payment,
+        amount: new Decimal(dispute.amount.toString()),
+        reason: `Dispute: ${dispute.reason.replace(/_/g, ' ')}`,
+        initiatedBy: decision.actor,
+        adminId: decision.adminId,
+        disputeId: dispute.id,
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'DISPUTE_RESOLVED',
+        userId: dispute.customerId,
+        actorType: decision.actor === 'admin' ? 'admin' : 'user',
+        actorId: decision.adminId ?? dispute.merchantId,
+        metadata: {
+          disputeId: dispute.id,
+          transactionId: dispute.transactionId,
+          outcome,
+          amount: dispute.amount.toString(),
+        },
+      },
+    });
+
+    await this.outbox.record(
+      tx,
+      'DisputeResolved',
+      {
+        disputeId: dispute.id,
+        transactionId: dispute.transactionId,
+        reference: payment.reference!,
+        merchantId: dispute.merchantId,
+        customerId: dispute.customerId,
+        amount: dispute.amount.toString(),
+        currency: dispute.currency,
+        outcome,
+      },
+      dispute.transactionId,
+    );
+  }
+
+  private validateReason(reason?: string): DisputeReason {
+    if (!DISPUTE_REASONS.includes(reason as DisputeReason)) {
+      throw new BadRequestException(
+        `reason must be one of: ${DISPUTE_REASONS.join(', ')}`,
+      );
+    }
+    return reason as DisputeReason;
+  }
+
+  private validateText(value: unknown, field: string, maxLength: number) {
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text) {
+      throw new BadRequestException(`${field} is required`);
+    }
+    if (text.length > maxLength) {
+      throw new BadRequestException(
+        `${field} must be at most ${maxLength} characters`,
+      );
+    }
+    return text;
+  }
+
+  private validateEvidence(evidence?: unknown): string[] {
+    if (evidence === undefined || evidence === null) return [];
+    if (
+      !Array.isArray(evidence) ||
+      evidence.length > MAX_EVIDENCE_ITEMS ||
+      evidence.some(
+        (item) =>
+          typeof item !== 'string' ||
+          !item.trim() ||
+          item.length > MAX_EVIDENCE_LENGTH,
+      )
+    ) {
+      throw new BadRequestException(
+        `evidence must be a list of up to ${MAX_EVIDENCE_ITEMS} notes or links, each at most ${MAX_EVIDENCE_LENGTH} characters`,
+      );
+    }
+    return (evidence as string[]).map((item) => item.trim());
+  }
+
+  /**
+   * Pass the viewing user to include which side of the dispute they are on
+   */
+  private toResponse(dispute: DisputeWithParties, viewerId?: string) {
+    return {
+      id: dispute.id,
+      transactionId: dispute.transactionId,
+      paymentReference: dispute.transaction.reference,
+      paymentType: dispute.transaction.type,
+      paymentAmount: Number(dispute.transaction.amount),
+      amount: Number(dispute.amount),
+      currency: dispute.currency,
+      reason: dispute.reason,
+      description: dispute.description,
+      evidence: dispute.evidence,
+      merchantResponse: dispute.merchantResponse,
+      merchantEvidence: dispute.merchantEvidence,
+      status: dispute.status,
+      respondBy: dispute.respondBy,
+      respondedAt: dispute.respondedAt,
+      onHold: dispute.holdAmount !== null && dispute.holdReleasedAt === null,
+      resolutionNote: dispute.resolutionNote,
+      resolvedAt: dispute.resolvedAt,
+      refundReference: dispute.refund?.reference ?? null,
+      customer: dispute.customer.vuraTag,
+      merchant: dispute.merchant.vuraTag,
+      ...(viewerId && {
+        role: dispute.customerId === viewerId ? 'customer' : 'merchant',
+      }),
+      createdAt: dispute.createdAt,
+    };
+  }
+}
@@ -0,0 +1,594 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EWSRule, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import {
+  EWSRuleConditions,
+  FraudDetectionService,
+  FraudScore,
+  OUTFLOW_STATUSES,
+  OUTFLOW_TYPES,
+  RiskAction,
+  RiskFacts,
+  SETTLED_STATUSES,
+} from '../services/fraud-detection.service';
+
+export interface EWSRuleInput {
+  name?: string;
+  description?: string;
+  ruleType?: string;
+  threshold?: number;
+  conditions?: Record<string, unknown>;
+  score?: number;
+  action?: string;
+  holdHours?: number | null;
+  isActive?: boolean;
+}
+
+export interface EWSRuleDryRunInput extends EWSRuleInput {
+  // Preview a change to this rule; omit to preview adding a new one
+  ruleId?: string;
+  days?: number;
+}
+
+const RULE_TYPES = [
+  'amount',
+  'velocity',
+  'tier',
+  'device',
+  'first_time',
+  'time',
+  'composite',
+  'score',
+];
+const RULE_ACTIONS = ['score', 'flag', 'delay', 'block'];
+const NUMERIC_CONDITIONS = [
+  'minAmount',
+  'maxAmount',
+  'maxKycTier',
+  'minUserFraudScore',
+  'maxAccountAgeDays',
+  'maxPriorTransfers',
+  'minAmountMultiplier',
+  'beneficiaryAddedWithinHours',
+];
+const BOOLEAN_CONDITIONS = [
+  'ninVerified',
+  'newBeneficiary',
+  'newDevice',
+  'ipChanged',
+];
+// Channels the risk engine screens
+const SCREENED_TYPES = ['send', 'external_transfer'];
+const DRY_RUN_LIMIT = 5000;
+const DRY_RUN_SAMPLES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HistoryRow = {
+  senderId: string | null;
+  receiverId: string | null;
+  amount: Prisma.Decimal;
+  status: string;
+  type: string;
+  createdAt: Date;
+  metadata: Prisma.JsonValue;
+};
+
+/**
+ * Admin management of the EWSRule table, plus dry-runs that replay recent
+ * transfers through the current and proposed rule sets.
+ */
+@Injectable()
+export class EWSRulesService {
+  private readonly logger = new Logger(EWSRulesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private fraudDetection: FraudDetectionService,
+  ) {}
+
+  async list() {
+    return this.prisma.eWSRule.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async create(input: EWSRuleInput, adminId: string) {
+    const data = this.normalize(input);
+    const existing = await this.prisma.eWSRule.findUnique({
+      where: { name: data.name },
+    });
+    if (existing) {
+      throw new BadRequestException(`Rule "${data.name}" already exists`);
+    }
+
+    const rule = await this.prisma.eWSRule.create({ data });
+    await this.audit('EWS_RULE_CREATED', adminId, { rule });
+    this.fraudDetection.invalidateRules();
+    return rule;
+  }
+
+  async update(id: string, input: EWSRuleInput, adminId: string) {
+    const existing = await this.findOrThrow(id);
+    const data = this.normalize(input, existing);
+
+    const rule = await this.prisma.eWSRule.update({ where: { id }, data });
+    await this.audit('EWS_RULE_UPDATED', adminId, {
+      before: existing,
+      after: rule,
+    });
+    this.fraudDetection.invalidateRules();
+    return rule;
+  }
+
+  async remove(id: string, adminId: string) {
+    const existing = await this.findOrThrow(id);
+    await this.prisma.eWSRule.delete({ where: { id } });
+    await this.audit('EWS_RULE_DELETED', adminId, { rule: existing });
+    this.fraudDetection.invalidateRules();
+    return { deleted: true };
+  }
+
+  /**
+   * Replay the last `days` of screened transfers through the active rules and
+   * through the rules as they would be after this change, and report how many
+   * would be flagged, held or blocked. Facts recorded at scoring time are used
+   * where a transfer has a RiskAssessment; older transfers are reconstructed
+   * from transaction history and current user data, so device and IP
+   * conditions cannot match them.
+   */
+  async dryRun(input: EWSRuleDryRunInput) {
+    const days = Math.min(Math.max(Math.floor(input.days ?? 30), 1), 90);
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const current = await this.prisma.eWSRule.findMany({
+      where: { isActive: true },
+    });
+    const existing = input.ruleId
+      ? await this.findOrThrow(input.ruleId)
+      : undefined;
+    const data = this.normalize(input, existing);
+    const candidate: EWSRule = {
+      id: existing?.id ?? 'dry-run',
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+      name: data.name,
+      description: data.description,
+      ruleType: data.ruleType,
+      threshold: new Prisma.Decimal(data.threshold as Prisma.Decimal.Value),
+      conditions: data.conditions as Prisma.JsonValue,
+      score: data.score ?? 0,
+      action: data.action,
+      holdHours: data.holdHours ?? null,
+      isActive: data.isActive ?? true,
+    };
+    const proposed = [
+      ...current.filter((r) => r.id !== candidate.id),
+      ...(candidate.isActive ? [candidate] : []),
+    ];
+
+    const windows = [
+      ...new Set([
+        ...this.fraudDetection.velocityWindows(current),
+        ...this.fraudDetection.velocityWindows(proposed),
+      ]),
+    ];
+    const lookbackMs = Math.max(30 * DAY_MS, ...windows.map((w) => w * 60000));
+    const historyStart = new Date(since.getTime() - lookbackMs);
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        type: { in: SCREENED_TYPES },
+        senderId: { not: null },
+        createdAt: { gte: since },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: DRY_RUN_LIMIT,
+      select: {
+        id: true,
+        reference: true,
+        senderId: true,
+        receiverId: true,
+        amount: true,
+        type: true,
+        status: true,
+        createdAt: true,
+        metadata: true,
+        riskAssessment: { select: { context: true } },
+      },
+    });
+    const senderIds = [...new Set(transactions.map((t) => t.senderId!))];
+
+    const [users, history, priorCounts, priorPairs] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: senderIds } },
+        select: {
+          id: true,
+          kycTier: true,
+          ninVerified: true,
+          fraudScore: true,
+          createdAt: true,
+        },
+      }),
+      this.prisma.transaction.findMany({
+        where: {
+          senderId: { in: senderIds },
+          type: { in: OUTFLOW_TYPES },
+          createdAt: { gte: historyStart },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          senderId: true,
+          receiverId: true,
+          amount: true,
+          status: true,
+          type: true,
+          createdAt: true,
+          metadata: true,
+        },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['senderId'],
+        where: {
+          senderId: { in: senderIds },
+          type: { in: OUTFLOW_TYPES },
+          status: { in: SETTLED_STATUSES },
+          createdAt: { lt: historyStart },
+        },
+        _count: true,
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['senderId', 'receiverId'],
+        where: {
+          senderId: { in: senderIds },
+          receiverId: { not: null },
+          status: { in: SETTLED_STATUSES },
+          createdAt: { lt: historyStart },
+        },
+      }),
+    ]);
+
+    const usersById = new Map(users.map((u) => [u.id, u]));
+    const historyBySender = new Map<string, HistoryRow[]>();
+    for (const row of history) {
+      const rows = historyBySender.get(row.senderId!) ?? [];
+      rows.push(row);
+      historyBySender.set(row.senderId!, rows);
+    }
+    const priorCountBySender = new Map(
+      priorCounts.map((row) => [row.senderId!, row._count]),
+    );
+    const knownPairs = new Set(
+      priorPairs.map((row) => `${row.senderId}:${row.receiverId}`),
+    );
+
+    const emptyTally = (): Record<RiskAction, number> => ({
+      allow: 0,
+      review: 0,
+      hold: 0,
+      block: 0,
+    });
+    const tallies = { current: emptyTally(), proposed: emptyTally() };
+    let candidateMatches = 0;
+    let newlyFlagged = 0;
+    let changed = 0;
+    let withStoredFacts = 0;
+    const samples: Array<{
+      transactionId: string;
+      reference: string | null;
+      amount: number;
+      createdAt: Date;
+      current: Pick<FraudScore, 'score' | 'action'>;
+      proposed: Pick<FraudScore, 'score' | 'action'>;
+    }> = [];
+
+    for (const tx of transactions) {
+      const stored = (
+        tx.riskAssessment?.context as { facts?: RiskFacts } | undefined
+      )?.facts;
+      if (stored) withStoredFacts++;
+
+      const facts = this.reconstructFacts(
+        tx,
+        historyBySender.get(tx.senderId!) ?? [],
+        usersById.get(tx.senderId!),
+        priorCountBySender.get(tx.senderId!) ?? 0,
+        knownPairs,
+        windows,
+        stored,
+      );
+
+      const before = this.fraudDetection.evaluateRules(current, facts);
+      const after = this.fraudDetection.evaluateRules(proposed, facts);
+      tallies.current[before.action]++;
+      tallies.proposed[after.action]++;
+
+      const matched =
+        candidate.ruleType === 'score'
+          ? after.score >= Number(candidate.threshold)
+          : after.contributions.some((c) => c.rule === candidate.name);
+      if (candidate.isActive && matched) candidateMatches++;
+
+      if (before.action !== after.action) {
+        changed++;
+        if (before.action === 'allow') newlyFlagged++;
+        if (samples.length < DRY_RUN_SAMPLES) {
+          samples.push({
+            transactionId: tx.id,
+            reference: tx.reference,
+            amount: Number(tx.amount),
+            createdAt: tx.createdAt,
+            current: { score: before.score, action: before.action },
+            proposed: { score: after.score, action: after.action },
+          });
+        }
+      }
+    }
+
+    this.logger.log(
+      `EWS dry-run for "${candidate.name}": ${candidateMatches}/${transactions.length} matched over ${days}d`,
+    );
+
+    return {
+      rule: candidate.name,
+      days,
+      evaluated: transactions.length,
+      truncated: transactions.length === DRY_RUN_LIMIT,
+      withStoredFacts,
+      candidateMatches,
+      current: tallies.current,
+      proposed: tallies.proposed,
+      newlyFlagged,
+      changed,
+      samples,
+    };
+  }
+
+  /**
+   * Rebuild the facts a past transfer would have been scored on. Stored facts
+   * win for what history cannot tell us (device, IP, user state at the time).
+   */
+  private reconstructFacts(
+    tx: {
+      senderId: string | null;
+      receiverId: string | null;
+      amount: Prisma.Decimal;
+      type: string;
+      createdAt: Date;
+      metadata: Prisma.JsonValue;
+    },
+    rows: HistoryRow[],
+    user:
+      | {
+          kycTier: number;
+          ninVerified: boolean;
+          fraudScore: number;
+          createdAt: Date;
+        }
+      | undefined,
+    priorCount: number,
+    knownPairs: Set<string>,
+    windows: number[],
+    stored: RiskFacts | undefined,
+  ): RiskFacts {
+    const at = tx.createdAt.getTime();
+    const amount = Number(tx.amount);
+    const earlier = rows.filter((r) => r.createdAt.getTime() < at);
+    const settled = earlier.filter((r) => SETTLED_STATUSES.includes(r.status));
+    const lastTen = settled.slice(-10);
+    const meta = (tx.metadata ?? {}) as Record<string, unknown>;
+    const channel = tx.type === 'external_transfer' ? 'bank' : 'internal';
+
+    const velocity: RiskFacts['velocity'] = {};
+    for (const windowMinutes of windows) {
+      const from = at - windowMinutes * 60000;
+      const inWindow = earlier.filter(
+        (r) =>
+          r.createdAt.getTime() >= from && OUTFLOW_STATUSES.includes(r.status),
+      );
+      velocity[String(windowMinutes)] = {
+        count: inWindow.length + 1,
+        amount: inWindow.reduce((sum, r) => sum + Number(r.amount), amount),
+      };
+    }
+
+    let newBeneficiary: boolean | null;
+    if (channel === 'internal') {
+      newBeneficiary = tx.receiverId
+        ? !knownPairs.has(`${tx.senderId}:${tx.receiverId}`) &&
+          !settled.some((r) => r.receiverId === tx.receiverId)
+        : null;
+    } else {
+      newBeneficiary = !settled.some((r) => {
+        const m = (r.metadata ?? {}) as Record<string, unknown>;
+        return (
+          r.type === 'external_transfer' &&
+          m.accountNumber === meta.accountNumber &&
+          m.bankCode === meta.bankCode
+        );
+      });
+    }
+
+    const reconstructed: RiskFacts = {
+      amount,
+      channel,
+      hour: tx.createdAt.getHours(),
+      kycTier: user?.kycTier ?? null,
+      ninVerified: user?.ninVerified ?? null,
+      userFraudScore: user?.fraudScore ?? null,
+      accountAgeDays: user ? (at - user.createdAt.getTime()) / DAY_MS : null,
+      priorTransfers: priorCount + settled.length,
+      averageAmount:
+        lastTen.length >= 3
+          ? lastTen.reduce((sum, r) => sum + Number(r.amount), 0) /
+            lastTen.length
+          : null,
+      newBeneficiary,
+      beneficiaryAddedHoursAgo: null,
+      newDevice: null,
+      ipChanged: null,
+      velocity,
+    };
+
+    if (!stored) return reconstructed;
+    return {
+      ...reconstructed,
+      kycTier: stored.kycTier,
+      ninVerified: stored.ninVerified,
+      userFraudScore: stored.userFraudScore,
+      newBeneficiary: stored.newBeneficiary,
+      beneficiaryAddedHoursAgo: stored.beneficiaryAddedHoursAgo,
+      newDevice: stored.newDevice,
+      ipChanged: stored.ipChanged,
+    };
+  }
+
+  private async findOrThrow(id: string) {
+    const rule = await this.prisma.eWSRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException('Rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Validate an admin-supplied rule, merged over the existing one for updates
+   */
+  private normalize(
+    input: EWSRuleInput,
+    existing?: EWSRule,
+  ): Prisma.EWSRuleCreateInput {
+    const name = input.name ?? existing?.name;
+    const description = input.description ?? existing?.description;
+    const ruleType = input.ruleType ?? existing?.ruleType;
+    const action = input.action ?? existing?.action;
+    const threshold = input.threshold ?? Number(existing?.threshold ?? 0);
+    const score = input.score ?? existing?.score ?? 0;
+    const holdHours =
+      input.holdHours !== undefined ? input.holdHours : existing?.holdHours;
+    const conditions = (input.conditions ??
+      existing?.conditions ??
+      {}) as Record<string, unknown>;
+
+    if (!name?.trim() || !description?.trim()) {
+      throw new BadRequestException('name and description are required');
+    }
+    if (!ruleType || !RULE_TYPES.includes(ruleType)) {
+      throw new BadRequestException(
+        `ruleType must be one of: ${RULE_TYPES.join(', ')}`,
+      );
+    }
+    if (!action || !RULE_ACTIONS.includes(action)) {
+      throw new BadRequestException(
+        `action must be one of: ${RULE_ACTIONS.join(', ')}`,
+      );
+    }
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw new BadRequestException('threshold must be a non-negative number');
+    }
+    if (!Number.isInteger(score) || score < 0 || score > 100) {
+      throw new BadRequestException('score must be an integer from 0 to 100');
+    }
+    if (
+      action === 'delay' &&
+      (!holdHours || !Number.isInteger(holdHours) || holdHours < 1)
+    ) {
+      throw new BadRequestException(
+        'holdHours (a positive whole number) is required for delay rules',
+      );
+    }
+    if (ruleType === 'score' && action === 'score') {
+      throw new BadRequestException(
+        'A score rule needs a flag, delay or block action',
+      );
+    }
+
+    this.validateConditions(conditions);
+    if (
+      ruleType !== 'score' &&
+      Object.keys(
+        FraudDetectionService.conditionsFor({
+          ruleType,
+          threshold: new Prisma.Decimal(threshold),
+          conditions: conditions as Prisma.JsonValue,
+        }),
+      ).length === 0
+    ) {
+      throw new BadRequestException(
+        'Rule has no conditions, so it would never match',
+      );
+    }
+
+    return {
+      name: name.trim(),
+      description: description.trim(),
+      ruleType,
+      threshold,
+      conditions: conditions as Prisma.InputJsonValue,
+      score,
+      action,
+      holdHours: action === 'delay' ? holdHours : null,
+      isActive: input.isActive ?? existing?.isActive ?? true,
+    };
+  }
+
+  private validateConditions(conditions: Record<string, unknown>): void {
+    const fail = (message: string): never => {
+      throw new BadRequestException(`Invalid conditions: ${message}`);
+    };
+    const isNumber = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    for (const [key, value] of Object.entries(conditions)) {
+      if (NUMERIC_CONDITIONS.includes(key)) {
+        if (!isNumber(value)) fail(`${key} must be a non-negative number`);
+      } else if (BOOLEAN_CONDITIONS.includes(key)) {
+        if (typeof value !== 'boolean') fail(`${key} must be true or false`);
+      } else if (key === 'velocity') {
+        const v = value as EWSRuleConditions['velocity'];
+        if (!v || !isNumber(v.windowMinutes) || v.windowMinutes <= 0) {
+          fail('velocity.windowMinutes must be a positive number');
+        }
+        if (v!.minCount !== undefined && !isNumber(v!.minCount)) {
+          fail('velocity.minCount must be a non-negative number');
+        }
+        if (v!.minAmount !== undefined && !isNumber(v!.minAmount)) {
+          fail('velocity.minAmount must be a non-negative number');
+        }
+      } else if (key === 'hours') {
+        const h = value as EWSRuleConditions['hours'];
+        const isHour = (n: unknown) =>
+          Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 24;
+        if (!h || !isHour(h.from) || !isHour(h.to)) {
+          fail('hours needs whole-number from and to between 0 and 24');
+        }
+      } else if (key === 'channels') {
+        if (
+          !Array.isArray(value) ||
+          value.some((c) => c !== 'internal' && c !== 'bank' && c !== 'crypto')
+        ) {
+          fail("channels must be a list of 'internal', 'bank' and/or 'crypto'");
+        }
+      } else {
+        fail(`unknown condition "${key}"`);
+      }
+    }
+  }
+
+  private async audit(
+    action: string,
+    adminId: string,
+    metadata: Record<string, unknown>,
+  ) {
+    await this.prisma.auditLog.create({
+      data: {
+        action,
+        actorType: 'admin',
+        actorId: adminId,
+        metadata: JSON.parse(JSON.stringify(metadata)) as Prisma.InputJsonValue,
+      },
+    });
+  }
+}
@@ -10,46 +10,43 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
-import { AuthGuard } from '../auth/auth.guard';
-import { EWSService } from '../services/ews.service';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { EWSService } from './ews.service';
 import { PrismaService } from '../prisma.service';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { HoldReleaseProposalInput } from '../admin-approvals/admin-approvals.service';
 
 @Controller('ews')
-@UseGuards(AuthGuard)
+@UseGuards(AdminGuard)
 export class EWSController {
   private readonly logger = new Logger(EWSController.name);
 
   constructor(
     private ewsService: EWSService,
     private prisma: PrismaService,
+    private approvals: AdminApprovalsService,
   ) {}
 
   /**
-   * Get risk assessment for a transaction
+   * Get the risk assessment recorded when a transaction was scored
    */
+  @RequirePermission('risk:read')
   @Get('assess/:transactionId')
   async assessTransaction(@Param('transactionId') transactionId: string) {
     try {
-      const transaction = await this.prisma.transaction.findUnique({
-        where: { id: transactionId },
-        select: {
-          senderId: true,
-          receiverId: true,
-          amount: true,
-          type: true,
-        },
-      });
+      const assessment = await this.ewsService.getAssessment(transactionId);
 
-      if (!transaction) {
-        throw new BadRequestException('Transaction not found');
+      if (!assessment) {
+        throw new BadRequestException(
+          'No risk assessment recorded for this transaction',
+        );
       }
 
-      const assessment = await this.ewsService.assessTransactionRisk(
-        transaction.senderId!,
-        Number(transaction.amount),
-        transaction.receiverId!,
-      );
-
       return {
         success: true,
         data: assessment,
@@ -65,6 +62,7 @@ export class EWSController {
   /**
    * Get held transactions for a user
    */
+  @RequirePermission('holds:read')
   @Get('holds/user/:userId')
   async getUserHolds(@Param('userId') userId: string) {
     try {
@@ -86,6 +84,7 @@ export class EWSController {
   /**
    * Get all held transactions (admin endpoint)
    */
+  @RequirePermission('holds:read')
   @Get('holds')
   async getAllHolds(
     @Query('page') page = 1,
@@ -141,56 +140,28 @@ export class EWSController {
   }
 
   /**
-   * Release a transaction hold
+   * Propose releasing a transaction hold; a second admin approves it under
+   * admin/approvals before the transaction is released
    */
+  @RequirePermission('holds:manage')
   @Post('holds/:transactionId/release')
   async releaseHold(
+    @CurrentAdmin() admin: AdminPrincipal,
     @Param('transactionId') transactionId: string,
-    @Body() body: { approvedBy: string; notes?: string },
+    @Body() body: HoldReleaseProposalInput,
   ) {
     try {
-      const { approvedBy, notes } = body;
-
-      if (!approvedBy) {
-        throw new BadRequestException('approvedBy is required');
-      }
-
-      // Verify transaction exists and is held
-      const transaction = await this.prisma.transaction.findUnique({
-        where: { id: transactionId },
-        select: { status: true, senderId: true, amount: true },
-      });
-
-      if (!transaction) {
-        throw new BadRequestException('Transaction not found');
-      }
-
-      if (transaction.status !== 'HELD') {
-        throw new BadRequestException('Transaction is not on hold');
-      }
-
-      // Release the hold
-      await this.ewsService.releaseTransactionHold(transactionId, notes);
-
-      // Log the release
-      await this.prisma.auditLog.create({
-        data: {
-          action: 'TRANSACTION_HOLD_RELEASED',
-          userId: transaction.senderId!,
-          actorType: 'admin',
-          actorId: approvedBy,
-          metadata: {
-            transactionId,
-            amount: transaction.amount.toString(),
-            notes,
-            releasedAt: new Date().toISOString(),
-          },
-        },
-      });
+      const approval = await this.approvals.proposeHoldRelease(
+        admin,
+        transactionId,
+        body,
+      );
 
       return {
         success: true,
-        message: 'Transaction hold released successfully',
+        pendingApproval: true,
+        message: 'Hold release submitted for approval',
+        data: approval,
       };
     } catch (error) {
       this.logger.error(`Error releasing hold: ${(error as Error).message}`);
@@ -201,18 +172,18 @@ export class EWSController {
   /**
    * Create a manual hold (admin action)
    */
+  @RequirePermission('holds:manage')
   @Post('holds/:transactionId/create')
   async createHold(
+    @CurrentAdmin() admin: AdminPrincipal,
     @Param('transactionId') transactionId: string,
-    @Body() body: { reason: string; holdHours: number; createdBy: string },
+    @Body() body: { reason: string; holdHours: number },
   ) {
     try {
-      const { reason, holdHours, createdBy } = body;
+      const { reason, holdHours } = body;
 
-      if (!reason || !holdHours || !createdBy) {
-        throw new BadRequestException(
-          'reason, holdHours, and createdBy are required',
-        );
+      if (!reason || !holdHours) {
+        throw new BadRequestException('reason and holdHours are required');
       }
 
       // Verify transaction exists
@@ -242,7 +213,7 @@ export class EWSController {
           action: 'TRANSACTION_HOLD_CREATED',
           userId: transaction.senderId!,
           actorType: 'admin',
-          actorId: createdBy,
+          actorId: admin.adminId,
           metadata: {
             transactionId,
             amount: transaction.amount.toString(),
@@ -264,78 +235,38 @@ export class EWSController {
   }
 
   /**
-   * Get velocity check for user
+   * Preview how the active rules would score a transfer, without recording it
    */
-  @Get('velocity/:userId')
-  async checkVelocity(
+  @RequirePermission('risk:read')
+  @Get('preview/:userId')
+  async previewTransaction(
     @Param('userId') userId: string,
     @Query('amount') amount: number,
+    @Query('recipientId') recipientId?: string,
+    @Query('accountNumber') accountNumber?: string,
+    @Query('bankCode') bankCode?: string,
   ) {
     try {
       if (!amount || amount <= 0) {
         throw new BadRequestException('Valid amount is required');
       }
 
-      const velocity = await this.ewsService.checkTransactionVelocity(
+      const result = await this.ewsService.previewTransaction({
         userId,
         amount,
-      );
-
-      return {
-        success: true,
-        data: velocity,
-      };
-    } catch (error) {
-      this.logger.error(`Error checking velocity: ${(error as Error).message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * Get beneficiary hold check
-   */
-  @Get('beneficiary-hold/:userId/:beneficiaryId')
-  async checkBeneficiaryHold(
-    @Param('userId') userId: string,
-    @Param('beneficiaryId') beneficiaryId: string,
-  ) {
-    try {
-      const hold = await this.ewsService.checkBeneficiaryHold(
-        userId,
-        beneficiaryId,
-      );
-
-      return {
-        success: true,
-        data: hold,
-      };
-    } catch (error) {
-      this.logger.error(
-        `Error checking beneficiary hold: ${(error as Error).message}`,
-      );
-      throw error;
-    }
-  }
-
-  /**
-   * Get high-value transaction check
-   */
-  @Get('high-value/:amount')
-  async checkHighValue(@Param('amount') amount: number) {
-    try {
-      if (!amount || amount <= 0) {
-        throw new BadRequestException('Valid amount is required');
-      }
-
-      const check = this.ewsService.checkHighValueTransaction(amount);
+        channel: accountNumber ? 'bank' : 'internal',
+        recipientId,
+        accountNumber,
+        bankCode,
+      });
 
       return {
         success: true,
-        data: check,
+        data: result,
       };
     } catch (error) {
       this.logger.error(
-        `Error checking high value: ${(error as Error).message}`,
+        `Error previewing transaction: ${(error as Error).message}`,
       );
       throw error;
     }
@@ -344,68 +275,49 @@ export class EWSController {
   /**
    * Get EWS statistics (admin dashboard)
    */
+  @RequirePermission('risk:read')
   @Get('stats')
   async getStats() {
     try {
-      const [
-        totalHeld,
-        totalReleased,
-        velocityViolations,
-        highValueFlags,
-        avgRiskScore,
-      ] = await Promise.all([
-        this.prisma.transaction.count({ where: { status: 'HELD' } }),
-        this.prisma.transaction.count({
-          where: {
-            status: 'COMPLETED',
-            metadata: {
-              path: ['holdReleasedAt'],
-              not: Prisma.JsonNull,
-            },
-          },
-        }),
-
-        this.prisma.transaction.count({
-          where: {
-            createdAt: {
-              gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
-            },
-            metadata: {
-              path: ['velocityViolation'],
-              equals: true,
+      const since24h = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const [totalHeld, totalReleased, actionCounts, avgRiskScore, rules] =
+        await Promise.all([
+          this.prisma.transaction.count({ where: { status: 'HELD' } }),
+          this.prisma.transaction.count({
+            where: {
+              status: { in: ['SUCCESS', 'COMPLETED'] },
+              metadata: {
+                path: ['holdReleasedAt'],
+                not: Prisma.JsonNull,
+              },
             },
-          },
-        }),
-        this.prisma.transaction.count({
-          where: {
-            amount: { gte: this.ewsService['highValueThreshold'] },
-          },
-        }),
-        this.prisma.transaction.aggregate({
-          _avg: { amount: true },
-          where: {
-            status: 'HELD',
-            createdAt: {
-              gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+          }),
+          this.prisma.riskAssessment.groupBy({
+            by: ['action'],
+            where: { createdAt: { gte: since24h } },
+            _count: true,
+          }),
+          this.prisma.riskAssessment.aggregate({
+            _avg: { score: true },
+            where: {
+              createdAt: {
+                gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+              },
             },
-          },
-        }),
-      ]);
+          }),
+          this.ewsService.getActiveRules(),
+        ]);
 
       return {
         success: true,
         data: {
           totalHeld,
           totalReleased,
-          velocityViolations,
-          highValueFlags,
-          avgRiskScore: avgRiskScore._avg?.amount || 0,
-          thresholds: {
-            velocityAmount: this.ewsService['velocityThresholdAmount'],
-            velocityTime: this.ewsService['velocityThresholdTime'],
-            highValue: this.ewsService['highValueThreshold'],
-            beneficiaryHold: this.ewsService['firstTimeBeneficiaryHoldHours'],
-          },
+          actionsLast24h: Object.fromEntries(
+            actionCounts.map((row) => [row.action, row._count]),
+          ),
+          avgRiskScore: avgRiskScore._avg?.score || 0,
+          activeRules: rules.length,
         },
       };
     } catch (error) {
@@ -1,11 +1,22 @@
 import { Module } from '@nestjs/common';
 import { EWSController } from './ews.controller';
-import { EWSService } from '../services/ews.service';
+import { EWSService } from './ews.service';
+import { EWSRulesService } from './ews-rules.service';
+import { FraudDetectionService } from '../services/fraud-detection.service';
 import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { AdminApprovalsModule } from '../admin-approvals/admin-approvals.module';
 
 @Module({
+  imports: [AdminAuthModule, AdminApprovalsModule, OutboxModule],
   controllers: [EWSController],
-  providers: [EWSService, PrismaService],
-  exports: [EWSService],
+  providers: [
+    EWSService,
+    EWSRulesService,
+    FraudDetectionService,
+    PrismaService,
+  ],
+  exports: [EWSService, EWSRulesService, FraudDetectionService],
 })
 export class EWSModule {}
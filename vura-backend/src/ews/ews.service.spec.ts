@@ -0,0 +1,107 @@
+import { ForbiddenException } from '@nestjs/common';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import {
+  FraudDetectionService,
+  FraudScore,
+  TransactionRiskInput,
+} from '../services/fraud-detection.service';
+import { EWSService } from './ews.service';
+
+const INPUT: TransactionRiskInput = {
+  userId: 'user-1',
+  amount: 250000,
+  channel: 'bank',
+  accountNumber: '0123456789',
+  bankCode: '058',
+  ipAddress: '10.0.0.1',
+};
+
+// The fields recordAssessment and freezeAccount write
+interface Written {
+  transactionId?: string | null;
+  amount?: string;
+  score?: number;
+  action?: string;
+  fraudScore?: number;
+  lockedUntil?: Date;
+}
+
+/**
+ * The risk engine is a mock returning a fixed score; the database is a stub.
+ */
+describe('EWSService.screenTransaction', () => {
+  let prisma: {
+    riskAssessment: { create: jest.Mock };
+    user: { update: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let fraud: { analyzeTransaction: jest.Mock };
+  let ews: EWSService;
+
+  const score = (overrides: Partial<FraudScore>): FraudScore => ({
+    score: 0,
+    riskLevel: 'low',
+    action: 'allow',
+    reasons: [],
+    contributions: [],
+    blocked: false,
+    facts: {} as FraudScore['facts'],
+    ...overrides,
+  });
+  const lastWrite = (mock: jest.Mock) =>
+    (mock.mock.lastCall as [{ data: Written }])[0].data;
+
+  beforeEach(() => {
+    prisma = {
+      riskAssessment: { create: jest.fn() },
+      user: { update: jest.fn() },
+      auditLog: { create: jest.fn() },
+    };
+    fraud = { analyzeTransaction: jest.fn() };
+    ews = new EWSService(
+      prisma as unknown as PrismaService,
+      fraud as unknown as FraudDetectionService,
+      { record: jest.fn() } as unknown as OutboxService,
+    );
+  });
+
+  it('returns the assessment for the caller to record with the transaction', async () => {
+    fraud.analyzeTransaction.mockResolvedValue(
+      score({ score: 40, action: 'review', riskLevel: 'medium' }),
+    );
+
+    const result = await ews.screenTransaction(INPUT);
+
+    expect(result.action).toBe('review');
+    expect(prisma.riskAssessment.create).not.toHaveBeenCalled();
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('records a blocked attempt and freezes the account before refusing it', async () => {
+    fraud.analyzeTransaction.mockResolvedValue(
+      score({
+        score: 95,
+        action: 'block',
+        riskLevel: 'high',
+        blocked: true,
+        reasons: ['Large transfer to a new account'],
+      }),
+    );
+
+    await expect(ews.screenTransaction(INPUT)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+
+    expect(lastWrite(prisma.riskAssessment.create)).toMatchObject({
+      transactionId: null,
+      amount: '250000.00',
+      score: 95,
+      action: 'block',
+    });
+    const frozen = lastWrite(prisma.user.update);
+    expect(frozen.fraudScore).toBe(95);
+    expect(frozen.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(prisma.auditLog.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,266 +1,167 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma.service';
+import {
+  FraudDetectionService,
+  FraudScore,
+  RiskContribution,
+  TransactionRiskInput,
+} from '../services/fraud-detection.service';
+import { OutboxService } from '../outbox/outbox.service';
 import Decimal from 'decimal.js';
 
-export interface EWSResult {
-  score: number; // 0-100
-  flags: string[];
-  action: 'allow' | 'flag' | 'block';
-}
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
 
+/**
+ * Early Warning System: screens outgoing transfers through the
+ * FraudDetectionService risk engine, persists each assessment, freezes
+ * accounts that hit the block threshold and manages transaction holds.
+ */
 @Injectable()
 export class EWSService {
   private readonly logger = new Logger(EWSService.name);
 
-  // Risk thresholds
-  private readonly VELOCITY_LIMIT = 5; // Max 5 transactions per hour
-  private readonly VELOCITY_SCORE = 25;
-
-  private readonly AMOUNT_MULTIPLIER = 3; // Flag if >3x average
-  private readonly AMOUNT_ANOMALY_SCORE = 20;
-
-  private readonly NEW_DEVICE_SCORE = 30;
-  private readonly LOCATION_CHANGE_SCORE = 25;
-
-  private readonly FREEZE_THRESHOLD = 80; // Auto-freeze if score >= 80
-
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private fraudDetection: FraudDetectionService,
+    private outbox: OutboxService,
+  ) {}
 
   /**
-   * Analyze transaction for fraud indicators
+   * Score a transfer before money moves. Blocked attempts are persisted and
+   * the account frozen before rejecting; other results are returned for the
+   * caller to persist against the transaction with recordAssessment().
    */
-  async analyzeTransaction(
-    userId: string,
-    amount: Decimal,
-    deviceFingerprint: string,
-    ipAddress: string,
-  ): Promise<EWSResult> {
-    const flags: string[] = [];
-    let score = 0;
-
-    // 1. Velocity Check - Max 5 transactions per hour
-    const velocityScore = await this.checkVelocity(userId);
-    if (velocityScore.exceeded) {
-      score += this.VELOCITY_SCORE;
-      flags.push(`velocity_exceeded:${velocityScore.count}_in_1h`);
-    }
-
-    // 2. Amount Anomaly - >3x average transaction
-    const amountScore = await this.checkAmountAnomaly(userId, amount);
-    if (amountScore.isAnomaly) {
-      score += this.AMOUNT_ANOMALY_SCORE;
-      flags.push(
-        `amount_anomaly:${amountScore.multiplier.toFixed(1)}x_average`,
+  async screenTransaction(input: TransactionRiskInput): Promise<FraudScore> {
+    const result = await this.fraudDetection.analyzeTransaction(input);
+
+    if (result.blocked) {
+      await this.recordAssessment(this.prisma, null, input, result);
+      await this.freezeAccount(input.userId, result.score, result.reasons);
+      throw new ForbiddenException(
+        'This transaction was blocked by our security checks. Please contact support.',
       );
     }
 
-    // 3. Device Deviation - New device + large amount
-    const deviceScore = await this.checkDeviceDeviation(
-      userId,
-      deviceFingerprint,
-      amount,
-    );
-    if (deviceScore.isNewDevice) {
-      score += this.NEW_DEVICE_SCORE;
-      flags.push('new_device');
-      if (amount.greaterThan(50000)) {
-        score += 15; // Additional risk for large amount on new device
-        flags.push('new_device_large_amount');
-      }
-    }
-
-    // 4. Location Check - IP country change
-    const locationScore = await this.checkLocationChange(userId, ipAddress);
-    if (locationScore.isNewLocation) {
-      score += this.LOCATION_CHANGE_SCORE;
-      flags.push('location_change');
-    }
-
-    // Determine action
-    let action: 'allow' | 'flag' | 'block' = 'allow';
-    if (score >= this.FREEZE_THRESHOLD) {
-      action = 'block';
-      // Auto-freeze account
-      await this.freezeAccount(userId, score, flags);
-    } else if (score >= 40) {
-      action = 'flag';
-    }
-
-    // Log the EWS check
-    this.logger.warn(
-      `EWS Check - User: ${userId}, Score: ${score}, Action: ${action}, Flags: ${flags.join(', ')}`,
-    );
-
-    // Store EWS result in transaction (will be linked by caller)
-    await this.storeEWSResult(userId, score, flags, action);
-
-    return { score, flags, action };
+    return result;
   }
 
   /**
-   * Check transaction velocity (max 5 per hour)
+   * Persist an assessment. Pass the interactive transaction client so the
+   * record commits together with the transaction it explains.
    */
-  private async checkVelocity(
-    userId: string,
-  ): Promise<{ exceeded: boolean; count: number }> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-
-    const count = await this.prisma.transaction.count({
-      where: {
-        senderId: userId,
-        createdAt: { gte: oneHourAgo },
-        status: { in: ['SUCCESS', 'PENDING', 'HELD'] },
+  async recordAssessment(
+    client: PrismaClientLike,
+    transactionId: string | null,
+    input: TransactionRiskInput,
+    result: FraudScore,
+  ) {
+    return client.riskAssessment.create({
+      data: {
+        userId: input.userId,
+        transactionId,
+        channel: input.channel,
+        amount: new Decimal(input.amount.toString()).toFixed(2),
+        score: result.score,
+        riskLevel: result.riskLevel,
+        action: result.action,
+        contributions: result.contributions as unknown as Prisma.InputJsonValue,
+        context: {
+          recipientId: input.recipientId ?? null,
+          accountNumber: input.accountNumber ?? null,
+          bankCode: input.bankCode ?? null,
+          walletAddress: input.walletAddress ?? null,
+          deviceFingerprint: input.deviceFingerprint ?? null,
+          ipAddress: input.ipAddress ?? null,
+          facts: result.facts as unknown as Prisma.InputJsonValue,
+        },
       },
     });
-
-    return {
-      exceeded: count >= this.VELOCITY_LIMIT,
-      count,
-    };
   }
 
   /**
-   * Check if amount is >3x average
+   * Stored assessment for a transaction, if it was scored
    */
-  private async checkAmountAnomaly(
-    userId: string,
-    amount: Decimal,
-  ): Promise<{ isAnomaly: boolean; multiplier: number }> {
-    // Get average of last 10 successful transactions
-    const transactions = await this.prisma.transaction.findMany({
-      where: {
-        senderId: userId,
-        status: 'SUCCESS',
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 10,
+  async getAssessment(transactionId: string) {
+    return this.prisma.riskAssessment.findUnique({
+      where: { transactionId },
     });
-
-    if (transactions.length < 3) {
-      // Not enough history, flag large amounts
-      if (amount.greaterThan(100000)) {
-        return { isAnomaly: true, multiplier: 10 };
-      }
-      return { isAnomaly: false, multiplier: 0 };
-    }
-
-    const avgAmount = transactions
-      .reduce((sum, tx) => sum.plus(tx.amount), new Decimal(0))
-      .dividedBy(transactions.length);
-
-    const multiplier = amount.dividedBy(avgAmount).toNumber();
-
-    return {
-      isAnomaly: multiplier > this.AMOUNT_MULTIPLIER,
-      multiplier,
-    };
   }
 
   /**
-   * Check if device is new for this user
+   * Score a hypothetical transfer against the active rules without recording it
    */
-  private async checkDeviceDeviation(
-    userId: string,
-    deviceFingerprint: string,
-    amount: Decimal,
-  ): Promise<{ isNewDevice: boolean }> {
-    // Check if this device has been used before
-    const existingSession = await this.prisma.session.findFirst({
-      where: {
-        userId,
-        deviceFingerprint,
-        isRevoked: false,
-      },
-    });
-
-    return {
-      isNewDevice: !existingSession,
-    };
+  async previewTransaction(input: TransactionRiskInput): Promise<FraudScore> {
+    return this.fraudDetection.analyzeTransaction(input);
   }
 
-  /**
-   * Check for location/IP changes
-   */
-  private async checkLocationChange(
-    userId: string,
-    ipAddress: string,
-  ): Promise<{ isNewLocation: boolean }> {
-    // Get last known IP from sessions
-    const lastSession = await this.prisma.session.findFirst({
-      where: { userId },
-      orderBy: { lastActiveAt: 'desc' },
-    });
-
-    if (!lastSession || !lastSession.ipAddress) {
-      return { isNewLocation: false }; // First session
-    }
-
-    // Simple IP comparison (in production, use geolocation)
-    const isNewLocation = lastSession.ipAddress !== ipAddress;
-
-    return { isNewLocation };
+  getActiveRules() {
+    return this.fraudDetection.getActiveRules();
   }
 
   /**
-   * Freeze account due to high fraud score
+   * Create transaction hold (stored in metadata)
    */
-  private async freezeAccount(
-    userId: string,
-    score: number,
-    flags: string[],
+  async createTransactionHold(
+    transactionId: string,
+    reason: string,
+    holdHours: number,
   ): Promise<void> {
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: {
-        fraudScore: score,
-        lockedUntil: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-      },
+    const transaction = await this.prisma.transaction.findUniqueOrThrow({
+      where: { id: transactionId },
+      select: { metadata: true, senderId: true, amount: true },
     });
-
-    // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'ACCOUNT_FROZEN',
-        userId,
-        actorType: 'system',
-        metadata: {
-          ewsScore: score,
-          flags,
-          reason: 'Fraud score exceeded threshold',
+    const holdUntil = new Date(Date.now() + holdHours * 60 * 60 * 1000);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.transaction.update({
+        where: { id: transactionId },
+        data: {
+          status: 'HELD',
+          isFlagged: true,
+          flagReason: reason,
+          heldUntil: holdUntil,
+          metadata: {
+            ...((transaction.metadata as object) || {}),
+            holdReason: reason,
+            holdUntil: holdUntil.toISOString(),
+            heldAt: new Date().toISOString(),
+          },
         },
-      },
+      });
+      if (transaction.senderId) {
+        await this.outbox.record(
+          tx,
+          'HoldPlaced',
+          {
+            transactionId,
+            userId: transaction.senderId,
+            amount: transaction.amount.toString(),
+            reason,
+            heldUntil: holdUntil.toISOString(),
+          },
+          transactionId,
+        );
+      }
     });
 
-    this.logger.error(
-      `ACCOUNT FROZEN - User: ${userId}, Score: ${score}, Flags: ${flags.join(', ')}`,
+    this.logger.log(
+      `Transaction hold created for ${transactionId}: ${reason} (${holdHours}h)`,
     );
-
-    // TODO: Send admin alert (email, SMS, push notification)
   }
 
   /**
-   * Store EWS result for audit
+   * Get held transactions for user
    */
-  private async storeEWSResult(
-    userId: string,
-    score: number,
-    flags: string[],
-    action: string,
-  ): Promise<void> {
-    // Store in a way that can be linked to the transaction
-    // This could be a separate EWS log table or added to transaction metadata
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'EWS_CHECK',
-        userId,
-        actorType: 'system',
-        metadata: {
-          score,
-          flags,
-          action,
-          timestamp: new Date().toISOString(),
-        },
+  async getHeldTransactions(userId: string) {
+    return this.prisma.transaction.findMany({
+      where: {
+        senderId: userId,
+        status: 'HELD',
       },
+      include: { riskAssessment: true },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
     });
   }
 
@@ -280,21 +181,19 @@ export class EWSService {
       return { fraudScore: 0, isFrozen: false, lastFlags: [] };
     }
 
-    // Get last EWS check
-    const lastEWS = await this.prisma.auditLog.findFirst({
-      where: {
-        userId,
-        action: 'EWS_CHECK',
-      },
-      orderBy: { timestamp: 'desc' },
+    const lastAssessment = await this.prisma.riskAssessment.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
     });
 
     const isFrozen = !!(user.lockedUntil && user.lockedUntil > new Date());
+    const contributions = (lastAssessment?.contributions ??
+      []) as unknown as RiskContribution[];
 
     return {
       fraudScore: user.fraudScore,
       isFrozen,
-      lastFlags: (lastEWS?.metadata as any)?.flags || [],
+      lastFlags: contributions.map((c) => c.rule),
     };
   }
 
@@ -331,4 +230,38 @@ export class EWSService {
       `ACCOUNT UNFROZEN - User: ${userId}, By: ${adminId}, Reason: ${reason}`,
     );
   }
+
+  /**
+   * Freeze account due to high fraud score
+   */
+  private async freezeAccount(
+    userId: string,
+    score: number,
+    reasons: string[],
+  ): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        fraudScore: score,
+        lockedUntil: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'ACCOUNT_FROZEN',
+        userId,
+        actorType: 'system',
+        metadata: {
+          ewsScore: score,
+          reasons,
+          reason: 'Fraud score exceeded threshold',
+        },
+      },
+    });
+
+    this.logger.error(
+      `ACCOUNT FROZEN - User: ${userId}, Score: ${score}, Reasons: ${reasons.join(', ')}`,
+    );
+  }
 }
@@ -12,6 +12,7 @@ import {
 import { AuthGuard } from '../auth/auth.guard';
 import { PaystackService } from '../services/paystack.service';
 import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
 import { ConfigService } from '@nestjs/config';
 import Decimal from 'decimal.js';
 import { v4 as uuid } from 'uuid';
@@ -25,6 +26,7 @@ export class FundingController {
     private paystack: PaystackService,
     private prisma: PrismaService,
     private config: ConfigService,
+    private ledger: LedgerService,
   ) {}
 
   @Post('initialize')
@@ -128,18 +130,15 @@ export class FundingController {
     const amount = new Decimal(verifiedAmount);
 
     await this.prisma.$transaction(async (prisma) => {
-      const balance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId: req.user.userId, currency: 'NGN' } },
-      });
-
-      const before = new Decimal(balance?.amount?.toString() ?? '0');
-      const after = before.add(amount);
-
-      await prisma.balance.upsert({
-        where: { userId_currency: { userId: req.user.userId, currency: 'NGN' } },
-        create: { userId: req.user.userId, currency: 'NGN', amount: after.toNumber(), lastUpdatedBy: 'funding' },
-        update: { amount: after.toNumber(), lastUpdatedBy: 'funding' },
+      const posting = await this.ledger.transfer(prisma, {
+        reference,
+        type: 'deposit',
+        from: LedgerService.external('paystack'),
+        to: LedgerService.user(req.user.userId),
+        amount,
       });
+      const { before, after } =
+        posting.balances[LedgerService.user(req.user.userId)];
 
       await prisma.transaction.update({
         where: { reference },
@@ -3,9 +3,10 @@ import { ConfigModule } from '@nestjs/config';
 import { FundingController } from './funding.controller';
 import { PaystackService } from '../services/paystack.service';
 import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, LedgerModule],
   controllers: [FundingController],
   providers: [PaystackService, PrismaService],
 })
@@ -1,31 +1,48 @@
-import {
-  Controller,
-  Get,
-  Post,
-  Param,
-  UseGuards,
-  Request,
-} from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
 import { HoldsService } from './holds.service';
-import { AuthGuard } from '../auth/auth.guard';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { HoldReleaseProposalInput } from '../admin-approvals/admin-approvals.service';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
 
 @Controller('holds')
-@UseGuards(AuthGuard)
+@UseGuards(AdminGuard)
 export class HoldsController {
-  constructor(private holdsService: HoldsService) {}
+  constructor(
+    private holdsService: HoldsService,
+    private approvals: AdminApprovalsService,
+  ) {}
 
+  @RequirePermission('holds:read')
   @Get()
   async getHeldTransactions() {
     return this.holdsService.getHeldTransactions();
   }
 
+  /**
+   * Propose releasing a hold; a second admin approves it under admin/approvals
+   */
+  @RequirePermission('holds:manage')
   @Post(':id/release')
-  async releaseHold(@Param('id') id: string, @Request() req: any) {
-    // TODO: Add admin role check
-    await this.holdsService.releaseHold(id, req.user.userId);
-    return { success: true, message: 'Hold released successfully' };
+  async releaseHold(
+    @Param('id') id: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: HoldReleaseProposalInput,
+  ) {
+    const approval = await this.approvals.proposeHoldRelease(admin, id, body);
+    return {
+      success: true,
+      pendingApproval: true,
+      message: 'Hold release submitted for approval',
+      approval,
+    };
   }
 
+  @RequirePermission('holds:manage')
   @Post('check-auto-release')
   async checkAutoRelease() {
     const released = await this.holdsService.checkAutoRelease();
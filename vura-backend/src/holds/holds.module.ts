@@ -2,8 +2,13 @@ import { Module } from '@nestjs/common';
 import { HoldsController } from './holds.controller';
 import { HoldsService } from './holds.service';
 import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { AdminApprovalsModule } from '../admin-approvals/admin-approvals.module';
 
 @Module({
+  imports: [AdminAuthModule, AdminApprovalsModule, OutboxModule, LedgerModule],
   controllers: [HoldsController],
   providers: [HoldsService, PrismaService],
   exports: [HoldsService],
@@ -0,0 +1,160 @@
+import type { Dispute } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { HoldsService } from './holds.service';
+
+const MERCHANT = 'merchant-1';
+
+/**
+ * The ledger and outbox are mocks; the database is a stub passed in as the
+ * caller's transaction client, as DisputesService does.
+ */
+describe('HoldsService dispute holds', () => {
+  let prisma: {
+    balance: { findUnique: jest.Mock };
+    dispute: { update: jest.Mock; updateMany: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock; reverse: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let holds: HoldsService;
+
+  const dispute = (overrides: Partial<Dispute> = {}): Dispute => ({
+    id: 'dispute-1',
+    transactionId: 'tx-1',
+    customerId: 'user-1',
+    merchantId: MERCHANT,
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    reason: 'not_received',
+    description: 'Order never arrived',
+    evidence: [],
+    merchantResponse: null,
+    merchantEvidence: [],
+    respondBy: new Date(),
+    respondedAt: null,
+    status: 'awaiting_merchant',
+    holdAmount: null,
+    holdReleasedAt: null,
+    resolvedBy: null,
+    resolutionNote: null,
+    resolvedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+  const client = () => prisma as unknown as PrismaService;
+
+  beforeEach(() => {
+    prisma = {
+      balance: {
+        findUnique: jest.fn().mockResolvedValue({ amount: new Decimal(8000) }),
+      },
+      dispute: {
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    ledger = { transfer: jest.fn(), reverse: jest.fn() };
+    outbox = { record: jest.fn() };
+    holds = new HoldsService(
+      prisma as unknown as PrismaService,
+      outbox as unknown as OutboxService,
+      ledger as unknown as LedgerService,
+    );
+  });
+
+  describe('holdForDispute', () => {
+    it('moves the disputed amount from the merchant to suspense', async () => {
+      await holds.holdForDispute(client(), dispute());
+
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          reference: 'DISPUTE-HOLD-dispute-1',
+          type: 'dispute_hold',
+          from: LedgerService.user(MERCHANT),
+          to: LedgerService.suspense(),
+          amount: new Decimal(5000),
+        }),
+      );
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: { holdAmount: '5000' },
+      });
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'HoldPlaced',
+        expect.objectContaining({ amount: '5000', disputeId: 'dispute-1' }),
+        'tx-1',
+      );
+    });
+
+    it('holds only what the merchant still has', async () => {
+      prisma.balance.findUnique.mockResolvedValue({
+        amount: new Decimal(1200),
+      });
+
+      await holds.holdForDispute(client(), dispute());
+
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ amount: new Decimal(1200) }),
+      );
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: { holdAmount: '1200' },
+      });
+    });
+
+    it('holds nothing on an empty wallet', async () => {
+      prisma.balance.findUnique.mockResolvedValue(null);
+
+      await holds.holdForDispute(client(), dispute());
+
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(prisma.dispute.update).not.toHaveBeenCalled();
+      expect(outbox.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseDisputeHold', () => {
+    it('moves the held amount back to the merchant', async () => {
+      await holds.releaseDisputeHold(
+        client(),
+        dispute({ holdAmount: new Decimal(5000) }),
+        'admin',
+        'admin-1',
+      );
+
+      expect(ledger.reverse).toHaveBeenCalledWith(
+        prisma,
+        'DISPUTE-HOLD-dispute-1',
+        'dispute_hold_release',
+        'Dispute hold released',
+      );
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'HoldReleased',
+        expect.objectContaining({ amount: '5000', adminId: 'admin-1' }),
+        'tx-1',
+      );
+    });
+
+    it('releases a hold only once', async () => {
+      prisma.dispute.updateMany.mockResolvedValue({ count: 0 });
+
+      await holds.releaseDisputeHold(
+        client(),
+        dispute({ holdAmount: new Decimal(5000) }),
+        'merchant',
+      );
+
+      expect(ledger.reverse).not.toHaveBeenCalled();
+      expect(outbox.record).not.toHaveBeenCalled();
+    });
+  });
+});
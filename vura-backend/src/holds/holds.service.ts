@@ -3,104 +3,78 @@ import {
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
+import { Dispute, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { LedgerService } from '../ledger/ledger.service';
 import Decimal from 'decimal.js';
 
-@Injectable()
-export class HoldsService {
-  constructor(private prisma: PrismaService) {}
-
-  private readonly FLAG_THRESHOLD = new Decimal(100000); // ₦100k
-  private readonly HOLD_DAYS = 16;
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
 
-  /**
-   * Check if transaction should be flagged and held
-   * Auto-flags transactions >₦100k from new users (< 30 days)
-   */
-  async shouldFlagTransaction(
-    senderId: string,
-    amount: Decimal,
-    senderKycTier: number,
-  ): Promise<{ shouldFlag: boolean; reason?: string }> {
-    // Check amount threshold
-    if (amount.lessThan(this.FLAG_THRESHOLD)) {
-      return { shouldFlag: false };
-    }
-
-    // Get sender details
-    const sender = await this.prisma.user.findUnique({
-      where: { id: senderId },
-      include: {
-        sentTransactions: {
-          where: { status: 'SUCCESS' },
-          take: 1,
-        },
-      },
-    });
-
-    if (!sender) {
-      return { shouldFlag: false };
-    }
-
-    // Flag if new user (no successful transactions yet)
-    if (sender.sentTransactions.length === 0) {
-      return {
-        shouldFlag: true,
-        reason: 'First-time sender with large amount',
-      };
-    }
-
-    // Flag if low KYC tier with large amount
-    if (senderKycTier === 1 && amount.greaterThan(50000)) {
-      return {
-        shouldFlag: true,
-        reason: 'Tier 1 user exceeding recommended limit',
-      };
-    }
-
-    // Check account age (flag if < 30 days old)
-    const accountAge = Date.now() - sender.createdAt.getTime();
-    const thirtyDays = 30 * 24 * 60 * 60 * 1000;
-
-    if (accountAge < thirtyDays && amount.greaterThan(50000)) {
-      return {
-        shouldFlag: true,
-        reason: 'New account (under 30 days) with large transaction',
-      };
-    }
+// Ledger reference of the posting that moves a dispute's hold to suspense
+const disputeHoldReference = (disputeId: string) => `DISPUTE-HOLD-${disputeId}`;
 
-    return { shouldFlag: false };
-  }
+@Injectable()
+export class HoldsService {
+  constructor(
+    private prisma: PrismaService,
+    private outbox: OutboxService,
+    private ledger: LedgerService,
+  ) {}
 
   /**
-   * Calculate hold expiration date (16 days from now)
+   * Calculate hold expiration date. The duration comes from the EWS rule that
+   * decided to hold the transaction.
    */
-  calculateHoldExpiry(): Date {
-    const expiry = new Date();
-    expiry.setDate(expiry.getDate() + this.HOLD_DAYS);
-    return expiry;
+  calculateHoldExpiry(holdHours: number): Date {
+    return new Date(Date.now() + holdHours * 60 * 60 * 1000);
   }
 
   /**
    * Apply hold to a transaction
    */
-  async applyHold(transactionId: string, reason: string): Promise<void> {
-    await this.prisma.transaction.update({
-      where: { id: transactionId },
-      data: {
-        isFlagged: true,
-        flagReason: reason,
-        heldUntil: this.calculateHoldExpiry(),
-        status: 'HELD',
-      },
+  async applyHold(
+    transactionId: string,
+    reason: string,
+    holdHours: number,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const held = await tx.transaction.update({
+        where: { id: transactionId },
+        data: {
+          isFlagged: true,
+          flagReason: reason,
+          heldUntil: this.calculateHoldExpiry(holdHours),
+          status: 'HELD',
+        },
+      });
+      if (held.senderId) {
+        await this.outbox.record(
+          tx,
+          'HoldPlaced',
+          {
+            transactionId,
+            userId: held.senderId,
+            amount: held.amount.toString(),
+            reason,
+            heldUntil: held.heldUntil?.toISOString() ?? null,
+          },
+          transactionId,
+        );
+      }
     });
   }
 
   /**
-   * Release a held transaction (admin only)
+   * Release a held transaction. Called when a second admin approves the
+   * release (see AdminApprovalsService); pass its transaction client.
    */
-  async releaseHold(transactionId: string, adminId: string): Promise<void> {
-    const transaction = await this.prisma.transaction.findUnique({
+  async releaseHold(
+    transactionId: string,
+    adminId: string,
+    client: PrismaClientLike = this.prisma,
+  ): Promise<void> {
+    const transaction = await client.transaction.findUnique({
       where: { id: transactionId },
     });
 
@@ -113,7 +87,7 @@ export class HoldsService {
     }
 
     // Update transaction status
-    await this.prisma.transaction.update({
+    await client.transaction.update({
       where: { id: transactionId },
       data: {
         isFlagged: false,
@@ -128,7 +102,7 @@ export class HoldsService {
     });
 
     // Log the release
-    await this.prisma.auditLog.create({
+    await client.auditLog.create({
       data: {
         action: 'HOLD_RELEASED',
         userId: transaction.senderId,
@@ -141,6 +115,150 @@ export class HoldsService {
         },
       },
     });
+
+    if (transaction.senderId) {
+      await this.outbox.record(
+        client,
+        'HoldReleased',
+        {
+          transactionId,
+          userId: transaction.senderId,
+          amount: transaction.amount.toString(),
+          releasedBy: 'admin',
+          adminId,
+        },
+        transactionId,
+      );
+    }
+  }
+
+  /**
+   * Hold the disputed amount on the merchant's balance while a dispute is
+   * open by moving it to suspense, so the ledger's balance check keeps it
+   * from being spent. Only what the merchant still has can be held; nothing
+   * is held on an empty wallet. Call inside the transaction that opens the
+   * dispute.
+   */
+  async holdForDispute(
+    client: Prisma.TransactionClient,
+    dispute: Dispute,
+  ): Promise<void> {
+    const balance = await client.balance.findUnique({
+      where: {
+        userId_currency: {
+          userId: dispute.merchantId,
+          currency: dispute.currency,
+        },
+      },
+    });
+    const amount = Decimal.min(
+      dispute.amount.toString(),
+      balance?.amount.toString() ?? 0,
+    );
+    if (amount.lessThanOrEqualTo(0)) return;
+
+    await this.ledger.transfer(client, {
+      reference: disputeHoldReference(dispute.id),
+      type: 'dispute_hold',
+      from: LedgerService.user(dispute.merchantId, dispute.currency),
+      to: LedgerService.suspense(dispute.currency),
+      amount,
+      currency: dispute.currency,
+      description: 'Held for a customer dispute',
+      metadata: {
+        disputeId: dispute.id,
+        transactionId: dispute.transactionId,
+      },
+    });
+
+    await client.dispute.update({
+      where: { id: dispute.id },
+      data: { holdAmount: amount.toString() },
+    });
+
+    await client.auditLog.create({
+      data: {
+        action: 'DISPUTE_HOLD_PLACED',
+        userId: dispute.merchantId,
+        actorType: 'system',
+        metadata: {
+          disputeId: dispute.id,
+          transactionId: dispute.transactionId,
+          amount: amount.toString(),
+        },
+      },
+    });
+
+    await this.outbox.record(
+      client,
+      'HoldPlaced',
+      {
+        transactionId: dispute.transactionId,
+        userId: dispute.merchantId,
+        amount: amount.toString(),
+        reason: 'Customer dispute',
+        heldUntil: null,
+        disputeId: dispute.id,
+      },
+      dispute.transactionId,
+    );
+  }
+
+  /**
+   * Lift a dispute hold once the dispute is decided, moving the amount back
+   * from suspense to the merchant. Does nothing if no hold was placed or it
+   * was already lifted.
+   */
+  async releaseDisputeHold(
+    client: Prisma.TransactionClient,
+    dispute: Dispute,
+    releasedBy: 'admin' | 'merchant',
+    adminId?: string,
+  ): Promise<void> {
+    const { count } = await client.dispute.updateMany({
+      where: {
+        id: dispute.id,
+        holdAmount: { not: null },
+        holdReleasedAt: null,
+      },
+      data: { holdReleasedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    await this.ledger.reverse(
+      client,
+      disputeHoldReference(dispute.id),
+      'dispute_hold_release',
+      'Dispute hold released',
+    );
+
+    await client.auditLog.create({
+      data: {
+        action: 'DISPUTE_HOLD_RELEASED',
+        userId: dispute.merchantId,
+        actorType: releasedBy === 'admin' ? 'admin' : 'user',
+        actorId: adminId ?? dispute.merchantId,
+        metadata: {
+          disputeId: dispute.id,
+          transactionId: dispute.transactionId,
+          amount: dispute.holdAmount?.toString(),
+        },
+      },
+    });
+
+    await this.outbox.record(
+      client,
+      'HoldReleased',
+      {
+        transactionId: dispute.transactionId,
+        userId: dispute.merchantId,
+        amount: (dispute.holdAmount ?? dispute.amount).toString(),
+        releasedBy,
+        ...(adminId && { adminId }),
+        disputeId: dispute.id,
+      },
+      dispute.transactionId,
+    );
   }
 
   /**
@@ -187,7 +305,7 @@ export class HoldsService {
   }
 
   /**
-   * Check if held funds can be released (16 days passed)
+   * Check if held funds can be released (hold period passed)
    */
   async checkAutoRelease(): Promise<number> {
     const now = new Date();
@@ -201,19 +319,34 @@ export class HoldsService {
     });
 
     // Auto-release all eligible
-    for (const tx of eligible) {
-      await this.prisma.transaction.update({
-        where: { id: tx.id },
-        data: {
-          isFlagged: false,
-          heldUntil: null,
-          status: 'SUCCESS',
-          metadata: {
-            ...((tx.metadata as object) || {}),
-            autoReleasedAt: now.toISOString(),
-            autoReleaseReason: '16-day hold period completed',
+    for (const held of eligible) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.transaction.update({
+          where: { id: held.id },
+          data: {
+            isFlagged: false,
+            heldUntil: null,
+            status: 'SUCCESS',
+            metadata: {
+              ...((held.metadata as object) || {}),
+              autoReleasedAt: now.toISOString(),
+              autoReleaseReason: 'Hold period completed',
+            },
           },
-        },
+        });
+        if (held.senderId) {
+          await this.outbox.record(
+            tx,
+            'HoldReleased',
+            {
+              transactionId: held.id,
+              userId: held.senderId,
+              amount: held.amount.toString(),
+              releasedBy: 'auto',
+            },
+            held.id,
+          );
+        }
       });
     }
 
@@ -221,12 +354,20 @@ export class HoldsService {
   }
 
   /**
-   * Prevent spending held funds
+   * Prevent spending the amounts of the user's transfers on hold. Every flow
+   * that debits a user's wallet calls this before posting, with the wallet's
+   * currency. Dispute holds are already out of the balance (see
+   * holdForDispute).
    */
-  async checkHeldFunds(userId: string, amount: Decimal): Promise<void> {
+  async checkHeldFunds(
+    userId: string,
+    amount: Decimal,
+    currency: string = 'NGN',
+  ): Promise<void> {
     const heldFunds = await this.prisma.transaction.aggregate({
       where: {
         senderId: userId,
+        currency,
         isFlagged: true,
         status: 'HELD',
       },
@@ -237,16 +378,20 @@ export class HoldsService {
 
     // Get available balance
     const balance = await this.prisma.balance.findUnique({
-      where: { userId_currency: { userId, currency: 'NGN' } },
+      where: { userId_currency: { userId, currency } },
     });
 
     const available = new Decimal(balance?.amount || 0).minus(totalHeld);
 
     if (available.lessThan(amount)) {
+      const format = (value: Decimal) =>
+        currency === 'NGN'
+          ? `₦${value.toFixed(2)}`
+          : `${value.toString()} ${currency}`;
       throw new BadRequestException(
         `Insufficient available balance. ` +
-          `₦${totalHeld.toFixed(2)} is currently held. ` +
-          `Available: ₦${available.toFixed(2)}`,
+          `${format(totalHeld)} is currently held. ` +
+          `Available: ${format(available)}`,
       );
     }
   }
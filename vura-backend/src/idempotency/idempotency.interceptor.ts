@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable, of, from, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IdempotencyService } from './idempotency.service';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honours the `Idempotency-Key` header on authenticated POSTs: the first
+ * response is stored and replayed for retries with the same key and body.
+ * Requests without the header are processed as before.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private idempotency: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request & { user?: { userId: string } }>();
+    const res = http.getResponse<Response>();
+
+    const key = req.header('idempotency-key')?.trim();
+    if (!key || !req.user?.userId) {
+      return next.handle();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const claim = await this.idempotency.begin(
+      req.user.userId,
+      key,
+      req.method,
+      req.originalUrl.split('?')[0],
+      req.body,
+    );
+
+    if (claim.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return of(claim.response);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (response: unknown) => {
+        await this.idempotency.complete(claim.recordId, response);
+        return response;
+      }),
+      catchError((err: unknown) =>
+        from(this.idempotency.release(claim.recordId)).pipe(
+          mergeMap(() => throwError(() => err)),
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  providers: [IdempotencyService, IdempotencyInterceptor, PrismaService],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
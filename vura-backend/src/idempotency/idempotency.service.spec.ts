@@ -0,0 +1,188 @@
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import type { IdempotencyRecord } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { IdempotencyService } from './idempotency.service';
+
+const USER = 'user-1';
+const KEY = 'key-1';
+const PATH = '/transactions/send';
+const BODY = { recipient: '@ada', amount: 5000, pin: '1234' };
+
+// The fields a stale claim is taken over on
+interface ClaimWhere {
+  id: string;
+  status: string;
+  createdAt: Date;
+}
+
+/**
+ * The database is a stub holding at most one record in `stored`; create
+ * fails with a unique violation while it exists, and updateMany only
+ * applies while the record matches its conditions.
+ */
+describe('IdempotencyService', () => {
+  let stored: IdempotencyRecord | null;
+  let prisma: {
+    idempotencyRecord: {
+      findUnique: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let idempotency: IdempotencyService;
+
+  const begin = (body: object = BODY) =>
+    idempotency.begin(USER, KEY, 'POST', PATH, body);
+  const claimed = async () => {
+    const claim = await begin();
+    if (claim.replay) throw new Error('Expected a fresh claim');
+    return claim.recordId;
+  };
+
+  beforeEach(() => {
+    stored = null;
+    prisma = {
+      idempotencyRecord: {
+        findUnique: jest.fn(() => Promise.resolve(stored && { ...stored })),
+        create: jest.fn(({ data }: { data: Partial<IdempotencyRecord> }) => {
+          if (stored) {
+            return Promise.reject(
+              Object.assign(new Error('Unique constraint failed'), {
+                code: 'P2002',
+              }),
+            );
+          }
+          stored = {
+            id: 'record-1',
+            status: 'in_progress',
+            responseBody: null,
+            createdAt: new Date(),
+            ...data,
+          } as IdempotencyRecord;
+          return Promise.resolve(stored);
+        }),
+        update: jest.fn(({ data }: { data: Partial<IdempotencyRecord> }) => {
+          stored = { ...stored!, ...data };
+          return Promise.resolve(stored);
+        }),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: ClaimWhere;
+            data: Partial<IdempotencyRecord>;
+          }) => {
+            const matches =
+              !!stored &&
+              stored.id === where.id &&
+              stored.status === where.status &&
+              stored.createdAt.getTime() === where.createdAt.getTime();
+            if (matches) stored = { ...stored!, ...data };
+            return Promise.resolve({ count: matches ? 1 : 0 });
+          },
+        ),
+        deleteMany: jest.fn(() => {
+          stored = null;
+          return Promise.resolve({ count: 1 });
+        }),
+      },
+    };
+    idempotency = new IdempotencyService(prisma as unknown as PrismaService);
+  });
+
+  it('replays the stored response of a completed request', async () => {
+    const recordId = await claimed();
+    await idempotency.complete(recordId, { success: true, reference: 'TXN-1' });
+
+    await expect(begin()).resolves.toEqual({
+      replay: true,
+      response: { success: true, reference: 'TXN-1' },
+    });
+  });
+
+  it('rejects the key reused with a different body', async () => {
+    await idempotency.complete(await claimed(), { success: true });
+
+    await expect(begin({ ...BODY, amount: 6000 })).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('matches a retry regardless of key order and secret fields', async () => {
+    await idempotency.complete(await claimed(), { success: true });
+
+    await expect(
+      begin({ pin: '9999', amount: 5000, recipient: '@ada' }),
+    ).resolves.toMatchObject({ replay: true });
+  });
+
+  it('keeps secret fields out of the stored hash', async () => {
+    await claimed();
+    const withPin = stored!.requestHash;
+    stored = null;
+
+    await begin({ recipient: '@ada', amount: 5000 });
+
+    expect(stored!.requestHash).toBe(withPin);
+  });
+
+  it('refuses a retry while the first request is still running', async () => {
+    await claimed();
+
+    await expect(begin()).rejects.toThrow(
+      new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      ),
+    );
+  });
+
+  it('refuses the second of two first requests racing to claim the key', async () => {
+    prisma.idempotencyRecord.findUnique.mockResolvedValue(null);
+    await claimed();
+
+    await expect(begin()).rejects.toThrow(ConflictException);
+  });
+
+  it('takes over a claim left in progress past the lock timeout', async () => {
+    await claimed();
+    stored = { ...stored!, createdAt: new Date(Date.now() - 3 * 60_000) };
+
+    await expect(begin()).resolves.toEqual({
+      replay: false,
+      recordId: 'record-1',
+    });
+    // The retry now holds the claim
+    await expect(begin()).rejects.toThrow(ConflictException);
+  });
+
+  it('lets only one retry take over a stale claim', async () => {
+    await claimed();
+    stored = { ...stored!, createdAt: new Date(Date.now() - 3 * 60_000) };
+
+    const results = await Promise.allSettled([begin(), begin()]);
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('starts over once the record has expired', async () => {
+    await idempotency.complete(await claimed(), { success: true });
+    stored = { ...stored!, expiresAt: new Date(Date.now() - 1000) };
+
+    await expect(begin({ ...BODY, amount: 6000 })).resolves.toMatchObject({
+      replay: false,
+    });
+    expect(stored).toMatchObject({ status: 'in_progress' });
+  });
+
+  it('frees the key after a failed request', async () => {
+    await idempotency.release(await claimed());
+
+    await expect(begin()).resolves.toMatchObject({ replay: false });
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  Injectable,
+  ConflictException,
+  UnprocessableEntityException,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import * as crypto from 'crypto';
+
+// Left out of the stored request hash: a short PIN is trivially recovered from its SHA-256
+const SECRET_FIELDS = new Set(['pin', 'newPin', 'otp', 'password']);
+
+export type IdempotencyBegin =
+  | { replay: false; recordId: string }
+  | { replay: true; response: unknown };
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly TTL_HOURS = 24;
+  // A claim still in progress after this long belongs to a request that died
+  private readonly LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Claim an Idempotency-Key for this user. Returns the stored response when the
+   * same request was already completed; rejects a reused key with a different
+   * request, or one whose first request is still running. A claim left in
+   * progress past the lock timeout is taken over, so a crashed request does
+   * not block the key until it expires.
+   */
+  async begin(
+    userId: string,
+    key: string,
+    method: string,
+    path: string,
+    body: unknown,
+  ): Promise<IdempotencyBegin> {
+    const requestHash = this.fingerprint(method, path, body);
+
+    const existing = await this.prisma.idempotencyRecord.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (existing && existing.expiresAt < new Date()) {
+      await this.prisma.idempotencyRecord.deleteMany({
+        where: { id: existing.id },
+      });
+    } else if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new UnprocessableEntityException(
+          'Idempotency-Key was already used for a different request',
+        );
+      }
+      if (existing.status === 'completed') {
+        return { replay: true, response: existing.responseBody };
+      }
+      if (existing.createdAt.getTime() < Date.now() - this.LOCK_TIMEOUT_MS) {
+        // Only one retry can move the claim's createdAt on
+        const { count } = await this.prisma.idempotencyRecord.updateMany({
+          where: {
+            id: existing.id,
+            status: 'in_progress',
+            createdAt: existing.createdAt,
+          },
+          data: { createdAt: new Date() },
+        });
+        if (count === 1) {
+          this.logger.warn(
+            `Took over stale idempotency claim ${existing.id} for user ${userId}`,
+          );
+          return { replay: false, recordId: existing.id };
+        }
+      }
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    try {
+      const record = await this.prisma.idempotencyRecord.create({
+        data: {
+          userId,
+          key,
+          method,
+          path,
+          requestHash,
+          expiresAt: new Date(Date.now() + this.TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+      return { replay: false, recordId: record.id };
+    } catch (e) {
+      // A concurrent retry claimed the key between our read and insert
+      if ((e as { code?: string })?.code !== 'P2002') throw e;
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+  }
+
+  async complete(recordId: string, response: unknown) {
+    try {
+      await this.prisma.idempotencyRecord.update({
+        where: { id: recordId },
+        data: {
+          status: 'completed',
+          responseBody: (response ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        },
+      });
+    } catch (e) {
+      // The money already moved; never turn a success into an error here
+      this.logger.error(
+        `Failed to store idempotent response ${recordId}: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Drop the claim after a failed request so the client can retry with the same key.
+   */
+  async release(recordId: string) {
+    await this.prisma.idempotencyRecord.deleteMany({
+      where: { id: recordId, status: 'in_progress' },
+    });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpired() {
+    const { count } = await this.prisma.idempotencyRecord.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired idempotency records`);
+    }
+  }
+
+  private fingerprint(method: string, path: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method} ${path} ${this.stableStringify(body ?? {})}`)
+      .digest('hex');
+  }
+
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((v) => this.stableStringify(v)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .filter((k) => !SECRET_FIELDS.has(k))
+        .sort()
+        .map(
+          (k) =>
+            `${JSON.stringify(k)}:${this.stableStringify((value as Record<string, unknown>)[k])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
@@ -0,0 +1,199 @@
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from './ledger.service';
+import Decimal from 'decimal.js';
+
+/**
+ * Fires parallel debits at one wallet against a real Postgres.
+ * Run with TEST_DATABASE_URL pointing at a disposable, migrated database:
+ *   TEST_DATABASE_URL=postgresql://... npx jest ledger.concurrency
+ */
+const describeDb = process.env.TEST_DATABASE_URL ? describe : describe.skip;
+
+// Isolated currency so the suite never touches real NGN wallets or float
+const CUR = 'TST';
+// Parallel transactions queue for the small default connection pool
+const TX_OPTIONS = { maxWait: 30000, timeout: 30000 };
+
+describeDb('LedgerService concurrency', () => {
+  let prisma: PrismaService;
+  let ledger: LedgerService;
+  const run = Date.now().toString(36);
+  const userIds: string[] = [];
+
+  const createUser = async (suffix: string) => {
+    const user = await prisma.user.create({
+      data: {
+        vuraTag: `ledgertest_${run}_${suffix}`.slice(0, 40),
+        phoneEncrypted: 'test',
+        hashedPin: 'test',
+      },
+    });
+    userIds.push(user.id);
+    return user.id;
+  };
+
+  const fund = (userId: string, amount: number) =>
+    prisma.$transaction(
+      (tx) =>
+        ledger.transfer(tx, {
+          reference: `TEST-FUND-${run}-${userId}`,
+          type: 'deposit',
+          currency: CUR,
+          from: LedgerService.external('test', CUR),
+          to: LedgerService.user(userId, CUR),
+          amount,
+        }),
+      TX_OPTIONS,
+    );
+
+  const balanceOf = async (userId: string) => {
+    const row = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency: CUR } },
+    });
+    return new Decimal(row?.amount?.toString() ?? '0');
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+    prisma = new PrismaService();
+    await prisma.$connect();
+    ledger = new LedgerService(prisma);
+  });
+
+  afterAll(async () => {
+    const codes = userIds.map((id) => LedgerService.user(id, CUR));
+    const journals = await prisma.ledgerJournal.findMany({
+      where: { entries: { some: { account: { code: { in: codes } } } } },
+      select: { id: true },
+    });
+    const journalIds = journals.map((j) => j.id);
+    await prisma.ledgerEntry.deleteMany({
+      where: { journalId: { in: journalIds } },
+    });
+    await prisma.ledgerJournal.deleteMany({
+      where: { id: { in: journalIds } },
+    });
+    await prisma.ledgerAccount.deleteMany({
+      where: {
+        code: {
+          in: [
+            ...codes,
+            LedgerService.external('test', CUR),
+            LedgerService.fees(CUR),
+          ],
+        },
+      },
+    });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    await prisma.$disconnect();
+  });
+
+  it('never lets parallel debits overdraw a wallet', async () => {
+    const payer = await createUser('payer');
+    const merchant = await createUser('merchant');
+    await fund(payer, 1000);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, (_, i) =>
+        prisma.$transaction(
+          (tx) =>
+            ledger.transfer(tx, {
+              reference: `TEST-DEBIT-${run}-${i}`,
+              type: 'transfer',
+              currency: CUR,
+              from: LedgerService.user(payer, CUR),
+              to: LedgerService.user(merchant, CUR),
+              amount: 100,
+            }),
+          TX_OPTIONS,
+        ),
+      ),
+    );
+
+    const succeeded = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter(
+      (r): r is PromiseRejectedResult => r.status === 'rejected',
+    );
+
+    expect(succeeded).toHaveLength(10);
+    rejected.forEach((r) =>
+      expect((r.reason as Error).message).toBe('Insufficient balance'),
+    );
+    expect((await balanceOf(payer)).toNumber()).toBe(0);
+    expect((await balanceOf(merchant)).toNumber()).toBe(1000);
+    expect(
+      (
+        await ledger.getAccountBalance(LedgerService.user(payer, CUR))
+      ).toNumber(),
+    ).toBe(0);
+  });
+
+  it('never goes negative when multi-leg debits with fees race', async () => {
+    const payer = await createUser('feepayer');
+    await fund(payer, 500);
+
+    await Promise.allSettled(
+      Array.from({ length: 20 }, (_, i) =>
+        prisma.$transaction(
+          (tx) =>
+            ledger.post(tx, {
+              reference: `TEST-BILL-${run}-${i}`,
+              type: 'bill_payment',
+              currency: CUR,
+              legs: [
+                {
+                  account: LedgerService.user(payer, CUR),
+                  direction: 'debit',
+                  amount: 110,
+                },
+                {
+                  account: LedgerService.external('test', CUR),
+                  direction: 'credit',
+                  amount: 100,
+                },
+                {
+                  account: LedgerService.fees(CUR),
+                  direction: 'credit',
+                  amount: 10,
+                },
+              ],
+            }),
+          TX_OPTIONS,
+        ),
+      ),
+    );
+
+    const balance = await balanceOf(payer);
+    expect(balance.isNegative()).toBe(false);
+    expect(balance.toNumber()).toBe(60);
+  });
+
+  it('does not deadlock on opposing transfers between two wallets', async () => {
+    const a = await createUser('a');
+    const b = await createUser('b');
+    await fund(a, 1000);
+    await fund(b, 1000);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 20 }, (_, i) => {
+        const [from, to] = i % 2 === 0 ? [a, b] : [b, a];
+        return prisma.$transaction(
+          (tx) =>
+            ledger.transfer(tx, {
+              reference: `TEST-SWAP-${run}-${i}`,
+              type: 'transfer',
+              currency: CUR,
+              from: LedgerService.user(from, CUR),
+              to: LedgerService.user(to, CUR),
+              amount: 50,
+            }),
+          TX_OPTIONS,
+        );
+      }),
+    );
+
+    expect(results.every((r) => r.status === 'fulfilled')).toBe(true);
+    const total = (await balanceOf(a)).plus(await balanceOf(b));
+    expect(total.toNumber()).toBe(2000);
+  });
+});
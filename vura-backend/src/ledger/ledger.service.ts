@@ -0,0 +1,505 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import Decimal from 'decimal.js';
+
+export type LedgerDirection = 'debit' | 'credit';
+
+// Journal types that undo an earlier posting and are never reversed themselves
+const REVERSAL_TYPES = ['refund', 'reversal'];
+
+export interface LedgerLeg {
+  account: string; // Account code, see LedgerService.user()/float()/fees()/suspense()/treasury()/external()
+  direction: LedgerDirection;
+  amount: Decimal | number | string;
+}
+
+export interface LedgerPosting {
+  reference: string;
+  type: string;
+  currency?: string;
+  description?: string;
+  metadata?: Record<string, any>;
+  legs: LedgerLeg[];
+}
+
+export interface LedgerTransfer {
+  reference: string;
+  type: string;
+  from: string;
+  to: string;
+  amount: Decimal | number | string;
+  currency?: string;
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ProjectedBalance {
+  before: Decimal;
+  after: Decimal;
+}
+
+export interface LedgerPostingResult {
+  journalId: string;
+  // Before/after snapshots of every projected account (user wallets and float) touched
+  balances: Record<string, ProjectedBalance>;
+}
+
+/**
+ * Double-entry ledger.
+ *
+ * Every money movement is a journal of debit/credit legs that must balance.
+ * Account balance = credits - debits, so user wallets and the float carry
+ * positive balances while EXTERNAL accounts (money that came from / went to
+ * providers) carry the negative counterpart. Balance, BusinessBalance and
+ * Card.balance are projections updated in the same database transaction as
+ * the posting, and a posting that would overdraw any of them is rejected.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  static user(userId: string, currency = 'NGN'): string {
+    return `USER:${userId}:${currency}`;
+  }
+
+  static float(currency = 'NGN'): string {
+    return `FLOAT:${currency}`;
+  }
+
+  static fees(currency = 'NGN'): string {
+    return `FEES:${currency}`;
+  }
+
+  static suspense(currency = 'NGN'): string {
+    return `SUSPENSE:${currency}`;
+  }
+
+  /**
+   * The business side of NGN ↔ USDT swaps. Not projected anywhere: the
+   * balance per currency is the position finance has to cover.
+   */
+  static treasury(currency: string): string {
+    return `TREASURY:${currency}`;
+  }
+
+  static card(cardId: string, currency = 'NGN'): string {
+    return `CARD:${cardId}:${currency}`;
+  }
+
+  static external(provider: string, currency = 'NGN'): string {
+    return `EXTERNAL:${provider}:${currency}`;
+  }
+
+  /**
+   * Post a balanced journal inside the caller's transaction and update the
+   * Balance / BusinessBalance projections for any wallet or float legs.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    posting: LedgerPosting,
+  ): Promise<LedgerPostingResult> {
+    const currency = posting.currency || 'NGN';
+    const legs = posting.legs
+      .map((leg) => ({ ...leg, amount: new Decimal(leg.amount) }))
+      .filter((leg) => !leg.amount.isZero());
+
+    if (legs.length < 2) {
+      throw new BadRequestException('Ledger posting needs at least two legs');
+    }
+
+    let debits = new Decimal(0);
+    let credits = new Decimal(0);
+    for (const leg of legs) {
+      if (leg.amount.isNegative()) {
+        throw new BadRequestException('Ledger leg amounts must be positive');
+      }
+      if (this.parseCode(leg.account).currency !== currency) {
+        throw new BadRequestException(
+          `Ledger account ${leg.account} is not in ${currency}`,
+        );
+      }
+      if (leg.direction === 'debit') debits = debits.plus(leg.amount);
+      else credits = credits.plus(leg.amount);
+    }
+
+    if (!debits.equals(credits)) {
+      throw new BadRequestException(
+        `Unbalanced ledger posting ${posting.reference}: debits ${debits.toString()} != credits ${credits.toString()}`,
+      );
+    }
+
+    const journal = await tx.ledgerJournal.create({
+      data: {
+        reference: posting.reference,
+        type: posting.type,
+        currency,
+        description: posting.description,
+        metadata: posting.metadata || {},
+      },
+    });
+
+    // Net movement per account (credit positive), so each projection is written once
+    const net = new Map<string, Decimal>();
+
+    for (const leg of legs) {
+      const account = await this.getOrCreateAccount(tx, leg.account);
+
+      await tx.ledgerEntry.create({
+        data: {
+          journalId: journal.id,
+          accountId: account.id,
+          direction: leg.direction,
+          amount: leg.amount.toString(),
+        },
+      });
+
+      const signed =
+        leg.direction === 'credit' ? leg.amount : leg.amount.negated();
+      net.set(
+        leg.account,
+        (net.get(leg.account) || new Decimal(0)).plus(signed),
+      );
+    }
+
+    const balances: Record<string, ProjectedBalance> = {};
+    // Lock projection rows in a fixed order so opposing transfers cannot deadlock
+    const codes = [...net.keys()].sort();
+    for (const code of codes) {
+      const delta = net.get(code)!;
+      const projected = await this.applyProjection(tx, code, delta);
+      if (projected) balances[code] = projected;
+    }
+
+    return { journalId: journal.id, balances };
+  }
+
+  /**
+   * Two-leg convenience posting: debit `from`, credit `to`.
+   */
+  async transfer(
+    tx: Prisma.TransactionClient,
+    transfer: LedgerTransfer,
+  ): Promise<LedgerPostingResult> {
+    return this.post(tx, {
+      reference: transfer.reference,
+      type: transfer.type,
+      currency: transfer.currency,
+      description: transfer.description,
+      metadata: transfer.metadata,
+      legs: [
+        { account: transfer.from, direction: 'debit', amount: transfer.amount },
+        { account: transfer.to, direction: 'credit', amount: transfer.amount },
+      ],
+    });
+  }
+
+  /**
+   * Post the exact opposite of every journal recorded under `reference`.
+   * Used for refunds of failed purchases/transfers so no leg is forgotten.
+   */
+  async reverse(
+    tx: Prisma.TransactionClient,
+    reference: string,
+    type = 'reversal',
+    description?: string,
+  ): Promise<LedgerPostingResult | null> {
+    const journals = await tx.ledgerJournal.findMany({
+      where: { reference, type: { notIn: [...REVERSAL_TYPES, type] } },
+      include: { entries: { include: { account: true } } },
+    });
+
+    if (journals.length === 0) {
+      this.logger.warn(`No ledger journal found to reverse for ${reference}`);
+      return null;
+    }
+
+    const legs: LedgerLeg[] = journals.flatMap((journal) =>
+      journal.entries.map((entry) => ({
+        account: entry.account.code,
+        direction: (entry.direction === 'debit'
+          ? 'credit'
+          : 'debit') as LedgerDirection,
+        amount: entry.amount.toString(),
+      })),
+    );
+
+    return this.post(tx, {
+      reference,
+      type,
+      currency: journals[0].currency,
+      description: description || `Reversal of ${reference}`,
+      metadata: { reversedJournalIds: journals.map((j) => j.id) },
+      legs,
+    });
+  }
+
+  /**
+   * Ledger-derived balance of a single account (credits - debits).
+   */
+  async getAccountBalance(code: string): Promise<Decimal> {
+    const account = await this.prisma.ledgerAccount.findUnique({
+      where: { code },
+    });
+    if (!account) return new Decimal(0);
+
+    const grouped = await this.prisma.ledgerEntry.groupBy({
+      by: ['direction'],
+      where: { accountId: account.id },
+      _sum: { amount: true },
+    });
+
+    return this.netFromGroups(grouped);
+  }
+
+  /**
+   * Compare every projected balance against the ledger and check that each
+   * currency's trial balance sums to zero.
+   */
+  async reconcile() {
+    const sums = await this.prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'direction'],
+      _sum: { amount: true },
+    });
+    const accounts = await this.prisma.ledgerAccount.findMany();
+
+    const ledgerBalances = new Map<string, Decimal>();
+    for (const row of sums) {
+      const amount = new Decimal(row._sum.amount?.toString() || '0');
+      const signed = row.direction === 'credit' ? amount : amount.negated();
+      ledgerBalances.set(
+        row.accountId,
+        (ledgerBalances.get(row.accountId) || new Decimal(0)).plus(signed),
+      );
+    }
+
+    const trialBalance: Record<string, string> = {};
+    const ledgerByCode = new Map<string, Decimal>();
+    for (const account of accounts) {
+      const balance = ledgerBalances.get(account.id) || new Decimal(0);
+      ledgerByCode.set(account.code, balance);
+      trialBalance[account.currency] = new Decimal(
+        trialBalance[account.currency] || 0,
+      )
+        .plus(balance)
+        .toString();
+    }
+
+    const mismatches: Array<{
+      account: string;
+      ledger: string;
+      projected: string;
+    }> = [];
+
+    const userBalances = await this.prisma.balance.findMany();
+    for (const row of userBalances) {
+      const code = LedgerService.user(row.userId, row.currency);
+      const ledger = ledgerByCode.get(code) || new Decimal(0);
+      if (!ledger.equals(row.amount.toString())) {
+        mismatches.push({
+          account: code,
+          ledger: ledger.toString(),
+          projected: row.amount.toString(),
+        });
+      }
+    }
+
+    const cards = await this.prisma.card.findMany({
+      where: { status: { not: 'deleted' } },
+    });
+    for (const row of cards) {
+      const code = LedgerService.card(row.id, row.currency);
+      const ledger = ledgerByCode.get(code) || new Decimal(0);
+      if (!ledger.equals(row.balance.toString())) {
+        mismatches.push({
+          account: code,
+          ledger: ledger.toString(),
+          projected: row.balance.toString(),
+        });
+      }
+    }
+
+    const floats = await this.prisma.businessBalance.findMany();
+    for (const row of floats) {
+      const code = LedgerService.float(row.currency);
+      const ledger = ledgerByCode.get(code) || new Decimal(0);
+      if (!ledger.equals(row.amount.toString())) {
+        mismatches.push({
+          account: code,
+          ledger: ledger.toString(),
+          projected: row.amount.toString(),
+        });
+      }
+    }
+
+    const balanced = Object.values(trialBalance).every((v) =>
+      new Decimal(v).isZero(),
+    );
+
+    return {
+      reconciled: balanced && mismatches.length === 0,
+      trialBalance,
+      mismatches,
+      accountsChecked: accounts.length,
+    };
+  }
+
+  private async getOrCreateAccount(tx: Prisma.TransactionClient, code: string) {
+    const { type, userId, currency } = this.parseCode(code);
+    return tx.ledgerAccount.upsert({
+      where: { code },
+      update: {},
+      create: { code, type, userId, currency },
+    });
+  }
+
+  private parseCode(code: string): {
+    type: string;
+    userId?: string;
+    cardId?: string;
+    currency: string;
+  } {
+    const parts = code.split(':');
+    const currency = parts[parts.length - 1];
+
+    switch (parts[0]) {
+      case 'USER':
+        return { type: 'user_wallet', userId: parts[1], currency };
+      case 'FLOAT':
+        return { type: 'business_float', currency };
+      case 'FEES':
+        return { type: 'fees', currency };
+      case 'SUSPENSE':
+        return { type: 'suspense', currency };
+      case 'TREASURY':
+        return { type: 'treasury', currency };
+      case 'CARD':
+        return { type: 'card', cardId: parts[1], currency };
+      case 'EXTERNAL':
+        return { type: 'external', currency };
+      default:
+        throw new BadRequestException(`Unknown ledger account ${code}`);
+    }
+  }
+
+  /**
+   * Credits are applied with an atomic increment. Debits use a conditional
+   * decrement (`amount >= debit`) so the row lock taken by the UPDATE is what
+   * enforces sufficient funds: concurrent debits serialise on the row and the
+   * loser sees the post-commit amount and matches zero rows.
+   */
+  private async applyProjection(
+    tx: Prisma.TransactionClient,
+    code: string,
+    delta: Decimal,
+  ): Promise<ProjectedBalance | null> {
+    const { type, userId, cardId, currency } = this.parseCode(code);
+    const debit = delta.negated();
+
+    if (type === 'user_wallet' && userId) {
+      const where = { userId_currency: { userId, currency } };
+      if (delta.isNegative()) {
+        const { count } = await tx.balance.updateMany({
+          where: { userId, currency, amount: { gte: debit.toString() } },
+          data: {
+            amount: { decrement: debit.toString() },
+            lastUpdatedBy: 'ledger',
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Insufficient balance');
+        }
+        const row = await tx.balance.findUniqueOrThrow({ where });
+        return this.snapshot(row.amount, delta);
+      }
+      const row = await tx.balance.upsert({
+        where,
+        update: {
+          amount: { increment: delta.toString() },
+          lastUpdatedBy: 'ledger',
+        },
+        create: {
+          userId,
+          currency,
+          amount: delta.toString(),
+          lastUpdatedBy: 'ledger',
+        },
+      });
+      return this.snapshot(row.amount, delta);
+    }
+
+    if (type === 'business_float') {
+      if (delta.isNegative()) {
+        const { count } = await tx.businessBalance.updateMany({
+          where: { currency, amount: { gte: debit.toString() } },
+          data: {
+            amount: { decrement: debit.toString() },
+            lastUpdatedBy: 'ledger',
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Insufficient business balance');
+        }
+        const row = await tx.businessBalance.findUniqueOrThrow({
+          where: { currency },
+        });
+        return this.snapshot(row.amount, delta);
+      }
+      const row = await tx.businessBalance.upsert({
+        where: { currency },
+        update: {
+          amount: { increment: delta.toString() },
+          lastUpdatedBy: 'ledger',
+        },
+        create: {
+          currency,
+          amount: delta.toString(),
+          lastUpdatedBy: 'ledger',
+        },
+      });
+      return this.snapshot(row.amount, delta);
+    }
+
+    if (type === 'card' && cardId) {
+      const { count } = await tx.card.updateMany({
+        where: delta.isNegative()
+          ? { id: cardId, currency, balance: { gte: debit.toString() } }
+          : { id: cardId, currency },
+        data: {
+          balance: { increment: delta.toString() },
+          updatedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          delta.isNegative() ? 'Insufficient card balance' : 'Card not found',
+        );
+      }
+      const row = await tx.card.findUniqueOrThrow({ where: { id: cardId } });
+      return this.snapshot(row.balance, delta);
+    }
+
+    return null;
+  }
+
+  private snapshot(amount: Prisma.Decimal, delta: Decimal): ProjectedBalance {
+    const after = new Decimal(amount.toString());
+    return { before: after.minus(delta), after };
+  }
+
+  private netFromGroups(
+    groups: Array<{
+      direction: string;
+      _sum: { amount: Prisma.Decimal | null };
+    }>,
+  ): Decimal {
+    return groups.reduce((total, group) => {
+      const amount = new Decimal(group._sum.amount?.toString() || '0');
+      return group.direction === 'credit'
+        ? total.plus(amount)
+        : total.minus(amount);
+    }, new Decimal(0));
+  }
+}
@@ -55,9 +55,11 @@ async function bootstrap() {
       'Authorization',
       'X-Requested-With',
       'X-Device-Fingerprint',
+      'Idempotency-Key',
       // Paystack webhook headers
       'x-paystack-signature',
     ],
+    exposedHeaders: ['Idempotent-Replayed'],
   });
 
   // Security: Global input validation
@@ -0,0 +1,20 @@
+export const MERCHANT_WEBHOOK_EVENTS = [
+  'qr_payment.completed',
+  'payment_request.paid',
+  'payment_link.paid',
+  'refund.created',
+  'dispute.opened',
+  'dispute.resolved',
+] as const;
+export type MerchantWebhookEvent = (typeof MERCHANT_WEBHOOK_EVENTS)[number];
+
+/**
+ * Body of every webhook POST. `id` is the same on every retry and replay of
+ * one event, so receivers can use it to ignore duplicates.
+ */
+export interface MerchantWebhookPayload {
+  id: string;
+  type: MerchantWebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
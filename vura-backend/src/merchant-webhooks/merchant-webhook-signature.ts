@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'Vura-Signature';
+// Receivers should reject signatures older than this to stop replays
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`, signed with
+ * the endpoint's secret. Including the timestamp in the signed string means
+ * an old request cannot be re-sent with a fresh `t`.
+ */
+export function signWebhook(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * What a merchant's server does with the header. `body` must be the raw
+ * request body, not re-serialised JSON.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!header) return false;
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const received = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !received) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = signWebhook(secret, body, timestamp).split('v1=')[1];
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
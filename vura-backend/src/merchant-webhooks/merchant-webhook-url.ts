@@ -0,0 +1,109 @@
+import { lookup, LookupAddress } from 'dns';
+import { lookup as lookupAsync } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+/**
+ * Merchants choose where webhooks go, so the URL must not reach into our
+ * own network: loopback, private, link-local (cloud metadata lives at
+ * 169.254.169.254) and other reserved ranges are refused. Hostnames are
+ * judged by every address they resolve to.
+ */
+const BLOCKED = new BlockList();
+
+// BlockList also checks IPv4-mapped IPv6 addresses against these
+
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3], // multicast, reserved and broadcast
+];
+const BLOCKED_IPV6: [string, number][] = [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7], // unique local
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+for (const [network, prefix] of BLOCKED_IPV4) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of BLOCKED_IPV6) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export const PRIVATE_TARGET_MESSAGE =
+  'Webhook URL must point to a public address';
+
+export class WebhookTargetError extends Error {}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Local receivers are allowed while developing, never in production */
+export function privateTargetsAllowed(): boolean {
+  return (
+    process.env.NODE_ENV !== 'production' &&
+    process.env.MERCHANT_WEBHOOKS_ALLOW_PRIVATE === 'true'
+  );
+}
+
+/** Throws WebhookTargetError unless the host resolves to public addresses only */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (privateTargetsAllowed()) return;
+
+  // URL keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      const resolved = await lookupAsync(host, { all: true, verbatim: true });
+      addresses = resolved.map((a) => a.address);
+    } catch {
+      throw new WebhookTargetError(`Could not resolve ${host}`);
+    }
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new WebhookTargetError(PRIVATE_TARGET_MESSAGE);
+  }
+}
+
+/**
+ * A `lookup` for http.request that refuses private addresses. The check then
+ * applies to the address the request connects to, so a hostname that
+ * re-resolves to a private address after assertPublicHost passed (DNS
+ * rebinding) is still refused.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(
+    hostname,
+    { ...options, all: true },
+    (err: NodeJS.ErrnoException | null, addresses: LookupAddress[]) => {
+      if (err) return callback(err, '');
+      if (
+        addresses.length === 0 ||
+        !addresses.every((a) => isPublicAddress(a.address))
+      ) {
+        return callback(new WebhookTargetError(PRIVATE_TARGET_MESSAGE), '');
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+  );
+};
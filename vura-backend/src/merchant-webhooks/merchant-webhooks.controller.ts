@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+import type { EndpointInput } from './merchant-webhooks.service';
+import { MERCHANT_WEBHOOK_EVENTS } from './merchant-webhook-events';
+
+@Controller('merchant/webhooks')
+@UseGuards(AuthGuard)
+export class MerchantWebhooksController {
+  constructor(private webhooks: MerchantWebhooksService) {}
+
+  /**
+   * Registered endpoints plus the events they can subscribe to
+   */
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const endpoints = await this.webhooks.listEndpoints(req.user.userId);
+    return {
+      success: true,
+      data: { endpoints, events: MERCHANT_WEBHOOK_EVENTS },
+    };
+  }
+
+  /**
+   * Register an endpoint. The signing secret is only shown in this response.
+   */
+  @Post()
+  async create(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: EndpointInput,
+  ) {
+    const endpoint = await this.webhooks.createEndpoint(req.user.userId, body);
+    return {
+      success: true,
+      data: endpoint,
+    };
+  }
+
+  /**
+   * Delivery log, newest first. Filter by endpointId and status
+   * (pending, succeeded, failed).
+   */
+  @Get('deliveries')
+  async deliveries(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Query('endpointId') endpointId?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const deliveries = await this.webhooks.listDeliveries(req.user.userId, {
+      endpointId,
+      status,
+      limit: limit ? Number(limit) : undefined,
+    });
+    return {
+      success: true,
+      data: deliveries,
+    };
+  }
+
+  @Get('deliveries/:id')
+  async delivery(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const delivery = await this.webhooks.getDelivery(req.user.userId, id);
+    return {
+      success: true,
+      data: delivery,
+    };
+  }
+
+  @Post('deliveries/:id/replay')
+  async replay(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const delivery = await this.webhooks.replay(req.user.userId, id);
+    return {
+      success: true,
+      data: delivery,
+      message: 'Delivery queued for replay',
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+    @Body() body: EndpointInput,
+  ) {
+    const endpoint = await this.webhooks.updateEndpoint(
+      req.user.userId,
+      id,
+      body,
+    );
+    return {
+      success: true,
+      data: endpoint,
+    };
+  }
+
+  @Delete(':id')
+  async remove(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    await this.webhooks.deleteEndpoint(req.user.userId, id);
+    return {
+      success: true,
+      message: 'Webhook endpoint deleted',
+    };
+  }
+
+  /**
+   * Issue a new signing secret; the old one stops working immediately
+   */
+  @Post(':id/roll-secret')
+  async rollSecret(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const data = await this.webhooks.rollSecret(req.user.userId, id);
+    return {
+      success: true,
+      data,
+    };
+  }
+}
@@ -0,0 +1,411 @@
+import { BadRequestException } from '@nestjs/common';
+import { LookupAddress } from 'dns';
+import { lookup as lookupAsync } from 'dns/promises';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo, isIP } from 'net';
+import { PrismaService } from '../prisma.service';
+import { encryptToColumns } from '../utils/field-encryption';
+import {
+  DueDelivery,
+  MAX_ATTEMPTS,
+  MerchantWebhookDispatcher,
+} from './merchant-webhooks.dispatcher';
+import {
+  signWebhook,
+  verifyWebhookSignature,
+} from './merchant-webhook-signature';
+import {
+  isPublicAddress,
+  PRIVATE_TARGET_MESSAGE,
+  publicLookup,
+  WebhookTargetError,
+} from './merchant-webhook-url';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+
+// Real lookups unless a test says otherwise
+jest.mock('dns/promises', () => {
+  const actual =
+    jest.requireActual<typeof import('dns/promises')>('dns/promises');
+  return { ...actual, lookup: jest.fn(actual.lookup) };
+});
+
+/** Make the next hostname check see these addresses */
+const resolveOnce = (...addresses: string[]) =>
+  (lookupAsync as unknown as jest.Mock).mockResolvedValueOnce(
+    addresses.map((address) => ({ address, family: isIP(address) })),
+  );
+
+const SECRET = 'whsec_test_secret';
+const CREATED_AT = new Date('2026-04-05T10:00:00Z');
+
+// The fields the dispatcher writes to attempts and deliveries
+interface Written {
+  status?: string;
+  attempts?: number;
+  nextAttemptAt?: Date;
+  statusCode?: number | null;
+  error?: string | null;
+}
+
+interface Received {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/**
+ * Sends real HTTP requests to a receiver on localhost that checks
+ * signatures the way a merchant would. The database is replaced by a stub
+ * that records what the dispatcher writes.
+ */
+describe('MerchantWebhookDispatcher', () => {
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let respondWith: number[];
+  let prisma: {
+    merchantWebhookAttempt: { create: jest.Mock };
+    merchantWebhookDelivery: { update: jest.Mock };
+  };
+  let dispatcher: MerchantWebhookDispatcher;
+
+  const delivery = (overrides: Partial<DueDelivery> = {}): DueDelivery => {
+    const { ciphertext, iv } = encryptToColumns(SECRET);
+    const now = CREATED_AT;
+    return {
+      id: 'delivery-1',
+      endpointId: 'endpoint-1',
+      eventId: 'event-1',
+      eventType: 'qr_payment.completed',
+      payload: {
+        id: 'event-1',
+        type: 'qr_payment.completed',
+        createdAt: now.toISOString(),
+        data: { reference: 'QR-1', amount: '2500', currency: 'NGN' },
+      },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      lockedAt: now,
+      lastStatusCode: null,
+      lastError: null,
+      deliveredAt: null,
+      createdAt: now,
+      updatedAt: now,
+      endpoint: {
+        id: 'endpoint-1',
+        userId: 'merchant-1',
+        url,
+        description: null,
+        events: ['qr_payment.completed'],
+        secretCiphertext: ciphertext,
+        secretIv: iv,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      ...overrides,
+    };
+  };
+
+  const lastWrite = (mock: jest.Mock) =>
+    (mock.mock.lastCall as [{ data: Written }])[0].data;
+  const lastUpdate = () => lastWrite(prisma.merchantWebhookDelivery.update);
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_KEY = 'test-encryption-key-0123456789abcdef';
+    // The receiver is on loopback
+    process.env.MERCHANT_WEBHOOKS_ALLOW_PRIVATE = 'true';
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        const signed = verifyWebhookSignature(
+          SECRET,
+          body,
+          req.headers['vura-signature'] as string,
+        );
+        res.statusCode = signed ? (respondWith.shift() ?? 200) : 401;
+        res.end(signed ? 'ok' : 'bad signature');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    delete process.env.MERCHANT_WEBHOOKS_ALLOW_PRIVATE;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respondWith = [];
+    prisma = {
+      merchantWebhookAttempt: { create: jest.fn() },
+      merchantWebhookDelivery: { update: jest.fn() },
+    };
+    dispatcher = new MerchantWebhookDispatcher(
+      prisma as unknown as PrismaService,
+    );
+  });
+
+  it('sends a signed payload the receiver can verify', async () => {
+    const ok = await dispatcher.attempt(delivery());
+
+    expect(ok).toBe(true);
+    expect(received).toHaveLength(1);
+    expect(received[0].headers['vura-webhook-id']).toBe('event-1');
+    expect(received[0].headers['vura-event-type']).toBe('qr_payment.completed');
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      id: 'event-1',
+      data: { reference: 'QR-1' },
+    });
+    expect(lastUpdate()).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      lastStatusCode: 200,
+      lockedAt: null,
+    });
+    expect(lastWrite(prisma.merchantWebhookAttempt.create)).toMatchObject({
+      statusCode: 200,
+      error: null,
+    });
+  });
+
+  it('schedules a retry with backoff and succeeds on the next attempt', async () => {
+    respondWith = [500, 503];
+
+    const before = Date.now();
+    expect(await dispatcher.attempt(delivery())).toBe(false);
+    let update = lastUpdate();
+    expect(update).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastStatusCode: 500,
+    });
+    expect(update.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(
+      60 * 1000,
+    );
+
+    expect(await dispatcher.attempt(delivery({ attempts: 1 }))).toBe(false);
+    update = lastUpdate();
+    expect(update.attempts).toBe(2);
+    // Doubles each time
+    expect(update.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(
+      120 * 1000,
+    );
+
+    expect(await dispatcher.attempt(delivery({ attempts: 2 }))).toBe(true);
+    expect(lastUpdate()).toMatchObject({ status: 'succeeded', attempts: 3 });
+
+    // Every retry is the same event, freshly signed
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.body)).size).toBe(1);
+    expect(new Set(received.map((r) => r.headers['vura-webhook-id']))).toEqual(
+      new Set(['event-1']),
+    );
+    expect(prisma.merchantWebhookAttempt.create).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt', async () => {
+    respondWith = [500];
+
+    const ok = await dispatcher.attempt(
+      delivery({ attempts: MAX_ATTEMPTS - 1 }),
+    );
+
+    expect(ok).toBe(false);
+    expect(lastUpdate()).toMatchObject({
+      status: 'failed',
+      attempts: MAX_ATTEMPTS,
+    });
+  });
+
+  it('records an unreachable endpoint as a failed attempt', async () => {
+    const closed = delivery();
+    closed.endpoint.url = 'http://127.0.0.1:1/hooks';
+
+    expect(await dispatcher.attempt(closed)).toBe(false);
+    const logged = lastWrite(prisma.merchantWebhookAttempt.create);
+    expect(logged.statusCode).toBeNull();
+    expect(typeof logged.error).toBe('string');
+    expect(lastUpdate()).toMatchObject({ status: 'pending', attempts: 1 });
+  });
+
+  describe('without private targets allowed', () => {
+    beforeEach(() => {
+      delete process.env.MERCHANT_WEBHOOKS_ALLOW_PRIVATE;
+    });
+
+    afterEach(() => {
+      process.env.MERCHANT_WEBHOOKS_ALLOW_PRIVATE = 'true';
+    });
+
+    it('refuses the loopback receiver without connecting', async () => {
+      expect(await dispatcher.attempt(delivery())).toBe(false);
+
+      expect(received).toHaveLength(0);
+      expect(lastWrite(prisma.merchantWebhookAttempt.create)).toMatchObject({
+        statusCode: null,
+        error: PRIVATE_TARGET_MESSAGE,
+      });
+      expect(lastUpdate()).toMatchObject({ status: 'pending', attempts: 1 });
+    });
+
+    it.each([
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/hooks',
+      'http://192.168.1.10/hooks',
+      'http://[::1]/hooks',
+      'http://localhost/hooks',
+    ])('refuses %s', async (target) => {
+      const internal = delivery();
+      internal.endpoint.url = target;
+
+      expect(await dispatcher.attempt(internal)).toBe(false);
+      expect(lastWrite(prisma.merchantWebhookAttempt.create).error).toBe(
+        PRIVATE_TARGET_MESSAGE,
+      );
+    });
+
+    it('refuses a host that re-resolves to loopback after the check (DNS rebinding)', async () => {
+      const rebound = delivery();
+      rebound.endpoint.url = url.replace('127.0.0.1', 'localhost');
+      // Public when checked; the connection then resolves localhost for real
+      resolveOnce('93.184.216.34');
+
+      expect(await dispatcher.attempt(rebound)).toBe(false);
+
+      expect(received).toHaveLength(0);
+      expect(lastWrite(prisma.merchantWebhookAttempt.create).error).toBe(
+        PRIVATE_TARGET_MESSAGE,
+      );
+    });
+  });
+});
+
+describe('MerchantWebhooksService.createEndpoint', () => {
+  let prisma: {
+    merchantWebhookEndpoint: { count: jest.Mock; create: jest.Mock };
+  };
+  let service: MerchantWebhooksService;
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = 'test-encryption-key-0123456789abcdef';
+    prisma = {
+      merchantWebhookEndpoint: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockResolvedValue({ id: 'endpoint-1' }),
+      },
+    };
+    service = new MerchantWebhooksService(prisma as unknown as PrismaService);
+  });
+
+  it.each([
+    'https://127.0.0.1/hooks',
+    'https://169.254.169.254/latest/meta-data/',
+    'https://172.16.4.2/hooks',
+    'https://[::1]/hooks',
+    'https://[::ffff:127.0.0.1]/hooks',
+    'https://localhost/hooks',
+  ])('refuses %s', async (target) => {
+    await expect(
+      service.createEndpoint('merchant-1', {
+        url: target,
+        events: ['qr_payment.completed'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.merchantWebhookEndpoint.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a hostname that resolves to a private address', async () => {
+    resolveOnce('93.184.216.34', '10.0.0.7');
+
+    await expect(
+      service.createEndpoint('merchant-1', {
+        url: 'https://hooks.example.com/vura',
+        events: ['qr_payment.completed'],
+      }),
+    ).rejects.toThrow(PRIVATE_TARGET_MESSAGE);
+  });
+
+  it('accepts a hostname that resolves to public addresses', async () => {
+    resolveOnce('93.184.216.34');
+
+    await service.createEndpoint('merchant-1', {
+      url: 'https://hooks.example.com/vura',
+      events: ['qr_payment.completed'],
+    });
+
+    expect(prisma.merchantWebhookEndpoint.create).toHaveBeenCalled();
+  });
+});
+
+describe('webhook target addresses', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.31.255.255',
+    '192.168.0.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::1',
+    '::',
+    '::ffff:7f00:1',
+    'fd12:3456::1',
+    'fe80::1',
+  ])('treats %s as private', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['8.8.8.8', '93.184.216.34', '172.32.0.1', '2606:4700::1111'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it('fails the connection lookup for hosts that resolve privately', async () => {
+    const err = await new Promise<Error | null>((resolve) =>
+      publicLookup('localhost', {}, (e: Error | null) => resolve(e)),
+    );
+
+    expect(err).toBeInstanceOf(WebhookTargetError);
+  });
+
+  it('passes public addresses through in the shape asked for', async () => {
+    const addresses = await new Promise<LookupAddress[]>((resolve) =>
+      publicLookup('93.184.216.34', { all: true }, (_e, a) =>
+        resolve(a as LookupAddress[]),
+      ),
+    );
+
+    expect(addresses).toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ id: 'event-1' });
+
+  it('accepts a fresh signature over the exact body', () => {
+    expect(
+      verifyWebhookSignature(SECRET, body, signWebhook(SECRET, body)),
+    ).toBe(true);
+  });
+
+  it('rejects a changed body, the wrong secret or a missing header', () => {
+    const header = signWebhook(SECRET, body);
+    expect(verifyWebhookSignature(SECRET, `${body} `, header)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, undefined)).toBe(false);
+  });
+
+  it('rejects a signature outside the tolerance window', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const old = signWebhook(SECRET, body, now - 10 * 60);
+    expect(verifyWebhookSignature(SECRET, body, old, now)).toBe(false);
+  });
+});
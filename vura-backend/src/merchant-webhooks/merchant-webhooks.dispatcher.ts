@@ -0,0 +1,213 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type {
+  MerchantWebhookDelivery,
+  MerchantWebhookEndpoint,
+} from '@prisma/client';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { PrismaService } from '../prisma.service';
+import { decryptFromColumns } from '../utils/field-encryption';
+import { SIGNATURE_HEADER, signWebhook } from './merchant-webhook-signature';
+import {
+  assertPublicHost,
+  privateTargetsAllowed,
+  publicLookup,
+} from './merchant-webhook-url';
+
+const BATCH_SIZE = 50;
+const LOCK_TIMEOUT_MINUTES = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+// 1m, 2m, 4m, ... between attempts; after the last one the delivery fails
+// and only a replay from the dashboard sends it again
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+export const MAX_ATTEMPTS = 8;
+const RESPONSE_BODY_LIMIT = 1024;
+
+export type DueDelivery = MerchantWebhookDelivery & {
+  endpoint: MerchantWebhookEndpoint;
+};
+
+/**
+ * POSTs queued deliveries to merchant endpoints. Any 2xx is a success;
+ * anything else, including redirects and timeouts, is retried. Endpoints
+ * that resolve to private or reserved addresses are refused as failed
+ * attempts without connecting.
+ */
+@Injectable()
+export class MerchantWebhookDispatcher {
+  private readonly logger = new Logger(MerchantWebhookDispatcher.name);
+  private isRunning = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async dispatchDue() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const staleLock = new Date(
+        now.getTime() - LOCK_TIMEOUT_MINUTES * 60 * 1000,
+      );
+      const due = await this.prisma.merchantWebhookDelivery.findMany({
+        where: {
+          status: 'pending',
+          nextAttemptAt: { lte: now },
+          OR: [{ lockedAt: null }, { lockedAt: { lt: staleLock } }],
+          endpoint: { enabled: true },
+        },
+        include: { endpoint: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const delivery of due) {
+        const claimed = await this.prisma.merchantWebhookDelivery.updateMany({
+          where: {
+            id: delivery.id,
+            status: 'pending',
+            lockedAt: delivery.lockedAt,
+          },
+          data: { lockedAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        await this.attempt(delivery);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Merchant webhook dispatch failed: ${(err as Error).message}`,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Send one delivery, log the attempt and schedule the next one if it
+   * failed. Returns whether the endpoint accepted it.
+   */
+  async attempt(delivery: DueDelivery): Promise<boolean> {
+    const { endpoint } = delivery;
+    const body = JSON.stringify(delivery.payload);
+    const started = Date.now();
+    let statusCode: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const secret = decryptFromColumns(
+        endpoint.secretCiphertext,
+        endpoint.secretIv,
+      );
+      const url = new URL(endpoint.url);
+      await assertPublicHost(url.hostname);
+      const res = await this.post(url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Vura-Webhooks/1.0',
+        'Vura-Webhook-Id': delivery.eventId,
+        'Vura-Event-Type': delivery.eventType,
+        [SIGNATURE_HEADER]: signWebhook(secret, body),
+      });
+      statusCode = res.status;
+      responseBody = res.body;
+      if (res.status < 200 || res.status >= 300) {
+        error = `Endpoint responded with HTTP ${res.status}`;
+      }
+    } catch (err) {
+      error = (err as Error).message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    await this.prisma.merchantWebhookAttempt.create({
+      data: {
+        deliveryId: delivery.id,
+        statusCode,
+        responseBody,
+        error,
+        durationMs: Date.now() - started,
+      },
+    });
+
+    if (!error) {
+      await this.prisma.merchantWebhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'succeeded',
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: null,
+          deliveredAt: new Date(),
+          lockedAt: null,
+        },
+      });
+      return true;
+    }
+
+    const failed = attempts >= MAX_ATTEMPTS;
+    const delaySeconds = Math.min(
+      RETRY_BASE_SECONDS * 2 ** (attempts - 1),
+      RETRY_MAX_SECONDS,
+    );
+    await this.prisma.merchantWebhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + delaySeconds * 1000),
+        lockedAt: null,
+      },
+    });
+
+    if (failed) {
+      this.logger.warn(
+        `Webhook ${delivery.id} to ${endpoint.url} failed after ${attempts} attempts: ${error}`,
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Plain http(s).request rather than fetch so the connection goes through
+   * publicLookup. Redirects are not followed.
+   */
+  private post(
+    url: URL,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<{ status: number; body: string }> {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+      const req = send(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: privateTargetsAllowed() ? undefined : publicLookup,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        },
+        (res) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+          });
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              body: text.slice(0, RESPONSE_BODY_LIMIT),
+            }),
+          );
+          res.on('error', reject);
+        },
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
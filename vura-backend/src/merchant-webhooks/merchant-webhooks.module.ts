@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+import { MerchantWebhooksController } from './merchant-webhooks.controller';
+import { MerchantWebhookDispatcher } from './merchant-webhooks.dispatcher';
+import { MerchantWebhooksSubscriber } from './merchant-webhooks.subscriber';
+import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [OutboxModule],
+  providers: [
+    MerchantWebhooksService,
+    MerchantWebhookDispatcher,
+    MerchantWebhooksSubscriber,
+    PrismaService,
+  ],
+  controllers: [MerchantWebhooksController],
+  exports: [MerchantWebhooksService],
+})
+export class MerchantWebhooksModule {}
@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { encryptToColumns } from '../utils/field-encryption';
+import { assertPublicHost, WebhookTargetError } from './merchant-webhook-url';
+import {
+  MERCHANT_WEBHOOK_EVENTS,
+  MerchantWebhookEvent,
+  MerchantWebhookPayload,
+} from './merchant-webhook-events';
+
+const MAX_ENDPOINTS = 10;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface EndpointInput {
+  url?: string;
+  events?: string[];
+  description?: string;
+  enabled?: boolean;
+}
+
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  enabled: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.MerchantWebhookEndpointSelect;
+
+/**
+ * Merchant-registered webhook endpoints and the deliveries queued for them.
+ * MerchantWebhooksSubscriber enqueues a delivery per endpoint when a payment
+ * event comes through the outbox; MerchantWebhookDispatcher sends them.
+ */
+@Injectable()
+export class MerchantWebhooksService {
+  constructor(private prisma: PrismaService) {}
+
+  /** The secret is only returned here and from rollSecret() */
+  async createEndpoint(userId: string, input: EndpointInput) {
+    const url = await this.validateUrl(input.url);
+    const events = this.validateEvents(input.events);
+
+    const count = await this.prisma.merchantWebhookEndpoint.count({
+      where: { userId },
+    });
+    if (count >= MAX_ENDPOINTS) {
+      throw new BadRequestException(
+        `You can register up to ${MAX_ENDPOINTS} webhook endpoints`,
+      );
+    }
+
+    const secret = this.generateSecret();
+    const { ciphertext, iv } = encryptToColumns(secret);
+    const endpoint = await this.prisma.merchantWebhookEndpoint.create({
+      data: {
+        userId,
+        url,
+        events,
+        description: input.description?.trim() || null,
+        secretCiphertext: ciphertext,
+        secretIv: iv,
+      },
+      select: endpointSelect,
+    });
+
+    return { ...endpoint, secret };
+  }
+
+  async listEndpoints(userId: string) {
+    return this.prisma.merchantWebhookEndpoint.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: endpointSelect,
+    });
+  }
+
+  async updateEndpoint(userId: string, id: string, input: EndpointInput) {
+    await this.findOwnedEndpoint(userId, id);
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be true or false');
+    }
+    const url =
+      input.url !== undefined ? await this.validateUrl(input.url) : undefined;
+
+    return this.prisma.merchantWebhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(input.events !== undefined && {
+          events: this.validateEvents(input.events),
+        }),
+        ...(input.description !== undefined && {
+          description: input.description?.trim() || null,
+        }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+      },
+      select: endpointSelect,
+    });
+  }
+
+  /** Also drops the endpoint's delivery history */
+  async deleteEndpoint(userId: string, id: string) {
+    await this.findOwnedEndpoint(userId, id);
+    await this.prisma.merchantWebhookEndpoint.delete({ where: { id } });
+  }
+
+  /**
+   * Replace the signing secret. Deliveries sent from now on, including
+   * retries of older events, are signed with the new one.
+   */
+  async rollSecret(userId: string, id: string) {
+    await this.findOwnedEndpoint(userId, id);
+    const secret = this.generateSecret();
+    const { ciphertext, iv } = encryptToColumns(secret);
+    await this.prisma.merchantWebhookEndpoint.update({
+      where: { id },
+      data: { secretCiphertext: ciphertext, secretIv: iv },
+    });
+    return { secret };
+  }
+
+  /**
+   * Queue an event for every enabled endpoint of the merchant that listens
+   * for it. eventId is the outbox event id, so running this twice for one
+   * event does not queue it twice.
+   */
+  async enqueue(
+    merchantId: string,
+    type: MerchantWebhookEvent,
+    eventId: string,
+    createdAt: Date,
+    data: Record<string, unknown>,
+  ): Promise<number> {
+    const endpoints = await this.prisma.merchantWebhookEndpoint.findMany({
+      where: { userId: merchantId, enabled: true, events: { has: type } },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) return 0;
+
+    const payload: MerchantWebhookPayload = {
+      id: eventId,
+      type,
+      createdAt: createdAt.toISOString(),
+      data,
+    };
+    const { count } = await this.prisma.merchantWebhookDelivery.createMany({
+      data: endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        eventId,
+        eventType: type,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      })),
+      skipDuplicates: true,
+    });
+    return count;
+  }
+
+  async listDeliveries(
+    userId: string,
+    options: { endpointId?: string; status?: string; limit?: number } = {},
+  ) {
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    return this.prisma.merchantWebhookDelivery.findMany({
+      where: {
+        endpoint: { userId },
+        ...(options.endpointId && { endpointId: options.endpointId }),
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { endpoint: { select: { url: true } } },
+    });
+  }
+
+  /** A delivery with every attempt made at it, newest first */
+  async getDelivery(userId: string, id: string) {
+    const delivery = await this.prisma.merchantWebhookDelivery.findFirst({
+      where: { id, endpoint: { userId } },
+      include: {
+        endpoint: { select: { url: true } },
+        attemptsLog: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+    return delivery;
+  }
+
+  /**
+   * Send a delivery again on the next dispatcher run, with a fresh set of
+   * retries. Works for failed and already-succeeded deliveries alike.
+   */
+  async replay(userId: string, id: string) {
+    const delivery = await this.getDelivery(userId, id);
+    if (delivery.status === 'pending' && delivery.lockedAt) {
+      throw new BadRequestException('This delivery is being sent right now');
+    }
+
+    return this.prisma.merchantWebhookDelivery.update({
+      where: { id },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+      },
+    });
+  }
+
+  private async findOwnedEndpoint(userId: string, id: string) {
+    const endpoint = await this.prisma.merchantWebhookEndpoint.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+    if (!endpoint) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+    return endpoint;
+  }
+
+  /**
+   * The host is resolved here and again by the dispatcher on every delivery,
+   * since what it resolves to can change after registration
+   */
+  private async validateUrl(url?: string): Promise<string> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url?.trim() ?? '');
+    } catch {
+      throw new BadRequestException('A valid webhook URL is required');
+    }
+    // Plain http is only allowed outside production, for local receivers
+    const allowed =
+      process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+    if (!allowed.includes(parsed.protocol)) {
+      throw new BadRequestException('Webhook URL must use https');
+    }
+    try {
+      await assertPublicHost(parsed.hostname);
+    } catch (err) {
+      if (err instanceof WebhookTargetError) {
+        throw new BadRequestException(err.message);
+      }
+      throw err;
+    }
+    return parsed.toString();
+  }
+
+  private validateEvents(events?: string[]): MerchantWebhookEvent[] {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new BadRequestException('Choose at least one event');
+    }
+    const unknown = events.filter(
+      (e) => !MERCHANT_WEBHOOK_EVENTS.includes(e as MerchantWebhookEvent),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown events: ${unknown.join(', ')}. Valid events: ${MERCHANT_WEBHOOK_EVENTS.join(', ')}`,
+      );
+    }
+    return [...new Set(events)] as MerchantWebhookEvent[];
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+}
@@ -0,0 +1,168 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+
+const SUBSCRIBER = 'merchant-webhooks';
+
+/**
+ * Maps payment events from the outbox onto the public webhook events a
+ * merchant can subscribe to. Payloads only carry what the merchant is
+ * allowed to see: the customer's vuraTag, never their user id.
+ */
+@Injectable()
+export class MerchantWebhooksSubscriber implements OnModuleInit {
+  constructor(
+    private outbox: OutboxService,
+    private webhooks: MerchantWebhooksService,
+    private prisma: PrismaService,
+  ) {}
+
+  onModuleInit() {
+    this.outbox.subscribe(
+      'QrPaymentCompleted',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.merchantId,
+          'qr_payment.completed',
+          event.id,
+          event.createdAt,
+          {
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            qrCodeId: payload.qrCodeId,
+            amount: payload.amount,
+            currency: payload.currency,
+            description: payload.description,
+            customer: await this.vuraTag(payload.payerId),
+          },
+        );
+      },
+    );
+
+    this.outbox.subscribe(
+      'PaymentRequestPaid',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.requesterId,
+          'payment_request.paid',
+          event.id,
+          event.createdAt,
+          {
+            requestId: payload.requestId,
+            reference: payload.reference,
+            transactionId: payload.transactionId ?? null,
+            transferReference: payload.transferReference ?? null,
+            amount: payload.amount,
+            currency: payload.currency,
+            description: payload.description,
+            customer: await this.vuraTag(payload.payerId),
+          },
+        );
+      },
+    );
+
+    this.outbox.subscribe(
+      'PaymentLinkPaid',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.ownerId,
+          'payment_link.paid',
+          event.id,
+          event.createdAt,
+          {
+            paymentLinkId: payload.linkId,
+            paymentId: payload.paymentId,
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            method: payload.method,
+            amount: payload.amount,
+            currency: payload.currency,
+            customer: payload.payerId
+              ? await this.vuraTag(payload.payerId)
+              : null,
+            customerName: payload.payerName,
+          },
+        );
+      },
+    );
+
+    this.outbox.subscribe(
+      'RefundCreated',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.merchantId,
+          'refund.created',
+          event.id,
+          event.createdAt,
+          {
+            refundId: payload.refundId,
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            amount: payload.amount,
+            currency: payload.currency,
+            reason: payload.reason ?? null,
+            customer: await this.vuraTag(payload.customerId),
+          },
+        );
+      },
+    );
+
+    this.outbox.subscribe(
+      'DisputeOpened',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.merchantId,
+          'dispute.opened',
+          event.id,
+          event.createdAt,
+          {
+            disputeId: payload.disputeId,
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            amount: payload.amount,
+            currency: payload.currency,
+            reason: payload.reason,
+            respondBy: payload.respondBy,
+            customer: await this.vuraTag(payload.customerId),
+          },
+        );
+      },
+    );
+
+    this.outbox.subscribe(
+      'DisputeResolved',
+      SUBSCRIBER,
+      async (payload, event) => {
+        await this.webhooks.enqueue(
+          payload.merchantId,
+          'dispute.resolved',
+          event.id,
+          event.createdAt,
+          {
+            disputeId: payload.disputeId,
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            amount: payload.amount,
+            currency: payload.currency,
+            outcome: payload.outcome,
+            customer: await this.vuraTag(payload.customerId),
+          },
+        );
+      },
+    );
+  }
+
+  private async vuraTag(userId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { vuraTag: true },
+    });
+    return user?.vuraTag ?? null;
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextFunction, Request, Response } from 'express';
+import { ApiKeysService } from '../public-api/api-keys.service';
+import { ApiKeyRateLimitMiddleware } from './rate-limit.middleware';
+
+/**
+ * Runs the real limiter with its in-memory store against bare request and
+ * response objects; key lookups are mocked.
+ */
+describe('ApiKeyRateLimitMiddleware', () => {
+  let apiKeys: { findActive: jest.Mock };
+  let middleware: ApiKeyRateLimitMiddleware;
+
+  // Send `count` requests and return how many were let through
+  const send = async (
+    count: number,
+    authorization: (i: number) => string | undefined,
+    ip = '203.0.113.7',
+  ) => {
+    let passed = 0;
+    for (let i = 0; i < count; i++) {
+      const req = {
+        ip,
+        method: 'GET',
+        originalUrl: '/api/v1/balance',
+        headers: { authorization: authorization(i) },
+        app: { get: () => false },
+      } as unknown as Request;
+      const res = {
+        headersSent: false,
+        setHeader: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+      const next = jest.fn() as NextFunction;
+      await middleware.use(req, res, next);
+      if ((next as jest.Mock).mock.calls.length > 0) passed++;
+    }
+    return passed;
+  };
+
+  beforeEach(() => {
+    apiKeys = {
+      findActive: jest.fn((key: string) =>
+        Promise.resolve(
+          key.startsWith('vk_live_real')
+            ? { keyId: key, mode: 'live' }
+            : key.startsWith('vk_test_real')
+              ? { keyId: key, mode: 'test' }
+              : null,
+        ),
+      ),
+    };
+    middleware = new ApiKeyRateLimitMiddleware(
+      apiKeys as unknown as ApiKeysService,
+    );
+  });
+
+  it('gives each valid key its own allowance', async () => {
+    await expect(send(130, () => 'Bearer vk_live_real_1')).resolves.toBe(120);
+    await expect(send(5, () => 'Bearer vk_live_real_2')).resolves.toBe(5);
+  });
+
+  it('gives test keys a smaller allowance', async () => {
+    await expect(send(40, () => 'Bearer vk_test_real_1')).resolves.toBe(30);
+  });
+
+  it('counts a different made-up key on every request against the IP', async () => {
+    await expect(send(30, (i) => `Bearer vk_live_fake_${i}`)).resolves.toBe(20);
+    expect(apiKeys.findActive).toHaveBeenCalledTimes(30);
+  });
+
+  it('counts requests without a key against the IP', async () => {
+    await expect(send(25, () => undefined)).resolves.toBe(20);
+    await expect(send(1, () => undefined, '198.51.100.1')).resolves.toBe(1);
+    expect(apiKeys.findActive).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,8 @@
 // vura-backend/src/middleware/rate-limit.middleware.ts
-import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import { ApiKeysService } from '../public-api/api-keys.service';
 
 @Injectable()
 export class RateLimitMiddleware implements NestMiddleware {
@@ -66,3 +67,60 @@ export const transactionLimiter = rateLimit({
     });
   },
 });
+
+// Public API limiter: counted per API key rather than per IP, so merchants
+// calling from shared infrastructure do not use up each other's allowance.
+// Only keys that exist get their own bucket; requests with a missing, unknown
+// or revoked key share a small allowance per IP, so inventing a key per
+// request does not escape the limit.
+const API_KEY_WINDOW_SECONDS = 60;
+const API_KEY_LIMITS = { live: 120, test: 30, unauthenticated: 20 };
+
+type BucketedRequest = Request & {
+  rateLimitBucket?: { key: string; limit: number };
+};
+
+@Injectable()
+export class ApiKeyRateLimitMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(ApiKeyRateLimitMiddleware.name);
+
+  private limiter = rateLimit({
+    windowMs: API_KEY_WINDOW_SECONDS * 1000,
+    limit: (req: Request) =>
+      (req as BucketedRequest).rateLimitBucket?.limit ??
+      API_KEY_LIMITS.unauthenticated,
+    keyGenerator: (req: Request) =>
+      (req as BucketedRequest).rateLimitBucket?.key ??
+      `ip:${ipKeyGenerator(req.ip ?? '')}`,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req: Request, res: Response) => {
+      const bucket = (req as BucketedRequest).rateLimitBucket;
+      this.logger.warn(
+        `API rate limit exceeded on ${req.originalUrl} for ${bucket ? bucket.key : `IP ${req.ip}`}`,
+      );
+      res.status(429).json({
+        error: bucket
+          ? 'Too many requests for this API key, please slow down.'
+          : 'Too many unauthenticated requests, please slow down.',
+        retryAfter: API_KEY_WINDOW_SECONDS,
+      });
+    },
+  });
+
+  constructor(private apiKeys: ApiKeysService) {}
+
+  async use(req: Request, res: Response, next: NextFunction) {
+    const header = req.headers.authorization;
+    const apiKey = header?.startsWith('Bearer vk_')
+      ? await this.apiKeys.findActive(header.slice(7))
+      : null;
+    if (apiKey) {
+      (req as BucketedRequest).rateLimitBucket = {
+        key: `key:${apiKey.keyId}`,
+        limit: API_KEY_LIMITS[apiKey.mode],
+      };
+    }
+    await this.limiter(req, res, next);
+  }
+}
@@ -29,6 +29,12 @@ export class RateLimitingMiddleware implements NestMiddleware {
   });
 
   use(req: Request, res: Response, next: NextFunction) {
+    // The public API is limited per key, and per IP for requests without a
+    // valid key, by ApiKeyRateLimitMiddleware instead
+    if (req.originalUrl.startsWith('/api/v1/')) {
+      return next();
+    }
+
     // Apply stricter rate limiting for auth endpoints
     if (req.path.includes('/auth/')) {
       this.authRateLimit(req, res, next);
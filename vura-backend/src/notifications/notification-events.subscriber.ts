@@ -0,0 +1,267 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { NotificationsService } from './notifications.service';
+
+const SUBSCRIBER = 'notifications';
+
+function naira(amount: string): string {
+  return `₦${Number(amount).toLocaleString()}`;
+}
+
+/**
+ * Turns money-movement events from the outbox into in-app notifications.
+ * Each notification carries the event id, so a redelivered event does not
+ * notify the user twice.
+ */
+@Injectable()
+export class NotificationEventsSubscriber implements OnModuleInit {
+  constructor(
+    private outbox: OutboxService,
+    private notifications: NotificationsService,
+    private prisma: PrismaService,
+  ) {}
+
+  onModuleInit() {
+    this.outbox.subscribe(
+      'TransferCompleted',
+      SUBSCRIBER,
+      async (payload, event) => {
+        const sender = await this.prisma.user.findUnique({
+          where: { id: payload.senderId },
+          select: { vuraTag: true },
+        });
+        await this.notifications.deliver({
+          userId: payload.receiverId,
+          type: 'money_received',
+          title: 'Money received',
+          body: `@${sender?.vuraTag ?? 'someone'} sent you ${naira(payload.amount)}`,
+          data: {
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+          },
+          eventId: event.id,
+        });
+      },
+    );
+
+    this.outbox.subscribe('DepositCredited', SUBSCRIBER, (payload, event) => {
+      const data = {
+        transactionId: payload.transactionId,
+        reference: payload.reference,
+      };
+      if (payload.crypto) {
+        return this.notifications.deliver({
+          userId: payload.userId,
+          type: 'crypto_deposit_confirmed',
+          title: 'Crypto deposit confirmed',
+          body:
+            payload.currency === 'USDT'
+              ? `${payload.crypto.amount} ${payload.crypto.asset} arrived and was added to your USDT wallet`
+              : `${payload.crypto.amount} ${payload.crypto.asset} arrived and ${naira(payload.amount)} was added to your wallet`,
+          data: { ...data, txHash: payload.crypto.txHash },
+          eventId: event.id,
+        });
+      }
+      return this.notifications.deliver({
+        userId: payload.userId,
+        type: 'money_received',
+        title: 'Money received',
+        body: `${naira(payload.amount)} was added to your wallet`,
+        data,
+        eventId: event.id,
+      });
+    });
+
+    // Security notice: tells the owner if someone else added the address
+    this.outbox.subscribe(
+      'WithdrawalAddressAdded',
+      SUBSCRIBER,
+      (payload, event) =>
+        this.notifications.deliver({
+          userId: payload.userId,
+          type: 'withdrawal_address_added',
+          title: 'Withdrawal address added',
+          body: `A ${payload.network} address ending ${payload.address.slice(-6)} was added to your withdrawal whitelist. It can be used from ${new Date(payload.activatesAt).toLocaleString('en-NG', { dateStyle: 'medium', timeStyle: 'short' })}. If this wasn't you, contact support now.`,
+          data: { addressId: payload.addressId },
+          eventId: event.id,
+        }),
+    );
+
+    this.outbox.subscribe(
+      'CryptoWithdrawalCompleted',
+      SUBSCRIBER,
+      (payload, event) =>
+        this.notifications.deliver({
+          userId: payload.userId,
+          type: 'crypto_withdrawal_sent',
+          title: 'Crypto withdrawal sent',
+          body: `${payload.amount} ${payload.asset} was delivered to ${payload.address.slice(0, 6)}…${payload.address.slice(-4)}`,
+          data: {
+            withdrawalId: payload.withdrawalId,
+            transactionId: payload.transactionId,
+            txHash: payload.txHash,
+          },
+          eventId: event.id,
+        }),
+    );
+
+    this.outbox.subscribe(
+      'CryptoWithdrawalFailed',
+      SUBSCRIBER,
+      (payload, event) =>
+        this.notifications.deliver({
+          userId: payload.userId,
+          type: 'crypto_withdrawal_failed',
+          title: 'Crypto withdrawal not sent',
+          body: `Your ${payload.amount} ${payload.asset} withdrawal was not sent (${payload.reason}). The amount and network fee are back in your ${payload.asset} wallet`,
+          data: {
+            withdrawalId: payload.withdrawalId,
+            transactionId: payload.transactionId,
+          },
+          eventId: event.id,
+        }),
+    );
+
+    this.outbox.subscribe(
+      'CryptoAutoWithdrawFailed',
+      SUBSCRIBER,
+      (payload, event) =>
+        this.notifications.deliver({
+          userId: payload.userId,
+          type: 'crypto_auto_withdraw_failed',
+          title: 'Auto-withdraw not sent',
+          body: `We couldn't send your crypto deposit of ${naira(payload.amount)} to your bank (${payload.reason}). It's in your Vura wallet instead`,
+          data: {
+            transactionId: payload.transactionId,
+            depositTransactionId: payload.depositTransactionId,
+          },
+          eventId: event.id,
+        }),
+    );
+
+    this.outbox.subscribe('PaymentLinkPaid', SUBSCRIBER, (payload, event) =>
+      this.notifications.deliver({
+        userId: payload.ownerId,
+        type: 'money_received',
+        title: 'Payment link paid',
+        body: `${payload.payerName ?? 'Someone'} paid ${naira(payload.amount)} for "${payload.title}"`,
+        data: {
+          transactionId: payload.transactionId,
+          reference: payload.reference,
+          paymentLinkId: payload.linkId,
+        },
+        eventId: event.id,
+      }),
+    );
+
+    this.outbox.subscribe('BillRefunded', SUBSCRIBER, (payload, event) =>
+      this.notifications.deliver({
+        userId: payload.userId,
+        type: 'bill_failed_refunded',
+        title: 'Purchase failed, refunded',
+        body: `Your ${naira(payload.amount)} ${payload.billType} purchase failed and the money is back in your wallet`,
+        data: {
+          transactionId: payload.transactionId,
+          reference: payload.reference,
+        },
+        eventId: event.id,
+      }),
+    );
+
+    this.outbox.subscribe(
+      'RefundCreated',
+      SUBSCRIBER,
+      async (payload, event) => {
+        const merchant = await this.prisma.user.findUnique({
+          where: { id: payload.merchantId },
+          select: { vuraTag: true },
+        });
+        await this.notifications.deliver({
+          userId: payload.customerId,
+          type: 'refund_received',
+          title: 'Refund received',
+          body: `@${merchant?.vuraTag ?? 'a merchant'} refunded you ${naira(payload.amount)}`,
+          data: {
+            transactionId: payload.transactionId,
+            reference: payload.reference,
+            refundId: payload.refundId,
+          },
+          eventId: event.id,
+        });
+      },
+    );
+
+    this.outbox.subscribe('DisputeOpened', SUBSCRIBER, (payload, event) =>
+      this.notifications.deliver({
+        userId: payload.merchantId,
+        type: 'dispute_opened',
+        title: 'Payment disputed',
+        body: `A customer disputed ${naira(payload.amount)} of payment ${payload.reference}. Respond by ${new Date(payload.respondBy).toLocaleString('en-NG', { dateStyle: 'medium', timeStyle: 'short' })}`,
+        data: {
+          disputeId: payload.disputeId,
+          transactionId: payload.transactionId,
+        },
+        eventId: event.id,
+      }),
+    );
+
+    // The merchant hears about the outcome through the HoldReleased notice
+    this.outbox.subscribe('DisputeResolved', SUBSCRIBER, (payload, event) => {
+      const refunded = payload.outcome === 'refunded';
+      return this.notifications.deliver({
+        userId: payload.customerId,
+        type: 'dispute_resolved',
+        title: refunded ? 'Dispute upheld' : 'Dispute closed',
+        body: refunded
+          ? `Your dispute of payment ${payload.reference} was upheld and ${naira(payload.amount)} has been refunded to your wallet`
+          : `Your dispute of payment ${payload.reference} was reviewed and not upheld`,
+        data: {
+          disputeId: payload.disputeId,
+          transactionId: payload.transactionId,
+        },
+        eventId: event.id,
+      });
+    });
+
+    this.outbox.subscribe('HoldPlaced', SUBSCRIBER, (payload, event) => {
+      if (payload.disputeId) {
+        return this.notifications.deliver({
+          userId: payload.userId,
+          type: 'hold_placed',
+          title: 'Funds on hold',
+          body: `${naira(payload.amount)} of your balance is on hold until a customer dispute is resolved`,
+          data: {
+            transactionId: payload.transactionId,
+            disputeId: payload.disputeId,
+          },
+          eventId: event.id,
+        });
+      }
+      const until = payload.heldUntil
+        ? ` until ${new Date(payload.heldUntil).toLocaleString('en-NG', { dateStyle: 'medium', timeStyle: 'short' })}`
+        : '';
+      return this.notifications.deliver({
+        userId: payload.userId,
+        type: 'hold_placed',
+        title: 'Transfer on hold',
+        body: `Your transfer of ${naira(payload.amount)} is on hold for a security review${until}`,
+        data: { transactionId: payload.transactionId },
+        eventId: event.id,
+      });
+    });
+
+    this.outbox.subscribe('HoldReleased', SUBSCRIBER, (payload, event) =>
+      this.notifications.deliver({
+        userId: payload.userId,
+        type: 'hold_released',
+        title: 'Hold released',
+        body: payload.disputeId
+          ? `The dispute is closed and the ${naira(payload.amount)} held for it has been released`
+          : `The hold on your ${naira(payload.amount)} transfer has been lifted`,
+        data: { transactionId: payload.transactionId },
+        eventId: event.id,
+      }),
+    );
+  }
+}
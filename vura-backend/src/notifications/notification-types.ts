@@ -0,0 +1,47 @@
+export const NOTIFICATION_CATEGORIES = [
+  'money',
+  'payment_requests',
+  'account',
+  'crypto',
+  'bills',
+] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+/**
+ * Account notices (holds on funds, KYC decisions) tell the user why their
+ * money or limits changed, so they cannot be switched off.
+ */
+export const MANDATORY_CATEGORIES: readonly NotificationCategory[] = [
+  'account',
+];
+
+export const NOTIFICATION_TYPES = {
+  money_received: 'money',
+  payment_request_received: 'payment_requests',
+  payment_request_accepted: 'payment_requests',
+  payment_request_declined: 'payment_requests',
+  hold_placed: 'account',
+  hold_released: 'account',
+  refund_received: 'money',
+  dispute_opened: 'account',
+  dispute_resolved: 'account',
+  kyc_approved: 'account',
+  kyc_rejected: 'account',
+  crypto_deposit_confirmed: 'crypto',
+  crypto_withdrawal_sent: 'crypto',
+  crypto_withdrawal_failed: 'crypto',
+  crypto_auto_withdraw_failed: 'crypto',
+  withdrawal_address_added: 'account',
+  bill_failed_refunded: 'bills',
+} as const satisfies Record<string, NotificationCategory>;
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+export interface NotifyInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  // Outbox event id, for subscribers that may see the same event twice
+  eventId?: string;
+}
@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Sse,
+  UseGuards,
+  Request,
+  MessageEvent,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { Observable } from 'rxjs';
+import { NotificationsService } from './notifications.service';
+import { AuthGuard } from '../auth/auth.guard';
+
+@Controller('notifications')
+@UseGuards(AuthGuard)
+export class NotificationsController {
+  constructor(private notifications: NotificationsService) {}
+
+  /**
+   * Newest first. Pass archived=true for the archive, and the returned
+   * nextCursor as `before` to page back.
+   */
+  @Get()
+  async list(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Query('archived') archived?: string,
+    @Query('limit') limit?: string,
+    @Query('before') before?: string,
+  ) {
+    const data = await this.notifications.list(req.user.userId, {
+      archived: archived === 'true',
+      limit: limit ? Number(limit) : undefined,
+      before,
+    });
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('unread-count')
+  async unreadCount(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const unreadCount = await this.notifications.unreadCount(req.user.userId);
+    return {
+      success: true,
+      data: { unreadCount },
+    };
+  }
+
+  /**
+   * Server-sent events for the signed-in user. Clients that cannot set an
+   * Authorization header on EventSource should read this with fetch.
+   */
+  @Sse('stream')
+  stream(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ): Observable<MessageEvent> {
+    return this.notifications.stream(req.user.userId);
+  }
+
+  @Get('preferences')
+  async getPreferences(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const preferences = await this.notifications.getPreferences(
+      req.user.userId,
+    );
+    return {
+      success: true,
+      data: preferences,
+    };
+  }
+
+  @Put('preferences')
+  async setPreference(
+    @Body() body: { category: string; enabled: boolean },
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const preferences = await this.notifications.setPreference(
+      req.user.userId,
+      body.category,
+      body.enabled,
+    );
+    return {
+      success: true,
+      data: preferences,
+    };
+  }
+
+  @Post('read-all')
+  async markAllRead(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const data = await this.notifications.markAllRead(req.user.userId);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Patch(':id/read')
+  async markRead(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const data = await this.notifications.markRead(req.user.userId, id);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Patch(':id/archive')
+  async archive(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const data = await this.notifications.archive(req.user.userId, id);
+    return {
+      success: true,
+      data,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { NotificationEventsSubscriber } from './notification-events.subscriber';
+import { PrismaService } from '../prisma.service';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [OutboxModule],
+  providers: [
+    NotificationsService,
+    NotificationEventsSubscriber,
+    PrismaService,
+  ],
+  controllers: [NotificationsController],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
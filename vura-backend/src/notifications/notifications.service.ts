@@ -0,0 +1,260 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
+import { Notification, Prisma } from '@prisma/client';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import { PrismaService } from '../prisma.service';
+import {
+  MANDATORY_CATEGORIES,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_TYPES,
+  NotificationCategory,
+  NotifyInput,
+} from './notification-types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+// Keeps proxies and load balancers from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+interface StreamEvent {
+  userId: string;
+  event: MessageEvent;
+}
+
+/**
+ * In-app notifications. Money movements reach here as outbox events (see
+ * NotificationEventsSubscriber); other services call notify() directly. The
+ * row is stored for the feed and pushed to any stream the user has open.
+ *
+ * Streams are fed from an in-process subject, so a client only receives live
+ * events raised on the instance it is connected to. Everything is still in
+ * the feed and unread count on the next fetch.
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly events = new Subject<StreamEvent>();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record and push a notification. Never throws: a failed notification must
+   * not fail the request that raised it.
+   */
+  async notify(input: NotifyInput): Promise<void> {
+    try {
+      await this.deliver(input);
+    } catch (err) {
+      this.logger.error(
+        `Failed to notify ${input.userId} (${input.type}): ${(err as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * notify() for outbox subscribers: errors propagate so the event is
+   * retried, and a notification already created for input.eventId is not
+   * created again.
+   */
+  async deliver(input: NotifyInput): Promise<void> {
+    const category = NOTIFICATION_TYPES[input.type];
+    if (!(await this.isEnabled(input.userId, category))) return;
+
+    let notification: Notification;
+    try {
+      notification = await this.prisma.notification.create({
+        data: {
+          userId: input.userId,
+          category,
+          type: input.type,
+          title: input.title,
+          body: input.body,
+          data: input.data as Prisma.InputJsonValue | undefined,
+          eventId: input.eventId,
+        },
+      });
+    } catch (err) {
+      if (
+        input.eventId &&
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === 'P2002'
+      ) {
+        return;
+      }
+      throw err;
+    }
+    const unreadCount = await this.unreadCount(input.userId);
+
+    this.events.next({
+      userId: input.userId,
+      event: { type: 'notification', data: { notification, unreadCount } },
+    });
+  }
+
+  async list(
+    userId: string,
+    options: { archived?: boolean; limit?: number; before?: string } = {},
+  ) {
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const before = options.before ? new Date(options.before) : undefined;
+    if (before && isNaN(before.getTime())) {
+      throw new BadRequestException('Invalid before cursor');
+    }
+
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        userId,
+        archivedAt: options.archived ? { not: null } : null,
+        ...(before && { createdAt: { lt: before } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return {
+      notifications,
+      unreadCount: await this.unreadCount(userId),
+      // Pass back as `before` to load the next page
+      nextCursor:
+        notifications.length === limit
+          ? notifications[notifications.length - 1].createdAt.toISOString()
+          : null,
+    };
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null, archivedAt: null },
+    });
+  }
+
+  async markRead(userId: string, id: string) {
+    await this.findOwned(userId, id);
+    await this.prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return this.publishCount(userId);
+  }
+
+  async markAllRead(userId: string) {
+    await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return this.publishCount(userId);
+  }
+
+  /** Archiving also marks the notification read */
+  async archive(userId: string, id: string) {
+    const notification = await this.findOwned(userId, id);
+    const now = new Date();
+    await this.prisma.notification.update({
+      where: { id },
+      data: {
+        archivedAt: notification.archivedAt ?? now,
+        readAt: notification.readAt ?? now,
+      },
+    });
+    return this.publishCount(userId);
+  }
+
+  /** Every category with whether it is on and whether it can be turned off */
+  async getPreferences(userId: string) {
+    const rows = await this.prisma.notificationPreference.findMany({
+      where: { userId },
+    });
+    const disabled = new Set(
+      rows.filter((r) => !r.enabled).map((r) => r.category),
+    );
+
+    return NOTIFICATION_CATEGORIES.map((category) => {
+      const mandatory = MANDATORY_CATEGORIES.includes(category);
+      return {
+        category,
+        enabled: mandatory || !disabled.has(category),
+        mandatory,
+      };
+    });
+  }
+
+  async setPreference(userId: string, category: string, enabled: boolean) {
+    if (!NOTIFICATION_CATEGORIES.includes(category as NotificationCategory)) {
+      throw new BadRequestException(
+        `Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}`,
+      );
+    }
+    if (typeof enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be true or false');
+    }
+    if (
+      !enabled &&
+      MANDATORY_CATEGORIES.includes(category as NotificationCategory)
+    ) {
+      throw new BadRequestException(
+        'Account notifications cannot be turned off',
+      );
+    }
+
+    await this.prisma.notificationPreference.upsert({
+      where: { userId_category: { userId, category } },
+      create: { userId, category, enabled },
+      update: { enabled },
+    });
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Live events for one user: `notification` when one is created, `unread`
+   * when the count changes from a read or archive, and a periodic `ping`.
+   */
+  stream(userId: string): Observable<MessageEvent> {
+    const own = this.events.pipe(
+      filter((e) => e.userId === userId),
+      map((e) => e.event),
+    );
+    const heartbeat = interval(HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'ping', data: {} })),
+    );
+    return merge(own, heartbeat);
+  }
+
+  private async isEnabled(
+    userId: string,
+    category: NotificationCategory,
+  ): Promise<boolean> {
+    if (MANDATORY_CATEGORIES.includes(category)) return true;
+    const pref = await this.prisma.notificationPreference.findUnique({
+      where: { userId_category: { userId, category } },
+    });
+    return pref?.enabled ?? true;
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+    return notification;
+  }
+
+  private async publishCount(userId: string) {
+    const unreadCount = await this.unreadCount(userId);
+    this.events.next({
+      userId,
+      event: { type: 'unread', data: { unreadCount } },
+    });
+    return { unreadCount };
+  }
+}
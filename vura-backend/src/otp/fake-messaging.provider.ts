@@ -0,0 +1,56 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { MessagingProvider } from './otp-channel';
+
+export interface FakeMessage {
+  channel: 'sms' | 'whatsapp';
+  to: string;
+  text: string;
+  messageId: string;
+  sentAt: Date;
+}
+
+/**
+ * In-memory stand-in for the SMS/WhatsApp gateway, selected with
+ * MESSAGING_PROVIDER=fake for local runs and tests. Messages are kept in
+ * `sent` instead of leaving the machine. Numbers listed in
+ * FAKE_MESSAGING_FAIL_NUMBERS fail, to exercise channel fallback.
+ */
+@Injectable()
+export class FakeMessagingProvider implements MessagingProvider {
+  readonly name = 'fake';
+  readonly sent: FakeMessage[] = [];
+  private readonly logger = new Logger(FakeMessagingProvider.name);
+  private counter = 0;
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  send(input: {
+    channel: 'sms' | 'whatsapp';
+    to: string;
+    text: string;
+  }): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const failing = (process.env.FAKE_MESSAGING_FAIL_NUMBERS || '').split(',');
+    if (failing.includes(input.to)) {
+      return Promise.resolve({
+        success: false,
+        error: 'Fake provider configured to fail',
+      });
+    }
+
+    const messageId = `fake-${++this.counter}`;
+    this.sent.push({ ...input, messageId, sentAt: new Date() });
+    this.logger.log(`[${input.channel}] to ${input.to}: ${input.text}`);
+    return Promise.resolve({ success: true, messageId });
+  }
+
+  /** Most recent message sent to a number */
+  lastTo(to: string): FakeMessage | undefined {
+    return [...this.sent].reverse().find((m) => m.to === to);
+  }
+}
@@ -0,0 +1,63 @@
+export const OTP_PURPOSES = [
+  'registration',
+  'device_verification',
+  'pin_reset',
+  'phone_verify',
+] as const;
+export type OtpPurpose = (typeof OTP_PURPOSES)[number];
+
+export const OTP_CHANNEL_NAMES = ['sms', 'whatsapp', 'email'] as const;
+export type OtpChannelName = (typeof OTP_CHANNEL_NAMES)[number];
+
+/** Injection token for the list of OTP channels */
+export const OTP_CHANNELS = 'OTP_CHANNELS';
+/** Injection token for the SMS/WhatsApp gateway in use */
+export const MESSAGING_PROVIDER = 'MESSAGING_PROVIDER';
+
+export interface OtpMessage {
+  // Phone in +234 format for sms/whatsapp, address for email
+  to: string;
+  code: string;
+  purpose: OtpPurpose;
+  expiresInMinutes: number;
+  vuraTag?: string;
+  // Shown in new-device emails
+  device?: OtpDeviceInfo;
+}
+
+export interface OtpDeviceInfo {
+  browser: string;
+  os: string;
+  ip?: string;
+}
+
+export interface OtpSendResult {
+  success: boolean;
+  provider: string;
+  messageId?: string;
+  error?: string;
+}
+
+/** One way of getting a code to a user */
+export interface OtpChannel {
+  readonly name: OtpChannelName;
+  isEnabled(): boolean;
+  send(message: OtpMessage): Promise<OtpSendResult>;
+}
+
+export type MessageDeliveryStatus = 'sent' | 'delivered' | 'failed';
+
+/**
+ * An SMS/WhatsApp gateway. The sms and whatsapp channels share one provider
+ * so switching gateways is a config change.
+ */
+export interface MessagingProvider {
+  readonly name: string;
+  isEnabled(): boolean;
+  supports(channel: 'sms' | 'whatsapp'): boolean;
+  send(input: {
+    channel: 'sms' | 'whatsapp';
+    to: string;
+    text: string;
+  }): Promise<{ success: boolean; messageId?: string; error?: string }>;
+}
@@ -0,0 +1,64 @@
+import type { EmailService } from '../services/email.service';
+import type {
+  MessagingProvider,
+  OtpChannel,
+  OtpMessage,
+  OtpPurpose,
+  OtpSendResult,
+} from './otp-channel';
+
+const PURPOSE_LABELS: Record<OtpPurpose, string> = {
+  registration: 'sign-up',
+  device_verification: 'login',
+  pin_reset: 'PIN reset',
+  phone_verify: 'verification',
+};
+
+export function otpText(message: OtpMessage): string {
+  return (
+    `Your Vura ${PURPOSE_LABELS[message.purpose]} code is ${message.code}. ` +
+    `It expires in ${message.expiresInMinutes} minutes. Never share it with anyone, including Vura staff.`
+  );
+}
+
+/** SMS or WhatsApp through the configured messaging provider */
+export class MessagingOtpChannel implements OtpChannel {
+  constructor(
+    readonly name: 'sms' | 'whatsapp',
+    private provider: MessagingProvider,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.provider.isEnabled() && this.provider.supports(this.name);
+  }
+
+  async send(message: OtpMessage): Promise<OtpSendResult> {
+    const result = await this.provider.send({
+      channel: this.name,
+      to: message.to,
+      text: otpText(message),
+    });
+    return { ...result, provider: this.provider.name };
+  }
+}
+
+export class EmailOtpChannel implements OtpChannel {
+  readonly name = 'email';
+
+  constructor(private email: EmailService) {}
+
+  isEnabled(): boolean {
+    return this.email.isEmailEnabled();
+  }
+
+  async send(message: OtpMessage): Promise<OtpSendResult> {
+    const result = await this.email.sendOtpCode(message.to, {
+      vuraTag: message.vuraTag,
+      otp: message.code,
+      purpose: message.purpose,
+      expiresInMinutes: message.expiresInMinutes,
+      device: message.device,
+    });
+    return { ...result, provider: 'resend' };
+  }
+}
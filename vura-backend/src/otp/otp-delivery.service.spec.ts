@@ -0,0 +1,248 @@
+import { HttpException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { maskPhone } from '../utils/encryption';
+import { FakeMessagingProvider } from './fake-messaging.provider';
+import type { OtpChannel, OtpMessage } from './otp-channel';
+import { MessagingOtpChannel } from './otp-channels';
+import { OtpDeliveryService } from './otp-delivery.service';
+
+const PHONE = '+2348012345678';
+const EMAIL = 'ada@vura.test';
+const RECIPIENT = { subjectId: 'user-1', phone: PHONE, email: EMAIL };
+
+interface DeliveryRow {
+  id: string;
+  subjectId: string;
+  purpose: string;
+  status: string;
+  createdAt: Date;
+  [field: string]: unknown;
+}
+
+// The filter reserveSend() reads recent sends with
+interface RecentWhere {
+  subjectId: string;
+  purpose: string;
+  createdAt: { gte: Date; lte: Date };
+  id: { not: string };
+}
+
+/**
+ * SMS and WhatsApp go through the real channels on FakeMessagingProvider;
+ * email is a mock channel. The otpDelivery table is an in-memory stub whose
+ * rows are stamped with `clock`, so cooldowns are checked without waiting.
+ */
+describe('OtpDeliveryService', () => {
+  let rows: DeliveryRow[];
+  let clock: number;
+  let fake: FakeMessagingProvider;
+  let emailSend: jest.Mock;
+  let prisma: {
+    otpDelivery: {
+      create: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      delete: jest.Mock;
+    };
+  };
+  let delivery: OtpDeliveryService;
+
+  const deliver = (purpose: 'registration' | 'phone_verify', slotId?: string) =>
+    delivery.deliver(RECIPIENT, purpose, '123456', 10, undefined, slotId);
+  const refusal = async (promise: Promise<unknown>) => {
+    const error = (await promise.catch((e: unknown) => e)) as HttpException;
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(429);
+    return error.getResponse() as { message: string; retryAfter: number };
+  };
+
+  beforeEach(() => {
+    rows = [];
+    clock = Date.parse('2026-03-01T12:00:00Z');
+    let ids = 0;
+    prisma = {
+      otpDelivery: {
+        create: jest.fn(({ data }: { data: Partial<DeliveryRow> }) => {
+          const row = {
+            id: `delivery-${++ids}`,
+            createdAt: new Date(clock),
+            ...data,
+          } as DeliveryRow;
+          rows.push(row);
+          return Promise.resolve(row);
+        }),
+        findMany: jest.fn(({ where }: { where: RecentWhere }) =>
+          Promise.resolve(
+            rows
+              .filter(
+                (r) =>
+                  r.subjectId === where.subjectId &&
+                  r.purpose === where.purpose &&
+                  r.createdAt >= where.createdAt.gte &&
+                  r.createdAt <= where.createdAt.lte &&
+                  r.id !== where.id.not,
+              )
+              .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+          ),
+        ),
+        update: jest.fn(
+          ({ where, data }: { where: { id: string }; data: object }) =>
+            Promise.resolve(
+              Object.assign(rows.find((r) => r.id === where.id)!, data),
+            ),
+        ),
+        delete: jest.fn(({ where }: { where: { id: string } }) => {
+          rows = rows.filter((r) => r.id !== where.id);
+          return Promise.resolve();
+        }),
+      },
+    };
+    fake = new FakeMessagingProvider();
+    emailSend = jest.fn((message: OtpMessage) =>
+      Promise.resolve({
+        success: true,
+        provider: 'resend',
+        messageId: `email-${message.to}`,
+      }),
+    );
+    const email: OtpChannel = {
+      name: 'email',
+      isEnabled: () => true,
+      send: emailSend,
+    };
+    delivery = new OtpDeliveryService(prisma as unknown as PrismaService, [
+      new MessagingOtpChannel('sms', fake),
+      new MessagingOtpChannel('whatsapp', fake),
+      email,
+    ]);
+  });
+
+  afterEach(() => {
+    delete process.env.FAKE_MESSAGING_FAIL_NUMBERS;
+  });
+
+  describe('deliver', () => {
+    it('sends by SMS first and records the masked destination', async () => {
+      const outcome = await deliver('registration');
+
+      expect(outcome).toEqual({
+        delivered: true,
+        channel: 'sms',
+        destination: maskPhone(PHONE),
+      });
+      expect(fake.lastTo(PHONE)).toMatchObject({ channel: 'sms' });
+      expect(fake.lastTo(PHONE)?.text).toContain('123456');
+      expect(rows).toEqual([
+        expect.objectContaining({
+          status: 'sent',
+          channel: 'sms',
+          provider: 'fake',
+          providerMessageId: 'fake-1',
+          destination: maskPhone(PHONE),
+        }),
+      ]);
+      expect(emailSend).not.toHaveBeenCalled();
+    });
+
+    it('falls back to email when the phone cannot be reached', async () => {
+      process.env.FAKE_MESSAGING_FAIL_NUMBERS = PHONE;
+
+      const outcome = await deliver('registration');
+
+      expect(outcome).toEqual({
+        delivered: true,
+        channel: 'email',
+        destination: 'ad***@vura.test',
+      });
+      expect(fake.sent).toHaveLength(0);
+      expect(rows[0]).toMatchObject({
+        status: 'sent',
+        channel: 'email',
+        attempts: [
+          { channel: 'sms', provider: 'fake' },
+          { channel: 'whatsapp', provider: 'fake' },
+        ],
+      });
+    });
+
+    it('never sends a phone verification code by email', async () => {
+      process.env.FAKE_MESSAGING_FAIL_NUMBERS = PHONE;
+
+      const outcome = await deliver('phone_verify');
+
+      expect(outcome).toEqual({ delivered: false });
+      expect(emailSend).not.toHaveBeenCalled();
+      expect(rows[0]).toMatchObject({
+        status: 'failed',
+        error: 'Fake provider configured to fail',
+      });
+    });
+
+    it('records the outcome on the reserved slot', async () => {
+      const slotId = await delivery.reserveSend('user-1', 'registration');
+
+      await deliver('registration', slotId);
+
+      expect(rows).toEqual([
+        expect.objectContaining({ id: slotId, status: 'sent', channel: 'sms' }),
+      ]);
+      expect(prisma.otpDelivery.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reserveSend', () => {
+    it('refuses a resend inside the cooldown and keeps no slot for it', async () => {
+      await delivery.reserveSend('user-1', 'registration');
+      clock += 20_000;
+
+      const refused = await refusal(
+        delivery.reserveSend('user-1', 'registration'),
+      );
+
+      expect(refused).toMatchObject({
+        message: 'Please wait 40s before requesting another code',
+        retryAfter: 40,
+      });
+      expect(rows).toHaveLength(1);
+
+      clock += 40_000;
+      await expect(
+        delivery.reserveSend('user-1', 'registration'),
+      ).resolves.toEqual(expect.any(String));
+    });
+
+    it('caps sends per hour', async () => {
+      for (let i = 0; i < 5; i++) {
+        await delivery.reserveSend('user-1', 'registration');
+        clock += 61_000;
+      }
+
+      const refused = await refusal(
+        delivery.reserveSend('user-1', 'registration'),
+      );
+
+      expect(refused.message).toBe(
+        'Too many codes requested. Please try again later',
+      );
+      expect(refused.retryAfter).toBe(3600 - 5 * 61);
+    });
+
+    it('keeps the limits per purpose', async () => {
+      await delivery.reserveSend('user-1', 'registration');
+
+      await expect(
+        delivery.reserveSend('user-1', 'pin_reset'),
+      ).resolves.toEqual(expect.any(String));
+    });
+
+    it('lets only one of two concurrent resends through', async () => {
+      const results = await Promise.allSettled([
+        delivery.reserveSend('user-1', 'registration'),
+        delivery.reserveSend('user-1', 'registration'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect(rows).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { maskPhone } from '../utils/encryption';
+import {
+  MessageDeliveryStatus,
+  OTP_CHANNEL_NAMES,
+  OTP_CHANNELS,
+  OtpChannel,
+  OtpChannelName,
+  OtpDeviceInfo,
+  OtpPurpose,
+} from './otp-channel';
+
+const DEFAULT_CHANNEL_ORDER: Record<OtpPurpose, OtpChannelName[]> = {
+  registration: ['sms', 'whatsapp', 'email'],
+  device_verification: ['sms', 'whatsapp', 'email'],
+  pin_reset: ['sms', 'whatsapp', 'email'],
+  // The code proves the user holds the phone, so it must never go by email
+  phone_verify: ['sms', 'whatsapp'],
+};
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 60;
+const DEFAULT_MAX_SENDS_PER_HOUR = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface OtpRecipient {
+  // User id, or pending registration id before the user exists
+  subjectId: string;
+  phone?: string | null;
+  email?: string | null;
+  vuraTag?: string;
+}
+
+export interface OtpDeliveryOutcome {
+  delivered: boolean;
+  channel?: OtpChannelName;
+  // Masked, safe to show back to the user
+  destination?: string;
+}
+
+/**
+ * Sends OTPs over the channels configured for their purpose, falling back to
+ * the next channel when one fails, and records every send so resend limits
+ * hold no matter which endpoint asked for the code.
+ *
+ * Channel order per purpose can be overridden with OTP_CHANNELS_<PURPOSE>,
+ * e.g. OTP_CHANNELS_DEVICE_VERIFICATION=whatsapp,sms,email.
+ */
+@Injectable()
+export class OtpDeliveryService {
+  private readonly logger = new Logger(OtpDeliveryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(OTP_CHANNELS) private channels: OtpChannel[],
+  ) {}
+
+  /**
+   * Reserve a send for the subject, throwing 429 while it is inside the
+   * resend cooldown or has hit the hourly cap for this purpose. The slot is
+   * written before the limits are checked and only sends reserved before it
+   * count against it, so of two concurrent resends only the first gets
+   * through. Call before issuing a new code so a refused resend leaves the
+   * previous code valid, and pass the slot id to deliver().
+   */
+  async reserveSend(subjectId: string, purpose: OtpPurpose): Promise<string> {
+    const cooldownMs =
+      (Number(process.env.OTP_RESEND_COOLDOWN_SECONDS) ||
+        DEFAULT_RESEND_COOLDOWN_SECONDS) * 1000;
+    const maxPerHour =
+      Number(process.env.OTP_MAX_SENDS_PER_HOUR) || DEFAULT_MAX_SENDS_PER_HOUR;
+
+    const slot = await this.prisma.otpDelivery.create({
+      data: { subjectId, purpose, status: 'pending' },
+    });
+    const reservedAt = slot.createdAt.getTime();
+
+    const recent = await this.prisma.otpDelivery.findMany({
+      where: {
+        subjectId,
+        purpose,
+        createdAt: { gte: new Date(reservedAt - HOUR_MS), lte: slot.createdAt },
+        id: { not: slot.id },
+      },
+      select: { id: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    // Same-millisecond reservations are ordered by id so exactly one wins
+    const earlier = recent.filter(
+      (r) => r.createdAt.getTime() < reservedAt || r.id < slot.id,
+    );
+
+    const refuse = async (message: string, retryAtMs: number) => {
+      await this.prisma.otpDelivery.delete({ where: { id: slot.id } });
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message,
+          retryAfter: Math.ceil((retryAtMs - reservedAt) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    };
+
+    if (earlier.length > 0) {
+      const retryAt = earlier[0].createdAt.getTime() + cooldownMs;
+      if (retryAt > reservedAt) {
+        await refuse(
+          `Please wait ${Math.ceil((retryAt - reservedAt) / 1000)}s before requesting another code`,
+          retryAt,
+        );
+      }
+    }
+    if (earlier.length >= maxPerHour) {
+      await refuse(
+        'Too many codes requested. Please try again later',
+        earlier[earlier.length - 1].createdAt.getTime() + HOUR_MS,
+      );
+    }
+    return slot.id;
+  }
+
+  /**
+   * Send a code, trying each channel for the purpose in order until one
+   * accepts it. The outcome is written to the slot from reserveSend() when
+   * one is given.
+   */
+  async deliver(
+    recipient: OtpRecipient,
+    purpose: OtpPurpose,
+    code: string,
+    expiresInMinutes: number,
+    device?: OtpDeviceInfo,
+    slotId?: string,
+  ): Promise<OtpDeliveryOutcome> {
+    const failures: { channel: string; provider: string; error: string }[] = [];
+
+    for (const name of this.channelOrder(purpose)) {
+      const channel = this.channels.find((c) => c.name === name);
+      const to = name === 'email' ? recipient.email : recipient.phone;
+      if (!channel || !channel.isEnabled() || !to) continue;
+
+      const result = await channel.send({
+        to,
+        code,
+        purpose,
+        expiresInMinutes,
+        vuraTag: recipient.vuraTag,
+        device,
+      });
+      if (!result.success) {
+        failures.push({
+          channel: name,
+          provider: result.provider,
+          error: result.error ?? 'Send failed',
+        });
+        this.logger.warn(
+          `OTP ${purpose} via ${name} failed for ${recipient.subjectId}: ${result.error}`,
+        );
+        continue;
+      }
+
+      const destination = mask(to);
+      await this.record(recipient.subjectId, purpose, slotId, {
+        channel: name,
+        provider: result.provider,
+        destination,
+        status: 'sent',
+        providerMessageId: result.messageId,
+        attempts: failures,
+      });
+      return { delivered: true, channel: name, destination };
+    }
+
+    // Recorded even when nothing went out so failed sends count toward the
+    // resend limits too
+    await this.record(recipient.subjectId, purpose, slotId, {
+      status: 'failed',
+      error: failures.length
+        ? failures[failures.length - 1].error
+        : 'No channel available',
+      attempts: failures,
+    });
+    this.logger.error(
+      `OTP ${purpose} for ${recipient.subjectId} could not be delivered on any channel`,
+    );
+    return { delivered: false };
+  }
+
+  /**
+   * Apply a provider delivery report. Unknown message ids are ignored.
+   */
+  async recordStatus(
+    provider: string,
+    providerMessageId: string,
+    status: MessageDeliveryStatus,
+    error?: string,
+  ) {
+    const { count } = await this.prisma.otpDelivery.updateMany({
+      where: { provider, providerMessageId },
+      data: {
+        status,
+        ...(status === 'delivered' && { deliveredAt: new Date() }),
+        ...(status === 'failed' && { error: error ?? 'Reported failed' }),
+      },
+    });
+    return { updated: count };
+  }
+
+  private async record(
+    subjectId: string,
+    purpose: OtpPurpose,
+    slotId: string | undefined,
+    data: Omit<Prisma.OtpDeliveryUncheckedCreateInput, 'subjectId' | 'purpose'>,
+  ) {
+    if (slotId) {
+      await this.prisma.otpDelivery.update({ where: { id: slotId }, data });
+    } else {
+      await this.prisma.otpDelivery.create({
+        data: { subjectId, purpose, ...data },
+      });
+    }
+  }
+
+  private channelOrder(purpose: OtpPurpose): OtpChannelName[] {
+    const configured = process.env[`OTP_CHANNELS_${purpose.toUpperCase()}`]
+      ?.split(',')
+      .map((c) => c.trim())
+      .filter((c): c is OtpChannelName =>
+        OTP_CHANNEL_NAMES.includes(c as OtpChannelName),
+      );
+    const order = configured?.length
+      ? configured
+      : DEFAULT_CHANNEL_ORDER[purpose];
+    return purpose === 'phone_verify'
+      ? order.filter((c) => c !== 'email')
+      : order;
+  }
+}
+
+function mask(destination: string): string {
+  const at = destination.indexOf('@');
+  if (at > 0) {
+    return `${destination.slice(0, Math.min(2, at))}***${destination.slice(at)}`;
+  }
+  return maskPhone(destination);
+}
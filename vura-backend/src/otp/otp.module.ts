@@ -1,9 +1,48 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { OTPService } from './otp.service';
+import { OtpDeliveryService } from './otp-delivery.service';
+import { FakeMessagingProvider } from './fake-messaging.provider';
+import { EmailOtpChannel, MessagingOtpChannel } from './otp-channels';
+import {
+  MESSAGING_PROVIDER,
+  MessagingProvider,
+  OTP_CHANNELS,
+} from './otp-channel';
 import { PrismaService } from '../prisma.service';
+import { EmailService } from '../services/email.service';
+import { TermiiService } from '../services/termii.service';
 
 @Module({
-  providers: [OTPService, PrismaService],
-  exports: [OTPService],
+  imports: [ConfigModule],
+  providers: [
+    OTPService,
+    OtpDeliveryService,
+    PrismaService,
+    EmailService,
+    TermiiService,
+    FakeMessagingProvider,
+    {
+      // MESSAGING_PROVIDER=fake keeps SMS/WhatsApp in memory for local
+      // runs; it is ignored in production so codes can never be swallowed
+      provide: MESSAGING_PROVIDER,
+      useFactory: (termii: TermiiService, fake: FakeMessagingProvider) =>
+        process.env.MESSAGING_PROVIDER === 'fake' &&
+        process.env.NODE_ENV !== 'production'
+          ? fake
+          : termii,
+      inject: [TermiiService, FakeMessagingProvider],
+    },
+    {
+      provide: OTP_CHANNELS,
+      useFactory: (messaging: MessagingProvider, email: EmailService) => [
+        new MessagingOtpChannel('sms', messaging),
+        new MessagingOtpChannel('whatsapp', messaging),
+        new EmailOtpChannel(email),
+      ],
+      inject: [MESSAGING_PROVIDER, EmailService],
+    },
+  ],
+  exports: [OTPService, OtpDeliveryService, TermiiService, MESSAGING_PROVIDER],
 })
 export class OTPModule {}
@@ -1,12 +1,25 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
 import * as crypto from 'crypto';
+import { decrypt } from '../utils/encryption';
+import type { OtpDeviceInfo, OtpPurpose } from './otp-channel';
+import { OtpDeliveryOutcome, OtpDeliveryService } from './otp-delivery.service';
+
+// Registration codes live on PendingRegistration, not in the otps table
+export type UserOtpPurpose = Exclude<OtpPurpose, 'registration'>;
 
 @Injectable()
 export class OTPService {
-  constructor(private prisma: PrismaService) {}
-
-  private readonly OTP_EXPIRY_MINUTES = 5;
+  constructor(
+    private prisma: PrismaService,
+    private delivery: OtpDeliveryService,
+  ) {}
+
+  private readonly OTP_EXPIRY_MINUTES: Record<UserOtpPurpose, number> = {
+    device_verification: 10,
+    pin_reset: 5,
+    phone_verify: 5,
+  };
   private readonly MAX_ATTEMPTS = 3;
 
   /**
@@ -26,10 +39,7 @@ export class OTPService {
   /**
    * Create and store OTP
    */
-  async createOTP(
-    userId: string,
-    purpose: 'pin_reset' | 'phone_verify',
-  ): Promise<string> {
+  async createOTP(userId: string, purpose: UserOtpPurpose): Promise<string> {
     // Invalidate any existing OTPs for this purpose
     await this.prisma.oTP.deleteMany({
       where: {
@@ -40,7 +50,7 @@ export class OTPService {
 
     const otp = this.generateOTP();
     const expiresAt = new Date(
-      Date.now() + this.OTP_EXPIRY_MINUTES * 60 * 1000,
+      Date.now() + this.OTP_EXPIRY_MINUTES[purpose] * 60 * 1000,
     );
 
     await this.prisma.oTP.create({
@@ -53,18 +63,52 @@ export class OTPService {
       },
     });
 
-    // TODO: Send OTP via SMS
-    // For now, return it (in production, this would be sent to user's phone)
     return otp;
   }
 
+  /**
+   * Create an OTP and send it to the user's phone or email, subject to the
+   * resend cooldown. The code is returned for the BYPASS_OTP_EMAIL fallback
+   * only; callers must not expose it when it was delivered.
+   */
+  async sendOTP(
+    userId: string,
+    purpose: UserOtpPurpose,
+    device?: OtpDeviceInfo,
+  ): Promise<{ otp: string; delivery: OtpDeliveryOutcome }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { vuraTag: true, phoneEncrypted: true, emailEncrypted: true },
+    });
+    if (!user) {
+      throw new BadRequestException('User not found');
+    }
+
+    const slotId = await this.delivery.reserveSend(userId, purpose);
+    const otp = await this.createOTP(userId, purpose);
+    const delivery = await this.delivery.deliver(
+      {
+        subjectId: userId,
+        phone: safeDecrypt(user.phoneEncrypted),
+        email: safeDecrypt(user.emailEncrypted),
+        vuraTag: user.vuraTag,
+      },
+      purpose,
+      otp,
+      this.OTP_EXPIRY_MINUTES[purpose],
+      device,
+      slotId,
+    );
+    return { otp, delivery };
+  }
+
   /**
    * Verify OTP
    */
   async verifyOTP(
     userId: string,
     otp: string,
-    purpose: 'pin_reset' | 'phone_verify',
+    purpose: UserOtpPurpose,
   ): Promise<boolean> {
     const otpRecord = await this.prisma.oTP.findFirst({
       where: {
@@ -122,3 +166,12 @@ export class OTPService {
     return result.count;
   }
 }
+
+function safeDecrypt(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return decrypt(value);
+  } catch {
+    return null;
+  }
+}
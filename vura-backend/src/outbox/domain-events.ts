@@ -0,0 +1,197 @@
+import type { OutboxEvent } from '@prisma/client';
+
+/**
+ * Events recorded through the outbox, keyed by type. Amounts are decimal
+ * strings so they survive the JSON column without float rounding.
+ */
+export interface DomainEvents {
+  /** Vura-to-Vura transfer posted; `held` when EWS put it on hold */
+  TransferCompleted: {
+    transactionId: string;
+    reference: string;
+    senderId: string;
+    receiverId: string;
+    amount: string;
+    currency: string;
+    description?: string;
+    held: boolean;
+  };
+  /** Money from outside Vura landed in a user's wallet */
+  DepositCredited: {
+    transactionId: string;
+    reference: string;
+    userId: string;
+    amount: string;
+    currency: string;
+    source: 'monnify' | 'paystack' | 'paystack_dva' | 'crypto';
+    crypto?: { asset: string; amount: string; txHash?: string };
+  };
+  /** The user swapped between NGN and USDT at a quoted rate */
+  SwapCompleted: {
+    transactionId: string;
+    reference: string;
+    userId: string;
+    side: 'buy' | 'sell';
+    fromCurrency: string;
+    fromAmount: string;
+    toCurrency: string;
+    toAmount: string;
+    rate: string;
+  };
+  /** A wallet was whitelisted for withdrawals; usable from activatesAt */
+  WithdrawalAddressAdded: {
+    addressId: string;
+    userId: string;
+    asset: string;
+    network: string;
+    address: string;
+    activatesAt: string;
+  };
+  /** The withdrawal reached the required confirmations on-chain */
+  CryptoWithdrawalCompleted: {
+    withdrawalId: string;
+    transactionId: string;
+    reference: string;
+    userId: string;
+    asset: string;
+    network: string;
+    amount: string;
+    address: string;
+    txHash: string;
+  };
+  /** Rejected or failed on-chain; amount plus fee went back to the wallet */
+  CryptoWithdrawalFailed: {
+    withdrawalId: string;
+    transactionId: string;
+    reference: string;
+    userId: string;
+    asset: string;
+    amount: string;
+    reason: string;
+  };
+  /** Auto-withdraw could not pay a crypto deposit out; the NGN stayed in the wallet */
+  CryptoAutoWithdrawFailed: {
+    depositTransactionId: string;
+    transactionId: string;
+    reference: string;
+    userId: string;
+    amount: string;
+    reason: string;
+  };
+  BillPurchased: {
+    transactionId: string;
+    reference: string;
+    userId: string;
+    billType: string;
+    amount: string;
+    provider: string;
+  };
+  /** The provider failed the purchase and the debit was reversed */
+  BillRefunded: {
+    transactionId: string;
+    reference: string;
+    userId: string;
+    billType: string;
+    amount: string;
+  };
+  /** A customer paid a merchant's QR code */
+  QrPaymentCompleted: {
+    transactionId: string;
+    reference: string;
+    qrCodeId: string;
+    merchantId: string;
+    payerId: string;
+    amount: string;
+    currency: string;
+    description: string;
+  };
+  /** The payer accepted a payment request and the transfer went through */
+  PaymentRequestPaid: {
+    requestId: string;
+    reference: string;
+    requesterId: string;
+    payerId: string;
+    amount: string;
+    currency: string;
+    description: string;
+    transactionId?: string;
+    transferReference?: string;
+  };
+  /** Someone paid a payment link; `payerId` is null for card/bank payers */
+  PaymentLinkPaid: {
+    paymentId: string;
+    linkId: string;
+    transactionId: string;
+    reference: string;
+    ownerId: string;
+    payerId: string | null;
+    payerName: string | null;
+    method: 'wallet' | 'paystack';
+    amount: string;
+    currency: string;
+    title: string;
+  };
+  /** A merchant sent (part of) a payment back to the customer */
+  RefundCreated: {
+    refundId: string;
+    transactionId: string;
+    reference: string;
+    merchantId: string;
+    customerId: string;
+    amount: string;
+    currency: string;
+    reason?: string;
+  };
+  /** A customer disputed a payment; the merchant has until respondBy */
+  DisputeOpened: {
+    disputeId: string;
+    transactionId: string;
+    reference: string;
+    merchantId: string;
+    customerId: string;
+    amount: string;
+    currency: string;
+    reason: string;
+    respondBy: string;
+  };
+  /** `refunded` when the customer got their money back */
+  DisputeResolved: {
+    disputeId: string;
+    transactionId: string;
+    reference: string;
+    merchantId: string;
+    customerId: string;
+    amount: string;
+    currency: string;
+    outcome: 'refunded' | 'rejected';
+  };
+  /** `disputeId` is set when the hold covers a disputed payment received */
+  HoldPlaced: {
+    transactionId: string;
+    userId: string;
+    amount: string;
+    reason: string | null;
+    heldUntil: string | null;
+    disputeId?: string;
+  };
+  HoldReleased: {
+    transactionId: string;
+    userId: string;
+    amount: string;
+    releasedBy: 'admin' | 'auto' | 'merchant';
+    adminId?: string;
+    disputeId?: string;
+  };
+}
+
+export type DomainEventType = keyof DomainEvents;
+
+/**
+ * Runs once per event, possibly more than once if it or another subscriber
+ * failed before the event was marked handled, so it must be idempotent.
+ * Throw to have the event retried.
+ */
+export type DomainEventHandler<T extends DomainEventType> = (
+  payload: DomainEvents[T],
+  event: OutboxEvent,
+) => Promise<void>;
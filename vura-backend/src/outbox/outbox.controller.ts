@@ -0,0 +1,39 @@
+import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
+import { OutboxService } from './outbox.service';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import { RequirePermission } from '../admin-auth/admin-permissions';
+
+@Controller('admin/outbox')
+@UseGuards(AdminGuard)
+export class OutboxController {
+  constructor(private outbox: OutboxService) {}
+
+  /**
+   * Outbox events by status: dead (default), pending or published
+   */
+  @RequirePermission('system:read')
+  @Get()
+  async list(@Query('status') status?: string, @Query('limit') limit?: string) {
+    const events = await this.outbox.list(
+      status || 'dead',
+      Number(limit) || 50,
+    );
+    return {
+      success: true,
+      data: events,
+    };
+  }
+
+  /**
+   * Retry a dead-lettered event once whatever made it fail is fixed
+   */
+  @RequirePermission('system:manage')
+  @Post(':id/retry')
+  async retry(@Param('id') id: string) {
+    const event = await this.outbox.requeue(id);
+    return {
+      success: true,
+      data: event,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import type { OutboxEvent } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { OutboxDispatcher } from './outbox.dispatcher';
+import { OutboxService } from './outbox.service';
+
+const PAYLOAD = {
+  transactionId: 'tx-1',
+  reference: 'DEP-1',
+  userId: 'user-1',
+  amount: '5000',
+  currency: 'NGN',
+  source: 'paystack',
+};
+
+// The fields the dispatcher and requeue() match a claim on
+interface ClaimWhere {
+  id: string;
+  status: string;
+  lockedAt?: Date | null;
+}
+
+/**
+ * Subscribers register on the real OutboxService. The database is a stub
+ * holding one event in `stored`: it is due while pending with a past
+ * nextAttemptAt, and claims only match while it still looks the way the
+ * claim expects.
+ */
+describe('OutboxDispatcher', () => {
+  let stored: OutboxEvent;
+  let prisma: {
+    outboxEvent: {
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+    };
+  };
+  let outbox: OutboxService;
+  let dispatcher: OutboxDispatcher;
+  let ledgerView: jest.Mock;
+  let notify: jest.Mock;
+
+  const event = (overrides: Partial<OutboxEvent> = {}): OutboxEvent => ({
+    id: 'event-1',
+    type: 'DepositCredited',
+    aggregateId: 'tx-1',
+    payload: PAYLOAD,
+    status: 'pending',
+    attempts: 0,
+    completedBy: [],
+    lastError: null,
+    nextAttemptAt: new Date(Date.now() - 1000),
+    lockedAt: null,
+    publishedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+  // Seconds until the retry the last failure scheduled
+  const retryDelay = () =>
+    Math.round((stored.nextAttemptAt.getTime() - Date.now()) / 1000);
+  // Make the scheduled retry due now
+  const dueNow = () => {
+    stored = { ...stored, nextAttemptAt: new Date(Date.now() - 1000) };
+  };
+
+  beforeEach(() => {
+    stored = event();
+    prisma = {
+      outboxEvent: {
+        findMany: jest.fn(() =>
+          Promise.resolve(
+            stored.status === 'pending' &&
+              stored.nextAttemptAt <= new Date() &&
+              stored.lockedAt === null
+              ? [{ ...stored }]
+              : [],
+          ),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: ClaimWhere;
+            data: Partial<OutboxEvent>;
+          }) => {
+            const matches =
+              stored.id === where.id &&
+              stored.status === where.status &&
+              (where.lockedAt === undefined ||
+                stored.lockedAt === where.lockedAt);
+            if (matches) stored = { ...stored, ...data };
+            return Promise.resolve({ count: matches ? 1 : 0 });
+          },
+        ),
+        update: jest.fn(({ data }: { data: Partial<OutboxEvent> }) => {
+          stored = { ...stored, ...data };
+          return Promise.resolve(stored);
+        }),
+        findUniqueOrThrow: jest.fn(() => Promise.resolve(stored)),
+      },
+    };
+    outbox = new OutboxService(prisma as unknown as PrismaService);
+    dispatcher = new OutboxDispatcher(
+      prisma as unknown as PrismaService,
+      outbox,
+    );
+    ledgerView = jest.fn().mockResolvedValue(undefined);
+    notify = jest.fn().mockResolvedValue(undefined);
+    outbox.subscribe('DepositCredited', 'ledger-view', ledgerView);
+    outbox.subscribe('DepositCredited', 'notify', notify);
+  });
+
+  it('publishes once every subscriber has handled the event', async () => {
+    await dispatcher.dispatchPending();
+
+    expect(ledgerView).toHaveBeenCalledWith(
+      PAYLOAD,
+      expect.objectContaining({ id: 'event-1' }),
+    );
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(stored).toMatchObject({
+      status: 'published',
+      completedBy: ['ledger-view', 'notify'],
+      lockedAt: null,
+      publishedAt: expect.any(Date) as Date,
+    });
+
+    await dispatcher.dispatchPending();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries only the subscribers that failed', async () => {
+    notify.mockRejectedValueOnce(new Error('SMS gateway down'));
+
+    await dispatcher.dispatchPending();
+
+    expect(stored).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      completedBy: ['ledger-view'],
+      lastError: 'notify: SMS gateway down',
+      lockedAt: null,
+    });
+
+    dueNow();
+    await dispatcher.dispatchPending();
+
+    expect(ledgerView).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(stored).toMatchObject({
+      status: 'published',
+      completedBy: ['ledger-view', 'notify'],
+      lastError: null,
+    });
+  });
+
+  it('backs off exponentially up to an hour', async () => {
+    notify.mockRejectedValue(new Error('SMS gateway down'));
+
+    await dispatcher.dispatchPending();
+    expect(retryDelay()).toBe(30);
+
+    dueNow();
+    await dispatcher.dispatchPending();
+    expect(retryDelay()).toBe(60);
+
+    stored = { ...stored, attempts: 8 };
+    dueNow();
+    await dispatcher.dispatchPending();
+    expect(retryDelay()).toBe(3600);
+  });
+
+  it('dead-letters the event after the last attempt', async () => {
+    stored = event({ attempts: 9, completedBy: ['ledger-view'] });
+    notify.mockRejectedValue(new Error('SMS gateway down'));
+
+    await dispatcher.dispatchPending();
+
+    expect(stored).toMatchObject({ status: 'dead', attempts: 10 });
+    dueNow();
+    await dispatcher.dispatchPending();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers a requeued event again, skipping subscribers that finished', async () => {
+    stored = event({
+      status: 'dead',
+      attempts: 10,
+      completedBy: ['ledger-view'],
+      nextAttemptAt: new Date(Date.now() + 3600_000),
+    });
+
+    await outbox.requeue('event-1');
+    expect(stored).toMatchObject({ status: 'pending', attempts: 0 });
+
+    await dispatcher.dispatchPending();
+
+    expect(ledgerView).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(stored.status).toBe('published');
+  });
+
+  it('only requeues dead events', async () => {
+    await expect(outbox.requeue('event-1')).rejects.toThrow(
+      'Only dead events can be requeued',
+    );
+  });
+
+  it('leaves an event another instance claimed first', async () => {
+    prisma.outboxEvent.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await dispatcher.dispatchPending();
+
+    expect(ledgerView).not.toHaveBeenCalled();
+    expect(prisma.outboxEvent.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { OutboxEvent } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { OutboxService } from './outbox.service';
+
+const BATCH_SIZE = 50;
+// A claim older than this belongs to an instance that died mid-batch
+const LOCK_TIMEOUT_MINUTES = 5;
+// Retries back off 30s, 1m, 2m, ... capped at an hour; then the event is dead
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 60 * 60;
+const MAX_ATTEMPTS = 10;
+const RETENTION_DAYS = 7;
+
+/**
+ * Delivers outbox events to their subscribers. Every subscriber has to
+ * succeed before an event is published; the ones that did are remembered so
+ * a retry only re-runs the ones that failed.
+ */
+@Injectable()
+export class OutboxDispatcher {
+  private readonly logger = new Logger(OutboxDispatcher.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private outbox: OutboxService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async dispatchPending() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const staleLock = new Date(
+        now.getTime() - LOCK_TIMEOUT_MINUTES * 60 * 1000,
+      );
+      const due = await this.prisma.outboxEvent.findMany({
+        where: {
+          status: 'pending',
+          nextAttemptAt: { lte: now },
+          OR: [{ lockedAt: null }, { lockedAt: { lt: staleLock } }],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const event of due) {
+        // Claim it so another instance of the API does not deliver it too
+        const claimed = await this.prisma.outboxEvent.updateMany({
+          where: { id: event.id, status: 'pending', lockedAt: event.lockedAt },
+          data: { lockedAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        await this.deliver(event);
+      }
+    } catch (err) {
+      this.logger.error(`Outbox dispatch failed: ${(err as Error).message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async purgePublished() {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.outboxEvent.deleteMany({
+      where: { status: 'published', publishedAt: { lt: cutoff } },
+    });
+    if (count > 0) {
+      this.logger.log(`Purged ${count} published outbox events`);
+    }
+  }
+
+  private async deliver(event: OutboxEvent) {
+    const completed = new Set(
+      Array.isArray(event.completedBy) ? (event.completedBy as string[]) : [],
+    );
+    const errors: string[] = [];
+
+    for (const subscriber of this.outbox.subscribersFor(event.type)) {
+      if (completed.has(subscriber.name)) continue;
+      try {
+        await subscriber.handler(event.payload as never, event);
+        completed.add(subscriber.name);
+      } catch (err) {
+        errors.push(`${subscriber.name}: ${(err as Error).message}`);
+      }
+    }
+
+    if (errors.length === 0) {
+      await this.prisma.outboxEvent.update({
+        where: { id: event.id },
+        data: {
+          status: 'published',
+          completedBy: [...completed],
+          publishedAt: new Date(),
+          lastError: null,
+          lockedAt: null,
+        },
+      });
+      return;
+    }
+
+    const attempts = event.attempts + 1;
+    const dead = attempts >= MAX_ATTEMPTS;
+    const delaySeconds = Math.min(
+      RETRY_BASE_SECONDS * 2 ** event.attempts,
+      RETRY_MAX_SECONDS,
+    );
+    const lastError = errors.join('; ').slice(0, 1000);
+
+    await this.prisma.outboxEvent.update({
+      where: { id: event.id },
+      data: {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        completedBy: [...completed],
+        lastError,
+        nextAttemptAt: new Date(Date.now() + delaySeconds * 1000),
+        lockedAt: null,
+      },
+    });
+
+    if (dead) {
+      this.logger.error(
+        `Outbox event ${event.id} (${event.type}) dead-lettered after ${attempts} attempts: ${lastError}`,
+      );
+    } else {
+      this.logger.warn(
+        `Outbox event ${event.id} (${event.type}) attempt ${attempts} failed, retrying in ${delaySeconds}s: ${lastError}`,
+      );
+    }
+  }
+}
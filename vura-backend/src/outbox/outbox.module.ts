@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { OutboxService } from './outbox.service';
+import { OutboxDispatcher } from './outbox.dispatcher';
+import { OutboxController } from './outbox.controller';
+import { PrismaService } from '../prisma.service';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+
+@Module({
+  imports: [AdminAuthModule],
+  controllers: [OutboxController],
+  providers: [OutboxService, OutboxDispatcher, PrismaService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
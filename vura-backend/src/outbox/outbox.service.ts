@@ -0,0 +1,100 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import type {
+  DomainEventHandler,
+  DomainEvents,
+  DomainEventType,
+} from './domain-events';
+
+export interface OutboxSubscriber {
+  name: string;
+  handler: DomainEventHandler<DomainEventType>;
+}
+
+/**
+ * Entry point for domain events. Services record() an event with the
+ * transaction client that moves the money, so the event exists exactly when
+ * the balance change does; OutboxDispatcher then hands it to whoever
+ * subscribed to that type.
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly subscribers = new Map<DomainEventType, OutboxSubscriber[]>();
+
+  constructor(private prisma: PrismaService) {}
+
+  async record<T extends DomainEventType>(
+    tx: Prisma.TransactionClient,
+    type: T,
+    payload: DomainEvents[T],
+    aggregateId?: string,
+  ): Promise<void> {
+    await tx.outboxEvent.create({
+      data: {
+        type,
+        aggregateId,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Register a handler, usually from a subscriber's onModuleInit. The name is
+   * stored on events it has handled, so keep it stable across deploys.
+   */
+  subscribe<T extends DomainEventType>(
+    type: T,
+    name: string,
+    handler: DomainEventHandler<T>,
+  ): void {
+    const list = this.subscribers.get(type) ?? [];
+    if (list.some((s) => s.name === name)) {
+      throw new Error(
+        `Outbox subscriber ${name} already registered for ${type}`,
+      );
+    }
+    list.push({
+      name,
+      handler: handler as DomainEventHandler<DomainEventType>,
+    });
+    this.subscribers.set(type, list);
+    this.logger.log(`${name} subscribed to ${type}`);
+  }
+
+  subscribersFor(type: string): OutboxSubscriber[] {
+    return this.subscribers.get(type as DomainEventType) ?? [];
+  }
+
+  /**
+   * Events for the admin view; defaults to the dead-letter queue
+   */
+  async list(status = 'dead', limit = 50) {
+    return this.prisma.outboxEvent.findMany({
+      where: { status },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 200),
+    });
+  }
+
+  /**
+   * Put a dead event back in the queue with a fresh set of attempts.
+   * Subscribers that already handled it are still skipped.
+   */
+  async requeue(id: string) {
+    const updated = await this.prisma.outboxEvent.updateMany({
+      where: { id, status: 'dead' },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+      },
+    });
+    if (updated.count === 0) {
+      throw new BadRequestException('Only dead events can be requeued');
+    }
+    return this.prisma.outboxEvent.findUniqueOrThrow({ where: { id } });
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { PaymentLinksService } from './payment-links.service';
+import type {
+  CardCheckoutInput,
+  WalletPaymentInput,
+} from './payment-links.service';
+
+/**
+ * The public side of payment links, used by the checkout page. Only paying
+ * from a wallet needs a signed-in user.
+ */
+@Controller('checkout')
+export class CheckoutController {
+  constructor(private readonly paymentLinks: PaymentLinksService) {}
+
+  /**
+   * Look up a payment status and receipt by reference
+   * GET /checkout/payments/:reference
+   */
+  @Get('payments/:reference')
+  async getPayment(@Param('reference') reference: string) {
+    const receipt = await this.paymentLinks.getPaymentStatus(reference);
+    return {
+      success: true,
+      data: receipt,
+    };
+  }
+
+  @Get(':slug')
+  async getCheckout(@Param('slug') slug: string) {
+    const checkout = await this.paymentLinks.getCheckout(slug);
+    return {
+      success: true,
+      data: checkout,
+    };
+  }
+
+  /**
+   * Pay with a Vura wallet and transaction PIN
+   * POST /checkout/:slug/wallet
+   */
+  @Post(':slug/wallet')
+  @UseGuards(AuthGuard)
+  @UseInterceptors(IdempotencyInterceptor)
+  async payWithWallet(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('slug') slug: string,
+    @Body() body: WalletPaymentInput,
+  ) {
+    const receipt = await this.paymentLinks.payWithWallet(
+      req.user.userId,
+      slug,
+      body,
+    );
+    return {
+      success: true,
+      data: receipt,
+    };
+  }
+
+  /**
+   * Start a Paystack card or bank transfer payment; redirect the payer to
+   * the returned authorizationUrl
+   * POST /checkout/:slug/card
+   */
+  @Post(':slug/card')
+  async startCardCheckout(
+    @Param('slug') slug: string,
+    @Body() body: CardCheckoutInput,
+  ) {
+    const checkout = await this.paymentLinks.startCardCheckout(slug, body);
+    return {
+      success: true,
+      data: checkout,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { PaymentLinksService } from './payment-links.service';
+import type { PaymentLinkInput } from './payment-links.service';
+
+@Controller('payment-links')
+@UseGuards(AuthGuard)
+export class PaymentLinksController {
+  constructor(private readonly paymentLinks: PaymentLinksService) {}
+
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const links = await this.paymentLinks.list(req.user.userId);
+    return {
+      success: true,
+      data: links,
+    };
+  }
+
+  /**
+   * Create a link with a fixed amount, or leave amount out to let the payer
+   * choose. Share it as /pay/<slug>.
+   * POST /payment-links
+   */
+  @Post()
+  async create(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: PaymentLinkInput,
+  ) {
+    const link = await this.paymentLinks.create(req.user.userId, body);
+    return {
+      success: true,
+      data: link,
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+    @Body() body: PaymentLinkInput,
+  ) {
+    const link = await this.paymentLinks.update(req.user.userId, id, body);
+    return {
+      success: true,
+      data: link,
+    };
+  }
+
+  @Get(':id/payments')
+  async listPayments(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const payments = await this.paymentLinks.listPayments(req.user.userId, id);
+    return {
+      success: true,
+      data: payments,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PaymentLinksService } from './payment-links.service';
+import { PaymentLinksController } from './payment-links.controller';
+import { CheckoutController } from './checkout.controller';
+import { PrismaService } from '../prisma.service';
+import { PaystackService } from '../services/paystack.service';
+import { EmailService } from '../services/email.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { HoldsModule } from '../holds/holds.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    LedgerModule,
+    OutboxModule,
+    IdempotencyModule,
+    HoldsModule,
+  ],
+  providers: [
+    PaymentLinksService,
+    PaystackService,
+    EmailService,
+    PrismaService,
+  ],
+  controllers: [PaymentLinksController, CheckoutController],
+  exports: [PaymentLinksService],
+})
+export class PaymentLinksModule {}
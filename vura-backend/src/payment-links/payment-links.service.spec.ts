@@ -0,0 +1,311 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { PaymentLink, PaymentLinkPayment } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { EmailService } from '../services/email.service';
+import { PaystackService } from '../services/paystack.service';
+import {
+  cardProcessingFee,
+  PaymentLinksService,
+} from './payment-links.service';
+
+const OWNER = 'merchant-1';
+const PAYER = 'user-1';
+const PIN = '1234';
+const HASHED_PIN = bcrypt.hashSync(PIN, 4);
+
+type Link = PaymentLink & { user: { vuraTag: string } };
+
+// The legs of a ledger posting, as the service builds them
+interface Leg {
+  account: string;
+  direction: 'debit' | 'credit';
+  amount: Decimal;
+}
+
+/**
+ * The database is a stub whose `$transaction` runs the callback against
+ * itself, with `paymentLink.updateMany` standing in for the conditional
+ * claim of a use. The ledger and holds are mocks.
+ */
+describe('PaymentLinksService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    paymentLink: {
+      findUnique: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+    };
+    paymentLinkPayment: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+    };
+    transaction: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock; post: jest.Mock };
+  let holds: { checkHeldFunds: jest.Mock };
+  let links: PaymentLinksService;
+
+  const link = (overrides: Partial<Link> = {}): Link => ({
+    id: 'link-1',
+    userId: OWNER,
+    slug: 'design-invoice',
+    title: 'Logo design',
+    description: null,
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    maxUses: null,
+    useCount: 0,
+    expiresAt: null,
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: { vuraTag: 'studio' },
+    ...overrides,
+  });
+  const cardPayment = (
+    overrides: Partial<PaymentLinkPayment> = {},
+  ): PaymentLinkPayment & { link: Link } => ({
+    id: 'payment-1',
+    linkId: 'link-1',
+    reference: 'PL-1',
+    method: 'paystack',
+    amount: new Decimal(5000),
+    status: 'pending',
+    payerId: null,
+    payerName: 'Ada',
+    payerEmailEncrypted: null,
+    transactionId: null,
+    paidAt: null,
+    createdAt: new Date(),
+    link: link(),
+    ...overrides,
+  });
+  const balances = (user: string) => ({
+    balances: {
+      [LedgerService.user(user)]: {
+        before: new Decimal(10000),
+        after: new Decimal(5000),
+      },
+    },
+  });
+  const claimWhere = () =>
+    (
+      prisma.paymentLink.updateMany.mock.lastCall as [
+        { where: { useCount?: { lt: number } } },
+      ]
+    )[0].where;
+  const postedLegs = () =>
+    (ledger.post.mock.lastCall as [unknown, { legs: Leg[] }])[1].legs;
+  const pay = (input: { amount?: number; pin?: string } = {}) =>
+    links.payWithWallet(PAYER, 'design-invoice', { pin: PIN, ...input });
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ hashedPin: HASHED_PIN, vuraTag: 'ada' }),
+      },
+      paymentLink: {
+        findUnique: jest.fn().mockResolvedValue(link()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+      },
+      paymentLinkPayment: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'payment-1', ...data }),
+        ),
+        findUnique: jest.fn().mockResolvedValue(cardPayment()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ ...cardPayment(), status: 'succeeded', ...data }),
+        ),
+      },
+      transaction: { create: jest.fn().mockResolvedValue({ id: 'tx-1' }) },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      transfer: jest.fn().mockResolvedValue(balances(PAYER)),
+      post: jest.fn().mockResolvedValue(balances(OWNER)),
+    };
+    holds = { checkHeldFunds: jest.fn() };
+    links = new PaymentLinksService(
+      prisma as unknown as PrismaService,
+      ledger as unknown as LedgerService,
+      { record: jest.fn() } as unknown as OutboxService,
+      {} as PaystackService,
+      { sendPaymentLinkReceipt: jest.fn() } as unknown as EmailService,
+      { get: () => undefined } as unknown as ConfigService,
+      holds as unknown as HoldsService,
+    );
+  });
+
+  describe('payWithWallet', () => {
+    it('claims a use and moves the money in one transaction', async () => {
+      const receipt = await pay();
+
+      expect(claimWhere()).toEqual({ id: 'link-1', status: 'active' });
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          from: LedgerService.user(PAYER),
+          to: LedgerService.user(OWNER),
+          amount: new Decimal(5000),
+        }),
+      );
+      expect(receipt).toMatchObject({
+        status: 'succeeded',
+        amount: 5000,
+        merchantVuraTag: 'studio',
+      });
+    });
+
+    it('only claims a use while the link is under its max uses', async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(
+        link({ maxUses: 3, useCount: 2 }),
+      );
+
+      await pay();
+
+      expect(claimWhere().useCount).toEqual({ lt: 3 });
+    });
+
+    it('does not charge when another payment took the last use first', async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(
+        link({ maxUses: 1, useCount: 0 }),
+      );
+      prisma.paymentLink.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(pay()).rejects.toThrow('no longer accepting payments');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['used up', { maxUses: 2, useCount: 2 }, 'reached its limit'],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }, 'expired'],
+      ['disabled', { status: 'disabled' }, 'disabled'],
+    ])('refuses a link that is %s', async (_label, overrides, message) => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link(overrides));
+
+      await expect(pay()).rejects.toThrow(message);
+      expect(prisma.paymentLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses a different amount on a fixed-amount link', async () => {
+      await expect(pay({ amount: 4000 })).rejects.toThrow(
+        'requires exactly ₦5000',
+      );
+      await expect(pay({ amount: 5000 })).resolves.toBeDefined();
+    });
+
+    it('charges what the payer enters on an open link, within bounds', async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link({ amount: null }));
+
+      await expect(pay()).rejects.toBeInstanceOf(BadRequestException);
+      await expect(pay({ amount: 50 })).rejects.toThrow('Amount must be');
+
+      await pay({ amount: 1234.567 });
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ amount: new Decimal('1234.57') }),
+      );
+    });
+
+    it('refuses to pay your own link', async () => {
+      await expect(
+        links.payWithWallet(OWNER, 'design-invoice', { pin: PIN }),
+      ).rejects.toThrow('your own payment link');
+    });
+
+    it('does not spend held funds', async () => {
+      holds.checkHeldFunds.mockRejectedValue(
+        new BadRequestException('Insufficient available balance'),
+      );
+
+      await expect(pay()).rejects.toThrow('Insufficient available balance');
+      expect(prisma.paymentLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses a wrong PIN', async () => {
+      await expect(pay({ pin: '0000' })).rejects.toThrow('Invalid PIN');
+    });
+  });
+
+  describe('settleCardPayment', () => {
+    it('credits the owner less the card fee and counts the use', async () => {
+      const res = await links.settleCardPayment('PL-1', 5000);
+
+      expect(res).toEqual({ status: 'success' });
+      expect(postedLegs()).toEqual([
+        {
+          account: LedgerService.external('paystack'),
+          direction: 'debit',
+          amount: new Decimal(5000),
+        },
+        {
+          account: LedgerService.user(OWNER),
+          direction: 'credit',
+          amount: new Decimal(4925),
+        },
+        {
+          account: LedgerService.fees(),
+          direction: 'credit',
+          amount: new Decimal(75),
+        },
+      ]);
+      expect(prisma.paymentLink.update).toHaveBeenCalledWith({
+        where: { id: 'link-1' },
+        data: { useCount: { increment: 1 } },
+      });
+    });
+
+    it('fails a charge that does not match the payment amount', async () => {
+      const res = await links.settleCardPayment('PL-1', 4999);
+
+      expect(res).toEqual({ status: 'amount_mismatch' });
+      expect(prisma.paymentLinkPayment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payment-1', status: 'pending' },
+        data: { status: 'failed' },
+      });
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+
+    it('credits once when the webhook and the status check race', async () => {
+      prisma.paymentLinkPayment.updateMany.mockResolvedValue({ count: 0 });
+
+      const res = await links.settleCardPayment('PL-1', 5000);
+
+      expect(res).toEqual({ status: 'already_processed' });
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+
+    it('ignores payments that already settled', async () => {
+      prisma.paymentLinkPayment.findUnique.mockResolvedValue(
+        cardPayment({ status: 'succeeded' }),
+      );
+
+      expect(await links.settleCardPayment('PL-1', 5000)).toEqual({
+        status: 'already_processed',
+      });
+    });
+  });
+
+  it('charges 1.5% for cards, rounded up and capped at ₦2,000', () => {
+    expect(cardProcessingFee(new Decimal(1001))).toEqual(new Decimal(16));
+    expect(cardProcessingFee(new Decimal(500000))).toEqual(new Decimal(2000));
+  });
+});
@@ -0,0 +1,699 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentLink, PaymentLinkPayment, Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { HoldsService } from '../holds/holds.service';
+import { PaystackService } from '../services/paystack.service';
+import { EmailService } from '../services/email.service';
+import { decrypt, encrypt } from '../utils/encryption';
+
+const MIN_AMOUNT = 100;
+const MAX_AMOUNT = 10_000_000;
+const MAX_ACTIVE_LINKS = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Same 1.5% capped at ₦2,000 that wallet funding charges, rounded up */
+export function cardProcessingFee(amount: Decimal): Decimal {
+  return Decimal.min(amount.times(0.015).ceil(), 2000);
+}
+
+export interface PaymentLinkInput {
+  title?: string;
+  description?: string;
+  amount?: number | null;
+  maxUses?: number | null;
+  expiresAt?: string | null;
+  status?: 'active' | 'disabled';
+}
+
+export interface CardCheckoutInput {
+  amount?: number;
+  email?: string;
+  name?: string;
+}
+
+export interface WalletPaymentInput {
+  amount?: number;
+  pin?: string;
+}
+
+type LinkWithOwner = PaymentLink & { user: { vuraTag: string } };
+
+@Injectable()
+export class PaymentLinksService {
+  private readonly logger = new Logger(PaymentLinksService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private paystack: PaystackService,
+    private email: EmailService,
+    private config: ConfigService,
+    private holds: HoldsService,
+  ) {}
+
+  // ============================================
+  // OWNER
+  // ============================================
+
+  async create(userId: string, input: PaymentLinkInput) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { kycTier: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.kycTier < 1) {
+      throw new BadRequestException(
+        'Complete KYC to accept payments with a link',
+      );
+    }
+
+    const active = await this.prisma.paymentLink.count({
+      where: { userId, status: 'active' },
+    });
+    if (active >= MAX_ACTIVE_LINKS) {
+      throw new BadRequestException(
+        `You can have at most ${MAX_ACTIVE_LINKS} active payment links`,
+      );
+    }
+
+    const title = input.title?.trim();
+    if (!title) {
+      throw new BadRequestException('Title is required');
+    }
+
+    const link = await this.prisma.paymentLink.create({
+      data: {
+        userId,
+        slug: randomBytes(6).toString('base64url'),
+        title: title.slice(0, 100),
+        description: input.description?.trim().slice(0, 500) || null,
+        amount:
+          input.amount === undefined || input.amount === null
+            ? null
+            : this.validateAmount(input.amount),
+        maxUses: this.validateMaxUses(input.maxUses),
+        expiresAt: this.validateExpiry(input.expiresAt),
+      },
+    });
+
+    return this.toOwnerView(link);
+  }
+
+  async list(userId: string) {
+    const links = await this.prisma.paymentLink.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return links.map((link) => this.toOwnerView(link));
+  }
+
+  /**
+   * Change anything but the amount. Disabling a link stops new checkouts;
+   * card payments already started still settle.
+   */
+  async update(userId: string, id: string, input: PaymentLinkInput) {
+    const link = await this.findOwned(userId, id);
+
+    if (input.amount !== undefined) {
+      throw new BadRequestException(
+        "A link's amount can't be changed; create a new link instead",
+      );
+    }
+    if (
+      input.status !== undefined &&
+      input.status !== 'active' &&
+      input.status !== 'disabled'
+    ) {
+      throw new BadRequestException("status must be 'active' or 'disabled'");
+    }
+    if (input.title !== undefined && !input.title.trim()) {
+      throw new BadRequestException('Title is required');
+    }
+
+    const updated = await this.prisma.paymentLink.update({
+      where: { id: link.id },
+      data: {
+        ...(input.title !== undefined && {
+          title: input.title.trim().slice(0, 100),
+        }),
+        ...(input.description !== undefined && {
+          description: input.description?.trim().slice(0, 500) || null,
+        }),
+        ...(input.maxUses !== undefined && {
+          maxUses: this.validateMaxUses(input.maxUses),
+        }),
+        ...(input.expiresAt !== undefined && {
+          expiresAt: this.validateExpiry(input.expiresAt),
+        }),
+        ...(input.status !== undefined && { status: input.status }),
+      },
+    });
+
+    return this.toOwnerView(updated);
+  }
+
+  async listPayments(userId: string, id: string) {
+    const link = await this.findOwned(userId, id);
+    const payments = await this.prisma.paymentLinkPayment.findMany({
+      where: { linkId: link.id, status: 'succeeded' },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: { payer: { select: { vuraTag: true } } },
+    });
+
+    return payments.map((payment) => ({
+      id: payment.id,
+      reference: payment.reference,
+      method: payment.method,
+      amount: Number(payment.amount),
+      payer: payment.payer?.vuraTag
+        ? `@${payment.payer.vuraTag}`
+        : payment.payerName,
+      transactionId: payment.transactionId,
+      paidAt: payment.paidAt,
+    }));
+  }
+
+  // ============================================
+  // CHECKOUT
+  // ============================================
+
+  /**
+   * What the public checkout page shows. Unavailable links still resolve so
+   * the page can say why they can't be paid.
+   */
+  async getCheckout(slug: string) {
+    const link = await this.findBySlug(slug);
+    const unavailable = this.unavailableReason(link);
+
+    return {
+      slug: link.slug,
+      title: link.title,
+      description: link.description,
+      amount: link.amount ? Number(link.amount) : null,
+      currency: link.currency,
+      merchantVuraTag: link.user.vuraTag,
+      available: !unavailable,
+      unavailableReason: unavailable,
+    };
+  }
+
+  /**
+   * Pay from a Vura wallet with the transaction PIN. Claims a use and moves
+   * the money in one database transaction, like a QR payment.
+   */
+  async payWithWallet(
+    payerId: string,
+    slug: string,
+    input: WalletPaymentInput,
+  ) {
+    const link = await this.findBySlug(slug);
+    this.assertAvailable(link);
+    const amount = this.resolveAmount(link, input.amount);
+
+    if (link.userId === payerId) {
+      throw new BadRequestException('Cannot pay your own payment link');
+    }
+
+    const payer = await this.prisma.user.findUnique({
+      where: { id: payerId },
+      select: { hashedPin: true, vuraTag: true },
+    });
+    if (!payer?.hashedPin) {
+      throw new UnauthorizedException('Set your PIN in Settings.');
+    }
+    if (!input.pin || !(await bcrypt.compare(input.pin, payer.hashedPin))) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+
+    await this.holds.checkHeldFunds(payerId, amount);
+
+    const reference = this.generateReference();
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.paymentLink.updateMany({
+        where: {
+          id: link.id,
+          status: 'active',
+          ...(link.maxUses !== null && { useCount: { lt: link.maxUses } }),
+        },
+        data: { useCount: { increment: 1 } },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException(
+          'This payment link is no longer accepting payments',
+        );
+      }
+
+      const posting = await this.ledger.transfer(tx, {
+        reference,
+        type: 'transfer',
+        from: LedgerService.user(payerId),
+        to: LedgerService.user(link.userId),
+        amount,
+        description: link.title,
+        metadata: { paymentLinkId: link.id },
+      });
+      const { before, after } = posting.balances[LedgerService.user(payerId)];
+
+      const transaction = await tx.transaction.create({
+        data: {
+          senderId: payerId,
+          receiverId: link.userId,
+          amount: amount.toNumber(),
+          currency: link.currency,
+          type: 'payment_link',
+          status: 'SUCCESS',
+          idempotencyKey: reference,
+          reference,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          metadata: {
+            paymentLinkId: link.id,
+            description: link.title,
+            method: 'wallet',
+          },
+        },
+      });
+
+      const created = await tx.paymentLinkPayment.create({
+        data: {
+          linkId: link.id,
+          reference,
+          method: 'wallet',
+          amount: amount.toNumber(),
+          status: 'succeeded',
+          payerId,
+          payerName: `@${payer.vuraTag}`,
+          transactionId: transaction.id,
+          paidAt: new Date(),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'PAYMENT_LINK_PAID',
+          userId: payerId,
+          actorType: 'user',
+          metadata: {
+            reference,
+            paymentLinkId: link.id,
+            ownerId: link.userId,
+            amount: amount.toString(),
+          },
+        },
+      });
+
+      await this.recordPaid(tx, link, created, transaction.id);
+      return created;
+    });
+
+    return this.toReceipt(link, payment);
+  }
+
+  /**
+   * Start a card or bank transfer payment through Paystack for someone
+   * without a Vura account. Nothing moves until Paystack confirms the
+   * charge. Uses are counted when a payment settles, so several checkouts
+   * open at once can take a link past its max uses.
+   */
+  async startCardCheckout(slug: string, input: CardCheckoutInput) {
+    const link = await this.findBySlug(slug);
+    this.assertAvailable(link);
+    const amount = this.resolveAmount(link, input.amount);
+
+    const email = input.email?.trim().toLowerCase();
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw new BadRequestException(
+        'A valid email is required for your receipt',
+      );
+    }
+    const name = input.name?.trim().slice(0, 100) || null;
+
+    const reference = this.generateReference();
+    await this.prisma.paymentLinkPayment.create({
+      data: {
+        linkId: link.id,
+        reference,
+        method: 'paystack',
+        amount: amount.toNumber(),
+        payerName: name,
+        payerEmailEncrypted: encrypt(email),
+      },
+    });
+
+    const frontendUrl = this.config.get<string>(
+      'FRONTEND_URL',
+      'https://vura-app.vercel.app',
+    );
+    const result = await this.paystack.initializeTransaction({
+      email,
+      amount: amount.toNumber(),
+      reference,
+      callbackUrl: `${frontendUrl}/pay/${link.slug}?ref=${reference}`,
+      metadata: { type: 'payment_link', paymentLinkId: link.id },
+    });
+
+    this.logger.log(
+      `Payment link checkout started: ₦${amount.toString()} on ${link.id}`,
+      { reference },
+    );
+
+    return {
+      authorizationUrl: result.authorizationUrl,
+      reference,
+      amount: amount.toNumber(),
+    };
+  }
+
+  /**
+   * Credit the owner for a confirmed Paystack charge. Called by the charge
+   * webhook and by the checkout page's status check, whichever comes first;
+   * the second one finds the payment already settled.
+   */
+  async settleCardPayment(reference: string, amountPaid: Decimal.Value) {
+    const payment = await this.prisma.paymentLinkPayment.findUnique({
+      where: { reference },
+      include: { link: { include: { user: { select: { vuraTag: true } } } } },
+    });
+    if (!payment || payment.method !== 'paystack') {
+      return { status: 'payment_not_found' };
+    }
+    if (payment.status !== 'pending') {
+      return { status: 'already_processed' };
+    }
+
+    const amount = new Decimal(amountPaid);
+    if (!amount.equals(payment.amount.toString())) {
+      // Paystack charges exactly what was initialized, so this needs a human
+      this.logger.error('Payment link charge amount mismatch', {
+        reference,
+        expected: payment.amount.toString(),
+        paid: amount.toString(),
+      });
+      await this.prisma.paymentLinkPayment.updateMany({
+        where: { id: payment.id, status: 'pending' },
+        data: { status: 'failed' },
+      });
+      return { status: 'amount_mismatch' };
+    }
+
+    const { link } = payment;
+    const settled = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.paymentLinkPayment.updateMany({
+        where: { id: payment.id, status: 'pending' },
+        data: { status: 'succeeded', paidAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      // Already charged, so count the use even if it goes past maxUses
+      await tx.paymentLink.update({
+        where: { id: link.id },
+        data: { useCount: { increment: 1 } },
+      });
+
+      // The owner gets the payment less the card processing fee
+      const fee = cardProcessingFee(amount);
+      const posting = await this.ledger.post(tx, {
+        reference,
+        type: 'deposit',
+        description: link.title,
+        metadata: { paymentLinkId: link.id },
+        legs: [
+          {
+            account: LedgerService.external('paystack'),
+            direction: 'debit',
+            amount,
+          },
+          {
+            account: LedgerService.user(link.userId),
+            direction: 'credit',
+            amount: amount.minus(fee),
+          },
+          { account: LedgerService.fees(), direction: 'credit', amount: fee },
+        ],
+      });
+      const { before, after } =
+        posting.balances[LedgerService.user(link.userId)];
+
+      const transaction = await tx.transaction.create({
+        data: {
+          senderId: null,
+          receiverId: link.userId,
+          amount: amount.toNumber(),
+          currency: link.currency,
+          type: 'payment_link',
+          status: 'SUCCESS',
+          idempotencyKey: reference,
+          reference,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          metadata: {
+            paymentLinkId: link.id,
+            description: link.title,
+            method: 'paystack',
+            payerName: payment.payerName,
+            fee: fee.toNumber(),
+          },
+        },
+      });
+
+      const updated = await tx.paymentLinkPayment.update({
+        where: { id: payment.id },
+        data: { transactionId: transaction.id },
+      });
+      await this.recordPaid(tx, link, updated, transaction.id);
+      return updated;
+    });
+
+    if (!settled) {
+      return { status: 'already_processed' };
+    }
+
+    this.logger.log(
+      `Payment link paid by card: ₦${amount.toString()} to ${link.userId}`,
+      { reference },
+    );
+    await this.emailReceipt(link, settled);
+    return { status: 'success' };
+  }
+
+  /**
+   * The receipt for one payment. A pending Paystack payment is checked with
+   * Paystack first, so the page a payer returns to settles it if the
+   * webhook hasn't arrived yet.
+   */
+  async getPaymentStatus(reference: string) {
+    let payment = await this.prisma.paymentLinkPayment.findUnique({
+      where: { reference },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    if (payment.status === 'pending' && payment.method === 'paystack') {
+      const verification = await this.paystack.verifyTransaction(reference);
+      if (verification.success) {
+        await this.settleCardPayment(reference, verification.amount);
+      } else if (['failed', 'abandoned'].includes(verification.status)) {
+        await this.prisma.paymentLinkPayment.updateMany({
+          where: { id: payment.id, status: 'pending' },
+          data: { status: 'failed' },
+        });
+      }
+      payment = await this.prisma.paymentLinkPayment.findUniqueOrThrow({
+        where: { reference },
+      });
+    }
+
+    const link = await this.prisma.paymentLink.findUniqueOrThrow({
+      where: { id: payment.linkId },
+      include: { user: { select: { vuraTag: true } } },
+    });
+    return this.toReceipt(link, payment);
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async recordPaid(
+    tx: Prisma.TransactionClient,
+    link: PaymentLink,
+    payment: PaymentLinkPayment,
+    transactionId: string,
+  ) {
+    await this.outbox.record(
+      tx,
+      'PaymentLinkPaid',
+      {
+        paymentId: payment.id,
+        linkId: link.id,
+        transactionId,
+        reference: payment.reference,
+        ownerId: link.userId,
+        payerId: payment.payerId,
+        payerName: payment.payerName,
+        method: payment.method as 'wallet' | 'paystack',
+        amount: payment.amount.toString(),
+        currency: link.currency,
+        title: link.title,
+      },
+      transactionId,
+    );
+  }
+
+  /** Best effort: the payment has settled whether or not the email goes out */
+  private async emailReceipt(link: LinkWithOwner, payment: PaymentLinkPayment) {
+    if (!payment.payerEmailEncrypted) return;
+    try {
+      await this.email.sendPaymentLinkReceipt(
+        decrypt(payment.payerEmailEncrypted),
+        {
+          ...this.toReceipt(link, payment),
+          payerName: payment.payerName,
+        },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not email receipt for ${payment.reference}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private toReceipt(link: LinkWithOwner, payment: PaymentLinkPayment) {
+    return {
+      reference: payment.reference,
+      status: payment.status,
+      method: payment.method,
+      amount: Number(payment.amount),
+      currency: link.currency,
+      title: link.title,
+      merchantVuraTag: link.user.vuraTag,
+      paidAt: payment.paidAt,
+    };
+  }
+
+  private toOwnerView(link: PaymentLink) {
+    return {
+      id: link.id,
+      slug: link.slug,
+      title: link.title,
+      description: link.description,
+      amount: link.amount ? Number(link.amount) : null,
+      currency: link.currency,
+      maxUses: link.maxUses,
+      useCount: link.useCount,
+      expiresAt: link.expiresAt,
+      status: link.status,
+      available: !this.unavailableReason(link),
+      createdAt: link.createdAt,
+    };
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const link = await this.prisma.paymentLink.findFirst({
+      where: { id, userId },
+    });
+    if (!link) {
+      throw new NotFoundException('Payment link not found');
+    }
+    return link;
+  }
+
+  private async findBySlug(slug: string): Promise<LinkWithOwner> {
+    const link = await this.prisma.paymentLink.findUnique({
+      where: { slug },
+      include: { user: { select: { vuraTag: true } } },
+    });
+    if (!link) {
+      throw new NotFoundException('Payment link not found');
+    }
+    return link;
+  }
+
+  private unavailableReason(link: PaymentLink): string | null {
+    if (link.status !== 'active') {
+      return 'This payment link has been disabled';
+    }
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      return 'This payment link has expired';
+    }
+    if (link.maxUses !== null && link.useCount >= link.maxUses) {
+      return 'This payment link has reached its limit';
+    }
+    return null;
+  }
+
+  private assertAvailable(link: PaymentLink) {
+    const reason = this.unavailableReason(link);
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+  }
+
+  /** Fixed links charge their amount; open links take the payer's */
+  private resolveAmount(link: PaymentLink, amount: number | undefined) {
+    if (link.amount) {
+      if (amount !== undefined && !link.amount.equals(amount)) {
+        throw new BadRequestException(
+          `This link requires exactly ₦${Number(link.amount)}`,
+        );
+      }
+      return new Decimal(link.amount.toString());
+    }
+    return new Decimal(this.validateAmount(amount));
+  }
+
+  private validateAmount(amount: number | undefined): number {
+    if (
+      typeof amount !== 'number' ||
+      !Number.isFinite(amount) ||
+      amount < MIN_AMOUNT ||
+      amount > MAX_AMOUNT
+    ) {
+      throw new BadRequestException(
+        `Amount must be between ₦${MIN_AMOUNT} and ₦${MAX_AMOUNT.toLocaleString()}`,
+      );
+    }
+    return Math.round(amount * 100) / 100;
+  }
+
+  private validateMaxUses(maxUses: number | null | undefined) {
+    if (maxUses === undefined || maxUses === null) return null;
+    if (!Number.isInteger(maxUses) || maxUses < 1) {
+      throw new BadRequestException('maxUses must be a positive whole number');
+    }
+    return maxUses;
+  }
+
+  private validateExpiry(expiresAt: string | null | undefined) {
+    if (expiresAt === undefined || expiresAt === null || expiresAt === '') {
+      return null;
+    }
+    const date = new Date(expiresAt);
+    if (isNaN(date.getTime()) || date <= new Date()) {
+      throw new BadRequestException('expiresAt must be a future date');
+    }
+    return date;
+  }
+
+  private generateReference(): string {
+    return `PL-${Date.now()}-${randomBytes(4).toString('hex')}`;
+  }
+}
@@ -3,9 +3,11 @@ import { PaymentRequestsService } from './payment-requests.service';
 import { PaymentRequestsController } from './payment-requests.controller';
 import { PrismaService } from '../prisma.service';
 import { TransactionsModule } from '../transactions/transactions.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { OutboxModule } from '../outbox/outbox.module';
 
 @Module({
-  imports: [TransactionsModule],
+  imports: [TransactionsModule, NotificationsModule, OutboxModule],
   providers: [PaymentRequestsService, PrismaService],
   controllers: [PaymentRequestsController],
   exports: [PaymentRequestsService],
@@ -3,21 +3,29 @@ import {
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma.service';
 import { Decimal } from '@prisma/client/runtime/library';
 import { randomBytes } from 'crypto';
 import { TransactionsService } from '../transactions/transactions.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { OutboxService } from '../outbox/outbox.service';
+
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
 
 @Injectable()
 export class PaymentRequestsService {
   constructor(
     private prisma: PrismaService,
     private transactionsService: TransactionsService,
+    private notifications: NotificationsService,
+    private outbox: OutboxService,
   ) {}
 
   /**
    * Create a payment request
-   * Requester asks payer for money
+   * Requester asks payer for money. Test requests (livemode false, from a
+   * test API key) are stored but never shown to the payer or payable.
    */
   async createRequest(
     requesterId: string,
@@ -25,6 +33,7 @@ export class PaymentRequestsService {
     amount: number,
     description?: string,
     expiresInMinutes: number = 60,
+    livemode: boolean = true,
   ) {
     // Find payer by vuraTag
     const payer = await this.prisma.user.findUnique({
@@ -65,6 +74,7 @@ export class PaymentRequestsService {
         reference,
         expiresAt,
         status: 'pending',
+        livemode,
         metadata: {
           requesterVuraTag: requester.vuraTag,
           payerVuraTag: payer.vuraTag,
@@ -72,7 +82,15 @@ export class PaymentRequestsService {
       },
     });
 
-    // TODO: Send notification to payer (push/email)
+    if (livemode) {
+      await this.notifications.notify({
+        userId: payer.id,
+        type: 'payment_request_received',
+        title: 'Payment request',
+        body: `@${requester.vuraTag} is requesting ₦${amount.toLocaleString()}${description ? ` for ${description}` : ''}`,
+        data: { requestId: request.id, reference },
+      });
+    }
 
     return {
       success: true,
@@ -97,6 +115,7 @@ export class PaymentRequestsService {
       where: {
         payerId: userId,
         status: 'pending',
+        livemode: true,
         expiresAt: { gt: new Date() },
       },
       orderBy: { createdAt: 'desc' },
@@ -126,7 +145,7 @@ export class PaymentRequestsService {
    * Get requests made by user (as requester)
    */
   async getMyRequests(userId: string, status?: string) {
-    const where: any = { requesterId: userId };
+    const where: any = { requesterId: userId, livemode: true };
     if (status) {
       where.status = status;
     }
@@ -167,6 +186,7 @@ export class PaymentRequestsService {
         id: requestId,
         payerId: userId,
         status: 'pending',
+        livemode: true,
       },
       include: {
         requester: {
@@ -197,7 +217,7 @@ export class PaymentRequestsService {
     const description = request.description || 'Payment request';
 
     // Perform the transfer
-    await this.transactionsService.sendMoney(
+    const transfer = await this.transactionsService.sendMoney(
       userId,
       requesterVuraTag,
       amount,
@@ -205,7 +225,38 @@ export class PaymentRequestsService {
       pin,
     );
 
-    await this.completeRequest(requestId);
+    await this.prisma.$transaction(async (tx) => {
+      await this.completeRequest(requestId, tx);
+      await this.outbox.record(
+        tx,
+        'PaymentRequestPaid',
+        {
+          requestId: request.id,
+          reference: request.reference,
+          requesterId: request.requesterId,
+          payerId: userId,
+          amount: String(amount),
+          currency: 'NGN',
+          description,
+          transactionId:
+            'transactionId' in transfer ? transfer.transactionId : undefined,
+          transferReference: transfer.reference ?? undefined,
+        },
+        request.id,
+      );
+    });
+
+    const payer = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { vuraTag: true },
+    });
+    await this.notifications.notify({
+      userId: request.requesterId,
+      type: 'payment_request_accepted',
+      title: 'Payment request paid',
+      body: `@${payer?.vuraTag ?? 'someone'} paid your request for ₦${amount.toLocaleString()}`,
+      data: { requestId: request.id, reference: request.reference },
+    });
 
     return {
       success: true,
@@ -228,6 +279,14 @@ export class PaymentRequestsService {
         id: requestId,
         payerId: userId,
         status: 'pending',
+        livemode: true,
+      },
+      include: {
+        payer: {
+          select: {
+            vuraTag: true,
+          },
+        },
       },
     });
 
@@ -242,6 +301,14 @@ export class PaymentRequestsService {
       data: { status: 'declined' },
     });
 
+    await this.notifications.notify({
+      userId: request.requesterId,
+      type: 'payment_request_declined',
+      title: 'Payment request declined',
+      body: `@${request.payer?.vuraTag ?? 'someone'} declined your request for ₦${Number(request.amount).toLocaleString()}`,
+      data: { requestId: request.id, reference: request.reference },
+    });
+
     return {
       success: true,
       message: 'Payment request declined',
@@ -251,8 +318,11 @@ export class PaymentRequestsService {
   /**
    * Mark request as completed (called after successful transaction)
    */
-  async completeRequest(requestId: string) {
-    await this.prisma.paymentRequest.update({
+  async completeRequest(
+    requestId: string,
+    client: PrismaClientLike = this.prisma,
+  ) {
+    await client.paymentRequest.update({
       where: { id: requestId },
       data: {
         status: 'accepted',
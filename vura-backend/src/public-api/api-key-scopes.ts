@@ -0,0 +1,33 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+
+export const API_KEY_MODES = ['test', 'live'] as const;
+export type ApiKeyMode = (typeof API_KEY_MODES)[number];
+
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Key attached to the request by ApiKeyGuard */
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId: string;
+  mode: ApiKeyMode;
+  scopes: ApiKeyScope[];
+}
+
+export const API_KEY_SCOPE_KEY = 'apiKeyScope';
+
+/**
+ * Scope a public API route requires. Routes behind ApiKeyGuard without one
+ * accept any valid key.
+ */
+export const RequireScope = (scope: ApiKeyScope) =>
+  SetMetadata(API_KEY_SCOPE_KEY, scope);
+
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ApiKeyPrincipal =>
+    ctx.switchToHttp().getRequest<{ apiKey: ApiKeyPrincipal }>().apiKey,
+);
@@ -0,0 +1,61 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { ApiKeysService } from './api-keys.service';
+import {
+  API_KEY_SCOPE_KEY,
+  ApiKeyPrincipal,
+  ApiKeyScope,
+} from './api-key-scopes';
+
+/**
+ * Accepts merchant API keys (`Authorization: Bearer vk_...`) and enforces the
+ * route's @RequireScope. Also sets request.user to the key's owner, so
+ * IdempotencyInterceptor works on public routes the same way.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeys: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<
+      Request & {
+        apiKey?: ApiKeyPrincipal;
+        user?: { userId: string };
+      }
+    >();
+    const authHeader = request.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer vk_')) {
+      throw new UnauthorizedException('No API key provided');
+    }
+
+    const apiKey = await this.apiKeys.authenticate(authHeader.slice(7), {
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
+
+    const scope = this.reflector.getAllAndOverride<ApiKeyScope | undefined>(
+      API_KEY_SCOPE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (scope && !apiKey.scopes.includes(scope)) {
+      throw new ForbiddenException(`This API key lacks the ${scope} scope`);
+    }
+
+    request.apiKey = apiKey;
+    request.user = { userId: apiKey.userId };
+    return true;
+  }
+}
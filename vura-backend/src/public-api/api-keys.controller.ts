@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { ApiKeysService } from './api-keys.service';
+import type { CreateApiKeyInput } from './api-keys.service';
+
+/**
+ * Key management for the merchant dashboard, behind the normal user session
+ */
+@Controller('merchant/api-keys')
+@UseGuards(AuthGuard)
+export class ApiKeysController {
+  constructor(private apiKeys: ApiKeysService) {}
+
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const keys = await this.apiKeys.list(req.user.userId);
+    return {
+      success: true,
+      data: keys,
+    };
+  }
+
+  /**
+   * Create a key with a mode (test or live) and scopes (read, write).
+   * The full key is only shown in this response.
+   */
+  @Post()
+  async create(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: CreateApiKeyInput,
+  ) {
+    const key = await this.apiKeys.create(req.user.userId, body);
+    return {
+      success: true,
+      data: key,
+    };
+  }
+
+  @Delete(':id')
+  async revoke(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    await this.apiKeys.revoke(req.user.userId, id);
+    return {
+      success: true,
+      message: 'API key revoked',
+    };
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { ApiKeyGuard } from './api-key.guard';
+import type { ApiKeyPrincipal, ApiKeyScope } from './api-key-scopes';
+import { ApiKeysService } from './api-keys.service';
+
+const USER = 'merchant-1';
+const REQUEST = { method: 'POST', path: '/api/v1/payment-requests' };
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+// The fields create() writes for a new key
+interface WrittenKey {
+  mode: string;
+  scopes: string[];
+  prefix: string;
+  keyHash: string;
+}
+
+/**
+ * The database is a stub; keys are looked up by the SHA-256 of the
+ * presented key, as in production.
+ */
+describe('ApiKeysService', () => {
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    merchantApiKey: {
+      count: jest.Mock;
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      update: jest.Mock;
+    };
+    auditLog: { create: jest.Mock };
+  };
+  let apiKeys: ApiKeysService;
+
+  const stored = (overrides = {}) => ({
+    id: 'key-1',
+    userId: USER,
+    name: 'Server',
+    mode: 'live',
+    scopes: ['read'],
+    lastUsedAt: null as Date | null,
+    revokedAt: null as Date | null,
+    ...overrides,
+  });
+  const written = () =>
+    (prisma.merchantApiKey.create.mock.lastCall as [{ data: WrittenKey }])[0]
+      .data;
+
+  beforeEach(() => {
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue({ kycTier: 1 }) },
+      merchantApiKey: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(({ data }: { data: WrittenKey }) =>
+          Promise.resolve({ id: 'key-1', ...data }),
+        ),
+        findUnique: jest.fn().mockResolvedValue(null),
+        update: jest.fn(),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    apiKeys = new ApiKeysService(prisma as unknown as PrismaService);
+  });
+
+  describe('create', () => {
+    it('returns the key once and stores only its hash', async () => {
+      const res = await apiKeys.create(USER, {
+        name: 'Server',
+        mode: 'test',
+        scopes: ['read', 'write', 'read'],
+      });
+
+      expect(res.key).toMatch(/^vk_test_[0-9a-f]{48}$/);
+      const data = written();
+      expect(data.keyHash).toBe(sha256(res.key));
+      expect(data.prefix).toBe(res.key.slice(0, 16));
+      expect(data.scopes).toEqual(['read', 'write']);
+      expect(JSON.stringify(data)).not.toContain(res.key);
+    });
+
+    it('needs KYC for live keys', async () => {
+      prisma.user.findUnique.mockResolvedValue({ kycTier: 0 });
+
+      await expect(
+        apiKeys.create(USER, {
+          name: 'Server',
+          mode: 'live',
+          scopes: ['read'],
+        }),
+      ).rejects.toThrow('Complete KYC');
+      expect(prisma.merchantApiKey.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses unknown scopes', async () => {
+      await expect(
+        apiKeys.create(USER, {
+          name: 'Server',
+          mode: 'test',
+          scopes: ['read', 'admin'],
+        }),
+      ).rejects.toThrow('Unknown scopes: admin');
+    });
+
+    it('caps the number of active keys', async () => {
+      prisma.merchantApiKey.count.mockResolvedValue(10);
+
+      await expect(
+        apiKeys.create(USER, {
+          name: 'Server',
+          mode: 'test',
+          scopes: ['read'],
+        }),
+      ).rejects.toThrow('up to 10 active API keys');
+    });
+  });
+
+  describe('authenticate', () => {
+    it('resolves a key to its merchant and logs the call', async () => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(stored());
+
+      const principal = await apiKeys.authenticate('vk_live_abc', REQUEST);
+
+      expect(prisma.merchantApiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: sha256('vk_live_abc') },
+      });
+      expect(principal).toEqual({
+        keyId: 'key-1',
+        userId: USER,
+        mode: 'live',
+        scopes: ['read'],
+      });
+      expect(prisma.merchantApiKey.update).toHaveBeenCalled();
+      expect(
+        (prisma.auditLog.create.mock.lastCall as [{ data: object }])[0].data,
+      ).toMatchObject({ action: 'API_KEY_USED', actorId: 'key-1' });
+    });
+
+    it('only refreshes lastUsedAt once a minute', async () => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(
+        stored({ lastUsedAt: new Date(Date.now() - 5000) }),
+      );
+
+      await apiKeys.authenticate('vk_live_abc', REQUEST);
+
+      expect(prisma.merchantApiKey.update).not.toHaveBeenCalled();
+      expect(prisma.auditLog.create).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', stored({ revokedAt: new Date() })],
+    ])('refuses a %s key', async (_label, key) => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(key);
+
+      await expect(
+        apiKeys.authenticate('vk_live_abc', REQUEST),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('still authenticates when usage cannot be recorded', async () => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(stored());
+      prisma.auditLog.create.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        apiKeys.authenticate('vk_live_abc', REQUEST),
+      ).resolves.toMatchObject({ keyId: 'key-1' });
+    });
+  });
+
+  describe('findActive', () => {
+    it('finds an active key without logging a call', async () => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(
+        stored({ mode: 'test' }),
+      );
+
+      await expect(apiKeys.findActive('vk_test_abc')).resolves.toEqual({
+        keyId: 'key-1',
+        mode: 'test',
+      });
+      expect(prisma.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('ignores a revoked key', async () => {
+      prisma.merchantApiKey.findUnique.mockResolvedValue(
+        stored({ revokedAt: new Date() }),
+      );
+
+      await expect(apiKeys.findActive('vk_live_abc')).resolves.toBeNull();
+    });
+  });
+});
+
+describe('ApiKeyGuard', () => {
+  let authenticate: jest.Mock;
+  let requiredScope: ApiKeyScope | undefined;
+  let guard: ApiKeyGuard;
+
+  const context = (request: object) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => undefined,
+      getClass: () => undefined,
+    }) as unknown as ExecutionContext;
+  const request = (authorization?: string) => ({
+    method: 'GET',
+    originalUrl: '/api/v1/payments/REF-1?expand=true',
+    headers: { authorization },
+    ip: '10.0.0.1',
+  });
+
+  beforeEach(() => {
+    requiredScope = undefined;
+    authenticate = jest.fn().mockResolvedValue({
+      keyId: 'key-1',
+      userId: USER,
+      mode: 'live',
+      scopes: ['read'],
+    } satisfies ApiKeyPrincipal);
+    guard = new ApiKeyGuard(
+      {
+        getAllAndOverride: () => requiredScope,
+      } as unknown as Reflector,
+      { authenticate } as unknown as ApiKeysService,
+    );
+  });
+
+  it('attaches the key and its owner to the request', async () => {
+    const req: ReturnType<typeof request> & {
+      apiKey?: ApiKeyPrincipal;
+      user?: { userId: string };
+    } = request('Bearer vk_live_abc');
+    requiredScope = 'read';
+
+    await expect(guard.canActivate(context(req))).resolves.toBe(true);
+
+    expect(authenticate).toHaveBeenCalledWith('vk_live_abc', {
+      method: 'GET',
+      path: '/api/v1/payments/REF-1',
+      ip: '10.0.0.1',
+      userAgent: undefined,
+    });
+    expect(req.apiKey?.keyId).toBe('key-1');
+    expect(req.user).toEqual({ userId: USER });
+  });
+
+  it('refuses a key without the scope the route needs', async () => {
+    requiredScope = 'write';
+
+    await expect(
+      guard.canActivate(context(request('Bearer vk_live_abc'))),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('refuses requests without an API key', async () => {
+    await expect(
+      guard.canActivate(context(request('Bearer eyJhbGciOi'))),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(authenticate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import {
+  API_KEY_MODES,
+  API_KEY_SCOPES,
+  ApiKeyMode,
+  ApiKeyPrincipal,
+  ApiKeyScope,
+} from './api-key-scopes';
+
+const MAX_ACTIVE_KEYS = 10;
+// lastUsedAt is only written when older than this, not on every request
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name?: string;
+  mode?: string;
+  scopes?: string[];
+}
+
+const keySelect = {
+  id: true,
+  name: true,
+  mode: true,
+  scopes: true,
+  prefix: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Merchant API keys. A key is `vk_<mode>_<48 hex chars>`; only its SHA-256
+ * is stored, so a lost key cannot be shown again and has to be replaced.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /** The full key is only returned here */
+  async create(userId: string, input: CreateApiKeyInput) {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BadRequestException('Give the key a name');
+    }
+    if (!API_KEY_MODES.includes(input.mode as ApiKeyMode)) {
+      throw new BadRequestException(
+        `mode must be one of: ${API_KEY_MODES.join(', ')}`,
+      );
+    }
+    const mode = input.mode as ApiKeyMode;
+    const scopes = this.validateScopes(input.scopes);
+
+    if (mode === 'live') {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { kycTier: true },
+      });
+      if (!user || user.kycTier < 1) {
+        throw new BadRequestException(
+          'Complete KYC to create live API keys. Test keys are available now.',
+        );
+      }
+    }
+
+    const active = await this.prisma.merchantApiKey.count({
+      where: { userId, revokedAt: null },
+    });
+    if (active >= MAX_ACTIVE_KEYS) {
+      throw new BadRequestException(
+        `You can have up to ${MAX_ACTIVE_KEYS} active API keys`,
+      );
+    }
+
+    const key = `vk_${mode}_${randomBytes(24).toString('hex')}`;
+    const apiKey = await this.prisma.merchantApiKey.create({
+      data: {
+        userId,
+        name,
+        mode,
+        scopes,
+        prefix: key.slice(0, `vk_${mode}_`.length + 8),
+        keyHash: this.hash(key),
+      },
+      select: keySelect,
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'API_KEY_CREATED',
+        userId,
+        actorType: 'user',
+        metadata: { keyId: apiKey.id, mode, scopes },
+      },
+    });
+
+    return { ...apiKey, key };
+  }
+
+  async list(userId: string) {
+    return this.prisma.merchantApiKey.findMany({
+      where: { userId },
+      orderBy: [{ revokedAt: 'desc' }, { createdAt: 'desc' }],
+      select: keySelect,
+    });
+  }
+
+  /** Takes effect on the key's next request */
+  async revoke(userId: string, id: string) {
+    const key = await this.prisma.merchantApiKey.findFirst({
+      where: { id, userId },
+      select: { id: true, revokedAt: true },
+    });
+    if (!key) {
+      throw new NotFoundException('API key not found');
+    }
+    if (key.revokedAt) return;
+
+    await this.prisma.merchantApiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'API_KEY_REVOKED',
+        userId,
+        actorType: 'user',
+        metadata: { keyId: id },
+      },
+    });
+  }
+
+  /**
+   * The active key a presented secret belongs to, without logging a call.
+   * Null for unknown and revoked keys.
+   */
+  async findActive(
+    key: string,
+  ): Promise<{ keyId: string; mode: ApiKeyMode } | null> {
+    const apiKey = await this.prisma.merchantApiKey.findUnique({
+      where: { keyHash: this.hash(key) },
+      select: { id: true, mode: true, revokedAt: true },
+    });
+    if (!apiKey || apiKey.revokedAt) return null;
+    return { keyId: apiKey.id, mode: apiKey.mode as ApiKeyMode };
+  }
+
+  /**
+   * Resolve a presented key to its merchant, and log the call against it.
+   * Throws for unknown and revoked keys alike.
+   */
+  async authenticate(
+    key: string,
+    request: { method: string; path: string; ip?: string; userAgent?: string },
+  ): Promise<ApiKeyPrincipal> {
+    const apiKey = await this.prisma.merchantApiKey.findUnique({
+      where: { keyHash: this.hash(key) },
+    });
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const principal: ApiKeyPrincipal = {
+      keyId: apiKey.id,
+      userId: apiKey.userId,
+      mode: apiKey.mode as ApiKeyMode,
+      scopes: apiKey.scopes as ApiKeyScope[],
+    };
+
+    // Usage tracking is informational; never fail the request over it
+    try {
+      const idleMs = Date.now() - (apiKey.lastUsedAt?.getTime() ?? 0);
+      if (idleMs > USAGE_WRITE_INTERVAL_MS) {
+        await this.prisma.merchantApiKey.update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: new Date() },
+        });
+      }
+      await this.prisma.auditLog.create({
+        data: {
+          action: 'API_KEY_USED',
+          userId: apiKey.userId,
+          actorType: 'api_key',
+          actorId: apiKey.id,
+          metadata: {
+            method: request.method,
+            path: request.path,
+            mode: apiKey.mode,
+          },
+          ipAddress: request.ip,
+          userAgent: request.userAgent,
+        },
+      });
+    } catch (err) {
+      this.logger.warn(
+        `Could not record usage of API key ${apiKey.id}: ${(err as Error).message}`,
+      );
+    }
+
+    return principal;
+  }
+
+  private validateScopes(scopes?: string[]): ApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new BadRequestException('Choose at least one scope');
+    }
+    const unknown = scopes.filter(
+      (s) => !API_KEY_SCOPES.includes(s as ApiKeyScope),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown scopes: ${unknown.join(', ')}. Valid scopes: ${API_KEY_SCOPES.join(', ')}`,
+      );
+    }
+    return [...new Set(scopes)] as ApiKeyScope[];
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { ApiKeyGuard } from './api-key.guard';
+import { CurrentApiKey, RequireScope } from './api-key-scopes';
+import type { ApiKeyPrincipal } from './api-key-scopes';
+import { PublicApiService } from './public-api.service';
+import type {
+  CreatePaymentRequestInput,
+  CreateQrCodeInput,
+  CreateRefundInput,
+} from './public-api.service';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+
+/**
+ * Version 1 of the merchant API, authenticated with API keys instead of
+ * user sessions. Rate limits are per key, and per IP until a key is
+ * recognised (ApiKeyRateLimitMiddleware), so the global throttle is skipped
+ * here.
+ */
+@Controller('v1')
+@UseGuards(ApiKeyGuard)
+@SkipThrottle()
+export class PublicApiController {
+  constructor(private api: PublicApiService) {}
+
+  /**
+   * Ask a Vura user for money by their vuraTag
+   * POST /v1/payment-requests
+   */
+  @RequireScope('write')
+  @Post('payment-requests')
+  @UseInterceptors(IdempotencyInterceptor)
+  async createPaymentRequest(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Body() body: CreatePaymentRequestInput,
+  ) {
+    const data = await this.api.createPaymentRequest(apiKey, body);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @RequireScope('read')
+  @Get('payment-requests/:reference')
+  async getPaymentRequest(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Param('reference') reference: string,
+  ) {
+    const data = await this.api.getPaymentRequest(apiKey, reference);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  /**
+   * Dynamic QR code, optionally for a fixed amount. Encode `qrContent` in
+   * the QR image.
+   * POST /v1/qr-codes
+   */
+  @RequireScope('write')
+  @Post('qr-codes')
+  @UseInterceptors(IdempotencyInterceptor)
+  async createQrCode(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Body() body: CreateQrCodeInput,
+  ) {
+    const data = await this.api.createQrCode(apiKey, body);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @RequireScope('read')
+  @Get('qr-codes/:code')
+  async getQrCode(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Param('code') code: string,
+  ) {
+    const data = await this.api.getQrCode(apiKey, code);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @RequireScope('read')
+  @Get('payments/:reference')
+  async getPayment(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Param('reference') reference: string,
+  ) {
+    const data = await this.api.getPayment(apiKey, reference);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  /**
+   * Send (part of) a Vura transfer or QR payment back to the customer
+   * POST /v1/refunds
+   */
+  @RequireScope('write')
+  @Post('refunds')
+  @UseInterceptors(IdempotencyInterceptor)
+  async createRefund(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Body() body: CreateRefundInput,
+  ) {
+    const data = await this.api.createRefund(apiKey, body);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @RequireScope('read')
+  @Get('settlements')
+  async listSettlements(
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+    @Query('limit') limit?: string,
+    @Query('before') before?: string,
+  ) {
+    const data = await this.api.listSettlements(apiKey, {
+      limit: limit ? Number(limit) : undefined,
+      before,
+    });
+    return {
+      success: true,
+      data,
+    };
+  }
+}
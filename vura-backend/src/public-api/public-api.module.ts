@@ -0,0 +1,30 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyGuard } from './api-key.guard';
+import { PublicApiService } from './public-api.service';
+import { PublicApiController } from './public-api.controller';
+import { PrismaService } from '../prisma.service';
+import { PaymentRequestsModule } from '../payment-requests/payment-requests.module';
+import { QrCodesModule } from '../qr-codes/qr-codes.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { SettlementsModule } from '../settlements/settlements.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { ApiKeyRateLimitMiddleware } from '../middleware/rate-limit.middleware';
+
+@Module({
+  imports: [
+    PaymentRequestsModule,
+    QrCodesModule,
+    IdempotencyModule,
+    SettlementsModule,
+    RefundsModule,
+  ],
+  providers: [ApiKeysService, ApiKeyGuard, PublicApiService, PrismaService],
+  controllers: [ApiKeysController, PublicApiController],
+})
+export class PublicApiModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(ApiKeyRateLimitMiddleware).forRoutes(PublicApiController);
+  }
+}
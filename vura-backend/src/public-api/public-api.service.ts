@@ -0,0 +1,261 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { PaymentRequestsService } from '../payment-requests/payment-requests.service';
+import { QrCodesService } from '../qr-codes/qr-codes.service';
+import { SettlementsService } from '../settlements/settlements.service';
+import { RefundsService } from '../refunds/refunds.service';
+import type { ApiKeyPrincipal } from './api-key-scopes';
+
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60;
+// Incoming transfers that count as a merchant getting paid
+const PAYMENT_TYPES = ['qr_payment', 'send', 'payment_link'];
+
+export interface CreatePaymentRequestInput {
+  payer?: string;
+  amount?: number;
+  description?: string;
+  expiresInMinutes?: number;
+}
+
+export interface CreateRefundInput {
+  /** Reference of the payment to refund */
+  payment?: string;
+  amount?: number;
+  reason?: string;
+}
+
+export interface CreateQrCodeInput {
+  amount?: number;
+  description?: string;
+  expiresInMinutes?: number;
+}
+
+/**
+ * The /v1 API on top of the services the app already uses. Objects are
+ * scoped to the key's merchant and mode: a test key only sees objects it
+ * created in test mode, and those can never be paid.
+ */
+@Injectable()
+export class PublicApiService {
+  constructor(
+    private prisma: PrismaService,
+    private paymentRequests: PaymentRequestsService,
+    private qrCodes: QrCodesService,
+    private settlements: SettlementsService,
+    private refunds: RefundsService,
+  ) {}
+
+  async createPaymentRequest(
+    apiKey: ApiKeyPrincipal,
+    input: CreatePaymentRequestInput,
+  ) {
+    const payer = input.payer?.trim().replace(/^@/, '');
+    if (!payer) {
+      throw new BadRequestException(
+        "payer (the customer's vuraTag) is required",
+      );
+    }
+    const amount = this.validateAmount(input.amount);
+    if (amount === undefined) {
+      throw new BadRequestException('amount is required');
+    }
+
+    const created = await this.paymentRequests.createRequest(
+      apiKey.userId,
+      payer,
+      amount,
+      input.description,
+      this.validateExpiry(input.expiresInMinutes, 60),
+      apiKey.mode === 'live',
+    );
+    return this.getPaymentRequest(apiKey, created.request.reference);
+  }
+
+  async getPaymentRequest(apiKey: ApiKeyPrincipal, reference: string) {
+    const request = await this.prisma.paymentRequest.findFirst({
+      where: {
+        reference,
+        requesterId: apiKey.userId,
+        livemode: apiKey.mode === 'live',
+      },
+      include: { payer: { select: { vuraTag: true } } },
+    });
+    if (!request) {
+      throw new NotFoundException('Payment request not found');
+    }
+
+    return {
+      id: request.id,
+      reference: request.reference,
+      status:
+        request.status === 'pending' && request.expiresAt <= new Date()
+          ? 'expired'
+          : request.status,
+      amount: Number(request.amount),
+      currency: request.currency,
+      description: request.description,
+      payer: request.payer?.vuraTag ?? null,
+      livemode: request.livemode,
+      createdAt: request.createdAt,
+      expiresAt: request.expiresAt,
+      paidAt: request.status === 'accepted' ? request.completedAt : null,
+    };
+  }
+
+  async createQrCode(apiKey: ApiKeyPrincipal, input: CreateQrCodeInput) {
+    const amount = this.validateAmount(input.amount);
+    const created = await this.qrCodes.generateQrCode(
+      apiKey.userId,
+      amount,
+      input.description,
+      this.validateExpiry(input.expiresInMinutes, 30),
+      apiKey.mode === 'live',
+    );
+    return {
+      ...(await this.getQrCode(apiKey, created.qrCode.code)),
+      qrContent: created.qrContent,
+    };
+  }
+
+  async getQrCode(apiKey: ApiKeyPrincipal, code: string) {
+    const qrCode = await this.prisma.qrPaymentCode.findFirst({
+      where: {
+        code,
+        merchantId: apiKey.userId,
+        livemode: apiKey.mode === 'live',
+      },
+      include: { payer: { select: { vuraTag: true } } },
+    });
+    if (!qrCode) {
+      throw new NotFoundException('QR code not found');
+    }
+
+    const payment =
+      qrCode.status === 'used'
+        ? await this.prisma.transaction.findFirst({
+            where: {
+              receiverId: apiKey.userId,
+              type: 'qr_payment',
+              metadata: { path: ['qrCodeId'], equals: qrCode.id },
+            },
+            select: { reference: true, amount: true },
+          })
+        : null;
+
+    return {
+      id: qrCode.id,
+      code: qrCode.code,
+      status:
+        qrCode.status === 'active' && qrCode.expiresAt <= new Date()
+          ? 'expired'
+          : qrCode.status,
+      amount: qrCode.amount ? Number(qrCode.amount) : null,
+      description: qrCode.description,
+      livemode: qrCode.livemode,
+      createdAt: qrCode.createdAt,
+      expiresAt: qrCode.expiresAt,
+      paidAt: qrCode.usedAt,
+      payment: payment
+        ? {
+            reference: payment.reference,
+            amount: Number(payment.amount),
+            customer: qrCode.payer?.vuraTag ?? null,
+          }
+        : null,
+    };
+  }
+
+  /** A payment the merchant received, by its transaction reference */
+  async getPayment(apiKey: ApiKeyPrincipal, reference: string) {
+    // Test objects cannot be paid, so there are no test payments to find
+    const transaction =
+      apiKey.mode === 'live'
+        ? await this.prisma.transaction.findFirst({
+            where: {
+              reference,
+              receiverId: apiKey.userId,
+              type: { in: PAYMENT_TYPES },
+            },
+            include: { sender: { select: { vuraTag: true } } },
+          })
+        : null;
+    if (!transaction) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return {
+      id: transaction.id,
+      reference: transaction.reference,
+      type: transaction.type,
+      status: transaction.status,
+      amount: Number(transaction.amount),
+      refundedAmount: Number(transaction.refundedAmount),
+      currency: transaction.currency,
+      customer: transaction.sender?.vuraTag ?? null,
+      livemode: true,
+      createdAt: transaction.createdAt,
+    };
+  }
+
+  /**
+   * Refund (part of) a payment. Leave amount out to refund what is left.
+   */
+  async createRefund(apiKey: ApiKeyPrincipal, input: CreateRefundInput) {
+    if (!input.payment) {
+      throw new BadRequestException(
+        'payment (the payment reference) is required',
+      );
+    }
+    // Test objects cannot be paid, so there is nothing to refund in test mode
+    if (apiKey.mode === 'test') {
+      throw new NotFoundException('Payment not found');
+    }
+    const refund = await this.refunds.refundAsMerchant(apiKey.userId, {
+      reference: input.payment,
+      amount: input.amount,
+      reason: input.reason,
+    });
+    return { ...refund, livemode: true };
+  }
+
+  /**
+   * Daily settlement batches of QR and payment link receipts, newest first.
+   * Pass the returned nextCursor as `before` to page back.
+   */
+  async listSettlements(
+    apiKey: ApiKeyPrincipal,
+    options: { limit?: number; before?: string } = {},
+  ) {
+    // Test objects cannot be paid, so nothing in test mode ever settles
+    if (apiKey.mode === 'test') {
+      return { settlements: [], nextCursor: null };
+    }
+    return this.settlements.list(apiKey.userId, options);
+  }
+
+  private validateAmount(amount: number | undefined): number | undefined {
+    if (amount === undefined || amount === null) return undefined;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+    return amount;
+  }
+
+  private validateExpiry(minutes: number | undefined, fallback: number) {
+    if (minutes === undefined || minutes === null) return fallback;
+    if (
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > MAX_EXPIRY_MINUTES
+    ) {
+      throw new BadRequestException(
+        `expiresInMinutes must be a whole number from 1 to ${MAX_EXPIRY_MINUTES}`,
+      );
+    }
+    return minutes;
+  }
+}
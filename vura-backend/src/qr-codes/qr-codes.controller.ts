@@ -6,10 +6,12 @@ import {
   Param,
   UseGuards,
   Request,
+  UseInterceptors,
 } from '@nestjs/common';
 import { Request as ExpressRequest } from 'express';
 import { QrCodesService } from './qr-codes.service';
 import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @Controller('qr-codes')
 @UseGuards(AuthGuard)
@@ -48,6 +50,7 @@ export class QrCodesController {
    * POST /qr-codes/pay
    */
   @Post('pay')
+  @UseInterceptors(IdempotencyInterceptor)
   async processQrPayment(
     @Request() req: ExpressRequest & { user: { userId: string } },
     @Body() body: { code: string; amount: number; pin: string },
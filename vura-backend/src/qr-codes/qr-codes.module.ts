@@ -2,8 +2,13 @@ import { Module } from '@nestjs/common';
 import { QrCodesService } from './qr-codes.service';
 import { QrCodesController } from './qr-codes.controller';
 import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { HoldsModule } from '../holds/holds.module';
 
 @Module({
+  imports: [LedgerModule, IdempotencyModule, OutboxModule, HoldsModule],
   providers: [QrCodesService, PrismaService],
   controllers: [QrCodesController],
   exports: [QrCodesService],
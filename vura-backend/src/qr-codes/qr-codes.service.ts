@@ -2,24 +2,36 @@ import {
   Injectable,
   BadRequestException,
   NotFoundException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { HoldsService } from '../holds/holds.service';
 import { randomBytes } from 'crypto';
 import { Decimal } from '@prisma/client/runtime/library';
+import * as bcrypt from 'bcrypt';
 
 @Injectable()
 export class QrCodesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private holds: HoldsService,
+  ) {}
 
   /**
    * Generate a QR payment code for merchant
-   * Customer scans → enters amount → security countdown → instant payment
+   * Customer scans → enters amount → security countdown → instant payment.
+   * Test codes (livemode false, from a test API key) scan as invalid.
    */
   async generateQrCode(
     merchantId: string,
     amount?: number,
     description?: string,
     expiresInMinutes: number = 30,
+    livemode: boolean = true,
   ) {
     // Verify merchant exists and is active
     const merchant = await this.prisma.user.findUnique({
@@ -50,6 +62,7 @@ export class QrCodesService {
         description: description || 'Payment',
         expiresAt,
         status: 'active',
+        livemode,
         metadata: {
           merchantVuraTag: merchant.vuraTag,
           generatedAt: new Date().toISOString(),
@@ -96,7 +109,7 @@ export class QrCodesService {
       },
     });
 
-    if (!qrCode) {
+    if (!qrCode || !qrCode.livemode) {
       throw new NotFoundException('Invalid QR code');
     }
 
@@ -128,7 +141,8 @@ export class QrCodesService {
 
   /**
    * Process QR code payment
-   * Called after security countdown confirmation
+   * Called after security countdown confirmation. Claims the code and moves
+   * the money payer → merchant in one database transaction.
    */
   async processQrPayment(
     payerId: string,
@@ -149,7 +163,7 @@ export class QrCodesService {
       },
     });
 
-    if (!qrCode || qrCode.status !== 'active') {
+    if (!qrCode || qrCode.status !== 'active' || !qrCode.livemode) {
       throw new BadRequestException('Invalid or expired QR code');
     }
 
@@ -167,19 +181,110 @@ export class QrCodesService {
       );
     }
 
-    // Mark QR code as used
-    await this.prisma.qrPaymentCode.update({
-      where: { id: qrCode.id },
-      data: {
-        status: 'used',
-        usedAt: new Date(),
-        usedBy: payerId,
-      },
+    if (qrCode.merchant.id === payerId) {
+      throw new BadRequestException('Cannot pay your own QR code');
+    }
+
+    if (new Date() > qrCode.expiresAt) {
+      throw new BadRequestException('QR code has expired');
+    }
+
+    const payer = await this.prisma.user.findUnique({
+      where: { id: payerId },
+      select: { hashedPin: true },
+    });
+    if (!payer?.hashedPin) {
+      throw new UnauthorizedException('Set your PIN in Settings.');
+    }
+    if (!(await bcrypt.compare(pin, payer.hashedPin))) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+
+    await this.holds.checkHeldFunds(payerId, new Decimal(finalAmount));
+
+    const reference = `QR-${Date.now()}-${randomBytes(4).toString('hex')}`;
+
+    const transaction = await this.prisma.$transaction(async (tx) => {
+      // Claim the code first: only one concurrent payer can flip it from active
+      const claimed = await tx.qrPaymentCode.updateMany({
+        where: { id: qrCode.id, status: 'active' },
+        data: {
+          status: 'used',
+          usedAt: new Date(),
+          usedBy: payerId,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('Invalid or expired QR code');
+      }
+
+      const posting = await this.ledger.transfer(tx, {
+        reference,
+        type: 'transfer',
+        from: LedgerService.user(payerId),
+        to: LedgerService.user(qrCode.merchant.id),
+        amount: finalAmount,
+        description: qrCode.description || 'QR Payment',
+        metadata: { qrCodeId: qrCode.id },
+      });
+      const { before, after } = posting.balances[LedgerService.user(payerId)];
+
+      const created = await tx.transaction.create({
+        data: {
+          senderId: payerId,
+          receiverId: qrCode.merchant.id,
+          amount: finalAmount,
+          currency: 'NGN',
+          type: 'qr_payment',
+          status: 'SUCCESS',
+          idempotencyKey: reference,
+          reference,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          metadata: {
+            qrCodeId: qrCode.id,
+            description: qrCode.description,
+          },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'QR_PAYMENT',
+          userId: payerId,
+          actorType: 'user',
+          metadata: {
+            reference,
+            qrCodeId: qrCode.id,
+            merchantId: qrCode.merchant.id,
+            amount: finalAmount,
+          },
+        },
+      });
+
+      await this.outbox.record(
+        tx,
+        'QrPaymentCompleted',
+        {
+          transactionId: created.id,
+          reference,
+          qrCodeId: qrCode.id,
+          merchantId: qrCode.merchant.id,
+          payerId,
+          amount: String(finalAmount),
+          currency: 'NGN',
+          description: qrCode.description || 'QR Payment',
+        },
+        created.id,
+      );
+
+      return created;
     });
 
-    // Return payment details for transaction processing
     return {
       success: true,
+      reference,
+      transactionId: transaction.id,
       recipientVuraTag: qrCode.merchant.vuraTag,
       recipientId: qrCode.merchant.id,
       amount: finalAmount,
@@ -192,7 +297,7 @@ export class QrCodesService {
    * Get merchant's QR code history
    */
   async getMerchantQrCodes(merchantId: string, status?: string) {
-    const where: any = { merchantId };
+    const where: any = { merchantId, livemode: true };
     if (status) {
       where.status = status;
     }
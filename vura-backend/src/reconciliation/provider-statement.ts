@@ -0,0 +1,266 @@
+import { BadRequestException } from '@nestjs/common';
+import Decimal from 'decimal.js';
+import type { PaystackStatementEntry } from '../services/paystack.service';
+import type { MonnifyStatementEntry } from '../services/monnify.service';
+
+export const RECONCILIATION_PROVIDERS = [
+  'paystack',
+  'monnify',
+  'vpay',
+] as const;
+
+export type ReconciliationProvider = (typeof RECONCILIATION_PROVIDERS)[number];
+
+export type ProviderRecordStatus =
+  | 'success'
+  | 'failed'
+  | 'reversed'
+  | 'pending';
+
+/**
+ * A provider's record of one collection (credit) or payout (debit), in NGN
+ */
+export interface ProviderRecord {
+  reference: string;
+  // Every value our Transaction rows may store for this record
+  keys: string[];
+  amount: Decimal;
+  status: ProviderRecordStatus;
+  rawStatus: string;
+  direction: 'credit' | 'debit';
+  occurredAt: Date | null;
+}
+
+const MAX_CSV_ROWS = 20000;
+
+const COLUMN_ALIASES = {
+  reference: [
+    'reference',
+    'transaction_reference',
+    'payment_reference',
+    'transaction_ref',
+    'ref',
+  ],
+  id: ['id', 'transaction_id', 'transfer_code', 'session_id'],
+  amount: ['amount', 'amount_paid', 'amount_ngn'],
+  status: ['status', 'payment_status', 'transaction_status'],
+  direction: ['direction', 'type', 'transaction_type'],
+  date: ['date', 'created_at', 'paid_at', 'completed_on', 'transaction_date'],
+};
+
+const STATUS_WORDS: Record<
+  Exclude<ProviderRecordStatus, 'pending'>,
+  string[]
+> = {
+  success: [
+    'success',
+    'successful',
+    'paid',
+    'completed',
+    'complete',
+    'overpaid',
+  ],
+  failed: [
+    'failed',
+    'failure',
+    'abandoned',
+    'declined',
+    'cancelled',
+    'expired',
+    'rejected',
+  ],
+  reversed: ['reversed', 'refunded'],
+};
+
+const DEBIT_WORDS = ['debit', 'transfer', 'payout', 'outflow', 'disbursement'];
+
+export function normalizeStatus(raw: string): ProviderRecordStatus {
+  const value = raw.trim().toLowerCase();
+  for (const [status, words] of Object.entries(STATUS_WORDS)) {
+    if (words.includes(value)) return status as ProviderRecordStatus;
+  }
+  return 'pending';
+}
+
+/**
+ * The references and ids a provider record can appear under on our side:
+ * webhooks store Monnify deposits as MONNIFY-<ref>, Paystack dedicated
+ * account deposits as DVA-<ref> and card charges as paystack_<id>.
+ */
+export function referenceKeys(
+  provider: ReconciliationProvider,
+  references: (string | null | undefined)[],
+  providerId?: string | null,
+): string[] {
+  const refs = references.filter((r): r is string => Boolean(r?.trim()));
+  const keys = new Set(refs);
+  for (const ref of refs) {
+    if (provider === 'monnify') keys.add(`MONNIFY-${ref}`);
+    if (provider === 'paystack') keys.add(`DVA-${ref}`);
+  }
+  if (providerId) {
+    keys.add(providerId);
+    if (provider === 'paystack') keys.add(`paystack_${providerId}`);
+  }
+  return [...keys];
+}
+
+export function fromPaystack(
+  entry: PaystackStatementEntry,
+  direction: ProviderRecord['direction'],
+): ProviderRecord {
+  return {
+    reference: entry.reference,
+    keys: referenceKeys(
+      'paystack',
+      [entry.reference],
+      direction === 'credit' ? entry.id : null,
+    ),
+    amount: new Decimal(entry.amount),
+    status: normalizeStatus(entry.status),
+    rawStatus: entry.status,
+    direction,
+    occurredAt: entry.occurredAt ? new Date(entry.occurredAt) : null,
+  };
+}
+
+export function fromMonnify(entry: MonnifyStatementEntry): ProviderRecord {
+  const reference = entry.paymentReference ?? entry.transactionReference;
+  return {
+    reference,
+    keys: referenceKeys('monnify', [
+      entry.paymentReference,
+      entry.transactionReference,
+    ]),
+    amount: new Decimal(entry.amount),
+    status: normalizeStatus(entry.status),
+    rawStatus: entry.status,
+    direction: 'credit',
+    occurredAt: entry.occurredAt ? new Date(entry.occurredAt) : null,
+  };
+}
+
+/**
+ * Parse a transaction export from the provider's dashboard. Needs a header
+ * row with at least reference, amount (NGN) and status columns; common
+ * header spellings from each provider are accepted. Rows without a
+ * direction column are treated as collections, except for VPay, which we
+ * only use for payouts.
+ */
+export function parseStatementCsv(
+  provider: ReconciliationProvider,
+  content: string,
+): ProviderRecord[] {
+  const rows = parseCsv(content).filter((row) =>
+    row.some((cell) => cell.trim() !== ''),
+  );
+  if (rows.length < 2) {
+    throw new BadRequestException('The file has no transaction rows');
+  }
+  if (rows.length - 1 > MAX_CSV_ROWS) {
+    throw new BadRequestException(
+      `Upload at most ${MAX_CSV_ROWS} rows at a time`,
+    );
+  }
+
+  const header = rows[0].map((h) =>
+    h
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, ''),
+  );
+  const column = (name: keyof typeof COLUMN_ALIASES) =>
+    header.findIndex((h) => COLUMN_ALIASES[name].includes(h));
+  const cols = {
+    reference: column('reference'),
+    id: column('id'),
+    amount: column('amount'),
+    status: column('status'),
+    direction: column('direction'),
+    date: column('date'),
+  };
+  if (cols.reference < 0 || cols.amount < 0 || cols.status < 0) {
+    throw new BadRequestException(
+      'The file needs reference, amount and status columns',
+    );
+  }
+
+  return rows.slice(1).map((row, i) => {
+    const line = i + 2;
+    const cell = (index: number) =>
+      index >= 0 ? (row[index] ?? '').trim() : '';
+
+    const reference = cell(cols.reference);
+    if (!reference) {
+      throw new BadRequestException(`Row ${line}: reference is missing`);
+    }
+    const rawAmount = cell(cols.amount).replace(/[₦,\s]/g, '');
+    if (!rawAmount || !Number.isFinite(Number(rawAmount))) {
+      throw new BadRequestException(`Row ${line}: invalid amount`);
+    }
+    const rawDate = cell(cols.date);
+    const occurredAt = rawDate ? new Date(rawDate) : null;
+    if (occurredAt && Number.isNaN(occurredAt.getTime())) {
+      throw new BadRequestException(`Row ${line}: invalid date`);
+    }
+    const rawDirection = cell(cols.direction).toLowerCase();
+    const direction =
+      DEBIT_WORDS.includes(rawDirection) ||
+      (!rawDirection && provider === 'vpay')
+        ? 'debit'
+        : 'credit';
+    const rawStatus = cell(cols.status);
+
+    return {
+      reference,
+      keys: referenceKeys(provider, [reference], cell(cols.id) || null),
+      amount: new Decimal(rawAmount).abs(),
+      status: normalizeStatus(rawStatus),
+      rawStatus,
+      direction,
+      occurredAt,
+    };
+  });
+}
+
+/** RFC 4180: quoted fields may hold commas, doubled quotes and newlines */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { ReconciliationService } from './reconciliation.service';
+import type {
+  ExceptionListQuery,
+  ExceptionResolutionInput,
+  ReconciliationRunInput,
+  RunListQuery,
+  StatementUploadInput,
+} from './reconciliation.service';
+
+@Controller('admin/reconciliation')
+@UseGuards(AdminGuard)
+export class ReconciliationController {
+  constructor(private readonly reconciliation: ReconciliationService) {}
+
+  @RequirePermission('reconciliation:read')
+  @Get('summary')
+  async summary() {
+    const summary = await this.reconciliation.summary();
+    return {
+      success: true,
+      data: summary,
+    };
+  }
+
+  @RequirePermission('reconciliation:read')
+  @Get('runs')
+  async listRuns(@Query() query: RunListQuery) {
+    const runs = await this.reconciliation.listRuns(query);
+    return {
+      success: true,
+      data: runs,
+    };
+  }
+
+  @RequirePermission('reconciliation:read')
+  @Get('runs/:id')
+  async getRun(@Param('id') id: string) {
+    const run = await this.reconciliation.getRun(id);
+    return {
+      success: true,
+      data: run,
+    };
+  }
+
+  /**
+   * Pull the provider's records for the period from its API and match them
+   */
+  @RequirePermission('reconciliation:manage')
+  @Post('runs')
+  async run(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: ReconciliationRunInput,
+  ) {
+    const run = await this.reconciliation.runFromApi(admin, body);
+    return {
+      success: true,
+      data: run,
+    };
+  }
+
+  /**
+   * Match a CSV export from the provider's dashboard (field `file`)
+   */
+  @RequirePermission('reconciliation:manage')
+  @Post('runs/upload')
+  @UseInterceptors(FileInterceptor('file'))
+  async upload(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: StatementUploadInput,
+  ) {
+    const run = await this.reconciliation.runFromUpload(admin, body, file);
+    return {
+      success: true,
+      data: run,
+    };
+  }
+
+  /**
+   * Newest first. Filter by status (open, pending_approval, resolved),
+   * provider and type.
+   */
+  @RequirePermission('reconciliation:read')
+  @Get('exceptions')
+  async listExceptions(@Query() query: ExceptionListQuery) {
+    const exceptions = await this.reconciliation.listExceptions(query);
+    return {
+      success: true,
+      data: exceptions,
+    };
+  }
+
+  @RequirePermission('reconciliation:read')
+  @Get('exceptions/:id')
+  async getException(@Param('id') id: string) {
+    const exception = await this.reconciliation.getException(id);
+    return {
+      success: true,
+      data: exception,
+    };
+  }
+
+  /**
+   * action: acknowledge (with a note), requery (stuck Paystack transfers)
+   * or credit (missing deposits, proposed for a second admin's approval)
+   */
+  @RequirePermission('reconciliation:manage')
+  @Post('exceptions/:id/resolve')
+  async resolve(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Param('id') id: string,
+    @Body() body: ExceptionResolutionInput,
+  ) {
+    const result = await this.reconciliation.resolve(admin, id, body);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
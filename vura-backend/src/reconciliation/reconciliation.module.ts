@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationController } from './reconciliation.controller';
+import { PrismaService } from '../prisma.service';
+import { PaystackService } from '../services/paystack.service';
+import { MonnifyService } from '../services/monnify.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { AdminApprovalsModule } from '../admin-approvals/admin-approvals.module';
+
+@Module({
+  imports: [LedgerModule, AdminAuthModule, AdminApprovalsModule],
+  providers: [
+    ReconciliationService,
+    PrismaService,
+    PaystackService,
+    MonnifyService,
+  ],
+  controllers: [ReconciliationController],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,267 @@
+import type { Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { LedgerService } from '../ledger/ledger.service';
+import { PrismaService } from '../prisma.service';
+import { MonnifyService } from '../services/monnify.service';
+import { PaystackService } from '../services/paystack.service';
+import { ReconciliationService } from './reconciliation.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const ADMIN = { adminId: 'admin-1' } as AdminPrincipal;
+const PERIOD = { from: '2026-03-01T00:00:00Z', to: '2026-03-02T00:00:00Z' };
+const HEADER = 'Reference,Amount,Status,Type,Date';
+
+// The fields written for each exception
+interface WrittenException {
+  fingerprint: string;
+  type: string;
+  providerReference: string | null;
+  transactionId: string | null;
+  providerAmount: number | null;
+  ledgerAmount: number | null;
+}
+
+/**
+ * Statements are uploaded as Paystack CSV exports. The database is a stub:
+ * the first `transaction.findMany` returns the rows matching the statement's
+ * references, the second our own transactions for the period.
+ */
+describe('ReconciliationService', () => {
+  let prisma: {
+    reconciliationRun: { create: jest.Mock; update: jest.Mock };
+    reconciliationException: { createMany: jest.Mock };
+    transaction: { findMany: jest.Mock };
+  };
+  let service: ReconciliationService;
+
+  const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+    id: 'tx-1',
+    senderId: null,
+    receiverId: 'user-1',
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    type: 'deposit',
+    status: 'SUCCESS',
+    idempotencyKey: 'DVA-ref-1',
+    providerTxId: null,
+    beforeBalance: null,
+    afterBalance: null,
+    heldUntil: null,
+    isFlagged: false,
+    flagReason: null,
+    reference: 'DVA-ref-1',
+    refundedAmount: new Decimal(0),
+    externalReference: null,
+    metadata: { provider: 'paystack' },
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    ...overrides,
+  });
+  const ledgerHas = (matched: Transaction[], ours: Transaction[] = []) =>
+    prisma.transaction.findMany
+      .mockResolvedValueOnce(matched)
+      .mockResolvedValueOnce(ours);
+  const upload = (...rows: string[]) => {
+    const content = [HEADER, ...rows].join('\n');
+    return service.runFromUpload(ADMIN, { provider: 'paystack', ...PERIOD }, {
+      originalname: 'statement.csv',
+      size: content.length,
+      buffer: Buffer.from(content),
+    } as Express.Multer.File);
+  };
+  const exceptions = () =>
+    (
+      prisma.reconciliationException.createMany.mock.lastCall as [
+        { data: WrittenException[] },
+      ]
+    )[0].data;
+
+  beforeEach(() => {
+    prisma = {
+      reconciliationRun: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'run-1', ...data }),
+        ),
+        update: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'run-1', ...data }),
+        ),
+      },
+      reconciliationException: { createMany: jest.fn() },
+      transaction: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service = new ReconciliationService(
+      prisma as unknown as PrismaService,
+      {} as LedgerService,
+      {} as PaystackService,
+      {} as MonnifyService,
+      {} as AdminApprovalsService,
+    );
+  });
+
+  it('matches a deposit stored under its DVA- reference', async () => {
+    ledgerHas([transaction()], [transaction()]);
+
+    const run = await upload('ref-1,5000,success,collection,2026-03-01');
+
+    expect(run).toMatchObject({
+      status: 'completed',
+      recordCount: 1,
+      matchedCount: 1,
+      exceptionCount: 0,
+    });
+    expect(prisma.reconciliationException.createMany).not.toHaveBeenCalled();
+  });
+
+  it('flags settled records we hold no transaction for', async () => {
+    await upload(
+      'ref-1,5000,success,collection,2026-03-01',
+      'TRF-9,"12,000.00",success,transfer,2026-03-01',
+      'ref-2,700,abandoned,collection,2026-03-01',
+    );
+
+    expect(exceptions()).toMatchObject([
+      {
+        type: 'missing_credit',
+        fingerprint: 'paystack:missing_credit:ref-1',
+        providerAmount: 5000,
+      },
+      { type: 'unknown_transfer', providerAmount: 12000 },
+    ]);
+  });
+
+  it('flags a settled amount that differs from ours', async () => {
+    ledgerHas([transaction()], [transaction()]);
+
+    await upload('ref-1,4500,success,collection,2026-03-01');
+
+    expect(exceptions()).toMatchObject([
+      {
+        type: 'amount_mismatch',
+        transactionId: 'tx-1',
+        providerAmount: 4500,
+        ledgerAmount: 5000,
+      },
+    ]);
+  });
+
+  it('flags a deposit we never completed', async () => {
+    ledgerHas([transaction({ status: 'PENDING' })]);
+
+    await upload('ref-1,5000,success,collection,2026-03-01');
+
+    expect(exceptions()).toMatchObject([{ type: 'missing_credit' }]);
+  });
+
+  it('flags a transfer the provider reversed but we marked successful', async () => {
+    const transfer = transaction({
+      type: 'external_transfer',
+      reference: 'TRF-1',
+      idempotencyKey: 'TRF-1',
+    });
+    ledgerHas([transfer], [transfer]);
+
+    await upload('TRF-1,5000,reversed,transfer,2026-03-01');
+
+    expect(exceptions()).toMatchObject([
+      { type: 'status_mismatch', transactionId: 'tx-1' },
+    ]);
+  });
+
+  it('flags a reference the provider settled twice', async () => {
+    ledgerHas([transaction()], [transaction()]);
+
+    await upload(
+      'ref-1,5000,success,collection,2026-03-01',
+      'ref-1,5000,success,collection,2026-03-01',
+    );
+
+    expect(exceptions()).toMatchObject([
+      { type: 'duplicate', providerReference: 'ref-1', providerAmount: 10000 },
+    ]);
+  });
+
+  it('flags a statement record that matches two of our transactions', async () => {
+    ledgerHas([
+      transaction(),
+      transaction({ id: 'tx-2', reference: 'ref-1', idempotencyKey: 'x' }),
+    ]);
+
+    await upload('ref-1,5000,success,collection,2026-03-01');
+
+    expect(exceptions()).toMatchObject([{ type: 'duplicate' }]);
+  });
+
+  describe('our side', () => {
+    it('flags successes the statement does not show, outside the boundary', async () => {
+      ledgerHas(
+        [],
+        [
+          transaction(),
+          // Can settle at the provider after the period ends
+          transaction({
+            id: 'tx-late',
+            createdAt: new Date('2026-03-01T23:30:00Z'),
+          }),
+          // The statement has no transfers to compare against
+          transaction({ id: 'tx-transfer', type: 'external_transfer' }),
+        ],
+      );
+
+      await upload('ref-9,100,failed,collection,2026-03-01');
+
+      expect(exceptions()).toEqual([
+        expect.objectContaining({
+          type: 'missing_at_provider',
+          transactionId: 'tx-1',
+          fingerprint: 'paystack:missing_at_provider:tx:tx-1',
+        }),
+      ]);
+    });
+
+    it('flags transfers still pending after half an hour', async () => {
+      ledgerHas(
+        [],
+        [
+          transaction({
+            id: 'tx-stuck',
+            type: 'external_transfer',
+            status: 'PENDING',
+            providerTxId: 'TRF_code',
+          }),
+          transaction({
+            id: 'tx-fresh',
+            type: 'external_transfer',
+            status: 'PENDING',
+            createdAt: new Date(),
+          }),
+        ],
+      );
+
+      await upload('ref-9,100,failed,transfer,2026-03-01');
+
+      expect(exceptions()).toMatchObject([
+        {
+          type: 'stuck_pending',
+          transactionId: 'tx-stuck',
+          providerReference: 'TRF_code',
+          ledgerAmount: 5000,
+        },
+      ]);
+    });
+  });
+
+  it('marks the run failed when matching throws', async () => {
+    prisma.transaction.findMany.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      upload('ref-1,5000,success,collection,2026-03-01'),
+    ).rejects.toThrow('db down');
+    expect(
+      (prisma.reconciliationRun.update.mock.lastCall as [{ data: object }])[0]
+        .data,
+    ).toMatchObject({ status: 'failed', error: 'db down' });
+  });
+});
@@ -0,0 +1,935 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  Prisma,
+  ReconciliationException,
+  ReconciliationRun,
+  Transaction,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaystackService } from '../services/paystack.service';
+import { MonnifyService } from '../services/monnify.service';
+import { AdminApprovalsService } from '../admin-approvals/admin-approvals.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { lagosDay } from '../settlements/settlements.service';
+import {
+  RECONCILIATION_PROVIDERS,
+  ProviderRecord,
+  ReconciliationProvider,
+  fromMonnify,
+  fromPaystack,
+  normalizeStatus,
+  parseStatementCsv,
+} from './provider-statement';
+
+export const EXCEPTION_TYPES = [
+  'missing_credit',
+  'unknown_transfer',
+  'missing_at_provider',
+  'duplicate',
+  'amount_mismatch',
+  'status_mismatch',
+  'stuck_pending',
+] as const;
+
+export type ReconciliationExceptionType = (typeof EXCEPTION_TYPES)[number];
+
+export interface ReconciliationRunInput {
+  provider: string;
+  from: string;
+  to: string;
+}
+
+export interface StatementUploadInput {
+  provider: string;
+  from?: string;
+  to?: string;
+}
+
+export interface RunListQuery {
+  provider?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ExceptionListQuery {
+  status?: string;
+  provider?: string;
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ExceptionResolutionInput {
+  action: 'acknowledge' | 'requery' | 'credit';
+  note?: string;
+  // Who to credit for a missing deposit we hold no transaction for
+  userId?: string;
+  vuraTag?: string;
+}
+
+interface Finding {
+  type: ReconciliationExceptionType;
+  providerReference?: string | null;
+  transactionId?: string | null;
+  providerAmount?: Decimal | null;
+  ledgerAmount?: Decimal | null;
+  providerStatus?: string | null;
+  details?: Prisma.InputJsonObject;
+}
+
+type ExceptionWithTransaction = ReconciliationException & {
+  transaction: Transaction | null;
+};
+
+// Providers whose statements we can pull; VPay exports are uploaded
+const API_PROVIDERS: ReconciliationProvider[] = ['paystack', 'monnify'];
+const LAGOS_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIOD_DAYS = 31;
+// 100 records a page; a period with more should be split up
+const MAX_PAGES = 50;
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+// Bank transfers normally settle within minutes
+const STUCK_AFTER_MS = 30 * 60 * 1000;
+// A payment started just before the period ends can settle after it
+const BOUNDARY_MS = 60 * 60 * 1000;
+// Exceptions keyed by our transaction rather than a provider reference
+const TRANSACTION_KEYED: ReconciliationExceptionType[] = [
+  'stuck_pending',
+  'missing_at_provider',
+];
+
+/**
+ * Matches provider statements (pulled from Paystack and Monnify, or
+ * uploaded as CSV exports) against our transactions and raises an
+ * exception for every record that does not line up. Finance works the
+ * exception queue: acknowledge with a note, re-query a stuck transfer, or
+ * propose a credit for a deposit we never booked.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private paystack: PaystackService,
+    private monnify: MonnifyService,
+    private approvals: AdminApprovalsService,
+  ) {}
+
+  /**
+   * Reconcile yesterday (Lagos time) for every configured provider, after
+   * late webhooks have had time to land
+   */
+  @Cron('0 2 * * *', { timeZone: 'Africa/Lagos' })
+  async runNightly() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    const periodEnd = new Date(
+      lagosDay(new Date()).getTime() - LAGOS_OFFSET_MS,
+    );
+    const periodStart = new Date(periodEnd.getTime() - DAY_MS);
+    try {
+      for (const provider of API_PROVIDERS) {
+        if (!this.isConfigured(provider)) continue;
+        try {
+          await this.execute(
+            provider,
+            'api',
+            periodStart,
+            periodEnd,
+            null,
+            () => this.fetchRecords(provider, periodStart, periodEnd),
+          );
+        } catch (err) {
+          this.logger.error(
+            `Nightly ${provider} reconciliation failed: ${(err as Error).message}`,
+          );
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async runFromApi(admin: AdminPrincipal, input: ReconciliationRunInput) {
+    const provider = this.parseProvider(input.provider);
+    if (!API_PROVIDERS.includes(provider)) {
+      throw new BadRequestException(
+        `${provider} has no statement API; upload its CSV export instead`,
+      );
+    }
+    if (!this.isConfigured(provider)) {
+      throw new BadRequestException(`${provider} is not configured`);
+    }
+    const { from, to } = this.parsePeriod(input.from, input.to);
+    return this.execute(provider, 'api', from, to, admin, () =>
+      this.fetchRecords(provider, from, to),
+    );
+  }
+
+  /**
+   * Without an explicit period, the file covers the span of its own dates
+   */
+  async runFromUpload(
+    admin: AdminPrincipal,
+    input: StatementUploadInput,
+    file: Express.Multer.File,
+  ) {
+    const provider = this.parseProvider(input.provider);
+    if (!file) throw new BadRequestException('No file uploaded');
+    if (!file.originalname.toLowerCase().endsWith('.csv')) {
+      throw new BadRequestException('Upload the statement as a .csv file');
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new BadRequestException('File too large. Maximum size is 5MB.');
+    }
+
+    const records = parseStatementCsv(provider, file.buffer.toString('utf8'));
+    let period: { from: Date; to: Date };
+    if (input.from || input.to) {
+      period = this.parsePeriod(input.from, input.to);
+    } else {
+      const times = records
+        .map((r) => r.occurredAt?.getTime())
+        .filter((t): t is number => t !== undefined);
+      if (times.length === 0) {
+        throw new BadRequestException(
+          'The file has no dates; give the period it covers (from and to)',
+        );
+      }
+      period = {
+        from: new Date(Math.min(...times)),
+        to: new Date(Math.max(...times) + 1),
+      };
+    }
+
+    return this.execute(
+      provider,
+      'csv',
+      period.from,
+      period.to,
+      admin,
+      () => Promise.resolve(records),
+      file.originalname,
+    );
+  }
+
+  /**
+   * Open exceptions by provider and type, and each provider's latest run
+   */
+  async summary() {
+    const [open, lastRuns] = await Promise.all([
+      this.prisma.reconciliationException.groupBy({
+        by: ['provider', 'type', 'status'],
+        where: { status: { in: ['open', 'pending_approval'] } },
+        _count: { _all: true },
+        _sum: { providerAmount: true },
+      }),
+      Promise.all(
+        RECONCILIATION_PROVIDERS.map((provider) =>
+          this.prisma.reconciliationRun.findFirst({
+            where: { provider },
+            orderBy: { createdAt: 'desc' },
+          }),
+        ),
+      ),
+    ]);
+
+    return {
+      open: open.map((g) => ({
+        provider: g.provider,
+        type: g.type,
+        status: g.status,
+        count: g._count._all,
+        providerAmount: g._sum.providerAmount?.toNumber() ?? 0,
+      })),
+      lastRuns: lastRuns.filter((r): r is ReconciliationRun => r !== null),
+    };
+  }
+
+  async listRuns(query: RunListQuery) {
+    const { page, limit } = this.paging(query);
+    const where: Prisma.ReconciliationRunWhereInput = {
+      ...(query.provider && { provider: query.provider }),
+    };
+    const [runs, total] = await Promise.all([
+      this.prisma.reconciliationRun.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.reconciliationRun.count({ where }),
+    ]);
+    return { runs, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  async getRun(id: string) {
+    const run = await this.prisma.reconciliationRun.findUnique({
+      where: { id },
+      include: { exceptions: { orderBy: { createdAt: 'asc' }, take: 500 } },
+    });
+    if (!run) throw new NotFoundException('Reconciliation run not found');
+    return run;
+  }
+
+  async listExceptions(query: ExceptionListQuery) {
+    const { page, limit } = this.paging(query);
+    const where: Prisma.ReconciliationExceptionWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.provider && { provider: query.provider }),
+      ...(query.type && { type: query.type }),
+    };
+    const [exceptions, total] = await Promise.all([
+      this.prisma.reconciliationException.findMany({
+        where,
+        include: { transaction: true },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.reconciliationException.count({ where }),
+    ]);
+    return {
+      exceptions,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getException(id: string) {
+    const exception = await this.prisma.reconciliationException.findUnique({
+      where: { id },
+      include: { transaction: true, run: true },
+    });
+    if (!exception) throw new NotFoundException('Exception not found');
+    return exception;
+  }
+
+  async resolve(
+    admin: AdminPrincipal,
+    id: string,
+    input: ExceptionResolutionInput,
+  ) {
+    const exception = await this.prisma.reconciliationException.findUnique({
+      where: { id },
+      include: { transaction: true },
+    });
+    if (!exception) throw new NotFoundException('Exception not found');
+    if (exception.status !== 'open') {
+      throw new ConflictException(
+        `This exception is already ${exception.status.replace('_', ' ')}`,
+      );
+    }
+
+    switch (input.action) {
+      case 'acknowledge':
+        return this.acknowledge(admin, exception, input.note);
+      case 'requery':
+        return this.requery(admin, exception);
+      case 'credit':
+        return this.proposeCredit(admin, exception, input);
+      default:
+        throw new BadRequestException(
+          'action must be acknowledge, requery or credit',
+        );
+    }
+  }
+
+  // ============================================
+  // RUNS
+  // ============================================
+
+  private async execute(
+    provider: ReconciliationProvider,
+    source: 'api' | 'csv',
+    periodStart: Date,
+    periodEnd: Date,
+    admin: AdminPrincipal | null,
+    load: () => Promise<ProviderRecord[]>,
+    fileName?: string,
+  ) {
+    const run = await this.prisma.reconciliationRun.create({
+      data: {
+        provider,
+        source,
+        periodStart,
+        periodEnd,
+        fileName: fileName ?? null,
+        triggeredBy: admin?.adminId ?? null,
+      },
+    });
+
+    try {
+      const records = await load();
+      const counts = await this.reconcile(run, records);
+      const completed = await this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: { status: 'completed', completedAt: new Date(), ...counts },
+      });
+      this.logger.log(
+        `Reconciled ${provider} ${periodStart.toISOString()} to ${periodEnd.toISOString()}: ${counts.recordCount} records, ${counts.exceptionCount} exceptions`,
+      );
+      return completed;
+    } catch (err) {
+      await this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          error: (err as Error).message,
+          completedAt: new Date(),
+        },
+      });
+      throw err;
+    }
+  }
+
+  private async reconcile(run: ReconciliationRun, records: ProviderRecord[]) {
+    const provider = run.provider;
+    const findings: Finding[] = [];
+
+    // The provider settled the same reference more than once
+    const byReference = new Map<string, ProviderRecord[]>();
+    for (const record of records) {
+      byReference.set(record.reference, [
+        ...(byReference.get(record.reference) ?? []),
+        record,
+      ]);
+    }
+    const unique: ProviderRecord[] = [];
+    for (const [reference, group] of byReference) {
+      const settled = group.filter((r) => r.status === 'success');
+      if (settled.length > 1) {
+        findings.push({
+          type: 'duplicate',
+          providerReference: reference,
+          providerAmount: settled.reduce(
+            (sum, r) => sum.plus(r.amount),
+            new Decimal(0),
+          ),
+          providerStatus: 'success',
+          details: { source: 'provider', occurrences: settled.length },
+        });
+      }
+      unique.push(settled[0] ?? group[group.length - 1]);
+    }
+
+    const index = await this.findTransactions(unique.flatMap((r) => r.keys));
+    const matchedIds = new Set<string>();
+    const recordByTransaction = new Map<string, ProviderRecord>();
+    let matchedCount = 0;
+
+    for (const record of unique) {
+      const matches = new Map<string, Transaction>();
+      for (const key of record.keys) {
+        for (const tx of index.get(key) ?? []) matches.set(tx.id, tx);
+      }
+      for (const id of matches.keys()) {
+        matchedIds.add(id);
+        recordByTransaction.set(id, record);
+      }
+
+      const base = {
+        providerReference: record.reference,
+        providerAmount: record.amount,
+        providerStatus: record.rawStatus,
+      };
+      const settled = record.status === 'success';
+
+      if (matches.size === 0) {
+        if (settled) {
+          findings.push({
+            ...base,
+            type:
+              record.direction === 'credit'
+                ? 'missing_credit'
+                : 'unknown_transfer',
+            details: { occurredAt: record.occurredAt?.toISOString() ?? null },
+          });
+        }
+        continue;
+      }
+      if (matches.size > 1) {
+        findings.push({
+          ...base,
+          type: 'duplicate',
+          details: { source: 'ledger', transactionIds: [...matches.keys()] },
+        });
+        continue;
+      }
+
+      const [tx] = matches.values();
+      const ledgerAmount = new Decimal(tx.amount.toString());
+      const matched = { ...base, transactionId: tx.id, ledgerAmount };
+      const details = {
+        transactionStatus: tx.status,
+        transactionType: tx.type,
+      };
+
+      if (settled && !record.amount.eq(ledgerAmount)) {
+        findings.push({ ...matched, type: 'amount_mismatch', details });
+      } else if (
+        settled &&
+        record.direction === 'credit' &&
+        tx.status !== 'SUCCESS'
+      ) {
+        findings.push({ ...matched, type: 'missing_credit', details });
+      } else if (
+        (record.status === 'failed' || record.status === 'reversed') &&
+        tx.status === 'SUCCESS'
+      ) {
+        findings.push({ ...matched, type: 'status_mismatch', details });
+      } else {
+        matchedCount++;
+      }
+    }
+
+    // Our side: transfers still waiting on the provider, and successes the
+    // statement does not show (only for the directions it covers)
+    const directions = new Set(records.map((r) => r.direction));
+    const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS);
+    const settledBefore = new Date(run.periodEnd.getTime() - BOUNDARY_MS);
+    const ours = await this.prisma.transaction.findMany({
+      where: {
+        createdAt: { gte: run.periodStart, lt: run.periodEnd },
+        status: { in: ['SUCCESS', 'PENDING'] },
+        OR: [
+          { metadata: { path: ['provider'], equals: provider } },
+          { metadata: { path: ['method'], equals: provider } },
+        ],
+      },
+    });
+
+    for (const tx of ours) {
+      const record = recordByTransaction.get(tx.id);
+      const direction = tx.type === 'external_transfer' ? 'debit' : 'credit';
+      const ledgerAmount = new Decimal(tx.amount.toString());
+
+      if (
+        direction === 'debit' &&
+        tx.status === 'PENDING' &&
+        tx.createdAt < stuckBefore
+      ) {
+        findings.push({
+          type: 'stuck_pending',
+          transactionId: tx.id,
+          providerReference:
+            record?.reference ?? tx.providerTxId ?? tx.reference,
+          providerAmount: record?.amount ?? null,
+          ledgerAmount,
+          providerStatus: record?.rawStatus ?? null,
+          details: { createdAt: tx.createdAt.toISOString() },
+        });
+      } else if (
+        tx.status === 'SUCCESS' &&
+        !matchedIds.has(tx.id) &&
+        directions.has(direction) &&
+        tx.createdAt < settledBefore
+      ) {
+        findings.push({
+          type: 'missing_at_provider',
+          transactionId: tx.id,
+          providerReference: tx.providerTxId ?? tx.reference,
+          ledgerAmount,
+          details: { transactionType: tx.type },
+        });
+      }
+    }
+
+    if (findings.length > 0) {
+      await this.prisma.reconciliationException.createMany({
+        data: findings.map((f) => ({
+          runId: run.id,
+          fingerprint: this.fingerprint(provider, f),
+          provider,
+          type: f.type,
+          providerReference: f.providerReference ?? null,
+          transactionId: f.transactionId ?? null,
+          providerAmount: f.providerAmount?.toNumber() ?? null,
+          ledgerAmount: f.ledgerAmount?.toNumber() ?? null,
+          providerStatus: f.providerStatus ?? null,
+          details: f.details ?? {},
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    return {
+      recordCount: records.length,
+      matchedCount,
+      exceptionCount: findings.length,
+    };
+  }
+
+  /**
+   * Transactions whose reference, provider id, external reference or
+   * idempotency key is one of `keys`, indexed by the key they matched on
+   */
+  private async findTransactions(keys: string[]) {
+    const wanted = new Set(keys);
+    const index = new Map<string, Transaction[]>();
+    const all = [...wanted];
+
+    for (let i = 0; i < all.length; i += 500) {
+      const chunk = all.slice(i, i + 500);
+      const rows = await this.prisma.transaction.findMany({
+        where: {
+          OR: [
+            { reference: { in: chunk } },
+            { providerTxId: { in: chunk } },
+            { externalReference: { in: chunk } },
+            { idempotencyKey: { in: chunk } },
+          ],
+        },
+      });
+      for (const tx of rows) {
+        const values = [
+          tx.reference,
+          tx.providerTxId,
+          tx.externalReference,
+          tx.idempotencyKey,
+        ];
+        for (const value of new Set(values)) {
+          if (value && wanted.has(value)) {
+            index.set(value, [...(index.get(value) ?? []), tx]);
+          }
+        }
+      }
+    }
+    return index;
+  }
+
+  private async fetchRecords(
+    provider: ReconciliationProvider,
+    from: Date,
+    to: Date,
+  ): Promise<ProviderRecord[]> {
+    switch (provider) {
+      case 'paystack': {
+        const collections = await this.collectPages(1, async (page) => {
+          const res = await this.paystack.listTransactions(from, to, page);
+          return {
+            records: res.entries.map((e) => fromPaystack(e, 'credit')),
+            pageCount: res.pageCount,
+          };
+        });
+        const transfers = await this.collectPages(1, async (page) => {
+          const res = await this.paystack.listTransfers(from, to, page);
+          return {
+            records: res.entries.map((e) => fromPaystack(e, 'debit')),
+            pageCount: res.pageCount,
+          };
+        });
+        return [...collections, ...transfers];
+      }
+      case 'monnify':
+        return this.collectPages(0, async (page) => {
+          const res = await this.monnify.listTransactions(from, to, page);
+          return {
+            records: res.entries.map(fromMonnify),
+            pageCount: res.totalPages,
+          };
+        });
+      default:
+        throw new BadRequestException(
+          `${provider} has no statement API; upload its CSV export instead`,
+        );
+    }
+  }
+
+  private async collectPages(
+    first: number,
+    fetchPage: (
+      page: number,
+    ) => Promise<{ records: ProviderRecord[]; pageCount: number }>,
+  ) {
+    const records: ProviderRecord[] = [];
+    for (let i = 0; i < MAX_PAGES; i++) {
+      const { records: page, pageCount } = await fetchPage(first + i);
+      records.push(...page);
+      if (page.length === 0 || i + 1 >= pageCount) return records;
+    }
+    throw new BadRequestException(
+      'Too many records for one run; reconcile a shorter period',
+    );
+  }
+
+  // ============================================
+  // RESOLUTION
+  // ============================================
+
+  private async acknowledge(
+    admin: AdminPrincipal,
+    exception: ExceptionWithTransaction,
+    note?: string,
+  ) {
+    if (!note?.trim()) {
+      throw new BadRequestException(
+        'A note explaining the exception is required',
+      );
+    }
+    await this.prisma.$transaction((tx) =>
+      this.markResolved(tx, exception, admin, 'acknowledged', note.trim()),
+    );
+    return this.getException(exception.id);
+  }
+
+  /**
+   * Ask Paystack for the transfer's final status and settle it the way the
+   * transfer webhook would have: mark it successful, or reverse the debit
+   */
+  private async requery(
+    admin: AdminPrincipal,
+    exception: ExceptionWithTransaction,
+  ) {
+    const transaction = exception.transaction;
+    if (
+      exception.type !== 'stuck_pending' ||
+      exception.provider !== 'paystack' ||
+      !transaction
+    ) {
+      throw new BadRequestException(
+        'Only stuck Paystack transfers can be re-queried',
+      );
+    }
+
+    if (transaction.status !== 'PENDING') {
+      await this.prisma.$transaction((tx) =>
+        this.markResolved(
+          tx,
+          exception,
+          admin,
+          'requeried',
+          `Transfer was already ${transaction.status}`,
+        ),
+      );
+      return this.getException(exception.id);
+    }
+
+    const reference = transaction.reference ?? transaction.idempotencyKey;
+    const result = await this.paystack.verifyTransfer(reference);
+    const status = normalizeStatus(result.status);
+    if (status === 'pending') {
+      throw new BadRequestException(
+        `Paystack still reports this transfer as ${result.status}`,
+      );
+    }
+    const next =
+      status === 'success'
+        ? 'SUCCESS'
+        : status === 'reversed'
+          ? 'REVERSED'
+          : 'FAILED';
+
+    await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.transaction.updateMany({
+        where: { id: transaction.id, status: 'PENDING' },
+        data: { status: next },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          'The transfer was updated in the meantime; refresh and try again',
+        );
+      }
+      if (next !== 'SUCCESS') {
+        const posting = await this.ledger.reverse(tx, reference, 'refund');
+        if (!posting) {
+          throw new BadRequestException(
+            'This transfer has no ledger posting to reverse; refund it manually',
+          );
+        }
+      }
+      await tx.auditLog.create({
+        data: {
+          action: `RECONCILIATION_TRANSFER_${next}`,
+          userId: transaction.senderId,
+          actorType: 'admin',
+          actorId: admin.adminId,
+          metadata: {
+            exceptionId: exception.id,
+            reference,
+            providerStatus: result.status,
+            amount: transaction.amount.toString(),
+          },
+        },
+      });
+      await this.markResolved(
+        tx,
+        exception,
+        admin,
+        'requeried',
+        `Paystack reported ${result.status}`,
+      );
+    });
+    return this.getException(exception.id);
+  }
+
+  /**
+   * Credit a deposit the provider collected but we never booked. Goes
+   * through maker-checker; approval resolves the exception.
+   */
+  private async proposeCredit(
+    admin: AdminPrincipal,
+    exception: ExceptionWithTransaction,
+    input: ExceptionResolutionInput,
+  ) {
+    const provider = exception.provider;
+    if (
+      exception.type !== 'missing_credit' ||
+      (provider !== 'paystack' && provider !== 'monnify')
+    ) {
+      throw new BadRequestException(
+        'Only missing Paystack or Monnify deposits can be credited',
+      );
+    }
+    if (!exception.providerReference || !exception.providerAmount) {
+      throw new BadRequestException(
+        'The exception has no provider reference or amount to credit',
+      );
+    }
+    if (!input.note?.trim()) {
+      throw new BadRequestException('A note explaining the credit is required');
+    }
+
+    const transaction = exception.transaction;
+    let userId = transaction
+      ? (transaction.receiverId ?? transaction.senderId)
+      : null;
+    if (!userId) {
+      const user = input.userId
+        ? await this.prisma.user.findUnique({
+            where: { id: input.userId },
+            select: { id: true },
+          })
+        : input.vuraTag
+          ? await this.prisma.user.findFirst({
+              where: { vuraTag: input.vuraTag.replace(/^@/, '') },
+              select: { id: true },
+            })
+          : null;
+      if (!user) {
+        throw new BadRequestException(
+          'Give the userId or vuraTag of the customer who made this deposit',
+        );
+      }
+      userId = user.id;
+    }
+
+    const approval = await this.approvals.proposeReconciliationCredit(admin, {
+      exceptionId: exception.id,
+      userId,
+      amount: exception.providerAmount.toString(),
+      provider,
+      providerReference: exception.providerReference,
+      transactionId: transaction?.id ?? null,
+      reason: input.note.trim(),
+    });
+    return { exception: await this.getException(exception.id), approval };
+  }
+
+  private async markResolved(
+    tx: Prisma.TransactionClient,
+    exception: ReconciliationException,
+    admin: AdminPrincipal,
+    resolution: 'acknowledged' | 'requeried',
+    note: string,
+  ) {
+    const resolved = await tx.reconciliationException.updateMany({
+      where: { id: exception.id, status: 'open' },
+      data: {
+        status: 'resolved',
+        resolution,
+        resolutionNote: note,
+        resolvedBy: admin.adminId,
+        resolvedAt: new Date(),
+      },
+    });
+    if (resolved.count === 0) {
+      throw new ConflictException('This exception has already been resolved');
+    }
+    await tx.auditLog.create({
+      data: {
+        action: 'RECONCILIATION_EXCEPTION_RESOLVED',
+        actorType: 'admin',
+        actorId: admin.adminId,
+        metadata: {
+          exceptionId: exception.id,
+          provider: exception.provider,
+          type: exception.type,
+          providerReference: exception.providerReference,
+          transactionId: exception.transactionId,
+          resolution,
+          note,
+        },
+      },
+    });
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private fingerprint(provider: string, finding: Finding): string {
+    const subject = TRANSACTION_KEYED.includes(finding.type)
+      ? `tx:${finding.transactionId}`
+      : finding.providerReference;
+    return `${provider}:${finding.type}:${subject}`;
+  }
+
+  private isConfigured(provider: ReconciliationProvider): boolean {
+    if (provider === 'paystack') return this.paystack.isConfigured();
+    if (provider === 'monnify') return this.monnify.isConfigured();
+    return false;
+  }
+
+  private parseProvider(value: string): ReconciliationProvider {
+    const provider = String(value || '').toLowerCase();
+    if (!(RECONCILIATION_PROVIDERS as readonly string[]).includes(provider)) {
+      throw new BadRequestException(
+        `provider must be one of ${RECONCILIATION_PROVIDERS.join(', ')}`,
+      );
+    }
+    return provider as ReconciliationProvider;
+  }
+
+  private parsePeriod(fromValue?: string, toValue?: string) {
+    const from = new Date(fromValue ?? '');
+    const requestedTo = new Date(toValue ?? '');
+    // Nothing after now to reconcile yet
+    const to = new Date(Math.min(requestedTo.getTime(), Date.now()));
+    if (Number.isNaN(from.getTime()) || Number.isNaN(requestedTo.getTime())) {
+      throw new BadRequestException('from and to must be valid dates');
+    }
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Reconcile at most ${MAX_PERIOD_DAYS} days at a time`,
+      );
+    }
+    return { from, to };
+  }
+
+  private paging(query: { page?: number; limit?: number }) {
+    return {
+      page: Math.max(1, Number(query.page) || 1),
+      limit: Math.min(100, Math.max(1, Number(query.limit) || 20)),
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import {
+  CurrentAdmin,
+  RequirePermission,
+} from '../admin-auth/admin-permissions';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+import { RefundsService } from './refunds.service';
+import type { RefundInput } from './refunds.service';
+
+/**
+ * Refunds raised by support, in place of crediting the customer from float
+ * with admin/credit. The money comes out of the merchant's wallet.
+ */
+@Controller('admin/refunds')
+@UseGuards(AdminGuard)
+export class RefundsAdminController {
+  constructor(private readonly refunds: RefundsService) {}
+
+  @RequirePermission('refunds:manage')
+  @Post()
+  async create(
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Body() body: RefundInput,
+  ) {
+    const refund = await this.refunds.refundAsAdmin(admin, body);
+    return {
+      success: true,
+      data: refund,
+    };
+  }
+
+  @RequirePermission('disputes:read')
+  @Get('payments/:transactionId')
+  async listForPayment(@Param('transactionId') transactionId: string) {
+    const refunds = await this.refunds.listForPayment(transactionId);
+    return {
+      success: true,
+      data: refunds,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { RefundsService } from './refunds.service';
+import type { RefundInput } from './refunds.service';
+
+@Controller('refunds')
+@UseGuards(AuthGuard)
+export class RefundsController {
+  constructor(private readonly refunds: RefundsService) {}
+
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const refunds = await this.refunds.listForMerchant(req.user.userId);
+    return {
+      success: true,
+      data: refunds,
+    };
+  }
+
+  /**
+   * Send (part of) a payment you received back to the payer. Leave amount
+   * out to refund everything not yet refunded.
+   * POST /refunds
+   */
+  @Post()
+  @UseInterceptors(IdempotencyInterceptor)
+  async create(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: RefundInput,
+  ) {
+    const refund = await this.refunds.refundAsMerchant(req.user.userId, body);
+    return {
+      success: true,
+      data: refund,
+    };
+  }
+
+  @Get('payments/:transactionId')
+  async listForPayment(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('transactionId') transactionId: string,
+  ) {
+    const refunds = await this.refunds.listForPayment(
+      transactionId,
+      req.user.userId,
+    );
+    return {
+      success: true,
+      data: refunds,
+    };
+  }
+}
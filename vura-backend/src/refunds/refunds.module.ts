@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { RefundsService } from './refunds.service';
+import { RefundsController } from './refunds.controller';
+import { RefundsAdminController } from './refunds-admin.controller';
+import { PrismaService } from '../prisma.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+
+@Module({
+  imports: [LedgerModule, OutboxModule, IdempotencyModule, AdminAuthModule],
+  providers: [RefundsService, PrismaService],
+  controllers: [RefundsController, RefundsAdminController],
+  exports: [RefundsService],
+})
+export class RefundsModule {}
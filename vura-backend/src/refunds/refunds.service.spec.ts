@@ -0,0 +1,218 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { RefundsService } from './refunds.service';
+
+const MERCHANT = 'merchant-1';
+const CUSTOMER = 'user-1';
+
+// The fields issue() writes for the refund transaction
+interface Written {
+  senderId: string;
+  receiverId: string;
+  amount: number;
+  type: string;
+  beforeBalance: number;
+  afterBalance: number;
+}
+
+/**
+ * The database is a stub whose `$transaction` runs the callback against
+ * itself, with `transaction.updateMany` standing in for the conditional
+ * claim on the refunded total. The ledger is a mock.
+ */
+describe('RefundsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    transaction: {
+      findFirst: jest.Mock;
+      updateMany: jest.Mock;
+      create: jest.Mock;
+    };
+    refund: { create: jest.Mock };
+    dispute: { findFirst: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock };
+  let outbox: { record: jest.Mock };
+  let refunds: RefundsService;
+
+  const payment = (overrides: Partial<Transaction> = {}): Transaction => ({
+    id: 'tx-1',
+    senderId: CUSTOMER,
+    receiverId: MERCHANT,
+    amount: new Decimal(5000),
+    currency: 'NGN',
+    type: 'qr_payment',
+    status: 'SUCCESS',
+    idempotencyKey: 'QR-1',
+    providerTxId: null,
+    beforeBalance: null,
+    afterBalance: null,
+    heldUntil: null,
+    isFlagged: false,
+    flagReason: null,
+    reference: 'QR-1',
+    refundedAmount: new Decimal(0),
+    externalReference: null,
+    metadata: {},
+    createdAt: new Date(),
+    ...overrides,
+  });
+  const refund = (amount?: number) =>
+    refunds.refundAsMerchant(MERCHANT, { reference: 'QR-1', amount });
+  const refundedAmount = () =>
+    (ledger.transfer.mock.lastCall as [unknown, { amount: Decimal }])[1].amount;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      transaction: {
+        findFirst: jest.fn().mockResolvedValue(payment()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockResolvedValue({ id: 'tx-refund' }),
+      },
+      refund: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'refund-1', createdAt: new Date(), ...data }),
+        ),
+      },
+      dispute: { findFirst: jest.fn().mockResolvedValue(null) },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      transfer: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(MERCHANT)]: {
+            before: new Decimal(8000),
+            after: new Decimal(6000),
+          },
+        },
+      }),
+    };
+    outbox = { record: jest.fn() };
+    refunds = new RefundsService(
+      prisma as unknown as PrismaService,
+      ledger as unknown as LedgerService,
+      outbox as unknown as OutboxService,
+    );
+  });
+
+  describe('issue', () => {
+    it('moves the money back from merchant to customer', async () => {
+      const res = await refund(2000);
+
+      expect(prisma.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'tx-1', refundedAmount: { lte: new Decimal(3000) } },
+        data: { refundedAmount: { increment: '2000' } },
+      });
+      expect(ledger.transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          type: 'refund',
+          from: LedgerService.user(MERCHANT),
+          to: LedgerService.user(CUSTOMER),
+          amount: new Decimal(2000),
+        }),
+      );
+      expect(
+        (prisma.transaction.create.mock.lastCall as [{ data: Written }])[0]
+          .data,
+      ).toMatchObject({
+        senderId: MERCHANT,
+        receiverId: CUSTOMER,
+        amount: 2000,
+        type: 'refund',
+        beforeBalance: 8000,
+        afterBalance: 6000,
+      });
+      expect(outbox.record).toHaveBeenCalledWith(
+        prisma,
+        'RefundCreated',
+        expect.objectContaining({ refundId: 'refund-1', amount: '2000' }),
+        'tx-1',
+      );
+      expect(res).toMatchObject({
+        amount: 2000,
+        paymentReference: 'QR-1',
+        initiatedBy: 'merchant',
+      });
+    });
+
+    it('does not move money when a concurrent refund used up the payment', async () => {
+      prisma.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(refund(2000)).rejects.toThrow('more than is left to refund');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+      expect(prisma.refund.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundAsMerchant', () => {
+    it('refunds whatever is left when no amount is given', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ refundedAmount: new Decimal(1500.25) }),
+      );
+
+      await refund();
+
+      expect(refundedAmount()).toEqual(new Decimal('3499.75'));
+    });
+
+    it('refuses more than is left to refund', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ refundedAmount: new Decimal(4000) }),
+      );
+
+      await expect(refund(1000.01)).rejects.toThrow('At most ₦1000.00');
+      await expect(refund(1000)).resolves.toBeDefined();
+    });
+
+    it('refuses a payment that is already fully refunded', async () => {
+      prisma.transaction.findFirst.mockResolvedValue(
+        payment({ refundedAmount: new Decimal(5000) }),
+      );
+
+      await expect(refund()).rejects.toThrow('already fully refunded');
+    });
+
+    it.each([[-5], [0], [10.005]])(
+      'refuses an amount of %s',
+      async (amount) => {
+        await expect(refund(amount)).rejects.toBeInstanceOf(
+          BadRequestException,
+        );
+      },
+    );
+
+    it('only looks up payments the merchant received', async () => {
+      await refund(100);
+
+      expect(prisma.transaction.findFirst).toHaveBeenCalledWith({
+        where: { reference: 'QR-1', receiverId: MERCHANT },
+      });
+    });
+
+    it('sends refunds of a disputed payment through the dispute', async () => {
+      prisma.dispute.findFirst.mockResolvedValue({ id: 'dispute-1' });
+
+      await expect(refund(100)).rejects.toThrow('open dispute');
+      expect(prisma.transaction.updateMany).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a bank transfer', { type: 'withdrawal' }, 'Only Vura transfers'],
+      ['a pending payment', { status: 'PENDING' }, 'Only completed payments'],
+    ])('refuses %s', async (_label, overrides, message) => {
+      prisma.transaction.findFirst.mockResolvedValue(payment(overrides));
+
+      await expect(refund(100)).rejects.toThrow(message);
+    });
+  });
+});
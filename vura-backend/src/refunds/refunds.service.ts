@@ -0,0 +1,342 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Refund, Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import type { AdminPrincipal } from '../admin-auth/admin-permissions';
+
+/** Vura-to-Vura payments where both sides have a wallet to move money between */
+export const REFUNDABLE_TYPES = ['send', 'qr_payment'];
+const REFUNDABLE_STATUSES = ['SUCCESS', 'COMPLETED'];
+const MAX_REASON_LENGTH = 200;
+
+export interface RefundInput {
+  transactionId?: string;
+  reference?: string;
+  /** Defaults to whatever is left to refund */
+  amount?: number;
+  reason?: string;
+}
+
+export interface IssueRefund {
+  payment: Transaction;
+  amount: Decimal;
+  reason: string | null;
+  initiatedBy: 'merchant' | 'admin';
+  adminId?: string;
+  disputeId?: string;
+}
+
+@Injectable()
+export class RefundsService {
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+  ) {}
+
+  /**
+   * Refund (part of) a payment the merchant received
+   */
+  async refundAsMerchant(merchantId: string, input: RefundInput) {
+    const payment = await this.findPayment(input, merchantId);
+    await this.assertNoOpenDispute(payment);
+    const amount = this.resolveAmount(payment, input.amount);
+
+    const refund = await this.prisma.$transaction((tx) =>
+      this.issue(tx, {
+        payment,
+        amount,
+        reason: this.normaliseReason(input.reason),
+        initiatedBy: 'merchant',
+      }),
+    );
+    return this.toResponse(refund, payment);
+  }
+
+  /**
+   * Support-initiated refund of any refundable payment, taken from the
+   * merchant's wallet like a merchant refund
+   */
+  async refundAsAdmin(admin: AdminPrincipal, input: RefundInput) {
+    const payment = await this.findPayment(input);
+    await this.assertNoOpenDispute(payment);
+    const amount = this.resolveAmount(payment, input.amount);
+
+    const refund = await this.prisma.$transaction((tx) =>
+      this.issue(tx, {
+        payment,
+        amount,
+        reason: this.normaliseReason(input.reason),
+        initiatedBy: 'admin',
+        adminId: admin.adminId,
+      }),
+    );
+    return this.toResponse(refund, payment);
+  }
+
+  /**
+   * Move the money back and record the refund inside the caller's
+   * transaction. The running refunded total is claimed with a conditional
+   * update, so concurrent refunds cannot exceed the original amount.
+   */
+  async issue(tx: Prisma.TransactionClient, request: IssueRefund) {
+    const { payment, amount } = request;
+    const merchantId = payment.receiverId!;
+    const customerId = payment.senderId!;
+
+    const claimed = await tx.transaction.updateMany({
+      where: {
+        id: payment.id,
+        refundedAmount: { lte: payment.amount.minus(amount.toString()) },
+      },
+      data: { refundedAmount: { increment: amount.toString() } },
+    });
+    if (claimed.count === 0) {
+      throw new BadRequestException(
+        'Refund is more than is left to refund on this payment',
+      );
+    }
+
+    const reference = this.generateReference();
+    const posting = await this.ledger.transfer(tx, {
+      reference,
+      type: 'refund',
+      from: LedgerService.user(merchantId),
+      to: LedgerService.user(customerId),
+      amount,
+      description: `Refund of ${payment.reference}`,
+      metadata: { originalReference: payment.reference },
+    });
+    const { before, after } = posting.balances[LedgerService.user(merchantId)];
+
+    const refundTransaction = await tx.transaction.create({
+      data: {
+        senderId: merchantId,
+        receiverId: customerId,
+        amount: amount.toNumber(),
+        currency: payment.currency,
+        type: 'refund',
+        status: 'SUCCESS',
+        idempotencyKey: reference,
+        reference,
+        beforeBalance: before.toNumber(),
+        afterBalance: after.toNumber(),
+        metadata: {
+          originalTransactionId: payment.id,
+          originalReference: payment.reference,
+          description: request.reason ?? `Refund of ${payment.reference}`,
+        },
+      },
+    });
+
+    const refund = await tx.refund.create({
+      data: {
+        reference,
+        transactionId: payment.id,
+        refundTransactionId: refundTransaction.id,
+        merchantId,
+        customerId,
+        amount: amount.toNumber(),
+        currency: payment.currency,
+        reason: request.reason,
+        initiatedBy: request.initiatedBy,
+        adminId: request.adminId,
+        disputeId: request.disputeId,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        action: 'REFUND_CREATED',
+        userId: merchantId,
+        actorType: request.initiatedBy === 'admin' ? 'admin' : 'user',
+        actorId: request.adminId ?? merchantId,
+        metadata: {
+          refundId: refund.id,
+          reference,
+          originalReference: payment.reference,
+          amount: amount.toString(),
+          disputeId: request.disputeId,
+        },
+      },
+    });
+
+    await this.outbox.record(
+      tx,
+      'RefundCreated',
+      {
+        refundId: refund.id,
+        transactionId: payment.id,
+        reference,
+        merchantId,
+        customerId,
+        amount: amount.toString(),
+        currency: payment.currency,
+        ...(request.reason && { reason: request.reason }),
+      },
+      payment.id,
+    );
+
+    return refund;
+  }
+
+  /**
+   * Refunds the merchant has issued, newest first
+   */
+  async listForMerchant(merchantId: string) {
+    const refunds = await this.prisma.refund.findMany({
+      where: { merchantId },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: {
+        transaction: true,
+        customer: { select: { vuraTag: true } },
+      },
+    });
+    return refunds.map((refund) => ({
+      ...this.toResponse(refund, refund.transaction),
+      customer: refund.customer.vuraTag,
+    }));
+  }
+
+  /**
+   * Refunds against one payment, for either side of it or an admin
+   */
+  async listForPayment(transactionId: string, userId?: string) {
+    const payment = await this.prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+    if (
+      !payment ||
+      (userId && payment.senderId !== userId && payment.receiverId !== userId)
+    ) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const refunds = await this.prisma.refund.findMany({
+      where: { transactionId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return {
+      amount: Number(payment.amount),
+      refundedAmount: Number(payment.refundedAmount),
+      refunds: refunds.map((refund) => this.toResponse(refund, payment)),
+    };
+  }
+
+  /**
+   * Look a payment up by id or reference and check it can be refunded.
+   * Pass merchantId to only match payments that merchant received.
+   */
+  async findPayment(input: RefundInput, merchantId?: string) {
+    if (!input.transactionId && !input.reference) {
+      throw new BadRequestException('transactionId or reference is required');
+    }
+    const payment = await this.prisma.transaction.findFirst({
+      where: {
+        ...(input.transactionId
+          ? { id: input.transactionId }
+          : { reference: input.reference }),
+        ...(merchantId && { receiverId: merchantId }),
+      },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+    if (
+      !REFUNDABLE_TYPES.includes(payment.type) ||
+      !payment.senderId ||
+      !payment.receiverId
+    ) {
+      throw new BadRequestException(
+        'Only Vura transfers and QR payments can be refunded',
+      );
+    }
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      throw new BadRequestException('Only completed payments can be refunded');
+    }
+    return payment;
+  }
+
+  /**
+   * The amount requested, or the remainder when none was given
+   */
+  resolveAmount(payment: Transaction, requested?: number) {
+    const remaining = new Decimal(payment.amount.toString()).minus(
+      payment.refundedAmount.toString(),
+    );
+    if (requested === undefined || requested === null) {
+      if (remaining.lte(0)) {
+        throw new BadRequestException('This payment is already fully refunded');
+      }
+      return remaining.toDecimalPlaces(2, Decimal.ROUND_DOWN);
+    }
+
+    if (
+      typeof requested !== 'number' ||
+      !Number.isFinite(requested) ||
+      requested <= 0
+    ) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+    const amount = new Decimal(requested);
+    if (amount.decimalPlaces() > 2) {
+      throw new BadRequestException('amount can have at most 2 decimal places');
+    }
+    if (amount.gt(remaining)) {
+      throw new BadRequestException(
+        `At most ₦${remaining.toFixed(2)} is left to refund on this payment`,
+      );
+    }
+    return amount;
+  }
+
+  toResponse(refund: Refund, payment: Transaction) {
+    return {
+      id: refund.id,
+      reference: refund.reference,
+      transactionId: refund.transactionId,
+      paymentReference: payment.reference,
+      amount: Number(refund.amount),
+      currency: refund.currency,
+      reason: refund.reason,
+      initiatedBy: refund.initiatedBy,
+      disputeId: refund.disputeId,
+      createdAt: refund.createdAt,
+    };
+  }
+
+  // While a dispute is open the money is already held for it; settle it
+  // through the dispute so the hold is lifted with the refund
+  private async assertNoOpenDispute(payment: Transaction) {
+    const dispute = await this.prisma.dispute.findFirst({
+      where: {
+        transactionId: payment.id,
+        status: { in: ['awaiting_merchant', 'under_review'] },
+      },
+      select: { id: true },
+    });
+    if (dispute) {
+      throw new BadRequestException(
+        'This payment has an open dispute. Accept the dispute to refund the customer.',
+      );
+    }
+  }
+
+  private normaliseReason(reason?: string) {
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new BadRequestException('reason must be a string');
+    }
+    return reason?.trim().slice(0, MAX_REASON_LENGTH) || null;
+  }
+
+  private generateReference() {
+    return `RFD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -2,10 +2,12 @@ import { Controller, Get, Query, UseGuards, Res } from '@nestjs/common';
 import type { Response } from 'express';
 
 import { ReportsService } from './reports.service';
-import { AuthGuard } from '../auth/auth.guard';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import { RequirePermission } from '../admin-auth/admin-permissions';
 
 @Controller('reports')
-@UseGuards(AuthGuard)
+@UseGuards(AdminGuard)
+@RequirePermission('reports:read')
 export class ReportsController {
   constructor(private reportsService: ReportsService) {}
 
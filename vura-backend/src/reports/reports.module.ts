@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
 import { PrismaService } from '../prisma.service';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
 
 @Module({
+  imports: [AdminAuthModule],
   controllers: [ReportsController],
   providers: [ReportsService, PrismaService],
   exports: [ReportsService],
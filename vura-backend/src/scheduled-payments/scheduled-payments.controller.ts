@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { ScheduledPaymentsService } from './scheduled-payments.service';
+import type { ScheduledPaymentInput } from './scheduled-payments.service';
+import { AuthGuard } from '../auth/auth.guard';
+
+@Controller('scheduled-payments')
+@UseGuards(AuthGuard)
+export class ScheduledPaymentsController {
+  constructor(private scheduledPayments: ScheduledPaymentsService) {}
+
+  /**
+   * Schedule a transfer to a saved beneficiary. frequency is once, daily,
+   * weekly or monthly; recurring schedules stop at endAt or after maxRuns.
+   */
+  @Post()
+  async create(
+    @Body() body: ScheduledPaymentInput,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const schedule = await this.scheduledPayments.create(req.user.userId, body);
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  @Get()
+  async list(@Request() req: ExpressRequest & { user: { userId: string } }) {
+    const schedules = await this.scheduledPayments.list(req.user.userId);
+    return {
+      success: true,
+      data: schedules,
+    };
+  }
+
+  @Get(':id')
+  async get(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const schedule = await this.scheduledPayments.get(req.user.userId, id);
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  @Post(':id/pause')
+  async pause(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const schedule = await this.scheduledPayments.pause(req.user.userId, id);
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  @Post(':id/resume')
+  async resume(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const schedule = await this.scheduledPayments.resume(req.user.userId, id);
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  @Delete(':id')
+  async cancel(
+    @Param('id') id: string,
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    await this.scheduledPayments.cancel(req.user.userId, id);
+    return {
+      success: true,
+      message: 'Scheduled payment cancelled',
+    };
+  }
+}
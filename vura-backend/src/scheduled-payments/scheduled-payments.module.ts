@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ScheduledPaymentsController } from './scheduled-payments.controller';
+import { ScheduledPaymentsService } from './scheduled-payments.service';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { EmailService } from '../services/email.service';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  imports: [TransactionsModule],
+  controllers: [ScheduledPaymentsController],
+  providers: [ScheduledPaymentsService, EmailService, PrismaService],
+})
+export class ScheduledPaymentsModule {}
@@ -0,0 +1,414 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import type { Beneficiary, ScheduledPayment } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { EmailService } from '../services/email.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import {
+  nextOccurrence,
+  ScheduledPaymentsService,
+} from './scheduled-payments.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const USER = 'user-1';
+const PIN = '1234';
+const HASHED_PIN = bcrypt.hashSync(PIN, 4);
+const MINUTE_MS = 60 * 1000;
+
+type Schedule = ScheduledPayment & { beneficiary: Beneficiary };
+
+// The fields the service writes to schedules and their runs
+interface Written {
+  status?: string;
+  attempt?: number;
+  error?: string;
+  runCount?: number;
+  retryCount?: number | { increment: number };
+  dueAt?: Date;
+  nextRunAt?: Date;
+  lockedAt?: Date | null;
+}
+
+/**
+ * Transfers go through a mocked TransactionsService, so these tests are
+ * about what the scheduler does with its outcome: advancing, retrying,
+ * pausing and completing schedules.
+ */
+describe('ScheduledPaymentsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    beneficiary: { findFirst: jest.Mock };
+    transaction: { findFirst: jest.Mock; findUnique: jest.Mock };
+    scheduledPayment: {
+      create: jest.Mock;
+      findMany: jest.Mock;
+      findFirst: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    scheduledPaymentRun: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let transactions: {
+    initiatePayment: jest.Mock;
+    sendToBank: jest.Mock;
+    verifyBankAccount: jest.Mock;
+  };
+  let email: { sendScheduledPaymentNotification: jest.Mock };
+  let service: ScheduledPaymentsService;
+
+  const beneficiary = (overrides: Partial<Beneficiary> = {}): Beneficiary => ({
+    id: 'beneficiary-1',
+    userId: USER,
+    name: 'Landlord',
+    vuraTag: 'landlord',
+    accountNumber: null,
+    bankCode: null,
+    bankName: null,
+    type: 'vura',
+    isFavorite: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+  const schedule = (overrides: Partial<Schedule> = {}): Schedule => {
+    const startAt = new Date('2026-01-31T09:00:00Z');
+    return {
+      id: 'schedule-1',
+      userId: USER,
+      beneficiaryId: 'beneficiary-1',
+      amount: new Decimal(50000),
+      description: null,
+      frequency: 'monthly',
+      status: 'ACTIVE',
+      startAt,
+      endAt: null,
+      maxRuns: null,
+      runCount: 0,
+      dueAt: startAt,
+      nextRunAt: startAt,
+      retryCount: 0,
+      lastRunAt: null,
+      lastError: null,
+      lockedAt: null,
+      createdAt: startAt,
+      updatedAt: startAt,
+      beneficiary: beneficiary(),
+      ...overrides,
+    };
+  };
+  const due = (s: Schedule) =>
+    prisma.scheduledPayment.findMany.mockResolvedValue([s]);
+  const lastWrite = (mock: jest.Mock) =>
+    (mock.mock.lastCall as [{ data: Written }])[0].data;
+  const lastRun = () => lastWrite(prisma.scheduledPaymentRun.create);
+  const lastScheduleUpdate = () => lastWrite(prisma.scheduledPayment.update);
+  const notices = () =>
+    (
+      email.sendScheduledPaymentNotification.mock.calls as [
+        string,
+        { outcome: string },
+      ][]
+    ).map(([, notice]) => notice.outcome);
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ hashedPin: HASHED_PIN }),
+      },
+      beneficiary: { findFirst: jest.fn().mockResolvedValue(beneficiary()) },
+      transaction: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ status: 'SUCCESS', afterBalance: 10000 }),
+      },
+      scheduledPayment: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve(schedule(data)),
+        ),
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        update: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve(schedule(data)),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      scheduledPaymentRun: { create: jest.fn() },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    transactions = {
+      initiatePayment: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'tx-1', reference: 'REF-1' }),
+      sendToBank: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'tx-1', reference: 'REF-1' }),
+      verifyBankAccount: jest
+        .fn()
+        .mockResolvedValue({ accountName: 'ADA LANDLORD' }),
+    };
+    email = { sendScheduledPaymentNotification: jest.fn() };
+    service = new ScheduledPaymentsService(
+      prisma as unknown as PrismaService,
+      transactions as unknown as TransactionsService,
+      email as unknown as EmailService,
+    );
+  });
+
+  describe('nextOccurrence', () => {
+    it('keeps monthly schedules on their start day, clamped to short months', () => {
+      const start = new Date('2027-01-31T09:00:00Z');
+
+      const feb = nextOccurrence('monthly', start, start)!;
+      const mar = nextOccurrence('monthly', feb, start)!;
+
+      expect(feb.toISOString()).toBe('2027-02-28T09:00:00.000Z');
+      expect(mar.toISOString()).toBe('2027-03-31T09:00:00.000Z');
+    });
+
+    it('steps daily and weekly schedules and ends one-off ones', () => {
+      const at = new Date('2026-12-31T09:00:00Z');
+
+      expect(nextOccurrence('daily', at, at)!.toISOString()).toBe(
+        '2027-01-01T09:00:00.000Z',
+      );
+      expect(nextOccurrence('weekly', at, at)!.toISOString()).toBe(
+        '2027-01-07T09:00:00.000Z',
+      );
+      expect(nextOccurrence('once', at, at)).toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    const input = {
+      beneficiaryId: 'beneficiary-1',
+      amount: 50000,
+      frequency: 'monthly' as const,
+      startAt: new Date(Date.now() + 60 * MINUTE_MS).toISOString(),
+      pin: PIN,
+    };
+
+    it('schedules the first run at the start date', async () => {
+      const res = await service.create(USER, input);
+
+      const data = lastWrite(prisma.scheduledPayment.create);
+      expect(data.dueAt).toEqual(new Date(input.startAt));
+      expect(data.nextRunAt).toEqual(new Date(input.startAt));
+      expect(res.beneficiary).toMatchObject({ name: 'Landlord' });
+    });
+
+    it('refuses a start date in the past', async () => {
+      await expect(
+        service.create(USER, {
+          ...input,
+          startAt: new Date(Date.now() - 60 * MINUTE_MS).toISOString(),
+        }),
+      ).rejects.toThrow('startAt must be in the future');
+    });
+
+    it('refuses a bank beneficiary without account details', async () => {
+      prisma.beneficiary.findFirst.mockResolvedValue(
+        beneficiary({ type: 'bank', vuraTag: null }),
+      );
+
+      await expect(service.create(USER, input)).rejects.toThrow(
+        'no bank account details',
+      );
+    });
+
+    it('refuses a wrong PIN', async () => {
+      await expect(
+        service.create(USER, { ...input, pin: '0000' }),
+      ).rejects.toThrow('Invalid PIN');
+      expect(prisma.scheduledPayment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDue', () => {
+    it('pays a due schedule and moves it to the next occurrence', async () => {
+      due(schedule());
+
+      await service.runDue();
+
+      expect(transactions.initiatePayment).toHaveBeenCalledWith(
+        USER,
+        'landlord',
+        50000,
+        'Scheduled payment to Landlord',
+        undefined,
+        `SCHED-schedule-1-${new Date('2026-01-31T09:00:00Z').getTime()}-1`,
+      );
+      expect(lastRun()).toMatchObject({ status: 'SUCCESS', attempt: 1 });
+      expect(lastScheduleUpdate()).toMatchObject({
+        runCount: 1,
+        retryCount: 0,
+        lockedAt: null,
+        dueAt: new Date('2026-02-28T09:00:00Z'),
+      });
+      expect(notices()).toEqual(['paid']);
+    });
+
+    it('pays bank beneficiaries to the verified account name', async () => {
+      due(
+        schedule({
+          beneficiary: beneficiary({
+            type: 'bank',
+            vuraTag: null,
+            accountNumber: '0123456789',
+            bankCode: '058',
+          }),
+        }),
+      );
+
+      await service.runDue();
+
+      expect(transactions.sendToBank).toHaveBeenCalledWith(
+        USER,
+        '0123456789',
+        '058',
+        'ADA LANDLORD',
+        50000,
+        expect.any(String),
+        undefined,
+        expect.any(String),
+      );
+    });
+
+    it('skips a schedule another worker claimed first', async () => {
+      due(schedule());
+      prisma.scheduledPayment.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.runDue();
+
+      expect(transactions.initiatePayment).not.toHaveBeenCalled();
+    });
+
+    it('does not pay twice for a run that crashed before it was recorded', async () => {
+      due(schedule());
+      prisma.transaction.findFirst.mockResolvedValue({
+        id: 'tx-0',
+        reference: 'REF-0',
+      });
+
+      await service.runDue();
+
+      expect(transactions.initiatePayment).not.toHaveBeenCalled();
+      expect(lastRun()).toMatchObject({ status: 'SUCCESS' });
+    });
+
+    it('retries a short balance with backoff and emails only the first time', async () => {
+      transactions.initiatePayment.mockRejectedValue(
+        new BadRequestException('Insufficient balance'),
+      );
+
+      due(schedule());
+      const before = Date.now();
+      await service.runDue();
+      expect(lastRun()).toMatchObject({ status: 'RETRYING', attempt: 1 });
+      const first = lastScheduleUpdate();
+      expect(first.retryCount).toEqual({ increment: 1 });
+      expect(first.nextRunAt!.getTime() - before).toBeGreaterThanOrEqual(
+        15 * MINUTE_MS,
+      );
+
+      due(schedule({ retryCount: 1 }));
+      await service.runDue();
+      expect(lastRun()).toMatchObject({ status: 'RETRYING', attempt: 2 });
+      // Doubles each time
+      expect(
+        lastScheduleUpdate().nextRunAt!.getTime() - before,
+      ).toBeGreaterThanOrEqual(30 * MINUTE_MS);
+
+      expect(notices()).toEqual(['retrying']);
+    });
+
+    it('gives up on the occurrence once the retries run out', async () => {
+      transactions.initiatePayment.mockRejectedValue(
+        new BadRequestException('Insufficient balance'),
+      );
+      due(schedule({ retryCount: 4 }));
+
+      await service.runDue();
+
+      expect(lastRun()).toMatchObject({ status: 'FAILED', attempt: 5 });
+      expect(lastScheduleUpdate()).toMatchObject({
+        runCount: 1,
+        retryCount: 0,
+        dueAt: new Date('2026-02-28T09:00:00Z'),
+      });
+      expect(notices()).toEqual(['failed']);
+    });
+
+    it('pauses the schedule when risk checks block the transfer', async () => {
+      transactions.initiatePayment.mockRejectedValue(
+        new ForbiddenException('This transaction was blocked'),
+      );
+      due(schedule());
+
+      await service.runDue();
+
+      expect(lastScheduleUpdate()).toMatchObject({
+        status: 'PAUSED',
+        lockedAt: null,
+      });
+      expect(notices()).toEqual(['paused']);
+    });
+
+    it('completes the schedule after its last run', async () => {
+      due(schedule({ maxRuns: 3, runCount: 2 }));
+
+      await service.runDue();
+
+      expect(lastScheduleUpdate()).toMatchObject({
+        status: 'COMPLETED',
+        runCount: 3,
+      });
+    });
+  });
+
+  describe('resume', () => {
+    it('skips the occurrences missed while paused', async () => {
+      const dueAt = new Date(Date.now() - 2.5 * 24 * 60 * MINUTE_MS);
+      prisma.scheduledPayment.findFirst.mockResolvedValue(
+        schedule({
+          status: 'PAUSED',
+          frequency: 'daily',
+          startAt: dueAt,
+          dueAt,
+          runCount: 1,
+        }),
+      );
+
+      await service.resume(USER, 'schedule-1');
+
+      const data = lastScheduleUpdate();
+      expect(data).toMatchObject({ status: 'ACTIVE', runCount: 4 });
+      expect(data.dueAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('refuses a schedule with nothing left to run', async () => {
+      prisma.scheduledPayment.findFirst.mockResolvedValue(
+        schedule({
+          status: 'PAUSED',
+          frequency: 'daily',
+          dueAt: new Date(Date.now() - 2.5 * 24 * 60 * MINUTE_MS),
+          maxRuns: 2,
+          runCount: 1,
+        }),
+      );
+
+      await expect(service.resume(USER, 'schedule-1')).rejects.toThrow(
+        'no occurrences left',
+      );
+    });
+  });
+});
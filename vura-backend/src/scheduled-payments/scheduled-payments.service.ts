@@ -0,0 +1,649 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import type { Beneficiary, ScheduledPayment } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../prisma.service';
+import {
+  TransactionsService,
+  scopedIdempotencyKey,
+} from '../transactions/transactions.service';
+import { EmailService } from '../services/email.service';
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+export interface ScheduledPaymentInput {
+  beneficiaryId: string;
+  amount: number;
+  description?: string;
+  frequency: ScheduleFrequency;
+  startAt: string;
+  endAt?: string;
+  maxRuns?: number;
+  pin: string;
+}
+
+const FREQUENCIES: ScheduleFrequency[] = ['once', 'daily', 'weekly', 'monthly'];
+
+// An occurrence that fails for lack of funds is retried after 15m, 30m, 1h, 2h
+const RETRY_BASE_MINUTES = 15;
+const MAX_RETRIES = 4;
+
+// A claim older than this belongs to a worker that died mid-run
+const LOCK_TIMEOUT_MINUTES = 10;
+const BATCH_SIZE = 50;
+
+type ScheduleWithBeneficiary = ScheduledPayment & { beneficiary: Beneficiary };
+
+/**
+ * Date of the occurrence after `dueAt`. Monthly schedules stay on the day of
+ * the month they started on, falling back to the last day in shorter months.
+ */
+export function nextOccurrence(
+  frequency: ScheduleFrequency,
+  dueAt: Date,
+  startAt: Date,
+): Date | null {
+  const next = new Date(dueAt);
+  switch (frequency) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + 1);
+      return next;
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + 7);
+      return next;
+    case 'monthly': {
+      const year = dueAt.getUTCFullYear();
+      const month = dueAt.getUTCMonth() + 1;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      next.setUTCFullYear(
+        year,
+        month,
+        Math.min(startAt.getUTCDate(), daysInMonth),
+      );
+      return next;
+    }
+    default:
+      return null;
+  }
+}
+
+@Injectable()
+export class ScheduledPaymentsService {
+  private readonly logger = new Logger(ScheduledPaymentsService.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private transactions: TransactionsService,
+    private email: EmailService,
+  ) {}
+
+  /**
+   * Schedule a one-off or recurring transfer to one of the user's beneficiaries
+   */
+  async create(userId: string, input: ScheduledPaymentInput) {
+    await this.verifyPin(userId, input.pin);
+
+    const beneficiary = await this.prisma.beneficiary.findFirst({
+      where: { id: input.beneficiaryId, userId },
+    });
+    if (!beneficiary) {
+      throw new NotFoundException('Beneficiary not found');
+    }
+    if (beneficiary.type === 'vura' && !beneficiary.vuraTag) {
+      throw new BadRequestException('Beneficiary has no Vura tag');
+    }
+    if (
+      beneficiary.type === 'bank' &&
+      (!beneficiary.accountNumber || !beneficiary.bankCode)
+    ) {
+      throw new BadRequestException('Beneficiary has no bank account details');
+    }
+
+    const amount = Number(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('Invalid amount.');
+    }
+    if (!FREQUENCIES.includes(input.frequency)) {
+      throw new BadRequestException(
+        'frequency must be once, daily, weekly or monthly',
+      );
+    }
+
+    const startAt = this.parseDate(input.startAt, 'startAt');
+    if (startAt.getTime() < Date.now() - 60_000) {
+      throw new BadRequestException('startAt must be in the future');
+    }
+
+    let endAt: Date | null = null;
+    let maxRuns: number | null = null;
+    if (input.frequency !== 'once') {
+      if (input.endAt) {
+        endAt = this.parseDate(input.endAt, 'endAt');
+        if (endAt <= startAt) {
+          throw new BadRequestException('endAt must be after startAt');
+        }
+      }
+      if (input.maxRuns !== undefined && input.maxRuns !== null) {
+        maxRuns = Number(input.maxRuns);
+        if (!Number.isInteger(maxRuns) || maxRuns < 1) {
+          throw new BadRequestException(
+            'maxRuns must be a positive whole number',
+          );
+        }
+      }
+    }
+
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.scheduledPayment.create({
+        data: {
+          userId,
+          beneficiaryId: beneficiary.id,
+          amount,
+          description: input.description?.trim() || null,
+          frequency: input.frequency,
+          startAt,
+          endAt,
+          maxRuns,
+          dueAt: startAt,
+          nextRunAt: startAt,
+        },
+      });
+      await tx.auditLog.create({
+        data: {
+          action: 'SCHEDULED_PAYMENT_CREATED',
+          userId,
+          actorType: 'user',
+          metadata: {
+            scheduledPaymentId: created.id,
+            beneficiaryId: beneficiary.id,
+            amount,
+            frequency: input.frequency,
+            startAt: startAt.toISOString(),
+          },
+        },
+      });
+      return created;
+    });
+
+    return this.present({ ...schedule, beneficiary });
+  }
+
+  async list(userId: string) {
+    const schedules = await this.prisma.scheduledPayment.findMany({
+      where: { userId, status: { not: 'CANCELLED' } },
+      include: { beneficiary: true },
+      orderBy: [{ status: 'asc' }, { nextRunAt: 'asc' }],
+    });
+    return schedules.map((s) => this.present(s));
+  }
+
+  /**
+   * One schedule with its most recent runs
+   */
+  async get(userId: string, id: string) {
+    const schedule = await this.findOwnedOrThrow(userId, id);
+    const runs = await this.prisma.scheduledPaymentRun.findMany({
+      where: { scheduledPaymentId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+    return { ...this.present(schedule), runs };
+  }
+
+  async pause(userId: string, id: string) {
+    const schedule = await this.findOwnedOrThrow(userId, id);
+    if (schedule.status !== 'ACTIVE') {
+      throw new BadRequestException('Only active schedules can be paused');
+    }
+    return this.setStatus(schedule, 'PAUSED', 'SCHEDULED_PAYMENT_PAUSED', {});
+  }
+
+  /**
+   * Resume a paused schedule. Occurrences missed while paused are skipped,
+   * not paid in a burst.
+   */
+  async resume(userId: string, id: string) {
+    const schedule = await this.findOwnedOrThrow(userId, id);
+    if (schedule.status !== 'PAUSED') {
+      throw new BadRequestException('Only paused schedules can be resumed');
+    }
+
+    const frequency = schedule.frequency as ScheduleFrequency;
+    const now = new Date();
+    let dueAt: Date | null = schedule.dueAt;
+    let skipped = 0;
+    while (dueAt && dueAt < now && frequency !== 'once') {
+      dueAt = nextOccurrence(frequency, dueAt, schedule.startAt);
+      skipped++;
+    }
+    const runCount = schedule.runCount + skipped;
+    if (!dueAt || this.isFinished(schedule, dueAt, runCount)) {
+      throw new BadRequestException(
+        'This schedule has no occurrences left. Create a new one instead.',
+      );
+    }
+
+    return this.setStatus(
+      schedule,
+      'ACTIVE',
+      'SCHEDULED_PAYMENT_RESUMED',
+      { dueAt, nextRunAt: dueAt, runCount, retryCount: 0 },
+      { skippedOccurrences: skipped },
+    );
+  }
+
+  async cancel(userId: string, id: string) {
+    const schedule = await this.findOwnedOrThrow(userId, id);
+    if (schedule.status !== 'ACTIVE' && schedule.status !== 'PAUSED') {
+      throw new BadRequestException('This schedule is no longer running');
+    }
+    return this.setStatus(
+      schedule,
+      'CANCELLED',
+      'SCHEDULED_PAYMENT_CANCELLED',
+      {},
+    );
+  }
+
+  /**
+   * Runs every minute: pays every active schedule whose next run is due
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runDue() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const staleLock = new Date(
+        now.getTime() - LOCK_TIMEOUT_MINUTES * 60 * 1000,
+      );
+      const due = await this.prisma.scheduledPayment.findMany({
+        where: {
+          status: 'ACTIVE',
+          nextRunAt: { lte: now },
+          OR: [{ lockedAt: null }, { lockedAt: { lt: staleLock } }],
+        },
+        include: { beneficiary: true },
+        orderBy: { nextRunAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const schedule of due) {
+        // Claim it so a second instance of the API does not pay it twice
+        const claimed = await this.prisma.scheduledPayment.updateMany({
+          where: {
+            id: schedule.id,
+            status: 'ACTIVE',
+            updatedAt: schedule.updatedAt,
+          },
+          data: { lockedAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        try {
+          await this.execute(schedule);
+        } catch (err) {
+          this.logger.error(
+            `Error running scheduled payment ${schedule.id}: ${(err as Error).message}`,
+          );
+          await this.prisma.scheduledPayment.update({
+            where: { id: schedule.id },
+            data: { lockedAt: null },
+          });
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async execute(schedule: ScheduleWithBeneficiary) {
+    const attempt = schedule.retryCount + 1;
+    const idempotencyKey = `SCHED-${schedule.id}-${schedule.dueAt.getTime()}-${attempt}`;
+    const amount = Number(schedule.amount);
+    const description =
+      schedule.description ||
+      `Scheduled payment to ${schedule.beneficiary.name}`;
+
+    let outcome: { transactionId: string; reference: string | null };
+    try {
+      // A transfer from a run that crashed before we recorded it
+      const previous = await this.prisma.transaction.findFirst({
+        where: {
+          idempotencyKey: scopedIdempotencyKey(schedule.userId, idempotencyKey),
+          senderId: schedule.userId,
+          status: { not: 'FAILED' },
+        },
+      });
+      outcome = previous
+        ? { transactionId: previous.id, reference: previous.reference }
+        : await this.pay(schedule, amount, description, idempotencyKey);
+    } catch (err) {
+      await this.handleFailure(schedule, attempt, err);
+      return;
+    }
+
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: outcome.transactionId },
+      select: { status: true, afterBalance: true },
+    });
+    await this.advance(schedule, {
+      attempt,
+      status: transaction?.status || 'SUCCESS',
+      transactionId: outcome.transactionId,
+      reference: outcome.reference,
+    });
+
+    void this.email.sendScheduledPaymentNotification(schedule.userId, {
+      outcome: 'paid',
+      amount,
+      currency: 'NGN',
+      beneficiary: schedule.beneficiary.name,
+      reference: outcome.reference ?? undefined,
+      balanceAfter:
+        transaction?.afterBalance != null
+          ? Number(transaction.afterBalance)
+          : undefined,
+    });
+  }
+
+  /**
+   * Send through the same path as a manual transfer, so limits, holds and
+   * risk rules all apply
+   */
+  private async pay(
+    schedule: ScheduleWithBeneficiary,
+    amount: number,
+    description: string,
+    idempotencyKey: string,
+  ): Promise<{ transactionId: string; reference: string | null }> {
+    const { beneficiary } = schedule;
+    if (beneficiary.type === 'bank') {
+      const { accountName } = await this.transactions.verifyBankAccount(
+        beneficiary.accountNumber!,
+        beneficiary.bankCode!,
+      );
+      return this.transactions.sendToBank(
+        schedule.userId,
+        beneficiary.accountNumber!,
+        beneficiary.bankCode!,
+        accountName,
+        amount,
+        description,
+        undefined,
+        idempotencyKey,
+      );
+    }
+
+    const result = await this.transactions.initiatePayment(
+      schedule.userId,
+      beneficiary.vuraTag!,
+      amount,
+      description,
+      undefined,
+      idempotencyKey,
+    );
+    if (!('transactionId' in result) || !result.transactionId) {
+      throw new BadRequestException('Recipient could not be paid directly');
+    }
+    return { transactionId: result.transactionId, reference: result.reference };
+  }
+
+  /**
+   * Short balance: retry this occurrence with backoff. Blocked by risk rules:
+   * pause the schedule until the user looks at it. Anything else: give up on
+   * this occurrence and move on to the next.
+   */
+  private async handleFailure(
+    schedule: ScheduleWithBeneficiary,
+    attempt: number,
+    err: unknown,
+  ) {
+    const message = (err as Error)?.message || 'Payment failed';
+    const insufficient =
+      err instanceof BadRequestException && /insufficient/i.test(message);
+    const notice = {
+      amount: Number(schedule.amount),
+      currency: 'NGN',
+      beneficiary: schedule.beneficiary.name,
+      reason: message,
+    };
+
+    if (insufficient && schedule.retryCount < MAX_RETRIES) {
+      const delayMinutes = RETRY_BASE_MINUTES * 2 ** schedule.retryCount;
+      const nextRunAt = new Date(Date.now() + delayMinutes * 60 * 1000);
+      await this.prisma.$transaction(async (tx) => {
+        await tx.scheduledPaymentRun.create({
+          data: {
+            scheduledPaymentId: schedule.id,
+            dueAt: schedule.dueAt,
+            attempt,
+            status: 'RETRYING',
+            error: message,
+          },
+        });
+        await tx.scheduledPayment.update({
+          where: { id: schedule.id },
+          data: {
+            retryCount: { increment: 1 },
+            nextRunAt,
+            lastRunAt: new Date(),
+            lastError: message,
+            lockedAt: null,
+          },
+        });
+      });
+      // Only tell the user once per occurrence, not on every retry
+      if (schedule.retryCount === 0) {
+        void this.email.sendScheduledPaymentNotification(schedule.userId, {
+          ...notice,
+          outcome: 'retrying',
+          nextAttemptAt: nextRunAt,
+        });
+      }
+      return;
+    }
+
+    if (err instanceof ForbiddenException) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.scheduledPaymentRun.create({
+          data: {
+            scheduledPaymentId: schedule.id,
+            dueAt: schedule.dueAt,
+            attempt,
+            status: 'FAILED',
+            error: message,
+          },
+        });
+        await tx.scheduledPayment.update({
+          where: { id: schedule.id },
+          data: {
+            status: 'PAUSED',
+            lastRunAt: new Date(),
+            lastError: message,
+            lockedAt: null,
+          },
+        });
+        await tx.auditLog.create({
+          data: {
+            action: 'SCHEDULED_PAYMENT_PAUSED',
+            userId: schedule.userId,
+            actorType: 'system',
+            metadata: { scheduledPaymentId: schedule.id, reason: message },
+          },
+        });
+      });
+      void this.email.sendScheduledPaymentNotification(schedule.userId, {
+        ...notice,
+        outcome: 'paused',
+      });
+      return;
+    }
+
+    await this.advance(schedule, { attempt, status: 'FAILED', error: message });
+    void this.email.sendScheduledPaymentNotification(schedule.userId, {
+      ...notice,
+      outcome: 'failed',
+    });
+  }
+
+  /**
+   * Record the run, then move on to the next occurrence or complete the schedule
+   */
+  private async advance(
+    schedule: ScheduleWithBeneficiary,
+    run: {
+      attempt: number;
+      status: string;
+      transactionId?: string;
+      reference?: string | null;
+      error?: string;
+    },
+  ) {
+    const runCount = schedule.runCount + 1;
+    const next = nextOccurrence(
+      schedule.frequency as ScheduleFrequency,
+      schedule.dueAt,
+      schedule.startAt,
+    );
+    const completed = !next || this.isFinished(schedule, next, runCount);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.scheduledPaymentRun.create({
+        data: {
+          scheduledPaymentId: schedule.id,
+          dueAt: schedule.dueAt,
+          attempt: run.attempt,
+          status: run.status,
+          transactionId: run.transactionId,
+          reference: run.reference,
+          error: run.error,
+        },
+      });
+      await tx.scheduledPayment.update({
+        where: { id: schedule.id },
+        data: {
+          runCount,
+          retryCount: 0,
+          lastRunAt: new Date(),
+          lastError: run.error ?? null,
+          lockedAt: null,
+          ...(completed
+            ? { status: 'COMPLETED' }
+            : { dueAt: next, nextRunAt: next }),
+        },
+      });
+      await tx.auditLog.create({
+        data: {
+          action:
+            run.status === 'FAILED'
+              ? 'SCHEDULED_PAYMENT_FAILED'
+              : 'SCHEDULED_PAYMENT_EXECUTED',
+          userId: schedule.userId,
+          actorType: 'system',
+          metadata: {
+            scheduledPaymentId: schedule.id,
+            dueAt: schedule.dueAt.toISOString(),
+            attempt: run.attempt,
+            amount: Number(schedule.amount),
+            reference: run.reference ?? null,
+            error: run.error ?? null,
+          },
+        },
+      });
+    });
+  }
+
+  private isFinished(
+    schedule: ScheduledPayment,
+    next: Date,
+    runCount: number,
+  ): boolean {
+    if (schedule.maxRuns !== null && runCount >= schedule.maxRuns) return true;
+    return schedule.endAt !== null && next > schedule.endAt;
+  }
+
+  private async setStatus(
+    schedule: ScheduleWithBeneficiary,
+    status: string,
+    action: string,
+    data: Prisma.ScheduledPaymentUpdateInput,
+    metadata: Prisma.InputJsonObject = {},
+  ) {
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const row = await tx.scheduledPayment.update({
+        where: { id: schedule.id },
+        data: { ...data, status },
+      });
+      await tx.auditLog.create({
+        data: {
+          action,
+          userId: schedule.userId,
+          actorType: 'user',
+          metadata: { scheduledPaymentId: schedule.id, ...metadata },
+        },
+      });
+      return row;
+    });
+    return this.present({ ...updated, beneficiary: schedule.beneficiary });
+  }
+
+  private async findOwnedOrThrow(userId: string, id: string) {
+    const schedule = await this.prisma.scheduledPayment.findFirst({
+      where: { id, userId },
+      include: { beneficiary: true },
+    });
+    if (!schedule) {
+      throw new NotFoundException('Scheduled payment not found');
+    }
+    return schedule;
+  }
+
+  private async verifyPin(userId: string, pin: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { hashedPin: true },
+    });
+    if (!user?.hashedPin) {
+      throw new UnauthorizedException('Set your PIN in Settings.');
+    }
+    const pinValid = await bcrypt.compare(pin || '', user.hashedPin);
+    if (!pinValid) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+  }
+
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (!value || Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be a valid date`);
+    }
+    return date;
+  }
+
+  private present(schedule: ScheduleWithBeneficiary) {
+    const { beneficiary, ...rest } = schedule;
+    return {
+      ...rest,
+      amount: Number(schedule.amount),
+      beneficiary: {
+        id: beneficiary.id,
+        name: beneficiary.name,
+        type: beneficiary.type,
+        vuraTag: beneficiary.vuraTag,
+        accountNumber: beneficiary.accountNumber,
+        bankName: beneficiary.bankName,
+      },
+    };
+  }
+}
@@ -156,6 +156,64 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send an OTP to an address directly; used by the email OTP channel,
+   * which also serves pending registrations that have no user row yet
+   */
+  async sendOtpCode(
+    to: string,
+    params: {
+      vuraTag?: string;
+      otp: string;
+      purpose: string;
+      expiresInMinutes: number;
+      device?: { browser: string; os: string; ip?: string };
+    },
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    if (!this.emailEnabled || !this.resend) {
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    const template = {
+      vuraTag: params.vuraTag ?? 'there',
+      otp: params.otp,
+      deviceInfo: params.device ?? { browser: 'Unknown', os: 'Unknown' },
+      expiresIn: `${params.expiresInMinutes} minutes`,
+    };
+    const [subject, html] =
+      params.purpose === 'registration'
+        ? [
+            '🎉 Welcome to Vura - Complete Your Registration',
+            this.buildRegistrationOtpEmailTemplate(template),
+          ]
+        : params.purpose === 'device_verification'
+          ? [
+              '🔒 Vura Security - Login Verification Required',
+              this.buildLoginOtpEmailTemplate(template),
+            ]
+          : [
+              '🔒 Your Vura security code',
+              this.buildOtpEmailTemplate(template),
+            ];
+
+    try {
+      const result = await this.resend.emails.send({
+        from: `Vura Security <${this.fromEmail}>`,
+        to,
+        subject,
+        html,
+      });
+      if (result.error) {
+        this.logger.error('Failed to send OTP email:', result.error);
+        return { success: false, error: result.error.message };
+      }
+      return { success: true, messageId: result.data?.id };
+    } catch (error) {
+      this.logger.error('Error sending OTP email:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   /**
    * Send transaction notification email
    */
@@ -278,6 +336,115 @@ export class EmailService {
     }
   }
 
+  /**
+   * Tell the user how a scheduled payment went: paid, retrying after a short
+   * balance, skipped, or paused by a risk check
+   */
+  async sendScheduledPaymentNotification(
+    userId: string,
+    notice: {
+      outcome: 'paid' | 'retrying' | 'failed' | 'paused';
+      amount: number;
+      currency: string;
+      beneficiary: string;
+      reference?: string;
+      reason?: string;
+      nextAttemptAt?: Date;
+      balanceAfter?: number;
+    },
+  ): Promise<boolean> {
+    if (!this.emailEnabled || !this.resend) {
+      this.logger.warn(
+        'Email service not configured - skipping scheduled payment notification',
+      );
+      return false;
+    }
+
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { emailEncrypted: true, vuraTag: true },
+      });
+
+      if (!user?.emailEncrypted) return false;
+
+      const email = decrypt(user.emailEncrypted);
+
+      const subjects: Record<typeof notice.outcome, string> = {
+        paid: '✅ Scheduled payment sent - Vura',
+        retrying: '⏳ Scheduled payment delayed - Vura',
+        failed: '❌ Scheduled payment failed - Vura',
+        paused: '⚠️ Scheduled payment paused - Vura',
+      };
+      const html = this.buildScheduledPaymentTemplate({
+        vuraTag: user.vuraTag,
+        notice,
+      });
+
+      const result = await this.resend.emails.send({
+        from: `Vura <${this.fromEmail}>`,
+        to: email,
+        subject: subjects[notice.outcome],
+        html,
+      });
+
+      if (result.error) {
+        this.logger.error(
+          'Failed to send scheduled payment notification:',
+          result.error,
+        );
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.logger.error('Error sending scheduled payment notification:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Receipt for someone who paid a payment link by card or bank transfer.
+   * They may not have a Vura account, so this goes to the email they gave
+   * at checkout.
+   */
+  async sendPaymentLinkReceipt(
+    email: string,
+    receipt: {
+      reference: string;
+      amount: number;
+      currency: string;
+      title: string;
+      merchantVuraTag: string;
+      payerName: string | null;
+      paidAt: Date | null;
+    },
+  ): Promise<boolean> {
+    if (!this.emailEnabled || !this.resend) {
+      this.logger.warn(
+        'Email service not configured - skipping payment link receipt',
+      );
+      return false;
+    }
+
+    try {
+      const result = await this.resend.emails.send({
+        from: `Vura <${this.fromEmail}>`,
+        to: email,
+        subject: `🧾 Your receipt from @${receipt.merchantVuraTag} - Vura`,
+        html: this.buildPaymentLinkReceiptTemplate(receipt),
+      });
+
+      if (result.error) {
+        this.logger.error('Failed to send payment link receipt:', result.error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      this.logger.error('Error sending payment link receipt:', error);
+      return false;
+    }
+  }
+
   /**
    * Build OTP email HTML template
    */
@@ -562,6 +729,142 @@ export class EmailService {
     `;
   }
 
+  /**
+   * Build scheduled payment email template
+   */
+  private buildScheduledPaymentTemplate(params: {
+    vuraTag: string;
+    notice: {
+      outcome: 'paid' | 'retrying' | 'failed' | 'paused';
+      amount: number;
+      currency: string;
+      beneficiary: string;
+      reference?: string;
+      reason?: string;
+      nextAttemptAt?: Date;
+      balanceAfter?: number;
+    };
+  }): string {
+    const { vuraTag, notice } = params;
+    const paid = notice.outcome === 'paid';
+    const headerColor = paid ? '#22c55e' : '#f59e0b';
+    const messages: Record<typeof notice.outcome, string> = {
+      paid: `Your scheduled payment to ${notice.beneficiary} has been sent.`,
+      retrying: `We couldn't send your scheduled payment to ${notice.beneficiary} because your balance was too low. We'll try again automatically.`,
+      failed: `We couldn't send your scheduled payment to ${notice.beneficiary}. This payment has been skipped; the schedule will continue with the next one.`,
+      paused: `Your scheduled payment to ${notice.beneficiary} was stopped by a security check and the schedule has been paused. Review it in the app to resume.`,
+    };
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Scheduled Payment</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .container { background: #f9fafb; border-radius: 12px; padding: 32px; }
+    .header { text-align: center; margin-bottom: 24px; }
+    .logo { font-size: 28px; font-weight: bold; color: #7c3aed; }
+    .amount-box { color: white; font-size: 32px; font-weight: bold; text-align: center; padding: 24px; border-radius: 8px; margin: 24px 0; }
+    .transaction-info { background: white; padding: 16px; border-radius: 8px; margin: 16px 0; }
+    .transaction-info p { margin: 8px 0; font-size: 14px; color: #6b7280; }
+    .footer { text-align: center; font-size: 12px; color: #9ca3af; margin-top: 32px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">Vura</div>
+    </div>
+
+    <h2>🗓️ Scheduled Payment</h2>
+
+    <p>Hi @${vuraTag},</p>
+    <p>${messages[notice.outcome]}</p>
+
+    <div class="amount-box" style="background-color: ${headerColor}">
+      ${notice.currency}${notice.amount.toLocaleString()}
+    </div>
+
+    <div class="transaction-info">
+      <p><strong>To:</strong> ${notice.beneficiary}</p>
+      ${notice.reference ? `<p><strong>Reference:</strong> ${notice.reference}</p>` : ''}
+      ${notice.reason && !paid ? `<p><strong>Reason:</strong> ${notice.reason}</p>` : ''}
+      ${notice.nextAttemptAt ? `<p><strong>Next attempt:</strong> ${notice.nextAttemptAt.toLocaleString()}</p>` : ''}
+      ${notice.balanceAfter !== undefined ? `<p><strong>Available Balance:</strong> ${notice.currency}${notice.balanceAfter.toLocaleString()}</p>` : ''}
+    </div>
+
+    <div class="footer">
+      <p>This is an automated notification from Vura.</p>
+      <p>© 2025 Vura. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  private buildPaymentLinkReceiptTemplate(receipt: {
+    reference: string;
+    amount: number;
+    currency: string;
+    title: string;
+    merchantVuraTag: string;
+    payerName: string | null;
+    paidAt: Date | null;
+  }): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payment Receipt</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .container { background: #f9fafb; border-radius: 12px; padding: 32px; }
+    .header { text-align: center; margin-bottom: 24px; }
+    .logo { font-size: 28px; font-weight: bold; color: #7c3aed; }
+    .amount-box { background-color: #22c55e; color: white; font-size: 32px; font-weight: bold; text-align: center; padding: 24px; border-radius: 8px; margin: 24px 0; }
+    .transaction-info { background: white; padding: 16px; border-radius: 8px; margin: 16px 0; }
+    .transaction-info p { margin: 8px 0; font-size: 14px; color: #6b7280; }
+    .footer { text-align: center; font-size: 12px; color: #9ca3af; margin-top: 32px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">Vura</div>
+    </div>
+
+    <h2>🧾 Payment Receipt</h2>
+
+    <p>Hi${receipt.payerName ? ` ${receipt.payerName}` : ''},</p>
+    <p>Your payment to @${receipt.merchantVuraTag} was successful.</p>
+
+    <div class="amount-box">
+      ${receipt.currency}${receipt.amount.toLocaleString()}
+    </div>
+
+    <div class="transaction-info">
+      <p><strong>For:</strong> ${receipt.title}</p>
+      <p><strong>Paid to:</strong> @${receipt.merchantVuraTag}</p>
+      <p><strong>Reference:</strong> ${receipt.reference}</p>
+      ${receipt.paidAt ? `<p><strong>Date:</strong> ${receipt.paidAt.toLocaleString()}</p>` : ''}
+    </div>
+
+    <div class="footer">
+      <p>Keep this email as proof of payment.</p>
+      <p>© 2025 Vura. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+  }
+
   /**
    * Build security alert email template
    */
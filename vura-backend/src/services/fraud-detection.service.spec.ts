@@ -0,0 +1,368 @@
+import type { EWSRule } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { FraudDetectionService, RiskFacts } from './fraud-detection.service';
+
+const USER = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rule(overrides: Partial<EWSRule> & { name: string }): EWSRule {
+  return {
+    id: overrides.name,
+    description: `${overrides.name} matched`,
+    ruleType: 'composite',
+    threshold: new Decimal(0),
+    conditions: {},
+    score: 10,
+    action: 'score',
+    holdHours: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function facts(overrides: Partial<RiskFacts> = {}): RiskFacts {
+  return {
+    amount: 10000,
+    channel: 'bank',
+    hour: 12,
+    kycTier: 1,
+    ninVerified: true,
+    userFraudScore: 0,
+    accountAgeDays: 200,
+    priorTransfers: 20,
+    averageAmount: 8000,
+    newBeneficiary: false,
+    beneficiaryAddedHoursAgo: null,
+    newDevice: false,
+    ipChanged: false,
+    velocity: {},
+    ...overrides,
+  };
+}
+
+/**
+ * evaluateRules is pure and tested directly; gatherFacts runs against a
+ * database stub holding a small transfer history.
+ */
+describe('FraudDetectionService', () => {
+  let prisma: {
+    eWSRule: { findMany: jest.Mock };
+    user: { findUnique: jest.Mock };
+    transaction: {
+      count: jest.Mock;
+      findMany: jest.Mock;
+      findFirst: jest.Mock;
+      aggregate: jest.Mock;
+    };
+    beneficiary: { findFirst: jest.Mock };
+    session: { findFirst: jest.Mock };
+  };
+  let fraud: FraudDetectionService;
+
+  beforeEach(() => {
+    prisma = {
+      eWSRule: { findMany: jest.fn().mockResolvedValue([]) },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({
+          fraudScore: 15,
+          kycTier: 2,
+          ninVerified: true,
+          createdAt: new Date(Date.now() - 10 * DAY_MS),
+        }),
+      },
+      transaction: {
+        count: jest.fn().mockResolvedValue(4),
+        findMany: jest
+          .fn()
+          .mockResolvedValue(
+            [1000, 2000, 3000].map((a) => ({ amount: new Decimal(a) })),
+          ),
+        findFirst: jest.fn().mockResolvedValue(null),
+        aggregate: jest
+          .fn()
+          .mockResolvedValue({ _count: 2, _sum: { amount: new Decimal(500) } }),
+      },
+      beneficiary: { findFirst: jest.fn().mockResolvedValue(null) },
+      session: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    fraud = new FraudDetectionService(prisma as unknown as PrismaService);
+  });
+
+  describe('evaluateRules', () => {
+    it('adds up the matched rules and explains each one', () => {
+      const result = fraud.evaluateRules(
+        [
+          rule({
+            name: 'large',
+            ruleType: 'amount',
+            threshold: new Decimal(5000),
+            score: 30,
+          }),
+          rule({ name: 'new_payee', ruleType: 'first_time', score: 25 }),
+          rule({ name: 'tiny', conditions: { maxAmount: 100 }, score: 40 }),
+        ],
+        facts({ newBeneficiary: true }),
+      );
+
+      expect(result.score).toBe(55);
+      expect(result.action).toBe('allow');
+      expect(result.contributions).toEqual([
+        {
+          rule: 'large',
+          score: 30,
+          action: 'score',
+          reason: 'large matched',
+          observed: { amount: 10000 },
+        },
+        {
+          rule: 'new_payee',
+          score: 25,
+          action: 'score',
+          reason: 'new_payee matched',
+          observed: {},
+        },
+      ]);
+    });
+
+    it('caps the score at 100', () => {
+      const result = fraud.evaluateRules(
+        [
+          rule({ name: 'a', conditions: { minAmount: 1 }, score: 70 }),
+          rule({ name: 'b', conditions: { minAmount: 1 }, score: 70 }),
+        ],
+        facts(),
+      );
+
+      expect(result.score).toBe(100);
+    });
+
+    it('takes the most severe action and the longest hold', () => {
+      const result = fraud.evaluateRules(
+        [
+          rule({ name: 'flag', conditions: { minAmount: 1 }, action: 'flag' }),
+          rule({
+            name: 'delay_short',
+            conditions: { minAmount: 1 },
+            action: 'delay',
+            holdHours: 2,
+          }),
+          rule({
+            name: 'delay_default',
+            conditions: { minAmount: 1 },
+            action: 'delay',
+          }),
+        ],
+        facts(),
+      );
+
+      expect(result).toMatchObject({
+        action: 'hold',
+        riskLevel: 'high',
+        holdHours: 24,
+        blocked: false,
+      });
+    });
+
+    it('escalates through score rules once the total reaches their cutoff', () => {
+      const rules = [
+        rule({ name: 'amount', conditions: { minAmount: 1 }, score: 60 }),
+        rule({
+          name: 'review_at_50',
+          ruleType: 'score',
+          threshold: new Decimal(50),
+          action: 'flag',
+        }),
+        rule({
+          name: 'block_at_80',
+          ruleType: 'score',
+          threshold: new Decimal(80),
+          action: 'block',
+        }),
+      ];
+
+      const result = fraud.evaluateRules(rules, facts());
+
+      expect(result).toMatchObject({ score: 60, action: 'review' });
+      // Score rules are cutoffs, not contributions
+      expect(result.contributions.map((c) => c.rule)).toEqual(['amount']);
+    });
+
+    it('does not match on facts that are unknown', () => {
+      const result = fraud.evaluateRules(
+        [rule({ name: 'new_device', ruleType: 'device', action: 'block' })],
+        facts({ newDevice: null }),
+      );
+
+      expect(result).toMatchObject({
+        score: 0,
+        action: 'allow',
+        blocked: false,
+      });
+    });
+
+    it('matches hour windows that wrap past midnight', () => {
+      const night = [
+        rule({ name: 'night', conditions: { hours: { from: 23, to: 5 } } }),
+      ];
+
+      expect(fraud.evaluateRules(night, facts({ hour: 2 })).score).toBe(10);
+      expect(fraud.evaluateRules(night, facts({ hour: 23 })).score).toBe(10);
+      expect(fraud.evaluateRules(night, facts({ hour: 12 })).score).toBe(0);
+    });
+
+    it('never matches a rule without conditions', () => {
+      const result = fraud.evaluateRules([rule({ name: 'empty' })], facts());
+
+      expect(result.contributions).toEqual([]);
+    });
+  });
+
+  describe('conditionsFor', () => {
+    it('lets explicit conditions override the ruleType shorthand', () => {
+      expect(
+        FraudDetectionService.conditionsFor(
+          rule({
+            name: 'velocity',
+            ruleType: 'velocity',
+            threshold: new Decimal(5),
+            conditions: { velocity: { windowMinutes: 10 } },
+          }),
+        ),
+      ).toEqual({ velocity: { windowMinutes: 10, minCount: 5 } });
+    });
+  });
+
+  describe('gatherFacts', () => {
+    it('reads the facts from the user and their transfer history', async () => {
+      const result = await fraud.gatherFacts(
+        {
+          userId: USER,
+          amount: new Decimal(2500),
+          channel: 'bank',
+          accountNumber: '0123456789',
+          bankCode: '058',
+        },
+        [60],
+      );
+
+      expect(result).toMatchObject({
+        amount: 2500,
+        kycTier: 2,
+        userFraudScore: 15,
+        priorTransfers: 4,
+        averageAmount: 2000,
+        // No settled transfer to this account before
+        newBeneficiary: true,
+        beneficiaryAddedHoursAgo: null,
+        // Neither a fingerprint nor an IP was sent
+        newDevice: null,
+        ipChanged: null,
+        // The transfer being scored counts towards its own velocity
+        velocity: { '60': { count: 3, amount: 3000 } },
+      });
+      expect(Math.round(result.accountAgeDays!)).toBe(10);
+    });
+
+    it('leaves the average unknown with fewer than three settled transfers', async () => {
+      prisma.transaction.findMany.mockResolvedValue([
+        { amount: new Decimal(1000) },
+      ]);
+
+      const result = await fraud.gatherFacts(
+        { userId: USER, amount: 100, channel: 'internal' },
+        [],
+      );
+
+      expect(result.averageAmount).toBeNull();
+    });
+
+    it('spots a new device and a changed IP from the sessions', async () => {
+      prisma.session.findFirst
+        // No session has used this fingerprint
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ipAddress: '10.0.0.1' });
+
+      const result = await fraud.gatherFacts(
+        {
+          userId: USER,
+          amount: 100,
+          channel: 'internal',
+          deviceFingerprint: 'device-2',
+          ipAddress: '10.0.0.2',
+        },
+        [],
+      );
+
+      expect(result).toMatchObject({ newDevice: true, ipChanged: true });
+    });
+
+    it('leaves the current session out when looking for the device and IP', async () => {
+      await fraud.gatherFacts(
+        {
+          userId: USER,
+          amount: 100,
+          channel: 'internal',
+          deviceFingerprint: 'device-1',
+          ipAddress: '10.0.0.1',
+          sessionId: 'session-1',
+        },
+        [],
+      );
+
+      const wheres = (
+        prisma.session.findFirst.mock.calls as [{ where: object }][]
+      ).map(([args]) => args.where);
+      expect(wheres).toHaveLength(2);
+      for (const where of wheres) {
+        expect(where).toMatchObject({ id: { not: 'session-1' } });
+      }
+    });
+
+    it('knows a recipient that was paid before', async () => {
+      prisma.transaction.findFirst.mockResolvedValue({ id: 'tx-0' });
+
+      const result = await fraud.gatherFacts(
+        {
+          userId: USER,
+          amount: 100,
+          channel: 'bank',
+          accountNumber: '0123456789',
+          bankCode: '058',
+        },
+        [],
+      );
+
+      expect(result.newBeneficiary).toBe(false);
+    });
+  });
+
+  it('scores a live transfer against the active rules', async () => {
+    prisma.eWSRule.findMany.mockResolvedValue([
+      rule({
+        name: 'burst',
+        ruleType: 'velocity',
+        threshold: new Decimal(3),
+        score: 50,
+        action: 'flag',
+      }),
+    ]);
+
+    const result = await fraud.analyzeTransaction({
+      userId: USER,
+      amount: 100,
+      channel: 'internal',
+    });
+
+    expect(prisma.transaction.aggregate).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      score: 50,
+      action: 'review',
+      contributions: [
+        { rule: 'burst', observed: { velocity: { count: 3, amount: 600 } } },
+      ],
+    });
+  });
+});
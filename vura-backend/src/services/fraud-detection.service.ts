@@ -1,135 +1,587 @@
 // vura-backend/src/services/fraud-detection.service.ts
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { EWSRule } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import Decimal from 'decimal.js';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskAction = 'allow' | 'review' | 'hold' | 'block';
+export type EWSRuleAction = 'score' | 'flag' | 'delay' | 'block';
+
+/**
+ * Conditions an EWSRule matches on. Every condition present must hold;
+ * a condition whose fact is unknown (e.g. no device fingerprint sent) does not match.
+ */
+export interface EWSRuleConditions {
+  minAmount?: number;
+  maxAmount?: number;
+  // Counts and sums include the transaction being scored
+  velocity?: { windowMinutes: number; minCount?: number; minAmount?: number };
+  maxKycTier?: number;
+  ninVerified?: boolean;
+  minUserFraudScore?: number;
+  maxAccountAgeDays?: number;
+  maxPriorTransfers?: number;
+  minAmountMultiplier?: number;
+  newBeneficiary?: boolean;
+  beneficiaryAddedWithinHours?: number;
+  newDevice?: boolean;
+  ipChanged?: boolean;
+  // Hour of day, from inclusive to exclusive; wraps past midnight when from > to
+  hours?: { from: number; to: number };
+  channels?: string[];
+}
+
+/** What the engine knew about a transaction when it evaluated the rules. */
+export interface RiskFacts {
+  amount: number;
+  channel: string;
+  hour: number;
+  kycTier: number | null;
+  ninVerified: boolean | null;
+  userFraudScore: number | null;
+  accountAgeDays: number | null;
+  priorTransfers: number | null;
+  // Average of the last 10 settled transfers; null with fewer than 3
+  averageAmount: number | null;
+  newBeneficiary: boolean | null;
+  beneficiaryAddedHoursAgo: number | null;
+  newDevice: boolean | null;
+  ipChanged: boolean | null;
+  // Keyed by window in minutes
+  velocity: Record<string, { count: number; amount: number }>;
+}
+
+/** One rule's share of a score, kept so admins can see why a transfer scored the way it did. */
+export interface RiskContribution {
+  rule: string;
+  score: number;
+  action: EWSRuleAction;
+  reason: string;
+  observed?: Record<string, unknown>;
+}
 
 export interface FraudScore {
   score: number; // 0-100
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
+  action: RiskAction;
   reasons: string[];
+  contributions: RiskContribution[];
   blocked: boolean;
+  // Set when action is 'hold'
+  holdHours?: number;
+  facts: RiskFacts;
 }
 
+export interface TransactionRiskInput {
+  userId: string;
+  amount: number | Decimal;
+  channel: 'internal' | 'bank' | 'crypto';
+  // Vura-to-Vura recipient
+  recipientId?: string;
+  // Bank transfer destination
+  accountNumber?: string;
+  bankCode?: string;
+  // Crypto withdrawal destination
+  walletAddress?: string;
+  deviceFingerprint?: string;
+  ipAddress?: string;
+  // The session making the request, which always matches its own device and IP
+  sessionId?: string;
+}
+
+// Outgoing transactions that count towards velocity and history
+export const OUTFLOW_TYPES = [
+  'send',
+  'external_transfer',
+  'bill_payment',
+  'qr_payment',
+  'payment_link',
+];
+export const OUTFLOW_STATUSES = ['SUCCESS', 'COMPLETED', 'PENDING', 'HELD'];
+export const SETTLED_STATUSES = ['SUCCESS', 'COMPLETED'];
+
+const ACTION_SEVERITY: Record<RiskAction, number> = {
+  allow: 0,
+  review: 1,
+  hold: 2,
+  block: 3,
+};
+const RULE_ACTIONS: Record<EWSRuleAction, RiskAction> = {
+  score: 'allow',
+  flag: 'review',
+  delay: 'hold',
+  block: 'block',
+};
+const DEFAULT_HOLD_HOURS = 24;
+const RULE_CACHE_MS = 30 * 1000;
+
 @Injectable()
 export class FraudDetectionService {
-  private readonly HIGH_RISK_THRESHOLD = 80;
-  private readonly MEDIUM_RISK_THRESHOLD = 50;
-  private readonly MAX_DAILY_AMOUNT = 5000000; // 50,000 NGN in kobo
-  private readonly MAX_SINGLE_AMOUNT = 1000000; // 10,000 NGN in kobo
-
-  analyzeTransaction(transaction: {
-    amount: number;
-    userId: string;
-    beneficiaryId?: string;
-  }): FraudScore {
-    const reasons: string[] = [];
-    let score = 0;
-
-    // Check transaction amount
-    if (transaction.amount > this.MAX_SINGLE_AMOUNT) {
-      score += 30;
-      reasons.push('Large transaction amount');
-    }
+  private readonly logger = new Logger(FraudDetectionService.name);
+  private ruleCache: { rules: EWSRule[]; loadedAt: number } | null = null;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Score an outgoing transaction: gather facts from the user's real history,
+   * then evaluate the active EWSRule set against them.
+   */
+  async analyzeTransaction(input: TransactionRiskInput): Promise<FraudScore> {
+    const rules = await this.getActiveRules();
+    const facts = await this.gatherFacts(input, this.velocityWindows(rules));
+    const result = this.evaluateRules(rules, facts);
 
-    // Check for rapid transactions (same user, multiple transactions in short time)
-    const rapidTransactions = this.checkRapidTransactions(transaction.userId);
-    if (rapidTransactions > 5) {
-      score += 25;
-      reasons.push('Multiple rapid transactions');
+    this.logger.log(
+      `Risk for user ${input.userId}: ${result.score}/100 (${result.action}) [${result.contributions.map((c) => c.rule).join(', ')}]`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Active rules, cached briefly so every transfer does not re-read the table
+   */
+  async getActiveRules(): Promise<EWSRule[]> {
+    if (
+      this.ruleCache &&
+      Date.now() - this.ruleCache.loadedAt < RULE_CACHE_MS
+    ) {
+      return this.ruleCache.rules;
     }
+    const rules = await this.prisma.eWSRule.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+    this.ruleCache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
 
-    // Check for transactions outside normal hours (8 AM - 8 PM)
-    const hour = new Date().getHours();
-    if (hour < 8 || hour > 20) {
-      score += 15;
-      reasons.push('Transaction outside normal hours');
+  invalidateRules(): void {
+    this.ruleCache = null;
+  }
+
+  /**
+   * Evaluate rules against facts. Pure, so dry-runs can replay history through it.
+   * Matching rules add their score; the action is the most severe of the matched
+   * rules' actions and the 'score' rules whose cutoff the total reaches.
+   */
+  evaluateRules(rules: EWSRule[], facts: RiskFacts): FraudScore {
+    const contributions: RiskContribution[] = [];
+    let action = 'allow' as RiskAction;
+    let holdHours: number | undefined;
+
+    const escalate = (rule: EWSRule) => {
+      const ruleAction = RULE_ACTIONS[rule.action as EWSRuleAction] ?? 'allow';
+      if (ruleAction === 'hold') {
+        holdHours = Math.max(
+          holdHours ?? 0,
+          rule.holdHours ?? DEFAULT_HOLD_HOURS,
+        );
+      }
+      if (ACTION_SEVERITY[ruleAction] > ACTION_SEVERITY[action]) {
+        action = ruleAction;
+      }
+    };
+
+    for (const rule of rules) {
+      if (rule.ruleType === 'score') continue;
+      const conditions = FraudDetectionService.conditionsFor(rule);
+      if (!this.matches(conditions, facts)) continue;
+      contributions.push({
+        rule: rule.name,
+        score: rule.score,
+        action: rule.action as EWSRuleAction,
+        reason: rule.description,
+        observed: this.observedFor(conditions, facts),
+      });
+      escalate(rule);
     }
 
-    // Check for transactions to new beneficiaries
-    const isNewBeneficiary = this.checkNewBeneficiary(
-      transaction.userId,
-      transaction.beneficiaryId || '',
+    const score = Math.min(
+      100,
+      contributions.reduce((sum, c) => sum + c.score, 0),
     );
-    if (isNewBeneficiary) {
-      score += 20;
-      reasons.push('Transaction to new beneficiary');
+
+    for (const rule of rules) {
+      if (rule.ruleType === 'score' && score >= Number(rule.threshold)) {
+        escalate(rule);
+      }
     }
 
-    // Check daily transaction limit
-    const dailyAmount = this.getDailyTransactionAmount(transaction.userId);
-    if (dailyAmount > this.MAX_DAILY_AMOUNT) {
-      score += 40;
-      reasons.push('Daily transaction limit exceeded');
+    return {
+      score,
+      riskLevel: this.getRiskLevel(action),
+      action,
+      reasons: contributions.map((c) => c.reason),
+      contributions,
+      blocked: action === 'block',
+      holdHours: action === 'hold' ? holdHours : undefined,
+      facts,
+    };
+  }
+
+  /**
+   * A rule's full condition set: its ruleType/threshold shorthand merged with
+   * the explicit conditions, which win on conflict.
+   */
+  static conditionsFor(
+    rule: Pick<EWSRule, 'ruleType' | 'threshold' | 'conditions'>,
+  ): EWSRuleConditions {
+    const threshold = Number(rule.threshold);
+    const explicit = (rule.conditions ?? {}) as EWSRuleConditions;
+    switch (rule.ruleType) {
+      case 'amount':
+        return { minAmount: threshold, ...explicit };
+      case 'velocity':
+        return {
+          ...explicit,
+          velocity: {
+            windowMinutes: 60,
+            minCount: threshold,
+            ...explicit.velocity,
+          },
+        };
+      case 'tier':
+        return { maxKycTier: threshold, ...explicit };
+      case 'device':
+        return { newDevice: true, ...explicit };
+      case 'first_time':
+        return { newBeneficiary: true, ...explicit };
+      default:
+        return explicit;
     }
+  }
 
-    // Check for suspicious patterns (round numbers, specific amounts)
-    if (this.isSuspiciousAmount(transaction.amount)) {
-      score += 10;
-      reasons.push('Suspicious transaction amount');
+  /**
+   * Every velocity window the given rules look at
+   */
+  velocityWindows(rules: EWSRule[]): number[] {
+    const windows = new Set<number>();
+    for (const rule of rules) {
+      const velocity = FraudDetectionService.conditionsFor(rule).velocity;
+      if (velocity?.windowMinutes) windows.add(velocity.windowMinutes);
     }
+    return [...windows];
+  }
+
+  /**
+   * Look up everything the rules can condition on for a live transaction
+   */
+  async gatherFacts(
+    input: TransactionRiskInput,
+    velocityWindows: number[],
+  ): Promise<RiskFacts> {
+    const amount = new Decimal(input.amount.toString());
+    const now = Date.now();
+    // Devices and IPs are judged against the user's other sessions
+    const otherSessions = input.sessionId
+      ? { id: { not: input.sessionId } }
+      : {};
 
-    // Determine risk level and action
-    const riskLevel = this.getRiskLevel(score);
-    const blocked = score >= this.HIGH_RISK_THRESHOLD;
+    const [
+      user,
+      priorTransfers,
+      recentSettled,
+      firstTransfer,
+      savedBeneficiary,
+      knownDevice,
+      lastSession,
+      velocities,
+    ] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: input.userId },
+        select: {
+          fraudScore: true,
+          kycTier: true,
+          ninVerified: true,
+          createdAt: true,
+        },
+      }),
+      this.prisma.transaction.count({
+        where: {
+          senderId: input.userId,
+          type: { in: OUTFLOW_TYPES },
+          status: { in: SETTLED_STATUSES },
+        },
+      }),
+      this.prisma.transaction.findMany({
+        where: {
+          senderId: input.userId,
+          type: { in: OUTFLOW_TYPES },
+          status: { in: SETTLED_STATUSES },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        select: { amount: true },
+      }),
+      this.isFirstTransferTo(input),
+      this.findSavedBeneficiary(input),
+      input.deviceFingerprint
+        ? this.prisma.session.findFirst({
+            where: {
+              userId: input.userId,
+              deviceFingerprint: input.deviceFingerprint,
+              ...otherSessions,
+            },
+            select: { id: true },
+          })
+        : Promise.resolve(null),
+      this.prisma.session.findFirst({
+        where: {
+          userId: input.userId,
+          ipAddress: { not: null },
+          ...otherSessions,
+        },
+        orderBy: { lastActiveAt: 'desc' },
+        select: { ipAddress: true },
+      }),
+      Promise.all(
+        velocityWindows.map(async (windowMinutes) => {
+          const since = new Date(now - windowMinutes * 60 * 1000);
+          const result = await this.prisma.transaction.aggregate({
+            where: {
+              senderId: input.userId,
+              type: { in: OUTFLOW_TYPES },
+              status: { in: OUTFLOW_STATUSES },
+              createdAt: { gte: since },
+            },
+            _count: true,
+            _sum: { amount: true },
+          });
+          return [
+            String(windowMinutes),
+            {
+              count: result._count + 1,
+              amount: amount
+                .plus(result._sum.amount?.toString() ?? '0')
+                .toNumber(),
+            },
+          ] as const;
+        }),
+      ),
+    ]);
+
+    const averageAmount =
+      recentSettled.length >= 3
+        ? recentSettled
+            .reduce((sum, tx) => sum.plus(tx.amount.toString()), new Decimal(0))
+            .dividedBy(recentSettled.length)
+            .toDecimalPlaces(2)
+            .toNumber()
+        : null;
 
     return {
-      score,
-      riskLevel,
-      reasons,
-      blocked,
+      amount: amount.toNumber(),
+      channel: input.channel,
+      hour: new Date(now).getHours(),
+      kycTier: user?.kycTier ?? null,
+      ninVerified: user?.ninVerified ?? null,
+      userFraudScore: user?.fraudScore ?? null,
+      accountAgeDays: user
+        ? (now - user.createdAt.getTime()) / (24 * 60 * 60 * 1000)
+        : null,
+      priorTransfers,
+      averageAmount,
+      newBeneficiary: firstTransfer,
+      beneficiaryAddedHoursAgo: savedBeneficiary
+        ? (now - savedBeneficiary.createdAt.getTime()) / (60 * 60 * 1000)
+        : null,
+      newDevice: input.deviceFingerprint ? !knownDevice : null,
+      ipChanged:
+        input.ipAddress && lastSession?.ipAddress
+          ? lastSession.ipAddress !== input.ipAddress
+          : null,
+      velocity: Object.fromEntries(velocities),
     };
   }
 
-  private checkRapidTransactions(_userId: string): number {
-    // This would query the database for recent transactions
-    // For now, returning a mock value
-    return Math.floor(Math.random() * 10);
+  /**
+   * Sum of the user's outgoing transactions since a point in time
+   */
+  async sumOutflowsSince(userId: string, since: Date): Promise<Decimal> {
+    const result = await this.prisma.transaction.aggregate({
+      where: {
+        senderId: userId,
+        type: { in: OUTFLOW_TYPES },
+        status: { in: OUTFLOW_STATUSES },
+        createdAt: { gte: since },
+      },
+      _sum: { amount: true },
+    });
+    return new Decimal(result._sum.amount?.toString() ?? '0');
   }
 
-  private checkNewBeneficiary(
-    _userId: string,
-    _beneficiaryId: string,
-  ): boolean {
-    // This would check if this is the first transaction to this beneficiary
-    // For now, returning a mock value
-    return Math.random() > 0.7;
-  }
+  /**
+   * Whether the user has never completed a transfer to this recipient
+   */
+  async isFirstTransferTo(input: TransactionRiskInput): Promise<boolean> {
+    if (input.channel === 'internal') {
+      if (!input.recipientId) return false;
+      const previous = await this.prisma.transaction.findFirst({
+        where: {
+          senderId: input.userId,
+          receiverId: input.recipientId,
+          status: { in: SETTLED_STATUSES },
+        },
+        select: { id: true },
+      });
+      return !previous;
+    }
+
+    if (input.channel === 'crypto') {
+      if (!input.walletAddress) return false;
+      const previous = await this.prisma.cryptoWithdrawal.findFirst({
+        where: {
+          userId: input.userId,
+          address: input.walletAddress,
+          status: 'confirmed',
+        },
+        select: { id: true },
+      });
+      return !previous;
+    }
 
-  private getDailyTransactionAmount(_userId: string): number {
-    // This would sum all transactions for the current day
-    // For now, returning a mock value
-    return Math.floor(Math.random() * 10000000);
+    if (!input.accountNumber || !input.bankCode) return false;
+    const previous = await this.prisma.transaction.findFirst({
+      where: {
+        senderId: input.userId,
+        type: 'external_transfer',
+        status: { in: SETTLED_STATUSES },
+        AND: [
+          {
+            metadata: { path: ['accountNumber'], equals: input.accountNumber },
+          },
+          { metadata: { path: ['bankCode'], equals: input.bankCode } },
+        ],
+      },
+      select: { id: true },
+    });
+    return !previous;
   }
 
-  private isSuspiciousAmount(amount: number): boolean {
-    // Check for round numbers or specific suspicious patterns
-    const suspiciousPatterns = [1000000, 500000, 250000, 100000];
-    return suspiciousPatterns.includes(amount) || amount % 1000 === 0;
+  private matches(c: EWSRuleConditions, f: RiskFacts): boolean {
+    const checks: boolean[] = [];
+    const known = <T>(value: T | null, test: (v: T) => boolean) =>
+      checks.push(value !== null && test(value));
+
+    if (c.minAmount !== undefined) checks.push(f.amount >= c.minAmount);
+    if (c.maxAmount !== undefined) checks.push(f.amount <= c.maxAmount);
+    if (c.velocity) {
+      const { windowMinutes, minCount, minAmount } = c.velocity;
+      const v = f.velocity[String(windowMinutes)];
+      checks.push(
+        !!v &&
+          (minCount === undefined || v.count >= minCount) &&
+          (minAmount === undefined || v.amount >= minAmount),
+      );
+    }
+    if (c.maxKycTier !== undefined)
+      known(f.kycTier, (tier) => tier <= c.maxKycTier!);
+    if (c.ninVerified !== undefined)
+      known(f.ninVerified, (v) => v === c.ninVerified);
+    if (c.minUserFraudScore !== undefined)
+      known(f.userFraudScore, (s) => s >= c.minUserFraudScore!);
+    if (c.maxAccountAgeDays !== undefined)
+      known(f.accountAgeDays, (d) => d < c.maxAccountAgeDays!);
+    if (c.maxPriorTransfers !== undefined)
+      known(f.priorTransfers, (n) => n <= c.maxPriorTransfers!);
+    if (c.minAmountMultiplier !== undefined)
+      known(
+        f.averageAmount,
+        (avg) => avg > 0 && f.amount / avg > c.minAmountMultiplier!,
+      );
+    if (c.newBeneficiary !== undefined)
+      known(f.newBeneficiary, (v) => v === c.newBeneficiary);
+    if (c.beneficiaryAddedWithinHours !== undefined)
+      known(
+        f.beneficiaryAddedHoursAgo,
+        (h) => h < c.beneficiaryAddedWithinHours!,
+      );
+    if (c.newDevice !== undefined) known(f.newDevice, (v) => v === c.newDevice);
+    if (c.ipChanged !== undefined) known(f.ipChanged, (v) => v === c.ipChanged);
+    if (c.hours) {
+      const { from, to } = c.hours;
+      checks.push(
+        from <= to
+          ? f.hour >= from && f.hour < to
+          : f.hour >= from || f.hour < to,
+      );
+    }
+    if (c.channels) checks.push(c.channels.includes(f.channel));
+
+    // A rule with no conditions never matches rather than matching everything
+    return checks.length > 0 && checks.every(Boolean);
   }
 
-  private getRiskLevel(score: number): 'low' | 'medium' | 'high' {
-    if (score >= this.HIGH_RISK_THRESHOLD) return 'high';
-    if (score >= this.MEDIUM_RISK_THRESHOLD) return 'medium';
-    return 'low';
+  private observedFor(
+    c: EWSRuleConditions,
+    f: RiskFacts,
+  ): Record<string, unknown> {
+    const observed: Record<string, unknown> = {};
+    if (c.minAmount !== undefined || c.maxAmount !== undefined)
+      observed.amount = f.amount;
+    if (c.velocity)
+      observed.velocity = f.velocity[String(c.velocity.windowMinutes)];
+    if (c.maxKycTier !== undefined) observed.kycTier = f.kycTier;
+    if (c.ninVerified !== undefined) observed.ninVerified = f.ninVerified;
+    if (c.minUserFraudScore !== undefined)
+      observed.userFraudScore = f.userFraudScore;
+    if (c.maxAccountAgeDays !== undefined)
+      observed.accountAgeDays = f.accountAgeDays;
+    if (c.maxPriorTransfers !== undefined)
+      observed.priorTransfers = f.priorTransfers;
+    if (c.minAmountMultiplier !== undefined)
+      observed.averageAmount = f.averageAmount;
+    if (c.beneficiaryAddedWithinHours !== undefined)
+      observed.beneficiaryAddedHoursAgo = f.beneficiaryAddedHoursAgo;
+    if (c.hours) observed.hour = f.hour;
+    return observed;
   }
 
-  logSuspiciousActivity(
-    userId: string,
-    transactionId: string,
-    fraudScore: FraudScore,
-  ): void {
-    // Log fraud detection alert using proper logging
-    console.warn('FRAUD DETECTION ALERT:', {
-      userId,
-      transactionId,
-      score: fraudScore.score,
-      riskLevel: fraudScore.riskLevel,
-      reasons: fraudScore.reasons,
-      timestamp: new Date().toISOString(),
+  private async findSavedBeneficiary(input: TransactionRiskInput) {
+    if (input.channel === 'internal') {
+      if (!input.recipientId) return null;
+      const recipient = await this.prisma.user.findUnique({
+        where: { id: input.recipientId },
+        select: { vuraTag: true },
+      });
+      if (!recipient) return null;
+      return this.prisma.beneficiary.findUnique({
+        where: {
+          userId_vuraTag: { userId: input.userId, vuraTag: recipient.vuraTag },
+        },
+        select: { createdAt: true },
+      });
+    }
+
+    // A whitelisted wallet plays the part of a saved beneficiary
+    if (input.channel === 'crypto') {
+      if (!input.walletAddress) return null;
+      return this.prisma.cryptoWithdrawalAddress.findFirst({
+        where: {
+          userId: input.userId,
+          address: input.walletAddress,
+          status: 'active',
+        },
+        select: { createdAt: true },
+      });
+    }
+
+    if (!input.accountNumber || !input.bankCode) return null;
+    return this.prisma.beneficiary.findFirst({
+      where: {
+        userId: input.userId,
+        accountNumber: input.accountNumber,
+        bankCode: input.bankCode,
+      },
+      select: { createdAt: true },
     });
+  }
 
-    // In a real implementation, this would:
-    // 1. Log to a security monitoring system
-    // 2. Notify security team
-    // 3. Potentially trigger additional verification
-    // 4. Update user's risk profile
+  private getRiskLevel(action: RiskAction): RiskLevel {
+    if (action === 'hold' || action === 'block') return 'high';
+    if (action === 'review') return 'medium';
+    return 'low';
   }
 }
@@ -30,6 +30,28 @@ interface TransferResponse {
   };
 }
 
+interface TransactionSearchResponse {
+  responseBody: {
+    content: {
+      transactionReference: string;
+      paymentReference?: string;
+      amountPaid: number;
+      paymentStatus: string;
+      completedOn?: string | null;
+      createdOn?: string;
+    }[];
+    totalPages: number;
+  };
+}
+
+export interface MonnifyStatementEntry {
+  transactionReference: string;
+  paymentReference: string | null;
+  amount: number;
+  status: string;
+  occurredAt: string | null;
+}
+
 @Injectable()
 export class MonnifyService {
   private readonly baseUrl: string;
@@ -88,6 +110,10 @@ export class MonnifyService {
     };
   }
 
+  isConfigured(): boolean {
+    return Boolean(this.apiKey?.trim() && this.secretKey?.trim());
+  }
+
   async verifyAccount(
     accountNumber: string,
     bankCode: string,
@@ -156,6 +182,50 @@ export class MonnifyService {
     }
   }
 
+  /**
+   * One page (zero-based) of collections in a date range
+   */
+  async listTransactions(
+    from: Date,
+    to: Date,
+    page: number,
+  ): Promise<{ entries: MonnifyStatementEntry[]; totalPages: number }> {
+    try {
+      await this.getAccessToken();
+
+      const response = await axios.get<TransactionSearchResponse>(
+        `${this.baseUrl}/api/v1/transactions/search`,
+        {
+          headers: this.getHeaders(),
+          params: {
+            page,
+            size: 100,
+            from: from.getTime(),
+            to: to.getTime(),
+          },
+        },
+      );
+
+      const body = response.data.responseBody;
+      return {
+        entries: (body.content ?? []).map((t) => ({
+          transactionReference: t.transactionReference,
+          paymentReference: t.paymentReference ?? null,
+          amount: Number(t.amountPaid),
+          status: t.paymentStatus,
+          occurredAt: t.completedOn ?? t.createdOn ?? null,
+        })),
+        totalPages: body.totalPages ?? 1,
+      };
+    } catch (error: unknown) {
+      const message = axios.isAxiosError<{ message?: string }>(error)
+        ? error.response?.data?.message
+        : undefined;
+      if (message) throw new BadRequestException(message);
+      throw new BadRequestException('Could not fetch records from Monnify');
+    }
+  }
+
   // New method to create reserved account for QR/request functionality
   async createReservedAccount(
     userId: string,
@@ -1,6 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
+import type {
+  BillOrderStatus,
+  BillProvider,
+  BillProviderResult,
+} from '../bills/bill-provider';
 
 const BASE_URL = 'https://www.nellobytesystems.com';
 
@@ -21,7 +26,8 @@ function toNellobyteNetwork(network: string): string {
 }
 
 @Injectable()
-export class NellobyteService {
+export class NellobyteService implements BillProvider {
+  readonly name = 'nellobyte';
   private readonly logger = new Logger(NellobyteService.name);
   private readonly userId: string;
   private readonly apiKey: string;
@@ -37,6 +43,11 @@ export class NellobyteService {
     return this.enabled;
   }
 
+  /** Nellobyte carries every bill product */
+  supports(): boolean {
+    return true;
+  }
+
   private async get<T = any>(path: string, params: Record<string, string>): Promise<T> {
     const url = `${BASE_URL}/${path}`;
     const q = new URLSearchParams({
@@ -48,35 +59,104 @@ export class NellobyteService {
     return res.data as T;
   }
 
-  private async queryOrder(orderId: string): Promise<{ statuscode?: string; status?: string }> {
+  private async fetchOrder(ref: {
+    orderId?: string;
+    requestId?: string;
+  }): Promise<{ statuscode?: string; status?: string }> {
     try {
-      const data = await this.get<any>('APIQueryV1.asp', { OrderID: orderId });
+      const data = await this.get<any>(
+        'APIQueryV1.asp',
+        ref.orderId ? { OrderID: ref.orderId } : { RequestID: ref.requestId ?? '' },
+      );
       return {
         statuscode: String(data?.statuscode ?? data?.status ?? ''),
         status: String(data?.status ?? data?.orderstatus ?? ''),
       };
     } catch (e: any) {
-      this.logger.warn(`queryOrder ${orderId}: ${e.message}`);
+      this.logger.warn(`queryOrder ${ref.orderId ?? ref.requestId}: ${e.message}`);
       return {};
     }
   }
 
+  /**
+   * Look an order up by OrderID, or by our RequestID when the purchase call
+   * failed before Nellobyte returned one. A RequestID Nellobyte never received
+   * comes back with an error status, which counts as failed.
+   */
+  async queryOrder(ref: { orderId?: string; requestId?: string }): Promise<BillOrderStatus> {
+    if (!this.enabled || (!ref.orderId && !ref.requestId)) return 'unknown';
+    const code = (await this.fetchOrder(ref)).statuscode ?? '';
+    if (code === '200') return 'completed';
+    if (code === '100') return 'pending';
+    return code ? 'failed' : 'unknown';
+  }
+
   /** Poll for ORDER_COMPLETED (statuscode 200) up to maxAttempts */
   private async waitForCompletion(
     orderId: string,
     maxAttempts = 6,
     intervalMs = 3000,
-  ): Promise<{ success: boolean; message?: string }> {
+  ): Promise<{ success: boolean; message?: string; pending?: boolean }> {
     for (let i = 0; i < maxAttempts; i++) {
       await new Promise((r) => setTimeout(r, intervalMs));
-      const q = await this.queryOrder(orderId);
+      const q = await this.fetchOrder({ orderId });
       const code = q.statuscode ?? '';
       if (code === '200') return { success: true };
       if (code !== '100' && code !== '') {
         return { success: false, message: q.status || `Status ${code}` };
       }
     }
-    return { success: false, message: 'Purchase is taking longer than expected. You have been refunded.' };
+    return {
+      success: false,
+      message: 'Purchase is taking longer than expected',
+      pending: true,
+    };
+  }
+
+  /**
+   * Place an order under a fresh RequestID and wait for it to complete.
+   * Failures carry the RequestID (and OrderID once accepted) so the router can
+   * re-query before trying another provider. Orders still pending after the
+   * wait, and rejections for invalid customer details, are not retryable.
+   */
+  private async submitOrder(
+    method: string,
+    prefix: string,
+    path: string,
+    params: Record<string, string>,
+    failureMessage: string,
+  ): Promise<BillProviderResult> {
+    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
+    const requestId = `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    try {
+      const data = await this.get<any>(path, { ...params, RequestID: requestId });
+
+      const orderId = data?.orderid;
+      const statusCode = String(data?.statuscode ?? '');
+
+      if (!orderId || statusCode !== '100') {
+        const msg = data?.status ?? data?.description ?? 'Order not received';
+        return { success: false, message: msg, requestId, retryable: !/invalid/i.test(String(msg)) };
+      }
+
+      const poll = await this.waitForCompletion(orderId);
+      if (!poll.success) {
+        return {
+          success: false,
+          message: poll.message,
+          requestId,
+          orderId,
+          retryable: !poll.pending,
+          pending: poll.pending,
+        };
+      }
+
+      return { success: true, data: { orderid: orderId, ...data }, requestId, orderId };
+    } catch (e: any) {
+      const msg = e.response?.data?.message ?? e.message ?? failureMessage;
+      this.logger.error(`${method}: ${msg}`);
+      return { success: false, message: msg, requestId, retryable: true };
+    }
   }
 
   // ── Airtime ───────────────────────────────────────────────────────────
@@ -95,37 +175,18 @@ export class NellobyteService {
     network: string;
     phoneNumber: string;
     amount: number;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
-    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
-    try {
-      const networkCode = toNellobyteNetwork(input.network);
-      const requestId = `AIRTIME-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-      const data = await this.get<any>('APIAirtimeV1.asp', {
-        MobileNetwork: networkCode,
+  }): Promise<BillProviderResult> {
+    return this.submitOrder(
+      'buyAirtime',
+      'AIRTIME',
+      'APIAirtimeV1.asp',
+      {
+        MobileNetwork: toNellobyteNetwork(input.network),
         Amount: String(input.amount),
         MobileNumber: input.phoneNumber,
-        RequestID: requestId,
-      });
-
-      const orderId = data?.orderid;
-      const statusCode = String(data?.statuscode ?? '');
-
-      if (!orderId || statusCode !== '100') {
-        const msg = data?.status ?? data?.description ?? 'Order not received';
-        return { success: false, message: msg };
-      }
-
-      const poll = await this.waitForCompletion(orderId);
-      if (!poll.success) {
-        return { success: false, message: poll.message };
-      }
-
-      return { success: true, data: { orderid: orderId, ...data } };
-    } catch (e: any) {
-      const msg = e.response?.data?.message ?? e.message ?? 'Airtime purchase failed';
-      this.logger.error(`buyAirtime: ${msg}`);
-      return { success: false, message: msg };
-    }
+      },
+      'Airtime purchase failed',
+    );
   }
 
   // ── Data ──────────────────────────────────────────────────────────────
@@ -307,37 +368,18 @@ export class NellobyteService {
     network: string;
     phoneNumber: string;
     planCode: string;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
-    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
-    try {
-      const networkCode = toNellobyteNetwork(input.network);
-      const requestId = `DATA-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-      const data = await this.get<any>('APIDatabundleV1.asp', {
-        MobileNetwork: networkCode,
+  }): Promise<BillProviderResult> {
+    return this.submitOrder(
+      'buyData',
+      'DATA',
+      'APIDatabundleV1.asp',
+      {
+        MobileNetwork: toNellobyteNetwork(input.network),
         DataPlan: input.planCode,
         MobileNumber: input.phoneNumber,
-        RequestID: requestId,
-      });
-
-      const orderId = data?.orderid;
-      const statusCode = String(data?.statuscode ?? '');
-
-      if (!orderId || statusCode !== '100') {
-        const msg = data?.status ?? data?.description ?? 'Order not received';
-        return { success: false, message: msg };
-      }
-
-      const poll = await this.waitForCompletion(orderId);
-      if (!poll.success) {
-        return { success: false, message: poll.message };
-      }
-
-      return { success: true, data: { orderid: orderId, ...data } };
-    } catch (e: any) {
-      const msg = e.response?.data?.message ?? e.message ?? 'Data purchase failed';
-      this.logger.error(`buyData: ${msg}`);
-      return { success: false, message: msg };
-    }
+      },
+      'Data purchase failed',
+    );
   }
 
   // ── Electricity ────────────────────────────────────────────────────────
@@ -439,41 +481,24 @@ export class NellobyteService {
     amount: number;
     type: string;
     phoneNumber: string;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
-    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
-    try {
-      const discoCode = this.toDiscoCode(input.plan);
-      const meterType = input.type?.toLowerCase().includes('prepaid') ? '01' : '02';
-      const requestId = `ELEC-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-      const data = await this.get<any>('APIElectricityV1.asp', {
-        ElectricCompany: discoCode,
-        MeterType: meterType,
+  }): Promise<BillProviderResult> {
+    const result = await this.submitOrder(
+      'buyElectricity',
+      'ELEC',
+      'APIElectricityV1.asp',
+      {
+        ElectricCompany: this.toDiscoCode(input.plan),
+        MeterType: input.type?.toLowerCase().includes('prepaid') ? '01' : '02',
         MeterNo: input.meterNumber,
         Amount: String(input.amount),
         PhoneNo: input.phoneNumber || '08000000000',
-        RequestID: requestId,
-      });
-
-      const orderId = data?.orderid;
-      const statusCode = String(data?.statuscode ?? '');
-
-      if (!orderId || statusCode !== '100') {
-        const msg = data?.status ?? data?.description ?? 'Order not received';
-        return { success: false, message: msg };
-      }
-
-      const poll = await this.waitForCompletion(orderId);
-      if (!poll.success) {
-        return { success: false, message: poll.message };
-      }
+      },
+      'Electricity purchase failed',
+    );
+    if (!result.success) return result;
 
-      const token = data?.metertoken ?? null;
-      return { success: true, data: { orderid: orderId, token, ...data } };
-    } catch (e: any) {
-      const msg = e.response?.data?.message ?? e.message ?? 'Electricity purchase failed';
-      this.logger.error(`buyElectricity: ${msg}`);
-      return { success: false, message: msg };
-    }
+    const token = result.data?.metertoken ?? null;
+    return { ...result, data: { token, ...result.data } };
   }
 
   // ── Cable TV (DStv, GOtv, StarTimes, Showmax) ─────────────────────────
@@ -552,31 +577,19 @@ export class NellobyteService {
     packageCode: string;
     smartCardNo: string;
     phoneNumber: string;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
-    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
-    try {
-      const requestId = `CABLETV-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-      const data = await this.get<any>('APICableTVV1.asp', {
+  }): Promise<BillProviderResult> {
+    return this.submitOrder(
+      'buyCableTV',
+      'CABLETV',
+      'APICableTVV1.asp',
+      {
         CableTV: (input.cableTv || 'dstv').toLowerCase(),
         Package: input.packageCode,
         SmartCardNo: input.smartCardNo,
         PhoneNo: input.phoneNumber || '08000000000',
-        RequestID: requestId,
-      });
-      const orderId = data?.orderid;
-      const statusCode = String(data?.statuscode ?? '');
-      if (!orderId || statusCode !== '100') {
-        const msg = data?.status ?? data?.description ?? 'Order not received';
-        return { success: false, message: msg };
-      }
-      const poll = await this.waitForCompletion(orderId);
-      if (!poll.success) return { success: false, message: poll.message };
-      return { success: true, data: { orderid: orderId, ...data } };
-    } catch (e: any) {
-      const msg = e.response?.data?.message ?? e.message ?? 'Cable TV purchase failed';
-      this.logger.error(`buyCableTV: ${msg}`);
-      return { success: false, message: msg };
-    }
+      },
+      'Cable TV purchase failed',
+    );
   }
 
   // ── Betting ───────────────────────────────────────────────────────────
@@ -631,29 +644,17 @@ export class NellobyteService {
     company: string;
     customerId: string;
     amount: number;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
-    if (!this.enabled) return { success: false, message: 'Nellobyte not configured' };
-    try {
-      const requestId = `BET-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-      const data = await this.get<any>('APIBettingV1.asp', {
+  }): Promise<BillProviderResult> {
+    return this.submitOrder(
+      'buyBetting',
+      'BET',
+      'APIBettingV1.asp',
+      {
         BettingCompany: (input.company || '').toUpperCase(),
         CustomerID: input.customerId,
         Amount: String(input.amount),
-        RequestID: requestId,
-      });
-      const orderId = data?.orderid;
-      const statusCode = String(data?.statuscode ?? '');
-      if (!orderId || statusCode !== '100') {
-        const msg = data?.status ?? data?.description ?? 'Order not received';
-        return { success: false, message: msg };
-      }
-      const poll = await this.waitForCompletion(orderId);
-      if (!poll.success) return { success: false, message: poll.message };
-      return { success: true, data: { orderid: orderId, ...data } };
-    } catch (e: any) {
-      const msg = e.response?.data?.message ?? e.message ?? 'Betting funding failed';
-      this.logger.error(`buyBetting: ${msg}`);
-      return { success: false, message: msg };
-    }
+      },
+      'Betting funding failed',
+    );
   }
 }
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
 import * as crypto from 'crypto';
 
 export interface PaystackWebhookPayload {
@@ -30,7 +31,10 @@ export class PaystackWebhooksService {
   private readonly logger = new Logger(PaystackWebhooksService.name);
   private readonly secret = process.env.PAYSTACK_WEBHOOK_SECRET || '';
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+  ) {}
 
   /**
    * Verify Paystack webhook signature
@@ -104,18 +108,17 @@ export class PaystackWebhooksService {
         },
       });
 
-      // Update user balance
+      // Credit user balance through the ledger
       const amountInNGN = data.amount / 100; // Paystack uses kobo
-      await this.prisma.balance.update({
-        where: { userId_currency: { userId, currency: 'NGN' } },
-        data: {
-          amount: {
-            increment: amountInNGN,
-          },
-          lastUpdatedBy: 'paystack_webhook',
-          updatedAt: new Date(),
-        },
-      });
+      await this.prisma.$transaction((tx) =>
+        this.ledger.transfer(tx, {
+          reference: data.reference,
+          type: 'deposit',
+          from: LedgerService.external('paystack'),
+          to: LedgerService.user(userId),
+          amount: amountInNGN,
+        }),
+      );
 
       // Log audit
       await this.prisma.auditLog.create({
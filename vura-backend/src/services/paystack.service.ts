@@ -72,6 +72,43 @@ interface PaystackTransferRecipientData {
   recipient_code: string;
 }
 
+interface PaystackListMeta {
+  page: number;
+  pageCount: number;
+}
+
+interface PaystackListResponse<T> extends PaystackApiResponse<T[]> {
+  meta?: PaystackListMeta;
+}
+
+interface PaystackTransactionRecord {
+  id: number;
+  reference: string;
+  amount: number;
+  status: string;
+  channel?: string;
+  paid_at?: string | null;
+  created_at?: string;
+  createdAt?: string;
+}
+
+interface PaystackTransferRecord {
+  reference: string;
+  transfer_code?: string;
+  amount: number;
+  status: string;
+  createdAt?: string;
+  created_at?: string;
+}
+
+export interface PaystackStatementEntry {
+  id: string;
+  reference: string;
+  amount: number;
+  status: string;
+  occurredAt: string | null;
+}
+
 @Injectable()
 export class PaystackService {
   private readonly baseUrl: string;
@@ -275,6 +312,108 @@ export class PaystackService {
     }
   }
 
+  /**
+   * Status of a transfer by our reference: 'success', 'failed', 'reversed',
+   * 'pending' or 'otp'.
+   */
+  async verifyTransfer(
+    reference: string,
+  ): Promise<{ status: string; amount: number }> {
+    try {
+      const res = await axios.get<PaystackApiResponse<PaystackTransferRecord>>(
+        `${this.baseUrl}/transfer/verify/${encodeURIComponent(reference)}`,
+        { headers: this.getHeaders() },
+      );
+      return {
+        status: res.data.data.status,
+        amount: res.data.data.amount / 100,
+      };
+    } catch (error: unknown) {
+      const message = this.getErrorMessage(error);
+      if (message) throw new BadRequestException(message);
+      throw new BadRequestException('Could not verify transfer');
+    }
+  }
+
+  /**
+   * One page of collections (charges) in a date range, amounts in NGN
+   */
+  async listTransactions(
+    from: Date,
+    to: Date,
+    page: number,
+  ): Promise<{ entries: PaystackStatementEntry[]; pageCount: number }> {
+    const res = await this.listPage<PaystackTransactionRecord>(
+      '/transaction',
+      from,
+      to,
+      page,
+    );
+    return {
+      entries: res.data.map((t) => ({
+        id: String(t.id),
+        reference: t.reference,
+        amount: t.amount / 100,
+        status: t.status,
+        occurredAt: t.paid_at ?? t.created_at ?? t.createdAt ?? null,
+      })),
+      pageCount: res.meta?.pageCount ?? 1,
+    };
+  }
+
+  /**
+   * One page of transfers (payouts) in a date range, amounts in NGN
+   */
+  async listTransfers(
+    from: Date,
+    to: Date,
+    page: number,
+  ): Promise<{ entries: PaystackStatementEntry[]; pageCount: number }> {
+    const res = await this.listPage<PaystackTransferRecord>(
+      '/transfer',
+      from,
+      to,
+      page,
+    );
+    return {
+      entries: res.data.map((t) => ({
+        id: t.transfer_code ?? t.reference,
+        reference: t.reference,
+        amount: t.amount / 100,
+        status: t.status,
+        occurredAt: t.createdAt ?? t.created_at ?? null,
+      })),
+      pageCount: res.meta?.pageCount ?? 1,
+    };
+  }
+
+  private async listPage<T>(
+    path: string,
+    from: Date,
+    to: Date,
+    page: number,
+  ): Promise<{ data: T[]; meta?: PaystackListMeta }> {
+    try {
+      const res = await axios.get<PaystackListResponse<T>>(
+        `${this.baseUrl}${path}`,
+        {
+          headers: this.getHeaders(),
+          params: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            perPage: 100,
+            page,
+          },
+        },
+      );
+      return { data: res.data.data ?? [], meta: res.data.meta };
+    } catch (error: unknown) {
+      const message = this.getErrorMessage(error);
+      if (message) throw new BadRequestException(message);
+      throw new BadRequestException('Could not fetch records from Paystack');
+    }
+  }
+
   async listBanks(): Promise<{ code: string; name: string }[]> {
     try {
       const res = await axios.get<PaystackApiResponse<PaystackBank[]>>(
@@ -1,14 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
+import type {
+  BillProduct,
+  BillProvider,
+  BillProviderResult,
+} from '../bills/bill-provider';
 
 @Injectable()
-export class PeyflexService {
+export class PeyflexService implements BillProvider {
+  readonly name = 'peyflex';
   private readonly logger = new Logger(PeyflexService.name);
   private readonly api: AxiosInstance;
+  private readonly enabled: boolean;
 
   constructor(private config: ConfigService) {
     const token = this.config.get<string>('PEYFLEX_API_TOKEN', '');
+    this.enabled = !!token;
     this.api = axios.create({
       baseURL: 'https://client.peyflex.com.ng/api',
       headers: {
@@ -19,6 +27,32 @@ export class PeyflexService {
     });
   }
 
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  supports(product: BillProduct): boolean {
+    return (
+      product === 'airtime' || product === 'data' || product === 'electricity'
+    );
+  }
+
+  /**
+   * Peyflex answers purchases synchronously and has no order lookup, so only
+   * a request it rejected (an error body or a 4xx) is known not to have gone
+   * through. Timeouts and 5xx responses may have been fulfilled.
+   */
+  private failed(method: string, err: any): BillProviderResult {
+    const msg = err.response?.data?.message ?? err.message;
+    this.logger.error(`${method}: ${msg}`);
+    const status: number | undefined = err.response?.status;
+    return {
+      success: false,
+      message: msg,
+      retryable: !!status && status >= 400 && status < 500,
+    };
+  }
+
   // ── Airtime ──────────────────────────────────────────────────────────
 
   async getAirtimeNetworks(): Promise<any[]> {
@@ -37,7 +71,7 @@ export class PeyflexService {
     network: string;
     phoneNumber: string;
     amount: number;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
+  }): Promise<BillProviderResult> {
     try {
       const network = PeyflexService.toCanonicalNetworkId(input.network) || input.network;
       const res = await this.api.post('/airtime/subscribe/', {
@@ -50,11 +84,14 @@ export class PeyflexService {
         res.data?.status === 'success' ||
         res.data?.success === true ||
         res.status === 200;
-      return { success: ok, data: res.data, message: res.data?.message };
+      return {
+        success: ok,
+        data: res.data,
+        message: res.data?.message,
+        retryable: !ok,
+      };
     } catch (err: any) {
-      const msg = err.response?.data?.message ?? err.message;
-      this.logger.error(`buyAirtime: ${msg}`);
-      return { success: false, message: msg };
+      return this.failed('buyAirtime', err);
     }
   }
 
@@ -86,6 +123,11 @@ export class PeyflexService {
       bil109: 'glo',
       bil110: 'airtel',
       bil111: '9mobile',
+      // Nellobyte network codes, for purchases failed over from Nellobyte
+      '01': 'mtn',
+      '02': 'glo',
+      '03': '9mobile',
+      '04': 'airtel',
     };
     return map[n] ?? n;
   }
@@ -208,7 +250,7 @@ export class PeyflexService {
     network: string;
     phoneNumber: string;
     planCode: string;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
+  }): Promise<BillProviderResult> {
     try {
       const network = PeyflexService.toCanonicalNetworkId(input.network) || input.network;
       const res = await this.api.post('/data/subscribe/', {
@@ -221,24 +263,45 @@ export class PeyflexService {
         res.data?.status === 'success' ||
         res.data?.success === true ||
         res.status === 200;
-      return { success: ok, data: res.data, message: res.data?.message };
+      return {
+        success: ok,
+        data: res.data,
+        message: res.data?.message,
+        retryable: !ok,
+      };
     } catch (err: any) {
-      const msg = err.response?.data?.message ?? err.message;
-      this.logger.error(`buyData: ${msg}`);
-      return { success: false, message: msg };
+      return this.failed('buyData', err);
     }
   }
 
   // ── Electricity ──────────────────────────────────────────────────────
 
-  async getElectricityPlans(): Promise<any[]> {
+  /** Nellobyte disco codes, for purchases failed over from Nellobyte */
+  private static readonly DISCO_IDS: Record<string, string> = {
+    '01': 'eko-electric',
+    '02': 'ikeja-electric',
+    '03': 'ibadan-electric',
+    '04': 'enugu-electric',
+    '05': 'portharcourt-electric',
+    '06': 'benin-electric',
+    '07': 'kaduna-electric',
+    '08': 'kano-electric',
+    '09': 'abuja-electric',
+  };
+
+  private static toDiscoId(disco: string): string {
+    const raw = (disco || '').trim();
+    return PeyflexService.DISCO_IDS[raw.padStart(2, '0')] ?? raw;
+  }
+
+  async getElectricityDiscos(): Promise<any[]> {
     try {
       const res = await this.api.get('/electricity/plans/', {
         params: { identifier: 'electricity' },
       });
       return res.data?.data ?? res.data ?? [];
     } catch (err: any) {
-      this.logger.error(`getElectricityPlans: ${err.message}`);
+      this.logger.error(`getElectricityDiscos: ${err.message}`);
       return [];
     }
   }
@@ -253,7 +316,7 @@ export class PeyflexService {
         params: {
           identifier: 'electricity',
           meter: input.meterNumber,
-          plan: input.plan,
+          plan: PeyflexService.toDiscoId(input.plan),
           type: input.type,
         },
       });
@@ -279,12 +342,12 @@ export class PeyflexService {
     amount: number;
     type: string;
     phoneNumber: string;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
+  }): Promise<BillProviderResult> {
     try {
       const res = await this.api.post('/electricity/subscribe/', {
         identifier: 'electricity',
         meter: input.meterNumber,
-        plan: input.plan,
+        plan: PeyflexService.toDiscoId(input.plan),
         amount: String(input.amount),
         type: input.type,
         phone: input.phoneNumber,
@@ -297,11 +360,10 @@ export class PeyflexService {
         success: ok,
         data: res.data,
         message: res.data?.message,
+        retryable: !ok,
       };
     } catch (err: any) {
-      const msg = err.response?.data?.message ?? err.message;
-      this.logger.error(`buyElectricity: ${msg}`);
-      return { success: false, message: msg };
+      return this.failed('buyElectricity', err);
     }
   }
 }
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { isAxiosError } from 'axios';
+import type {
+  MessageDeliveryStatus,
+  MessagingProvider,
+} from '../otp/otp-channel';
+
+const DEFAULT_BASE_URL = 'https://api.ng.termii.com';
+
+interface TermiiSendResponse {
+  message_id?: string;
+  message?: string;
+}
+
+/**
+ * Termii SMS/WhatsApp gateway. OTPs go over the DND route by default so they
+ * reach numbers with Do-Not-Disturb enabled.
+ */
+@Injectable()
+export class TermiiService implements MessagingProvider {
+  readonly name = 'termii';
+  private readonly logger = new Logger(TermiiService.name);
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly senderId: string;
+  private readonly smsRoute: string;
+  private readonly whatsappEnabled: boolean;
+
+  constructor(private config: ConfigService) {
+    this.apiKey = this.config.get<string>('TERMII_API_KEY', '');
+    this.baseUrl = this.config.get<string>('TERMII_BASE_URL', DEFAULT_BASE_URL);
+    this.senderId = this.config.get<string>('TERMII_SENDER_ID', 'Vura');
+    this.smsRoute = this.config.get<string>('TERMII_SMS_CHANNEL', 'dnd');
+    this.whatsappEnabled =
+      this.config.get<string>('TERMII_WHATSAPP_ENABLED') === 'true';
+  }
+
+  isEnabled(): boolean {
+    return !!this.apiKey;
+  }
+
+  supports(channel: 'sms' | 'whatsapp'): boolean {
+    return channel === 'sms' || this.whatsappEnabled;
+  }
+
+  async send(input: {
+    channel: 'sms' | 'whatsapp';
+    to: string;
+    text: string;
+  }): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      const res = await axios.post<TermiiSendResponse>(
+        `${this.baseUrl}/api/sms/send`,
+        {
+          api_key: this.apiKey,
+          // Termii wants the number without the leading +
+          to: input.to.replace(/^\+/, ''),
+          from: this.senderId,
+          sms: input.text,
+          type: 'plain',
+          channel: input.channel === 'whatsapp' ? 'whatsapp' : this.smsRoute,
+        },
+        { timeout: 15000 },
+      );
+      const messageId = res.data?.message_id;
+      if (!messageId) {
+        return {
+          success: false,
+          error: res.data?.message || 'Termii did not accept the message',
+        };
+      }
+      return { success: true, messageId: String(messageId) };
+    } catch (err) {
+      const error =
+        (isAxiosError<TermiiSendResponse>(err) &&
+          err.response?.data?.message) ||
+        (err as Error).message ||
+        'Termii request failed';
+      this.logger.warn(`Termii ${input.channel} send failed: ${error}`);
+      return { success: false, error };
+    }
+  }
+
+  /** Map a delivery report status to ours; null for interim states */
+  deliveryStatus(status: string): MessageDeliveryStatus | null {
+    const s = (status || '').toLowerCase();
+    if (s.includes('delivered')) return 'delivered';
+    if (
+      s.includes('failed') ||
+      s.includes('rejected') ||
+      s.includes('expired') ||
+      s.includes('dnd')
+    ) {
+      return 'failed';
+    }
+    return null;
+  }
+}
@@ -1,6 +1,8 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
 import Decimal from 'decimal.js';
 
 export interface WalletOperation {
@@ -27,6 +29,8 @@ export class WalletService {
   constructor(
     private config: ConfigService,
     private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
   ) {}
 
   /**
@@ -100,40 +104,15 @@ export class WalletService {
 
     // Atomic transaction
     const result = await this.prisma.$transaction(async (tx) => {
-      // Get current balance
-      const currentBalance = await tx.balance.findUnique({
-        where: {
-          userId_currency: {
-            userId,
-            currency: 'NGN',
-          },
-        },
-      });
-
-      const beforeBalance = currentBalance
-        ? new Decimal(currentBalance.amount.toString())
-        : new Decimal(0);
-      const afterBalance = beforeBalance.add(ngnAmount);
-
-      // Update balance
-      await tx.balance.upsert({
-        where: {
-          userId_currency: {
-            userId,
-            currency: 'NGN',
-          },
-        },
-        create: {
-          userId,
-          currency: 'NGN',
-          amount: afterBalance.toNumber(),
-          lastUpdatedBy: 'monnify_deposit',
-        },
-        update: {
-          amount: afterBalance.toNumber(),
-          lastUpdatedBy: 'monnify_deposit',
-        },
+      const posting = await this.ledger.transfer(tx, {
+        reference: `MONNIFY-${reference}`,
+        type: 'deposit',
+        from: LedgerService.external('monnify'),
+        to: LedgerService.user(userId),
+        amount: ngnAmount,
       });
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
 
       // Create transaction record
       const transaction = await tx.transaction.create({
@@ -169,6 +148,20 @@ export class WalletService {
         },
       });
 
+      await this.outbox.record(
+        tx,
+        'DepositCredited',
+        {
+          transactionId: transaction.id,
+          reference: `MONNIFY-${reference}`,
+          userId,
+          amount: ngnAmount.toString(),
+          currency: 'NGN',
+          source: 'monnify',
+        },
+        transaction.id,
+      );
+
       return { transaction, afterBalance };
     });
 
@@ -242,22 +235,15 @@ export class WalletService {
 
     // Atomic transaction
     const result = await this.prisma.$transaction(async (tx) => {
-      const beforeBalance = availableBalance;
-      const afterBalance = beforeBalance.sub(ngnAmount);
-
-      // Update balance
-      await tx.balance.update({
-        where: {
-          userId_currency: {
-            userId,
-            currency: 'NGN',
-          },
-        },
-        data: {
-          amount: afterBalance.toNumber(),
-          lastUpdatedBy: 'paystack_payout',
-        },
+      const posting = await this.ledger.transfer(tx, {
+        reference: `PAYSTACK-${reference}`,
+        type: 'bank_transfer',
+        from: LedgerService.user(userId),
+        to: LedgerService.external('paystack'),
+        amount: ngnAmount,
       });
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(userId)];
 
       // Create transaction record
       const transaction = await tx.transaction.create({
@@ -0,0 +1,117 @@
+import type {
+  MerchantSettlement,
+  MerchantSettlementItem,
+} from '@prisma/client';
+import { renderTextPdf, PdfLine } from '../utils/text-pdf';
+
+export type StatementFormat = 'csv' | 'pdf';
+
+export interface StatementSettlement extends MerchantSettlement {
+  items: MerchantSettlementItem[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  qr_payment: 'QR payment',
+  payment_link: 'Payment link',
+};
+
+const day = (date: Date) => date.toISOString().split('T')[0];
+const money = (value: { toFixed(dp: number): string }) => value.toFixed(2);
+
+/**
+ * One row per payment, then a totals row, so the file opens straight into
+ * a spreadsheet
+ */
+export function settlementCsv(settlement: StatementSettlement): string {
+  const headers = [
+    'Paid At',
+    'Reference',
+    'Type',
+    'Gross',
+    'Fee',
+    'Net',
+    'Currency',
+  ].join(',');
+
+  const rows = settlement.items.map((item) =>
+    [
+      item.paidAt.toISOString(),
+      item.reference,
+      item.type,
+      money(item.grossAmount),
+      money(item.feeAmount),
+      money(item.netAmount),
+      settlement.currency,
+    ].join(','),
+  );
+
+  const totals = [
+    'TOTAL',
+    '',
+    `${settlement.paymentCount} payments`,
+    money(settlement.grossAmount),
+    money(settlement.feeAmount),
+    money(settlement.netAmount),
+    settlement.currency,
+  ].join(',');
+
+  return [headers, ...rows, totals].join('\n');
+}
+
+export function settlementPdf(
+  settlement: StatementSettlement,
+  merchantVuraTag: string,
+  payoutReference: string | null,
+): Buffer {
+  const row = (
+    paidAt: string,
+    reference: string,
+    type: string,
+    gross: string,
+    fee: string,
+    net: string,
+  ) =>
+    `${paidAt.padEnd(17)}${reference.padEnd(32)}${type.padEnd(14)}` +
+    `${gross.padStart(13)}${fee.padStart(10)}${net.padStart(13)}`;
+
+  const lines: PdfLine[] = [
+    { text: 'VURA SETTLEMENT STATEMENT', bold: true },
+    '',
+    `Merchant:       @${merchantVuraTag}`,
+    `Settlement day: ${day(settlement.date)} (WAT)`,
+    `Settlement ID:  ${settlement.id}`,
+    `Payout:         ${payoutReference ?? 'Held in Vura wallet'}`,
+    '',
+    {
+      text: row('Paid at', 'Reference', 'Type', 'Gross', 'Fee', 'Net'),
+      bold: true,
+    },
+    '-'.repeat(99),
+    ...settlement.items.map((item) =>
+      row(
+        item.paidAt.toISOString().replace('T', ' ').slice(0, 16),
+        item.reference,
+        TYPE_LABELS[item.type] ?? item.type,
+        money(item.grossAmount),
+        money(item.feeAmount),
+        money(item.netAmount),
+      ),
+    ),
+    '-'.repeat(99),
+    {
+      text: row(
+        `${settlement.paymentCount} payments`,
+        '',
+        '',
+        money(settlement.grossAmount),
+        money(settlement.feeAmount),
+        money(settlement.netAmount),
+      ),
+      bold: true,
+    },
+    '',
+    `All amounts in ${settlement.currency}. Times are UTC.`,
+  ];
+
+  return renderTextPdf(lines);
+}
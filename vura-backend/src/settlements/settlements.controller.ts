@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  Res,
+} from '@nestjs/common';
+import type { Request as ExpressRequest, Response } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { SettlementsService } from './settlements.service';
+import type { SettlementSettingsInput } from './settlements.service';
+import type { StatementFormat } from './settlement-statement';
+
+@Controller('merchant/settlements')
+@UseGuards(AuthGuard)
+export class SettlementsController {
+  constructor(private readonly settlements: SettlementsService) {}
+
+  /**
+   * Daily settlement batches, newest first
+   * GET /merchant/settlements?limit=30&before=<nextCursor>
+   */
+  @Get()
+  async list(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Query('limit') limit?: string,
+    @Query('before') before?: string,
+  ) {
+    const data = await this.settlements.list(req.user.userId, {
+      limit: limit ? Number(limit) : undefined,
+      before,
+    });
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('settings')
+  async getSettings(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const settings = await this.settlements.getSettings(req.user.userId);
+    return {
+      success: true,
+      data: settings,
+    };
+  }
+
+  /**
+   * Turn automatic payouts on or off, pick T+0 or T+1, the minimum to pay
+   * out and the bank account (defaults to the primary one)
+   * PUT /merchant/settlements/settings
+   */
+  @Put('settings')
+  async updateSettings(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: SettlementSettingsInput,
+  ) {
+    const settings = await this.settlements.updateSettings(
+      req.user.userId,
+      body,
+    );
+    return {
+      success: true,
+      data: settings,
+    };
+  }
+
+  @Get('payouts')
+  async listPayouts(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+  ) {
+    const payouts = await this.settlements.listPayouts(req.user.userId);
+    return {
+      success: true,
+      data: payouts,
+    };
+  }
+
+  @Get(':id')
+  async get(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+  ) {
+    const settlement = await this.settlements.get(req.user.userId, id);
+    return {
+      success: true,
+      data: settlement,
+    };
+  }
+
+  /**
+   * Download a settlement statement
+   * GET /merchant/settlements/:id/statement?format=csv|pdf
+   */
+  @Get(':id/statement')
+  async statement(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Param('id') id: string,
+    @Query('format') format: StatementFormat = 'csv',
+    @Res() res: Response,
+  ) {
+    const statement = await this.settlements.statement(
+      req.user.userId,
+      id,
+      format,
+    );
+
+    res.setHeader('Content-Type', statement.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${statement.filename}"`,
+    );
+    res.send(statement.body);
+  }
+}
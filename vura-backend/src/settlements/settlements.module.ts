@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SettlementsService } from './settlements.service';
+import { SettlementsController } from './settlements.controller';
+import { PrismaService } from '../prisma.service';
+import { TransactionsModule } from '../transactions/transactions.module';
+
+@Module({
+  imports: [TransactionsModule],
+  controllers: [SettlementsController],
+  providers: [SettlementsService, PrismaService],
+  exports: [SettlementsService],
+})
+export class SettlementsModule {}
@@ -0,0 +1,283 @@
+import type { MerchantSettlementSettings, Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { lagosDay, SettlementsService } from './settlements.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const MERCHANT = 'merchant-1';
+// Mid-morning in Lagos on 3 March
+const NOW = new Date('2026-03-03T10:00:00Z');
+
+// The fields a settlement upsert writes
+interface Upserted {
+  where: { userId_date: { userId: string; date: Date } };
+  create: { grossAmount: number; feeAmount: number; netAmount: number };
+}
+
+/**
+ * The database is a stub whose `$transaction` runs callbacks against itself
+ * and awaits batched writes; bank transfers go through a mocked
+ * TransactionsService.
+ */
+describe('SettlementsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    transaction: { findMany: jest.Mock };
+    merchantSettlement: {
+      upsert: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    merchantSettlementItem: { createMany: jest.Mock };
+    merchantSettlementSettings: { findMany: jest.Mock };
+    merchantPayout: { create: jest.Mock; update: jest.Mock };
+    bankAccount: { findFirst: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let transactions: { sendToBank: jest.Mock };
+  let settlements: SettlementsService;
+
+  const receipt = (
+    createdAt: string,
+    amount: number,
+    fee?: number,
+  ): Transaction =>
+    ({
+      id: `tx-${createdAt}`,
+      type: 'qr_payment',
+      reference: `QR-${createdAt}`,
+      amount: new Decimal(amount),
+      status: 'SUCCESS',
+      receiverId: MERCHANT,
+      metadata: fee === undefined ? {} : { fee },
+      createdAt: new Date(createdAt),
+    }) as unknown as Transaction;
+  const settings = (
+    overrides: Partial<MerchantSettlementSettings> = {},
+  ): MerchantSettlementSettings => ({
+    id: 'settings-1',
+    userId: MERCHANT,
+    autoPayout: true,
+    schedule: 't1',
+    minimumAmount: new Decimal(1000),
+    bankAccountId: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  });
+  const upserts = () =>
+    (prisma.merchantSettlement.upsert.mock.calls as [Upserted][]).map(
+      ([arg]) => arg,
+    );
+  const dueWhere = () =>
+    (
+      prisma.merchantSettlement.findMany.mock.lastCall as [
+        { where: { date: { lt: Date } } },
+      ]
+    )[0].where;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      transaction: { findMany: jest.fn().mockResolvedValue([]) },
+      merchantSettlement: {
+        upsert: jest.fn().mockResolvedValue({ id: 'settlement-1' }),
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'settlement-1', netAmount: new Decimal(1500) },
+          { id: 'settlement-2', netAmount: new Decimal(700.5) },
+        ]),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+      merchantSettlementItem: { createMany: jest.fn() },
+      merchantSettlementSettings: {
+        findMany: jest.fn().mockResolvedValue([settings()]),
+      },
+      merchantPayout: {
+        create: jest.fn().mockResolvedValue({ id: 'payout-1' }),
+        update: jest.fn(),
+      },
+      bankAccount: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'bank-1',
+          accountNumber: '0123456789',
+          bankCode: '058',
+          accountName: 'Studio Ltd',
+        }),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (arg: ((tx: typeof prisma) => unknown) | Promise<unknown>[]) =>
+        typeof arg === 'function' ? arg(prisma) : Promise.all(arg),
+    );
+    transactions = {
+      sendToBank: jest.fn().mockResolvedValue({
+        transactionId: 'tx-payout',
+        reference: 'TRF-1',
+      }),
+    };
+    settlements = new SettlementsService(
+      prisma as unknown as PrismaService,
+      transactions as unknown as TransactionsService,
+    );
+  });
+
+  it('dates a payment by its Lagos calendar day', () => {
+    expect(lagosDay(new Date('2026-03-01T22:59:00Z'))).toEqual(
+      new Date('2026-03-01T00:00:00Z'),
+    );
+    expect(lagosDay(new Date('2026-03-01T23:00:00Z'))).toEqual(
+      new Date('2026-03-02T00:00:00Z'),
+    );
+  });
+
+  describe('closeSettlements', () => {
+    beforeEach(() => {
+      prisma.transaction.findMany
+        .mockResolvedValueOnce([{ receiverId: MERCHANT }])
+        .mockResolvedValueOnce([
+          receipt('2026-03-01T09:00:00Z', 2000, 30),
+          receipt('2026-03-01T15:00:00Z', 500),
+          receipt('2026-03-01T23:30:00Z', 1000, 15),
+        ]);
+    });
+
+    it('settles receipts from before today in Lagos', async () => {
+      await settlements.closeSettlements(NOW);
+
+      const where = (
+        prisma.transaction.findMany.mock.calls[0] as [
+          { where: { createdAt: { lt: Date } } },
+        ]
+      )[0].where;
+      expect(where.createdAt).toEqual({
+        lt: new Date('2026-03-02T23:00:00Z'),
+      });
+    });
+
+    it('makes one settlement per Lagos day, net of fees', async () => {
+      const created = await settlements.closeSettlements(NOW);
+
+      expect(created).toBe(2);
+      expect(upserts()).toMatchObject([
+        {
+          where: {
+            userId_date: {
+              userId: MERCHANT,
+              date: new Date('2026-03-01T00:00:00Z'),
+            },
+          },
+          create: { grossAmount: 2500, feeAmount: 30, netAmount: 2470 },
+        },
+        {
+          where: { userId_date: { date: new Date('2026-03-02T00:00:00Z') } },
+          create: { grossAmount: 1000, feeAmount: 15, netAmount: 985 },
+        },
+      ]);
+      expect(prisma.merchantSettlementItem.createMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps settling other days when one fails', async () => {
+      prisma.merchantSettlement.upsert.mockRejectedValueOnce(
+        new Error('deadlock'),
+      );
+
+      expect(await settlements.closeSettlements(NOW)).toBe(1);
+      expect(prisma.merchantSettlementItem.createMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sweepPayouts', () => {
+    it('sends every due settlement to the bank as one transfer', async () => {
+      await settlements.sweepPayouts(NOW);
+
+      expect(prisma.merchantSettlement.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['settlement-1', 'settlement-2'] },
+          payoutId: null,
+        },
+        data: { payoutId: 'payout-1' },
+      });
+      expect(transactions.sendToBank).toHaveBeenCalledWith(
+        MERCHANT,
+        '0123456789',
+        '058',
+        'Studio Ltd',
+        2200.5,
+        'Vura settlement payout',
+        undefined,
+        'PAYOUT-payout-1',
+      );
+      expect(prisma.merchantPayout.update).toHaveBeenCalledWith({
+        where: { id: 'payout-1' },
+        data: {
+          status: 'sent',
+          transactionId: 'tx-payout',
+          reference: 'TRF-1',
+        },
+      });
+    });
+
+    it.each([
+      ['t1', new Date('2026-03-02T00:00:00Z')],
+      ['t0', new Date('2026-03-03T00:00:00Z')],
+    ])('pays out on the %s schedule', async (schedule, dueBefore) => {
+      prisma.merchantSettlementSettings.findMany.mockResolvedValue([
+        settings({ schedule }),
+      ]);
+
+      await settlements.sweepPayouts(NOW);
+
+      expect(dueWhere().date).toEqual({ lt: dueBefore });
+    });
+
+    it('waits until the unpaid total reaches the minimum', async () => {
+      prisma.merchantSettlementSettings.findMany.mockResolvedValue([
+        settings({
+          minimumAmount: new Decimal(5000),
+        }),
+      ]);
+
+      await settlements.sweepPayouts(NOW);
+
+      expect(prisma.merchantPayout.create).not.toHaveBeenCalled();
+      expect(transactions.sendToBank).not.toHaveBeenCalled();
+    });
+
+    it('skips a merchant with no bank account to pay', async () => {
+      prisma.bankAccount.findFirst.mockResolvedValue(null);
+
+      await settlements.sweepPayouts(NOW);
+
+      expect(prisma.merchantPayout.create).not.toHaveBeenCalled();
+    });
+
+    it('does not send when another payout claimed the settlements first', async () => {
+      prisma.merchantSettlement.updateMany.mockResolvedValue({ count: 1 });
+
+      await settlements.sweepPayouts(NOW);
+
+      expect(transactions.sendToBank).not.toHaveBeenCalled();
+    });
+
+    it('releases the settlements when the transfer fails', async () => {
+      transactions.sendToBank.mockRejectedValue(
+        new Error('Insufficient balance'),
+      );
+
+      await settlements.sweepPayouts(NOW);
+
+      expect(prisma.merchantSettlement.updateMany).toHaveBeenLastCalledWith({
+        where: { payoutId: 'payout-1' },
+        data: { payoutId: null },
+      });
+      expect(prisma.merchantPayout.update).toHaveBeenCalledWith({
+        where: { id: 'payout-1' },
+        data: { status: 'failed', error: 'Insufficient balance' },
+      });
+    });
+  });
+});
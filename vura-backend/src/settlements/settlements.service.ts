@@ -0,0 +1,545 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { MerchantSettlementSettings, Transaction } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { PrismaService } from '../prisma.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import {
+  settlementCsv,
+  settlementPdf,
+  StatementFormat,
+} from './settlement-statement';
+
+// Lagos is UTC+1 all year, so a settlement day is a fixed 24h window
+const LAGOS_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Receipts that are batched into settlements
+const SETTLED_TYPES = ['qr_payment', 'payment_link'];
+const MAX_ITEMS_PER_RUN = 5000;
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const SCHEDULES = ['t0', 't1'] as const;
+
+export type PayoutSchedule = (typeof SCHEDULES)[number];
+
+export interface SettlementSettingsInput {
+  autoPayout?: boolean;
+  schedule?: PayoutSchedule;
+  minimumAmount?: number;
+  bankAccountId?: string | null;
+}
+
+/** The Lagos calendar day `date` falls on, as UTC midnight of that date */
+export function lagosDay(date: Date): Date {
+  return new Date(
+    Math.floor((date.getTime() + LAGOS_OFFSET_MS) / DAY_MS) * DAY_MS,
+  );
+}
+
+@Injectable()
+export class SettlementsService {
+  private readonly logger = new Logger(SettlementsService.name);
+  private isRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private transactions: TransactionsService,
+  ) {}
+
+  /**
+   * Shortly after midnight in Lagos: batch yesterday's receipts, then sweep
+   * whatever is due to merchants' banks
+   */
+  @Cron('5 0 * * *', { timeZone: 'Africa/Lagos' })
+  async runDaily() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      await this.closeSettlements();
+      await this.sweepPayouts();
+    } catch (err) {
+      this.logger.error(
+        `Settlement run failed: ${(err as Error).message}`,
+        (err as Error).stack,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Batch every successful QR and payment link receipt from before today
+   * that is not in a settlement yet, one settlement per merchant per day.
+   * Catches up on days a previous run missed.
+   */
+  async closeSettlements(now = new Date()) {
+    const todayStart = new Date(lagosDay(now).getTime() - LAGOS_OFFSET_MS);
+    const unsettled = {
+      type: { in: SETTLED_TYPES },
+      status: 'SUCCESS',
+      receiverId: { not: null },
+      createdAt: { lt: todayStart },
+      settlementItem: null,
+    };
+
+    const merchants = await this.prisma.transaction.findMany({
+      where: unsettled,
+      distinct: ['receiverId'],
+      select: { receiverId: true },
+    });
+
+    let created = 0;
+    for (const { receiverId } of merchants) {
+      const userId = receiverId!;
+      const receipts = await this.prisma.transaction.findMany({
+        where: { ...unsettled, receiverId: userId },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_ITEMS_PER_RUN,
+      });
+
+      const byDay = new Map<number, Transaction[]>();
+      for (const receipt of receipts) {
+        const key = lagosDay(receipt.createdAt).getTime();
+        byDay.set(key, [...(byDay.get(key) ?? []), receipt]);
+      }
+
+      for (const [key, dayReceipts] of byDay) {
+        try {
+          await this.settleDay(userId, new Date(key), dayReceipts);
+          created++;
+        } catch (err) {
+          this.logger.error(
+            `Could not settle ${new Date(key).toISOString().split('T')[0]} for ${userId}: ${(err as Error).message}`,
+          );
+        }
+      }
+    }
+
+    if (created > 0) {
+      this.logger.log(`Closed ${created} merchant settlements`);
+    }
+    return created;
+  }
+
+  private async settleDay(userId: string, date: Date, receipts: Transaction[]) {
+    const items = receipts.map((receipt) => {
+      const meta = (receipt.metadata as Record<string, unknown>) || {};
+      const gross = new Decimal(receipt.amount.toString());
+      const fee = new Decimal(typeof meta.fee === 'number' ? meta.fee : 0);
+      return {
+        transactionId: receipt.id,
+        type: receipt.type,
+        reference: receipt.reference ?? receipt.id,
+        grossAmount: gross.toNumber(),
+        feeAmount: fee.toNumber(),
+        netAmount: gross.minus(fee).toNumber(),
+        paidAt: receipt.createdAt,
+      };
+    });
+    const sum = (field: 'grossAmount' | 'feeAmount' | 'netAmount') =>
+      items
+        .reduce((total, item) => total.plus(item[field]), new Decimal(0))
+        .toNumber();
+
+    await this.prisma.$transaction(async (tx) => {
+      // A day is normally settled once; a later run only adds stragglers
+      const settlement = await tx.merchantSettlement.upsert({
+        where: { userId_date: { userId, date } },
+        create: {
+          userId,
+          date,
+          grossAmount: sum('grossAmount'),
+          feeAmount: sum('feeAmount'),
+          netAmount: sum('netAmount'),
+          paymentCount: items.length,
+        },
+        update: {
+          grossAmount: { increment: sum('grossAmount') },
+          feeAmount: { increment: sum('feeAmount') },
+          netAmount: { increment: sum('netAmount') },
+          paymentCount: { increment: items.length },
+        },
+      });
+      await tx.merchantSettlementItem.createMany({
+        data: items.map((item) => ({ ...item, settlementId: settlement.id })),
+      });
+    });
+  }
+
+  /**
+   * Send each opted-in merchant's unpaid, due settlements to their bank as
+   * one transfer once they reach the minimum. A failed transfer releases
+   * the settlements so the next run tries again.
+   */
+  async sweepPayouts(now = new Date()) {
+    const enabled = await this.prisma.merchantSettlementSettings.findMany({
+      where: { autoPayout: true },
+    });
+
+    for (const settings of enabled) {
+      try {
+        await this.payOut(settings, now);
+      } catch (err) {
+        this.logger.error(
+          `Payout sweep failed for ${settings.userId}: ${(err as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private async payOut(settings: MerchantSettlementSettings, now: Date) {
+    // T+0 pays a day out as soon as it closes, T+1 waits one more day
+    const lagDays = settings.schedule === 't0' ? 0 : 1;
+    const dueBefore = new Date(lagosDay(now).getTime() - lagDays * DAY_MS);
+
+    const due = await this.prisma.merchantSettlement.findMany({
+      where: {
+        userId: settings.userId,
+        payoutId: null,
+        date: { lt: dueBefore },
+      },
+      select: { id: true, netAmount: true },
+    });
+    const amount = due.reduce(
+      (total, s) => total.plus(s.netAmount.toString()),
+      new Decimal(0),
+    );
+    if (due.length === 0 || amount.lt(settings.minimumAmount.toString())) {
+      return;
+    }
+
+    const account = await this.payoutAccount(
+      settings.userId,
+      settings.bankAccountId,
+    );
+    if (!account) {
+      this.logger.warn(
+        `Auto payout on for ${settings.userId} but no bank account to pay`,
+      );
+      return;
+    }
+
+    const payout = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.merchantPayout.create({
+        data: {
+          userId: settings.userId,
+          amount: amount.toNumber(),
+          bankAccountId: account.id,
+        },
+      });
+      const claimed = await tx.merchantSettlement.updateMany({
+        where: { id: { in: due.map((s) => s.id) }, payoutId: null },
+        data: { payoutId: created.id },
+      });
+      if (claimed.count !== due.length) {
+        throw new Error('Settlements were claimed by another payout');
+      }
+      return created;
+    });
+
+    try {
+      const result = await this.transactions.sendToBank(
+        settings.userId,
+        account.accountNumber,
+        account.bankCode,
+        account.accountName,
+        amount.toNumber(),
+        'Vura settlement payout',
+        undefined,
+        `PAYOUT-${payout.id}`,
+      );
+      await this.prisma.merchantPayout.update({
+        where: { id: payout.id },
+        data: {
+          status: 'sent',
+          transactionId: result.transactionId,
+          reference: result.reference,
+        },
+      });
+      await this.prisma.auditLog.create({
+        data: {
+          action: 'MERCHANT_PAYOUT_SENT',
+          userId: settings.userId,
+          actorType: 'system',
+          metadata: {
+            payoutId: payout.id,
+            reference: result.reference,
+            amount: amount.toString(),
+            settlements: due.length,
+          },
+        },
+      });
+    } catch (err) {
+      const message = (err as Error).message;
+      await this.prisma.$transaction([
+        this.prisma.merchantSettlement.updateMany({
+          where: { payoutId: payout.id },
+          data: { payoutId: null },
+        }),
+        this.prisma.merchantPayout.update({
+          where: { id: payout.id },
+          data: { status: 'failed', error: message },
+        }),
+      ]);
+      this.logger.warn(`Payout ${payout.id} failed: ${message}`);
+    }
+  }
+
+  // ============================================
+  // MERCHANT
+  // ============================================
+
+  async getSettings(userId: string) {
+    const settings = await this.prisma.merchantSettlementSettings.findUnique({
+      where: { userId },
+    });
+    return {
+      autoPayout: settings?.autoPayout ?? false,
+      schedule: (settings?.schedule ?? 't1') as PayoutSchedule,
+      minimumAmount: settings ? Number(settings.minimumAmount) : 1000,
+      bankAccountId: settings?.bankAccountId ?? null,
+    };
+  }
+
+  async updateSettings(userId: string, input: SettlementSettingsInput) {
+    if (input.schedule !== undefined && !SCHEDULES.includes(input.schedule)) {
+      throw new BadRequestException("schedule must be 't0' or 't1'");
+    }
+    if (
+      input.minimumAmount !== undefined &&
+      (typeof input.minimumAmount !== 'number' ||
+        !Number.isFinite(input.minimumAmount) ||
+        input.minimumAmount < 100)
+    ) {
+      throw new BadRequestException('minimumAmount must be at least ₦100');
+    }
+
+    const current = await this.getSettings(userId);
+    const bankAccountId =
+      input.bankAccountId !== undefined
+        ? input.bankAccountId
+        : current.bankAccountId;
+    if (input.bankAccountId) {
+      const owned = await this.prisma.bankAccount.findFirst({
+        where: { id: input.bankAccountId, userId, status: 'active' },
+      });
+      if (!owned) {
+        throw new NotFoundException('Bank account not found');
+      }
+    }
+    const autoPayout = input.autoPayout ?? current.autoPayout;
+    if (autoPayout && !(await this.payoutAccount(userId, bankAccountId))) {
+      throw new BadRequestException(
+        'Add a bank account before turning on automatic payouts',
+      );
+    }
+
+    const data = {
+      autoPayout,
+      schedule: input.schedule ?? current.schedule,
+      minimumAmount: input.minimumAmount ?? current.minimumAmount,
+      bankAccountId,
+    };
+    await this.prisma.merchantSettlementSettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+    await this.prisma.auditLog.create({
+      data: {
+        action: 'SETTLEMENT_SETTINGS_UPDATED',
+        userId,
+        actorType: 'user',
+        metadata: data,
+      },
+    });
+    return this.getSettings(userId);
+  }
+
+  /** Newest day first; pass nextCursor back as `before` for older days */
+  async list(
+    userId: string,
+    options: { limit?: number; before?: string } = {},
+  ) {
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const before = options.before ? new Date(options.before) : undefined;
+    if (before && isNaN(before.getTime())) {
+      throw new BadRequestException('Invalid before cursor');
+    }
+
+    const settlements = await this.prisma.merchantSettlement.findMany({
+      where: { userId, ...(before && { date: { lt: before } }) },
+      orderBy: { date: 'desc' },
+      take: limit,
+      include: { payout: true },
+    });
+    const payoutStatus = await this.payoutStatuses(
+      settlements.flatMap((s) => (s.payout ? [s.payout] : [])),
+    );
+
+    return {
+      settlements: settlements.map((s) => ({
+        id: s.id,
+        date: s.date.toISOString().split('T')[0],
+        currency: s.currency,
+        grossAmount: Number(s.grossAmount),
+        feeAmount: Number(s.feeAmount),
+        netAmount: Number(s.netAmount),
+        paymentCount: s.paymentCount,
+        payout: s.payout
+          ? {
+              id: s.payout.id,
+              status: payoutStatus.get(s.payout.id),
+              reference: s.payout.reference,
+            }
+          : null,
+      })),
+      nextCursor:
+        settlements.length === limit
+          ? settlements[settlements.length - 1].date.toISOString()
+          : null,
+    };
+  }
+
+  async get(userId: string, id: string) {
+    const settlement = await this.findOwned(userId, id);
+    return {
+      id: settlement.id,
+      date: settlement.date.toISOString().split('T')[0],
+      currency: settlement.currency,
+      grossAmount: Number(settlement.grossAmount),
+      feeAmount: Number(settlement.feeAmount),
+      netAmount: Number(settlement.netAmount),
+      paymentCount: settlement.paymentCount,
+      payoutId: settlement.payoutId,
+      items: settlement.items.map((item) => ({
+        transactionId: item.transactionId,
+        type: item.type,
+        reference: item.reference,
+        grossAmount: Number(item.grossAmount),
+        feeAmount: Number(item.feeAmount),
+        netAmount: Number(item.netAmount),
+        paidAt: item.paidAt,
+      })),
+    };
+  }
+
+  async statement(userId: string, id: string, format: StatementFormat) {
+    if (format !== 'csv' && format !== 'pdf') {
+      throw new BadRequestException("format must be 'csv' or 'pdf'");
+    }
+    const settlement = await this.findOwned(userId, id);
+    const filename = `vura-settlement-${settlement.date.toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'csv') {
+      return {
+        filename,
+        contentType: 'text/csv',
+        body: settlementCsv(settlement),
+      };
+    }
+
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { vuraTag: true },
+    });
+    const payout = settlement.payoutId
+      ? await this.prisma.merchantPayout.findUnique({
+          where: { id: settlement.payoutId },
+          select: { reference: true },
+        })
+      : null;
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: settlementPdf(settlement, user.vuraTag, payout?.reference ?? null),
+    };
+  }
+
+  async listPayouts(userId: string) {
+    const payouts = await this.prisma.merchantPayout.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      include: { _count: { select: { settlements: true } } },
+    });
+    const statuses = await this.payoutStatuses(payouts);
+
+    return payouts.map((payout) => ({
+      id: payout.id,
+      amount: Number(payout.amount),
+      status: statuses.get(payout.id),
+      reference: payout.reference,
+      error: payout.error,
+      settlementCount: payout._count.settlements,
+      createdAt: payout.createdAt,
+    }));
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * A sent payout is only 'paid' once its bank transfer succeeds; a
+   * transfer Paystack failed or reversed is refunded to the wallet
+   */
+  private async payoutStatuses(
+    payouts: { id: string; status: string; transactionId: string | null }[],
+  ) {
+    const transactionIds = payouts.flatMap((p) =>
+      p.transactionId ? [p.transactionId] : [],
+    );
+    const transactions = await this.prisma.transaction.findMany({
+      where: { id: { in: transactionIds } },
+      select: { id: true, status: true },
+    });
+    const transferStatus = new Map(transactions.map((t) => [t.id, t.status]));
+
+    return new Map(
+      payouts.map((payout) => {
+        if (payout.status !== 'sent' || !payout.transactionId) {
+          return [payout.id, payout.status];
+        }
+        const status = transferStatus.get(payout.transactionId);
+        if (status === 'SUCCESS' || status === 'COMPLETED') {
+          return [payout.id, 'paid'];
+        }
+        if (status === 'FAILED' || status === 'REVERSED') {
+          return [payout.id, 'failed'];
+        }
+        return [payout.id, 'sent'];
+      }),
+    );
+  }
+
+  private async payoutAccount(userId: string, bankAccountId: string | null) {
+    return this.prisma.bankAccount.findFirst({
+      where: {
+        userId,
+        status: 'active',
+        ...(bankAccountId ? { id: bankAccountId } : { isPrimary: true }),
+      },
+    });
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const settlement = await this.prisma.merchantSettlement.findFirst({
+      where: { id, userId },
+      include: { items: { orderBy: { paidAt: 'asc' } } },
+    });
+    if (!settlement) {
+      throw new NotFoundException('Settlement not found');
+    }
+    return settlement;
+  }
+}
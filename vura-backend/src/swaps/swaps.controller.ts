@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  Request,
+  Headers,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { SwapsService } from './swaps.service';
+import type { SwapExecuteInput, SwapQuoteInput } from './swaps.service';
+
+@Controller('swaps')
+@UseGuards(AuthGuard)
+export class SwapsController {
+  constructor(private readonly swaps: SwapsService) {}
+
+  /**
+   * Quote a swap. from: 'NGN' to buy USDT, 'USDT' to sell it; amount is in
+   * the from currency.
+   * POST /swaps/quote
+   */
+  @Post('quote')
+  async quote(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Body() body: SwapQuoteInput,
+  ) {
+    const quote = await this.swaps.createQuote(req.user.userId, body);
+    return {
+      success: true,
+      data: quote,
+    };
+  }
+
+  /**
+   * Execute a quoted swap before it expires.
+   * POST /swaps
+   */
+  @Post()
+  @UseInterceptors(IdempotencyInterceptor)
+  async execute(
+    @Request() req: ExpressRequest & { user: { userId: string; sid: string } },
+    @Body() body: SwapExecuteInput,
+    @Headers('x-device-fingerprint') deviceFingerprint: string | undefined,
+  ) {
+    const swap = await this.swaps.execute(req.user.userId, body, {
+      deviceFingerprint,
+      ipAddress: req.ip,
+      sessionId: req.user.sid,
+    });
+    return {
+      success: true,
+      data: swap,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { SwapsService } from './swaps.service';
+import { SwapsController } from './swaps.controller';
+import { TreasuryAdminController } from './treasury-admin.controller';
+import { PrismaService } from '../prisma.service';
+import { CryptoModule } from '../crypto/crypto.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
+import { EWSModule } from '../ews/ews.module';
+import { LimitsModule } from '../limits/limits.module';
+import { HoldsModule } from '../holds/holds.module';
+
+@Module({
+  imports: [
+    CryptoModule,
+    LedgerModule,
+    OutboxModule,
+    IdempotencyModule,
+    AdminAuthModule,
+    EWSModule,
+    LimitsModule,
+    HoldsModule,
+  ],
+  providers: [SwapsService, PrismaService],
+  controllers: [SwapsController, TreasuryAdminController],
+})
+export class SwapsModule {}
@@ -0,0 +1,317 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import Decimal from 'decimal.js';
+import { CoinGeckoService } from '../crypto/coingecko.service';
+import { EWSService } from '../ews/ews.service';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LimitsService } from '../limits/limits.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { SwapsService } from './swaps.service';
+
+const USER = 'user-1';
+const PIN = '1234';
+const HASHED_PIN = bcrypt.hashSync(PIN, 4);
+const DECIMAL_FIELDS = [
+  'marketRate',
+  'spread',
+  'rate',
+  'cryptoAmount',
+  'ngnAmount',
+];
+
+// The fields execute writes to the Transaction row
+interface WrittenTransaction {
+  amount: string;
+  currency: string;
+  beforeBalance: number | null;
+  afterBalance: number | null;
+  isFlagged: boolean;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Quotes are priced against a fixed market rate of ₦1,500 with the default
+ * 1% spread. The database, ledger and risk services are stubs.
+ */
+describe('SwapsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    exchangeRate: {
+      create: jest.Mock;
+      findFirst: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    transaction: { create: jest.Mock };
+    auditLog: { create: jest.Mock };
+  };
+  let ledger: { transfer: jest.Mock };
+  let ews: { screenTransaction: jest.Mock; recordAssessment: jest.Mock };
+  let limits: { checkSendLimit: jest.Mock };
+  let holds: { checkHeldFunds: jest.Mock };
+  let swaps: SwapsService;
+
+  const quote = (side: 'buy' | 'sell', overrides = {}) => ({
+    id: 'quote-1',
+    userId: USER,
+    purpose: 'swap',
+    side,
+    status: 'active',
+    rate: new Decimal(side === 'buy' ? 1515 : 1485),
+    marketRate: new Decimal(1500),
+    spread: new Decimal(0.01),
+    ngnAmount: new Decimal(side === 'buy' ? '15150' : '1485'),
+    cryptoAmount: new Decimal(side === 'buy' ? '10' : '1'),
+    expiresAt: new Date(Date.now() + 30 * 1000),
+    ...overrides,
+  });
+  const written = () =>
+    (
+      prisma.transaction.create.mock.lastCall as [{ data: WrittenTransaction }]
+    )[0].data;
+  const snapshot = (before: string, after: string) => ({
+    before: new Decimal(before),
+    after: new Decimal(after),
+  });
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ hashedPin: HASHED_PIN }),
+      },
+      exchangeRate: {
+        // Prisma hands DECIMAL columns back as Decimals
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+          Promise.resolve({
+            id: 'quote-1',
+            status: 'active',
+            ...data,
+            ...Object.fromEntries(
+              DECIMAL_FIELDS.map((f) => [f, new Decimal(data[f] as string)]),
+            ),
+          }),
+        ),
+        findFirst: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      transaction: {
+        create: jest.fn().mockResolvedValue({ id: 'tx-1' }),
+      },
+      auditLog: { create: jest.fn() },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    ledger = {
+      transfer: jest.fn((_tx: unknown, { currency }: { currency: string }) =>
+        Promise.resolve({
+          balances:
+            currency === 'NGN'
+              ? { [LedgerService.user(USER, 'NGN')]: snapshot('20000', '4850') }
+              : {
+                  [LedgerService.user(USER, 'USDT')]: snapshot(
+                    '1.123456',
+                    '11.123456',
+                  ),
+                },
+        }),
+      ),
+    };
+    ews = {
+      screenTransaction: jest
+        .fn()
+        .mockResolvedValue({ action: 'allow', score: 0, reasons: [] }),
+      recordAssessment: jest.fn(),
+    };
+    limits = { checkSendLimit: jest.fn() };
+    holds = { checkHeldFunds: jest.fn() };
+    swaps = new SwapsService(
+      { get: () => undefined } as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      ledger as unknown as LedgerService,
+      { record: jest.fn() } as unknown as OutboxService,
+      {
+        getRate: jest.fn().mockResolvedValue(new Decimal(1500)),
+      } as unknown as CoinGeckoService,
+      ews as unknown as EWSService,
+      limits as unknown as LimitsService,
+      holds as unknown as HoldsService,
+    );
+  });
+
+  describe('createQuote', () => {
+    it('prices a buy above the market rate and rounds USDT down', async () => {
+      const res = await swaps.createQuote(USER, { from: 'ngn', amount: 10000 });
+
+      expect(res).toMatchObject({
+        side: 'buy',
+        rate: '1515',
+        from: { currency: 'NGN', amount: '10000.00' },
+        to: { currency: 'USDT', amount: '6.60066' },
+      });
+    });
+
+    it('prices a sell below the market rate', async () => {
+      const res = await swaps.createQuote(USER, { from: 'USDT', amount: 2 });
+
+      expect(res).toMatchObject({
+        side: 'sell',
+        rate: '1485',
+        to: { currency: 'NGN', amount: '2970.00' },
+      });
+    });
+
+    it('rejects unsupported currencies', async () => {
+      await expect(
+        swaps.createQuote(USER, { from: 'BTC', amount: 1 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('execute', () => {
+    it('runs limit, hold and EWS checks on a naira buy', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('buy'));
+
+      await swaps.execute(
+        USER,
+        { quoteId: 'quote-1', pin: PIN },
+        { ipAddress: '10.0.0.1' },
+      );
+
+      const ngn = new Decimal('15150');
+      expect(limits.checkSendLimit).toHaveBeenCalledWith(USER, ngn, 'NGN');
+      expect(holds.checkHeldFunds).toHaveBeenCalledWith(USER, ngn);
+      expect(ews.screenTransaction).toHaveBeenCalledWith({
+        userId: USER,
+        amount: ngn,
+        channel: 'crypto',
+        ipAddress: '10.0.0.1',
+      });
+      expect(ews.recordAssessment).toHaveBeenCalledWith(
+        prisma,
+        'tx-1',
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(written()).toMatchObject({
+        currency: 'NGN',
+        beforeBalance: 20000,
+        afterBalance: 4850,
+        isFlagged: false,
+      });
+    });
+
+    it('does not swap naira that is held', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('buy'));
+      holds.checkHeldFunds.mockRejectedValue(
+        new BadRequestException('Insufficient available balance'),
+      );
+
+      await expect(
+        swaps.execute(USER, { quoteId: 'quote-1', pin: PIN }),
+      ).rejects.toThrow('Insufficient available balance');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+
+    it('does not sell USDT that is held', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('sell'));
+      holds.checkHeldFunds.mockRejectedValue(
+        new BadRequestException('Insufficient available balance'),
+      );
+
+      await expect(
+        swaps.execute(USER, { quoteId: 'quote-1', pin: PIN }),
+      ).rejects.toThrow('Insufficient available balance');
+
+      expect(holds.checkHeldFunds).toHaveBeenCalledWith(
+        USER,
+        new Decimal('1'),
+        'USDT',
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+
+    it('flags a buy EWS wants reviewed', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('buy'));
+      ews.screenTransaction.mockResolvedValue({
+        action: 'review',
+        score: 60,
+        reasons: ['New device'],
+      });
+
+      await swaps.execute(USER, { quoteId: 'quote-1', pin: PIN });
+
+      expect(written()).toMatchObject({ isFlagged: true });
+    });
+
+    it('keeps USDT balance snapshots out of the naira columns on a sell', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('sell'));
+      ledger.transfer.mockImplementation(
+        (_tx: unknown, { currency }: { currency: string }) =>
+          Promise.resolve({
+            balances:
+              currency === 'USDT'
+                ? {
+                    [LedgerService.user(USER, 'USDT')]: snapshot(
+                      '5.123456',
+                      '4.123456',
+                    ),
+                  }
+                : { [LedgerService.user(USER, 'NGN')]: snapshot('0', '1485') },
+          }),
+      );
+
+      await swaps.execute(USER, { quoteId: 'quote-1', pin: PIN });
+
+      expect(limits.checkSendLimit).not.toHaveBeenCalled();
+      expect(ews.screenTransaction).not.toHaveBeenCalled();
+      expect(written()).toMatchObject({
+        currency: 'USDT',
+        beforeBalance: null,
+        afterBalance: null,
+        metadata: {
+          fromBeforeBalance: '5.123456',
+          fromAfterBalance: '4.123456',
+          toBeforeBalance: '0',
+          toAfterBalance: '1485',
+        },
+      });
+    });
+
+    it('rejects an expired quote', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(
+        quote('buy', { expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        swaps.execute(USER, { quoteId: 'quote-1', pin: PIN }),
+      ).rejects.toThrow('expired');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+
+    it('rejects a quote another request claimed first', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('buy'));
+      prisma.exchangeRate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        swaps.execute(USER, { quoteId: 'quote-1', pin: PIN }),
+      ).rejects.toThrow('no longer valid');
+      expect(ledger.transfer).not.toHaveBeenCalled();
+    });
+
+    it('rejects a wrong PIN', async () => {
+      prisma.exchangeRate.findFirst.mockResolvedValue(quote('buy'));
+
+      await expect(
+        swaps.execute(USER, { quoteId: 'quote-1', pin: '0000' }),
+      ).rejects.toThrow('Invalid PIN');
+    });
+  });
+});
@@ -0,0 +1,393 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ExchangeRate } from '@prisma/client';
+import Decimal from 'decimal.js';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { EWSService } from '../ews/ews.service';
+import { LimitsService } from '../limits/limits.service';
+import { HoldsService } from '../holds/holds.service';
+import { CoinGeckoService } from '../crypto/coingecko.service';
+import type {
+  FraudScore,
+  TransactionRiskInput,
+} from '../services/fraud-detection.service';
+import type { RiskContext } from '../transactions/transactions.service';
+
+// Swaps execute immediately, so the quote only has to survive a confirm tap
+export const SWAP_QUOTE_TTL_SECONDS = 60;
+
+// USDT amounts are kept to the token's 6 decimals on TRC20
+const USDT_DECIMALS = 6;
+
+export interface SwapQuoteInput {
+  /** Currency the user pays with: 'NGN' buys USDT, 'USDT' sells it */
+  from?: string;
+  amount?: number | string;
+}
+
+export interface SwapExecuteInput {
+  quoteId?: string;
+  pin?: string;
+}
+
+/**
+ * NGN ↔ USDT swaps between a user's two wallets. The user trades with the
+ * treasury at the market rate plus or minus the spread: each swap posts one
+ * journal per currency against TREASURY:NGN and TREASURY:USDT, so the
+ * treasury balances are the open position finance has to hedge.
+ */
+@Injectable()
+export class SwapsService {
+  private readonly logger = new Logger(SwapsService.name);
+  // Fraction added to the market rate when users buy USDT and taken off when they sell
+  private readonly spread: Decimal;
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+    private ledger: LedgerService,
+    private outbox: OutboxService,
+    private coinGecko: CoinGeckoService,
+    private ews: EWSService,
+    private limits: LimitsService,
+    private holds: HoldsService,
+  ) {
+    this.spread = new Decimal(this.config.get('SWAP_SPREAD') || '0.01');
+  }
+
+  async createQuote(userId: string, input: SwapQuoteInput) {
+    const from = (input.from || '').toUpperCase();
+    if (from !== 'NGN' && from !== 'USDT') {
+      throw new BadRequestException('from must be NGN or USDT');
+    }
+    const raw = Number(input.amount);
+    if (!Number.isFinite(raw) || raw <= 0) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+
+    const marketRate = await this.coinGecko.getRate('USDT');
+    const side = from === 'NGN' ? 'buy' : 'sell';
+    const rate = marketRate.mul(
+      side === 'buy' ? this.spread.add(1) : new Decimal(1).sub(this.spread),
+    );
+
+    let ngnAmount: Decimal;
+    let usdtAmount: Decimal;
+    if (side === 'buy') {
+      ngnAmount = new Decimal(String(input.amount)).toDecimalPlaces(
+        2,
+        Decimal.ROUND_DOWN,
+      );
+      usdtAmount = ngnAmount
+        .div(rate)
+        .toDecimalPlaces(USDT_DECIMALS, Decimal.ROUND_DOWN);
+    } else {
+      usdtAmount = new Decimal(String(input.amount)).toDecimalPlaces(
+        USDT_DECIMALS,
+        Decimal.ROUND_DOWN,
+      );
+      ngnAmount = usdtAmount.mul(rate).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+    }
+    if (ngnAmount.lte(0) || usdtAmount.lte(0)) {
+      throw new BadRequestException('amount is too small to swap');
+    }
+
+    const quote = await this.prisma.exchangeRate.create({
+      data: {
+        pair: 'USDT_NGN',
+        provider: 'coingecko',
+        purpose: 'swap',
+        side,
+        userId,
+        marketRate: marketRate.toFixed(8),
+        spread: this.spread.toFixed(4),
+        rate: rate.toFixed(8),
+        cryptoAmount: usdtAmount.toFixed(8),
+        ngnAmount: ngnAmount.toFixed(2),
+        expiresAt: new Date(Date.now() + SWAP_QUOTE_TTL_SECONDS * 1000),
+      },
+    });
+    return this.toResponse(quote);
+  }
+
+  /**
+   * Swap at a quoted rate. The quote is claimed in the same transaction as
+   * the postings, so it backs exactly one swap. Buying USDT takes naira out
+   * of the wallet, so it goes through the same limit, hold and EWS checks as
+   * any other send.
+   */
+  async execute(
+    userId: string,
+    input: SwapExecuteInput,
+    riskContext?: RiskContext,
+  ) {
+    if (!input.quoteId) {
+      throw new BadRequestException('quoteId is required');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { hashedPin: true },
+    });
+    if (!user?.hashedPin) {
+      throw new UnauthorizedException('Set your PIN in Settings.');
+    }
+    if (!input.pin || !(await bcrypt.compare(input.pin, user.hashedPin))) {
+      throw new UnauthorizedException('Invalid PIN');
+    }
+
+    const quote = await this.prisma.exchangeRate.findFirst({
+      where: { id: input.quoteId, userId, purpose: 'swap' },
+    });
+    if (!quote) throw new NotFoundException('Quote not found');
+    if (quote.status !== 'active') {
+      throw new BadRequestException('This quote has already been used');
+    }
+    if (quote.expiresAt <= new Date()) {
+      throw new BadRequestException('This quote has expired. Get a new rate.');
+    }
+
+    const buy = quote.side === 'buy';
+    const ngnAmount = new Decimal(quote.ngnAmount!.toString());
+    const usdtAmount = new Decimal(quote.cryptoAmount!.toString());
+    const from = buy
+      ? { currency: 'NGN', amount: ngnAmount }
+      : { currency: 'USDT', amount: usdtAmount };
+    const to = buy
+      ? { currency: 'USDT', amount: usdtAmount }
+      : { currency: 'NGN', amount: ngnAmount };
+
+    let riskInput: TransactionRiskInput | null = null;
+    let risk: FraudScore | null = null;
+    if (buy) {
+      await this.limits.checkSendLimit(userId, ngnAmount, 'NGN');
+      await this.holds.checkHeldFunds(userId, ngnAmount);
+      riskInput = {
+        userId,
+        amount: ngnAmount,
+        channel: 'crypto',
+        ...riskContext,
+      };
+      risk = await this.ews.screenTransaction(riskInput);
+    } else {
+      await this.holds.checkHeldFunds(userId, usdtAmount, 'USDT');
+    }
+    const reference = this.generateReference();
+
+    const transaction = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.exchangeRate.updateMany({
+        where: {
+          id: quote.id,
+          status: 'active',
+          expiresAt: { gt: new Date() },
+        },
+        data: { status: 'used', usedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('This quote is no longer valid');
+      }
+
+      const metadata = { quoteId: quote.id, side: quote.side };
+      const debit = await this.ledger.transfer(tx, {
+        reference,
+        type: 'swap',
+        currency: from.currency,
+        from: LedgerService.user(userId, from.currency),
+        to: LedgerService.treasury(from.currency),
+        amount: from.amount,
+        description: `Swap ${from.currency} to ${to.currency}`,
+        metadata,
+      });
+      const credit = await this.ledger.transfer(tx, {
+        reference,
+        type: 'swap',
+        currency: to.currency,
+        from: LedgerService.treasury(to.currency),
+        to: LedgerService.user(userId, to.currency),
+        amount: to.amount,
+        description: `Swap ${from.currency} to ${to.currency}`,
+        metadata,
+      });
+      const source = debit.balances[LedgerService.user(userId, from.currency)];
+      const target = credit.balances[LedgerService.user(userId, to.currency)];
+
+      const created = await tx.transaction.create({
+        data: {
+          senderId: userId,
+          amount: from.amount.toString(),
+          currency: from.currency,
+          type: 'swap',
+          status: 'SUCCESS',
+          idempotencyKey: `swap_${quote.id}`,
+          // The balance columns hold naira to 2dp; USDT snapshots are only
+          // kept exactly in metadata
+          beforeBalance: buy ? source.before.toNumber() : null,
+          afterBalance: buy ? source.after.toNumber() : null,
+          reference,
+          isFlagged: !!risk && risk.action !== 'allow',
+          flagReason:
+            risk && risk.action !== 'allow'
+              ? `Risk score ${risk.score}/100: ${risk.reasons.join('; ')}`
+              : undefined,
+          metadata: {
+            quoteId: quote.id,
+            side: quote.side,
+            rate: quote.rate.toString(),
+            marketRate: quote.marketRate?.toString() ?? null,
+            spread: quote.spread.toString(),
+            fromBeforeBalance: source.before.toString(),
+            fromAfterBalance: source.after.toString(),
+            toCurrency: to.currency,
+            toAmount: to.amount.toString(),
+            toBeforeBalance: target.before.toString(),
+            toAfterBalance: target.after.toString(),
+          },
+        },
+      });
+      if (riskInput && risk) {
+        await this.ews.recordAssessment(tx, created.id, riskInput, risk);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'WALLET_SWAP',
+          userId,
+          actorType: 'user',
+          metadata: {
+            reference,
+            quoteId: quote.id,
+            side: quote.side,
+            fromCurrency: from.currency,
+            fromAmount: from.amount.toString(),
+            toCurrency: to.currency,
+            toAmount: to.amount.toString(),
+            rate: quote.rate.toString(),
+          },
+        },
+      });
+
+      await this.outbox.record(
+        tx,
+        'SwapCompleted',
+        {
+          transactionId: created.id,
+          reference,
+          userId,
+          side: buy ? 'buy' : 'sell',
+          fromCurrency: from.currency,
+          fromAmount: from.amount.toString(),
+          toCurrency: to.currency,
+          toAmount: to.amount.toString(),
+          rate: quote.rate.toString(),
+        },
+        created.id,
+      );
+
+      return created;
+    });
+
+    this.logger.log(
+      `Swap ${reference}: ${from.amount.toString()} ${from.currency} → ${to.amount.toString()} ${to.currency} for user ${userId}`,
+    );
+
+    return {
+      transactionId: transaction.id,
+      reference,
+      side: quote.side,
+      from: { currency: from.currency, amount: from.amount.toString() },
+      to: { currency: to.currency, amount: to.amount.toString() },
+      rate: quote.rate.toString(),
+    };
+  }
+
+  /**
+   * The treasury's open NGN and USDT positions, marked to market at the
+   * current USDT rate. A positive USDT position means the treasury bought
+   * more USDT from users than it sold them.
+   */
+  async getTreasuryPosition() {
+    const [ngn, usdt, customerUsdt, swaps] = await Promise.all([
+      this.ledger.getAccountBalance(LedgerService.treasury('NGN')),
+      this.ledger.getAccountBalance(LedgerService.treasury('USDT')),
+      this.prisma.balance.aggregate({
+        where: { currency: 'USDT' },
+        _sum: { amount: true },
+      }),
+      this.prisma.exchangeRate.groupBy({
+        by: ['side'],
+        where: {
+          purpose: 'swap',
+          status: 'used',
+          usedAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+        },
+        _count: { _all: true },
+        _sum: { cryptoAmount: true, ngnAmount: true },
+      }),
+    ]);
+
+    let marketRate: Decimal | null = null;
+    try {
+      marketRate = await this.coinGecko.getRate('USDT');
+    } catch (error) {
+      this.logger.warn(
+        `Treasury mark-to-market unavailable: ${(error as Error).message}`,
+      );
+    }
+
+    const volume = (side: string) => {
+      const row = swaps.find((s) => s.side === side);
+      return {
+        count: row?._count._all ?? 0,
+        usdt: row?._sum.cryptoAmount?.toString() ?? '0',
+        ngn: row?._sum.ngnAmount?.toString() ?? '0',
+      };
+    };
+
+    return {
+      positions: { NGN: ngn.toFixed(2), USDT: usdt.toString() },
+      netUsdtExposure: usdt.toString(),
+      marketRate: marketRate?.toString() ?? null,
+      markToMarketNgn: marketRate
+        ? ngn.add(usdt.mul(marketRate)).toFixed(2)
+        : null,
+      customerUsdtBalances: customerUsdt._sum.amount?.toString() ?? '0',
+      swapsLast24h: { buy: volume('buy'), sell: volume('sell') },
+    };
+  }
+
+  toResponse(quote: ExchangeRate) {
+    const buy = quote.side === 'buy';
+    const ngn = quote.ngnAmount?.toFixed(2) ?? null;
+    const usdt = quote.cryptoAmount?.toString() ?? null;
+    return {
+      id: quote.id,
+      side: quote.side,
+      from: buy
+        ? { currency: 'NGN', amount: ngn }
+        : { currency: 'USDT', amount: usdt },
+      to: buy
+        ? { currency: 'USDT', amount: usdt }
+        : { currency: 'NGN', amount: ngn },
+      rate: quote.rate.toString(),
+      marketRate: quote.marketRate?.toString() ?? null,
+      spread: quote.spread.toString(),
+      status: quote.status,
+      expiresAt: quote.expiresAt,
+      expired: quote.expiresAt <= new Date(),
+    };
+  }
+
+  private generateReference(): string {
+    return `SWAP-${Date.now()}-${randomBytes(4).toString('hex')}`;
+  }
+}
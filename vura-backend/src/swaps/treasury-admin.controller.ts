@@ -0,0 +1,23 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../admin-auth/admin.guard';
+import { RequirePermission } from '../admin-auth/admin-permissions';
+import { SwapsService } from './swaps.service';
+
+/**
+ * Finance view of the position the business carries from user swaps
+ */
+@Controller('admin/treasury')
+@UseGuards(AdminGuard)
+export class TreasuryAdminController {
+  constructor(private readonly swaps: SwapsService) {}
+
+  @RequirePermission('float:read')
+  @Get()
+  async getPosition() {
+    const position = await this.swaps.getTreasuryPosition();
+    return {
+      success: true,
+      data: position,
+    };
+  }
+}
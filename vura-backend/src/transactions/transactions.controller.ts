@@ -8,11 +8,15 @@ import {
   Query,
   BadRequestException,
   UnauthorizedException,
+  UseInterceptors,
+  Headers,
 } from '@nestjs/common';
 import { TransactionsService } from './transactions.service';
 import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 import { PrismaService } from '../prisma.service';
 import { LimitsService } from '../limits/limits.service';
+import type { Request as ExpressRequest } from 'express';
 import * as bcrypt from 'bcrypt';
 
 @Controller('transactions')
@@ -24,9 +28,12 @@ export class TransactionsController {
   ) {}
 
   @UseGuards(AuthGuard)
+  @UseInterceptors(IdempotencyInterceptor)
   @Post('send')
   async sendMoney(
-    @Request() req: { user: { userId: string } },
+    @Request() req: { user: { userId: string; sid: string }; ip?: string },
+    @Headers('idempotency-key') idempotencyKey: string | undefined,
+    @Headers('x-device-fingerprint') deviceFingerprint: string | undefined,
     @Body()
     body: {
       recipientTag: string;
@@ -43,7 +50,9 @@ export class TransactionsController {
       select: { hashedPin: true },
     });
     if (!user?.hashedPin) {
-      throw new UnauthorizedException('Account not ready. Set your PIN in Settings.');
+      throw new UnauthorizedException(
+        'Account not ready. Set your PIN in Settings.',
+      );
     }
     const pinValid = await bcrypt.compare(body.pin, user.hashedPin);
     if (!pinValid) {
@@ -55,13 +64,18 @@ export class TransactionsController {
       body.amount,
       body.description,
       body.pin,
+      idempotencyKey,
+      { deviceFingerprint, ipAddress: req.ip, sessionId: req.user.sid },
     );
   }
 
   @UseGuards(AuthGuard)
+  @UseInterceptors(IdempotencyInterceptor)
   @Post('send-to-bank')
   async sendToBank(
-    @Request() req: { user: { userId: string } },
+    @Request() req: { user: { userId: string; sid: string }; ip?: string },
+    @Headers('idempotency-key') idempotencyKey: string | undefined,
+    @Headers('x-device-fingerprint') deviceFingerprint: string | undefined,
     @Body()
     body: {
       accountNumber: string;
@@ -84,14 +98,15 @@ export class TransactionsController {
       body.amount,
       body.description,
       body.pin,
-      body.idempotencyKey,
+      body.idempotencyKey || idempotencyKey,
+      { deviceFingerprint, ipAddress: req.ip, sessionId: req.user.sid },
     );
   }
 
   @UseGuards(AuthGuard)
   @Get()
   getTransactions(
-    @Request() req: any,
+    @Request() req: ExpressRequest & { user: { userId: string } },
     @Query('type') type?: string,
     @Query('limit') limit?: string,
     @Query('offset') offset?: string,
@@ -106,7 +121,7 @@ export class TransactionsController {
 
   @UseGuards(AuthGuard)
   @Get('balance')
-  getBalance(@Request() req: any) {
+  getBalance(@Request() req: ExpressRequest & { user: { userId: string } }) {
     return this.transactionsService.getBalance(req.user.userId);
   }
 
@@ -4,10 +4,21 @@ import { TransactionsController } from './transactions.controller';
 import { PrismaService } from '../prisma.service';
 import { LimitsModule } from '../limits/limits.module';
 import { HoldsModule } from '../holds/holds.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { EWSModule } from '../ews/ews.module';
+import { OutboxModule } from '../outbox/outbox.module';
 import { PaystackService } from '../services/paystack.service';
 
 @Module({
-  imports: [LimitsModule, HoldsModule],
+  imports: [
+    LimitsModule,
+    HoldsModule,
+    LedgerModule,
+    IdempotencyModule,
+    EWSModule,
+    OutboxModule,
+  ],
   controllers: [TransactionsController],
   providers: [TransactionsService, PrismaService, PaystackService],
   exports: [TransactionsService],
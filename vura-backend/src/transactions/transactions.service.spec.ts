@@ -0,0 +1,143 @@
+import { ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { EWSService } from '../ews/ews.service';
+import { HoldsService } from '../holds/holds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LimitsService } from '../limits/limits.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PrismaService } from '../prisma.service';
+import { PaystackService } from '../services/paystack.service';
+import {
+  scopedIdempotencyKey,
+  TransactionsService,
+} from './transactions.service';
+
+// uuid ships ESM only, which ts-jest does not transform
+jest.mock('uuid', () => ({ v4: () => 'test-uuid' }));
+
+const SENDER = 'user-1';
+const RECIPIENT = 'user-2';
+const KEY = scopedIdempotencyKey(SENDER, 'key-1');
+
+/**
+ * Transfers between Vura users with every collaborator mocked; the
+ * transaction insert fails the way Postgres does when a concurrent request
+ * already stored a transaction under the same idempotency key.
+ */
+describe('TransactionsService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    user: { findUnique: jest.Mock };
+    balance: { findUnique: jest.Mock };
+    transaction: { create: jest.Mock; findFirst: jest.Mock };
+  };
+  let service: TransactionsService;
+
+  const duplicateKey = () =>
+    new Prisma.PrismaClientKnownRequestError(
+      'Unique constraint failed on the fields: (`idempotency_key`)',
+      {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+        meta: { target: ['idempotency_key'] },
+      },
+    );
+  const send = (amount = 5000) =>
+    service.initiatePayment(
+      SENDER,
+      '@ada',
+      amount,
+      'Lunch',
+      undefined,
+      'key-1',
+    );
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn(),
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: RECIPIENT }),
+      },
+      balance: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ amount: new Decimal(100000) }),
+      },
+      transaction: {
+        create: jest.fn().mockRejectedValue(duplicateKey()),
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'tx-1',
+          type: 'send',
+          receiverId: RECIPIENT,
+          amount: new Decimal(5000),
+          reference: 'TXN-1',
+          metadata: { description: 'Lunch', fee: 0 },
+        }),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    const ledger = {
+      transfer: jest.fn().mockResolvedValue({
+        balances: {
+          [LedgerService.user(SENDER)]: {
+            before: new Decimal(100000),
+            after: new Decimal(95000),
+          },
+        },
+      }),
+    };
+    service = new TransactionsService(
+      prisma as unknown as PrismaService,
+      { checkSendLimit: jest.fn() } as unknown as LimitsService,
+      { checkHeldFunds: jest.fn() } as unknown as HoldsService,
+      {} as PaystackService,
+      ledger as unknown as LedgerService,
+      {
+        screenTransaction: jest.fn().mockResolvedValue({ action: 'allow' }),
+      } as unknown as EWSService,
+      { record: jest.fn() } as unknown as OutboxService,
+    );
+  });
+
+  describe('a duplicate idempotency key on a Vura transfer', () => {
+    it('returns the transfer already stored under the key', async () => {
+      await expect(send()).resolves.toEqual({
+        success: true,
+        reference: 'TXN-1',
+        amount: 5000,
+        fee: 0,
+        recipient: '@ada',
+        transactionId: 'tx-1',
+      });
+      expect(prisma.transaction.findFirst).toHaveBeenCalledWith({
+        where: { idempotencyKey: KEY, senderId: SENDER },
+      });
+    });
+
+    it('conflicts when the key was used for a different transfer', async () => {
+      await expect(send(6000)).rejects.toThrow(
+        new ConflictException(
+          'This Idempotency-Key was already used for a different transfer',
+        ),
+      );
+    });
+
+    it('leaves other unique violations alone', async () => {
+      const other = new Prisma.PrismaClientKnownRequestError(
+        'Unique constraint failed on the fields: (`reference`)',
+        {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+          meta: { target: ['reference'] },
+        },
+      );
+      prisma.transaction.create.mockRejectedValue(other);
+
+      await expect(send()).rejects.toBe(other);
+      expect(prisma.transaction.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
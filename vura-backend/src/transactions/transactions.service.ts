@@ -1,17 +1,56 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
   NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma.service';
 import { LimitsService } from '../limits/limits.service';
 import { HoldsService } from '../holds/holds.service';
 import { PaystackService } from '../services/paystack.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { EWSService } from '../ews/ews.service';
+import { OutboxService } from '../outbox/outbox.service';
+import {
+  FraudScore,
+  TransactionRiskInput,
+} from '../services/fraud-detection.service';
 import { v4 as uuidv4 } from 'uuid';
 import * as bcrypt from 'bcrypt';
 import Decimal from 'decimal.js';
 
+/** Request details the risk engine scores alongside transaction history */
+export interface RiskContext {
+  deviceFingerprint?: string;
+  ipAddress?: string;
+  sessionId?: string;
+}
+
+/**
+ * Transaction.idempotencyKey is unique across all users, so a client-supplied
+ * key is stored under the sender's namespace
+ */
+export function scopedIdempotencyKey(userId: string, key: string): string {
+  return `${userId}:${key}`;
+}
+
+/**
+ * Flat Paystack transfer fee tiers, as the largest amount in each tier and
+ * the fee charged within it, smallest first
+ */
+export const BANK_TRANSFER_FEE_TIERS: readonly (readonly [number, number])[] = [
+  [5000, 10],
+  [50000, 25],
+  [Infinity, 50],
+];
+
+/** Flat Paystack transfer fee charged on top of a send-to-bank amount */
+export function bankTransferFee(amount: number): number {
+  return BANK_TRANSFER_FEE_TIERS.find(([max]) => amount <= max)![1];
+}
+
 @Injectable()
 export class TransactionsService {
   constructor(
@@ -19,6 +58,9 @@ export class TransactionsService {
     private limitsService: LimitsService,
     private holdsService: HoldsService,
     private paystackService: PaystackService,
+    private ledger: LedgerService,
+    private ews: EWSService,
+    private outbox: OutboxService,
   ) {}
 
   async initiatePayment(
@@ -27,7 +69,22 @@ export class TransactionsService {
     amount: number,
     description?: string,
     pin?: string,
+    idempotencyKey?: string,
+    riskContext?: RiskContext,
   ) {
+    // Bank payouts go through sendToBank, which runs its own checks
+    if (this.isValidBankAccount(recipient)) {
+      return await this.handleExternalTransfer(
+        senderId,
+        recipient,
+        amount,
+        description,
+        pin,
+        idempotencyKey,
+        riskContext,
+      );
+    }
+
     await this.limitsService.checkSendLimit(
       senderId,
       new Decimal(amount),
@@ -54,6 +111,8 @@ export class TransactionsService {
         recipient,
         amount,
         description,
+        idempotencyKey,
+        riskContext,
       );
     } else if (this.isValidPhoneNumber(recipient)) {
       return await this.handleRequestFlow(
@@ -62,13 +121,6 @@ export class TransactionsService {
         amount,
         description,
       );
-    } else if (this.isValidBankAccount(recipient)) {
-      return await this.handleExternalTransfer(
-        senderId,
-        recipient,
-        amount,
-        description,
-      );
     } else {
       throw new BadRequestException('Invalid recipient format');
     }
@@ -79,6 +131,8 @@ export class TransactionsService {
     recipientTag: string,
     amount: number,
     description?: string,
+    clientIdempotencyKey?: string,
+    riskContext?: RiskContext,
   ) {
     const recipient = await this.prisma.user.findUnique({
       where: { vuraTag: recipientTag },
@@ -100,79 +154,164 @@ export class TransactionsService {
       throw new BadRequestException('Insufficient balance');
     }
 
+    const riskInput: TransactionRiskInput = {
+      userId: senderId,
+      amount,
+      channel: 'internal',
+      recipientId: recipient.id,
+      ...riskContext,
+    };
+    const risk = await this.ews.screenTransaction(riskInput);
+
     // Vura-to-Vura transfers are free
     const fee = 0;
     const total = amount;
-    const idempotencyKey = uuidv4();
+    const clientKey = clientIdempotencyKey?.trim();
+    const idempotencyKey = clientKey
+      ? scopedIdempotencyKey(senderId, clientKey)
+      : uuidv4();
     const reference = `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    return await this.prisma.$transaction(async (tx) => {
-      const beforeBalance = Number(senderBalance.amount);
-      await tx.balance.update({
-        where: { id: senderBalance.id },
-        data: { amount: beforeBalance - total, lastUpdatedBy: 'user' },
-      });
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const posting = await this.ledger.transfer(tx, {
+          reference,
+          type: 'transfer',
+          from: LedgerService.user(senderId),
+          to: LedgerService.user(recipient.id),
+          amount: total,
+          description,
+        });
+        const senderSnapshot = posting.balances[LedgerService.user(senderId)];
+        const beforeBalance = senderSnapshot.before.toNumber();
 
-      const recipientBalance = await tx.balance.findUnique({
-        where: { userId_currency: { userId: recipient.id, currency: 'NGN' } },
-      });
+        // Rules with a 'delay' action hold the transfer for their holdHours
+        const held = risk.action === 'hold';
+        const heldUntil = held
+          ? this.holdsService.calculateHoldExpiry(risk.holdHours!)
+          : null;
 
-      const recipientBefore = Number(recipientBalance?.amount || 0);
-      const recipientAfter = recipientBefore + amount;
-      await tx.balance.upsert({
-        where: { userId_currency: { userId: recipient.id, currency: 'NGN' } },
-        create: { userId: recipient.id, currency: 'NGN', amount: recipientAfter, lastUpdatedBy: 'user' },
-        update: { amount: recipientAfter, lastUpdatedBy: 'user' },
-      });
+        const transaction = await tx.transaction.create({
+          data: {
+            senderId,
+            receiverId: recipient.id,
+            amount,
+            currency: 'NGN',
+            type: 'send',
+            status: held ? 'HELD' : 'SUCCESS',
+            idempotencyKey,
+            reference,
+            beforeBalance,
+            afterBalance: senderSnapshot.after.toNumber(),
+            isFlagged: risk.action !== 'allow',
+            flagReason: this.riskFlagReason(risk),
+            heldUntil,
+            metadata: { description, fee },
+          },
+        });
+        await this.ews.recordAssessment(tx, transaction.id, riskInput, risk);
 
-      const { shouldFlag, reason } =
-        await this.holdsService.shouldFlagTransaction(
-          senderId,
-          new Decimal(amount),
-          1,
-        );
+        await tx.auditLog.create({
+          data: {
+            action: 'SEND_MONEY',
+            userId: senderId,
+            actorType: 'user',
+            metadata: { recipientTag, amount, fee, reference },
+          },
+        });
 
-      const heldUntil = shouldFlag
-        ? this.holdsService.calculateHoldExpiry()
-        : null;
+        await this.outbox.record(
+          tx,
+          'TransferCompleted',
+          {
+            transactionId: transaction.id,
+            reference,
+            senderId,
+            receiverId: recipient.id,
+            amount: String(amount),
+            currency: 'NGN',
+            description,
+            held,
+          },
+          transaction.id,
+        );
+        if (held) {
+          await this.outbox.record(
+            tx,
+            'HoldPlaced',
+            {
+              transactionId: transaction.id,
+              userId: senderId,
+              amount: String(amount),
+              reason: transaction.flagReason,
+              heldUntil: heldUntil?.toISOString() ?? null,
+            },
+            transaction.id,
+          );
+        }
 
-      const transaction = await tx.transaction.create({
-        data: {
-          senderId,
-          receiverId: recipient.id,
-          amount,
-          currency: 'NGN',
-          type: 'send',
-          status: shouldFlag ? 'HELD' : 'SUCCESS',
-          idempotencyKey,
+        return {
+          success: true,
           reference,
-          beforeBalance,
-          afterBalance: beforeBalance - total,
-          isFlagged: shouldFlag,
-          flagReason: reason,
-          heldUntil,
-          metadata: { description, fee },
-        },
-      });
-
-      await tx.auditLog.create({
-        data: {
-          action: 'SEND_MONEY',
-          userId: senderId,
-          actorType: 'user',
-          metadata: { recipientTag, amount, fee, reference },
-        },
+          amount,
+          fee,
+          recipient: recipientTag,
+          transactionId: transaction.id,
+        };
       });
+    } catch (error) {
+      // A retry with the same key got past the checks above while the first
+      // request was still writing; its debit rolled back with this error
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002' &&
+        /idempotency_?key/i.test(String(error.meta?.target))
+      ) {
+        return await this.replayInternalTransfer(
+          senderId,
+          idempotencyKey,
+          recipient.id,
+          recipientTag,
+          amount,
+        );
+      }
+      throw error;
+    }
+  }
 
-      return {
-        success: true,
-        reference,
-        amount,
-        fee,
-        recipient: recipientTag,
-        transactionId: transaction.id,
-      };
+  /**
+   * The result of the transfer already stored under this key, provided it
+   * went to the same recipient for the same amount
+   */
+  private async replayInternalTransfer(
+    senderId: string,
+    idempotencyKey: string,
+    recipientId: string,
+    recipientTag: string,
+    amount: number,
+  ) {
+    const existing = await this.prisma.transaction.findFirst({
+      where: { idempotencyKey, senderId },
     });
+    if (
+      !existing ||
+      existing.type !== 'send' ||
+      existing.receiverId !== recipientId ||
+      Number(existing.amount) !== amount
+    ) {
+      throw new ConflictException(
+        'This Idempotency-Key was already used for a different transfer',
+      );
+    }
+    const meta = (existing.metadata as Record<string, unknown>) || {};
+    return {
+      success: true,
+      reference: existing.reference,
+      amount,
+      fee: (meta.fee as number) ?? 0,
+      recipient: recipientTag,
+      transactionId: existing.id,
+    };
   }
 
   private async handleRequestFlow(
@@ -205,16 +344,20 @@ export class TransactionsService {
     };
   }
 
+  /**
+   * A `accountNumber:bankCode` recipient: resolve the account name, then pay
+   * out like any other send-to-bank
+   */
   private async handleExternalTransfer(
     senderId: string,
     bankDetails: string,
     amount: number,
     description?: string,
+    pin?: string,
+    idempotencyKey?: string,
+    riskContext?: RiskContext,
   ) {
     const [accountNumber, bankCode] = bankDetails.split(':');
-    if (!accountNumber || !bankCode) {
-      throw new BadRequestException('Invalid bank account format');
-    }
 
     let accountName: string;
     try {
@@ -227,74 +370,22 @@ export class TransactionsService {
       throw new BadRequestException('Could not verify bank account');
     }
 
-    const senderBalance = await this.prisma.balance.findUnique({
-      where: { userId_currency: { userId: senderId, currency: 'NGN' } },
-    });
-
-    if (!senderBalance || Number(senderBalance.amount) < amount) {
-      throw new BadRequestException('Insufficient balance');
-    }
-
-    const fee = amount <= 5000 ? 10 : amount <= 50000 ? 25 : 50;
-    const stampDuty = 0;
-    const total = amount + fee + stampDuty;
-    const idempotencyKey = uuidv4();
-    const reference = `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    const transaction = await this.prisma.transaction.create({
-      data: {
-        senderId,
-        amount,
-        currency: 'NGN',
-        type: 'external_transfer',
-        status: 'PENDING',
-        idempotencyKey,
-        reference,
-        beforeBalance: Number(senderBalance.amount),
-        afterBalance: Number(senderBalance.amount) - total,
-        metadata: {
-          description,
-          fee,
-          stampDuty,
-          accountNumber,
-          bankCode,
-          accountName,
-        },
-      },
-    });
-
-    try {
-      const transferResult = await this.paystackService.initiateTransfer(
-        accountNumber,
-        bankCode,
-        accountName,
-        amount,
-        reference,
-        description,
-      );
-
-      await this.prisma.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          providerTxId: transferResult.reference,
-          status: 'PENDING',
-        },
-      });
+    return this.sendToBank(
+      senderId,
+      accountNumber,
+      bankCode,
+      accountName,
+      amount,
+      description,
+      pin,
+      idempotencyKey,
+      riskContext,
+    );
+  }
 
-      return {
-        success: true,
-        reference: transferResult.reference,
-        amount,
-        fee,
-        stampDuty,
-        totalDeduction: total,
-        accountName,
-        transactionId: transaction.id,
-      };
-    } catch (error) {
-      await this.prisma.transaction.delete({ where: { id: transaction.id } });
-      throw error;
-    }
+  private riskFlagReason(risk: FraudScore): string | undefined {
+    if (risk.action === 'allow') return undefined;
+    return `Risk score ${risk.score}/100: ${risk.reasons.join('; ')}`;
   }
 
   private isValidVuraTag(tag: string): boolean {
@@ -339,6 +430,15 @@ export class TransactionsService {
           ? `${String(billType).charAt(0).toUpperCase()}${String(billType).slice(1)}`
           : 'Bills';
       }
+      if (tx.type === 'swap') {
+        const meta = (tx.metadata as Record<string, unknown>) || {};
+        counterparty = `Swap to ${String(meta.toCurrency)}`;
+      }
+      if (tx.type === 'crypto_withdrawal') {
+        const meta = (tx.metadata as Record<string, unknown>) || {};
+        const address = (meta.address as string | undefined) ?? '';
+        counterparty = `${meta.network as string} ${address.slice(0, 6)}…${address.slice(-4)}`;
+      }
       return {
         id: tx.id,
         type: tx.type,
@@ -381,8 +481,18 @@ export class TransactionsService {
     amount: number,
     description?: string,
     pin?: string,
+    idempotencyKey?: string,
+    riskContext?: RiskContext,
   ) {
-    return this.initiatePayment(senderId, recipient, amount, description, pin);
+    return this.initiatePayment(
+      senderId,
+      recipient,
+      amount,
+      description,
+      pin,
+      idempotencyKey,
+      riskContext,
+    );
   }
 
   /**
@@ -423,12 +533,17 @@ export class TransactionsService {
     description?: string,
     pin?: string,
     idempotencyKey?: string,
+    riskContext?: RiskContext,
+    metadata?: Record<string, unknown>,
   ) {
     if (!this.paystackService.isConfigured()) {
       throw new BadRequestException('Send to bank is not available.');
     }
 
-    const key = idempotencyKey?.trim() || uuidv4();
+    const clientKey = idempotencyKey?.trim();
+    const key = clientKey
+      ? scopedIdempotencyKey(senderId, clientKey)
+      : uuidv4();
     const existing = await this.prisma.transaction.findFirst({
       where: { idempotencyKey: key, senderId },
     });
@@ -501,17 +616,48 @@ export class TransactionsService {
       throw new BadRequestException('Insufficient balance.');
     }
 
-    const fee = amount <= 5000 ? 10 : amount <= 50000 ? 25 : 50;
+    const fee = bankTransferFee(amount);
     const total = amount + fee;
     const beforeBalance = Number(senderBalance.amount);
     if (beforeBalance < total) {
       throw new BadRequestException('Insufficient balance.');
     }
 
+    // A payout cannot be held once Paystack has it, so 'hold' only flags for review here
+    const riskInput: TransactionRiskInput = {
+      userId: senderId,
+      amount,
+      channel: 'bank',
+      accountNumber: nuban,
+      bankCode,
+      ...riskContext,
+    };
+    const risk = await this.ews.screenTransaction(riskInput);
+
     const reference = `VUR-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const transaction = await this.prisma.$transaction(async (tx) => {
-      const t = await tx.transaction.create({
+      const posting = await this.ledger.post(tx, {
+        reference,
+        type: 'bank_transfer',
+        description: description || 'Vura transfer',
+        legs: [
+          {
+            account: LedgerService.user(senderId),
+            direction: 'debit',
+            amount: total,
+          },
+          {
+            account: LedgerService.external('paystack'),
+            direction: 'credit',
+            amount,
+          },
+          { account: LedgerService.fees(), direction: 'credit', amount: fee },
+        ],
+      });
+      const { before, after } = posting.balances[LedgerService.user(senderId)];
+
+      const created = await tx.transaction.create({
         data: {
           senderId,
           amount,
@@ -520,9 +666,12 @@ export class TransactionsService {
           status: 'PENDING',
           idempotencyKey: key,
           reference,
-          beforeBalance: beforeBalance,
-          afterBalance: beforeBalance - total,
+          beforeBalance: before.toNumber(),
+          afterBalance: after.toNumber(),
+          isFlagged: risk.action !== 'allow',
+          flagReason: this.riskFlagReason(risk),
           metadata: {
+            ...metadata,
             description,
             fee,
             accountNumber: nuban,
@@ -532,16 +681,8 @@ export class TransactionsService {
           },
         },
       });
-
-      await tx.balance.update({
-        where: { id: senderBalance.id },
-        data: {
-          amount: beforeBalance - total,
-          lastUpdatedBy: 'user',
-        },
-      });
-
-      return t;
+      await this.ews.recordAssessment(tx, created.id, riskInput, risk);
+      return created;
     });
 
     try {
@@ -573,13 +714,7 @@ export class TransactionsService {
       };
     } catch (err) {
       await this.prisma.$transaction(async (tx) => {
-        await tx.balance.update({
-          where: { id: senderBalance.id },
-          data: {
-            amount: beforeBalance,
-            lastUpdatedBy: 'user',
-          },
-        });
+        await this.ledger.reverse(tx, reference, 'refund');
         await tx.transaction.update({
           where: { id: transaction.id },
           data: { status: 'FAILED' },
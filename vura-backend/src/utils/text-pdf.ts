@@ -0,0 +1,86 @@
+/**
+ * Minimal PDF writer for plain-text documents such as statements.
+ *
+ * Lines are set in Courier on A4 pages, so columns padded with spaces line
+ * up. Only Latin-1 text can be drawn with the built-in fonts; anything else
+ * (e.g. the naira sign) is replaced with '?', so write amounts as "NGN".
+ */
+
+export type PdfLine = string | { text: string; bold?: boolean };
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LEADING = 12;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const pageContent = (lines: PdfLine[]): string => {
+  const ops = [
+    'BT',
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LEADING} TL`,
+    `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+  ];
+  for (const line of lines) {
+    const { text, bold } = typeof line === 'string' ? { text: line } : line;
+    if (bold) ops.push(`/F2 ${FONT_SIZE} Tf`);
+    ops.push(`(${escapeText(text)}) Tj T*`);
+    if (bold) ops.push(`/F1 ${FONT_SIZE} Tf`);
+  }
+  ops.push('ET');
+  return ops.join('\n');
+};
+
+/**
+ * Render lines of text into a PDF, breaking onto new pages as needed
+ */
+export const renderTextPdf = (lines: PdfLine[]): Buffer => {
+  const pages: PdfLine[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+  );
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold >>');
+  pages.forEach((page, i) => {
+    const content = pageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    body += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+};
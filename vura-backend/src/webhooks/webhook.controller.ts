@@ -17,6 +17,12 @@ import * as crypto from 'crypto';
 import { PrismaService } from '../prisma.service';
 import { LimitsService } from '../limits/limits.service';
 import { CloudinaryService } from '../services/cloudinary.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OtpDeliveryService } from '../otp/otp-delivery.service';
+import { TermiiService } from '../services/termii.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PaymentLinksService } from '../payment-links/payment-links.service';
+import { Prisma, Transaction } from '@prisma/client';
 import Decimal from 'decimal.js';
 
 @Controller('webhooks')
@@ -24,12 +30,18 @@ export class WebhookController {
   private readonly logger = new Logger(WebhookController.name);
   private readonly monnifySecret: string;
   private readonly paystackSecret: string;
+  private readonly termiiSecret: string;
 
   constructor(
     private config: ConfigService,
     private prisma: PrismaService,
     private limitsService: LimitsService,
     private cloudinary: CloudinaryService,
+    private ledger: LedgerService,
+    private otpDelivery: OtpDeliveryService,
+    private termii: TermiiService,
+    private outbox: OutboxService,
+    private paymentLinks: PaymentLinksService,
   ) {
     this.monnifySecret = this.config.get('MONNIFY_WEBHOOK_SECRET') || '';
     // Paystack signs webhooks with the secret key; no separate webhook secret is issued
@@ -37,6 +49,7 @@ export class WebhookController {
       this.config.get('PAYSTACK_WEBHOOK_SECRET') ||
       this.config.get('PAYSTACK_SECRET_KEY') ||
       '';
+    this.termiiSecret = this.config.get('TERMII_WEBHOOK_SECRET') || '';
   }
 
   // ============================================
@@ -164,42 +177,18 @@ export class WebhookController {
 
     // Atomic credit transaction
     await this.prisma.$transaction(async (tx) => {
-      const balance = await tx.balance.findUnique({
-        where: {
-          userId_currency: {
-            userId: user.id,
-            currency: 'NGN',
-          },
-        },
-      });
-
-      const beforeBalance = balance
-        ? new Decimal(balance.amount.toString())
-        : new Decimal(0);
-      const afterBalance = beforeBalance.add(amount);
-
-      // Credit balance
-      await tx.balance.upsert({
-        where: {
-          userId_currency: {
-            userId: user.id,
-            currency: 'NGN',
-          },
-        },
-        create: {
-          userId: user.id,
-          currency: 'NGN',
-          amount: afterBalance.toNumber(),
-          lastUpdatedBy: 'monnify_deposit',
-        },
-        update: {
-          amount: afterBalance.toNumber(),
-          lastUpdatedBy: 'monnify_deposit',
-        },
+      const posting = await this.ledger.transfer(tx, {
+        reference: `MONNIFY-${reference}`,
+        type: 'deposit',
+        from: LedgerService.external('monnify'),
+        to: LedgerService.user(user.id),
+        amount,
       });
+      const { before: beforeBalance, after: afterBalance } =
+        posting.balances[LedgerService.user(user.id)];
 
       // Create transaction record
-      await tx.transaction.create({
+      const transaction = await tx.transaction.create({
         data: {
           receiverId: user.id,
           amount: amount.toNumber(),
@@ -234,6 +223,20 @@ export class WebhookController {
           ipAddress: req.ip || undefined,
         },
       });
+
+      await this.outbox.record(
+        tx,
+        'DepositCredited',
+        {
+          transactionId: transaction.id,
+          reference: `MONNIFY-${reference}`,
+          userId: user.id,
+          amount: amount.toString(),
+          currency: 'NGN',
+          source: 'monnify',
+        },
+        transaction.id,
+      );
     });
 
     this.logger.log(
@@ -364,6 +367,11 @@ export class WebhookController {
     const amount = new Decimal(amountKobo).div(100);
     const auth = data.authorization || {};
 
+    // Payment link checkout: no wallet transaction exists until it settles
+    if (data.metadata?.type === 'payment_link') {
+      return this.paymentLinks.settleCardPayment(String(reference), amount);
+    }
+
     // 1) Funding flow: transaction created when user initiated Paystack payment (card/bank)
     const transaction = await this.prisma.transaction.findUnique({
       where: { reference },
@@ -376,25 +384,14 @@ export class WebhookController {
       const meta = transaction.metadata as Record<string, unknown> | null;
       if (meta?.type === 'admin_float_topup') {
         await this.prisma.$transaction(async (tx) => {
-          const row = await tx.businessBalance.findUnique({
-            where: { currency: 'NGN' },
-          });
-          const before = row
-            ? new Decimal(String(row.amount))
-            : new Decimal(0);
-          const after = before.add(amount);
-          await tx.businessBalance.upsert({
-            where: { currency: 'NGN' },
-            create: {
-              currency: 'NGN',
-              amount: after.toNumber(),
-              lastUpdatedBy: 'paystack_admin_float',
-            },
-            update: {
-              amount: after.toNumber(),
-              lastUpdatedBy: 'paystack_admin_float',
-            },
+          const posting = await this.ledger.transfer(tx, {
+            reference,
+            type: 'float_topup',
+            from: LedgerService.external('paystack'),
+            to: LedgerService.float(),
+            amount,
           });
+          const { before, after } = posting.balances[LedgerService.float()];
           await tx.transaction.update({
             where: { id: transaction.id },
             data: {
@@ -423,24 +420,14 @@ export class WebhookController {
         return { status: 'no_user' };
       }
       await this.prisma.$transaction(async (tx) => {
-        const balance = await tx.balance.findUnique({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-        });
-        const before = new Decimal(balance?.amount?.toString() ?? '0');
-        const after = before.add(amount);
-        await tx.balance.upsert({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-          create: {
-            userId,
-            currency: 'NGN',
-            amount: after.toNumber(),
-            lastUpdatedBy: 'paystack_charge',
-          },
-          update: {
-            amount: after.toNumber(),
-            lastUpdatedBy: 'paystack_charge',
-          },
+        const posting = await this.ledger.transfer(tx, {
+          reference,
+          type: 'deposit',
+          from: LedgerService.external('paystack'),
+          to: LedgerService.user(userId),
+          amount,
         });
+        const { before, after } = posting.balances[LedgerService.user(userId)];
         await tx.transaction.update({
           where: { id: transaction.id },
           data: {
@@ -449,6 +436,19 @@ export class WebhookController {
             afterBalance: after.toNumber(),
           },
         });
+        await this.outbox.record(
+          tx,
+          'DepositCredited',
+          {
+            transactionId: transaction.id,
+            reference: String(reference),
+            userId,
+            amount: amount.toString(),
+            currency: 'NGN',
+            source: 'paystack',
+          },
+          transaction.id,
+        );
       });
       await this.prisma.auditLog.create({
         data: {
@@ -483,25 +483,15 @@ export class WebhookController {
       }
       const userId = user.id;
       await this.prisma.$transaction(async (tx) => {
-        const balance = await tx.balance.findUnique({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-        });
-        const before = new Decimal(balance?.amount?.toString() ?? '0');
-        const after = before.add(amount);
-        await tx.balance.upsert({
-          where: { userId_currency: { userId, currency: 'NGN' } },
-          create: {
-            userId,
-            currency: 'NGN',
-            amount: after.toNumber(),
-            lastUpdatedBy: 'paystack_dva',
-          },
-          update: {
-            amount: after.toNumber(),
-            lastUpdatedBy: 'paystack_dva',
-          },
+        const posting = await this.ledger.transfer(tx, {
+          reference: `DVA-${reference}`,
+          type: 'deposit',
+          from: LedgerService.external('paystack'),
+          to: LedgerService.user(userId),
+          amount,
         });
-        await tx.transaction.create({
+        const { before, after } = posting.balances[LedgerService.user(userId)];
+        const transaction = await tx.transaction.create({
           data: {
             senderId: null,
             receiverId: userId,
@@ -520,6 +510,19 @@ export class WebhookController {
             },
           },
         });
+        await this.outbox.record(
+          tx,
+          'DepositCredited',
+          {
+            transactionId: transaction.id,
+            reference: `DVA-${reference}`,
+            userId,
+            amount: amount.toString(),
+            currency: 'NGN',
+            source: 'paystack_dva',
+          },
+          transaction.id,
+        );
       });
       await this.prisma.auditLog.create({
         data: {
@@ -543,13 +546,10 @@ export class WebhookController {
   }
 
   private async handlePaystackTransferSuccess(data: any, req: Request) {
-    const reference = data.reference;
+    const reference = data.reference as string;
     const amount = new Decimal(data.amount);
 
-    // Find the transaction
-    const transaction = await this.prisma.transaction.findUnique({
-      where: { idempotencyKey: reference },
-    });
+    const transaction = await this.findPaystackTransfer(reference);
 
     if (!transaction) {
       this.logger.warn('Paystack: Transaction not found', { reference });
@@ -586,44 +586,19 @@ export class WebhookController {
   }
 
   private async handlePaystackTransferFailed(data: any) {
-    const reference = data.reference;
+    const reference = data.reference as string;
     const reason = data.reason;
 
-    // Find the transaction
-    const transaction = await this.prisma.transaction.findUnique({
-      where: { idempotencyKey: reference },
-    });
+    const transaction = await this.findPaystackTransfer(reference);
 
-    if (transaction) {
-      // Refund the amount back to user
+    if (
+      transaction &&
+      transaction.status !== 'FAILED' &&
+      transaction.status !== 'REVERSED'
+    ) {
+      // Refund the debit (amount and fee) back to user
       await this.prisma.$transaction(async (tx) => {
-        const balance = await tx.balance.findUnique({
-          where: {
-            userId_currency: {
-              userId: transaction.senderId!,
-              currency: 'NGN',
-            },
-          },
-        });
-
-        const beforeBalance = balance
-          ? new Decimal(balance.amount.toString())
-          : new Decimal(0);
-        const transAmount = new Decimal(transaction.amount);
-        const afterBalance = beforeBalance.add(transAmount);
-
-        await tx.balance.update({
-          where: {
-            userId_currency: {
-              userId: transaction.senderId!,
-              currency: 'NGN',
-            },
-          },
-          data: {
-            amount: afterBalance.toNumber(),
-            lastUpdatedBy: 'paystack_refund',
-          },
-        });
+        await this.refundTransfer(tx, transaction, 'refund');
 
         await tx.transaction.update({
           where: { id: transaction.id },
@@ -641,43 +616,17 @@ export class WebhookController {
   }
 
   private async handlePaystackTransferReversed(data: any) {
-    const reference = data.reference;
-    const amount = data.amount;
+    const reference = data.reference as string;
 
-    // Find and refund transaction
-    const transaction = await this.prisma.transaction.findUnique({
-      where: { idempotencyKey: reference },
-    });
+    const transaction = await this.findPaystackTransfer(reference);
 
     if (transaction && transaction.status === 'SUCCESS') {
       await this.prisma.$transaction(async (tx) => {
-        const balance = await tx.balance.findUnique({
-          where: {
-            userId_currency: {
-              userId: transaction.senderId!,
-              currency: 'NGN',
-            },
-          },
-        });
-
-        const beforeBalance = balance
-          ? new Decimal(balance.amount.toString())
-          : new Decimal(0);
-        const refundAmount = new Decimal(amount);
-        const afterBalance = beforeBalance.add(refundAmount);
-
-        await tx.balance.update({
-          where: {
-            userId_currency: {
-              userId: transaction.senderId!,
-              currency: 'NGN',
-            },
-          },
-          data: {
-            amount: afterBalance.toNumber(),
-            lastUpdatedBy: 'paystack_reversal',
-          },
-        });
+        const refundAmount = await this.refundTransfer(
+          tx,
+          transaction,
+          'reversal',
+        );
 
         await tx.transaction.update({
           where: { id: transaction.id },
@@ -705,6 +654,49 @@ export class WebhookController {
     return { status: 'reversed' };
   }
 
+  /**
+   * The transfer a Paystack transfer event is about. The event carries the
+   * reference we sent, which sendToBank keeps as the transaction reference
+   * and, unless Paystack returned its own, as providerTxId.
+   */
+  private findPaystackTransfer(reference: string) {
+    return this.prisma.transaction.findFirst({
+      where: {
+        type: 'external_transfer',
+        OR: [{ reference }, { providerTxId: reference }],
+      },
+    });
+  }
+
+  /**
+   * Reverse the ledger posting of an outbound transfer. Transfers made before
+   * the ledger existed have no journal, so fall back to returning the amount.
+   */
+  private async refundTransfer(
+    tx: Prisma.TransactionClient,
+    transaction: Transaction,
+    type: string,
+  ): Promise<Decimal> {
+    const reference = transaction.reference ?? transaction.idempotencyKey;
+    const posting = await this.ledger.reverse(tx, reference, type);
+    const senderAccount = LedgerService.user(transaction.senderId!);
+
+    if (posting) {
+      const { before, after } = posting.balances[senderAccount];
+      return after.sub(before);
+    }
+
+    const amount = new Decimal(transaction.amount.toString());
+    await this.ledger.transfer(tx, {
+      reference,
+      type,
+      from: LedgerService.external('paystack'),
+      to: senderAccount,
+      amount,
+    });
+    return amount;
+  }
+
   // ============================================
   // PREMBLY SDK WEBHOOK (full identity: BVN + NIN + face)
   // ============================================
@@ -889,6 +881,45 @@ export class WebhookController {
     }
   }
 
+  // ============================================
+  // TERMII DELIVERY REPORTS
+  // ============================================
+
+  /**
+   * Delivery reports for OTPs sent by SMS/WhatsApp through Termii
+   */
+  @Post('termii')
+  @HttpCode(200)
+  async handleTermiiWebhook(
+    @Body() payload: any,
+    @Headers('x-termii-signature') signature: string,
+    @Req() req: Request,
+  ) {
+    const rawBody = JSON.stringify(payload);
+    if (!this.verifyTermiiSignature(rawBody, signature)) {
+      this.logger.error('Invalid Termii webhook signature', { ip: req.ip });
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    const messageId = String(payload.message_id || payload.id || '');
+    const reported = String(payload.status || '');
+    if (!messageId) {
+      throw new BadRequestException('Missing message id');
+    }
+
+    // Interim states such as "Message Sent" change nothing
+    const status = this.termii.deliveryStatus(reported);
+    if (!status) return { received: true };
+
+    await this.otpDelivery.recordStatus(
+      this.termii.name,
+      messageId,
+      status,
+      reported,
+    );
+    return { received: true };
+  }
+
   // ============================================
   // SIGNATURE VERIFICATION HELPERS
   // ============================================
@@ -931,4 +962,21 @@ export class WebhookController {
 
     return signature === expected;
   }
+
+  /**
+   * Verify Termii webhook signature
+   */
+  private verifyTermiiSignature(payload: string, signature: string): boolean {
+    if (!this.termiiSecret) {
+      this.logger.error('TERMII_WEBHOOK_SECRET not configured!');
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha512', this.termiiSecret)
+      .update(payload, 'utf8')
+      .digest('hex');
+
+    return signature === expected;
+  }
 }